@@ -0,0 +1,52 @@
+import { FoodImportService } from '../services/foodImportService';
+import { closeDatabase } from '../config/database';
+import { USDA_DATA_TYPE_ORDER } from '../data/usdaNutrients';
+
+const usage = `Usage: import-foods <source> [--type <data types>]
+
+Import foods from a USDA FoodData Central bulk download (https://fdc.nal.usda.gov/download-datasets)
+into the local food database. Foods imported before are replaced.
+
+Arguments:
+  source              A JSON download (e.g. FoodData_Central_foundation_food_json_*.json)
+                      or the directory of an extracted CSV download (food.csv, food_nutrient.csv, ...);
+                      files not in fdc_id order, as downloaded, are sorted in the temp directory first
+
+Options:
+  --type <types>      Comma-separated data types to import (default: all)
+                      ${USDA_DATA_TYPE_ORDER.join(', ')}`;
+
+const parseDataTypes = (value: string | undefined): string[] => {
+  const dataTypes = (value || '').split(',').map(dataType => dataType.trim()).filter(Boolean);
+  const unknown = dataTypes.filter(dataType => !USDA_DATA_TYPE_ORDER.includes(dataType));
+  if (dataTypes.length === 0 || unknown.length > 0) {
+    throw new Error(`--type must list data types among: ${USDA_DATA_TYPE_ORDER.join(', ')}`);
+  }
+  return dataTypes;
+};
+
+const run = async (): Promise<void> => {
+  const args = process.argv.slice(2);
+  const typeIndex = args.indexOf('--type');
+  const dataTypes = typeIndex >= 0 ? parseDataTypes(args[typeIndex + 1]) : undefined;
+  const [source] = args.filter((_, index) => typeIndex < 0 || (index !== typeIndex && index !== typeIndex + 1));
+
+  if (!source || source === '--help') {
+    console.log(usage);
+    process.exitCode = source ? 0 : 1;
+    return;
+  }
+
+  const summary = await FoodImportService.importFoods(source, dataTypes);
+  console.log(`Imported ${summary.imported} foods from ${summary.source} (${summary.skipped} skipped)`);
+  Object.entries(summary.byDataType).forEach(([dataType, count]) => {
+    console.log(`  ${dataType.padEnd(16)} ${count}`);
+  });
+};
+
+run()
+  .catch((error) => {
+    console.error('Food import failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
@@ -0,0 +1,63 @@
+import { Migrator } from '../migrations/migrator';
+import { closeDatabase } from '../config/database';
+
+const usage = `Usage: migrate <command> [argument]
+
+Commands:
+  up [version]     Apply pending migrations (up to version, if given)
+  down [steps]     Roll back the last applied migration(s) (default: 1)
+  status           Show applied and pending migrations`;
+
+const parseNumber = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = parseInt(value);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive number`);
+  }
+  return parsed;
+};
+
+const run = async (): Promise<void> => {
+  const [command, argument] = process.argv.slice(2);
+
+  switch (command) {
+    case 'up': {
+      const applied = await Migrator.migrate(parseNumber(argument, 'version'));
+      console.log(applied.length > 0 ?
+        applied.map(migration => `Applied ${migration.version} ${migration.name}`).join('\n') :
+        'Database is up to date');
+      break;
+    }
+
+    case 'down': {
+      const reverted = await Migrator.rollback(parseNumber(argument, 'steps') || 1);
+      console.log(reverted.length > 0 ?
+        reverted.map(migration => `Reverted ${migration.version} ${migration.name}`).join('\n') :
+        'No migrations to roll back');
+      break;
+    }
+
+    case 'status': {
+      const statuses = await Migrator.status();
+      statuses.forEach(migration => {
+        const state = migration.applied ? `applied ${new Date(migration.applied_at as Date).toISOString()}` : 'pending';
+        console.log(`${String(migration.version).padStart(3, '0')}  ${migration.name.padEnd(30)} ${state}`);
+      });
+      break;
+    }
+
+    default:
+      console.log(usage);
+      process.exitCode = command ? 1 : 0;
+  }
+};
+
+run()
+  .catch((error) => {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
@@ -1,5 +1,5 @@
 import dotenv from 'dotenv';
-import { AppConfig } from '../types';
+import { AppConfig, StorageDriver } from '../types';
 
 // Load environment variables
 dotenv.config();
@@ -20,6 +20,17 @@ export const config: AppConfig = {
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880'), // 5MB
   uploadPath: process.env.UPLOAD_PATH || 'uploads/',
   frontendUrl: process.env.FRONTEND_URL!,
+  storageDriver: (process.env.STORAGE_DRIVER || 'mysql') as StorageDriver,
+  dbMigrateOnStartup: process.env.DB_MIGRATE_ON_STARTUP === 'true',
+  weekRolloverEnabled: process.env.WEEK_ROLLOVER_ENABLED !== 'false',
+  weekRolloverIntervalMs: parseInt(process.env.WEEK_ROLLOVER_INTERVAL_MS || '900000'), // 15 minutes
+  weekRolloverAdjustIntensity: process.env.WEEK_ROLLOVER_ADJUST_INTENSITY === 'true',
+  weekRolloverMaxAttempts: parseInt(process.env.WEEK_ROLLOVER_MAX_ATTEMPTS || '5'),
+  usdaRemoteFallback: process.env.USDA_REMOTE_FALLBACK !== 'false',
+  usdaCacheMaxEntries: parseInt(process.env.USDA_CACHE_MAX_ENTRIES || '1000'),
+  usdaCacheFoodTtlMs: parseInt(process.env.USDA_CACHE_FOOD_TTL_MS || '604800000'), // 7 days
+  usdaCacheSearchTtlMs: parseInt(process.env.USDA_CACHE_SEARCH_TTL_MS || '86400000'), // 1 day
+  usdaCachePersistent: process.env.USDA_CACHE_PERSISTENT === 'true',
 };
 
 // Validate required environment variables
@@ -32,6 +43,10 @@ export const validateConfig = (): void => {
     throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
   }
   
+  if (!['mysql', 'memory'].includes(config.storageDriver)) {
+    throw new Error(`Unsupported STORAGE_DRIVER "${config.storageDriver}" (expected "mysql" or "memory")`);
+  }
+
   // ✅ CRITICAL: Validate frontend URL in production
   if (!config.frontendUrl) {
     throw new Error('FRONTEND_URL environment variable is required');
@@ -43,6 +58,10 @@ export const validateConfig = (): void => {
   }
   
   if (config.nodeEnv === 'production') {
+    if (config.storageDriver !== 'mysql') {
+      throw new Error('STORAGE_DRIVER must be "mysql" in production');
+    }
+
     const productionRequiredVars = ['DB_PASSWORD', 'DB_HOST', 'DB_NAME', 'FRONTEND_URL'];
     const missingProdVars = productionRequiredVars.filter(varName => !process.env[varName]);
     
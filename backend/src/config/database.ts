@@ -34,57 +34,6 @@ export const testConnection = async (): Promise<void> => {
   }
 };
 
-// Initialize database tables (Only 2 tables as per requirements)
-export const initializeDatabase = async (): Promise<void> => {
-  try {
-    const connection = await pool.getConnection();
-    
-    // Create Users table
-    await connection.execute(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(255) NOT NULL,
-        email VARCHAR(255) UNIQUE NOT NULL,
-        password VARCHAR(255) NOT NULL,
-        age INT,
-        gender ENUM('male', 'female', 'other'),
-        height DECIMAL(5,2),
-        weight DECIMAL(5,2),
-        goal ENUM('weight_loss', 'muscle_gain', 'maintenance'),
-        role ENUM('user') DEFAULT 'user',
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        INDEX idx_email (email),
-        INDEX idx_role (role),
-        INDEX idx_goal (goal)
-      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
-    `);
-
-    // Create WorkoutMealPlans table (Combined table as per requirements)
-    await connection.execute(`
-      CREATE TABLE IF NOT EXISTS workoutmealplans (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        user_id INT NOT NULL,
-        day ENUM('Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday') NOT NULL,
-        exercises JSON COMMENT 'List of exercises with details',
-        meals JSON COMMENT 'Meal plan with calories',
-        completed_status JSON COMMENT 'Tracks completed exercises/meals',
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-        INDEX idx_user_id (user_id),
-        INDEX idx_day (day),
-        UNIQUE KEY unique_user_day (user_id, day)
-      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
-    `);
-
-    connection.release();
-    logger.info('Database tables initialized successfully (2 tables: users, workoutmealplans)');
-  } catch (error) {
-    logger.error('Database initialization failed:', error);
-    throw error;
-  }
-};
-
 // Graceful shutdown
 export const closeDatabase = async (): Promise<void> => {
   try {
@@ -0,0 +1,50 @@
+import { createStorage, setStorage } from '../repositories';
+import { api, signUp } from '../test/api';
+
+describe('AuthController (memory storage)', () => {
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('registers, logs in and reads the profile without a database server', async () => {
+    const user = { name: 'Test User', email: 'someone@gmail.com', password: 'password123' };
+    await api().post('/auth/register').send(user).expect(201);
+
+    const login = await api().post('/auth/login').send({ email: user.email, password: user.password }).expect(200);
+    const profile = await api(login.body.data.accessToken).get('/auth/profile').expect(200);
+
+    expect(profile.body.data.user).toMatchObject({ name: 'Test User', email: 'someone@gmail.com' });
+    expect(profile.body.data.user.password).toBeUndefined();
+  });
+
+  it('rejects a second account with the same email', async () => {
+    const user = { name: 'Test User', email: 'someone@gmail.com', password: 'password123' };
+    await api().post('/auth/register').send(user).expect(201);
+
+    const response = await api().post('/auth/register').send(user).expect(409);
+    expect(response.body.error).toBe('EMAIL_EXISTS');
+  });
+
+  it('rejects a wrong password', async () => {
+    const user = { name: 'Test User', email: 'someone@gmail.com', password: 'password123' };
+    await api().post('/auth/register').send(user).expect(201);
+
+    await api().post('/auth/login').send({ email: user.email, password: 'wrong-password' }).expect(401);
+  });
+
+  it('generates the default week when a goal is set', async () => {
+    const { token } = await signUp({ weight: 70, height: 175, age: 30, gender: 'female' }, 'maintenance');
+
+    const response = await api(token).get('/workout-meal-plans').expect(200);
+    expect(response.body.data.plans).toHaveLength(7);
+  });
+
+  it('starts every test from an empty store', async () => {
+    const { token } = await signUp();
+
+    await api(token).get('/auth/profile').expect(200);
+
+    setStorage(createStorage('memory'));
+    await api(token).get('/auth/profile').expect(404);
+  });
+});
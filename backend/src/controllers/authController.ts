@@ -1,9 +1,12 @@
 import { Request, Response } from 'express';
 import { UserModel } from '../models/User';
-import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
+import { BodyMeasurementModel } from '../models/BodyMeasurement';
 import { JWTUtils } from '../utils/jwt';
 import { PasswordUtils } from '../utils/password';
 import { EmailService } from '../services/emailService';
+import { GoalService } from '../services/goalService';
+import { CalorieTargetService } from '../services/calorieTargetService';
+import { WorkoutService } from '../services/workoutService';
 import { logger } from '../utils/logger';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
 import { ApiResponse, AuthResponse, CreateUserRequest, LoginRequest, AuthenticatedRequest } from '../types';
@@ -27,7 +30,7 @@ export class AuthController {
 
     // Generate default workout meal plans based on user goal (if provided)
     if (user.goal) {
-      await WorkoutMealPlanModel.generateDefaultPlan(user.id, user.goal);
+      await WorkoutService.generateDefaultPlan(user.id, user.goal);
     }
 
     // Generate tokens
@@ -179,9 +182,18 @@ export class AuthController {
     const userId = req.user!.userId;
     const profileData = req.body;
 
+    const previousUser = await UserModel.findById(userId);
     const updatedUser = await UserModel.updateProfile(userId, profileData);
     const { password, ...safeUser } = updatedUser;
 
+    // A changed profile weight goes into the weight log so the trend sees it
+    if (profileData.weight !== undefined && Number(previousUser?.weight) !== profileData.weight) {
+      await BodyMeasurementModel.record(userId, { weight: profileData.weight });
+    }
+
+    // Weight, height and age feed the calorie estimate until it adapts to logged data
+    await CalorieTargetService.recalibrate(userId);
+
     const response: ApiResponse = {
       success: true,
       message: 'Profile updated successfully',
@@ -203,13 +215,24 @@ export class AuthController {
 
     // Generate new default workout meal plans if goal changed
     if (goalsData.goal) {
-      await WorkoutMealPlanModel.generateDefaultPlan(userId, goalsData.goal);
+      await WorkoutService.generateDefaultPlan(userId, goalsData.goal);
     }
 
+    // A target weight becomes the active weight goal
+    const weightGoal = goalsData.target_weight !== undefined
+      ? await GoalService.setGoal(userId, {
+        metric: 'weight',
+        target_value: goalsData.target_weight,
+        target_date: goalsData.target_date,
+      })
+      : undefined;
+
+    await CalorieTargetService.recalibrate(userId);
+
     const response: ApiResponse = {
       success: true,
       message: 'Goals updated successfully',
-      data: { user: safeUser },
+      data: { user: safeUser, weightGoal },
     };
 
     res.status(200).json(response);
@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { ExerciseCatalogModel } from '../models/ExerciseCatalog';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { ApiResponse, CatalogExerciseFilters, ExerciseDifficulty } from '../types';
+
+const DIFFICULTIES: ExerciseDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+export class ExerciseController {
+  /**
+   * Search the exercise catalog (paginated, filterable)
+   */
+  static searchExercises = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { page, limit } = req.pagination!;
+    const { search, muscle, equipment, difficulty } = req.query;
+
+    const filters: CatalogExerciseFilters = {};
+
+    if (search !== undefined) {
+      if (typeof search !== 'string' || search.trim().length > 100) {
+        throw new AppError('Search must be a string of at most 100 characters', 400, 'INVALID_FILTER');
+      }
+      filters.search = search.trim() || undefined;
+    }
+
+    if (muscle !== undefined) {
+      if (typeof muscle !== 'string' || !/^[a-z_]+$/.test(muscle)) {
+        throw new AppError('Invalid muscle group', 400, 'INVALID_FILTER');
+      }
+      filters.muscle = muscle;
+    }
+
+    if (equipment !== undefined) {
+      if (typeof equipment !== 'string' || !/^[a-z_]+$/.test(equipment)) {
+        throw new AppError('Invalid equipment tag (use none for bodyweight)', 400, 'INVALID_FILTER');
+      }
+      filters.equipment = equipment;
+    }
+
+    if (difficulty !== undefined) {
+      if (!DIFFICULTIES.includes(difficulty as ExerciseDifficulty)) {
+        throw new AppError('Difficulty must be beginner, intermediate, or advanced', 400, 'INVALID_FILTER');
+      }
+      filters.difficulty = difficulty as ExerciseDifficulty;
+    }
+
+    const { exercises, total } = await ExerciseCatalogModel.search(filters, page, limit);
+    const totalPages = Math.ceil(total / limit);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Exercises retrieved successfully',
+      data: {
+        exercises,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Get a catalog exercise by ID
+   */
+  static getExerciseById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const exercise = await ExerciseCatalogModel.findById(ExerciseController.parseExerciseId(req.params.id));
+    if (!exercise) {
+      throw new AppError('Exercise not found', 404, 'EXERCISE_NOT_FOUND');
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Exercise retrieved successfully',
+      data: { exercise },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Add an exercise to the catalog
+   */
+  static createExercise = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const exercise = await ExerciseCatalogModel.create(req.body);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Exercise created successfully',
+      data: { exercise },
+    };
+
+    res.status(201).json(response);
+  });
+
+  /**
+   * Update a catalog exercise
+   */
+  static updateExercise = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const exercise = await ExerciseCatalogModel.update(ExerciseController.parseExerciseId(req.params.id), req.body);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Exercise updated successfully',
+      data: { exercise },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Remove an exercise from the catalog (existing plans keep their copy)
+   */
+  static deleteExercise = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    await ExerciseCatalogModel.delete(ExerciseController.parseExerciseId(req.params.id));
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Exercise deleted successfully',
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Parse a catalog exercise ID route parameter
+   */
+  private static parseExerciseId(id: string): number {
+    const exerciseId = parseInt(id);
+    if (isNaN(exerciseId) || exerciseId < 1) {
+      throw new AppError('Invalid exercise ID', 400, 'INVALID_EXERCISE_ID');
+    }
+    return exerciseId;
+  }
+}
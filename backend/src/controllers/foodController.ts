@@ -1,12 +1,14 @@
 import { Request, Response } from 'express';
 import { USDAFoodService } from '../services/usdaFoodService';
+import { FoodService } from '../services/foodService';
+import { UsdaCacheService } from '../services/usdaCacheService';
 import { logger } from '../utils/logger';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
 import { ApiResponse, AuthenticatedRequest } from '../types';
 
 export class FoodController {
   /**
-   * Search for foods using USDA database
+   * Search for foods in the local food database (USDA API as fallback)
    */
   static searchFoods = asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { query, pageSize = 25, pageNumber = 1, dataType } = req.query;
@@ -17,7 +19,7 @@ export class FoodController {
 
     const dataTypes = dataType ? (Array.isArray(dataType) ? dataType as string[] : [dataType as string]) : undefined;
 
-    const searchResult = await USDAFoodService.searchFoods(
+    const searchResult = await FoodService.searchFoods(
       query,
       parseInt(pageSize as string) || 25,
       parseInt(pageNumber as string) || 1,
@@ -57,7 +59,7 @@ export class FoodController {
       (Array.isArray(nutrients) ? nutrients.map(n => parseInt(n as string)) : [parseInt(nutrients as string)]) 
       : undefined;
 
-    const food = await USDAFoodService.getFoodById(parseInt(fdcId), nutrientIds);
+    const food = await FoodService.getFoodById(parseInt(fdcId), nutrientIds);
 
     const response: ApiResponse = {
       success: true,
@@ -87,7 +89,7 @@ export class FoodController {
     const nutrientIds = nutrients && Array.isArray(nutrients) ? 
       nutrients.filter(n => !isNaN(parseInt(n))).map(n => parseInt(n)) : undefined;
 
-    const foods = await USDAFoodService.getFoodsByIds(validIds, nutrientIds);
+    const foods = await FoodService.getFoodsByIds(validIds, nutrientIds);
 
     const response: ApiResponse = {
       success: true,
@@ -115,7 +117,7 @@ export class FoodController {
       throw new AppError('Serving size must be between 0 and 10000 grams', 400, 'INVALID_SERVING_SIZE');
     }
 
-    const food = await USDAFoodService.getFoodById(parseInt(fdcId));
+    const food = await FoodService.getFoodById(parseInt(fdcId));
     const nutritionData = USDAFoodService.extractNutritionData(food, serving);
 
     const response: ApiResponse = {
@@ -145,7 +147,7 @@ export class FoodController {
       throw new AppError('Search query is required', 400, 'INVALID_QUERY');
     }
 
-    const searchResult = await USDAFoodService.searchIndianFoods(
+    const searchResult = await FoodService.searchIndianFoods(
       query,
       parseInt(pageSize as string) || 25
     );
@@ -184,7 +186,7 @@ export class FoodController {
     );
 
     // Get food suggestions for missing nutrients
-    const foodSuggestions = await USDAFoodService.suggestFoodAlternatives(
+    const foodSuggestions = await FoodService.suggestFoodAlternatives(
       recommendations.missingNutrients
     );
 
@@ -208,20 +210,38 @@ export class FoodController {
    * Validate USDA API configuration
    */
   static validateApiKey = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const isValid = await USDAFoodService.validateApiKey();
+    const [isValid, localFoods] = await Promise.all([
+      USDAFoodService.validateApiKey(),
+      FoodService.countLocalFoods(),
+    ]);
 
     const response: ApiResponse = {
       success: isValid,
       message: isValid ? 'USDA API key is valid and working' : 'USDA API key is invalid or not configured',
       data: {
         apiKeyValid: isValid,
-        apiConfigured: !!process.env.USDA_API_KEY
+        apiConfigured: !!process.env.USDA_API_KEY,
+        remoteFallback: FoodService.isRemoteAvailable(),
+        localFoods
       },
     };
 
     res.status(isValid ? 200 : 400).json(response);
   });
 
+  /**
+   * Get USDA lookup cache hit and miss counts
+   */
+  static getCacheStats = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const response: ApiResponse = {
+      success: true,
+      message: 'USDA cache statistics retrieved successfully',
+      data: { cache: UsdaCacheService.getStats() },
+    };
+
+    res.status(200).json(response);
+  });
+
   /**
    * Get popular Indian foods for quick access
    */
@@ -237,7 +257,7 @@ export class FoodController {
     // Search for a few popular foods (limit to avoid API rate limits)
     for (const foodQuery of popularFoods.slice(0, 5)) {
       try {
-        const searchResult = await USDAFoodService.searchFoods(foodQuery, 3);
+        const searchResult = await FoodService.searchFoods(foodQuery, 3);
         if (searchResult.foods.length > 0) {
           foodResults.push({
             query: foodQuery,
@@ -0,0 +1,129 @@
+import { createStorage, setStorage } from '../repositories';
+import { api, signUp } from '../test/api';
+import { DateUtils } from '../utils/date';
+
+const quickAdd = (overrides: object = {}) => ({
+  meal_slot: 'snack', source: 'quick_add', name: 'Protein bar', calories: 200, protein: 20, carbs: 22, fat: 6,
+  ...overrides,
+});
+
+describe('FoodLogController (memory storage)', () => {
+  const today = DateUtils.toDateString(new Date());
+  const yesterday = DateUtils.addDays(today, -1);
+
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('logs quick adds by date and meal slot, with the day totals', async () => {
+    const { token } = await signUp();
+    await api(token).post('/food-log').send(quickAdd()).expect(201);
+    await api(token).post('/food-log').send(quickAdd({ meal_slot: 'breakfast', quantity: 2 })).expect(201);
+    await api(token).post('/food-log').send(quickAdd({ logged_on: yesterday })).expect(201);
+
+    const { body } = await api(token).get('/food-log').expect(200);
+    const { slots, totals } = body.data.diary;
+    expect(slots.snack.map((entry: any) => entry.calories)).toEqual([200]);
+    expect(slots.breakfast.map((entry: any) => [entry.quantity, entry.calories, entry.protein])).toEqual([[2, 400, 40]]);
+    expect(totals).toMatchObject({ date: today, entries: 2, calories: 600, protein: 60 });
+
+    const intake = await api(token).get(`/food-log/intake?from=${yesterday}&to=${today}`).expect(200);
+    expect(intake.body.data.intake.map((day: any) => [day.date, day.calories])).toEqual([[yesterday, 200], [today, 600]]);
+  });
+
+  it('moves, rescales and deletes entries', async () => {
+    const { token } = await signUp();
+    const logged = await api(token).post('/food-log').send(quickAdd()).expect(201);
+    const id = logged.body.data.entry.id;
+
+    const updated = await api(token)
+      .put(`/food-log/${id}`)
+      .send({ logged_on: yesterday, meal_slot: 'lunch', quantity: 1.5 })
+      .expect(200);
+    expect(updated.body.data.entry).toMatchObject({ logged_on: yesterday, meal_slot: 'lunch', calories: 300, protein: 30 });
+
+    await api(token).delete(`/food-log/${id}`).expect(200);
+    const { body } = await api(token).get(`/food-log?date=${yesterday}`).expect(200);
+    expect(body.data.diary.totals.entries).toBe(0);
+  });
+
+  it('logs servings of a planned meal as a recipe entry', async () => {
+    const { token } = await signUp();
+    const day = DateUtils.getDayName(today);
+    await api(token).post('/workout-meal-plans').send({
+      day,
+      exercises: [],
+      meals: [{
+        id: 'oats', name: 'Overnight oats', type: 'breakfast', calories: 350, protein: 15, carbs: 50, fat: 9,
+        foods: [{ name: 'Oats', quantity: 80, unit: 'g', calories: 300 }, { name: 'Milk', quantity: 100, unit: 'ml', calories: 50 }],
+      }],
+    }).expect(200);
+
+    const logged = await api(token)
+      .post('/food-log')
+      .send({ meal_slot: 'breakfast', source: 'recipe', meal_id: 'oats', quantity: 2 })
+      .expect(201);
+    expect(logged.body.data.entry).toMatchObject({ name: 'Overnight oats', plan_meal_id: 'oats', unit: 'serving', calories: 700 });
+
+    const missing = await api(token)
+      .post('/food-log')
+      .send({ meal_slot: 'breakfast', source: 'recipe', meal_id: 'pancakes' })
+      .expect(404);
+    expect(missing.body.error).toBe('MEAL_NOT_FOUND');
+  });
+
+  it('rejects future dates and keeps entries private', async () => {
+    const { token } = await signUp();
+    const other = await signUp();
+    await api(token).post('/food-log').send(quickAdd({ logged_on: DateUtils.addDays(today, 1) })).expect(400);
+
+    const logged = await api(token).post('/food-log').send(quickAdd()).expect(201);
+    await api(other.token).delete(`/food-log/${logged.body.data.entry.id}`).expect(404);
+  });
+});
+
+describe('FoodLogController (micronutrients)', () => {
+  const day = DateUtils.getDayName(DateUtils.toDateString(new Date()));
+  const spinach = { name: 'Spinach', quantity: 100, unit: 'g', calories: 23, fiber: 2.2, micronutrients: { calcium: 99, iron: 2.7, vitaminC: 28 } };
+  const milk = { name: 'Milk', quantity: 200, unit: 'ml', calories: 100, micronutrients: { calcium: 240, vitaminD: 2.5 } };
+
+  const nutrient = (body: any, key: string) =>
+    body.data.micronutrients.nutrients.find((intake: any) => intake.key === key);
+
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('totals the micronutrients of the foods eaten against targets for the age and sex', async () => {
+    const { token } = await signUp({ age: 30, gender: 'male' });
+    await api(token).post('/workout-meal-plans').send({
+      day,
+      exercises: [],
+      meals: [{ id: 'bowl', name: 'Spinach bowl', type: 'lunch', calories: 123, foods: [spinach, milk] }],
+    }).expect(200);
+
+    // All of the spinach and half of the milk, plus a snack without micronutrient data
+    await api(token)
+      .post(`/meals/${day}/consume`)
+      .send({ meal_id: 'bowl', consumed: true, foods: [{ index: 0, quantity: 100 }, { index: 1, quantity: 100 }] })
+      .expect(200);
+    await api(token).post('/food-log').send(quickAdd()).expect(201);
+
+    const { body } = await api(token).get('/food-log/micronutrients').expect(200);
+    expect(body.data.micronutrients).toMatchObject({ entries: 2, tracked_entries: 1 });
+    expect(nutrient(body, 'calcium')).toMatchObject({ unit: 'mg', amount: 219, target: 1000, percentage: 22 });
+    expect(nutrient(body, 'iron')).toMatchObject({ amount: 2.7, target: 8, percentage: 34 });
+    expect(nutrient(body, 'vitaminD')).toMatchObject({ unit: 'µg', amount: 1.25, target: 15 });
+    expect(nutrient(body, 'fiber')).toMatchObject({ amount: 2.2, target: 38 });
+    expect(nutrient(body, 'sodium')).toMatchObject({ kind: 'limit', amount: 0, target: 2300 });
+  });
+
+  it('targets the higher allowance of the two sexes without a profile', async () => {
+    const { token } = await signUp();
+
+    const { body } = await api(token).get('/food-log/micronutrients').expect(200);
+    expect(body.data.micronutrients.entries).toBe(0);
+    expect(nutrient(body, 'iron').target).toBe(18);
+    expect(nutrient(body, 'vitaminC').target).toBe(90);
+  });
+});
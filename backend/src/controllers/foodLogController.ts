@@ -0,0 +1,148 @@
+import { Response } from 'express';
+import { FoodLogService } from '../services/foodLogService';
+import { MicronutrientService } from '../services/micronutrientService';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { ApiResponse, AuthenticatedRequest } from '../types';
+import { DateUtils } from '../utils/date';
+
+const MAX_INTAKE_RANGE_DAYS = 366;
+
+export class FoodLogController {
+  /**
+   * Get a day of the food diary (today by default), by meal slot with the day's totals
+   */
+  static getDiary = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const date = FoodLogController.parseDateQuery(req.query.date, 'diary') || DateUtils.toDateString(new Date());
+
+    const diary = await FoodLogService.getDay(userId, date);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Food diary retrieved successfully',
+      data: { diary },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Get the logged totals of each day in a date range (the last 7 days by default)
+   */
+  static getIntake = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const toDate = FoodLogController.parseDateQuery(req.query.to, 'end') || DateUtils.toDateString(new Date());
+    const fromDate = FoodLogController.parseDateQuery(req.query.from, 'start') || DateUtils.addDays(toDate, -6);
+
+    if (fromDate > toDate) {
+      throw new AppError('Start date must not be after the end date', 400, 'INVALID_DATE_RANGE');
+    }
+    if (DateUtils.daysBetween(fromDate, toDate) >= MAX_INTAKE_RANGE_DAYS) {
+      throw new AppError(`Date range must be at most ${MAX_INTAKE_RANGE_DAYS} days`, 400, 'INVALID_DATE_RANGE');
+    }
+
+    const intake = await FoodLogService.getDailyIntake(userId, fromDate, toDate);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Daily intake retrieved successfully',
+      data: { from: fromDate, to: toDate, intake },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Get a day's fiber and micronutrient intake (today by default) against the user's daily targets
+   */
+  static getMicronutrients = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const date = FoodLogController.parseDateQuery(req.query.date, 'diary') || DateUtils.toDateString(new Date());
+
+    const micronutrients = await MicronutrientService.getDailyReport(userId, date);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Micronutrient intake retrieved successfully',
+      data: { micronutrients },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Log a food to the diary
+   */
+  static logFood = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const entry = await FoodLogService.logFood(userId, req.body);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Food logged successfully',
+      data: { entry },
+    };
+
+    res.status(201).json(response);
+  });
+
+  /**
+   * Update a diary entry
+   */
+  static updateEntry = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const entry = await FoodLogService.updateEntry(userId, FoodLogController.parseEntryId(req.params.id), req.body);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Diary entry updated successfully',
+      data: { entry },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Delete a diary entry
+   */
+  static deleteEntry = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    await FoodLogService.deleteEntry(userId, FoodLogController.parseEntryId(req.params.id));
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Diary entry deleted successfully',
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Validate a diary entry ID route parameter
+   */
+  private static parseEntryId(value: string): number {
+    const id = parseInt(value);
+    if (isNaN(id) || id < 1) {
+      throw new AppError('Invalid diary entry ID', 400, 'INVALID_FOOD_LOG_ENTRY_ID');
+    }
+    return id;
+  }
+
+  /**
+   * Validate an optional YYYY-MM-DD query parameter
+   */
+  private static parseDateQuery(value: unknown, label: 'diary' | 'start' | 'end'): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const date = typeof value === 'string' ? DateUtils.parseDateString(value) : null;
+    if (!date) {
+      throw new AppError(`Invalid ${label} date format (expected YYYY-MM-DD)`, 400, 'INVALID_DATE');
+    }
+    return DateUtils.toDateString(date);
+  }
+}
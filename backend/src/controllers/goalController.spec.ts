@@ -0,0 +1,87 @@
+import { createStorage, setStorage } from '../repositories';
+import { api, signUp } from '../test/api';
+import { DateUtils } from '../utils/date';
+
+describe('GoalController (memory storage)', () => {
+  const today = DateUtils.toDateString(new Date());
+  const inWeeks = (weeks: number) => DateUtils.addDays(today, weeks * 7);
+
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  /**
+   * Weigh in daily over the last three weeks, losing 0.1 kg a day down to 86 kg today
+   */
+  const logWeightLoss = async (token: string) => {
+    for (let daysAgo = 21; daysAgo >= 0; daysAgo--) {
+      await api(token)
+        .post('/measurements')
+        .send({ measured_on: DateUtils.addDays(today, -daysAgo), weight: 86 + daysAgo / 10 })
+        .expect(201);
+    }
+  };
+
+  it('projects a weight goal from the weight trend', async () => {
+    const { token } = await signUp();
+    await logWeightLoss(token);
+
+    const created = await api(token)
+      .post('/goals')
+      .send({ metric: 'weight', target_value: 82, target_date: inWeeks(20) })
+      .expect(201);
+    const { goal, current_value, weekly_rate, required_weekly_rate, projected_date } = created.body.data.goal;
+
+    expect(goal).toMatchObject({ metric: 'weight', status: 'active', start_value: current_value, start_date: today });
+    expect(weekly_rate).toBeLessThan(0);
+    expect(required_weekly_rate).toBeLessThan(0);
+    expect(projected_date <= inWeeks(20)).toBe(true);
+    expect(created.body.data.goal).toMatchObject({ progress_percent: 0, weeks_remaining: 20, status: 'on_track' });
+
+    // The same loss rate misses a closer date
+    const closer = await api(token).put(`/goals/${goal.id}`).send({ target_date: inWeeks(2) }).expect(200);
+    expect(closer.body.data.goal.status).toBe('off_track');
+  });
+
+  it('replaces the active goal of the same metric', async () => {
+    const { token } = await signUp({ weight: 80 });
+    await api(token).post('/goals').send({ metric: 'weight', target_value: 75, target_date: inWeeks(10) }).expect(201);
+    await api(token).post('/goals').send({ metric: 'weight', target_value: 72, target_date: inWeeks(20) }).expect(201);
+
+    const active = await api(token).get('/goals?status=active').expect(200);
+    expect(active.body.data.goals.map((projection: any) => projection.goal.target_value)).toEqual([72]);
+
+    const cancelled = await api(token).get('/goals?status=cancelled').expect(200);
+    expect(cancelled.body.data.goals.map((projection: any) => projection.goal.target_value)).toEqual([75]);
+  });
+
+  it('waits for a trend before projecting, and marks reached targets achieved', async () => {
+    const { token } = await signUp({ weight: 80 });
+
+    const created = await api(token)
+      .post('/goals')
+      .send({ metric: 'weight', target_value: 75, target_date: inWeeks(10) })
+      .expect(201);
+    expect(created.body.data.goal).toMatchObject({ current_value: 80, weekly_rate: null, status: 'insufficient_data' });
+
+    const reached = await api(token)
+      .put(`/goals/${created.body.data.goal.goal.id}`)
+      .send({ target_value: 80 })
+      .expect(200);
+    expect(reached.body.data.goal).toMatchObject({
+      progress_percent: 100,
+      status: 'achieved',
+      goal: { status: 'achieved', achieved_on: today },
+    });
+  });
+
+  it('rejects invalid goals', async () => {
+    const { token } = await signUp();
+
+    await api(token).post('/goals').send({ metric: 'weight', target_value: 75, target_date: today }).expect(400);
+    await api(token).post('/goals').send({ metric: 'strength', target_value: 100, target_date: inWeeks(8) }).expect(400);
+
+    const missing = await api(token).put('/goals/999').send({ target_value: 70 }).expect(404);
+    expect(missing.body.error).toBe('GOAL_NOT_FOUND');
+  });
+});
@@ -0,0 +1,95 @@
+import { Response } from 'express';
+import { GoalService } from '../services/goalService';
+import { CalorieTargetService } from '../services/calorieTargetService';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { ApiResponse, AuthenticatedRequest, GoalTargetStatus } from '../types';
+
+const GOAL_STATUSES: GoalTargetStatus[] = ['active', 'achieved', 'cancelled'];
+
+export class GoalController {
+  /**
+   * Get the user's goals with progress, required rate and projection
+   */
+  static getGoals = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const { status } = req.query;
+
+    if (status !== undefined && !GOAL_STATUSES.includes(status as GoalTargetStatus)) {
+      throw new AppError('Status must be active, achieved, or cancelled', 400, 'INVALID_FILTER');
+    }
+
+    const goals = await GoalService.getGoals(userId, status as GoalTargetStatus | undefined);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Goals retrieved successfully',
+      data: { goals },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Set a goal target (replaces the active goal of the same metric)
+   */
+  static createGoal = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const goal = await GoalService.setGoal(userId, req.body);
+    await CalorieTargetService.recalibrate(userId); // A weight goal sets the calorie offset
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Goal set successfully',
+      data: { goal },
+    };
+
+    res.status(201).json(response);
+  });
+
+  /**
+   * Update a goal's target, date or status
+   */
+  static updateGoal = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const goal = await GoalService.updateGoal(userId, GoalController.parseGoalId(req.params.id), req.body);
+    await CalorieTargetService.recalibrate(userId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Goal updated successfully',
+      data: { goal },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Delete a goal
+   */
+  static deleteGoal = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    await GoalService.deleteGoal(userId, GoalController.parseGoalId(req.params.id));
+    await CalorieTargetService.recalibrate(userId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Goal deleted successfully',
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Validate a goal ID route parameter
+   */
+  private static parseGoalId(value: string): number {
+    const id = parseInt(value);
+    if (isNaN(id) || id < 1) {
+      throw new AppError('Invalid goal ID', 400, 'INVALID_GOAL_ID');
+    }
+    return id;
+  }
+}
@@ -0,0 +1,129 @@
+import { createStorage, setStorage } from '../repositories';
+import { api, signUp } from '../test/api';
+import { CalorieTargetService } from '../services/calorieTargetService';
+import { DateUtils } from '../utils/date';
+
+const profile = { weight: 80, height: 180, age: 30, gender: 'male' as const };
+
+describe('MealController (calorie targets)', () => {
+  const weekStart = DateUtils.getCurrentWeekStart();
+
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('starts from the profile estimate and the goal offset', async () => {
+    const { token } = await signUp(profile, 'weight_loss');
+
+    const { body } = await api(token).get('/meals/nutrition-goals').expect(200);
+    const tdee = Math.round(CalorieTargetService.estimateBmr(profile) * 1.375); // Three training days a week
+
+    expect(body.data.nutritionGoals.adjustment).toMatchObject({ method: 'formula', tdee, calorie_target: tdee - 300 });
+    expect(body.data.nutritionGoals.calories).toBe(tdee - 300);
+    expect(body.data.adjustments).toHaveLength(1);
+  });
+
+  it('recalibrates maintenance from the logged intake and a steady weight', async () => {
+    const { token } = await signUp(profile);
+
+    // Four weeks of daily weigh-ins at the same weight, and 2400 kcal on most days
+    for (let daysAgo = 28; daysAgo >= 1; daysAgo--) {
+      const date = DateUtils.addDays(weekStart, -daysAgo);
+      await api(token).post('/measurements').send({ measured_on: date, weight: 80 }).expect(201);
+      if (daysAgo % 4 !== 0) {
+        await api(token)
+          .post('/food-log')
+          .send({ logged_on: date, meal_slot: 'dinner', source: 'quick_add', calories: 2400 })
+          .expect(201);
+      }
+    }
+
+    await api(token).put('/auth/goals').send({ goal: 'maintenance' }).expect(200);
+
+    const { body } = await api(token).get('/meals/nutrition-goals').expect(200);
+    expect(body.data.nutritionGoals.adjustment).toMatchObject({
+      method: 'adaptive',
+      tdee: 2400,
+      calorie_target: 2400,
+      average_intake: 2400,
+      logged_days: 21,
+      weekly_weight_change: 0,
+    });
+  });
+
+  it('aims for the rate a dated weight goal needs', async () => {
+    const { token } = await signUp(profile, 'maintenance');
+    const targetDate = DateUtils.addDays(DateUtils.toDateString(new Date()), 70);
+
+    await api(token).post('/goals').send({ metric: 'weight', target_value: 75, target_date: targetDate }).expect(201);
+
+    const { body } = await api(token).get('/meals/nutrition-goals').expect(200);
+    const { tdee, calorie_target } = body.data.nutritionGoals.adjustment;
+    expect(calorie_target).toBe(tdee - Math.round(((5 / 10) * 7700) / 7)); // 0.5 kg a week for ten weeks
+  });
+});
+
+describe('MealController (meal progress)', () => {
+  const today = DateUtils.toDateString(new Date());
+  const day = DateUtils.getDayName(today);
+
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('counts the planned meals eaten, and the calories of the whole diary', async () => {
+    const { token } = await signUp();
+    await api(token).post('/workout-meal-plans').send({
+      day,
+      exercises: [],
+      meals: [
+        { id: 'oats', name: 'Overnight oats', type: 'breakfast', calories: 300, foods: [] },
+        { id: 'salad', name: 'Chicken salad', type: 'lunch', calories: 600, foods: [] },
+      ],
+    }).expect(200);
+
+    await api(token).post(`/meals/${day}/consume`).send({ meal_id: 'oats', consumed: true }).expect(200);
+    // Food eaten besides the plan is logged to other slots, but is not a planned meal
+    for (const meal_slot of ['lunch', 'snack']) {
+      await api(token).post('/food-log').send({ meal_slot, source: 'quick_add', calories: 150 }).expect(201);
+    }
+
+    const { body } = await api(token).get('/meals/progress').expect(200);
+    expect(body.data.progress).toMatchObject({ totalMeals: 2, consumedMeals: 1, totalCalories: 900, consumedCalories: 600 });
+    expect(body.data.progress.dailyStats[day]).toMatchObject({ mealsConsumed: 1, totalMeals: 2, consumptionPercentage: 67 });
+  });
+});
+
+describe('MealController (meal consumption)', () => {
+  const day = DateUtils.getDayName(DateUtils.toDateString(new Date()));
+  const oats = { name: 'Oats', quantity: 80, unit: 'g', calories: 300 };
+  const milk = { name: 'Milk', quantity: 200, unit: 'ml', calories: 100 };
+  const meal = { id: 'oats', name: 'Overnight oats', type: 'breakfast', calories: 400, foods: [oats, milk] };
+
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('drops the per-food check-offs once the foods of the meal change', async () => {
+    const { token } = await signUp();
+    await api(token).post('/workout-meal-plans').send({ day, exercises: [], meals: [meal] }).expect(200);
+
+    // All of the oats and half of the milk
+    const consumed = await api(token)
+      .post(`/meals/${day}/consume`)
+      .send({ meal_id: 'oats', consumed: true, foods: [{ index: 0, quantity: 80 }, { index: 1, quantity: 100 }] })
+      .expect(200);
+    expect(consumed.body.data.plan.completed_status.meal_consumption.oats).toEqual({
+      portion: 0.875,
+      foods: [{ index: 0, quantity: 80 }, { index: 1, quantity: 100 }],
+    });
+
+    // Renaming the meal keeps them, swapping its foods does not
+    const renamed = await api(token).put(`/meals/${day}/oats`).send({ ...meal, name: 'Bircher oats' }).expect(200);
+    expect(renamed.body.data.plan.completed_status.meal_consumption.oats.foods).toHaveLength(2);
+
+    const { body } = await api(token).put(`/meals/${day}/oats`).send({ ...meal, foods: [milk, oats] }).expect(200);
+    expect(body.data.plan.completed_status.meals.oats).toBe(true);
+    expect(body.data.plan.completed_status.meal_consumption.oats).toEqual({ portion: 0.875 });
+  });
+});
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { MealService } from '../services/mealService';
+import { CalorieTargetService } from '../services/calorieTargetService';
 import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
 import { logger } from '../utils/logger';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
@@ -46,7 +47,7 @@ export class MealController {
   static markMealConsumed = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const userId = req.user!.userId;
     const { day } = req.params;
-    const { meal_id, consumed } = req.body;
+    const { meal_id, consumed, portion, foods } = req.body;
 
     if (!meal_id || typeof consumed !== 'boolean') {
       throw new AppError('Meal ID and consumed status are required', 400, 'INVALID_INPUT');
@@ -57,7 +58,7 @@ export class MealController {
       throw new AppError('Invalid day. Must be one of: ' + validDays.join(', '), 400, 'INVALID_DAY');
     }
 
-    const updatedPlan = await MealService.markMealConsumed(userId, day, meal_id, consumed);
+    const updatedPlan = await MealService.markMealConsumed(userId, day, meal_id, consumed, { portion, foods });
 
     const response: ApiResponse = {
       success: true,
@@ -222,17 +223,25 @@ export class MealController {
   });
 
   /**
-   * Get nutrition goals for user
+   * Get nutrition goals for user, adjusted for the workout of a day when one is given,
+   * with the history of weekly calorie target adjustments
    */
   static getNutritionGoals = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const userId = req.user!.userId;
+    const day = req.query.day as string | undefined;
 
-    const nutritionGoals = await MealService.getNutritionGoals(userId);
+    const validDays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+    if (day !== undefined && !validDays.includes(day)) {
+      throw new AppError('Invalid day. Must be one of: ' + validDays.join(', '), 400, 'INVALID_DAY');
+    }
+
+    const nutritionGoals = await MealService.getNutritionGoals(userId, day);
+    const adjustments = await CalorieTargetService.getHistory(userId);
 
     const response: ApiResponse = {
       success: true,
       message: 'Nutrition goals retrieved successfully',
-      data: { nutritionGoals },
+      data: { nutritionGoals, adjustments },
     };
 
     res.status(200).json(response);
@@ -290,7 +299,7 @@ export class MealController {
     }
 
     const progress = await MealService.getMealProgress(userId);
-    const nutritionGoals = await MealService.getNutritionGoals(userId);
+    const nutritionGoals = await MealService.getNutritionGoals(userId, day);
     const dayStats = progress.dailyStats[day];
 
     if (!dayStats) {
@@ -0,0 +1,52 @@
+import { createStorage, setStorage } from '../repositories';
+import { api, signUp } from '../test/api';
+import { DateUtils } from '../utils/date';
+
+describe('MeasurementController (memory storage)', () => {
+  const today = DateUtils.toDateString(new Date());
+  const daysAgo = (days: number) => DateUtils.addDays(today, -days);
+
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('logs measurements, keeps the profile weight current and returns the smoothed trends', async () => {
+    const { token } = await signUp();
+
+    await api(token).post('/measurements').send({ measured_on: daysAgo(14), weight: 82, circumferences: { waist: 90 } }).expect(201);
+    await api(token).post('/measurements').send({ measured_on: daysAgo(7), weight: 81 }).expect(201);
+    await api(token).post('/measurements').send({ weight: 80 }).expect(201);
+
+    const profile = await api(token).get('/auth/profile').expect(200);
+    expect(Number(profile.body.data.user.weight)).toBe(80);
+
+    const { body } = await api(token).get('/measurements/trends').expect(200);
+    const { weight, circumferences } = body.data.trends;
+    expect(weight.points.map((point: any) => point.date)).toEqual([daysAgo(14), daysAgo(7), today]);
+    expect(weight).toMatchObject({ unit: 'kg', latest: 80 });
+    expect(weight.trend).toBeGreaterThan(80); // Smoothing lags behind the latest weight
+    expect(weight.weekly_change).toBeLessThan(0);
+    expect(circumferences.waist).toMatchObject({ unit: 'cm', latest: 90, weekly_change: null });
+  });
+
+  it('falls back to the latest remaining weight when one is deleted', async () => {
+    const { token } = await signUp();
+    await api(token).post('/measurements').send({ measured_on: daysAgo(3), weight: 82 }).expect(201);
+    const latest = await api(token).post('/measurements').send({ weight: 80 }).expect(201);
+
+    await api(token).delete(`/measurements/${latest.body.data.measurement.id}`).expect(200);
+
+    const profile = await api(token).get('/auth/profile').expect(200);
+    expect(Number(profile.body.data.user.weight)).toBe(82);
+
+    const response = await api(token).delete(`/measurements/${latest.body.data.measurement.id}`).expect(404);
+    expect(response.body.error).toBe('MEASUREMENT_NOT_FOUND');
+  });
+
+  it('rejects empty and future measurements', async () => {
+    const { token } = await signUp();
+
+    await api(token).post('/measurements').send({ notes: 'Nothing measured' }).expect(400);
+    await api(token).post('/measurements').send({ measured_on: DateUtils.addDays(today, 1), weight: 80 }).expect(400);
+  });
+});
@@ -0,0 +1,98 @@
+import { Response } from 'express';
+import { BodyMeasurementModel } from '../models/BodyMeasurement';
+import { BodyTrendService } from '../services/bodyTrendService';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { ApiResponse, AuthenticatedRequest } from '../types';
+import { DateUtils } from '../utils/date';
+
+export class MeasurementController {
+  /**
+   * Record a body measurement
+   */
+  static recordMeasurement = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const measurement = await BodyMeasurementModel.record(userId, req.body);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Measurement recorded successfully',
+      data: { measurement },
+    };
+
+    res.status(201).json(response);
+  });
+
+  /**
+   * Get the user's measurements, oldest first
+   */
+  static getMeasurements = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const fromDate = MeasurementController.parseDateQuery(req.query.from, 'start');
+    const toDate = MeasurementController.parseDateQuery(req.query.to, 'end');
+
+    const measurements = await BodyMeasurementModel.findByUser(userId, fromDate, toDate);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Measurements retrieved successfully',
+      data: { measurements },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Get smoothed trends and weekly rate of change of every logged metric
+   */
+  static getTrends = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const fromDate = MeasurementController.parseDateQuery(req.query.from, 'start');
+
+    const trends = await BodyTrendService.getTrends(userId, fromDate);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Measurement trends retrieved successfully',
+      data: { trends },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Delete a body measurement
+   */
+  static deleteMeasurement = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id) || id < 1) {
+      throw new AppError('Invalid measurement ID', 400, 'INVALID_MEASUREMENT_ID');
+    }
+
+    await BodyMeasurementModel.delete(id, userId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Measurement deleted successfully',
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Validate an optional YYYY-MM-DD query parameter
+   */
+  private static parseDateQuery(value: unknown, bound: 'start' | 'end'): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const date = typeof value === 'string' ? DateUtils.parseDateString(value) : null;
+    if (!date) {
+      throw new AppError(`Invalid ${bound} date format (expected YYYY-MM-DD)`, 400, 'INVALID_DATE');
+    }
+    return DateUtils.toDateString(date);
+  }
+}
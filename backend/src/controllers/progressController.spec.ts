@@ -0,0 +1,83 @@
+import { createStorage, setStorage } from '../repositories';
+import { api, signUp } from '../test/api';
+import { CalorieService } from '../services/calorieService';
+import { Exercise, WorkoutMealPlan } from '../types';
+
+const profile = { weight: 70, height: 175, age: 30, gender: 'male' as const };
+
+const mainExercises = (plan: WorkoutMealPlan): Exercise[] =>
+  plan.exercises.filter(exercise => !exercise.section || exercise.section === 'main');
+
+describe('ProgressController (workout progress)', () => {
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('does not count rest days as completed workouts', async () => {
+    // The default plan trains three days a week and rests on the other four
+    const { token } = await signUp(profile, 'maintenance');
+
+    const metrics = await api(token).get('/progress/metrics').expect(200);
+    expect(metrics.body.data.metrics.workoutProgress).toMatchObject({
+      totalWorkouts: 3,
+      completedWorkouts: 0,
+      completionRate: 0,
+      currentStreak: 0,
+    });
+
+    const streak = await api(token).get('/progress/streak').expect(200);
+    expect(Object.values(streak.body.data.streak.weeklyCompletion)).not.toContain(true);
+  });
+
+  it('counts a workout day once its working exercises are done', async () => {
+    const { token } = await signUp(profile, 'maintenance');
+    const { body } = await api(token).get('/workout-meal-plans').expect(200);
+    const workoutDay: WorkoutMealPlan = body.data.plans.find((plan: WorkoutMealPlan) => mainExercises(plan).length > 0);
+
+    for (const exercise of mainExercises(workoutDay)) {
+      await api(token)
+        .put(`/workout-meal-plans/${workoutDay.day}/completed`)
+        .send({ exercise_id: exercise.id, completed: true })
+        .expect(200);
+    }
+
+    const metrics = await api(token).get('/progress/metrics').expect(200);
+    expect(metrics.body.data.metrics.workoutProgress).toMatchObject({
+      totalWorkouts: 3,
+      completedWorkouts: 1,
+      completionRate: 33,
+    });
+    expect(metrics.body.data.metrics.workoutProgress.weeklyCompletion[workoutDay.day]).toBe(true);
+  });
+});
+
+describe('ProgressController (calories burned)', () => {
+  const squat = { id: 'squat', name: 'Squat', sets: 4, reps: 8, muscle_group: 'legs' };
+  const planks = { id: 'planks', name: 'Planks', sets: 3, reps: 1, duration: 60, muscle_group: 'core' };
+
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('estimates the calories of plans at the user weight and counts completed exercises as burned', async () => {
+    const { token } = await signUp({ weight: 90 });
+
+    const saved = await api(token)
+      .post('/workout-meal-plans')
+      .send({ day: 'Monday', exercises: [squat, planks], meals: [] })
+      .expect(200);
+    expect(saved.body.data.plan.exercises.map((exercise: Exercise) => exercise.estimated_calories)).toEqual([
+      CalorieService.estimateExercise(squat, 90),
+      CalorieService.estimateExercise(planks, 90),
+    ]);
+
+    await api(token).put('/workout-meal-plans/Monday/completed').send({ exercise_id: 'squat', completed: true }).expect(200);
+
+    const { body } = await api(token).get('/progress/calories').expect(200);
+    expect(body.data.calories.byDay.Monday).toEqual({
+      planned: CalorieService.estimateSession([squat, planks], 90),
+      burned: CalorieService.estimateExercise(squat, 90),
+    });
+    expect(body.data.calories.burnedCalories).toBe(CalorieService.estimateExercise(squat, 90));
+  });
+});
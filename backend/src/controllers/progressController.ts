@@ -121,9 +121,16 @@ export class ProgressController {
         completedWorkouts: report.completedWorkouts,
         totalWorkouts: report.totalWorkouts,
         totalWorkoutTime: report.totalWorkoutTime,
+        cardioMinutes: report.cardioMinutes,
+        cardioDistanceKm: report.cardioDistanceKm,
+        caloriesBurned: report.caloriesBurned,
+        weeklyWeightChange: report.weeklyWeightChange,
         achievements: report.achievements,
       },
       goalProgress: metrics.goalProgress,
+      cardioProgress: metrics.cardioProgress,
+      calorieProgress: metrics.calorieProgress,
+      bodyProgress: metrics.bodyProgress,
       muscleGroupProgress: metrics.exerciseProgress.muscleGroupProgress,
       recommendations: metrics.goalProgress.recommendations,
       nextWeekGoals: report.nextWeekGoals,
@@ -192,6 +199,40 @@ export class ProgressController {
     res.status(200).json(response);
   });
 
+  /**
+   * Get weekly cardio minutes and distance
+   */
+  static getCardioProgress = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const metrics = await ProgressService.getProgressMetrics(userId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Cardio progress retrieved successfully',
+      data: { cardio: metrics.cardioProgress },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Get estimated calories burned per day and for the week
+   */
+  static getCalorieProgress = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const metrics = await ProgressService.getProgressMetrics(userId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Calorie burn progress retrieved successfully',
+      data: { calories: metrics.calorieProgress },
+    };
+
+    res.status(200).json(response);
+  });
+
   /**
    * Get time-based analytics
    */
@@ -0,0 +1,56 @@
+import { createStorage, setStorage } from '../repositories';
+import { api, signUp } from '../test/api';
+import { DateUtils } from '../utils/date';
+
+const profile = { weight: 70, height: 175, age: 30, gender: 'female' as const };
+
+describe('WorkoutController (weekly archive)', () => {
+  const currentWeek = DateUtils.getCurrentWeekStart();
+
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('archives the current week when the request has no body', async () => {
+    const { token } = await signUp(profile, 'maintenance');
+
+    const response = await api(token).post('/workouts/archive-week').expect(200);
+    expect(response.body.data.archive).toMatchObject({
+      weekStartDate: currentWeek,
+      weekEndDate: DateUtils.addDays(currentWeek, 6),
+      completedExercises: 0,
+    });
+  });
+
+  it('archives the week of the given date and lists it', async () => {
+    const { token } = await signUp(profile, 'maintenance');
+
+    await api(token)
+      .post('/workouts/archive-week')
+      .send({ weekStart: DateUtils.addDays(currentWeek, 2) })
+      .expect(200);
+
+    const list = await api(token).get('/workouts/archived-weeks').expect(200);
+    expect(list.body.data.archives.map((archive: any) => archive.weekStartDate)).toEqual([currentWeek]);
+    expect(list.body.data.pagination.total).toBe(1);
+
+    const week = await api(token).get(`/workouts/archived-weeks/${currentWeek}`).expect(200);
+    expect(week.body.data.archive.days).toHaveLength(7);
+  });
+
+  it('rejects a malformed week start', async () => {
+    const { token } = await signUp(profile, 'maintenance');
+
+    for (const weekStart of ['next week', 20260302]) {
+      const response = await api(token).post('/workouts/archive-week').send({ weekStart }).expect(400);
+      expect(response.body.error).toBe('INVALID_DATE');
+    }
+  });
+
+  it('does not archive a week without plans', async () => {
+    const { token } = await signUp();
+
+    const response = await api(token).post('/workouts/archive-week').expect(404);
+    expect(response.body.error).toBe('PLAN_NOT_FOUND');
+  });
+});
@@ -1,9 +1,17 @@
 import { Request, Response } from 'express';
 import { WorkoutService } from '../services/workoutService';
+import { ArchiveService } from '../services/archiveService';
+import { ProgressionService } from '../services/progressionService';
+import { WarmupCooldownService } from '../services/warmupCooldownService';
+import { CalorieTargetService } from '../services/calorieTargetService';
+import { SessionDurationService } from '../services/sessionDurationService';
+import { PlanEstimateService } from '../services/planEstimateService';
 import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
+import { WeeklyArchiveModel } from '../models/WeeklyArchive';
 import { logger } from '../utils/logger';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
-import { ApiResponse, AuthenticatedRequest } from '../types';
+import { ApiResponse, AuthenticatedRequest, WeeklyArchiveFilters } from '../types';
+import { DateUtils, DAYS_OF_WEEK } from '../utils/date';
 
 export class WorkoutController {
   /**
@@ -17,7 +25,7 @@ export class WorkoutController {
     const response: ApiResponse = {
       success: true,
       message: 'Personalized workout routine generated successfully',
-      data: { plans: workoutPlans },
+      data: { plans: await PlanEstimateService.withEstimates(workoutPlans) },
     };
 
     res.status(200).json(response);
@@ -62,7 +70,240 @@ export class WorkoutController {
     const response: ApiResponse = {
       success: true,
       message: `Exercise ${completed ? 'completed' : 'marked as incomplete'}`,
-      data: { plan: updatedPlan },
+      data: { plan: await PlanEstimateService.withEstimate(updatedPlan) },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Get next-session load proposals from logged performance (?day for a single day)
+   */
+  static getProgression = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const { day } = req.query;
+
+    if (day !== undefined) {
+      WorkoutController.validateDay(day);
+    }
+
+    const { scheme, recommendations } = await ProgressionService.getRecommendations(userId, day);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Progression recommendations retrieved successfully',
+      data: { scheme, recommendations },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Select the load progression scheme of the user
+   */
+  static updateProgressionScheme = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const scheme = await ProgressionService.setScheme(userId, req.body.scheme);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Progression scheme updated successfully',
+      data: { scheme },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Switch equipment profile, swapping exercises it rules out for the rest of the week
+   * (those without a substitute are flagged unavailable, or dropped when requested)
+   */
+  static updateEquipmentProfile = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const { profile, substitutions, plans } = await WorkoutService.setEquipmentProfile(
+      userId,
+      req.body.profile,
+      req.body.dropUnavailable
+    );
+
+    const substituted = substitutions.filter(substitution => substitution.to !== null).length;
+    const unmatched = substitutions.length - substituted;
+
+    const response: ApiResponse = {
+      success: true,
+      message: substitutions.length > 0 ?
+        `Equipment profile updated, ${substituted} exercise(s) substituted` +
+          (unmatched > 0 ? `, ${unmatched} ${req.body.dropUnavailable ? 'dropped' : 'flagged unavailable'}` : '') :
+        'Equipment profile updated successfully',
+      data: { profile, substitutions, plans: await PlanEstimateService.withEstimates(plans) },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Update training frequency, split and rest days, regenerating the routine
+   */
+  static updateTrainingPreferences = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const { preferences, week, plans } = await WorkoutService.setTrainingPreferences(userId, req.body);
+    // Training days set the activity level of the profile-based calorie estimate
+    await CalorieTargetService.recalibrate(userId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Training preferences updated and routine regenerated',
+      data: { preferences, week, plans: await PlanEstimateService.withEstimates(plans) },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Get the sets logged for a day, optionally for one exercise
+   */
+  static getSetLogs = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const { day, exerciseId } = req.params;
+
+    WorkoutController.validateDay(day);
+
+    const sets = await WorkoutService.getSetLogs(userId, day, exerciseId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Set logs retrieved successfully',
+      data: { sets },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Record a finished guided workout session
+   */
+  static completeSession = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const { day } = req.params;
+
+    WorkoutController.validateDay(day);
+
+    const { plan, sets, summary } = await WorkoutService.completeSession(userId, day, req.body);
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Session recorded: ${summary.total_sets} sets logged`,
+      data: { plan: await PlanEstimateService.withEstimate(plan), sets, summary },
+    };
+
+    res.status(201).json(response);
+  });
+
+  /**
+   * Get ranked alternatives for an exercise of a day
+   */
+  static getExerciseAlternatives = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const { day, exerciseId } = req.params;
+
+    WorkoutController.validateDay(day);
+
+    let limit: number | undefined;
+    if (req.query.limit !== undefined) {
+      limit = parseInt(req.query.limit as string);
+      if (isNaN(limit) || limit < 1 || limit > 20) {
+        throw new AppError('limit must be between 1 and 20', 400, 'INVALID_FILTER');
+      }
+    }
+
+    const { exercise, alternatives } = await WorkoutService.getExerciseAlternatives(userId, day, exerciseId, limit);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Exercise alternatives retrieved successfully',
+      data: { exercise, alternatives },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Swap an exercise of a day for a catalog exercise
+   */
+  static swapExercise = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const { day, exerciseId } = req.params;
+
+    WorkoutController.validateDay(day);
+
+    const { plan, from, to } = await WorkoutService.swapExercise(userId, day, exerciseId, req.body);
+
+    const response: ApiResponse = {
+      success: true,
+      message: `${from.name} swapped for ${to.name}`,
+      data: { plan: await PlanEstimateService.withEstimate(plan), from, to },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Log a performed set against an exercise
+   */
+  static logExerciseSet = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const { day, exerciseId } = req.params;
+
+    WorkoutController.validateDay(day);
+
+    const { set, plan } = await WorkoutService.logExerciseSet(userId, day, exerciseId, req.body);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Set logged successfully',
+      data: { set, plan: await PlanEstimateService.withEstimate(plan) },
+    };
+
+    res.status(201).json(response);
+  });
+
+  /**
+   * Update a logged set
+   */
+  static updateExerciseSet = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const { day } = req.params;
+
+    WorkoutController.validateDay(day);
+
+    const set = await WorkoutService.updateExerciseSet(userId, day, WorkoutController.parseSetId(req.params.setId), req.body);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Set updated successfully',
+      data: { set },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Delete a logged set
+   */
+  static deleteExerciseSet = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const { day } = req.params;
+
+    WorkoutController.validateDay(day);
+
+    await WorkoutService.deleteExerciseSet(userId, day, WorkoutController.parseSetId(req.params.setId));
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Set deleted successfully',
     };
 
     res.status(200).json(response);
@@ -96,7 +337,7 @@ export class WorkoutController {
     const response: ApiResponse = {
       success: true,
       message: 'Workout intensity adjusted successfully',
-      data: { plans: adjustedPlans },
+      data: { plans: await PlanEstimateService.withEstimates(adjustedPlans) },
     };
 
     res.status(200).json(response);
@@ -114,7 +355,7 @@ export class WorkoutController {
       throw new AppError('Invalid day. Must be one of: ' + validDays.join(', '), 400, 'INVALID_DAY');
     }
 
-    const plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
+    const plan = await PlanEstimateService.withEstimate(await WorkoutMealPlanModel.findByUserAndDay(userId, day));
     if (!plan) {
       throw new AppError('No workout plan found for this day', 404, 'PLAN_NOT_FOUND');
     }
@@ -147,7 +388,7 @@ export class WorkoutController {
   static getAllWorkouts = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const userId = req.user!.userId;
 
-    const plans = await WorkoutMealPlanModel.findByUserId(userId);
+    const plans = await PlanEstimateService.withEstimates(await WorkoutMealPlanModel.findByUserId(userId));
 
     // Extract only workout-related data
     const workouts = plans.map(plan => ({
@@ -201,7 +442,7 @@ export class WorkoutController {
     const response: ApiResponse = {
       success: true,
       message: 'Workout plan updated successfully',
-      data: { plan: updatedPlan },
+      data: { plan: await PlanEstimateService.withEstimate(updatedPlan) },
     };
 
     res.status(200).json(response);
@@ -248,13 +489,11 @@ export class WorkoutController {
     let totalDuration = 0;
 
     plans.forEach(plan => {
-      plan.exercises.forEach(exercise => {
+      plan.exercises.filter(exercise => WarmupCooldownService.isMainExercise(exercise)).forEach(exercise => {
         const muscleGroup = exercise.muscle_group || 'other';
         muscleGroupStats[muscleGroup] = (muscleGroupStats[muscleGroup] || 0) + 1;
-        if (exercise.duration) {
-          totalDuration += exercise.duration;
-        }
       });
+      totalDuration += SessionDurationService.estimate(plan.exercises).total_seconds;
     });
 
     const statistics = {
@@ -280,20 +519,11 @@ export class WorkoutController {
   static resetWorkoutProgress = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const userId = req.user!.userId;
 
-    // Get all plans and reset their completion status
+    // Get all plans and reset their exercise completion (meal status is kept)
     const plans = await WorkoutMealPlanModel.findByUserId(userId);
 
     for (const plan of plans) {
-      const resetStatus = {
-        exercises: {},
-        meals: plan.completed_status.meals, // Keep meal status
-        date_completed: undefined,
-      };
-
-      await WorkoutMealPlanModel.updateCompletedStatus(userId, plan.day, {
-        exercise_id: '', // This will be ignored
-        completed: false,
-      });
+      await WorkoutMealPlanModel.resetCompletedStatus(userId, plan.day, 'exercises');
     }
 
     const response: ApiResponse = {
@@ -305,38 +535,24 @@ export class WorkoutController {
   });
 
   /**
-   * Archive current week's workout progress
+   * Archive a week's workout and meal progress (current week by default)
    */
   static archiveCurrentWeek = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const userId = req.user!.userId;
-    const { weekNumber } = req.body;
-
-    // For now, we'll just return a success response since we don't have a separate archive table
-    // In a full implementation, you would move completed data to an archive table
-    const plans = await WorkoutMealPlanModel.findByUserId(userId);
-    
-    const archive = {
-      id: Date.now(), // Simple ID for demo
-      user_id: userId,
-      week_number: weekNumber || 1,
-      archived_date: new Date(),
-      workout_summary: {
-        total_exercises: plans.reduce((sum, plan) => sum + plan.exercises.length, 0),
-        completed_exercises: plans.reduce((sum, plan) => {
-          const completed = Object.values(plan.completed_status.exercises || {}).filter(Boolean).length;
-          return sum + completed;
-        }, 0),
-        completion_rate: 0
+    // Express leaves the body undefined when the request has none
+    const { weekStart } = req.body ?? {};
+
+    let weekStartDate = DateUtils.getWeekStart();
+    if (weekStart !== undefined) {
+      const date = typeof weekStart === 'string' ? DateUtils.parseDateString(weekStart) : null;
+      if (!date) {
+        throw new AppError('Invalid week start date format (expected YYYY-MM-DD)', 400, 'INVALID_DATE');
       }
-    };
-
-    // Calculate completion rate
-    if (archive.workout_summary.total_exercises > 0) {
-      archive.workout_summary.completion_rate = Math.round(
-        (archive.workout_summary.completed_exercises / archive.workout_summary.total_exercises) * 100
-      );
+      weekStartDate = DateUtils.getWeekStart(date);
     }
 
+    const archive = await ArchiveService.archiveWeek(userId, DateUtils.toDateString(weekStartDate));
+
     const response: ApiResponse = {
       success: true,
       message: 'Week archived successfully',
@@ -347,22 +563,119 @@ export class WorkoutController {
   });
 
   /**
-   * Get archived weeks for progress history
+   * Get archived weeks for progress history (paginated, filterable)
    */
   static getArchivedWeeks = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const userId = req.user!.userId;
-    const limit = parseInt(req.query.limit as string) || 10;
+    const { page, limit } = req.pagination!;
+    const { from, to, min_completion, max_completion, include_days } = req.query;
+
+    const filters: WeeklyArchiveFilters = {};
+
+    if (from !== undefined) {
+      const fromDate = typeof from === 'string' ? DateUtils.parseDateString(from) : null;
+      if (!fromDate) {
+        throw new AppError('Invalid start date format (expected YYYY-MM-DD)', 400, 'INVALID_DATE');
+      }
+      filters.fromDate = DateUtils.toDateString(fromDate);
+    }
+
+    if (to !== undefined) {
+      const toDate = typeof to === 'string' ? DateUtils.parseDateString(to) : null;
+      if (!toDate) {
+        throw new AppError('Invalid end date format (expected YYYY-MM-DD)', 400, 'INVALID_DATE');
+      }
+      filters.toDate = DateUtils.toDateString(toDate);
+    }
+
+    if (min_completion !== undefined) {
+      filters.minCompletion = parseInt(min_completion as string);
+      if (isNaN(filters.minCompletion) || filters.minCompletion < 0 || filters.minCompletion > 100) {
+        throw new AppError('min_completion must be between 0 and 100', 400, 'INVALID_FILTER');
+      }
+    }
+
+    if (max_completion !== undefined) {
+      filters.maxCompletion = parseInt(max_completion as string);
+      if (isNaN(filters.maxCompletion) || filters.maxCompletion < 0 || filters.maxCompletion > 100) {
+        throw new AppError('max_completion must be between 0 and 100', 400, 'INVALID_FILTER');
+      }
+    }
 
-    // For now, return empty array since we don't have archive storage
-    // In a full implementation, you would query an archive table
-    const archives: any[] = [];
+    const { archives, total } = await WeeklyArchiveModel.findByUserId(
+      userId,
+      filters,
+      page,
+      limit,
+      include_days === 'true'
+    );
+    const totalPages = Math.ceil(total / limit);
 
     const response: ApiResponse = {
       success: true,
       message: 'Archived weeks retrieved successfully',
-      data: { archives },
+      data: {
+        archives,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      },
     };
 
     res.status(200).json(response);
   });
-}
\ No newline at end of file
+
+  /**
+   * Get the full snapshot of a single archived week
+   */
+  static getArchivedWeek = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const date = DateUtils.parseDateString(req.params.weekStart);
+
+    if (!date) {
+      throw new AppError('Invalid week start date format (expected YYYY-MM-DD)', 400, 'INVALID_DATE');
+    }
+
+    const archive = await WeeklyArchiveModel.findByUserAndWeek(
+      userId,
+      DateUtils.toDateString(DateUtils.getWeekStart(date)),
+      true
+    );
+    if (!archive) {
+      throw new AppError('Archived week not found', 404, 'ARCHIVE_NOT_FOUND');
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Archived week retrieved successfully',
+      data: { archive },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Reject anything that is not a day of the week
+   */
+  private static validateDay(day: string): void {
+    if (!(DAYS_OF_WEEK as readonly string[]).includes(day)) {
+      throw new AppError('Invalid day. Must be one of: ' + DAYS_OF_WEEK.join(', '), 400, 'INVALID_DAY');
+    }
+  }
+
+  /**
+   * Parse a set log ID route parameter
+   */
+  private static parseSetId(value: string): number {
+    const setId = parseInt(value);
+    if (isNaN(setId) || setId < 1) {
+      throw new AppError('Invalid set ID', 400, 'INVALID_SET_ID');
+    }
+    return setId;
+  }
+}
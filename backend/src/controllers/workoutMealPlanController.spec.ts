@@ -0,0 +1,72 @@
+import { createStorage, getStorage, setStorage } from '../repositories';
+import { api, signUp } from '../test/api';
+import { DateUtils } from '../utils/date';
+
+const mondayPlan = (exerciseName: string) => ({
+  day: 'Monday',
+  exercises: [{ id: 'ex1', name: exerciseName, sets: 3, reps: 10, muscle_group: 'legs' }],
+  meals: [],
+});
+
+describe('WorkoutMealPlanController (dated plan history)', () => {
+  const currentWeek = DateUtils.getCurrentWeekStart();
+  const lastWeek = DateUtils.addDays(currentWeek, -7);
+
+  beforeEach(() => {
+    setStorage(createStorage('memory'));
+  });
+
+  it('saves a day as a dated plan of the current week and as its weekday template', async () => {
+    const { token } = await signUp();
+
+    const response = await api(token).post('/workout-meal-plans').send(mondayPlan('Squat')).expect(200);
+    expect(response.body.data.plan).toMatchObject({ day: 'Monday', plan_date: currentWeek, week_start: currentWeek });
+
+    const templates = await api(token).get('/workout-meal-plans/templates').expect(200);
+    expect(templates.body.data.templates).toHaveLength(1);
+    expect(templates.body.data.templates[0].exercises[0].name).toBe('Squat');
+  });
+
+  it('keeps the plans of past weeks when the current week changes', async () => {
+    const { userId, token } = await signUp();
+    await getStorage().plans.create({
+      userId, day: 'Monday', planDate: lastWeek, weekStart: lastWeek, exercises: mondayPlan('Deadlift').exercises, meals: [],
+    });
+
+    await api(token).post('/workout-meal-plans').send(mondayPlan('Squat')).expect(200);
+
+    const weeks = await api(token).get('/workout-meal-plans/weeks').expect(200);
+    expect(weeks.body.data.weeks).toEqual([currentWeek, lastWeek]);
+
+    // Any date inside the week selects it
+    const past = await api(token).get(`/workout-meal-plans/weeks/${DateUtils.addDays(lastWeek, 3)}`).expect(200);
+    expect(past.body.data.weekStart).toBe(lastWeek);
+    expect(past.body.data.plans.map((plan: any) => plan.exercises[0].name)).toEqual(['Deadlift']);
+
+    const history = await api(token)
+      .get(`/workout-meal-plans/history?from=${lastWeek}&to=${DateUtils.addDays(currentWeek, 6)}`)
+      .expect(200);
+    expect(history.body.data.plans.map((plan: any) => [plan.plan_date, plan.exercises[0].name])).toEqual([
+      [lastWeek, 'Deadlift'],
+      [currentWeek, 'Squat'],
+    ]);
+  });
+
+  it('creates the current week from the templates when it is first read', async () => {
+    const { userId, token } = await signUp();
+    await getStorage().plans.saveTemplate(userId, 'Monday', mondayPlan('Squat').exercises, []);
+
+    const response = await api(token).get('/workout-meal-plans/Monday').expect(200);
+    expect(response.body.data.plan).toMatchObject({ plan_date: currentWeek, exercises: [{ name: 'Squat' }] });
+  });
+
+  it('rejects malformed dates', async () => {
+    const { token } = await signUp();
+
+    const week = await api(token).get('/workout-meal-plans/weeks/last-monday').expect(400);
+    expect(week.body.error).toBe('INVALID_DATE');
+
+    const history = await api(token).get(`/workout-meal-plans/history?from=${currentWeek}&to=${lastWeek}`).expect(400);
+    expect(history.body.error).toBe('INVALID_DATE_RANGE');
+  });
+});
@@ -1,8 +1,11 @@
 import { Request, Response } from 'express';
 import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
+import { WorkoutService } from '../services/workoutService';
+import { PlanEstimateService } from '../services/planEstimateService';
 import { logger } from '../utils/logger';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
 import { ApiResponse, AuthenticatedRequest, CreateWorkoutMealPlanRequest, UpdateCompletedStatusRequest } from '../types';
+import { DateUtils } from '../utils/date';
 
 export class WorkoutMealPlanController {
   /**
@@ -17,7 +20,7 @@ export class WorkoutMealPlanController {
     const response: ApiResponse = {
       success: true,
       message: 'Workout meal plan saved successfully',
-      data: { plan },
+      data: { plan: await PlanEstimateService.withEstimate(plan) },
     };
 
     res.status(200).json(response);
@@ -34,7 +37,7 @@ export class WorkoutMealPlanController {
     const response: ApiResponse = {
       success: true,
       message: 'Workout meal plans retrieved successfully',
-      data: { plans },
+      data: { plans: await PlanEstimateService.withEstimates(plans) },
     };
 
     res.status(200).json(response);
@@ -60,7 +63,7 @@ export class WorkoutMealPlanController {
     const response: ApiResponse = {
       success: true,
       message: 'Workout meal plan retrieved successfully',
-      data: { plan },
+      data: { plan: await PlanEstimateService.withEstimate(plan) },
     };
 
     res.status(200).json(response);
@@ -84,7 +87,7 @@ export class WorkoutMealPlanController {
     const response: ApiResponse = {
       success: true,
       message: 'Completed status updated successfully',
-      data: { plan: updatedPlan },
+      data: { plan: await PlanEstimateService.withEstimate(updatedPlan) },
     };
 
     res.status(200).json(response);
@@ -107,6 +110,107 @@ export class WorkoutMealPlanController {
     res.status(200).json(response);
   });
 
+  /**
+   * Get the weeks that have plan history for current user
+   */
+  static getPlanWeeks = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const limit = Math.min(parseInt(req.query.limit as string) || 12, 104);
+
+    const weeks = await WorkoutMealPlanModel.findWeekStarts(userId, limit);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Plan weeks retrieved successfully',
+      data: { weeks },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Get workout meal plans and progress for a past or current week
+   */
+  static getPlansByWeek = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const date = DateUtils.parseDateString(req.params.weekStart);
+
+    if (!date) {
+      throw new AppError('Invalid week start date format (expected YYYY-MM-DD)', 400, 'INVALID_DATE');
+    }
+
+    // Any date inside the week selects that week
+    const weekStart = DateUtils.toDateString(DateUtils.getWeekStart(date));
+    const plans = weekStart === DateUtils.getCurrentWeekStart()
+      ? await WorkoutMealPlanModel.findByUserId(userId)
+      : await WorkoutMealPlanModel.findByWeek(userId, weekStart);
+    const progress = await WorkoutMealPlanModel.getWeeklyProgress(userId, weekStart);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Workout meal plans retrieved successfully',
+      data: { weekStart, plans: await PlanEstimateService.withEstimates(plans), progress },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Get workout meal plan history between two dates
+   */
+  static getPlanHistory = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+    const { from, to } = req.query;
+
+    const toDate = typeof to === 'string' ? DateUtils.parseDateString(to) : new Date();
+    if (!toDate) {
+      throw new AppError('Invalid end date format (expected YYYY-MM-DD)', 400, 'INVALID_DATE');
+    }
+
+    let fromDate: Date | null = new Date(toDate.getFullYear(), toDate.getMonth(), toDate.getDate() - 27);
+    if (typeof from === 'string') {
+      fromDate = DateUtils.parseDateString(from);
+      if (!fromDate) {
+        throw new AppError('Invalid start date format (expected YYYY-MM-DD)', 400, 'INVALID_DATE');
+      }
+    }
+
+    if (fromDate > toDate) {
+      throw new AppError('Start date must be before end date', 400, 'INVALID_DATE_RANGE');
+    }
+
+    const plans = await WorkoutMealPlanModel.findByDateRange(
+      userId,
+      DateUtils.toDateString(fromDate),
+      DateUtils.toDateString(toDate)
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Workout meal plan history retrieved successfully',
+      data: { plans: await PlanEstimateService.withEstimates(plans) },
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * Get weekday templates that new weeks are created from
+   */
+  static getTemplates = asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user!.userId;
+
+    const templates = await WorkoutMealPlanModel.findTemplatesByUserId(userId);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Workout meal plan templates retrieved successfully',
+      data: { templates },
+    };
+
+    res.status(200).json(response);
+  });
+
   /**
    * Generate default workout meal plans based on user goal
    */
@@ -119,7 +223,7 @@ export class WorkoutMealPlanController {
       throw new AppError('Invalid goal. Must be one of: ' + validGoals.join(', '), 400, 'INVALID_GOAL');
     }
 
-    await WorkoutMealPlanModel.generateDefaultPlan(userId, goal);
+    await WorkoutService.generateDefaultPlan(userId, goal);
 
     const response: ApiResponse = {
       success: true,
@@ -172,7 +276,7 @@ export class WorkoutMealPlanController {
     const response: ApiResponse = {
       success: true,
       message: 'Plans retrieved successfully',
-      data: { plans },
+      data: { plans: await PlanEstimateService.withEstimates(plans) },
     };
 
     res.status(200).json(response);
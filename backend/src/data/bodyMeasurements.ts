@@ -0,0 +1,11 @@
+import { CircumferenceSite } from '../types';
+
+export const CIRCUMFERENCE_SITES: CircumferenceSite[] = ['neck', 'chest', 'waist', 'hips', 'arm', 'thigh'];
+
+// Share of each day's deviation from the trend that moves the trend (Hacker's Diet style smoothing).
+// Days without an entry still decay the old trend, so a gap weighs the next entry more.
+export const TREND_SMOOTHING_FACTOR = 0.1;
+
+// Weekly rate of change is the slope of the trend over the last weeks, once it spans at least a week
+export const WEEKLY_RATE_WINDOW_DAYS = 28;
+export const MIN_WEEKLY_RATE_SPAN_DAYS = 7;
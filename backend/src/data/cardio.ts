@@ -0,0 +1,13 @@
+import { CardioModality } from '../types';
+
+export const CARDIO_MODALITIES: CardioModality[] = ['run', 'walk', 'cycle', 'row', 'swim', 'elliptical', 'jump_rope', 'mixed'];
+
+// Zone 1 is warm-up and recovery pace; cardio picked for a session's conditioning work is at least zone 2
+export const MIN_CONDITIONING_ZONE = 2;
+
+// Intensity adjustments: steady-state sessions change by a share of their duration, interval sessions by a round
+export const STEADY_STATE_DURATION_STEP = 0.1;
+export const MIN_STEADY_STATE_SECONDS = 600;
+export const MAX_STEADY_STATE_SECONDS = 5400;
+export const MIN_INTERVAL_ROUNDS = 3;
+export const MAX_INTERVAL_ROUNDS = 12;
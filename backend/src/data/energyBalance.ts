@@ -0,0 +1,40 @@
+/**
+ * Harris–Benedict activity multipliers by training days per week, used for the
+ * maintenance estimate until there is enough logged intake and weight data
+ */
+export const ACTIVITY_MULTIPLIERS: { maxTrainingDays: number; multiplier: number }[] = [
+  { maxTrainingDays: 1, multiplier: 1.2 }, // Sedentary
+  { maxTrainingDays: 3, multiplier: 1.375 }, // Lightly active
+  { maxTrainingDays: 5, multiplier: 1.55 }, // Moderately active
+  { maxTrainingDays: 7, multiplier: 1.725 }, // Very active
+];
+
+// Training days assumed when the profile has none
+export const DEFAULT_TRAINING_DAYS = 3;
+
+// Energy stored in a kilogram of body weight change (mixed fat and lean tissue)
+export const KCAL_PER_KG = 7700;
+
+// Days of logged intake and weigh-ins the maintenance estimate is recalibrated from,
+// and how many of them need food diary entries for the estimate to be trusted
+export const ADAPTIVE_WINDOW_DAYS = 28;
+export const MIN_LOGGED_DAYS = 14;
+
+// Share of the gap between the observed maintenance and last week's estimate closed each week,
+// and the most the estimate may move in a week, so one noisy window can't swing the target
+export const ADAPTATION_RATE = 0.5;
+export const MAX_WEEKLY_TDEE_CHANGE = 150;
+
+// Daily calories below or above maintenance for each goal without a dated weight target
+export const GOAL_CALORIE_OFFSETS: { [goal: string]: number } = {
+  weight_loss: -300,
+  muscle_gain: 300,
+  maintenance: 0,
+};
+
+// Bounds of the daily offset a dated weight target may ask for
+export const MAX_DAILY_DEFICIT = 1000;
+export const MAX_DAILY_SURPLUS = 500;
+
+// Lowest calorie target ever set
+export const MIN_CALORIE_TARGET = 1200;
@@ -0,0 +1,23 @@
+import { EquipmentProfile } from '../types';
+
+/**
+ * Equipment tags available in each profile. Bodyweight exercises (no tags) fit every profile.
+ */
+export const EQUIPMENT_PROFILES: { [profile in EquipmentProfile]: string[] } = {
+  home: [],
+  travel: ['resistance_band'],
+  dumbbells: ['dumbbells', 'bench'],
+  full_gym: [
+    'barbell',
+    'dumbbells',
+    'kettlebell',
+    'bench',
+    'cable',
+    'machine',
+    'pull_up_bar',
+    'parallel_bars',
+    'resistance_band',
+  ],
+};
+
+export const DEFAULT_EQUIPMENT_PROFILE: EquipmentProfile = 'home';
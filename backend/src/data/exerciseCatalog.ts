@@ -0,0 +1,369 @@
+import { CatalogExerciseData } from '../types';
+
+/**
+ * Initial exercise catalog of the in-memory storage driver. The catalog migrations keep their own
+ * copies of the rows they insert, so an entry added here also needs a migration inserting it.
+ * Muscle names match the muscle_group values used by plans.
+ */
+export const EXERCISE_CATALOG_SEED: CatalogExerciseData[] = [
+  // Cardiovascular
+  {
+    slug: 'jumping-jacks', name: 'Jumping Jacks', primary_muscle: 'cardiovascular', secondary_muscles: ['full_body', 'legs'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 20,
+    instructions: 'Full body cardio exercise',
+  },
+  {
+    slug: 'high-knees', name: 'High Knees', primary_muscle: 'cardiovascular', secondary_muscles: ['legs', 'core'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Cardio exercise for legs',
+  },
+  {
+    slug: 'burpees', name: 'Burpees', primary_muscle: 'full_body', secondary_muscles: ['cardiovascular', 'chest', 'legs'],
+    equipment: [], difficulty: 'intermediate', default_sets: 3, default_reps: 8,
+    instructions: 'High intensity full body exercise',
+  },
+  {
+    slug: 'cardio-warm-up', name: 'Cardio Warm-up', primary_muscle: 'cardiovascular', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 600,
+    cardio: { modality: 'mixed', heart_rate_zone: 1 },
+    instructions: '10 minutes of light cardio',
+  },
+  {
+    slug: 'light-cardio', name: 'Light Cardio', primary_muscle: 'cardiovascular', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 900,
+    cardio: { modality: 'mixed', heart_rate_zone: 2 },
+    instructions: '15 minutes of moderate cardio',
+  },
+
+  // Chest
+  {
+    slug: 'push-ups', name: 'Push-ups', primary_muscle: 'chest', secondary_muscles: ['arms', 'shoulders', 'core'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Standard push-ups for chest',
+  },
+  {
+    slug: 'incline-push-ups', name: 'Incline Push-ups', primary_muscle: 'chest', secondary_muscles: ['arms'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Easier variation of push-ups',
+  },
+  {
+    slug: 'chest-dips', name: 'Chest Dips', primary_muscle: 'chest', secondary_muscles: ['arms', 'shoulders'],
+    equipment: ['parallel_bars'], difficulty: 'advanced', default_sets: 3, default_reps: 8,
+    instructions: 'Advanced chest exercise',
+  },
+
+  // Legs
+  {
+    slug: 'squats', name: 'Squats', primary_muscle: 'legs', secondary_muscles: ['core'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Basic squat exercise',
+  },
+  {
+    slug: 'lunges', name: 'Lunges', primary_muscle: 'legs', secondary_muscles: ['core'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Alternating leg lunges',
+  },
+  {
+    slug: 'calf-raises', name: 'Calf Raises', primary_muscle: 'legs', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 20,
+    instructions: 'Calf strengthening exercise',
+  },
+
+  // Core
+  {
+    slug: 'planks', name: 'Planks', primary_muscle: 'core', secondary_muscles: ['shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 1, default_duration: 60,
+    instructions: 'Hold plank position',
+  },
+  {
+    slug: 'crunches', name: 'Crunches', primary_muscle: 'core', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Basic abdominal crunches',
+  },
+  {
+    slug: 'mountain-climbers', name: 'Mountain Climbers', primary_muscle: 'core', secondary_muscles: ['cardiovascular', 'shoulders'],
+    equipment: [], difficulty: 'intermediate', default_sets: 3, default_reps: 20,
+    instructions: 'Dynamic core exercise',
+  },
+
+  // Arms
+  {
+    slug: 'tricep-dips', name: 'Tricep Dips', primary_muscle: 'arms', secondary_muscles: ['chest', 'shoulders'],
+    equipment: ['bench'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Tricep strengthening exercise (a sturdy chair works too)',
+  },
+  {
+    slug: 'arm-circles', name: 'Arm Circles', primary_muscle: 'arms', secondary_muscles: ['shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Shoulder and arm exercise',
+  },
+  {
+    slug: 'wall-push-ups', name: 'Wall Push-ups', primary_muscle: 'arms', secondary_muscles: ['chest'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Easier arm exercise',
+  },
+
+  // Back
+  {
+    slug: 'superman', name: 'Superman', primary_muscle: 'back', secondary_muscles: ['core'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Lower back strengthening',
+  },
+  {
+    slug: 'reverse-fly', name: 'Reverse Fly', primary_muscle: 'back', secondary_muscles: ['shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Upper back exercise',
+  },
+  {
+    slug: 'cat-cow-stretch', name: 'Cat-Cow Stretch', primary_muscle: 'back', secondary_muscles: ['flexibility'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 10,
+    instructions: 'Back mobility exercise',
+  },
+  {
+    slug: 'pull-ups', name: 'Pull-ups', primary_muscle: 'back', secondary_muscles: ['arms'],
+    equipment: ['pull_up_bar'], difficulty: 'intermediate', default_sets: 3, default_reps: 8,
+    instructions: 'Upper body pulling exercise',
+  },
+
+  // Shoulders
+  {
+    slug: 'shoulder-rolls', name: 'Shoulder Rolls', primary_muscle: 'shoulders', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Shoulder mobility exercise',
+  },
+  {
+    slug: 'pike-push-ups', name: 'Pike Push-ups', primary_muscle: 'shoulders', secondary_muscles: ['arms', 'chest'],
+    equipment: [], difficulty: 'intermediate', default_sets: 3, default_reps: 8,
+    instructions: 'Shoulder strengthening exercise',
+  },
+  {
+    slug: 'arm-raises', name: 'Arm Raises', primary_muscle: 'shoulders', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Lateral shoulder exercise',
+  },
+
+  // Full body
+  {
+    slug: 'bear-crawl', name: 'Bear Crawl', primary_muscle: 'full_body', secondary_muscles: ['core', 'shoulders'],
+    equipment: [], difficulty: 'intermediate', default_sets: 3, default_reps: 10,
+    instructions: 'Full body strength exercise',
+  },
+
+  // Flexibility
+  {
+    slug: 'forward-fold', name: 'Forward Fold', primary_muscle: 'flexibility', secondary_muscles: ['legs', 'back'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Hamstring and back stretch',
+  },
+  {
+    slug: 'hip-circles', name: 'Hip Circles', primary_muscle: 'flexibility', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 10,
+    instructions: 'Hip mobility exercise',
+  },
+  {
+    slug: 'shoulder-stretch', name: 'Shoulder Stretch', primary_muscle: 'flexibility', secondary_muscles: ['shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 20,
+    instructions: 'Shoulder flexibility exercise',
+  },
+  {
+    slug: 'stretching', name: 'Stretching', primary_muscle: 'flexibility', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 600,
+    instructions: '10 minutes of full body stretching',
+  },
+
+  // Dumbbells
+  {
+    slug: 'dumbbell-bench-press', name: 'Dumbbell Bench Press', primary_muscle: 'chest', secondary_muscles: ['arms', 'shoulders'],
+    equipment: ['dumbbells', 'bench'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Press the dumbbells up from chest level while lying on a flat bench',
+  },
+  {
+    slug: 'dumbbell-row', name: 'Dumbbell Row', primary_muscle: 'back', secondary_muscles: ['arms'],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'One-arm row with a flat back, pulling the dumbbell to the hip',
+  },
+  {
+    slug: 'goblet-squat', name: 'Goblet Squat', primary_muscle: 'legs', secondary_muscles: ['core'],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Squat holding one dumbbell at the chest',
+  },
+  {
+    slug: 'dumbbell-romanian-deadlift', name: 'Dumbbell Romanian Deadlift', primary_muscle: 'legs', secondary_muscles: ['back'],
+    equipment: ['dumbbells'], difficulty: 'intermediate', default_sets: 3, default_reps: 10,
+    instructions: 'Hinge at the hips with soft knees, lowering the dumbbells along the legs',
+  },
+  {
+    slug: 'dumbbell-shoulder-press', name: 'Dumbbell Shoulder Press', primary_muscle: 'shoulders', secondary_muscles: ['arms'],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Press the dumbbells overhead from shoulder height',
+  },
+  {
+    slug: 'dumbbell-lateral-raise', name: 'Dumbbell Lateral Raise', primary_muscle: 'shoulders', secondary_muscles: [],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Raise the dumbbells out to the side up to shoulder height',
+  },
+  {
+    slug: 'dumbbell-curl', name: 'Dumbbell Curl', primary_muscle: 'arms', secondary_muscles: [],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Biceps curl keeping the elbows at your sides',
+  },
+  {
+    slug: 'overhead-tricep-extension', name: 'Overhead Tricep Extension', primary_muscle: 'arms', secondary_muscles: ['shoulders'],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Lower one dumbbell behind the head and extend the elbows',
+  },
+  {
+    slug: 'dumbbell-thrusters', name: 'Dumbbell Thrusters', primary_muscle: 'full_body', secondary_muscles: ['legs', 'shoulders', 'cardiovascular'],
+    equipment: ['dumbbells'], difficulty: 'intermediate', default_sets: 3, default_reps: 10,
+    instructions: 'Front squat straight into an overhead press',
+  },
+
+  // Gym
+  {
+    slug: 'barbell-bench-press', name: 'Barbell Bench Press', primary_muscle: 'chest', secondary_muscles: ['arms', 'shoulders'],
+    equipment: ['barbell', 'bench'], difficulty: 'intermediate', default_sets: 4, default_reps: 8,
+    instructions: 'Lower the bar to mid-chest and press back up',
+  },
+  {
+    slug: 'cable-fly', name: 'Cable Fly', primary_muscle: 'chest', secondary_muscles: ['shoulders'],
+    equipment: ['cable'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Bring the handles together in front of the chest with slightly bent arms',
+  },
+  {
+    slug: 'barbell-back-squat', name: 'Barbell Back Squat', primary_muscle: 'legs', secondary_muscles: ['core', 'back'],
+    equipment: ['barbell'], difficulty: 'intermediate', default_sets: 4, default_reps: 8,
+    instructions: 'Squat to at least parallel with the bar on the upper back',
+  },
+  {
+    slug: 'leg-press', name: 'Leg Press', primary_muscle: 'legs', secondary_muscles: [],
+    equipment: ['machine'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Press the platform away without locking the knees',
+  },
+  {
+    slug: 'deadlift', name: 'Deadlift', primary_muscle: 'back', secondary_muscles: ['legs', 'core'],
+    equipment: ['barbell'], difficulty: 'advanced', default_sets: 3, default_reps: 5,
+    instructions: 'Lift the bar from the floor with a neutral spine, driving through the legs',
+  },
+  {
+    slug: 'lat-pulldown', name: 'Lat Pulldown', primary_muscle: 'back', secondary_muscles: ['arms'],
+    equipment: ['cable'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Pull the bar to the upper chest, squeezing the shoulder blades',
+  },
+  {
+    slug: 'barbell-overhead-press', name: 'Barbell Overhead Press', primary_muscle: 'shoulders', secondary_muscles: ['arms', 'core'],
+    equipment: ['barbell'], difficulty: 'intermediate', default_sets: 4, default_reps: 6,
+    instructions: 'Press the bar from the front rack to overhead',
+  },
+  {
+    slug: 'cable-tricep-pushdown', name: 'Cable Tricep Pushdown', primary_muscle: 'arms', secondary_muscles: [],
+    equipment: ['cable'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Push the handle down until the elbows are straight',
+  },
+  {
+    slug: 'hanging-leg-raise', name: 'Hanging Leg Raise', primary_muscle: 'core', secondary_muscles: [],
+    equipment: ['pull_up_bar'], difficulty: 'intermediate', default_sets: 3, default_reps: 10,
+    instructions: 'Raise the legs while hanging from a bar without swinging',
+  },
+  {
+    slug: 'kettlebell-swing', name: 'Kettlebell Swing', primary_muscle: 'full_body', secondary_muscles: ['legs', 'back', 'cardiovascular'],
+    equipment: ['kettlebell'], difficulty: 'intermediate', default_sets: 3, default_reps: 15,
+    instructions: 'Hinge and snap the hips to swing the kettlebell to chest height',
+  },
+  {
+    slug: 'rowing-machine-intervals', name: 'Rowing Machine Intervals', primary_muscle: 'cardiovascular', secondary_muscles: ['back', 'legs'],
+    equipment: ['machine'], difficulty: 'beginner', default_sets: 4, default_reps: 1, default_duration: 60,
+    cardio: { modality: 'row', heart_rate_zone: 4, intervals: { rounds: 4, work_seconds: 60, rest_seconds: 60 } },
+    instructions: 'Row hard for one minute per interval',
+  },
+
+  // Resistance band
+  {
+    slug: 'band-chest-press', name: 'Band Chest Press', primary_muscle: 'chest', secondary_muscles: ['arms'],
+    equipment: ['resistance_band'], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Press forward with the band anchored behind you',
+  },
+  {
+    slug: 'band-row', name: 'Band Row', primary_muscle: 'back', secondary_muscles: ['arms'],
+    equipment: ['resistance_band'], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Row the band to the ribs with the band anchored in front',
+  },
+  {
+    slug: 'band-pull-apart', name: 'Band Pull-apart', primary_muscle: 'shoulders', secondary_muscles: ['back'],
+    equipment: ['resistance_band'], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Pull the band apart at chest height with straight arms',
+  },
+  {
+    slug: 'band-bicep-curl', name: 'Band Bicep Curl', primary_muscle: 'arms', secondary_muscles: [],
+    equipment: ['resistance_band'], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Curl with the band under both feet',
+  },
+  {
+    slug: 'banded-squat', name: 'Banded Squat', primary_muscle: 'legs', secondary_muscles: ['core'],
+    equipment: ['resistance_band'], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Squat with the band under the feet and over the shoulders',
+  },
+
+  // Warm-up and cool-down
+  {
+    slug: 'dynamic-warm-up', name: 'Dynamic Warm-up', primary_muscle: 'cardiovascular', secondary_muscles: ['full_body'],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 300,
+    cardio: { modality: 'mixed', heart_rate_zone: 1 },
+    instructions: '5 minutes of easy cardio, arm circles, leg swings and bodyweight squats',
+  },
+  {
+    slug: 'doorway-chest-stretch', name: 'Doorway Chest Stretch', primary_muscle: 'flexibility', secondary_muscles: ['chest', 'shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Forearms on the door frame, lean through until the chest opens up',
+  },
+  {
+    slug: 'childs-pose', name: "Child's Pose", primary_muscle: 'flexibility', secondary_muscles: ['back', 'shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Sit back on the heels and reach the arms forward along the floor',
+  },
+  {
+    slug: 'standing-quad-stretch', name: 'Standing Quad Stretch', primary_muscle: 'flexibility', secondary_muscles: ['legs'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Pull one heel to the glutes, knees together, then switch legs',
+  },
+  {
+    slug: 'overhead-triceps-stretch', name: 'Overhead Triceps Stretch', primary_muscle: 'flexibility', secondary_muscles: ['arms', 'shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 20,
+    instructions: 'Reach one hand down the upper back and press the elbow gently with the other hand',
+  },
+  {
+    slug: 'cobra-stretch', name: 'Cobra Stretch', primary_muscle: 'flexibility', secondary_muscles: ['core', 'back'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Lying face down, press the chest up with the hips on the floor',
+  },
+  {
+    slug: 'hip-flexor-stretch', name: 'Kneeling Hip Flexor Stretch', primary_muscle: 'flexibility', secondary_muscles: ['legs', 'core'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Half-kneeling, tuck the pelvis and shift forward until the front of the hip stretches',
+  },
+
+  // Cardio sessions
+  {
+    slug: 'brisk-walk', name: 'Brisk Walk', primary_muscle: 'cardiovascular', secondary_muscles: ['legs'],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 1800,
+    cardio: { modality: 'walk', heart_rate_zone: 2, distance_km: 3, pace_seconds_per_km: 600 },
+    instructions: 'Walk briskly enough that talking takes some effort',
+  },
+  {
+    slug: 'easy-run', name: 'Easy Run', primary_muscle: 'cardiovascular', secondary_muscles: ['legs'],
+    equipment: [], difficulty: 'intermediate', default_sets: 1, default_reps: 1, default_duration: 1800,
+    cardio: { modality: 'run', heart_rate_zone: 2, pace_seconds_per_km: 390 },
+    instructions: 'Run at a conversational pace',
+  },
+  {
+    slug: 'sprint-intervals', name: 'Sprint Intervals', primary_muscle: 'cardiovascular', secondary_muscles: ['legs'],
+    equipment: [], difficulty: 'advanced', default_sets: 8, default_reps: 1, default_duration: 30,
+    cardio: { modality: 'run', heart_rate_zone: 5, intervals: { rounds: 8, work_seconds: 30, rest_seconds: 90 } },
+    instructions: 'Sprint all out, then walk or jog slowly until the next interval',
+  },
+  {
+    slug: 'stationary-bike', name: 'Stationary Bike', primary_muscle: 'cardiovascular', secondary_muscles: ['legs'],
+    equipment: ['machine'], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 1800,
+    cardio: { modality: 'cycle', heart_rate_zone: 2 },
+    instructions: 'Ride at a steady cadence and moderate resistance',
+  },
+];
@@ -0,0 +1,40 @@
+import { CardioModality } from '../types';
+
+/**
+ * MET values (multiples of resting energy use) from the Compendium of Physical Activities.
+ * Strength work is rated over the whole exercise, rest between sets included.
+ */
+export const DEFAULT_STRENGTH_MET = 5.0;
+
+// Muscle groups whose exercises are not regular resistance training
+export const MUSCLE_GROUP_METS: { [muscleGroup: string]: number } = {
+  cardiovascular: 8.0, // Vigorous calisthenics: jumping jacks, burpees, mountain climbers
+  full_body: 6.0, // Circuit training
+  core: 3.8, // Moderate calisthenics: planks, crunches
+  flexibility: 2.3, // Stretching
+};
+
+/**
+ * Cardio by modality and heart-rate zone (1 to 5)
+ */
+export const CARDIO_METS: { [modality in CardioModality]: [number, number, number, number, number] } = {
+  walk: [2.8, 3.5, 4.3, 5.0, 6.3],
+  run: [6.0, 8.3, 9.8, 11.0, 12.8],
+  cycle: [3.5, 5.8, 6.8, 8.8, 11.0],
+  row: [3.5, 4.8, 7.0, 8.5, 12.0],
+  swim: [4.5, 5.8, 7.0, 9.8, 10.0],
+  elliptical: [4.0, 5.0, 6.0, 7.5, 9.0],
+  jump_rope: [8.3, 8.8, 10.0, 11.8, 12.3],
+  mixed: [3.0, 4.5, 6.5, 8.5, 10.0],
+};
+
+// Zone assumed for cardio without one, and the zone of the recoveries between intervals
+export const DEFAULT_CARDIO_ZONE = 2;
+export const INTERVAL_RECOVERY_ZONE = 1;
+
+// Weight used when the profile has none
+export const DEFAULT_BODY_WEIGHT_KG = 70;
+
+// Share of a training day's workout calories added to its nutrition target; the activity
+// multiplier of the base calories already covers part of the training
+export const TRAINING_DAY_CALORIE_SHARE = 0.5;
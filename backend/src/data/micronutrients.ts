@@ -0,0 +1,76 @@
+import { NutrientDefinition, TrackedNutrient } from '../types';
+
+/**
+ * Nutrients with a daily target, in display order. Targets are the Dietary Reference Intakes
+ * (RDA, or adequate intake where there is none) for ages 14 and over; sodium is the chronic
+ * disease risk reduction intake and sugar the WHO limit of 10% of a 2000 kcal diet.
+ */
+export const TRACKED_NUTRIENTS: { [key in TrackedNutrient]: NutrientDefinition } = {
+  fiber: {
+    label: 'Fiber', unit: 'g', usdaNutrientId: 1079, kind: 'minimum',
+    targets: { male: [[14, 38], [51, 30]], female: [[14, 26], [19, 25], [51, 21]] },
+  },
+  sugar: {
+    label: 'Sugar', unit: 'g', usdaNutrientId: 2000, kind: 'limit',
+    targets: { male: [[14, 50]], female: [[14, 50]] },
+  },
+  sodium: {
+    label: 'Sodium', unit: 'mg', usdaNutrientId: 1093, kind: 'limit',
+    targets: { male: [[14, 2300]], female: [[14, 2300]] },
+  },
+  potassium: {
+    label: 'Potassium', unit: 'mg', usdaNutrientId: 1092, kind: 'minimum',
+    targets: { male: [[14, 3000], [19, 3400]], female: [[14, 2300], [19, 2600]] },
+  },
+  calcium: {
+    label: 'Calcium', unit: 'mg', usdaNutrientId: 1087, kind: 'minimum',
+    targets: { male: [[14, 1300], [19, 1000], [71, 1200]], female: [[14, 1300], [19, 1000], [51, 1200]] },
+  },
+  iron: {
+    label: 'Iron', unit: 'mg', usdaNutrientId: 1089, kind: 'minimum',
+    targets: { male: [[14, 11], [19, 8]], female: [[14, 15], [19, 18], [51, 8]] },
+  },
+  magnesium: {
+    label: 'Magnesium', unit: 'mg', usdaNutrientId: 1090, kind: 'minimum',
+    targets: { male: [[14, 410], [19, 400], [31, 420]], female: [[14, 360], [19, 310], [31, 320]] },
+  },
+  zinc: {
+    label: 'Zinc', unit: 'mg', usdaNutrientId: 1095, kind: 'minimum',
+    targets: { male: [[14, 11]], female: [[14, 9], [19, 8]] },
+  },
+  vitaminA: {
+    label: 'Vitamin A', unit: 'µg', usdaNutrientId: 1106, kind: 'minimum',
+    targets: { male: [[14, 900]], female: [[14, 700]] },
+  },
+  vitaminC: {
+    label: 'Vitamin C', unit: 'mg', usdaNutrientId: 1162, kind: 'minimum',
+    targets: { male: [[14, 75], [19, 90]], female: [[14, 65], [19, 75]] },
+  },
+  vitaminD: {
+    label: 'Vitamin D', unit: 'µg', usdaNutrientId: 1114, kind: 'minimum',
+    targets: { male: [[14, 15], [71, 20]], female: [[14, 15], [71, 20]] },
+  },
+  vitaminE: {
+    label: 'Vitamin E', unit: 'mg', usdaNutrientId: 1109, kind: 'minimum',
+    targets: { male: [[14, 15]], female: [[14, 15]] },
+  },
+  vitaminK: {
+    label: 'Vitamin K', unit: 'µg', usdaNutrientId: 1185, kind: 'minimum',
+    targets: { male: [[14, 75], [19, 120]], female: [[14, 75], [19, 90]] },
+  },
+  vitaminB6: {
+    label: 'Vitamin B6', unit: 'mg', usdaNutrientId: 1175, kind: 'minimum',
+    targets: { male: [[14, 1.3], [51, 1.7]], female: [[14, 1.2], [19, 1.3], [51, 1.5]] },
+  },
+  vitaminB12: {
+    label: 'Vitamin B12', unit: 'µg', usdaNutrientId: 1178, kind: 'minimum',
+    targets: { male: [[14, 2.4]], female: [[14, 2.4]] },
+  },
+  folate: {
+    label: 'Folate', unit: 'µg', usdaNutrientId: 1190, kind: 'minimum',
+    targets: { male: [[14, 400]], female: [[14, 400]] },
+  },
+};
+
+// Age used for the targets when the profile has none
+export const DEFAULT_NUTRIENT_TARGET_AGE = 30;
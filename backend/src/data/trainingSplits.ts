@@ -0,0 +1,75 @@
+import { TrainingSplit } from '../types';
+
+export interface TrainingSession {
+  name: string;
+  muscles: string[]; // Trained in this order
+}
+
+export interface TrainingSplitDefinition {
+  minDays: number; // Fewer days would leave muscle groups untrained every week
+  sessions: TrainingSession[]; // Rotated through the training days of a week
+}
+
+/**
+ * Sessions of each split. Training days cycle through them in order.
+ */
+export const TRAINING_SPLITS: { [split in Exclude<TrainingSplit, 'auto'>]: TrainingSplitDefinition } = {
+  full_body: {
+    minDays: 2,
+    sessions: [
+      { name: 'Full Body A', muscles: ['legs', 'chest', 'back', 'shoulders', 'core'] },
+      { name: 'Full Body B', muscles: ['legs', 'back', 'chest', 'arms', 'core'] },
+    ],
+  },
+  upper_lower: {
+    minDays: 2,
+    sessions: [
+      { name: 'Upper Body', muscles: ['chest', 'back', 'shoulders', 'arms'] },
+      { name: 'Lower Body', muscles: ['legs', 'core'] },
+    ],
+  },
+  push_pull_legs: {
+    minDays: 3,
+    sessions: [
+      { name: 'Push', muscles: ['chest', 'shoulders', 'arms'] },
+      { name: 'Pull', muscles: ['back', 'arms'] },
+      { name: 'Legs', muscles: ['legs', 'core'] },
+    ],
+  },
+  bro_split: {
+    minDays: 5,
+    sessions: [
+      { name: 'Chest', muscles: ['chest'] },
+      { name: 'Back', muscles: ['back'] },
+      { name: 'Legs', muscles: ['legs'] },
+      { name: 'Shoulders', muscles: ['shoulders', 'core'] },
+      { name: 'Arms', muscles: ['arms', 'core'] },
+    ],
+  },
+};
+
+/**
+ * Exercises per muscle group per week, spread over the sessions training that group
+ */
+export const WEEKLY_MUSCLE_VOLUME: { [muscle: string]: number } = {
+  chest: 4,
+  back: 4,
+  legs: 4,
+  shoulders: 3,
+  arms: 3,
+  core: 3,
+};
+
+// Extra block added to every session for goals that need it
+export const GOAL_SESSION_FINISHERS: { [goal: string]: string | undefined } = {
+  weight_loss: 'cardiovascular',
+  maintenance: 'flexibility',
+};
+
+export const DEFAULT_TRAINING_DAYS_PER_WEEK = 3;
+export const MIN_TRAINING_DAYS_PER_WEEK = 2;
+export const MAX_TRAINING_DAYS_PER_WEEK = 6;
+
+// Bounds of a per-day session time budget, in minutes
+export const MIN_SESSION_BUDGET_MINUTES = 10;
+export const MAX_SESSION_BUDGET_MINUTES = 240;
@@ -0,0 +1,58 @@
+/**
+ * USDA FoodData Central nutrients kept in the local food database: energy, macros, and the
+ * fiber and micronutrients with daily targets (data/micronutrients.ts). Amounts are per 100 g.
+ */
+export const USDA_NUTRIENTS: { [nutrientId: number]: { name: string; number: string; unitName: string } } = {
+  1008: { name: 'Energy', number: '208', unitName: 'KCAL' },
+  1003: { name: 'Protein', number: '203', unitName: 'G' },
+  1005: { name: 'Carbohydrate, by difference', number: '205', unitName: 'G' },
+  1004: { name: 'Total lipid (fat)', number: '204', unitName: 'G' },
+  1079: { name: 'Fiber, total dietary', number: '291', unitName: 'G' },
+  2000: { name: 'Sugars, total including NLEA', number: '269', unitName: 'G' },
+  1093: { name: 'Sodium, Na', number: '307', unitName: 'MG' },
+  1092: { name: 'Potassium, K', number: '306', unitName: 'MG' },
+  1087: { name: 'Calcium, Ca', number: '301', unitName: 'MG' },
+  1089: { name: 'Iron, Fe', number: '303', unitName: 'MG' },
+  1090: { name: 'Magnesium, Mg', number: '304', unitName: 'MG' },
+  1095: { name: 'Zinc, Zn', number: '309', unitName: 'MG' },
+  1106: { name: 'Vitamin A, RAE', number: '320', unitName: 'UG' },
+  1162: { name: 'Vitamin C, total ascorbic acid', number: '401', unitName: 'MG' },
+  1114: { name: 'Vitamin D (D2 + D3)', number: '328', unitName: 'UG' },
+  1109: { name: 'Vitamin E (alpha-tocopherol)', number: '323', unitName: 'MG' },
+  1185: { name: 'Vitamin K (phylloquinone)', number: '430', unitName: 'UG' },
+  1175: { name: 'Vitamin B-6', number: '415', unitName: 'MG' },
+  1178: { name: 'Vitamin B-12', number: '418', unitName: 'UG' },
+  1190: { name: 'Folate, DFE', number: '435', unitName: 'UG' },
+};
+
+// Nutrients some datasets report under another ID, used when the kept one is missing
+// (Foundation foods give Atwater energy and "Sugars, Total")
+export const USDA_NUTRIENT_ALIASES: { [nutrientId: number]: number[] } = {
+  1008: [2047, 2048],
+  2000: [1063],
+};
+
+// Root keys of the arrays of foods in the bulk JSON downloads, by data type
+export const USDA_JSON_ROOT_KEYS: { [rootKey: string]: string } = {
+  FoundationFoods: 'Foundation',
+  SRLegacyFoods: 'SR Legacy',
+  BrandedFoods: 'Branded',
+  SurveyFoods: 'Survey (FNDDS)',
+};
+
+// Data types of the bulk CSV downloads (food.csv data_type column); others are skipped
+export const USDA_CSV_DATA_TYPES: { [csvDataType: string]: string } = {
+  foundation_food: 'Foundation',
+  sr_legacy_food: 'SR Legacy',
+  branded_food: 'Branded',
+  survey_fndds_food: 'Survey (FNDDS)',
+};
+
+// Generic foods are listed before branded products with the same relevance
+export const USDA_DATA_TYPE_ORDER = ['Foundation', 'SR Legacy', 'Survey (FNDDS)', 'Branded'];
+
+// Foods written to the database per batch while importing
+export const FOOD_IMPORT_BATCH_SIZE = 500;
+
+// Rows of a CSV file not in fdc_id order sorted in memory at a time, before merging the sorted runs
+export const FOOD_IMPORT_SORT_RUN_SIZE: number = 200000;
@@ -0,0 +1,28 @@
+/**
+ * General warm-up opening every training day (skipped when the session already starts with a cardio block)
+ */
+export const GENERAL_WARM_UP_SLUG = 'dynamic-warm-up';
+
+// Lighter sets before the working sets of the first lifts of a day
+export const RAMP_UP_LIFTS = 2;
+export const RAMP_UP_STEPS: { percent: number; reps: number }[] = [
+  { percent: 50, reps: 8 },
+  { percent: 70, reps: 5 },
+];
+
+// Equipment that adds load; lifts using it ramp up by percentage of the working weight
+export const LOADED_EQUIPMENT = ['barbell', 'dumbbells', 'kettlebell', 'cable', 'machine', 'resistance_band'];
+
+// Muscle groups that are not lifts: no ramp-up sets, and stretched through the muscles they work
+export const NON_LIFT_MUSCLE_GROUPS = ['cardiovascular', 'flexibility'];
+
+/**
+ * Muscles stretched in the cool-down after training a group; groups not listed stretch themselves
+ */
+export const COOL_DOWN_TARGETS: { [muscleGroup: string]: string[] } = {
+  cardiovascular: ['legs'],
+  full_body: ['legs', 'back', 'chest'],
+  flexibility: [],
+};
+
+export const MAX_COOL_DOWN_STRETCHES = 4;
@@ -0,0 +1,40 @@
+import { Migration } from '../types';
+import { columnExists, indexExists } from './helpers';
+
+/**
+ * Password reset token columns used by UserModel.setResetToken
+ */
+const migration: Migration = {
+  version: 2,
+  name: 'user_reset_token',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'users', 'reset_token'))) {
+      await connection.execute(`ALTER TABLE users ADD COLUMN reset_token VARCHAR(255) NULL AFTER role`);
+    }
+
+    if (!(await columnExists(connection, 'users', 'reset_token_expires'))) {
+      await connection.execute(`ALTER TABLE users ADD COLUMN reset_token_expires TIMESTAMP NULL AFTER reset_token`);
+    }
+
+    if (!(await indexExists(connection, 'users', 'idx_reset_token'))) {
+      await connection.execute(`ALTER TABLE users ADD INDEX idx_reset_token (reset_token)`);
+    }
+  },
+
+  async down(connection) {
+    if (await indexExists(connection, 'users', 'idx_reset_token')) {
+      await connection.execute(`ALTER TABLE users DROP INDEX idx_reset_token`);
+    }
+
+    if (await columnExists(connection, 'users', 'reset_token_expires')) {
+      await connection.execute(`ALTER TABLE users DROP COLUMN reset_token_expires`);
+    }
+
+    if (await columnExists(connection, 'users', 'reset_token')) {
+      await connection.execute(`ALTER TABLE users DROP COLUMN reset_token`);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,80 @@
+import { Migration } from '../types';
+import { columnExists } from './helpers';
+import { DateUtils } from '../utils/date';
+
+/**
+ * Key workoutmealplans by calendar date and add the weekday templates new weeks are created from.
+ * Existing weekday rows become the current week and seed the templates.
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'dated_plan_history',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS workoutmealplan_templates (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        day ENUM('Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday') NOT NULL,
+        exercises JSON COMMENT 'List of exercises with details',
+        meals JSON COMMENT 'Meal plan with calories',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX idx_user_id (user_id),
+        UNIQUE KEY unique_user_day (user_id, day)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    if (await columnExists(connection, 'workoutmealplans', 'plan_date')) {
+      return;
+    }
+
+    const weekStart = DateUtils.getCurrentWeekStart();
+
+    await connection.execute(
+      `INSERT IGNORE INTO workoutmealplan_templates (user_id, day, exercises, meals)
+       SELECT user_id, day, exercises, meals FROM workoutmealplans`
+    );
+
+    await connection.execute(
+      `ALTER TABLE workoutmealplans
+       ADD COLUMN plan_date DATE NULL COMMENT 'Calendar date of this plan instance' AFTER day,
+       ADD COLUMN week_start DATE NULL COMMENT 'Monday of the week this plan belongs to' AFTER plan_date`
+    );
+    await connection.execute(
+      `UPDATE workoutmealplans SET week_start = ?, plan_date = DATE_ADD(?, INTERVAL (FIELD(day, 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday') - 1) DAY)`,
+      [weekStart, weekStart]
+    );
+    await connection.execute(
+      `ALTER TABLE workoutmealplans
+       MODIFY plan_date DATE NOT NULL COMMENT 'Calendar date of this plan instance',
+       MODIFY week_start DATE NOT NULL COMMENT 'Monday of the week this plan belongs to'`
+    );
+    await connection.execute(
+      `ALTER TABLE workoutmealplans
+       DROP INDEX unique_user_day,
+       ADD UNIQUE KEY unique_user_date (user_id, plan_date),
+       ADD INDEX idx_user_week (user_id, week_start)`
+    );
+  },
+
+  async down(connection) {
+    // Only the most recent plan of each weekday survives; older history is discarded
+    await connection.execute(
+      `DELETE older FROM workoutmealplans older
+       JOIN workoutmealplans newer
+         ON newer.user_id = older.user_id AND newer.day = older.day AND newer.plan_date > older.plan_date`
+    );
+    await connection.execute(
+      `ALTER TABLE workoutmealplans
+       DROP INDEX unique_user_date,
+       DROP INDEX idx_user_week,
+       ADD UNIQUE KEY unique_user_day (user_id, day)`
+    );
+    await connection.execute(`ALTER TABLE workoutmealplans DROP COLUMN week_start, DROP COLUMN plan_date`);
+    await connection.execute('DROP TABLE IF EXISTS workoutmealplan_templates');
+  },
+};
+
+export default migration;
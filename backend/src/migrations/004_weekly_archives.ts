@@ -0,0 +1,41 @@
+import { Migration } from '../types';
+
+/**
+ * Frozen snapshots of finished weeks
+ */
+const migration: Migration = {
+  version: 4,
+  name: 'weekly_archives',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS weekly_archives (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        iso_year SMALLINT NOT NULL,
+        week_number TINYINT NOT NULL COMMENT 'ISO-8601 week number',
+        week_start DATE NOT NULL,
+        week_end DATE NOT NULL,
+        total_exercises INT NOT NULL DEFAULT 0,
+        completed_exercises INT NOT NULL DEFAULT 0,
+        total_meals INT NOT NULL DEFAULT 0,
+        completed_meals INT NOT NULL DEFAULT 0,
+        completion_percentage TINYINT NOT NULL DEFAULT 0,
+        streak_days TINYINT NOT NULL DEFAULT 0,
+        achievements JSON COMMENT 'Achievements earned during the week',
+        daily_totals JSON COMMENT 'Per-day completion and calorie totals',
+        snapshot JSON COMMENT 'Full copy of the week plans (exercises, meals, completion)',
+        archived_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX idx_user_completion (user_id, completion_percentage),
+        UNIQUE KEY unique_user_week (user_id, week_start)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS weekly_archives');
+  },
+};
+
+export default migration;
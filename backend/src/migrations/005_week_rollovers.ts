@@ -0,0 +1,35 @@
+import { Migration } from '../types';
+
+/**
+ * Idempotency records of the weekly rollover job
+ */
+const migration: Migration = {
+  version: 5,
+  name: 'week_rollovers',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS week_rollovers (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        week_start DATE NOT NULL COMMENT 'Monday of the week that was rolled over',
+        status ENUM('pending', 'completed', 'failed') NOT NULL DEFAULT 'pending',
+        attempts INT NOT NULL DEFAULT 0,
+        archived_at TIMESTAMP NULL,
+        adjusted_at TIMESTAMP NULL,
+        last_error TEXT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX idx_status (status),
+        UNIQUE KEY unique_user_week (user_id, week_start)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS week_rollovers');
+  },
+};
+
+export default migration;
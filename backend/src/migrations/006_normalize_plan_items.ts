@@ -0,0 +1,269 @@
+import { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { Migration } from '../types';
+import { columnExists } from './helpers';
+
+const parseJson = (value: any, defaultValue: any): any => {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      return defaultValue;
+    }
+  }
+  return value ?? defaultValue;
+};
+
+const toNumberOrNull = (value: any): number | null => {
+  const parsed = Number(value);
+  return value === undefined || value === null || isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Copy one plan's JSON exercises, meals, foods and completion flags into the relational tables
+ */
+const copyPlanItems = async (connection: PoolConnection, row: RowDataPacket): Promise<void> => {
+  const exercises: any[] = parseJson(row.exercises, []) || [];
+  const meals: any[] = parseJson(row.meals, []) || [];
+  const status = parseJson(row.completed_status, {}) || {};
+  const completedExercises = status.exercises || {};
+  const consumedMeals = status.meals || {};
+  const seen = new Set<string>();
+
+  for (const [position, exercise] of exercises.entries()) {
+    const key = String(exercise.id ?? position);
+    if (seen.has(`exercise:${key}`)) continue;
+    seen.add(`exercise:${key}`);
+
+    const [result] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO plan_exercises (plan_id, exercise_key, position, name, sets, reps, weight, duration, instructions, muscle_group)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        row.id, key, position, exercise.name || 'Exercise',
+        toNumberOrNull(exercise.sets) ?? 1, toNumberOrNull(exercise.reps) ?? 1,
+        toNumberOrNull(exercise.weight), toNumberOrNull(exercise.duration),
+        exercise.instructions ?? null, exercise.muscle_group ?? null,
+      ]
+    );
+
+    if (completedExercises[key]) {
+      await connection.execute(
+        `INSERT INTO plan_exercise_completions (plan_exercise_id) VALUES (?)`,
+        [result.insertId]
+      );
+    }
+  }
+
+  for (const [position, meal] of meals.entries()) {
+    const key = String(meal.id ?? position);
+    if (seen.has(`meal:${key}`)) continue;
+    seen.add(`meal:${key}`);
+
+    const [result] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO plan_meals (plan_id, meal_key, position, name, type, calories, protein, carbs, fat)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        row.id, key, position, meal.name || 'Meal', meal.type || 'snack',
+        toNumberOrNull(meal.calories) ?? 0,
+        toNumberOrNull(meal.protein), toNumberOrNull(meal.carbs), toNumberOrNull(meal.fat),
+      ]
+    );
+
+    for (const [foodPosition, food] of (meal.foods || []).entries()) {
+      await connection.execute(
+        `INSERT INTO meal_foods (plan_meal_id, position, name, quantity, unit, calories) VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          result.insertId, foodPosition, food.name || 'Food',
+          toNumberOrNull(food.quantity) ?? 0, food.unit || '', toNumberOrNull(food.calories) ?? 0,
+        ]
+      );
+    }
+
+    if (consumedMeals[key]) {
+      await connection.execute(
+        `INSERT INTO plan_meal_completions (plan_meal_id) VALUES (?)`,
+        [result.insertId]
+      );
+    }
+  }
+
+  if (status.date_completed) {
+    const dateCompleted = new Date(status.date_completed);
+    if (!isNaN(dateCompleted.getTime())) {
+      await connection.execute(
+        `UPDATE workoutmealplans SET date_completed = ? WHERE id = ?`,
+        [dateCompleted, row.id]
+      );
+    }
+  }
+};
+
+/**
+ * Move the exercises, meals, foods and completion status of dated plans out of
+ * JSON columns into relational tables. Weekday templates stay JSON blueprints.
+ */
+const migration: Migration = {
+  version: 6,
+  name: 'normalize_plan_items',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS plan_exercises (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        plan_id INT NOT NULL,
+        exercise_key VARCHAR(100) NOT NULL COMMENT 'Client-facing exercise ID within the plan',
+        position SMALLINT NOT NULL DEFAULT 0,
+        name VARCHAR(255) NOT NULL,
+        sets SMALLINT NOT NULL DEFAULT 1,
+        reps SMALLINT NOT NULL DEFAULT 1,
+        weight DECIMAL(6,2) NULL,
+        duration INT NULL COMMENT 'Seconds',
+        instructions TEXT NULL,
+        muscle_group VARCHAR(50) NULL,
+        FOREIGN KEY (plan_id) REFERENCES workoutmealplans(id) ON DELETE CASCADE,
+        UNIQUE KEY unique_plan_exercise (plan_id, exercise_key),
+        INDEX idx_muscle_group (muscle_group)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS plan_exercise_completions (
+        plan_exercise_id INT PRIMARY KEY,
+        completed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (plan_exercise_id) REFERENCES plan_exercises(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS plan_meals (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        plan_id INT NOT NULL,
+        meal_key VARCHAR(100) NOT NULL COMMENT 'Client-facing meal ID within the plan',
+        position SMALLINT NOT NULL DEFAULT 0,
+        name VARCHAR(255) NOT NULL,
+        type ENUM('breakfast', 'lunch', 'dinner', 'snack') NOT NULL,
+        calories DECIMAL(8,2) NOT NULL DEFAULT 0,
+        protein DECIMAL(7,2) NULL,
+        carbs DECIMAL(7,2) NULL,
+        fat DECIMAL(7,2) NULL,
+        FOREIGN KEY (plan_id) REFERENCES workoutmealplans(id) ON DELETE CASCADE,
+        UNIQUE KEY unique_plan_meal (plan_id, meal_key),
+        INDEX idx_type (type)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS plan_meal_completions (
+        plan_meal_id INT PRIMARY KEY,
+        completed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (plan_meal_id) REFERENCES plan_meals(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS meal_foods (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        plan_meal_id INT NOT NULL,
+        position SMALLINT NOT NULL DEFAULT 0,
+        name VARCHAR(255) NOT NULL,
+        quantity DECIMAL(10,2) NOT NULL DEFAULT 0,
+        unit VARCHAR(50) NOT NULL DEFAULT '',
+        calories DECIMAL(8,2) NOT NULL DEFAULT 0,
+        FOREIGN KEY (plan_meal_id) REFERENCES plan_meals(id) ON DELETE CASCADE,
+        INDEX idx_plan_meal (plan_meal_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    if (!(await columnExists(connection, 'workoutmealplans', 'date_completed'))) {
+      await connection.execute(
+        `ALTER TABLE workoutmealplans ADD COLUMN date_completed TIMESTAMP NULL COMMENT 'Set when every exercise and meal is done' AFTER week_start`
+      );
+    }
+
+    if (!(await columnExists(connection, 'workoutmealplans', 'exercises'))) {
+      return;
+    }
+
+    const [plans] = await connection.execute<RowDataPacket[]>(
+      `SELECT id, exercises, meals, completed_status FROM workoutmealplans`
+    );
+
+    await connection.beginTransaction();
+    try {
+      for (const plan of plans) {
+        await copyPlanItems(connection, plan);
+      }
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    }
+
+    await connection.execute(
+      `ALTER TABLE workoutmealplans DROP COLUMN exercises, DROP COLUMN meals, DROP COLUMN completed_status`
+    );
+  },
+
+  async down(connection) {
+    await connection.execute(
+      `ALTER TABLE workoutmealplans
+       ADD COLUMN exercises JSON COMMENT 'List of exercises with details' AFTER week_start,
+       ADD COLUMN meals JSON COMMENT 'Meal plan with calories' AFTER exercises,
+       ADD COLUMN completed_status JSON COMMENT 'Tracks completed exercises/meals' AFTER meals`
+    );
+
+    const [plans] = await connection.execute<RowDataPacket[]>(`SELECT id, date_completed FROM workoutmealplans`);
+    const [exerciseRows] = await connection.execute<RowDataPacket[]>(
+      `SELECT pe.*, (pec.plan_exercise_id IS NOT NULL) AS completed FROM plan_exercises pe
+       LEFT JOIN plan_exercise_completions pec ON pec.plan_exercise_id = pe.id
+       ORDER BY pe.plan_id, pe.position`
+    );
+    const [mealRows] = await connection.execute<RowDataPacket[]>(
+      `SELECT pm.*, (pmc.plan_meal_id IS NOT NULL) AS completed FROM plan_meals pm
+       LEFT JOIN plan_meal_completions pmc ON pmc.plan_meal_id = pm.id
+       ORDER BY pm.plan_id, pm.position`
+    );
+    const [foodRows] = await connection.execute<RowDataPacket[]>(
+      `SELECT * FROM meal_foods ORDER BY plan_meal_id, position`
+    );
+
+    for (const plan of plans) {
+      const status = { exercises: {} as any, meals: {} as any, date_completed: plan.date_completed || null };
+
+      const exercises = exerciseRows.filter(row => row.plan_id === plan.id).map(row => {
+        if (row.completed) status.exercises[row.exercise_key] = true;
+        return {
+          id: row.exercise_key, name: row.name, sets: row.sets, reps: row.reps,
+          weight: toNumberOrNull(row.weight) ?? undefined, duration: row.duration ?? undefined,
+          instructions: row.instructions ?? undefined, muscle_group: row.muscle_group ?? undefined,
+        };
+      });
+
+      const meals = mealRows.filter(row => row.plan_id === plan.id).map(row => {
+        if (row.completed) status.meals[row.meal_key] = true;
+        return {
+          id: row.meal_key, name: row.name, type: row.type, calories: Number(row.calories),
+          protein: toNumberOrNull(row.protein) ?? undefined,
+          carbs: toNumberOrNull(row.carbs) ?? undefined,
+          fat: toNumberOrNull(row.fat) ?? undefined,
+          foods: foodRows.filter(food => food.plan_meal_id === row.id).map(food => ({
+            name: food.name, quantity: Number(food.quantity), unit: food.unit, calories: Number(food.calories),
+          })),
+        };
+      });
+
+      await connection.execute(
+        `UPDATE workoutmealplans SET exercises = ?, meals = ?, completed_status = ? WHERE id = ?`,
+        [JSON.stringify(exercises), JSON.stringify(meals), JSON.stringify(status), plan.id]
+      );
+    }
+
+    await connection.execute('DROP TABLE IF EXISTS meal_foods');
+    await connection.execute('DROP TABLE IF EXISTS plan_meal_completions');
+    await connection.execute('DROP TABLE IF EXISTS plan_meals');
+    await connection.execute('DROP TABLE IF EXISTS plan_exercise_completions');
+    await connection.execute('DROP TABLE IF EXISTS plan_exercises');
+    await connection.execute('ALTER TABLE workoutmealplans DROP COLUMN date_completed');
+  },
+};
+
+export default migration;
@@ -0,0 +1,39 @@
+import { Migration } from '../types';
+
+/**
+ * Performed sets (actual reps, load, effort, rest) logged against plan exercises
+ */
+const migration: Migration = {
+  version: 7,
+  name: 'exercise_set_logs',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS exercise_set_logs (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        plan_id INT NOT NULL,
+        exercise_key VARCHAR(100) NOT NULL COMMENT 'Client-facing exercise ID within the plan',
+        exercise_name VARCHAR(255) NOT NULL COMMENT 'Copied so history survives plan edits',
+        set_number SMALLINT NOT NULL,
+        reps SMALLINT NOT NULL,
+        weight DECIMAL(6,2) NULL COMMENT 'Load in kg',
+        rpe DECIMAL(3,1) NULL COMMENT 'Rate of perceived exertion (1-10)',
+        rir TINYINT NULL COMMENT 'Reps in reserve',
+        rest_seconds INT NULL COMMENT 'Rest taken before this set',
+        notes VARCHAR(500) NULL,
+        logged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (plan_id) REFERENCES workoutmealplans(id) ON DELETE CASCADE,
+        INDEX idx_plan_exercise (plan_id, exercise_key, set_number),
+        INDEX idx_user_exercise_name (user_id, exercise_name, logged_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS exercise_set_logs');
+  },
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+import { Migration } from '../types';
+import { columnExists } from './helpers';
+
+/**
+ * Per-user choice of load progression scheme used by the progression engine
+ */
+const migration: Migration = {
+  version: 8,
+  name: 'user_progression_scheme',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'users', 'progression_scheme'))) {
+      await connection.execute(
+        `ALTER TABLE users ADD COLUMN progression_scheme ENUM('linear', 'double_progression', 'percentage')
+         NOT NULL DEFAULT 'double_progression' AFTER goal`
+      );
+    }
+  },
+
+  async down(connection) {
+    if (await columnExists(connection, 'users', 'progression_scheme')) {
+      await connection.execute(`ALTER TABLE users DROP COLUMN progression_scheme`);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,218 @@
+import { Migration } from '../types';
+import { CatalogSeedExercise, columnExists, indexExists, insertCatalogExercises } from './helpers';
+
+// Catalog the exercise generators used to hard-code
+const SEED_EXERCISES: CatalogSeedExercise[] = [
+  {
+    slug: 'jumping-jacks', name: 'Jumping Jacks', primary_muscle: 'cardiovascular', secondary_muscles: ['full_body', 'legs'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 20,
+    instructions: 'Full body cardio exercise',
+  },
+  {
+    slug: 'high-knees', name: 'High Knees', primary_muscle: 'cardiovascular', secondary_muscles: ['legs', 'core'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Cardio exercise for legs',
+  },
+  {
+    slug: 'burpees', name: 'Burpees', primary_muscle: 'full_body', secondary_muscles: ['cardiovascular', 'chest', 'legs'],
+    equipment: [], difficulty: 'intermediate', default_sets: 3, default_reps: 8,
+    instructions: 'High intensity full body exercise',
+  },
+  {
+    slug: 'cardio-warm-up', name: 'Cardio Warm-up', primary_muscle: 'cardiovascular', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 600,
+    instructions: '10 minutes of light cardio',
+  },
+  {
+    slug: 'light-cardio', name: 'Light Cardio', primary_muscle: 'cardiovascular', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 900,
+    instructions: '15 minutes of moderate cardio',
+  },
+  {
+    slug: 'push-ups', name: 'Push-ups', primary_muscle: 'chest', secondary_muscles: ['arms', 'shoulders', 'core'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Standard push-ups for chest',
+  },
+  {
+    slug: 'incline-push-ups', name: 'Incline Push-ups', primary_muscle: 'chest', secondary_muscles: ['arms'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Easier variation of push-ups',
+  },
+  {
+    slug: 'chest-dips', name: 'Chest Dips', primary_muscle: 'chest', secondary_muscles: ['arms', 'shoulders'],
+    equipment: ['parallel_bars'], difficulty: 'advanced', default_sets: 3, default_reps: 8,
+    instructions: 'Advanced chest exercise',
+  },
+  {
+    slug: 'squats', name: 'Squats', primary_muscle: 'legs', secondary_muscles: ['core'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Basic squat exercise',
+  },
+  {
+    slug: 'lunges', name: 'Lunges', primary_muscle: 'legs', secondary_muscles: ['core'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Alternating leg lunges',
+  },
+  {
+    slug: 'calf-raises', name: 'Calf Raises', primary_muscle: 'legs', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 20,
+    instructions: 'Calf strengthening exercise',
+  },
+  {
+    slug: 'planks', name: 'Planks', primary_muscle: 'core', secondary_muscles: ['shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 1, default_duration: 60,
+    instructions: 'Hold plank position',
+  },
+  {
+    slug: 'crunches', name: 'Crunches', primary_muscle: 'core', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Basic abdominal crunches',
+  },
+  {
+    slug: 'mountain-climbers', name: 'Mountain Climbers', primary_muscle: 'core', secondary_muscles: ['cardiovascular', 'shoulders'],
+    equipment: [], difficulty: 'intermediate', default_sets: 3, default_reps: 20,
+    instructions: 'Dynamic core exercise',
+  },
+  {
+    slug: 'tricep-dips', name: 'Tricep Dips', primary_muscle: 'arms', secondary_muscles: ['chest', 'shoulders'],
+    equipment: ['bench'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Tricep strengthening exercise (a sturdy chair works too)',
+  },
+  {
+    slug: 'arm-circles', name: 'Arm Circles', primary_muscle: 'arms', secondary_muscles: ['shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Shoulder and arm exercise',
+  },
+  {
+    slug: 'wall-push-ups', name: 'Wall Push-ups', primary_muscle: 'arms', secondary_muscles: ['chest'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Easier arm exercise',
+  },
+  {
+    slug: 'superman', name: 'Superman', primary_muscle: 'back', secondary_muscles: ['core'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Lower back strengthening',
+  },
+  {
+    slug: 'reverse-fly', name: 'Reverse Fly', primary_muscle: 'back', secondary_muscles: ['shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Upper back exercise',
+  },
+  {
+    slug: 'cat-cow-stretch', name: 'Cat-Cow Stretch', primary_muscle: 'back', secondary_muscles: ['flexibility'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 10,
+    instructions: 'Back mobility exercise',
+  },
+  {
+    slug: 'pull-ups', name: 'Pull-ups', primary_muscle: 'back', secondary_muscles: ['arms'],
+    equipment: ['pull_up_bar'], difficulty: 'intermediate', default_sets: 3, default_reps: 8,
+    instructions: 'Upper body pulling exercise',
+  },
+  {
+    slug: 'shoulder-rolls', name: 'Shoulder Rolls', primary_muscle: 'shoulders', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Shoulder mobility exercise',
+  },
+  {
+    slug: 'pike-push-ups', name: 'Pike Push-ups', primary_muscle: 'shoulders', secondary_muscles: ['arms', 'chest'],
+    equipment: [], difficulty: 'intermediate', default_sets: 3, default_reps: 8,
+    instructions: 'Shoulder strengthening exercise',
+  },
+  {
+    slug: 'arm-raises', name: 'Arm Raises', primary_muscle: 'shoulders', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Lateral shoulder exercise',
+  },
+  {
+    slug: 'bear-crawl', name: 'Bear Crawl', primary_muscle: 'full_body', secondary_muscles: ['core', 'shoulders'],
+    equipment: [], difficulty: 'intermediate', default_sets: 3, default_reps: 10,
+    instructions: 'Full body strength exercise',
+  },
+  {
+    slug: 'forward-fold', name: 'Forward Fold', primary_muscle: 'flexibility', secondary_muscles: ['legs', 'back'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Hamstring and back stretch',
+  },
+  {
+    slug: 'hip-circles', name: 'Hip Circles', primary_muscle: 'flexibility', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 10,
+    instructions: 'Hip mobility exercise',
+  },
+  {
+    slug: 'shoulder-stretch', name: 'Shoulder Stretch', primary_muscle: 'flexibility', secondary_muscles: ['shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 20,
+    instructions: 'Shoulder flexibility exercise',
+  },
+  {
+    slug: 'stretching', name: 'Stretching', primary_muscle: 'flexibility', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 600,
+    instructions: '10 minutes of full body stretching',
+  },
+];
+
+/**
+ * Managed exercise catalog (replacing the hard-coded generator lists), admin role
+ * for maintaining it, and a link from plan exercises to their catalog entry
+ */
+const migration: Migration = {
+  version: 9,
+  name: 'exercise_catalog',
+
+  async up(connection) {
+    await connection.execute(`ALTER TABLE users MODIFY role ENUM('user', 'admin') DEFAULT 'user'`);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS exercises (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        slug VARCHAR(100) NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        primary_muscle VARCHAR(50) NOT NULL,
+        secondary_muscles JSON NOT NULL,
+        equipment JSON NOT NULL COMMENT 'Required equipment tags, empty for bodyweight',
+        difficulty ENUM('beginner', 'intermediate', 'advanced') NOT NULL DEFAULT 'beginner',
+        default_sets SMALLINT NOT NULL DEFAULT 3,
+        default_reps SMALLINT NOT NULL DEFAULT 10,
+        default_duration INT NULL COMMENT 'Seconds',
+        instructions TEXT NULL,
+        media_url VARCHAR(500) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY unique_slug (slug),
+        INDEX idx_primary_muscle (primary_muscle),
+        INDEX idx_difficulty (difficulty)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await insertCatalogExercises(connection, SEED_EXERCISES);
+
+    if (!(await columnExists(connection, 'plan_exercises', 'catalog_id'))) {
+      await connection.execute(
+        `ALTER TABLE plan_exercises ADD COLUMN catalog_id INT NULL AFTER muscle_group,
+         ADD CONSTRAINT fk_plan_exercises_catalog FOREIGN KEY (catalog_id) REFERENCES exercises(id) ON DELETE SET NULL`
+      );
+    }
+
+    // Link existing plan exercises to the catalog by name
+    await connection.execute(
+      `UPDATE plan_exercises pe JOIN exercises e ON e.name = pe.name
+       SET pe.catalog_id = e.id WHERE pe.catalog_id IS NULL`
+    );
+  },
+
+  async down(connection) {
+    if (await columnExists(connection, 'plan_exercises', 'catalog_id')) {
+      await connection.execute(`ALTER TABLE plan_exercises DROP FOREIGN KEY fk_plan_exercises_catalog`);
+      if (await indexExists(connection, 'plan_exercises', 'fk_plan_exercises_catalog')) {
+        await connection.execute(`ALTER TABLE plan_exercises DROP INDEX fk_plan_exercises_catalog`);
+      }
+      await connection.execute(`ALTER TABLE plan_exercises DROP COLUMN catalog_id`);
+    }
+
+    await connection.execute('DROP TABLE IF EXISTS exercises');
+
+    await connection.execute(`UPDATE users SET role = 'user' WHERE role = 'admin'`);
+    await connection.execute(`ALTER TABLE users MODIFY role ENUM('user') DEFAULT 'user'`);
+  },
+};
+
+export default migration;
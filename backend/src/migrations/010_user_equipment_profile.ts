@@ -0,0 +1,174 @@
+import { Migration } from '../types';
+import { CatalogSeedExercise, columnExists, insertCatalogExercises } from './helpers';
+
+// Exercises needing equipment, unlocked by the dumbbell, gym and travel profiles
+const SEED_EXERCISES: CatalogSeedExercise[] = [
+  {
+    slug: 'chest-dips', name: 'Chest Dips', primary_muscle: 'chest', secondary_muscles: ['arms', 'shoulders'],
+    equipment: ['parallel_bars'], difficulty: 'advanced', default_sets: 3, default_reps: 8,
+    instructions: 'Advanced chest exercise',
+  },
+  {
+    slug: 'tricep-dips', name: 'Tricep Dips', primary_muscle: 'arms', secondary_muscles: ['chest', 'shoulders'],
+    equipment: ['bench'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Tricep strengthening exercise (a sturdy chair works too)',
+  },
+  {
+    slug: 'pull-ups', name: 'Pull-ups', primary_muscle: 'back', secondary_muscles: ['arms'],
+    equipment: ['pull_up_bar'], difficulty: 'intermediate', default_sets: 3, default_reps: 8,
+    instructions: 'Upper body pulling exercise',
+  },
+  {
+    slug: 'dumbbell-bench-press', name: 'Dumbbell Bench Press', primary_muscle: 'chest', secondary_muscles: ['arms', 'shoulders'],
+    equipment: ['dumbbells', 'bench'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Press the dumbbells up from chest level while lying on a flat bench',
+  },
+  {
+    slug: 'dumbbell-row', name: 'Dumbbell Row', primary_muscle: 'back', secondary_muscles: ['arms'],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'One-arm row with a flat back, pulling the dumbbell to the hip',
+  },
+  {
+    slug: 'goblet-squat', name: 'Goblet Squat', primary_muscle: 'legs', secondary_muscles: ['core'],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Squat holding one dumbbell at the chest',
+  },
+  {
+    slug: 'dumbbell-romanian-deadlift', name: 'Dumbbell Romanian Deadlift', primary_muscle: 'legs', secondary_muscles: ['back'],
+    equipment: ['dumbbells'], difficulty: 'intermediate', default_sets: 3, default_reps: 10,
+    instructions: 'Hinge at the hips with soft knees, lowering the dumbbells along the legs',
+  },
+  {
+    slug: 'dumbbell-shoulder-press', name: 'Dumbbell Shoulder Press', primary_muscle: 'shoulders', secondary_muscles: ['arms'],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Press the dumbbells overhead from shoulder height',
+  },
+  {
+    slug: 'dumbbell-lateral-raise', name: 'Dumbbell Lateral Raise', primary_muscle: 'shoulders', secondary_muscles: [],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Raise the dumbbells out to the side up to shoulder height',
+  },
+  {
+    slug: 'dumbbell-curl', name: 'Dumbbell Curl', primary_muscle: 'arms', secondary_muscles: [],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Biceps curl keeping the elbows at your sides',
+  },
+  {
+    slug: 'overhead-tricep-extension', name: 'Overhead Tricep Extension', primary_muscle: 'arms', secondary_muscles: ['shoulders'],
+    equipment: ['dumbbells'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Lower one dumbbell behind the head and extend the elbows',
+  },
+  {
+    slug: 'dumbbell-thrusters', name: 'Dumbbell Thrusters', primary_muscle: 'full_body', secondary_muscles: ['legs', 'shoulders', 'cardiovascular'],
+    equipment: ['dumbbells'], difficulty: 'intermediate', default_sets: 3, default_reps: 10,
+    instructions: 'Front squat straight into an overhead press',
+  },
+  {
+    slug: 'barbell-bench-press', name: 'Barbell Bench Press', primary_muscle: 'chest', secondary_muscles: ['arms', 'shoulders'],
+    equipment: ['barbell', 'bench'], difficulty: 'intermediate', default_sets: 4, default_reps: 8,
+    instructions: 'Lower the bar to mid-chest and press back up',
+  },
+  {
+    slug: 'cable-fly', name: 'Cable Fly', primary_muscle: 'chest', secondary_muscles: ['shoulders'],
+    equipment: ['cable'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Bring the handles together in front of the chest with slightly bent arms',
+  },
+  {
+    slug: 'barbell-back-squat', name: 'Barbell Back Squat', primary_muscle: 'legs', secondary_muscles: ['core', 'back'],
+    equipment: ['barbell'], difficulty: 'intermediate', default_sets: 4, default_reps: 8,
+    instructions: 'Squat to at least parallel with the bar on the upper back',
+  },
+  {
+    slug: 'leg-press', name: 'Leg Press', primary_muscle: 'legs', secondary_muscles: [],
+    equipment: ['machine'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Press the platform away without locking the knees',
+  },
+  {
+    slug: 'deadlift', name: 'Deadlift', primary_muscle: 'back', secondary_muscles: ['legs', 'core'],
+    equipment: ['barbell'], difficulty: 'advanced', default_sets: 3, default_reps: 5,
+    instructions: 'Lift the bar from the floor with a neutral spine, driving through the legs',
+  },
+  {
+    slug: 'lat-pulldown', name: 'Lat Pulldown', primary_muscle: 'back', secondary_muscles: ['arms'],
+    equipment: ['cable'], difficulty: 'beginner', default_sets: 3, default_reps: 10,
+    instructions: 'Pull the bar to the upper chest, squeezing the shoulder blades',
+  },
+  {
+    slug: 'barbell-overhead-press', name: 'Barbell Overhead Press', primary_muscle: 'shoulders', secondary_muscles: ['arms', 'core'],
+    equipment: ['barbell'], difficulty: 'intermediate', default_sets: 4, default_reps: 6,
+    instructions: 'Press the bar from the front rack to overhead',
+  },
+  {
+    slug: 'cable-tricep-pushdown', name: 'Cable Tricep Pushdown', primary_muscle: 'arms', secondary_muscles: [],
+    equipment: ['cable'], difficulty: 'beginner', default_sets: 3, default_reps: 12,
+    instructions: 'Push the handle down until the elbows are straight',
+  },
+  {
+    slug: 'hanging-leg-raise', name: 'Hanging Leg Raise', primary_muscle: 'core', secondary_muscles: [],
+    equipment: ['pull_up_bar'], difficulty: 'intermediate', default_sets: 3, default_reps: 10,
+    instructions: 'Raise the legs while hanging from a bar without swinging',
+  },
+  {
+    slug: 'kettlebell-swing', name: 'Kettlebell Swing', primary_muscle: 'full_body', secondary_muscles: ['legs', 'back', 'cardiovascular'],
+    equipment: ['kettlebell'], difficulty: 'intermediate', default_sets: 3, default_reps: 15,
+    instructions: 'Hinge and snap the hips to swing the kettlebell to chest height',
+  },
+  {
+    slug: 'rowing-machine-intervals', name: 'Rowing Machine Intervals', primary_muscle: 'cardiovascular', secondary_muscles: ['back', 'legs'],
+    equipment: ['machine'], difficulty: 'beginner', default_sets: 4, default_reps: 1, default_duration: 60,
+    instructions: 'Row hard for one minute per interval',
+  },
+  {
+    slug: 'band-chest-press', name: 'Band Chest Press', primary_muscle: 'chest', secondary_muscles: ['arms'],
+    equipment: ['resistance_band'], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Press forward with the band anchored behind you',
+  },
+  {
+    slug: 'band-row', name: 'Band Row', primary_muscle: 'back', secondary_muscles: ['arms'],
+    equipment: ['resistance_band'], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Row the band to the ribs with the band anchored in front',
+  },
+  {
+    slug: 'band-pull-apart', name: 'Band Pull-apart', primary_muscle: 'shoulders', secondary_muscles: ['back'],
+    equipment: ['resistance_band'], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Pull the band apart at chest height with straight arms',
+  },
+  {
+    slug: 'band-bicep-curl', name: 'Band Bicep Curl', primary_muscle: 'arms', secondary_muscles: [],
+    equipment: ['resistance_band'], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Curl with the band under both feet',
+  },
+  {
+    slug: 'banded-squat', name: 'Banded Squat', primary_muscle: 'legs', secondary_muscles: ['core'],
+    equipment: ['resistance_band'], difficulty: 'beginner', default_sets: 3, default_reps: 15,
+    instructions: 'Squat with the band under the feet and over the shoulders',
+  },
+];
+
+/**
+ * Per-user equipment profile used to pick feasible exercises, and the
+ * dumbbell, gym and resistance band exercises those profiles unlock
+ */
+const migration: Migration = {
+  version: 10,
+  name: 'user_equipment_profile',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'users', 'equipment_profile'))) {
+      await connection.execute(
+        `ALTER TABLE users ADD COLUMN equipment_profile ENUM('home', 'dumbbells', 'full_gym', 'travel')
+         NOT NULL DEFAULT 'home' AFTER progression_scheme`
+      );
+    }
+
+    await insertCatalogExercises(connection, SEED_EXERCISES);
+  },
+
+  async down(connection) {
+    if (await columnExists(connection, 'users', 'equipment_profile')) {
+      await connection.execute(`ALTER TABLE users DROP COLUMN equipment_profile`);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,39 @@
+import { Migration } from '../types';
+import { columnExists } from './helpers';
+
+/**
+ * Per-user training frequency, preferred split and rest days used to lay out the week
+ */
+const migration: Migration = {
+  version: 11,
+  name: 'user_training_preferences',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'users', 'training_days_per_week'))) {
+      await connection.execute(
+        `ALTER TABLE users ADD COLUMN training_days_per_week TINYINT UNSIGNED NOT NULL DEFAULT 3 AFTER equipment_profile`
+      );
+    }
+
+    if (!(await columnExists(connection, 'users', 'training_split'))) {
+      await connection.execute(
+        `ALTER TABLE users ADD COLUMN training_split ENUM('auto', 'full_body', 'upper_lower', 'push_pull_legs', 'bro_split')
+         NOT NULL DEFAULT 'auto' AFTER training_days_per_week`
+      );
+    }
+
+    if (!(await columnExists(connection, 'users', 'rest_days'))) {
+      await connection.execute(`ALTER TABLE users ADD COLUMN rest_days JSON NULL AFTER training_split`);
+    }
+  },
+
+  async down(connection) {
+    for (const column of ['rest_days', 'training_split', 'training_days_per_week']) {
+      if (await columnExists(connection, 'users', column)) {
+        await connection.execute(`ALTER TABLE users DROP COLUMN ${column}`);
+      }
+    }
+  },
+};
+
+export default migration;
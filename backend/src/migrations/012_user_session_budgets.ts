@@ -0,0 +1,24 @@
+import { Migration } from '../types';
+import { columnExists } from './helpers';
+
+/**
+ * Per-weekday session time budgets (minutes) that generated workouts are fitted into
+ */
+const migration: Migration = {
+  version: 12,
+  name: 'user_session_budgets',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'users', 'session_budgets'))) {
+      await connection.execute(`ALTER TABLE users ADD COLUMN session_budgets JSON NULL AFTER rest_days`);
+    }
+  },
+
+  async down(connection) {
+    if (await columnExists(connection, 'users', 'session_budgets')) {
+      await connection.execute(`ALTER TABLE users DROP COLUMN session_budgets`);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,89 @@
+import { Migration } from '../types';
+import { CatalogSeedExercise, columnExists, insertCatalogExercises } from './helpers';
+
+// General warm-up and the stretches cool-downs are built from
+const SEED_EXERCISES: CatalogSeedExercise[] = [
+  {
+    slug: 'forward-fold', name: 'Forward Fold', primary_muscle: 'flexibility', secondary_muscles: ['legs', 'back'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Hamstring and back stretch',
+  },
+  {
+    slug: 'hip-circles', name: 'Hip Circles', primary_muscle: 'flexibility', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 10,
+    instructions: 'Hip mobility exercise',
+  },
+  {
+    slug: 'shoulder-stretch', name: 'Shoulder Stretch', primary_muscle: 'flexibility', secondary_muscles: ['shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 20,
+    instructions: 'Shoulder flexibility exercise',
+  },
+  {
+    slug: 'stretching', name: 'Stretching', primary_muscle: 'flexibility', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 600,
+    instructions: '10 minutes of full body stretching',
+  },
+  {
+    slug: 'dynamic-warm-up', name: 'Dynamic Warm-up', primary_muscle: 'cardiovascular', secondary_muscles: ['full_body'],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 300,
+    instructions: '5 minutes of easy cardio, arm circles, leg swings and bodyweight squats',
+  },
+  {
+    slug: 'doorway-chest-stretch', name: 'Doorway Chest Stretch', primary_muscle: 'flexibility', secondary_muscles: ['chest', 'shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Forearms on the door frame, lean through until the chest opens up',
+  },
+  {
+    slug: 'childs-pose', name: "Child's Pose", primary_muscle: 'flexibility', secondary_muscles: ['back', 'shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Sit back on the heels and reach the arms forward along the floor',
+  },
+  {
+    slug: 'standing-quad-stretch', name: 'Standing Quad Stretch', primary_muscle: 'flexibility', secondary_muscles: ['legs'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Pull one heel to the glutes, knees together, then switch legs',
+  },
+  {
+    slug: 'overhead-triceps-stretch', name: 'Overhead Triceps Stretch', primary_muscle: 'flexibility', secondary_muscles: ['arms', 'shoulders'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 20,
+    instructions: 'Reach one hand down the upper back and press the elbow gently with the other hand',
+  },
+  {
+    slug: 'cobra-stretch', name: 'Cobra Stretch', primary_muscle: 'flexibility', secondary_muscles: ['core', 'back'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Lying face down, press the chest up with the hips on the floor',
+  },
+  {
+    slug: 'hip-flexor-stretch', name: 'Kneeling Hip Flexor Stretch', primary_muscle: 'flexibility', secondary_muscles: ['legs', 'core'],
+    equipment: [], difficulty: 'beginner', default_sets: 2, default_reps: 1, default_duration: 30,
+    instructions: 'Half-kneeling, tuck the pelvis and shift forward until the front of the hip stretches',
+  },
+];
+
+/**
+ * Warm-up and cool-down sections of a day's exercise list, and the
+ * general warm-up and stretches they are built from
+ */
+const migration: Migration = {
+  version: 13,
+  name: 'plan_exercise_sections',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'plan_exercises', 'section'))) {
+      await connection.execute(
+        `ALTER TABLE plan_exercises ADD COLUMN section ENUM('warmup', 'main', 'cooldown')
+         NOT NULL DEFAULT 'main' AFTER catalog_id`
+      );
+    }
+
+    await insertCatalogExercises(connection, SEED_EXERCISES);
+  },
+
+  async down(connection) {
+    if (await columnExists(connection, 'plan_exercises', 'section')) {
+      await connection.execute(`ALTER TABLE plan_exercises DROP COLUMN section`);
+    }
+  },
+};
+
+export default migration;
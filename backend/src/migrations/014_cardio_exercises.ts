@@ -0,0 +1,119 @@
+import { Migration } from '../types';
+import { CatalogSeedExercise, columnExists, insertCatalogExercises } from './helpers';
+
+const PLAN_CARDIO_COLUMNS: [string, string][] = [
+  ['exercise_type', `ENUM('strength', 'cardio') NOT NULL DEFAULT 'strength' AFTER section`],
+  ['cardio_modality', 'VARCHAR(20) NULL AFTER exercise_type'],
+  ['distance_km', 'DECIMAL(6,2) NULL AFTER cardio_modality'],
+  ['pace_seconds_per_km', 'SMALLINT UNSIGNED NULL AFTER distance_km'],
+  ['heart_rate_zone', 'TINYINT UNSIGNED NULL AFTER pace_seconds_per_km'],
+  ['interval_rest_seconds', 'SMALLINT UNSIGNED NULL AFTER heart_rate_zone'],
+];
+
+// Cardio sessions of the catalog, with their details
+const SEED_EXERCISES: CatalogSeedExercise[] = [
+  {
+    slug: 'cardio-warm-up', name: 'Cardio Warm-up', primary_muscle: 'cardiovascular', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 600,
+    cardio: { modality: 'mixed', heart_rate_zone: 1 },
+    instructions: '10 minutes of light cardio',
+  },
+  {
+    slug: 'light-cardio', name: 'Light Cardio', primary_muscle: 'cardiovascular', secondary_muscles: [],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 900,
+    cardio: { modality: 'mixed', heart_rate_zone: 2 },
+    instructions: '15 minutes of moderate cardio',
+  },
+  {
+    slug: 'rowing-machine-intervals', name: 'Rowing Machine Intervals', primary_muscle: 'cardiovascular', secondary_muscles: ['back', 'legs'],
+    equipment: ['machine'], difficulty: 'beginner', default_sets: 4, default_reps: 1, default_duration: 60,
+    cardio: { modality: 'row', heart_rate_zone: 4, intervals: { rounds: 4, work_seconds: 60, rest_seconds: 60 } },
+    instructions: 'Row hard for one minute per interval',
+  },
+  {
+    slug: 'dynamic-warm-up', name: 'Dynamic Warm-up', primary_muscle: 'cardiovascular', secondary_muscles: ['full_body'],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 300,
+    cardio: { modality: 'mixed', heart_rate_zone: 1 },
+    instructions: '5 minutes of easy cardio, arm circles, leg swings and bodyweight squats',
+  },
+  {
+    slug: 'brisk-walk', name: 'Brisk Walk', primary_muscle: 'cardiovascular', secondary_muscles: ['legs'],
+    equipment: [], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 1800,
+    cardio: { modality: 'walk', heart_rate_zone: 2, distance_km: 3, pace_seconds_per_km: 600 },
+    instructions: 'Walk briskly enough that talking takes some effort',
+  },
+  {
+    slug: 'easy-run', name: 'Easy Run', primary_muscle: 'cardiovascular', secondary_muscles: ['legs'],
+    equipment: [], difficulty: 'intermediate', default_sets: 1, default_reps: 1, default_duration: 1800,
+    cardio: { modality: 'run', heart_rate_zone: 2, pace_seconds_per_km: 390 },
+    instructions: 'Run at a conversational pace',
+  },
+  {
+    slug: 'sprint-intervals', name: 'Sprint Intervals', primary_muscle: 'cardiovascular', secondary_muscles: ['legs'],
+    equipment: [], difficulty: 'advanced', default_sets: 8, default_reps: 1, default_duration: 30,
+    cardio: { modality: 'run', heart_rate_zone: 5, intervals: { rounds: 8, work_seconds: 30, rest_seconds: 90 } },
+    instructions: 'Sprint all out, then walk or jog slowly until the next interval',
+  },
+  {
+    slug: 'stationary-bike', name: 'Stationary Bike', primary_muscle: 'cardiovascular', secondary_muscles: ['legs'],
+    equipment: ['machine'], difficulty: 'beginner', default_sets: 1, default_reps: 1, default_duration: 1800,
+    cardio: { modality: 'cycle', heart_rate_zone: 2 },
+    instructions: 'Ride at a steady cadence and moderate resistance',
+  },
+];
+
+/**
+ * Cardio details (modality, distance, pace, heart-rate zone, intervals) of catalog
+ * and plan exercises, and the cardio sessions of the catalog seed
+ */
+const migration: Migration = {
+  version: 14,
+  name: 'cardio_exercises',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'exercises', 'cardio'))) {
+      await connection.execute(`ALTER TABLE exercises ADD COLUMN cardio JSON NULL AFTER default_duration`);
+    }
+
+    for (const [column, definition] of PLAN_CARDIO_COLUMNS) {
+      if (!(await columnExists(connection, 'plan_exercises', column))) {
+        await connection.execute(`ALTER TABLE plan_exercises ADD COLUMN ${column} ${definition}`);
+      }
+    }
+
+    await insertCatalogExercises(connection, SEED_EXERCISES);
+    for (const exercise of SEED_EXERCISES) {
+      await connection.execute(
+        `UPDATE exercises SET cardio = ? WHERE slug = ? AND cardio IS NULL`,
+        [JSON.stringify(exercise.cardio), exercise.slug]
+      );
+    }
+
+    // Plan exercises copied from a cardio catalog entry take its details
+    await connection.execute(
+      `UPDATE plan_exercises pe
+       JOIN exercises e ON e.id = pe.catalog_id
+       SET pe.exercise_type = 'cardio',
+           pe.cardio_modality = JSON_UNQUOTE(JSON_EXTRACT(e.cardio, '$.modality')),
+           pe.distance_km = JSON_EXTRACT(e.cardio, '$.distance_km'),
+           pe.pace_seconds_per_km = JSON_EXTRACT(e.cardio, '$.pace_seconds_per_km'),
+           pe.heart_rate_zone = JSON_EXTRACT(e.cardio, '$.heart_rate_zone'),
+           pe.interval_rest_seconds = JSON_EXTRACT(e.cardio, '$.intervals.rest_seconds')
+       WHERE e.cardio IS NOT NULL AND pe.exercise_type = 'strength'`
+    );
+  },
+
+  async down(connection) {
+    for (const [column] of [...PLAN_CARDIO_COLUMNS].reverse()) {
+      if (await columnExists(connection, 'plan_exercises', column)) {
+        await connection.execute(`ALTER TABLE plan_exercises DROP COLUMN ${column}`);
+      }
+    }
+
+    if (await columnExists(connection, 'exercises', 'cardio')) {
+      await connection.execute(`ALTER TABLE exercises DROP COLUMN cardio`);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+import { Migration } from '../types';
+import { columnExists } from './helpers';
+
+/**
+ * MET values of catalog and plan exercises, used to estimate calories burned
+ */
+const migration: Migration = {
+  version: 15,
+  name: 'exercise_met',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'exercises', 'met'))) {
+      await connection.execute(`ALTER TABLE exercises ADD COLUMN met DECIMAL(4,1) NULL AFTER cardio`);
+    }
+
+    if (!(await columnExists(connection, 'plan_exercises', 'met'))) {
+      await connection.execute(`ALTER TABLE plan_exercises ADD COLUMN met DECIMAL(4,1) NULL AFTER interval_rest_seconds`);
+    }
+  },
+
+  async down(connection) {
+    if (await columnExists(connection, 'plan_exercises', 'met')) {
+      await connection.execute(`ALTER TABLE plan_exercises DROP COLUMN met`);
+    }
+
+    if (await columnExists(connection, 'exercises', 'met')) {
+      await connection.execute(`ALTER TABLE exercises DROP COLUMN met`);
+    }
+  },
+};
+
+export default migration;
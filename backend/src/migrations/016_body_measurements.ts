@@ -0,0 +1,46 @@
+import { Migration } from '../types';
+
+/**
+ * Time series of body weight, body fat and circumferences; the weight users already
+ * entered in their profile becomes their first entry
+ */
+const migration: Migration = {
+  version: 16,
+  name: 'body_measurements',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS body_measurements (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        measured_on DATE NOT NULL,
+        weight DECIMAL(5,2) NULL COMMENT 'kg',
+        body_fat_percentage DECIMAL(4,1) NULL,
+        neck_cm DECIMAL(5,1) NULL,
+        chest_cm DECIMAL(5,1) NULL,
+        waist_cm DECIMAL(5,1) NULL,
+        hips_cm DECIMAL(5,1) NULL,
+        arm_cm DECIMAL(5,1) NULL,
+        thigh_cm DECIMAL(5,1) NULL,
+        notes VARCHAR(500) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX idx_user_measured_on (user_id, measured_on)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      INSERT INTO body_measurements (user_id, measured_on, weight)
+      SELECT u.id, CURDATE(), u.weight
+      FROM users u
+      WHERE u.weight IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM body_measurements m WHERE m.user_id = u.id)
+    `);
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS body_measurements');
+  },
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import { Migration } from '../types';
+
+/**
+ * Goal targets: weight, body fat or estimated one-rep max to reach by a date
+ */
+const migration: Migration = {
+  version: 17,
+  name: 'goal_targets',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS goal_targets (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        metric ENUM('weight', 'body_fat_percentage', 'strength') NOT NULL,
+        exercise_name VARCHAR(255) NULL COMMENT 'Strength goals: exercise whose estimated 1RM is tracked',
+        start_value DECIMAL(6,2) NULL COMMENT 'Value when the goal was set',
+        target_value DECIMAL(6,2) NOT NULL,
+        start_date DATE NOT NULL,
+        target_date DATE NOT NULL,
+        status ENUM('active', 'achieved', 'cancelled') NOT NULL DEFAULT 'active',
+        achieved_on DATE NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX idx_user_status (user_id, status)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS goal_targets');
+  },
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import { Migration } from '../types';
+
+/**
+ * Calorie adjustments: the weekly recalibrated calorie target of a user and its reasoning
+ */
+const migration: Migration = {
+  version: 18,
+  name: 'calorie_adjustments',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS calorie_adjustments (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        week_start DATE NOT NULL COMMENT 'Monday the target applies from',
+        method ENUM('formula', 'adaptive') NOT NULL,
+        tdee INT NOT NULL COMMENT 'Estimated maintenance kcal per day',
+        calorie_target INT NOT NULL,
+        previous_target INT NULL,
+        average_intake INT NULL COMMENT 'Mean logged kcal per day over the window',
+        logged_days INT NOT NULL DEFAULT 0,
+        weekly_weight_change DECIMAL(5,2) NULL COMMENT 'Weight trend change in kg per week',
+        reason VARCHAR(500) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE KEY unique_user_week (user_id, week_start)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS calorie_adjustments');
+  },
+};
+
+export default migration;
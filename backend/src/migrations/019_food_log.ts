@@ -0,0 +1,52 @@
+import { Migration } from '../types';
+
+/**
+ * Food diary: what users actually ate per date and meal slot. Planned meals already
+ * marked as consumed become the first entries, so logged intake carries over.
+ */
+const migration: Migration = {
+  version: 19,
+  name: 'food_log',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS food_log_entries (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        user_id INT NOT NULL,
+        logged_on DATE NOT NULL,
+        meal_slot ENUM('breakfast', 'lunch', 'dinner', 'snack') NOT NULL,
+        source ENUM('usda', 'recipe', 'quick_add') NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        fdc_id INT NULL COMMENT 'USDA FoodData Central ID',
+        plan_meal_id VARCHAR(100) NULL COMMENT 'Meal key of the planned meal logged',
+        quantity DECIMAL(8,2) NOT NULL,
+        unit ENUM('g', 'serving') NOT NULL,
+        calories DECIMAL(8,2) NOT NULL,
+        protein DECIMAL(7,2) NOT NULL DEFAULT 0,
+        carbs DECIMAL(7,2) NOT NULL DEFAULT 0,
+        fat DECIMAL(7,2) NOT NULL DEFAULT 0,
+        fiber DECIMAL(7,2) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX idx_user_logged_on (user_id, logged_on)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      INSERT INTO food_log_entries
+        (user_id, logged_on, meal_slot, source, name, plan_meal_id, quantity, unit, calories, protein, carbs, fat)
+      SELECT p.user_id, p.plan_date, m.type, 'recipe', m.name, m.meal_key, 1, 'serving',
+             m.calories, COALESCE(m.protein, 0), COALESCE(m.carbs, 0), COALESCE(m.fat, 0)
+      FROM plan_meals m
+      JOIN plan_meal_completions c ON c.plan_meal_id = m.id
+      JOIN workoutmealplans p ON p.id = m.plan_id
+      WHERE NOT EXISTS (SELECT 1 FROM food_log_entries f WHERE f.user_id = p.user_id)
+    `);
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS food_log_entries');
+  },
+};
+
+export default migration;
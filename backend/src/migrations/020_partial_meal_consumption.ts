@@ -0,0 +1,40 @@
+import { Migration } from '../types';
+import { columnExists } from './helpers';
+
+/**
+ * Partial meal consumption: the share of a consumed meal that was eaten, and the quantity
+ * eaten of each food when a meal is checked off per food
+ */
+const migration: Migration = {
+  version: 20,
+  name: 'partial_meal_consumption',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'plan_meal_completions', 'portion'))) {
+      await connection.execute(
+        `ALTER TABLE plan_meal_completions
+         ADD COLUMN portion DECIMAL(5,3) NOT NULL DEFAULT 1 COMMENT 'Share of the meal eaten' AFTER plan_meal_id`
+      );
+    }
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS plan_meal_food_completions (
+        plan_meal_id INT NOT NULL,
+        food_position SMALLINT NOT NULL COMMENT 'Position of the food in the meal',
+        quantity DECIMAL(10,2) NOT NULL COMMENT 'Amount eaten, in the food unit',
+        PRIMARY KEY (plan_meal_id, food_position),
+        FOREIGN KEY (plan_meal_id) REFERENCES plan_meal_completions(plan_meal_id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS plan_meal_food_completions');
+
+    if (await columnExists(connection, 'plan_meal_completions', 'portion')) {
+      await connection.execute(`ALTER TABLE plan_meal_completions DROP COLUMN portion`);
+    }
+  },
+};
+
+export default migration;
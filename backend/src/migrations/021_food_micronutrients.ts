@@ -0,0 +1,51 @@
+import { Migration } from '../types';
+import { columnExists } from './helpers';
+
+// Nutrition columns added to the foods of plan meals, after calories
+const MEAL_FOOD_COLUMNS: [string, string][] = [
+  ['protein', 'DECIMAL(7,2) NULL'],
+  ['carbs', 'DECIMAL(7,2) NULL'],
+  ['fat', 'DECIMAL(7,2) NULL'],
+  ['fiber', 'DECIMAL(7,2) NULL'],
+  ['micronutrients', "JSON NULL COMMENT 'Micronutrients for the quantity, by nutrient'"],
+];
+
+/**
+ * Micronutrients: macros, fiber and micronutrients of the foods of plan meals, and the
+ * micronutrients of food diary entries
+ */
+const migration: Migration = {
+  version: 21,
+  name: 'food_micronutrients',
+
+  async up(connection) {
+    let previous = 'calories';
+    for (const [column, definition] of MEAL_FOOD_COLUMNS) {
+      if (!(await columnExists(connection, 'meal_foods', column))) {
+        await connection.execute(`ALTER TABLE meal_foods ADD COLUMN ${column} ${definition} AFTER ${previous}`);
+      }
+      previous = column;
+    }
+
+    if (!(await columnExists(connection, 'food_log_entries', 'micronutrients'))) {
+      await connection.execute(
+        `ALTER TABLE food_log_entries
+         ADD COLUMN micronutrients JSON NULL COMMENT 'Micronutrients for the quantity eaten, by nutrient' AFTER fiber`
+      );
+    }
+  },
+
+  async down(connection) {
+    if (await columnExists(connection, 'food_log_entries', 'micronutrients')) {
+      await connection.execute(`ALTER TABLE food_log_entries DROP COLUMN micronutrients`);
+    }
+
+    for (const [column] of [...MEAL_FOOD_COLUMNS].reverse()) {
+      if (await columnExists(connection, 'meal_foods', column)) {
+        await connection.execute(`ALTER TABLE meal_foods DROP COLUMN ${column}`);
+      }
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import { Migration } from '../types';
+
+/**
+ * Local food database: foods imported from the USDA FoodData Central downloads, searched
+ * with a full-text index instead of the remote API
+ */
+const migration: Migration = {
+  version: 22,
+  name: 'foods',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS foods (
+        fdc_id INT PRIMARY KEY COMMENT 'USDA FoodData Central ID',
+        description VARCHAR(512) NOT NULL,
+        data_type VARCHAR(50) NOT NULL COMMENT 'Foundation, SR Legacy, Branded...',
+        brand_owner VARCHAR(255) NULL,
+        brand_name VARCHAR(255) NULL,
+        ingredients TEXT NULL,
+        category VARCHAR(255) NULL,
+        serving_size DECIMAL(10,2) NULL,
+        serving_size_unit VARCHAR(20) NULL,
+        household_serving VARCHAR(255) NULL,
+        nutrients JSON NOT NULL COMMENT 'Amount per 100 g by USDA nutrient ID',
+        imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_data_type (data_type),
+        FULLTEXT INDEX ft_food_search (description, brand_owner, brand_name)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS foods');
+  },
+};
+
+export default migration;
@@ -0,0 +1,28 @@
+import { Migration } from '../types';
+
+/**
+ * USDA API response cache: food details and search results kept across restarts and
+ * shared by server instances, so repeated lookups stay under the USDA rate limits
+ */
+const migration: Migration = {
+  version: 23,
+  name: 'usda_cache',
+
+  async up(connection) {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS usda_cache (
+        cache_key VARCHAR(512) PRIMARY KEY COMMENT 'food:<fdcId> or search:<normalized query>|...',
+        payload JSON NOT NULL COMMENT 'USDA API response',
+        expires_at DATETIME NOT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_expires_at (expires_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  },
+
+  async down(connection) {
+    await connection.execute('DROP TABLE IF EXISTS usda_cache');
+  },
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+import { Migration } from '../types';
+import { columnExists } from './helpers';
+
+/**
+ * Earliest time a failed week rollover is retried, so failures back off instead of
+ * being retried on every scheduler run
+ */
+const migration: Migration = {
+  version: 24,
+  name: 'week_rollover_retries',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'week_rollovers', 'next_attempt_at'))) {
+      await connection.execute(`ALTER TABLE week_rollovers ADD COLUMN next_attempt_at DATETIME NULL AFTER attempts`);
+    }
+  },
+
+  async down(connection) {
+    if (await columnExists(connection, 'week_rollovers', 'next_attempt_at')) {
+      await connection.execute(`ALTER TABLE week_rollovers DROP COLUMN next_attempt_at`);
+    }
+  },
+};
+
+export default migration;
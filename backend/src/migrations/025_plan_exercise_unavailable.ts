@@ -0,0 +1,24 @@
+import { Migration } from '../types';
+import { columnExists } from './helpers';
+
+/**
+ * Flag plan exercises kept after an equipment change although nothing feasible replaces them
+ */
+const migration: Migration = {
+  version: 25,
+  name: 'plan_exercise_unavailable',
+
+  async up(connection) {
+    if (!(await columnExists(connection, 'plan_exercises', 'unavailable'))) {
+      await connection.execute(`ALTER TABLE plan_exercises ADD COLUMN unavailable BOOLEAN NOT NULL DEFAULT FALSE AFTER met`);
+    }
+  },
+
+  async down(connection) {
+    if (await columnExists(connection, 'plan_exercises', 'unavailable')) {
+      await connection.execute(`ALTER TABLE plan_exercises DROP COLUMN unavailable`);
+    }
+  },
+};
+
+export default migration;
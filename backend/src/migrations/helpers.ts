@@ -0,0 +1,71 @@
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+
+/**
+ * Check if a column exists in the current database
+ */
+export const columnExists = async (connection: PoolConnection, table: string, column: string): Promise<boolean> => {
+  const [rows] = await connection.execute<RowDataPacket[]>(
+    `SELECT COLUMN_NAME FROM information_schema.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+    [table, column]
+  );
+  return rows.length > 0;
+};
+
+/**
+ * Check if an index exists in the current database
+ */
+export const indexExists = async (connection: PoolConnection, table: string, index: string): Promise<boolean> => {
+  const [rows] = await connection.execute<RowDataPacket[]>(
+    `SELECT INDEX_NAME FROM information_schema.STATISTICS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ?`,
+    [table, index]
+  );
+  return rows.length > 0;
+};
+
+/**
+ * Catalog exercise as seeded by a migration. Each migration keeps its own copy of the rows it
+ * added, so later changes to the catalog seed never change what an old migration inserts.
+ */
+export interface CatalogSeedExercise {
+  slug: string;
+  name: string;
+  primary_muscle: string;
+  secondary_muscles: string[];
+  equipment: string[];
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  default_sets: number;
+  default_reps: number;
+  default_duration?: number;
+  cardio?: { [field: string]: unknown };
+  instructions?: string;
+  media_url?: string;
+}
+
+/**
+ * Insert catalog exercises, skipping slugs that are already present
+ */
+export const insertCatalogExercises = async (connection: PoolConnection, exercises: CatalogSeedExercise[]): Promise<void> => {
+  for (const exercise of exercises) {
+    await connection.execute(
+      `INSERT IGNORE INTO exercises
+       (slug, name, primary_muscle, secondary_muscles, equipment, difficulty,
+        default_sets, default_reps, default_duration, instructions, media_url)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        exercise.slug,
+        exercise.name,
+        exercise.primary_muscle,
+        JSON.stringify(exercise.secondary_muscles),
+        JSON.stringify(exercise.equipment),
+        exercise.difficulty,
+        exercise.default_sets,
+        exercise.default_reps,
+        exercise.default_duration ?? null,
+        exercise.instructions ?? null,
+        exercise.media_url ?? null,
+      ]
+    );
+  }
+};
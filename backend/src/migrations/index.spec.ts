@@ -0,0 +1,14 @@
+import { readdirSync } from 'fs';
+import { migrations } from '.';
+
+describe('migrations', () => {
+  it('are registered in version order without gaps', () => {
+    expect(migrations.map(migration => migration.version)).toEqual(migrations.map((_, index) => index + 1));
+  });
+
+  it('register every migration file under its version and name', () => {
+    const files = readdirSync(__dirname).filter(file => /^\d{3}_\w+\.ts$/.test(file)).sort();
+
+    expect(migrations.map(({ version, name }) => `${String(version).padStart(3, '0')}_${name}.ts`)).toEqual(files);
+  });
+});
@@ -0,0 +1,55 @@
+import { Migration } from '../types';
+import initialSchema from './001_initial_schema';
+import userResetToken from './002_user_reset_token';
+import datedPlanHistory from './003_dated_plan_history';
+import weeklyArchives from './004_weekly_archives';
+import weekRollovers from './005_week_rollovers';
+import normalizePlanItems from './006_normalize_plan_items';
+import exerciseSetLogs from './007_exercise_set_logs';
+import userProgressionScheme from './008_user_progression_scheme';
+import exerciseCatalog from './009_exercise_catalog';
+import userEquipmentProfile from './010_user_equipment_profile';
+import userTrainingPreferences from './011_user_training_preferences';
+import userSessionBudgets from './012_user_session_budgets';
+import planExerciseSections from './013_plan_exercise_sections';
+import cardioExercises from './014_cardio_exercises';
+import exerciseMet from './015_exercise_met';
+import bodyMeasurements from './016_body_measurements';
+import goalTargets from './017_goal_targets';
+import calorieAdjustments from './018_calorie_adjustments';
+import foodLog from './019_food_log';
+import partialMealConsumption from './020_partial_meal_consumption';
+import foodMicronutrients from './021_food_micronutrients';
+import foods from './022_foods';
+import usdaCache from './023_usda_cache';
+import weekRolloverRetries from './024_week_rollover_retries';
+import planExerciseUnavailable from './025_plan_exercise_unavailable';
+
+// Register new migrations here, in version order
+export const migrations: Migration[] = [
+  initialSchema,
+  userResetToken,
+  datedPlanHistory,
+  weeklyArchives,
+  weekRollovers,
+  normalizePlanItems,
+  exerciseSetLogs,
+  userProgressionScheme,
+  exerciseCatalog,
+  userEquipmentProfile,
+  userTrainingPreferences,
+  userSessionBudgets,
+  planExerciseSections,
+  cardioExercises,
+  exerciseMet,
+  bodyMeasurements,
+  goalTargets,
+  calorieAdjustments,
+  foodLog,
+  partialMealConsumption,
+  foodMicronutrients,
+  foods,
+  usdaCache,
+  weekRolloverRetries,
+  planExerciseUnavailable,
+];
@@ -0,0 +1,155 @@
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { pool } from '../config/database';
+import { Migration, MigrationStatus } from '../types';
+import { logger } from '../utils/logger';
+import { migrations as registeredMigrations } from './index';
+
+const LOCK_NAME = 'schema_migrations_lock';
+const LOCK_TIMEOUT_SECONDS = 60;
+
+export class Migrator {
+  /**
+   * Apply pending migrations up to (and including) the target version, or all of them
+   */
+  static async migrate(targetVersion?: number): Promise<Migration[]> {
+    return this.withLock(async (connection) => {
+      const applied = await this.getAppliedVersions(connection);
+      const pending = this.getMigrations().filter(migration =>
+        !applied.has(migration.version) &&
+        (targetVersion === undefined || migration.version <= targetVersion)
+      );
+
+      for (const migration of pending) {
+        logger.info(`Applying migration ${this.label(migration)}`);
+        await migration.up(connection);
+        await connection.execute(
+          `INSERT INTO schema_migrations (version, name) VALUES (?, ?)`,
+          [migration.version, migration.name]
+        );
+        logger.info(`Applied migration ${this.label(migration)}`);
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Revert the most recently applied migrations
+   */
+  static async rollback(steps: number = 1): Promise<Migration[]> {
+    return this.withLock(async (connection) => {
+      const applied = await this.getAppliedVersions(connection);
+      const toRevert = this.getMigrations()
+        .filter(migration => applied.has(migration.version))
+        .reverse()
+        .slice(0, steps);
+
+      for (const migration of toRevert) {
+        logger.info(`Reverting migration ${this.label(migration)}`);
+        await migration.down(connection);
+        await connection.execute(`DELETE FROM schema_migrations WHERE version = ?`, [migration.version]);
+        logger.info(`Reverted migration ${this.label(migration)}`);
+      }
+
+      return toRevert;
+    });
+  }
+
+  /**
+   * List every known migration with its applied state
+   */
+  static async status(): Promise<MigrationStatus[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      await this.ensureMigrationsTable(connection);
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT version, applied_at FROM schema_migrations`
+      );
+      const appliedAt = new Map<number, Date>(rows.map(row => [row.version, row.applied_at]));
+
+      return this.getMigrations().map(migration => ({
+        version: migration.version,
+        name: migration.name,
+        applied: appliedAt.has(migration.version),
+        applied_at: appliedAt.get(migration.version),
+      }));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Get migrations that have not been applied yet
+   */
+  static async pending(): Promise<MigrationStatus[]> {
+    return (await this.status()).filter(migration => !migration.applied);
+  }
+
+  /**
+   * Registered migrations in version order (versions must be unique)
+   */
+  private static getMigrations(): Migration[] {
+    const sorted = [...registeredMigrations].sort((a, b) => a.version - b.version);
+
+    sorted.forEach((migration, index) => {
+      if (index > 0 && sorted[index - 1].version === migration.version) {
+        throw new Error(`Duplicate migration version ${migration.version}`);
+      }
+    });
+
+    return sorted;
+  }
+
+  /**
+   * Run work on a dedicated connection while holding a named lock so
+   * two processes never migrate at the same time
+   */
+  private static async withLock<T>(work: (connection: PoolConnection) => Promise<T>): Promise<T> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [lockRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT GET_LOCK(?, ?) AS acquired`,
+        [LOCK_NAME, LOCK_TIMEOUT_SECONDS]
+      );
+      if (lockRows[0].acquired !== 1) {
+        throw new Error('Could not acquire schema migrations lock (another migration is running)');
+      }
+
+      try {
+        await this.ensureMigrationsTable(connection);
+        return await work(connection);
+      } finally {
+        await connection.execute(`SELECT RELEASE_LOCK(?)`, [LOCK_NAME]);
+      }
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Create the schema_migrations bookkeeping table
+   */
+  private static async ensureMigrationsTable(connection: PoolConnection): Promise<void> {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INT PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  }
+
+  /**
+   * Get the set of applied migration versions
+   */
+  private static async getAppliedVersions(connection: PoolConnection): Promise<Set<number>> {
+    const [rows] = await connection.execute<RowDataPacket[]>(`SELECT version FROM schema_migrations`);
+    return new Set(rows.map(row => row.version as number));
+  }
+
+  private static label(migration: Migration): string {
+    return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+  }
+}
@@ -0,0 +1,90 @@
+import { getStorage } from '../repositories';
+import { BodyMeasurement, BodyMeasurementRepository, RecordBodyMeasurementRequest } from '../types';
+import { UserModel } from './User';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { DateUtils } from '../utils/date';
+
+export class BodyMeasurementModel {
+  /**
+   * Repository of the configured storage driver
+   */
+  private static get repository(): BodyMeasurementRepository {
+    return getStorage().measurements;
+  }
+
+  /**
+   * Record a measurement (today unless dated) and keep the profile weight at the latest logged weight
+   */
+  static async record(userId: number, measurementData: RecordBodyMeasurementRequest): Promise<BodyMeasurement> {
+    const id = await this.repository.create({
+      user_id: userId,
+      measured_on: measurementData.measured_on || DateUtils.toDateString(new Date()),
+      weight: measurementData.weight,
+      body_fat_percentage: measurementData.body_fat_percentage,
+      circumferences: measurementData.circumferences || {},
+      notes: measurementData.notes,
+    });
+
+    const measurement = await this.findById(id, userId);
+    if (!measurement) {
+      throw new AppError('Measurement recorded but could not be retrieved', 500, 'MEASUREMENT_RETRIEVAL_FAILED');
+    }
+
+    if (measurement.weight !== undefined) {
+      await this.syncProfileWeight(userId);
+    }
+
+    logger.info(`Body measurement recorded for user ${userId} on ${measurement.measured_on}`);
+    return measurement;
+  }
+
+  /**
+   * Find a measurement of a user by ID
+   */
+  static async findById(id: number, userId: number): Promise<BodyMeasurement | null> {
+    return this.repository.findById(id, userId);
+  }
+
+  /**
+   * Get a user's measurements within the date range (inclusive), oldest first
+   */
+  static async findByUser(userId: number, fromDate?: string, toDate?: string): Promise<BodyMeasurement[]> {
+    return this.repository.findByUser(userId, fromDate, toDate);
+  }
+
+  /**
+   * Delete a measurement; the profile weight falls back to the latest remaining weight
+   */
+  static async delete(id: number, userId: number): Promise<void> {
+    const measurement = await this.findById(id, userId);
+    if (!measurement) {
+      throw new AppError('Measurement not found', 404, 'MEASUREMENT_NOT_FOUND');
+    }
+
+    await this.repository.delete(id, userId);
+
+    if (measurement.weight !== undefined) {
+      await this.syncProfileWeight(userId);
+    }
+
+    logger.info(`Body measurement ${id} deleted for user ${userId}`);
+  }
+
+  /**
+   * Copy the latest logged weight to the profile, which BMR and calorie estimates read.
+   * The profile keeps its weight when no weighed entry is left.
+   */
+  private static async syncProfileWeight(userId: number): Promise<void> {
+    const weighed = (await this.findByUser(userId)).filter(measurement => measurement.weight !== undefined);
+    const latest = weighed[weighed.length - 1];
+    if (!latest) {
+      return;
+    }
+
+    const user = await UserModel.findById(userId);
+    if (user && Number(user.weight) !== latest.weight) {
+      await UserModel.updateProfile(userId, { weight: latest.weight });
+    }
+  }
+}
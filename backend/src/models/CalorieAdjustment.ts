@@ -0,0 +1,58 @@
+import { getStorage } from '../repositories';
+import { CalorieAdjustment, CalorieAdjustmentData, CalorieAdjustmentRepository } from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+export class CalorieAdjustmentModel {
+  /**
+   * Repository of the configured storage driver
+   */
+  private static get repository(): CalorieAdjustmentRepository {
+    return getStorage().calorieAdjustments;
+  }
+
+  /**
+   * Store the adjustment of a week, replacing the one already stored for it
+   */
+  static async save(adjustmentData: CalorieAdjustmentData): Promise<CalorieAdjustment> {
+    const { user_id: userId, week_start: weekStart } = adjustmentData;
+    const existing = await this.findByWeek(userId, weekStart);
+
+    if (existing) {
+      await this.repository.update(existing.id, userId, adjustmentData);
+    } else {
+      try {
+        await this.repository.create(adjustmentData);
+      } catch (error) {
+        // A concurrent request stored the week first
+        const stored = await this.findByWeek(userId, weekStart);
+        if (!stored) {
+          throw error;
+        }
+        await this.repository.update(stored.id, userId, adjustmentData);
+      }
+    }
+
+    const adjustment = await this.findByWeek(userId, weekStart);
+    if (!adjustment) {
+      throw new AppError('Calorie adjustment saved but could not be retrieved', 500, 'ADJUSTMENT_RETRIEVAL_FAILED');
+    }
+
+    logger.info(`Calorie target for user ${userId}, week of ${weekStart}: ${adjustment.calorie_target} kcal (${adjustment.method})`);
+    return adjustment;
+  }
+
+  /**
+   * Find the adjustment of a user for a week
+   */
+  static async findByWeek(userId: number, weekStart: string): Promise<CalorieAdjustment | null> {
+    return this.repository.findByWeek(userId, weekStart);
+  }
+
+  /**
+   * Get a user's adjustments, latest week first
+   */
+  static async findByUser(userId: number, limit?: number): Promise<CalorieAdjustment[]> {
+    return this.repository.findByUser(userId, limit);
+  }
+}
@@ -0,0 +1,234 @@
+import { getStorage } from '../repositories';
+import {
+  CatalogExercise,
+  CatalogExerciseData,
+  CatalogExerciseFilters,
+  CreateCatalogExerciseRequest,
+  Exercise,
+  ExerciseDifficulty,
+  ExerciseCatalogRepository,
+  ExerciseAlternative,
+  SubstituteReference,
+} from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { CalorieService } from '../services/calorieService';
+
+const DIFFICULTY_LEVELS: ExerciseDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+export class ExerciseCatalogModel {
+  /**
+   * Repository of the configured storage driver
+   */
+  private static get repository(): ExerciseCatalogRepository {
+    return getStorage().exercises;
+  }
+
+  /**
+   * Add an exercise to the catalog (slug derived from the name unless given)
+   */
+  static async create(exerciseData: CreateCatalogExerciseRequest): Promise<CatalogExercise> {
+    const id = await this.repository.create({
+      ...exerciseData,
+      slug: exerciseData.slug || this.toSlug(exerciseData.name),
+    });
+
+    const exercise = await this.findById(id);
+    if (!exercise) {
+      throw new AppError('Exercise created but could not be retrieved', 500, 'EXERCISE_RETRIEVAL_FAILED');
+    }
+
+    logger.info(`Catalog exercise created: ${exercise.slug}`);
+    return exercise;
+  }
+
+  /**
+   * Find catalog exercise by ID
+   */
+  static async findById(id: number): Promise<CatalogExercise | null> {
+    return this.repository.findById(id);
+  }
+
+  /**
+   * Find catalog exercises by ID
+   */
+  static async findByIds(ids: number[]): Promise<CatalogExercise[]> {
+    return this.repository.findByIds(ids);
+  }
+
+  /**
+   * Find catalog exercises by slug, in the order the slugs are given
+   */
+  static async findBySlugs(slugs: string[]): Promise<CatalogExercise[]> {
+    const exercises = await this.repository.findBySlugs(slugs);
+    const bySlug = new Map(exercises.map(exercise => [exercise.slug, exercise]));
+    return slugs
+      .map(slug => bySlug.get(slug))
+      .filter((exercise): exercise is CatalogExercise => exercise !== undefined);
+  }
+
+  /**
+   * Search the catalog (paginated)
+   */
+  static async search(
+    filters: CatalogExerciseFilters,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{ exercises: CatalogExercise[]; total: number }> {
+    return this.repository.findAll(filters, limit, (page - 1) * limit);
+  }
+
+  /**
+   * Find exercises for a muscle group, those targeting it first
+   */
+  static async findForMuscleGroup(muscleGroup: string): Promise<CatalogExercise[]> {
+    const exercises = await this.repository.findByMuscles([muscleGroup]);
+    return [
+      ...exercises.filter(exercise => exercise.primary_muscle === muscleGroup),
+      ...exercises.filter(exercise => exercise.primary_muscle !== muscleGroup),
+    ];
+  }
+
+  /**
+   * Find exercises working any of the muscles, as primary or secondary
+   */
+  static async findByMuscles(muscles: string[]): Promise<CatalogExercise[]> {
+    return this.repository.findByMuscles(muscles);
+  }
+
+  /**
+   * Update a catalog exercise
+   */
+  static async update(id: number, fields: Partial<CatalogExerciseData>): Promise<CatalogExercise> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      throw new AppError('Exercise not found', 404, 'EXERCISE_NOT_FOUND');
+    }
+
+    await this.repository.update(id, fields);
+
+    logger.info(`Catalog exercise updated: ${existing.slug}`);
+    return await this.findById(id) as CatalogExercise;
+  }
+
+  /**
+   * Remove an exercise from the catalog
+   */
+  static async delete(id: number): Promise<void> {
+    const deleted = await this.repository.delete(id);
+    if (!deleted) {
+      throw new AppError('Exercise not found', 404, 'EXERCISE_NOT_FOUND');
+    }
+
+    logger.info(`Catalog exercise deleted: ${id}`);
+  }
+
+  /**
+   * Feasible replacements for an exercise done as part of a muscle group, best match first:
+   * same muscles, then similar equipment, then closest difficulty
+   */
+  static async findSubstitutes(
+    entry: SubstituteReference,
+    muscleGroup: string,
+    equipment: string[],
+    excludeSlugs: string[] = []
+  ): Promise<CatalogExercise[]> {
+    const alternatives = await this.rankSubstitutes(entry, muscleGroup, equipment, excludeSlugs);
+    return alternatives.map(alternative => alternative.exercise);
+  }
+
+  /**
+   * Score feasible replacements for an exercise and explain how each one matches it
+   */
+  static async rankSubstitutes(
+    entry: SubstituteReference,
+    muscleGroup: string,
+    equipment: string[],
+    excludeSlugs: string[] = []
+  ): Promise<ExerciseAlternative[]> {
+    // Anything working the group or one of the exercise's muscles is a candidate
+    const muscles = [entry.primary_muscle, ...entry.secondary_muscles];
+    const candidates = await this.findByMuscles([...new Set([muscleGroup, ...muscles])]);
+    const level = DIFFICULTY_LEVELS.indexOf(entry.difficulty);
+
+    return candidates
+      .filter(candidate =>
+        candidate.slug !== entry.slug &&
+        !excludeSlugs.includes(candidate.slug) &&
+        this.isAvailable(candidate, equipment)
+      )
+      .map((candidate): ExerciseAlternative => {
+        const sharedMuscles = [candidate.primary_muscle, ...candidate.secondary_muscles]
+          .filter(muscle => muscles.includes(muscle)).length;
+        const similarEquipment = candidate.equipment.length === 0 ?
+          entry.equipment.length === 0 :
+          candidate.equipment.some(tag => entry.equipment.includes(tag));
+        const levelChange = DIFFICULTY_LEVELS.indexOf(candidate.difficulty) - level;
+
+        const score = (candidate.primary_muscle === muscleGroup ? 3 : 0) +
+          (candidate.primary_muscle === entry.primary_muscle ? 2 : 0) +
+          sharedMuscles +
+          (similarEquipment ? 1 : 0) -
+          Math.abs(levelChange);
+
+        return {
+          exercise: candidate,
+          score,
+          same_muscle_group: candidate.primary_muscle === muscleGroup,
+          similar_equipment: similarEquipment,
+          difficulty: levelChange === 0 ? 'same' : levelChange < 0 ? 'easier' : 'harder',
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Check if every piece of equipment an exercise needs is available
+   */
+  static isAvailable(entry: CatalogExercise, equipment: string[]): boolean {
+    return entry.equipment.every(tag => equipment.includes(tag));
+  }
+
+  /**
+   * Build a plan exercise for a weekday from a catalog entry
+   */
+  static toExercise(entry: CatalogExercise, day: string, muscleGroup: string = entry.primary_muscle): Exercise {
+    const exercise: Exercise = {
+      id: `${day.slice(0, 3).toLowerCase()}-${entry.slug}`,
+      name: entry.name,
+      sets: entry.default_sets,
+      reps: entry.default_reps,
+      duration: entry.default_duration,
+      instructions: entry.instructions,
+      muscle_group: muscleGroup,
+      catalog_id: entry.id,
+      // Rated by what the entry is, not by the muscle group it was picked for
+      met: CalorieService.getMet({ met: entry.met, cardio: entry.cardio, muscle_group: entry.primary_muscle }),
+    };
+
+    if (!entry.cardio) {
+      return exercise;
+    }
+
+    // Cardio is one set per interval round, or a single steady-state block
+    const { intervals } = entry.cardio;
+    return {
+      ...exercise,
+      type: 'cardio',
+      cardio: { ...entry.cardio, intervals: intervals && { ...intervals } },
+      sets: intervals ? intervals.rounds : 1,
+      reps: 1,
+      duration: intervals ? intervals.work_seconds : entry.default_duration,
+    };
+  }
+
+  /**
+   * URL-safe identifier from an exercise name
+   */
+  private static toSlug(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
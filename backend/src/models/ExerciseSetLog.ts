@@ -0,0 +1,86 @@
+import { getStorage } from '../repositories';
+import { ExerciseSetLog, ExerciseSetLogData, ExerciseSetLogRepository, LogExerciseSetRequest } from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+export class ExerciseSetLogModel {
+  /**
+   * Repository of the configured storage driver
+   */
+  private static get repository(): ExerciseSetLogRepository {
+    return getStorage().setLogs;
+  }
+
+  /**
+   * Log a performed set
+   */
+  static async create(setData: ExerciseSetLogData): Promise<ExerciseSetLog> {
+    const setLog = await this.repository.create(setData);
+
+    logger.info(`Set ${setData.set_number} of exercise ${setData.exercise_id} logged for user ${setData.user_id}`);
+    return setLog;
+  }
+
+  /**
+   * Log several performed sets at once; either all of them are stored or none
+   */
+  static async createMany(sets: ExerciseSetLogData[]): Promise<ExerciseSetLog[]> {
+    if (sets.length === 0) {
+      return [];
+    }
+
+    const setLogs = await this.repository.createMany(sets);
+
+    logger.info(`${sets.length} sets logged for user ${sets[0].user_id}`);
+    return setLogs;
+  }
+
+  /**
+   * Find a set log owned by the user
+   */
+  static async findById(id: number, userId: number): Promise<ExerciseSetLog | null> {
+    return this.repository.findById(id, userId);
+  }
+
+  /**
+   * Get the sets logged on a plan, grouped by exercise in set order
+   */
+  static async findByPlan(planId: number, exerciseId?: string): Promise<ExerciseSetLog[]> {
+    return this.repository.findByPlan(planId, exerciseId);
+  }
+
+  /**
+   * Get a user's sets of an exercise (matched by name) between two dates, oldest first
+   */
+  static async findByExerciseName(
+    userId: number,
+    exerciseName: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<ExerciseSetLog[]> {
+    return this.repository.findByExerciseName(userId, exerciseName, fromDate, toDate);
+  }
+
+  /**
+   * Update a set log owned by the user
+   */
+  static async update(id: number, userId: number, updateData: Partial<LogExerciseSetRequest>): Promise<ExerciseSetLog> {
+    const setLog = await this.repository.update(id, userId, updateData);
+    if (!setLog) {
+      throw new AppError('Set log not found', 404, 'SET_NOT_FOUND');
+    }
+
+    return setLog;
+  }
+
+  /**
+   * Delete a set log owned by the user
+   */
+  static async delete(id: number, userId: number): Promise<void> {
+    if (!(await this.repository.delete(id, userId))) {
+      throw new AppError('Set log not found', 404, 'SET_NOT_FOUND');
+    }
+
+    logger.info(`Set log ${id} deleted for user ${userId}`);
+  }
+}
@@ -0,0 +1,46 @@
+import { getStorage } from '../repositories';
+import { FoodRepository, LocalFood, LocalFoodData, LocalFoodSearchOptions, LocalFoodSearchResult } from '../types';
+
+export class FoodModel {
+  /**
+   * Repository of the configured storage driver
+   */
+  private static get repository(): FoodRepository {
+    return getStorage().foods;
+  }
+
+  /**
+   * Insert imported foods, replacing earlier imports of the same FDC IDs
+   */
+  static async upsertMany(foods: LocalFoodData[]): Promise<void> {
+    return this.repository.upsertMany(foods);
+  }
+
+  /**
+   * Find a food by FDC ID
+   */
+  static async findById(fdcId: number): Promise<LocalFood | null> {
+    return this.repository.findById(fdcId);
+  }
+
+  /**
+   * Find the imported foods among the given FDC IDs
+   */
+  static async findByIds(fdcIds: number[]): Promise<LocalFood[]> {
+    return this.repository.findByIds(fdcIds);
+  }
+
+  /**
+   * Search foods by description and brand, most relevant first
+   */
+  static async search(query: string, options: LocalFoodSearchOptions): Promise<LocalFoodSearchResult> {
+    return this.repository.search(query, options);
+  }
+
+  /**
+   * Number of imported foods
+   */
+  static async count(): Promise<number> {
+    return this.repository.count();
+  }
+}
@@ -0,0 +1,75 @@
+import { getStorage } from '../repositories';
+import { FoodLogEntry, FoodLogEntryData, FoodLogRepository } from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+export class FoodLogModel {
+  /**
+   * Repository of the configured storage driver
+   */
+  private static get repository(): FoodLogRepository {
+    return getStorage().foodLog;
+  }
+
+  /**
+   * Add an entry to a user's diary
+   */
+  static async create(entryData: FoodLogEntryData): Promise<FoodLogEntry> {
+    const id = await this.repository.create(entryData);
+
+    const entry = await this.findById(id, entryData.user_id);
+    if (!entry) {
+      throw new AppError('Diary entry logged but could not be retrieved', 500, 'FOOD_LOG_RETRIEVAL_FAILED');
+    }
+
+    logger.info(`Food logged for user ${entry.user_id} on ${entry.logged_on}: ${entry.name} (${entry.calories} kcal)`);
+    return entry;
+  }
+
+  /**
+   * Find a diary entry of a user by ID
+   */
+  static async findById(id: number, userId: number): Promise<FoodLogEntry | null> {
+    return this.repository.findById(id, userId);
+  }
+
+  /**
+   * Get a user's diary entries within the date range (inclusive)
+   */
+  static async findByUser(userId: number, fromDate: string, toDate: string): Promise<FoodLogEntry[]> {
+    return this.repository.findByUser(userId, fromDate, toDate);
+  }
+
+  /**
+   * Update a diary entry
+   */
+  static async update(id: number, userId: number, fields: Partial<FoodLogEntryData>): Promise<FoodLogEntry> {
+    if (!(await this.repository.update(id, userId, fields))) {
+      throw new AppError('Diary entry not found', 404, 'FOOD_LOG_ENTRY_NOT_FOUND');
+    }
+
+    const entry = await this.findById(id, userId);
+    if (!entry) {
+      throw new AppError('Diary entry not found', 404, 'FOOD_LOG_ENTRY_NOT_FOUND');
+    }
+    return entry;
+  }
+
+  /**
+   * Delete a diary entry
+   */
+  static async delete(id: number, userId: number): Promise<void> {
+    if (!(await this.repository.delete(id, userId))) {
+      throw new AppError('Diary entry not found', 404, 'FOOD_LOG_ENTRY_NOT_FOUND');
+    }
+
+    logger.info(`Diary entry ${id} deleted for user ${userId}`);
+  }
+
+  /**
+   * Delete the entries a planned meal logged on a date
+   */
+  static async deleteByPlanMeal(userId: number, loggedOn: string, planMealId: string): Promise<number> {
+    return this.repository.deleteByPlanMeal(userId, loggedOn, planMealId);
+  }
+}
@@ -0,0 +1,69 @@
+import { getStorage } from '../repositories';
+import { GoalTarget, GoalTargetData, GoalTargetRepository, GoalTargetStatus } from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+export class GoalTargetModel {
+  /**
+   * Repository of the configured storage driver
+   */
+  private static get repository(): GoalTargetRepository {
+    return getStorage().goals;
+  }
+
+  /**
+   * Create a goal target
+   */
+  static async create(goalData: GoalTargetData): Promise<GoalTarget> {
+    const id = await this.repository.create(goalData);
+
+    const goal = await this.findById(id, goalData.user_id);
+    if (!goal) {
+      throw new AppError('Goal created but could not be retrieved', 500, 'GOAL_RETRIEVAL_FAILED');
+    }
+
+    logger.info(`Goal ${id} (${goal.metric}) created for user ${goal.user_id}`);
+    return goal;
+  }
+
+  /**
+   * Find a goal of a user by ID
+   */
+  static async findById(id: number, userId: number): Promise<GoalTarget | null> {
+    return this.repository.findById(id, userId);
+  }
+
+  /**
+   * Get a user's goals (optionally of one status), by target date
+   */
+  static async findByUser(userId: number, status?: GoalTargetStatus): Promise<GoalTarget[]> {
+    return this.repository.findByUser(userId, status);
+  }
+
+  /**
+   * Update the given fields of a goal
+   */
+  static async update(id: number, userId: number, fields: Partial<GoalTargetData>): Promise<GoalTarget> {
+    if (!(await this.repository.update(id, userId, fields))) {
+      throw new AppError('Goal not found', 404, 'GOAL_NOT_FOUND');
+    }
+
+    const goal = await this.findById(id, userId);
+    if (!goal) {
+      throw new AppError('Goal updated but could not be retrieved', 500, 'GOAL_RETRIEVAL_FAILED');
+    }
+
+    return goal;
+  }
+
+  /**
+   * Delete a goal of a user
+   */
+  static async delete(id: number, userId: number): Promise<void> {
+    if (!(await this.repository.delete(id, userId))) {
+      throw new AppError('Goal not found', 404, 'GOAL_NOT_FOUND');
+    }
+
+    logger.info(`Goal ${id} deleted for user ${userId}`);
+  }
+}
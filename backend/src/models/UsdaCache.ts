@@ -0,0 +1,33 @@
+import { getStorage } from '../repositories';
+import { UsdaCacheEntry, UsdaCacheRepository } from '../types';
+
+export class UsdaCacheModel {
+  /**
+   * Repository of the configured storage driver
+   */
+  private static get repository(): UsdaCacheRepository {
+    return getStorage().usdaCache;
+  }
+
+  /**
+   * Find a cached response that has not expired
+   */
+  static async find(cacheKey: string): Promise<UsdaCacheEntry | null> {
+    const entry = await this.repository.find(cacheKey);
+    return entry && entry.expires_at.getTime() > Date.now() ? entry : null;
+  }
+
+  /**
+   * Cache a response until the given time
+   */
+  static async save(cacheKey: string, payload: any, expiresAt: Date): Promise<void> {
+    return this.repository.save({ cache_key: cacheKey, payload, expires_at: expiresAt });
+  }
+
+  /**
+   * Delete expired responses, returning how many were removed
+   */
+  static async deleteExpired(): Promise<number> {
+    return this.repository.deleteExpired(new Date());
+  }
+}
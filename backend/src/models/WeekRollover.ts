@@ -0,0 +1,59 @@
+import { getStorage } from '../repositories';
+import { WeekRollover, WeekRolloverRepository } from '../types';
+
+export class WeekRolloverModel {
+  /**
+   * Repository of the configured storage driver
+   */
+  private static get repository(): WeekRolloverRepository {
+    return getStorage().weekRollovers;
+  }
+
+  /**
+   * Find user weeks before the given week that are due a rollover (not completed, attempts
+   * below the maximum and retry time reached), oldest first
+   */
+  static async findPending(
+    beforeWeekStart: string,
+    maxAttempts: number,
+    limit: number = 100
+  ): Promise<{ userId: number; weekStart: string }[]> {
+    return this.repository.findPending(beforeWeekStart, maxAttempts, new Date(), limit);
+  }
+
+  /**
+   * Get (or create) the idempotency record of a user's week rollover and count the attempt
+   */
+  static async claim(userId: number, weekStart: string): Promise<WeekRollover> {
+    return this.repository.claim(userId, weekStart);
+  }
+
+  /**
+   * Record that the week was archived
+   */
+  static async markArchived(id: number): Promise<void> {
+    await this.repository.markArchived(id);
+  }
+
+  /**
+   * Atomically claim the intensity adjustment of a rollover, so it runs at most once
+   * even when two runs process the same week; false when it was already claimed
+   */
+  static async claimAdjustment(id: number): Promise<boolean> {
+    return this.repository.claimAdjustment(id);
+  }
+
+  /**
+   * Mark a rollover as completed
+   */
+  static async markCompleted(id: number): Promise<void> {
+    await this.repository.markCompleted(id);
+  }
+
+  /**
+   * Mark a rollover as failed, to be retried from the given time (never when null)
+   */
+  static async markFailed(id: number, errorMessage: string, nextAttemptAt: Date | null): Promise<void> {
+    await this.repository.markFailed(id, errorMessage, nextAttemptAt);
+  }
+}
@@ -0,0 +1,59 @@
+import { getStorage } from '../repositories';
+import { WeeklyArchive, WeeklyArchiveData, WeeklyArchiveFilters, WeeklyArchiveRepository } from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+export class WeeklyArchiveModel {
+  /**
+   * Repository of the configured storage driver
+   */
+  private static get repository(): WeeklyArchiveRepository {
+    return getStorage().weeklyArchives;
+  }
+
+  /**
+   * Create or replace the archive of a user's week
+   */
+  static async save(userId: number, archiveData: WeeklyArchiveData): Promise<WeeklyArchive> {
+    await this.repository.save(userId, archiveData);
+
+    const archive = await this.findByUserAndWeek(userId, archiveData.weekStartDate, true);
+    if (!archive) {
+      throw new AppError('Failed to archive week', 500, 'ARCHIVE_FAILED');
+    }
+
+    logger.info(`Week of ${archiveData.weekStartDate} archived for user ${userId}`);
+    return archive;
+  }
+
+  /**
+   * Find the archive of a specific week (Monday date)
+   */
+  static async findByUserAndWeek(userId: number, weekStart: string, includeDays: boolean = false): Promise<WeeklyArchive | null> {
+    return this.repository.findByUserAndWeek(userId, weekStart, includeDays);
+  }
+
+  /**
+   * Get archived weeks for a user, most recent first, with pagination and filters
+   */
+  static async findByUserId(
+    userId: number,
+    filters: WeeklyArchiveFilters,
+    page: number = 1,
+    limit: number = 10,
+    includeDays: boolean = false
+  ): Promise<{ archives: WeeklyArchive[]; total: number }> {
+    return this.repository.findByUser(userId, filters, limit, (page - 1) * limit, includeDays);
+  }
+
+  /**
+   * Delete the archive of a specific week
+   */
+  static async delete(userId: number, weekStart: string): Promise<void> {
+    if (!(await this.repository.delete(userId, weekStart))) {
+      throw new AppError('Archived week not found', 404, 'ARCHIVE_NOT_FOUND');
+    }
+
+    logger.info(`Archive of week ${weekStart} deleted for user ${userId}`);
+  }
+}
@@ -1,213 +1,305 @@
-import { RowDataPacket, ResultSetHeader } from 'mysql2';
-import { pool } from '../config/database';
-import { WorkoutMealPlan, CreateWorkoutMealPlanRequest, UpdateCompletedStatusRequest, Exercise, Meal, CompletedStatus } from '../types';
+import { getStorage } from '../repositories';
+import { WorkoutMealPlan, WorkoutMealPlanTemplate, WorkoutMealPlanRepository, CreateWorkoutMealPlanRequest, UpdateCompletedStatusRequest, Exercise, Meal, MealConsumption, PlanItemKind, MuscleGroupStats, DailyNutritionStats } from '../types';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
+import { DateUtils } from '../utils/date';
 
 export class WorkoutMealPlanModel {
   /**
-   * Create or update a workout meal plan for a specific day
+   * Repository of the configured storage driver
    */
-  static async createOrUpdate(userId: number, planData: CreateWorkoutMealPlanRequest): Promise<WorkoutMealPlan> {
-    const connection = await pool.getConnection();
-    
-    try {
-      // Check if plan already exists for this user and day
-      const existingPlan = await this.findByUserAndDay(userId, planData.day);
-      
-      const exercisesJson = JSON.stringify(planData.exercises);
-      const mealsJson = JSON.stringify(planData.meals);
-      const completedStatusJson = JSON.stringify({
-        exercises: {},
-        meals: {},
-        date_completed: null
-      });
-
-      if (existingPlan) {
-        // Update existing plan
-        const [result] = await connection.execute<ResultSetHeader>(
-          `UPDATE workoutmealplans SET exercises = ?, meals = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-          [exercisesJson, mealsJson, existingPlan.id]
-        );
+  private static get repository(): WorkoutMealPlanRepository {
+    return getStorage().plans;
+  }
 
-        if (result.affectedRows === 0) {
-          throw new AppError('Failed to update workout meal plan', 500, 'UPDATE_FAILED');
-        }
+  /**
+   * Create or update a workout meal plan for a specific day.
+   * Saves the weekday template and the matching dated plan of the given week (current week by default).
+   */
+  static async createOrUpdate(
+    userId: number,
+    planData: CreateWorkoutMealPlanRequest,
+    weekStart: string = DateUtils.getCurrentWeekStart()
+  ): Promise<WorkoutMealPlan> {
+    // Keep the weekday template in sync so future weeks start from the latest plan
+    await this.repository.saveTemplate(userId, planData.day, planData.exercises, planData.meals);
 
-        logger.info(`Workout meal plan updated for user ${userId}, day ${planData.day}`);
-        return await this.findById(existingPlan.id) as WorkoutMealPlan;
-      } else {
-        // Create new plan
-        const [result] = await connection.execute<ResultSetHeader>(
-          `INSERT INTO workoutmealplans (user_id, day, exercises, meals, completed_status) VALUES (?, ?, ?, ?, ?)`,
-          [userId, planData.day, exercisesJson, mealsJson, completedStatusJson]
-        );
-
-        if (result.affectedRows === 0) {
-          throw new AppError('Failed to create workout meal plan', 500, 'CREATION_FAILED');
-        }
+    // Check if plan already exists for this user and date
+    const planDate = DateUtils.getDateForDay(weekStart, planData.day);
+    const existingPlan = await this.findByUserAndDate(userId, planDate);
 
-        logger.info(`Workout meal plan created for user ${userId}, day ${planData.day}`);
-        return await this.findById(result.insertId) as WorkoutMealPlan;
+    if (existingPlan) {
+      // Update existing plan
+      if (!(await this.repository.updateContent(existingPlan.id, planData.exercises, planData.meals))) {
+        throw new AppError('Failed to update workout meal plan', 500, 'UPDATE_FAILED');
       }
-    } finally {
-      connection.release();
+
+      logger.info(`Workout meal plan updated for user ${userId}, day ${planData.day} (${planDate})`);
+      return await this.findById(existingPlan.id) as WorkoutMealPlan;
     }
+
+    // Create new plan
+    const planId = await this.repository.create({
+      userId,
+      day: planData.day,
+      planDate,
+      weekStart,
+      exercises: planData.exercises,
+      meals: planData.meals,
+    });
+
+    logger.info(`Workout meal plan created for user ${userId}, day ${planData.day} (${planDate})`);
+    return await this.findById(planId) as WorkoutMealPlan;
   }
 
   /**
-   * Find workout meal plan by ID
+   * Create the dated plans of a week from the user's weekday templates.
+   * Days that already have a plan for that week are left untouched.
    */
-  static async findById(id: number): Promise<WorkoutMealPlan | null> {
-    const connection = await pool.getConnection();
-    
-    try {
-      const [rows] = await connection.execute<RowDataPacket[]>(
-        `SELECT * FROM workoutmealplans WHERE id = ?`,
-        [id]
-      );
-
-      if (rows.length === 0) {
-        return null;
-      }
+  static async instantiateWeek(userId: number, weekStart: string): Promise<number> {
+    const created = await this.repository.instantiateWeek(userId, weekStart);
 
-      return this.mapRowToWorkoutMealPlan(rows[0]);
-    } finally {
-      connection.release();
+    if (created > 0) {
+      logger.info(`Instantiated ${created} plans for user ${userId}, week of ${weekStart}`);
     }
+
+    return created;
+  }
+
+  /**
+   * Find workout meal plan by ID
+   */
+  static async findById(id: number): Promise<WorkoutMealPlan | null> {
+    return this.repository.findById(id);
   }
 
   /**
-   * Find workout meal plan by user and day
+   * Find workout meal plan by user and day of the current week
    */
   static async findByUserAndDay(userId: number, day: string): Promise<WorkoutMealPlan | null> {
-    const connection = await pool.getConnection();
-    
-    try {
-      const [rows] = await connection.execute<RowDataPacket[]>(
-        `SELECT * FROM workoutmealplans WHERE user_id = ? AND day = ?`,
-        [userId, day]
-      );
-
-      if (rows.length === 0) {
-        return null;
-      }
+    const weekStart = DateUtils.getCurrentWeekStart();
+    await this.instantiateWeek(userId, weekStart);
 
-      return this.mapRowToWorkoutMealPlan(rows[0]);
-    } finally {
-      connection.release();
-    }
+    return this.findByUserAndDate(userId, DateUtils.getDateForDay(weekStart, day));
+  }
+
+  /**
+   * Find workout meal plan by user and calendar date (YYYY-MM-DD)
+   */
+  static async findByUserAndDate(userId: number, planDate: string): Promise<WorkoutMealPlan | null> {
+    return this.repository.findByUserAndDate(userId, planDate);
   }
 
   /**
-   * Get all workout meal plans for a user
+   * Get all workout meal plans of the current week for a user
    */
   static async findByUserId(userId: number): Promise<WorkoutMealPlan[]> {
-    const connection = await pool.getConnection();
-    
-    try {
-      const [rows] = await connection.execute<RowDataPacket[]>(
-        `SELECT * FROM workoutmealplans WHERE user_id = ? ORDER BY 
-         CASE day 
-           WHEN 'Monday' THEN 1
-           WHEN 'Tuesday' THEN 2
-           WHEN 'Wednesday' THEN 3
-           WHEN 'Thursday' THEN 4
-           WHEN 'Friday' THEN 5
-           WHEN 'Saturday' THEN 6
-           WHEN 'Sunday' THEN 7
-         END`,
-        [userId]
-      );
-
-      return rows.map(row => this.mapRowToWorkoutMealPlan(row));
-    } finally {
-      connection.release();
+    const weekStart = DateUtils.getCurrentWeekStart();
+    await this.instantiateWeek(userId, weekStart);
+
+    return this.findByWeek(userId, weekStart);
+  }
+
+  /**
+   * Get the workout meal plans of any week (Monday date) for a user
+   */
+  static async findByWeek(userId: number, weekStart: string): Promise<WorkoutMealPlan[]> {
+    return this.repository.findByWeek(userId, weekStart);
+  }
+
+  /**
+   * Get workout meal plans between two dates (inclusive) for a user
+   */
+  static async findByDateRange(userId: number, fromDate: string, toDate: string): Promise<WorkoutMealPlan[]> {
+    return this.repository.findByDateRange(userId, fromDate, toDate);
+  }
+
+  /**
+   * Get the weeks (Monday dates) that have plans for a user, most recent first
+   */
+  static async findWeekStarts(userId: number, limit: number = 52): Promise<string[]> {
+    return this.repository.findWeekStarts(userId, limit);
+  }
+
+  /**
+   * Get the weekday templates for a user
+   */
+  static async findTemplatesByUserId(userId: number): Promise<WorkoutMealPlanTemplate[]> {
+    return this.repository.findTemplatesByUserId(userId);
+  }
+
+  /**
+   * Replace the weekday template of a user without touching dated plans
+   */
+  static async saveTemplate(userId: number, day: string, exercises: Exercise[], meals: Meal[]): Promise<void> {
+    await this.repository.saveTemplate(userId, day, exercises, meals);
+  }
+
+  /**
+   * Put an exercise of a current-week day in place of another one, at the same position.
+   * The weekday template only changes when the swap is permanent.
+   */
+  static async replaceExercise(
+    userId: number,
+    day: string,
+    exerciseId: string,
+    replacement: Exercise,
+    permanent: boolean = false
+  ): Promise<WorkoutMealPlan> {
+    const plan = await this.findByUserAndDay(userId, day);
+    if (!plan) {
+      throw new AppError('Workout meal plan not found', 404, 'PLAN_NOT_FOUND');
+    }
+
+    const swap = (exercises: Exercise[]) =>
+      exercises.map(exercise => (exercise.id === exerciseId ? replacement : exercise));
+
+    if (!(await this.repository.updateContent(plan.id, swap(plan.exercises), plan.meals))) {
+      throw new AppError('Failed to update workout meal plan', 500, 'UPDATE_FAILED');
+    }
+
+    if (permanent) {
+      const template = (await this.findTemplatesByUserId(userId)).find(item => item.day === day);
+      if (template) {
+        await this.repository.saveTemplate(userId, day, swap(template.exercises), template.meals);
+      }
     }
+
+    logger.info(`Exercise ${exerciseId} swapped for ${replacement.id} for user ${userId} on ${day}`);
+    return this.refreshDateCompleted(plan.id);
   }
 
   /**
-   * Update completed status for exercises or meals
+   * Update completed status for exercises or meals of the current week
    */
   static async updateCompletedStatus(
     userId: number, 
     day: string, 
     statusUpdate: UpdateCompletedStatusRequest
   ): Promise<WorkoutMealPlan> {
-    const connection = await pool.getConnection();
+    // Get current plan
+    const currentPlan = await this.findByUserAndDay(userId, day);
+    if (!currentPlan) {
+      throw new AppError('Workout meal plan not found', 404, 'PLAN_NOT_FOUND');
+    }
+
+    // Unknown item IDs are ignored, matching the old JSON status map behaviour
+    if (statusUpdate.exercise_id) {
+      await this.repository.setItemCompleted(currentPlan.id, 'exercises', statusUpdate.exercise_id, statusUpdate.completed);
+    }
     
-    try {
-      // Get current plan
-      const currentPlan = await this.findByUserAndDay(userId, day);
-      if (!currentPlan) {
-        throw new AppError('Workout meal plan not found', 404, 'PLAN_NOT_FOUND');
+    if (statusUpdate.meal_id) {
+      const meal = currentPlan.meals.find(planned => planned.id === statusUpdate.meal_id);
+      if (meal && statusUpdate.completed) {
+        await this.repository.setMealConsumption(currentPlan.id, meal.id, this.resolveMealConsumption(meal, statusUpdate));
+      } else {
+        await this.repository.setItemCompleted(currentPlan.id, 'meals', statusUpdate.meal_id, statusUpdate.completed);
       }
+    }
 
-      // Update completed status
-      const updatedStatus = { ...currentPlan.completed_status };
-      
-      if (statusUpdate.exercise_id) {
-        updatedStatus.exercises[statusUpdate.exercise_id] = statusUpdate.completed;
-      }
-      
-      if (statusUpdate.meal_id) {
-        updatedStatus.meals[statusUpdate.meal_id] = statusUpdate.completed;
-      }
+    const updatedPlan = await this.refreshDateCompleted(currentPlan.id);
 
-      // Check if all items are completed
-      const allExercisesCompleted = currentPlan.exercises.every(ex => updatedStatus.exercises[ex.id]);
-      const allMealsCompleted = currentPlan.meals.every(meal => updatedStatus.meals[meal.id]);
-      
-      if (allExercisesCompleted && allMealsCompleted) {
-        updatedStatus.date_completed = new Date();
-      } else {
-        updatedStatus.date_completed = undefined;
-      }
+    logger.info(`Completed status updated for user ${userId}, day ${day}`);
+    return updatedPlan;
+  }
 
-      const completedStatusJson = JSON.stringify(updatedStatus);
+  /**
+   * Clear the completion of every exercise or meal of a current-week day
+   */
+  static async resetCompletedStatus(userId: number, day: string, kind: PlanItemKind): Promise<WorkoutMealPlan> {
+    const currentPlan = await this.findByUserAndDay(userId, day);
+    if (!currentPlan) {
+      throw new AppError('Workout meal plan not found', 404, 'PLAN_NOT_FOUND');
+    }
 
-      const [result] = await connection.execute<ResultSetHeader>(
-        `UPDATE workoutmealplans SET completed_status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-        [completedStatusJson, currentPlan.id]
-      );
+    await this.repository.clearCompleted(currentPlan.id, kind);
+    return this.refreshDateCompleted(currentPlan.id);
+  }
 
-      if (result.affectedRows === 0) {
-        throw new AppError('Failed to update completed status', 500, 'UPDATE_FAILED');
-      }
+  /**
+   * Add a meal to a day of the current week
+   */
+  static async addMeal(userId: number, day: string, meal: Meal): Promise<WorkoutMealPlan> {
+    const plan = await this.findByUserAndDay(userId, day);
+    if (!plan) {
+      throw new AppError('Meal plan not found for this day', 404, 'PLAN_NOT_FOUND');
+    }
+
+    await this.repository.addMeal(plan.id, meal);
+    return this.syncTemplate(plan.id);
+  }
+
+  /**
+   * Update a single meal of a day of the current week
+   */
+  static async updateMeal(userId: number, day: string, meal: Meal): Promise<WorkoutMealPlan> {
+    const plan = await this.findByUserAndDay(userId, day);
+    if (!plan) {
+      throw new AppError('Meal plan not found for this day', 404, 'PLAN_NOT_FOUND');
+    }
+
+    if (!(await this.repository.updateMeal(plan.id, meal))) {
+      throw new AppError('Meal not found', 404, 'MEAL_NOT_FOUND');
+    }
+
+    return this.syncTemplate(plan.id);
+  }
 
-      logger.info(`Completed status updated for user ${userId}, day ${day}`);
-      return await this.findById(currentPlan.id) as WorkoutMealPlan;
-    } finally {
-      connection.release();
+  /**
+   * Remove a meal from a day of the current week
+   */
+  static async deleteMeal(userId: number, day: string, mealId: string): Promise<WorkoutMealPlan> {
+    const plan = await this.findByUserAndDay(userId, day);
+    if (!plan) {
+      throw new AppError('Meal plan not found for this day', 404, 'PLAN_NOT_FOUND');
     }
+
+    await this.repository.deleteMeal(plan.id, mealId);
+    return this.syncTemplate(plan.id);
+  }
+
+  /**
+   * Exercise completion per muscle group for a week (current week by default)
+   */
+  static async getMuscleGroupStats(userId: number, weekStart?: string): Promise<MuscleGroupStats[]> {
+    const start = await this.resolveWeek(userId, weekStart);
+    return this.repository.getMuscleGroupStats(userId, start, DateUtils.addDays(start, 6));
+  }
+
+  /**
+   * Planned vs consumed calories and macros per day for a week (current week by default)
+   */
+  static async getDailyNutritionStats(userId: number, weekStart?: string): Promise<DailyNutritionStats[]> {
+    const start = await this.resolveWeek(userId, weekStart);
+    return this.repository.getDailyNutritionStats(userId, start, DateUtils.addDays(start, 6));
   }
 
   /**
-   * Delete workout meal plan
+   * Delete workout meal plan.
+   * Deleting a plan of the current week also removes the weekday template so it is not recreated.
    */
   static async delete(id: number, userId: number): Promise<void> {
-    const connection = await pool.getConnection();
-    
-    try {
-      const [result] = await connection.execute<ResultSetHeader>(
-        `DELETE FROM workoutmealplans WHERE id = ? AND user_id = ?`,
-        [id, userId]
-      );
-
-      if (result.affectedRows === 0) {
-        throw new AppError('Workout meal plan not found', 404, 'PLAN_NOT_FOUND');
-      }
+    const plan = await this.findById(id);
+    if (!plan || plan.user_id !== userId) {
+      throw new AppError('Workout meal plan not found', 404, 'PLAN_NOT_FOUND');
+    }
 
-      logger.info(`Workout meal plan deleted: ${id}`);
-    } finally {
-      connection.release();
+    if (!(await this.repository.delete(id, userId))) {
+      throw new AppError('Workout meal plan not found', 404, 'PLAN_NOT_FOUND');
     }
+
+    if (plan.week_start === DateUtils.getCurrentWeekStart()) {
+      await this.repository.deleteTemplate(userId, plan.day);
+    }
+
+    logger.info(`Workout meal plan deleted: ${id}`);
   }
 
   /**
-   * Get weekly progress for a user
+   * Get weekly progress for a user (current week by default)
    */
-  static async getWeeklyProgress(userId: number): Promise<{
+  static async getWeeklyProgress(userId: number, weekStart?: string): Promise<{
+    weekStart: string;
     totalDays: number;
     completedDays: number;
     completedExercises: number;
@@ -215,298 +307,132 @@ export class WorkoutMealPlanModel {
     totalExercises: number;
     totalMeals: number;
   }> {
-    const connection = await pool.getConnection();
-    
-    try {
-      const plans = await this.findByUserId(userId);
-      
-      let totalExercises = 0;
-      let totalMeals = 0;
-      let completedExercises = 0;
-      let completedMeals = 0;
-      let completedDays = 0;
-
-      plans.forEach(plan => {
-        totalExercises += plan.exercises.length;
-        totalMeals += plan.meals.length;
-
-        // Count completed exercises
-        plan.exercises.forEach(exercise => {
-          if (plan.completed_status.exercises[exercise.id]) {
-            completedExercises++;
-          }
-        });
-
-        // Count completed meals
-        plan.meals.forEach(meal => {
-          if (plan.completed_status.meals[meal.id]) {
-            completedMeals++;
-          }
-        });
-
-        // Check if day is completed
-        if (plan.completed_status.date_completed) {
-          completedDays++;
+    const plans = weekStart ? await this.findByWeek(userId, weekStart) : await this.findByUserId(userId);
+
+    let totalExercises = 0;
+    let totalMeals = 0;
+    let completedExercises = 0;
+    let completedMeals = 0;
+    let completedDays = 0;
+
+    plans.forEach(plan => {
+      const mainExercises = plan.exercises.filter(ex => this.isMainExercise(ex));
+      totalExercises += mainExercises.length;
+      totalMeals += plan.meals.length;
+
+      // Count completed exercises (warm-up and cool-down excluded)
+      mainExercises.forEach(exercise => {
+        if (plan.completed_status.exercises[exercise.id]) {
+          completedExercises++;
         }
       });
 
-      return {
-        totalDays: plans.length,
-        completedDays,
-        completedExercises,
-        completedMeals,
-        totalExercises,
-        totalMeals,
-      };
-    } finally {
-      connection.release();
-    }
+      // Count completed meals
+      plan.meals.forEach(meal => {
+        if (plan.completed_status.meals[meal.id]) {
+          completedMeals++;
+        }
+      });
+
+      // Check if day is completed
+      if (plan.completed_status.date_completed) {
+        completedDays++;
+      }
+    });
+
+    return {
+      weekStart: weekStart || DateUtils.getCurrentWeekStart(),
+      totalDays: plans.length,
+      completedDays,
+      completedExercises,
+      completedMeals,
+      totalExercises,
+      totalMeals,
+    };
   }
 
   /**
    * Get plans by goal type
    */
   static async findByGoal(goal: 'weight_loss' | 'muscle_gain' | 'maintenance'): Promise<WorkoutMealPlan[]> {
-    const connection = await pool.getConnection();
-    
-    try {
-      const [rows] = await connection.execute<RowDataPacket[]>(
-        `SELECT wmp.* FROM workoutmealplans wmp 
-         JOIN users u ON wmp.user_id = u.id 
-         WHERE u.goal = ?
-         ORDER BY wmp.created_at DESC`,
-        [goal]
-      );
-
-      return rows.map(row => this.mapRowToWorkoutMealPlan(row));
-    } finally {
-      connection.release();
-    }
+    return this.repository.findByGoal(goal);
   }
 
   /**
-   * Generate default workout meal plan based on user goal
+   * How much of a meal was eaten: the given portion (all of it by default), or the calorie-weighted
+   * share of the quantities eaten per food when it was checked off food by food
    */
-  static async generateDefaultPlan(userId: number, goal: 'weight_loss' | 'muscle_gain' | 'maintenance'): Promise<void> {
-    const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-    
-    for (const day of days) {
-      const exercises = this.getDefaultExercises(goal, day);
-      const meals = this.getDefaultMeals(goal, day);
-      
-      await this.createOrUpdate(userId, {
-        day: day as any,
-        exercises,
-        meals,
-      });
+  private static resolveMealConsumption(meal: Meal, statusUpdate: UpdateCompletedStatusRequest): MealConsumption {
+    if (!statusUpdate.foods) {
+      return { portion: statusUpdate.portion ?? 1 };
     }
-    
-    logger.info(`Default workout meal plan generated for user ${userId} with goal ${goal}`);
+
+    const foods = statusUpdate.foods;
+    const indices = new Set(foods.map(food => food.index));
+    if (indices.size !== foods.length || foods.some(food => !meal.foods[food.index])) {
+      throw new AppError('Foods must be distinct positions of the meal\'s foods', 400, 'INVALID_FOOD_INDEX');
+    }
+
+    // Share of each food eaten, weighted by its calories (evenly when the foods have none)
+    const share = (food: { index: number; quantity: number }) => {
+      const planned = meal.foods[food.index];
+      return planned.quantity > 0 ? food.quantity / planned.quantity : 1;
+    };
+    const totalCalories = meal.foods.reduce((sum, food) => sum + food.calories, 0);
+    const portion = totalCalories > 0
+      ? foods.reduce((sum, food) => sum + share(food) * meal.foods[food.index].calories, 0) / totalCalories
+      : foods.reduce((sum, food) => sum + share(food), 0) / meal.foods.length;
+
+    return { portion: Math.round(portion * 1000) / 1000, foods };
   }
 
   /**
-   * Get default exercises based on goal and day
+   * Set or clear the plan's completion date after one of its items changed
    */
-  private static getDefaultExercises(goal: string, day: string): Exercise[] {
-    const baseExercises: { [key: string]: Exercise[] } = {
-      'weight_loss': [
-        { id: '1', name: 'Cardio Warm-up', sets: 1, reps: 1, duration: 600, instructions: '10 minutes of light cardio', muscle_group: 'cardiovascular' },
-        { id: '2', name: 'Jumping Jacks', sets: 3, reps: 20, instructions: 'Full body cardio exercise', muscle_group: 'full_body' },
-        { id: '3', name: 'Burpees', sets: 3, reps: 10, instructions: 'High intensity full body exercise', muscle_group: 'full_body' },
-        { id: '4', name: 'Mountain Climbers', sets: 3, reps: 15, instructions: 'Core and cardio exercise', muscle_group: 'core' },
-      ],
-      'muscle_gain': [
-        { id: '1', name: 'Push-ups', sets: 3, reps: 12, instructions: 'Standard push-ups for chest and arms', muscle_group: 'chest' },
-        { id: '2', name: 'Squats', sets: 3, reps: 15, instructions: 'Bodyweight squats for legs', muscle_group: 'legs' },
-        { id: '3', name: 'Pull-ups', sets: 3, reps: 8, instructions: 'Upper body pulling exercise', muscle_group: 'back' },
-        { id: '4', name: 'Planks', sets: 3, reps: 1, duration: 60, instructions: 'Core strengthening exercise', muscle_group: 'core' },
-      ],
-      'maintenance': [
-        { id: '1', name: 'Light Cardio', sets: 1, reps: 1, duration: 900, instructions: '15 minutes of moderate cardio', muscle_group: 'cardiovascular' },
-        { id: '2', name: 'Bodyweight Squats', sets: 2, reps: 12, instructions: 'Maintain leg strength', muscle_group: 'legs' },
-        { id: '3', name: 'Modified Push-ups', sets: 2, reps: 10, instructions: 'Maintain upper body strength', muscle_group: 'chest' },
-        { id: '4', name: 'Stretching', sets: 1, reps: 1, duration: 600, instructions: '10 minutes of full body stretching', muscle_group: 'flexibility' },
-      ],
-    };
+  private static async refreshDateCompleted(planId: number): Promise<WorkoutMealPlan> {
+    const plan = await this.findById(planId) as WorkoutMealPlan;
+
+    // Check if all items are completed; warm-up and cool-down are optional
+    const allExercisesCompleted = plan.exercises
+      .filter(ex => this.isMainExercise(ex))
+      .every(ex => plan.completed_status.exercises[ex.id]);
+    const allMealsCompleted = plan.meals.every(meal => plan.completed_status.meals[meal.id]);
+    const isCompleted = allExercisesCompleted && allMealsCompleted;
+
+    if (isCompleted !== !!plan.completed_status.date_completed) {
+      await this.repository.setDateCompleted(planId, isCompleted ? new Date() : null);
+      return await this.findById(planId) as WorkoutMealPlan;
+    }
 
-    return baseExercises[goal] || baseExercises['maintenance'];
+    return plan;
   }
 
   /**
-   * Get default meals based on goal and day
+   * Copy a current-week plan's items back to its weekday template so future weeks start from it
    */
-  private static getDefaultMeals(goal: string, day: string): Meal[] {
-    const baseMeals: { [key: string]: Meal[] } = {
-      'weight_loss': [
-        {
-          id: '1',
-          name: 'Healthy Breakfast',
-          type: 'breakfast',
-          calories: 300,
-          protein: 20,
-          carbs: 30,
-          fat: 10,
-          foods: [
-            { name: 'Oatmeal', quantity: 50, unit: 'g', calories: 150 },
-            { name: 'Berries', quantity: 100, unit: 'g', calories: 50 },
-            { name: 'Greek Yogurt', quantity: 100, unit: 'g', calories: 100 },
-          ],
-        },
-        {
-          id: '2',
-          name: 'Light Lunch',
-          type: 'lunch',
-          calories: 400,
-          protein: 25,
-          carbs: 35,
-          fat: 15,
-          foods: [
-            { name: 'Grilled Chicken', quantity: 100, unit: 'g', calories: 200 },
-            { name: 'Mixed Salad', quantity: 150, unit: 'g', calories: 50 },
-            { name: 'Quinoa', quantity: 50, unit: 'g', calories: 150 },
-          ],
-        },
-        {
-          id: '3',
-          name: 'Lean Dinner',
-          type: 'dinner',
-          calories: 350,
-          protein: 30,
-          carbs: 25,
-          fat: 12,
-          foods: [
-            { name: 'Grilled Fish', quantity: 120, unit: 'g', calories: 200 },
-            { name: 'Steamed Vegetables', quantity: 200, unit: 'g', calories: 80 },
-            { name: 'Brown Rice', quantity: 40, unit: 'g', calories: 70 },
-          ],
-        },
-      ],
-      'muscle_gain': [
-        {
-          id: '1',
-          name: 'Protein-Rich Breakfast',
-          type: 'breakfast',
-          calories: 500,
-          protein: 35,
-          carbs: 45,
-          fat: 18,
-          foods: [
-            { name: 'Eggs', quantity: 3, unit: 'pieces', calories: 210 },
-            { name: 'Whole Grain Toast', quantity: 2, unit: 'slices', calories: 160 },
-            { name: 'Avocado', quantity: 50, unit: 'g', calories: 80 },
-            { name: 'Protein Shake', quantity: 1, unit: 'scoop', calories: 50 },
-          ],
-        },
-        {
-          id: '2',
-          name: 'Power Lunch',
-          type: 'lunch',
-          calories: 600,
-          protein: 40,
-          carbs: 50,
-          fat: 20,
-          foods: [
-            { name: 'Lean Beef', quantity: 150, unit: 'g', calories: 300 },
-            { name: 'Sweet Potato', quantity: 200, unit: 'g', calories: 180 },
-            { name: 'Green Vegetables', quantity: 150, unit: 'g', calories: 60 },
-            { name: 'Nuts', quantity: 20, unit: 'g', calories: 60 },
-          ],
-        },
-        {
-          id: '3',
-          name: 'Recovery Dinner',
-          type: 'dinner',
-          calories: 550,
-          protein: 35,
-          carbs: 40,
-          fat: 22,
-          foods: [
-            { name: 'Salmon', quantity: 150, unit: 'g', calories: 250 },
-            { name: 'Quinoa', quantity: 80, unit: 'g', calories: 120 },
-            { name: 'Mixed Vegetables', quantity: 200, unit: 'g', calories: 80 },
-            { name: 'Olive Oil', quantity: 10, unit: 'ml', calories: 100 },
-          ],
-        },
-      ],
-      'maintenance': [
-        {
-          id: '1',
-          name: 'Balanced Breakfast',
-          type: 'breakfast',
-          calories: 400,
-          protein: 25,
-          carbs: 40,
-          fat: 15,
-          foods: [
-            { name: 'Whole Grain Cereal', quantity: 60, unit: 'g', calories: 200 },
-            { name: 'Milk', quantity: 200, unit: 'ml', calories: 120 },
-            { name: 'Banana', quantity: 1, unit: 'piece', calories: 80 },
-          ],
-        },
-        {
-          id: '2',
-          name: 'Moderate Lunch',
-          type: 'lunch',
-          calories: 450,
-          protein: 28,
-          carbs: 42,
-          fat: 16,
-          foods: [
-            { name: 'Grilled Chicken', quantity: 100, unit: 'g', calories: 200 },
-            { name: 'Brown Rice', quantity: 60, unit: 'g', calories: 120 },
-            { name: 'Vegetables', quantity: 150, unit: 'g', calories: 60 },
-            { name: 'Olive Oil', quantity: 8, unit: 'ml', calories: 70 },
-          ],
-        },
-        {
-          id: '3',
-          name: 'Balanced Dinner',
-          type: 'dinner',
-          calories: 400,
-          protein: 25,
-          carbs: 35,
-          fat: 18,
-          foods: [
-            { name: 'Fish', quantity: 120, unit: 'g', calories: 180 },
-            { name: 'Pasta', quantity: 60, unit: 'g', calories: 120 },
-            { name: 'Salad', quantity: 100, unit: 'g', calories: 30 },
-            { name: 'Dressing', quantity: 15, unit: 'ml', calories: 70 },
-          ],
-        },
-      ],
-    };
-
-    return baseMeals[goal] || baseMeals['maintenance'];
+  private static async syncTemplate(planId: number): Promise<WorkoutMealPlan> {
+    const plan = await this.findById(planId) as WorkoutMealPlan;
+    await this.repository.saveTemplate(plan.user_id, plan.day, plan.exercises, plan.meals);
+    return plan;
   }
 
   /**
-   * Map database row to WorkoutMealPlan object
+   * Monday of the requested week, making sure the current week is instantiated
    */
-  private static mapRowToWorkoutMealPlan(row: RowDataPacket): WorkoutMealPlan {
-    // Helper function to safely parse JSON or return the object if already parsed
-    const safeJsonParse = (value: any, defaultValue: any) => {
-      if (typeof value === 'string') {
-        try {
-          return JSON.parse(value);
-        } catch (error) {
-          // Silently return default value for invalid JSON
-          return defaultValue;
-        }
-      } else if (typeof value === 'object' && value !== null) {
-        return value;
-      }
-      return defaultValue;
-    };
+  private static async resolveWeek(userId: number, weekStart?: string): Promise<string> {
+    if (weekStart) {
+      return weekStart;
+    }
 
-    return {
-      id: row.id,
-      user_id: row.user_id,
-      day: row.day,
-      exercises: safeJsonParse(row.exercises, []),
-      meals: safeJsonParse(row.meals, []),
-      completed_status: safeJsonParse(row.completed_status, { exercises: {}, meals: {} }),
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-    };
+    const currentWeekStart = DateUtils.getCurrentWeekStart();
+    await this.instantiateWeek(userId, currentWeekStart);
+    return currentWeekStart;
+  }
+
+  /**
+   * Check if an exercise is part of the working sets (warm-up and cool-down are optional)
+   */
+  private static isMainExercise(exercise: Exercise): boolean {
+    return (exercise.section || 'main') === 'main';
   }
-}
\ No newline at end of file
+}
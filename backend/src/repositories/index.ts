@@ -0,0 +1,92 @@
+import { config } from '../config/app';
+import { Storage, StorageDriver } from '../types';
+import { MySqlUserRepository } from './mysql/UserRepository';
+import { MySqlWorkoutMealPlanRepository } from './mysql/WorkoutMealPlanRepository';
+import { MySqlExerciseSetLogRepository } from './mysql/ExerciseSetLogRepository';
+import { MySqlWeeklyArchiveRepository } from './mysql/WeeklyArchiveRepository';
+import { MySqlWeekRolloverRepository } from './mysql/WeekRolloverRepository';
+import { MySqlExerciseCatalogRepository } from './mysql/ExerciseCatalogRepository';
+import { MySqlBodyMeasurementRepository } from './mysql/BodyMeasurementRepository';
+import { MySqlGoalTargetRepository } from './mysql/GoalTargetRepository';
+import { MySqlCalorieAdjustmentRepository } from './mysql/CalorieAdjustmentRepository';
+import { MySqlFoodLogRepository } from './mysql/FoodLogRepository';
+import { MySqlFoodRepository } from './mysql/FoodRepository';
+import { MySqlUsdaCacheRepository } from './mysql/UsdaCacheRepository';
+import { MemoryStore } from './memory/store';
+import { MemoryUserRepository } from './memory/UserRepository';
+import { MemoryWorkoutMealPlanRepository } from './memory/WorkoutMealPlanRepository';
+import { MemoryExerciseSetLogRepository } from './memory/ExerciseSetLogRepository';
+import { MemoryWeeklyArchiveRepository } from './memory/WeeklyArchiveRepository';
+import { MemoryWeekRolloverRepository } from './memory/WeekRolloverRepository';
+import { MemoryExerciseCatalogRepository } from './memory/ExerciseCatalogRepository';
+import { MemoryBodyMeasurementRepository } from './memory/BodyMeasurementRepository';
+import { MemoryGoalTargetRepository } from './memory/GoalTargetRepository';
+import { MemoryCalorieAdjustmentRepository } from './memory/CalorieAdjustmentRepository';
+import { MemoryFoodLogRepository } from './memory/FoodLogRepository';
+import { MemoryFoodRepository } from './memory/FoodRepository';
+import { MemoryUsdaCacheRepository } from './memory/UsdaCacheRepository';
+
+let storage: Storage | null = null;
+
+/**
+ * Build the repositories of a storage driver
+ */
+export const createStorage = (driver: StorageDriver): Storage => {
+  switch (driver) {
+    case 'memory': {
+      const store = new MemoryStore();
+      return {
+        driver,
+        users: new MemoryUserRepository(store),
+        plans: new MemoryWorkoutMealPlanRepository(store),
+        setLogs: new MemoryExerciseSetLogRepository(store),
+        weeklyArchives: new MemoryWeeklyArchiveRepository(store),
+        weekRollovers: new MemoryWeekRolloverRepository(store),
+        exercises: new MemoryExerciseCatalogRepository(store),
+        measurements: new MemoryBodyMeasurementRepository(store),
+        goals: new MemoryGoalTargetRepository(store),
+        calorieAdjustments: new MemoryCalorieAdjustmentRepository(store),
+        foodLog: new MemoryFoodLogRepository(store),
+        foods: new MemoryFoodRepository(store),
+        usdaCache: new MemoryUsdaCacheRepository(store),
+      };
+    }
+
+    case 'mysql':
+      return {
+        driver,
+        users: new MySqlUserRepository(),
+        plans: new MySqlWorkoutMealPlanRepository(),
+        setLogs: new MySqlExerciseSetLogRepository(),
+        weeklyArchives: new MySqlWeeklyArchiveRepository(),
+        weekRollovers: new MySqlWeekRolloverRepository(),
+        exercises: new MySqlExerciseCatalogRepository(),
+        measurements: new MySqlBodyMeasurementRepository(),
+        goals: new MySqlGoalTargetRepository(),
+        calorieAdjustments: new MySqlCalorieAdjustmentRepository(),
+        foodLog: new MySqlFoodLogRepository(),
+        foods: new MySqlFoodRepository(),
+        usdaCache: new MySqlUsdaCacheRepository(),
+      };
+
+    default:
+      throw new Error(`Unsupported storage driver: ${driver}`);
+  }
+};
+
+/**
+ * Get the repositories of the configured storage driver
+ */
+export const getStorage = (): Storage => {
+  if (!storage) {
+    storage = createStorage(config.storageDriver);
+  }
+  return storage;
+};
+
+/**
+ * Replace the active storage (e.g. a fresh in-memory store per integration test)
+ */
+export const setStorage = (value: Storage | null): void => {
+  storage = value;
+};
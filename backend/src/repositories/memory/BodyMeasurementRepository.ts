@@ -0,0 +1,50 @@
+import { BodyMeasurement, BodyMeasurementData, BodyMeasurementRepository } from '../../types';
+import { MemoryStore, cloneRow } from './store';
+
+export class MemoryBodyMeasurementRepository implements BodyMeasurementRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Insert a measurement and return its ID
+   */
+  async create(measurement: BodyMeasurementData): Promise<number> {
+    const id = this.store.nextId('measurements');
+    this.store.measurements.push({ ...cloneRow(measurement), id, created_at: new Date() });
+    return id;
+  }
+
+  /**
+   * Find a measurement of a user by ID
+   */
+  async findById(id: number, userId: number): Promise<BodyMeasurement | null> {
+    const measurement = this.store.measurements.find(row => row.id === id && row.user_id === userId);
+    return measurement ? cloneRow(measurement) : null;
+  }
+
+  /**
+   * Find a user's measurements within the date range (inclusive), oldest first
+   */
+  async findByUser(userId: number, fromDate?: string, toDate?: string): Promise<BodyMeasurement[]> {
+    return this.store.measurements
+      .filter(row =>
+        row.user_id === userId &&
+        (!fromDate || row.measured_on >= fromDate) &&
+        (!toDate || row.measured_on <= toDate)
+      )
+      .sort((a, b) => a.measured_on.localeCompare(b.measured_on) || a.id - b.id)
+      .map(row => cloneRow(row));
+  }
+
+  /**
+   * Delete a measurement of a user
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const index = this.store.measurements.findIndex(row => row.id === id && row.user_id === userId);
+    if (index === -1) {
+      return false;
+    }
+
+    this.store.measurements.splice(index, 1);
+    return true;
+  }
+}
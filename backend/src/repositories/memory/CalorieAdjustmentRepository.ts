@@ -0,0 +1,55 @@
+import { CalorieAdjustment, CalorieAdjustmentData, CalorieAdjustmentRepository } from '../../types';
+import { MemoryStore, cloneRow } from './store';
+
+export class MemoryCalorieAdjustmentRepository implements CalorieAdjustmentRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Insert an adjustment and return its ID
+   */
+  async create(adjustment: CalorieAdjustmentData): Promise<number> {
+    if (this.store.calorieAdjustments.some(row =>
+      row.user_id === adjustment.user_id && row.week_start === adjustment.week_start
+    )) {
+      throw new Error(`Duplicate calorie adjustment for user ${adjustment.user_id} week ${adjustment.week_start}`);
+    }
+
+    const id = this.store.nextId('calorieAdjustments');
+    this.store.calorieAdjustments.push({ ...cloneRow(adjustment), id, created_at: new Date() });
+    return id;
+  }
+
+  /**
+   * Find the adjustment of a user for a week
+   */
+  async findByWeek(userId: number, weekStart: string): Promise<CalorieAdjustment | null> {
+    const adjustment = this.store.calorieAdjustments.find(row =>
+      row.user_id === userId && row.week_start === weekStart
+    );
+    return adjustment ? cloneRow(adjustment) : null;
+  }
+
+  /**
+   * Find a user's adjustments, latest week first
+   */
+  async findByUser(userId: number, limit?: number): Promise<CalorieAdjustment[]> {
+    const adjustments = this.store.calorieAdjustments
+      .filter(row => row.user_id === userId)
+      .sort((a, b) => b.week_start.localeCompare(a.week_start));
+
+    return (limit ? adjustments.slice(0, limit) : adjustments).map(row => cloneRow(row));
+  }
+
+  /**
+   * Update the given fields of an adjustment
+   */
+  async update(id: number, userId: number, fields: Partial<CalorieAdjustmentData>): Promise<boolean> {
+    const adjustment = this.store.calorieAdjustments.find(row => row.id === id && row.user_id === userId);
+    if (!adjustment) {
+      return false;
+    }
+
+    Object.assign(adjustment, cloneRow(fields));
+    return true;
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  CatalogExercise,
+  CatalogExerciseData,
+  CatalogExerciseFilters,
+  ExerciseCatalogRepository,
+} from '../../types';
+import { AppError } from '../../middleware/errorHandler';
+import { MemoryStore, cloneRow } from './store';
+
+export class MemoryExerciseCatalogRepository implements ExerciseCatalogRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Insert a catalog exercise and return its ID
+   */
+  async create(exercise: CatalogExerciseData): Promise<number> {
+    this.assertSlugAvailable(exercise.slug);
+
+    const now = new Date();
+    const id = this.store.nextId('exercises');
+    this.store.exercises.push({ ...cloneRow(exercise), id, created_at: now, updated_at: now });
+    return id;
+  }
+
+  /**
+   * Find catalog exercise by ID
+   */
+  async findById(id: number): Promise<CatalogExercise | null> {
+    const exercise = this.store.exercises.find(row => row.id === id);
+    return exercise ? cloneRow(exercise) : null;
+  }
+
+  /**
+   * Find catalog exercises by ID
+   */
+  async findByIds(ids: number[]): Promise<CatalogExercise[]> {
+    return this.store.exercises.filter(row => ids.includes(row.id)).map(row => cloneRow(row));
+  }
+
+  /**
+   * Find catalog exercises by slug
+   */
+  async findBySlugs(slugs: string[]): Promise<CatalogExercise[]> {
+    return this.store.exercises.filter(row => slugs.includes(row.slug)).map(row => cloneRow(row));
+  }
+
+  /**
+   * Get a page of catalog exercises matching the filters, by name
+   */
+  async findAll(
+    filters: CatalogExerciseFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ exercises: CatalogExercise[]; total: number }> {
+    const search = filters.search?.toLowerCase();
+
+    const matches = this.store.exercises
+      .filter(row =>
+        (!search ||
+          row.name.toLowerCase().includes(search) ||
+          (row.instructions || '').toLowerCase().includes(search)) &&
+        (!filters.muscle ||
+          row.primary_muscle === filters.muscle ||
+          row.secondary_muscles.includes(filters.muscle)) &&
+        (!filters.equipment ||
+          (filters.equipment === 'none' ? row.equipment.length === 0 : row.equipment.includes(filters.equipment))) &&
+        (!filters.difficulty || row.difficulty === filters.difficulty)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      exercises: matches.slice(offset, offset + limit).map(row => cloneRow(row)),
+      total: matches.length,
+    };
+  }
+
+  /**
+   * Find catalog exercises working any of the muscles, as primary or secondary
+   */
+  async findByMuscles(muscles: string[]): Promise<CatalogExercise[]> {
+    return this.store.exercises
+      .filter(row =>
+        muscles.includes(row.primary_muscle) ||
+        row.secondary_muscles.some(muscle => muscles.includes(muscle))
+      )
+      .map(row => cloneRow(row));
+  }
+
+  /**
+   * Update the given fields of a catalog exercise
+   */
+  async update(id: number, fields: Partial<CatalogExerciseData>): Promise<boolean> {
+    const exercise = this.store.exercises.find(row => row.id === id);
+    const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+    if (!exercise || entries.length === 0) {
+      return false;
+    }
+
+    if (fields.slug && fields.slug !== exercise.slug) {
+      this.assertSlugAvailable(fields.slug);
+    }
+
+    Object.assign(exercise, cloneRow(Object.fromEntries(entries)), { updated_at: new Date() });
+    return true;
+  }
+
+  /**
+   * Delete catalog exercise and unlink the plan exercises created from it
+   */
+  async delete(id: number): Promise<boolean> {
+    const index = this.store.exercises.findIndex(row => row.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    this.store.exercises.splice(index, 1);
+    this.store.plans.forEach(plan => {
+      plan.exercises.forEach(exercise => {
+        if (exercise.catalog_id === id) {
+          delete exercise.catalog_id;
+        }
+      });
+    });
+    return true;
+  }
+
+  /**
+   * Reject a slug that is already in the catalog, like the unique key does
+   */
+  private assertSlugAvailable(slug: string): void {
+    if (this.store.exercises.some(row => row.slug === slug)) {
+      throw new AppError('An exercise with this slug already exists', 409, 'EXERCISE_EXISTS');
+    }
+  }
+}
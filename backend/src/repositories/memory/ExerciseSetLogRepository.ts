@@ -0,0 +1,93 @@
+import { ExerciseSetLog, ExerciseSetLogData, ExerciseSetLogRepository, LogExerciseSetRequest } from '../../types';
+import { MemoryStore, MemorySetLog, cloneRow } from './store';
+
+export class MemoryExerciseSetLogRepository implements ExerciseSetLogRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Insert a set log and return it
+   */
+  async create(set: ExerciseSetLogData): Promise<ExerciseSetLog> {
+    const row = { ...cloneRow(set), id: this.store.nextId('setLogs'), logged_at: new Date() };
+    this.store.setLogs.push(row);
+    return this.withPlanDate(row);
+  }
+
+  /**
+   * Insert several set logs and return them in insertion order
+   */
+  async createMany(sets: ExerciseSetLogData[]): Promise<ExerciseSetLog[]> {
+    const logged: ExerciseSetLog[] = [];
+    for (const set of sets) {
+      logged.push(await this.create(set));
+    }
+    return logged;
+  }
+
+  /**
+   * Find a set log of a user by ID
+   */
+  async findById(id: number, userId: number): Promise<ExerciseSetLog | null> {
+    const row = this.store.setLogs.find(set => set.id === id && set.user_id === userId);
+    return row ? this.withPlanDate(row) : null;
+  }
+
+  /**
+   * Find the sets logged on a plan, grouped by exercise in set order
+   */
+  async findByPlan(planId: number, exerciseId?: string): Promise<ExerciseSetLog[]> {
+    return this.store.setLogs
+      .filter(set => set.plan_id === planId && (exerciseId === undefined || set.exercise_id === exerciseId))
+      .sort((a, b) => a.exercise_id.localeCompare(b.exercise_id) || a.set_number - b.set_number || a.id - b.id)
+      .map(row => this.withPlanDate(row));
+  }
+
+  /**
+   * Find a user's sets of an exercise (matched by name) between two plan dates, oldest first
+   */
+  async findByExerciseName(userId: number, exerciseName: string, fromDate: string, toDate: string): Promise<ExerciseSetLog[]> {
+    return this.store.setLogs
+      .filter(set => set.user_id === userId && set.exercise_name === exerciseName)
+      .map(row => this.withPlanDate(row))
+      .filter(set => set.plan_date >= fromDate && set.plan_date <= toDate)
+      .sort((a, b) => a.plan_date.localeCompare(b.plan_date) || a.set_number - b.set_number || a.id - b.id);
+  }
+
+  /**
+   * Update the given fields of a set log (null clears one) and return it
+   */
+  async update(id: number, userId: number, fields: Partial<LogExerciseSetRequest>): Promise<ExerciseSetLog | null> {
+    const row = this.store.setLogs.find(set => set.id === id && set.user_id === userId);
+    if (!row) {
+      return null;
+    }
+
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .forEach(([key, value]) => {
+        (row as any)[key] = value === null ? undefined : value;
+      });
+    return this.withPlanDate(row);
+  }
+
+  /**
+   * Delete a set log of a user
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const index = this.store.setLogs.findIndex(set => set.id === id && set.user_id === userId);
+    if (index === -1) {
+      return false;
+    }
+
+    this.store.setLogs.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Copy of a set log with the date of its plan
+   */
+  private withPlanDate(row: MemorySetLog): ExerciseSetLog {
+    const plan = this.store.plans.find(candidate => candidate.id === row.plan_id);
+    return { ...cloneRow(row), plan_date: plan?.plan_date ?? '' };
+  }
+}
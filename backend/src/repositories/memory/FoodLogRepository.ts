@@ -0,0 +1,70 @@
+import { FoodLogEntry, FoodLogEntryData, FoodLogRepository } from '../../types';
+import { MemoryStore, cloneRow } from './store';
+
+export class MemoryFoodLogRepository implements FoodLogRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Insert a diary entry and return its ID
+   */
+  async create(entry: FoodLogEntryData): Promise<number> {
+    const id = this.store.nextId('foodLog');
+    this.store.foodLog.push({ ...cloneRow(entry), id, created_at: new Date() });
+    return id;
+  }
+
+  /**
+   * Find a diary entry of a user by ID
+   */
+  async findById(id: number, userId: number): Promise<FoodLogEntry | null> {
+    const entry = this.store.foodLog.find(row => row.id === id && row.user_id === userId);
+    return entry ? cloneRow(entry) : null;
+  }
+
+  /**
+   * Find a user's diary entries within the date range (inclusive), in the order they were logged
+   */
+  async findByUser(userId: number, fromDate: string, toDate: string): Promise<FoodLogEntry[]> {
+    return this.store.foodLog
+      .filter(row => row.user_id === userId && row.logged_on >= fromDate && row.logged_on <= toDate)
+      .sort((a, b) => a.logged_on.localeCompare(b.logged_on) || a.id - b.id)
+      .map(row => cloneRow(row));
+  }
+
+  /**
+   * Update the given fields of a diary entry
+   */
+  async update(id: number, userId: number, fields: Partial<FoodLogEntryData>): Promise<boolean> {
+    const entry = this.store.foodLog.find(row => row.id === id && row.user_id === userId);
+    if (!entry) {
+      return false;
+    }
+
+    Object.assign(entry, cloneRow(fields));
+    return true;
+  }
+
+  /**
+   * Delete a diary entry of a user
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const index = this.store.foodLog.findIndex(row => row.id === id && row.user_id === userId);
+    if (index === -1) {
+      return false;
+    }
+
+    this.store.foodLog.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Delete the entries a planned meal logged on a date, returning how many were removed
+   */
+  async deleteByPlanMeal(userId: number, loggedOn: string, planMealId: string): Promise<number> {
+    const before = this.store.foodLog.length;
+    this.store.foodLog = this.store.foodLog.filter(row =>
+      !(row.user_id === userId && row.logged_on === loggedOn && row.plan_meal_id === planMealId)
+    );
+    return before - this.store.foodLog.length;
+  }
+}
@@ -0,0 +1,94 @@
+import { FoodRepository, LocalFood, LocalFoodData, LocalFoodSearchOptions, LocalFoodSearchResult } from '../../types';
+import { USDA_DATA_TYPE_ORDER } from '../../data/usdaNutrients';
+import { MemoryStore, cloneRow } from './store';
+
+export class MemoryFoodRepository implements FoodRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Insert foods or replace the ones already imported, keyed by FDC ID
+   */
+  async upsertMany(foods: LocalFoodData[]): Promise<void> {
+    const now = new Date();
+    foods.forEach(food => {
+      const row = { ...cloneRow(food), imported_at: now };
+      const index = this.store.foods.findIndex(existing => existing.fdc_id === food.fdc_id);
+      if (index >= 0) {
+        this.store.foods[index] = row;
+      } else {
+        this.store.foods.push(row);
+      }
+    });
+  }
+
+  /**
+   * Find a food by FDC ID
+   */
+  async findById(fdcId: number): Promise<LocalFood | null> {
+    const food = this.store.foods.find(row => row.fdc_id === fdcId);
+    return food ? cloneRow(food) : null;
+  }
+
+  /**
+   * Find the foods of the given FDC IDs that were imported
+   */
+  async findByIds(fdcIds: number[]): Promise<LocalFood[]> {
+    return this.store.foods
+      .filter(row => fdcIds.includes(row.fdc_id))
+      .map(row => cloneRow(row));
+  }
+
+  /**
+   * Foods whose description or brand has a word starting with each search term, like the
+   * MySQL full-text search in boolean mode; whole-word matches rank first, then generic foods
+   */
+  async search(query: string, options: LocalFoodSearchOptions): Promise<LocalFoodSearchResult> {
+    const terms = this.tokenize(query);
+    if (terms.length === 0) {
+      return { total: 0, foods: [] };
+    }
+
+    const matches = this.store.foods
+      .filter(food => !options.dataTypes || options.dataTypes.includes(food.data_type))
+      .map(food => {
+        const words = this.tokenize([food.description, food.brand_owner, food.brand_name].filter(Boolean).join(' '));
+        const matched = terms.every(term => words.some(word => word.startsWith(term)));
+        const score = terms.filter(term => words.includes(term)).length;
+        return { food, matched, score };
+      })
+      .filter(({ matched }) => matched)
+      .sort((a, b) =>
+        b.score - a.score ||
+        this.dataTypeRank(a.food.data_type) - this.dataTypeRank(b.food.data_type) ||
+        a.food.description.length - b.food.description.length ||
+        a.food.fdc_id - b.food.fdc_id
+      );
+
+    return {
+      total: matches.length,
+      foods: matches.slice(options.offset, options.offset + options.limit).map(({ food }) => cloneRow(food)),
+    };
+  }
+
+  /**
+   * Number of imported foods
+   */
+  async count(): Promise<number> {
+    return this.store.foods.length;
+  }
+
+  /**
+   * Lowercase words of a text
+   */
+  private tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  }
+
+  /**
+   * Position of a data type in the listing order, unknown types last
+   */
+  private dataTypeRank(dataType: string): number {
+    const rank = USDA_DATA_TYPE_ORDER.indexOf(dataType);
+    return rank >= 0 ? rank : USDA_DATA_TYPE_ORDER.length;
+  }
+}
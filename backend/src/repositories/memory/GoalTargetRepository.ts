@@ -0,0 +1,61 @@
+import { GoalTarget, GoalTargetData, GoalTargetRepository, GoalTargetStatus } from '../../types';
+import { MemoryStore, cloneRow } from './store';
+
+export class MemoryGoalTargetRepository implements GoalTargetRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Insert a goal and return its ID
+   */
+  async create(goal: GoalTargetData): Promise<number> {
+    const now = new Date();
+    const id = this.store.nextId('goals');
+    this.store.goals.push({ ...cloneRow(goal), id, created_at: now, updated_at: now });
+    return id;
+  }
+
+  /**
+   * Find a goal of a user by ID
+   */
+  async findById(id: number, userId: number): Promise<GoalTarget | null> {
+    const goal = this.store.goals.find(row => row.id === id && row.user_id === userId);
+    return goal ? cloneRow(goal) : null;
+  }
+
+  /**
+   * Find a user's goals (optionally of one status), by target date
+   */
+  async findByUser(userId: number, status?: GoalTargetStatus): Promise<GoalTarget[]> {
+    return this.store.goals
+      .filter(row => row.user_id === userId && (!status || row.status === status))
+      .sort((a, b) => a.target_date.localeCompare(b.target_date) || a.id - b.id)
+      .map(row => cloneRow(row));
+  }
+
+  /**
+   * Update the given fields of a goal
+   */
+  async update(id: number, userId: number, fields: Partial<GoalTargetData>): Promise<boolean> {
+    const goal = this.store.goals.find(row => row.id === id && row.user_id === userId);
+    const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+    if (!goal || entries.length === 0) {
+      return false;
+    }
+
+    Object.assign(goal, cloneRow(Object.fromEntries(entries)), { updated_at: new Date() });
+    return true;
+  }
+
+  /**
+   * Delete a goal of a user
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const index = this.store.goals.findIndex(row => row.id === id && row.user_id === userId);
+    if (index === -1) {
+      return false;
+    }
+
+    this.store.goals.splice(index, 1);
+    return true;
+  }
+}
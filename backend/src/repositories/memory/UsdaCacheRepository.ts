@@ -0,0 +1,35 @@
+import { UsdaCacheEntry, UsdaCacheRepository } from '../../types';
+import { MemoryStore, cloneRow } from './store';
+
+export class MemoryUsdaCacheRepository implements UsdaCacheRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Find a cached response by key
+   */
+  async find(cacheKey: string): Promise<UsdaCacheEntry | null> {
+    const entry = this.store.usdaCache.find(row => row.cache_key === cacheKey);
+    return entry ? cloneRow(entry) : null;
+  }
+
+  /**
+   * Insert a cached response or replace the one with the same key
+   */
+  async save(entry: UsdaCacheEntry): Promise<void> {
+    const index = this.store.usdaCache.findIndex(row => row.cache_key === entry.cache_key);
+    if (index >= 0) {
+      this.store.usdaCache[index] = cloneRow(entry);
+    } else {
+      this.store.usdaCache.push(cloneRow(entry));
+    }
+  }
+
+  /**
+   * Delete the responses expired at the given time, returning how many were removed
+   */
+  async deleteExpired(now: Date): Promise<number> {
+    const before = this.store.usdaCache.length;
+    this.store.usdaCache = this.store.usdaCache.filter(row => row.expires_at > now);
+    return before - this.store.usdaCache.length;
+  }
+}
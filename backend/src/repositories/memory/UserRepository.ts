@@ -0,0 +1,180 @@
+import { User, UserRepository, CreateUserRecord, UserRecordUpdate, UserStatistics } from '../../types';
+import { AppError } from '../../middleware/errorHandler';
+import { MemoryStore, MemoryUser, cloneRow } from './store';
+
+const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
+
+export class MemoryUserRepository implements UserRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Insert a user and return its ID
+   */
+  async create(userData: CreateUserRecord): Promise<number> {
+    const email = userData.email.toLowerCase();
+    if (this.store.users.some(user => user.email === email)) {
+      throw new AppError('Email already exists', 409, 'EMAIL_EXISTS');
+    }
+
+    const id = this.store.nextId('users');
+    this.store.users.push({
+      id,
+      name: userData.name,
+      email,
+      password: userData.password,
+      progression_scheme: 'double_progression',
+      equipment_profile: 'home',
+      training_days_per_week: 3,
+      training_split: 'auto',
+      rest_days: [],
+      session_budgets: {},
+      role: userData.role,
+      created_at: new Date(),
+      reset_token: null,
+      reset_token_expires: null,
+    });
+
+    return id;
+  }
+
+  /**
+   * Find user by ID
+   */
+  async findById(id: number): Promise<User | null> {
+    return this.toUser(this.store.users.find(user => user.id === id));
+  }
+
+  /**
+   * Find user by email
+   */
+  async findByEmail(email: string): Promise<User | null> {
+    return this.toUser(this.store.users.find(user => user.email === email.toLowerCase()));
+  }
+
+  /**
+   * Find user by a reset token that has not expired
+   */
+  async findByResetToken(resetToken: string): Promise<User | null> {
+    const now = Date.now();
+    return this.toUser(this.store.users.find(user =>
+      user.reset_token === resetToken &&
+      user.reset_token_expires !== null &&
+      user.reset_token_expires.getTime() > now
+    ));
+  }
+
+  /**
+   * Update the given fields of a user
+   */
+  async update(id: number, fields: UserRecordUpdate): Promise<boolean> {
+    const user = this.store.users.find(row => row.id === id);
+    const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+    if (!user || entries.length === 0) {
+      return false;
+    }
+
+    if (fields.email) {
+      const email = fields.email.toLowerCase();
+      if (this.store.users.some(row => row.email === email && row.id !== id)) {
+        throw new AppError('Email already exists', 409, 'EMAIL_EXISTS');
+      }
+    }
+
+    Object.assign(user, Object.fromEntries(entries));
+    return true;
+  }
+
+  /**
+   * Set password reset token by email
+   */
+  async setResetToken(email: string, resetToken: string, expiresAt: Date): Promise<boolean> {
+    const user = this.store.users.find(row => row.email === email.toLowerCase());
+    if (!user) {
+      return false;
+    }
+
+    user.reset_token = resetToken;
+    user.reset_token_expires = expiresAt;
+    return true;
+  }
+
+  /**
+   * Delete user and cascade to their plans
+   */
+  async delete(id: number): Promise<boolean> {
+    const index = this.store.users.findIndex(user => user.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    this.store.users.splice(index, 1);
+    this.store.plans = this.store.plans.filter(plan => plan.user_id !== id);
+    this.store.templates = this.store.templates.filter(template => template.user_id !== id);
+    this.store.setLogs = this.store.setLogs.filter(set => set.user_id !== id);
+    this.store.weeklyArchives = this.store.weeklyArchives.filter(archive => archive.userId !== id);
+    this.store.weekRollovers = this.store.weekRollovers.filter(rollover => rollover.user_id !== id);
+    this.store.measurements = this.store.measurements.filter(measurement => measurement.user_id !== id);
+    this.store.goals = this.store.goals.filter(goal => goal.user_id !== id);
+    this.store.calorieAdjustments = this.store.calorieAdjustments.filter(adjustment => adjustment.user_id !== id);
+    this.store.foodLog = this.store.foodLog.filter(entry => entry.user_id !== id);
+    return true;
+  }
+
+  /**
+   * Get a page of users, newest first
+   */
+  async findAll(limit: number, offset: number): Promise<{ users: User[]; total: number }> {
+    const sorted = [...this.store.users].sort((a, b) =>
+      b.created_at.getTime() - a.created_at.getTime() || b.id - a.id
+    );
+
+    return {
+      users: sorted.slice(offset, offset + limit).map(user => this.toUser(user) as User),
+      total: sorted.length,
+    };
+  }
+
+  /**
+   * Check if email exists
+   */
+  async emailExists(email: string, excludeUserId?: number): Promise<boolean> {
+    return this.store.users.some(user =>
+      user.email === email.toLowerCase() && (!excludeUserId || user.id !== excludeUserId)
+    );
+  }
+
+  /**
+   * Get user statistics
+   */
+  async getStatistics(): Promise<UserStatistics> {
+    const countBy = (key: 'role' | 'goal'): { [value: string]: number } =>
+      this.store.users.reduce((counts, user) => {
+        const value = user[key];
+        if (value) {
+          counts[value] = (counts[value] || 0) + 1;
+        }
+        return counts;
+      }, {} as { [value: string]: number });
+
+    const since = Date.now() - THIRTY_DAYS_MS;
+
+    return {
+      totalUsers: this.store.users.length,
+      usersByRole: Object.entries(countBy('role')).map(([role, count]) => ({ role, count })),
+      usersByGoal: Object.entries(countBy('goal')).map(([goal, count]) => ({ goal, count })),
+      recentUsers: this.store.users.filter(user => user.created_at.getTime() >= since).length,
+    };
+  }
+
+  /**
+   * Strip storage-only fields from a stored user
+   */
+  private toUser(row: MemoryUser | undefined): User | null {
+    if (!row) {
+      return null;
+    }
+
+    const { reset_token, reset_token_expires, ...user } = cloneRow(row);
+    return user;
+  }
+}
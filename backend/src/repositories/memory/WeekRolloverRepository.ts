@@ -0,0 +1,113 @@
+import { WeekRollover, WeekRolloverRepository } from '../../types';
+import { MemoryStore, cloneRow } from './store';
+
+export class MemoryWeekRolloverRepository implements WeekRolloverRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Find user weeks before the given week that have plans and are due a rollover, oldest first:
+   * never attempted, or not completed with attempts left and their retry time reached
+   */
+  async findPending(
+    beforeWeekStart: string,
+    maxAttempts: number,
+    now: Date,
+    limit: number
+  ): Promise<{ userId: number; weekStart: string }[]> {
+    const pending = new Map<string, { userId: number; weekStart: string }>();
+    const isDue = (userId: number, weekStart: string): boolean => {
+      const rollover = this.store.weekRollovers.find(row => row.user_id === userId && row.week_start === weekStart);
+      return !rollover || (
+        rollover.status !== 'completed' &&
+        rollover.attempts < maxAttempts &&
+        (!rollover.next_attempt_at || rollover.next_attempt_at <= now)
+      );
+    };
+
+    this.store.plans
+      .filter(plan => plan.week_start < beforeWeekStart && isDue(plan.user_id, plan.week_start))
+      .forEach(plan => pending.set(`${plan.user_id}:${plan.week_start}`, { userId: plan.user_id, weekStart: plan.week_start }));
+
+    return Array.from(pending.values())
+      .sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.userId - b.userId)
+      .slice(0, Math.max(1, Math.floor(limit)));
+  }
+
+  /**
+   * Get (or create) the idempotency record of a user's week rollover and count the attempt
+   */
+  async claim(userId: number, weekStart: string): Promise<WeekRollover> {
+    let rollover = this.store.weekRollovers.find(row => row.user_id === userId && row.week_start === weekStart);
+
+    if (rollover) {
+      rollover.attempts++;
+    } else {
+      rollover = {
+        id: this.store.nextId('weekRollovers'),
+        user_id: userId,
+        week_start: weekStart,
+        status: 'pending',
+        attempts: 1,
+        created_at: new Date(),
+      };
+      this.store.weekRollovers.push(rollover);
+    }
+
+    return cloneRow(rollover);
+  }
+
+  /**
+   * Record that the week was archived
+   */
+  async markArchived(id: number): Promise<void> {
+    this.modify(id, rollover => {
+      rollover.archived_at = new Date();
+    });
+  }
+
+  /**
+   * Claim the intensity adjustment of a rollover; false when it was already claimed
+   */
+  async claimAdjustment(id: number): Promise<boolean> {
+    const rollover = this.store.weekRollovers.find(row => row.id === id);
+    if (!rollover || rollover.adjusted_at) {
+      return false;
+    }
+
+    rollover.adjusted_at = new Date();
+    return true;
+  }
+
+  /**
+   * Mark a rollover as completed
+   */
+  async markCompleted(id: number): Promise<void> {
+    this.modify(id, rollover => {
+      rollover.status = 'completed';
+      rollover.last_error = undefined;
+      rollover.next_attempt_at = undefined;
+      rollover.completed_at = new Date();
+    });
+  }
+
+  /**
+   * Mark a rollover as failed, to be retried from the given time (never when null)
+   */
+  async markFailed(id: number, errorMessage: string, nextAttemptAt: Date | null): Promise<void> {
+    this.modify(id, rollover => {
+      rollover.status = 'failed';
+      rollover.last_error = errorMessage.substring(0, 1000);
+      rollover.next_attempt_at = nextAttemptAt ?? undefined;
+    });
+  }
+
+  /**
+   * Apply a change to a stored rollover, if it exists
+   */
+  private modify(id: number, change: (rollover: WeekRollover) => void): void {
+    const rollover = this.store.weekRollovers.find(row => row.id === id);
+    if (rollover) {
+      change(rollover);
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { WeeklyArchive, WeeklyArchiveData, WeeklyArchiveFilters, WeeklyArchiveRepository } from '../../types';
+import { MemoryStore, cloneRow } from './store';
+
+export class MemoryWeeklyArchiveRepository implements WeeklyArchiveRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Insert the archive of a user's week or replace the existing one
+   */
+  async save(userId: number, archive: WeeklyArchiveData): Promise<void> {
+    const existing = this.store.weeklyArchives.find(row =>
+      row.userId === userId && row.weekStartDate === archive.weekStartDate
+    );
+
+    const row: WeeklyArchive = {
+      ...cloneRow(archive),
+      id: existing?.id ?? this.store.nextId('weeklyArchives'),
+      userId,
+      archivedAt: new Date(),
+    };
+
+    if (existing) {
+      this.store.weeklyArchives[this.store.weeklyArchives.indexOf(existing)] = row;
+    } else {
+      this.store.weeklyArchives.push(row);
+    }
+  }
+
+  /**
+   * Find the archive of a user's week (Monday date)
+   */
+  async findByUserAndWeek(userId: number, weekStart: string, includeDays: boolean): Promise<WeeklyArchive | null> {
+    const archive = this.store.weeklyArchives.find(row => row.userId === userId && row.weekStartDate === weekStart);
+    return archive ? this.toArchive(archive, includeDays) : null;
+  }
+
+  /**
+   * Find a page of a user's archived weeks matching the filters, most recent first
+   */
+  async findByUser(
+    userId: number,
+    filters: WeeklyArchiveFilters,
+    limit: number,
+    offset: number,
+    includeDays: boolean
+  ): Promise<{ archives: WeeklyArchive[]; total: number }> {
+    const matches = this.store.weeklyArchives
+      .filter(row =>
+        row.userId === userId &&
+        (!filters.fromDate || row.weekStartDate >= filters.fromDate) &&
+        (!filters.toDate || row.weekStartDate <= filters.toDate) &&
+        (filters.minCompletion === undefined || row.completionPercentage >= filters.minCompletion) &&
+        (filters.maxCompletion === undefined || row.completionPercentage <= filters.maxCompletion)
+      )
+      .sort((a, b) => b.weekStartDate.localeCompare(a.weekStartDate));
+
+    return {
+      archives: matches.slice(offset, offset + limit).map(row => this.toArchive(row, includeDays)),
+      total: matches.length,
+    };
+  }
+
+  /**
+   * Delete the archive of a user's week
+   */
+  async delete(userId: number, weekStart: string): Promise<boolean> {
+    const index = this.store.weeklyArchives.findIndex(row => row.userId === userId && row.weekStartDate === weekStart);
+    if (index === -1) {
+      return false;
+    }
+
+    this.store.weeklyArchives.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Copy of an archive, with its day snapshot only when requested
+   */
+  private toArchive(row: WeeklyArchive, includeDays: boolean): WeeklyArchive {
+    const { days, ...archive } = cloneRow(row);
+    return includeDays ? { ...archive, days: days || [] } : archive;
+  }
+}
@@ -0,0 +1,82 @@
+import { createStorage } from '..';
+import { Exercise, Meal, Storage } from '../../types';
+
+const squat: Exercise = { id: 'squat', name: 'Squat', sets: 3, reps: 10, muscle_group: 'legs' };
+const breakfast: Meal = {
+  id: 'breakfast',
+  name: 'Oats',
+  type: 'breakfast',
+  calories: 300,
+  protein: 10,
+  carbs: 50,
+  fat: 6,
+  foods: [{ name: 'Oats', quantity: 80, unit: 'g', calories: 300 }],
+};
+
+const WEEK_START = '2026-03-02';
+
+describe('MemoryWorkoutMealPlanRepository', () => {
+  let storage: Storage;
+  let userId: number;
+
+  beforeEach(async () => {
+    storage = createStorage('memory');
+    userId = await storage.users.create({ name: 'Test', email: 'test@gmail.com', password: 'hash', role: 'user' });
+  });
+
+  it('creates the missing plans of a week from the templates, once', async () => {
+    await storage.plans.saveTemplate(userId, 'Monday', [squat], [breakfast]);
+    await storage.plans.saveTemplate(userId, 'Thursday', [], [breakfast]);
+
+    expect(await storage.plans.instantiateWeek(userId, WEEK_START)).toBe(2);
+    expect(await storage.plans.instantiateWeek(userId, WEEK_START)).toBe(0);
+
+    const plans = await storage.plans.findByWeek(userId, WEEK_START);
+    expect(plans.map(plan => [plan.day, plan.plan_date])).toEqual([
+      ['Monday', '2026-03-02'],
+      ['Thursday', '2026-03-05'],
+    ]);
+    expect(plans[0].exercises).toEqual([squat]);
+  });
+
+  it('rejects a second plan on the same date', async () => {
+    const plan = { userId, day: 'Monday', planDate: WEEK_START, weekStart: WEEK_START, exercises: [], meals: [] };
+    await storage.plans.create(plan);
+
+    await expect(storage.plans.create(plan)).rejects.toThrow('Duplicate plan');
+  });
+
+  it('returns copies that do not change the stored rows', async () => {
+    const id = await storage.plans.create({
+      userId, day: 'Monday', planDate: WEEK_START, weekStart: WEEK_START, exercises: [squat], meals: [],
+    });
+
+    const plan = (await storage.plans.findById(id))!;
+    plan.exercises[0].sets = 10;
+
+    expect((await storage.plans.findById(id))!.exercises[0].sets).toBe(3);
+  });
+
+  it('keeps the completion of items that remain when the content changes', async () => {
+    const lunge: Exercise = { ...squat, id: 'lunge', name: 'Lunge' };
+    const id = await storage.plans.create({
+      userId, day: 'Monday', planDate: WEEK_START, weekStart: WEEK_START, exercises: [squat, lunge], meals: [breakfast],
+    });
+    await storage.plans.setItemCompleted(id, 'exercises', 'squat', true);
+    await storage.plans.setItemCompleted(id, 'exercises', 'lunge', true);
+
+    await storage.plans.updateContent(id, [squat], [breakfast]);
+
+    expect((await storage.plans.findById(id))!.completed_status.exercises).toEqual({ squat: true });
+  });
+
+  it('deletes the plans and templates of a deleted user', async () => {
+    await storage.plans.saveTemplate(userId, 'Monday', [squat], []);
+    await storage.plans.instantiateWeek(userId, WEEK_START);
+
+    await storage.users.delete(userId);
+
+    expect(await storage.plans.findByWeek(userId, WEEK_START)).toEqual([]);
+    expect(await storage.plans.findTemplatesByUserId(userId)).toEqual([]);
+  });
+});
@@ -0,0 +1,423 @@
+import {
+  WorkoutMealPlan,
+  WorkoutMealPlanTemplate,
+  WorkoutMealPlanRepository,
+  CreatePlanRecord,
+  Exercise,
+  Meal,
+  MealConsumption,
+  PlanItemKind,
+  MuscleGroupStats,
+  DailyNutritionStats,
+} from '../../types';
+import { DAYS_OF_WEEK, DayOfWeek, DateUtils } from '../../utils/date';
+import { MemoryStore, cloneRow } from './store';
+
+export class MemoryWorkoutMealPlanRepository implements WorkoutMealPlanRepository {
+  constructor(private store: MemoryStore) {}
+
+  /**
+   * Insert or replace the weekday template of a user
+   */
+  async saveTemplate(userId: number, day: string, exercises: Exercise[], meals: Meal[]): Promise<void> {
+    const template = this.store.templates.find(row => row.user_id === userId && row.day === day);
+    const now = new Date();
+
+    if (template) {
+      template.exercises = cloneRow(exercises);
+      template.meals = cloneRow(meals);
+      template.updated_at = now;
+      return;
+    }
+
+    this.store.templates.push({
+      id: this.store.nextId('templates'),
+      user_id: userId,
+      day: day as DayOfWeek,
+      exercises: cloneRow(exercises),
+      meals: cloneRow(meals),
+      created_at: now,
+      updated_at: now,
+    });
+  }
+
+  /**
+   * Delete the weekday template of a user
+   */
+  async deleteTemplate(userId: number, day: string): Promise<void> {
+    this.store.templates = this.store.templates.filter(row => !(row.user_id === userId && row.day === day));
+  }
+
+  /**
+   * Get the weekday templates for a user
+   */
+  async findTemplatesByUserId(userId: number): Promise<WorkoutMealPlanTemplate[]> {
+    return this.store.templates
+      .filter(row => row.user_id === userId)
+      .sort((a, b) => DAYS_OF_WEEK.indexOf(a.day) - DAYS_OF_WEEK.indexOf(b.day))
+      .map(row => cloneRow(row));
+  }
+
+  /**
+   * Create the missing dated plans of a week from the user's templates
+   */
+  async instantiateWeek(userId: number, weekStart: string): Promise<number> {
+    let created = 0;
+
+    for (const template of this.store.templates.filter(row => row.user_id === userId)) {
+      const planDate = DateUtils.getDateForDay(weekStart, template.day);
+      if (this.store.plans.some(plan => plan.user_id === userId && plan.plan_date === planDate)) {
+        continue;
+      }
+
+      await this.create({
+        userId,
+        day: template.day,
+        planDate,
+        weekStart,
+        exercises: template.exercises,
+        meals: template.meals,
+      });
+      created++;
+    }
+
+    return created;
+  }
+
+  /**
+   * Insert a dated plan and return its ID
+   */
+  async create(plan: CreatePlanRecord): Promise<number> {
+    if (this.store.plans.some(row => row.user_id === plan.userId && row.plan_date === plan.planDate)) {
+      throw new Error(`Duplicate plan for user ${plan.userId} on ${plan.planDate}`);
+    }
+
+    const id = this.store.nextId('plans');
+    const now = new Date();
+
+    this.store.plans.push({
+      id,
+      user_id: plan.userId,
+      day: plan.day as DayOfWeek,
+      plan_date: plan.planDate,
+      week_start: plan.weekStart,
+      exercises: cloneRow(plan.exercises),
+      meals: cloneRow(plan.meals),
+      completed_status: { exercises: {}, meals: {} },
+      created_at: now,
+      updated_at: now,
+    });
+
+    return id;
+  }
+
+  /**
+   * Replace the exercises and meals of a plan.
+   * Items are matched by ID so completion of items that remain is kept.
+   */
+  async updateContent(id: number, exercises: Exercise[], meals: Meal[]): Promise<boolean> {
+    const plan = this.store.plans.find(row => row.id === id);
+    if (!plan) {
+      return false;
+    }
+
+    meals.forEach(meal => this.dropStaleFoodConsumption(plan, meal));
+    plan.exercises = cloneRow(exercises);
+    plan.meals = cloneRow(meals);
+    this.pruneCompletion(plan);
+    plan.updated_at = new Date();
+    return true;
+  }
+
+  /**
+   * Mark a single exercise or meal of a plan as done or not done
+   */
+  async setItemCompleted(planId: number, kind: PlanItemKind, itemId: string, completed: boolean): Promise<boolean> {
+    const plan = this.store.plans.find(row => row.id === planId);
+    const items: { id: string }[] = plan ? plan[kind] : [];
+    if (!plan || !items.some(item => item.id === itemId)) {
+      return false;
+    }
+
+    if (completed) {
+      plan.completed_status[kind][itemId] = true;
+    } else {
+      delete plan.completed_status[kind][itemId];
+      if (kind === 'meals') {
+        delete plan.completed_status.meal_consumption?.[itemId];
+      }
+    }
+    plan.updated_at = new Date();
+    return true;
+  }
+
+  /**
+   * Mark a meal of a plan as consumed with how much of it was eaten, or as not consumed (null)
+   */
+  async setMealConsumption(planId: number, mealId: string, consumption: MealConsumption | null): Promise<boolean> {
+    const plan = this.store.plans.find(row => row.id === planId);
+    if (!plan || !plan.meals.some(meal => meal.id === mealId)) {
+      return false;
+    }
+
+    const mealConsumption = plan.completed_status.meal_consumption || {};
+    if (consumption) {
+      plan.completed_status.meals[mealId] = true;
+    } else {
+      delete plan.completed_status.meals[mealId];
+    }
+
+    if (consumption && (consumption.portion !== 1 || consumption.foods)) {
+      mealConsumption[mealId] = cloneRow(consumption);
+    } else {
+      delete mealConsumption[mealId];
+    }
+    plan.completed_status.meal_consumption = mealConsumption;
+    plan.updated_at = new Date();
+    return true;
+  }
+
+  /**
+   * Clear the completion of every exercise or meal of a plan
+   */
+  async clearCompleted(planId: number, kind: PlanItemKind): Promise<void> {
+    const plan = this.store.plans.find(row => row.id === planId);
+    if (plan) {
+      plan.completed_status[kind] = {};
+      if (kind === 'meals') {
+        plan.completed_status.meal_consumption = {};
+      }
+    }
+  }
+
+  /**
+   * Set or clear the date a plan was fully completed
+   */
+  async setDateCompleted(planId: number, dateCompleted: Date | null): Promise<void> {
+    const plan = this.store.plans.find(row => row.id === planId);
+    if (plan) {
+      plan.completed_status.date_completed = dateCompleted || undefined;
+      plan.updated_at = new Date();
+    }
+  }
+
+  /**
+   * Append a meal to a plan
+   */
+  async addMeal(planId: number, meal: Meal): Promise<void> {
+    const plan = this.store.plans.find(row => row.id === planId);
+    if (plan) {
+      plan.meals = [...plan.meals.filter(row => row.id !== meal.id), cloneRow(meal)];
+      plan.updated_at = new Date();
+    }
+  }
+
+  /**
+   * Update a single meal of a plan
+   */
+  async updateMeal(planId: number, meal: Meal): Promise<boolean> {
+    const plan = this.store.plans.find(row => row.id === planId);
+    const index = plan ? plan.meals.findIndex(row => row.id === meal.id) : -1;
+    if (!plan || index === -1) {
+      return false;
+    }
+
+    this.dropStaleFoodConsumption(plan, meal);
+    plan.meals[index] = cloneRow(meal);
+    plan.updated_at = new Date();
+    return true;
+  }
+
+  /**
+   * Remove a single meal from a plan
+   */
+  async deleteMeal(planId: number, mealId: string): Promise<boolean> {
+    const plan = this.store.plans.find(row => row.id === planId);
+    if (!plan || !plan.meals.some(meal => meal.id === mealId)) {
+      return false;
+    }
+
+    plan.meals = plan.meals.filter(meal => meal.id !== mealId);
+    this.pruneCompletion(plan);
+    plan.updated_at = new Date();
+    return true;
+  }
+
+  /**
+   * Find plan by ID
+   */
+  async findById(id: number): Promise<WorkoutMealPlan | null> {
+    const plan = this.store.plans.find(row => row.id === id);
+    return plan ? cloneRow(plan) : null;
+  }
+
+  /**
+   * Find plan by user and calendar date (YYYY-MM-DD)
+   */
+  async findByUserAndDate(userId: number, planDate: string): Promise<WorkoutMealPlan | null> {
+    const plan = this.store.plans.find(row => row.user_id === userId && row.plan_date === planDate);
+    return plan ? cloneRow(plan) : null;
+  }
+
+  /**
+   * Get the plans of a week (Monday date) for a user
+   */
+  async findByWeek(userId: number, weekStart: string): Promise<WorkoutMealPlan[]> {
+    return this.findMany(plan => plan.user_id === userId && plan.week_start === weekStart);
+  }
+
+  /**
+   * Get plans between two dates (inclusive) for a user
+   */
+  async findByDateRange(userId: number, fromDate: string, toDate: string): Promise<WorkoutMealPlan[]> {
+    return this.findMany(plan => plan.user_id === userId && plan.plan_date >= fromDate && plan.plan_date <= toDate);
+  }
+
+  /**
+   * Get the weeks (Monday dates) that have plans for a user, most recent first
+   */
+  async findWeekStarts(userId: number, limit: number): Promise<string[]> {
+    const weekStarts = new Set(
+      this.store.plans.filter(plan => plan.user_id === userId).map(plan => plan.week_start)
+    );
+
+    return [...weekStarts].sort().reverse().slice(0, Math.max(1, Math.floor(limit)));
+  }
+
+  /**
+   * Get plans of every user with the given goal
+   */
+  async findByGoal(goal: 'weight_loss' | 'muscle_gain' | 'maintenance'): Promise<WorkoutMealPlan[]> {
+    const userIds = new Set(this.store.users.filter(user => user.goal === goal).map(user => user.id));
+
+    return this.store.plans
+      .filter(plan => userIds.has(plan.user_id))
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())
+      .map(plan => cloneRow(plan));
+  }
+
+  /**
+   * Delete a plan owned by the user
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const index = this.store.plans.findIndex(plan => plan.id === id && plan.user_id === userId);
+    if (index === -1) {
+      return false;
+    }
+
+    this.store.plans.splice(index, 1);
+    this.store.setLogs = this.store.setLogs.filter(set => set.plan_id !== id);
+    return true;
+  }
+
+  /**
+   * Planned and completed exercise counts per muscle group between two dates (working exercises only)
+   */
+  async getMuscleGroupStats(userId: number, fromDate: string, toDate: string): Promise<MuscleGroupStats[]> {
+    const stats = new Map<string, MuscleGroupStats>();
+
+    this.inRange(userId, fromDate, toDate).forEach(plan => {
+      plan.exercises.filter(exercise => (exercise.section || 'main') === 'main').forEach(exercise => {
+        const muscleGroup = exercise.muscle_group || 'other';
+        const group = stats.get(muscleGroup) || { muscleGroup, total: 0, completed: 0 };
+        group.total++;
+        if (plan.completed_status.exercises[exercise.id]) {
+          group.completed++;
+        }
+        stats.set(muscleGroup, group);
+      });
+    });
+
+    return [...stats.values()];
+  }
+
+  /**
+   * Planned and consumed meals, calories and macros per plan day between two dates
+   */
+  async getDailyNutritionStats(userId: number, fromDate: string, toDate: string): Promise<DailyNutritionStats[]> {
+    return this.inRange(userId, fromDate, toDate).map(plan => {
+      const consumed = plan.meals.filter(meal => plan.completed_status.meals[meal.id]);
+      const sum = (meals: Meal[], key: 'calories' | 'protein' | 'carbs' | 'fat') =>
+        meals.reduce((total, meal) => total + (meal[key] || 0), 0);
+      // Consumed meals count with the share of them that was eaten
+      const eaten = (key: 'calories' | 'protein' | 'carbs' | 'fat') =>
+        consumed.reduce((total, meal) =>
+          total + (meal[key] || 0) * (plan.completed_status.meal_consumption?.[meal.id]?.portion ?? 1), 0);
+
+      return {
+        day: plan.day,
+        planDate: plan.plan_date,
+        totalMeals: plan.meals.length,
+        consumedMeals: consumed.length,
+        totalCalories: sum(plan.meals, 'calories'),
+        consumedCalories: eaten('calories'),
+        totalProtein: sum(plan.meals, 'protein'),
+        consumedProtein: eaten('protein'),
+        totalCarbs: sum(plan.meals, 'carbs'),
+        consumedCarbs: eaten('carbs'),
+        totalFat: sum(plan.meals, 'fat'),
+        consumedFat: eaten('fat'),
+      };
+    });
+  }
+
+  /**
+   * Drop completion flags of items that are no longer in the plan
+   */
+  private pruneCompletion(plan: WorkoutMealPlan): void {
+    const exerciseIds = new Set(plan.exercises.map(exercise => exercise.id));
+    const mealIds = new Set(plan.meals.map(meal => meal.id));
+
+    plan.completed_status.exercises = Object.fromEntries(
+      Object.entries(plan.completed_status.exercises).filter(([id]) => exerciseIds.has(id))
+    );
+    plan.completed_status.meals = Object.fromEntries(
+      Object.entries(plan.completed_status.meals).filter(([id]) => mealIds.has(id))
+    );
+    plan.completed_status.meal_consumption = Object.fromEntries(
+      Object.entries(plan.completed_status.meal_consumption || {}).filter(([id]) => mealIds.has(id))
+    );
+  }
+
+  /**
+   * Drop the per-food check-offs of a meal whose foods are changing, as they point at food positions;
+   * the portion eaten of the meal is kept
+   */
+  private dropStaleFoodConsumption(plan: WorkoutMealPlan, meal: Meal): void {
+    const consumption = plan.completed_status.meal_consumption?.[meal.id];
+    const current = plan.meals.find(row => row.id === meal.id);
+    if (!consumption?.foods || !current) {
+      return;
+    }
+
+    const foods = meal.foods || [];
+    const foodsChanged = current.foods.length !== foods.length || current.foods.some((food, index) =>
+      food.name !== foods[index].name || food.unit !== foods[index].unit ||
+      food.quantity !== foods[index].quantity || food.calories !== foods[index].calories
+    );
+    if (foodsChanged && consumption.portion === 1) {
+      delete plan.completed_status.meal_consumption?.[meal.id];
+    } else if (foodsChanged) {
+      delete consumption.foods;
+    }
+  }
+
+  /**
+   * Stored plans of a user between two dates (not copied, for aggregation only)
+   */
+  private inRange(userId: number, fromDate: string, toDate: string): WorkoutMealPlan[] {
+    return this.store.plans
+      .filter(plan => plan.user_id === userId && plan.plan_date >= fromDate && plan.plan_date <= toDate)
+      .sort((a, b) => a.plan_date.localeCompare(b.plan_date));
+  }
+
+  /**
+   * Get matching plans ordered by date
+   */
+  private findMany(predicate: (plan: WorkoutMealPlan) => boolean): WorkoutMealPlan[] {
+    return this.store.plans
+      .filter(predicate)
+      .sort((a, b) => a.plan_date.localeCompare(b.plan_date))
+      .map(plan => cloneRow(plan));
+  }
+}
@@ -0,0 +1,83 @@
+import { BodyMeasurement, CalorieAdjustment, CatalogExercise, ExerciseSetLog, FoodLogEntry, GoalTarget, LocalFood, UsdaCacheEntry, User, WeeklyArchive, WeekRollover, WorkoutMealPlan, WorkoutMealPlanTemplate } from '../../types';
+import { EXERCISE_CATALOG_SEED } from '../../data/exerciseCatalog';
+
+// Set logs take their plan date from the plan, as the SQL join does
+export type MemorySetLog = Omit<ExerciseSetLog, 'plan_date'>;
+
+export interface MemoryUser extends User {
+  reset_token: string | null;
+  reset_token_expires: Date | null;
+}
+
+/**
+ * Tables of the in-memory storage driver, shared by its repositories so
+ * cross-table lookups (plans by user goal) behave like the SQL joins
+ */
+export class MemoryStore {
+  users: MemoryUser[] = [];
+  plans: WorkoutMealPlan[] = [];
+  templates: WorkoutMealPlanTemplate[] = [];
+  setLogs: MemorySetLog[] = [];
+  weeklyArchives: WeeklyArchive[] = [];
+  weekRollovers: WeekRollover[] = [];
+  exercises: CatalogExercise[] = [];
+  measurements: BodyMeasurement[] = [];
+  goals: GoalTarget[] = [];
+  calorieAdjustments: CalorieAdjustment[] = [];
+  foodLog: FoodLogEntry[] = [];
+  foods: LocalFood[] = [];
+  usdaCache: UsdaCacheEntry[] = [];
+
+  private sequences: { [table: string]: number } = {};
+
+  constructor() {
+    this.seedExercises();
+  }
+
+  /**
+   * Next auto-increment ID of a table
+   */
+  nextId(table: 'users' | 'plans' | 'templates' | 'setLogs' | 'weeklyArchives' | 'weekRollovers' | 'exercises' | 'measurements' | 'goals' | 'calorieAdjustments' | 'foodLog'): number {
+    this.sequences[table] = (this.sequences[table] || 0) + 1;
+    return this.sequences[table];
+  }
+
+  /**
+   * Drop every row and restore the seed catalog (used between integration tests)
+   */
+  clear(): void {
+    this.users = [];
+    this.plans = [];
+    this.templates = [];
+    this.setLogs = [];
+    this.weeklyArchives = [];
+    this.weekRollovers = [];
+    this.exercises = [];
+    this.measurements = [];
+    this.goals = [];
+    this.calorieAdjustments = [];
+    this.foodLog = [];
+    this.foods = [];
+    this.usdaCache = [];
+    this.sequences = {};
+    this.seedExercises();
+  }
+
+  /**
+   * Load the initial exercise catalog, as migration 009 does for MySQL
+   */
+  private seedExercises(): void {
+    const now = new Date();
+    this.exercises = EXERCISE_CATALOG_SEED.map(exercise => ({
+      ...structuredClone(exercise),
+      id: this.nextId('exercises'),
+      created_at: now,
+      updated_at: now,
+    }));
+  }
+}
+
+/**
+ * Copy a stored row so callers can't mutate the store through it
+ */
+export const cloneRow = <T>(row: T): T => structuredClone(row);
@@ -0,0 +1,127 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { pool } from '../../config/database';
+import { BodyMeasurement, BodyMeasurementData, BodyMeasurementRepository, Circumferences } from '../../types';
+import { CIRCUMFERENCE_SITES } from '../../data/bodyMeasurements';
+import { DateUtils } from '../../utils/date';
+
+// One column per circumference site, e.g. waist_cm
+const CIRCUMFERENCE_COLUMNS = CIRCUMFERENCE_SITES.map(site => `${site}_cm`);
+
+export class MySqlBodyMeasurementRepository implements BodyMeasurementRepository {
+  /**
+   * Insert a measurement and return its ID
+   */
+  async create(measurement: BodyMeasurementData): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `INSERT INTO body_measurements
+         (user_id, measured_on, weight, body_fat_percentage, ${CIRCUMFERENCE_COLUMNS.join(', ')}, notes)
+         VALUES (?, ?, ?, ?, ${CIRCUMFERENCE_COLUMNS.map(() => '?').join(', ')}, ?)`,
+        [
+          measurement.user_id,
+          measurement.measured_on,
+          measurement.weight ?? null,
+          measurement.body_fat_percentage ?? null,
+          ...CIRCUMFERENCE_SITES.map(site => measurement.circumferences[site] ?? null),
+          measurement.notes ?? null,
+        ]
+      );
+
+      return result.insertId;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find a measurement of a user by ID
+   */
+  async findById(id: number, userId: number): Promise<BodyMeasurement | null> {
+    const measurements = await this.query(
+      `SELECT * FROM body_measurements WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    return measurements[0] || null;
+  }
+
+  /**
+   * Find a user's measurements within the date range (inclusive), oldest first
+   */
+  async findByUser(userId: number, fromDate?: string, toDate?: string): Promise<BodyMeasurement[]> {
+    const conditions = ['user_id = ?'];
+    const params: any[] = [userId];
+
+    if (fromDate) {
+      conditions.push('measured_on >= ?');
+      params.push(fromDate);
+    }
+
+    if (toDate) {
+      conditions.push('measured_on <= ?');
+      params.push(toDate);
+    }
+
+    return this.query(
+      `SELECT * FROM body_measurements WHERE ${conditions.join(' AND ')} ORDER BY measured_on, id`,
+      params
+    );
+  }
+
+  /**
+   * Delete a measurement of a user
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM body_measurements WHERE id = ? AND user_id = ?`,
+        [id, userId]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Run a query returning measurement rows
+   */
+  private async query(query: string, params: any[]): Promise<BodyMeasurement[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(query, params);
+      return rows.map(row => this.mapRowToMeasurement(row));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to BodyMeasurement object
+   */
+  private mapRowToMeasurement(row: RowDataPacket): BodyMeasurement {
+    const circumferences: Circumferences = {};
+    CIRCUMFERENCE_SITES.forEach((site, index) => {
+      const value = row[CIRCUMFERENCE_COLUMNS[index]];
+      if (value !== null) {
+        circumferences[site] = Number(value);
+      }
+    });
+
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      measured_on: DateUtils.normalizeDateColumn(row.measured_on),
+      weight: row.weight !== null ? Number(row.weight) : undefined,
+      body_fat_percentage: row.body_fat_percentage !== null ? Number(row.body_fat_percentage) : undefined,
+      circumferences,
+      notes: row.notes ?? undefined,
+      created_at: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { pool } from '../../config/database';
+import { CalorieAdjustment, CalorieAdjustmentData, CalorieAdjustmentRepository } from '../../types';
+import { DateUtils } from '../../utils/date';
+
+export class MySqlCalorieAdjustmentRepository implements CalorieAdjustmentRepository {
+  /**
+   * Insert an adjustment and return its ID
+   */
+  async create(adjustment: CalorieAdjustmentData): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `INSERT INTO calorie_adjustments
+         (user_id, week_start, method, tdee, calorie_target, previous_target, average_intake,
+          logged_days, weekly_weight_change, reason)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          adjustment.user_id,
+          adjustment.week_start,
+          adjustment.method,
+          adjustment.tdee,
+          adjustment.calorie_target,
+          adjustment.previous_target ?? null,
+          adjustment.average_intake ?? null,
+          adjustment.logged_days,
+          adjustment.weekly_weight_change ?? null,
+          adjustment.reason,
+        ]
+      );
+
+      return result.insertId;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find the adjustment of a user for a week
+   */
+  async findByWeek(userId: number, weekStart: string): Promise<CalorieAdjustment | null> {
+    const adjustments = await this.query(
+      `SELECT * FROM calorie_adjustments WHERE user_id = ? AND week_start = ?`,
+      [userId, weekStart]
+    );
+    return adjustments[0] || null;
+  }
+
+  /**
+   * Find a user's adjustments, latest week first
+   */
+  async findByUser(userId: number, limit?: number): Promise<CalorieAdjustment[]> {
+    const limitClause = limit ? ` LIMIT ${Math.max(1, Math.floor(limit))}` : '';
+    return this.query(
+      `SELECT * FROM calorie_adjustments WHERE user_id = ? ORDER BY week_start DESC${limitClause}`,
+      [userId]
+    );
+  }
+
+  /**
+   * Update the given columns of an adjustment (undefined clears optional columns)
+   */
+  async update(id: number, userId: number, fields: Partial<CalorieAdjustmentData>): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const entries = Object.entries(fields);
+      if (entries.length === 0) {
+        return false;
+      }
+
+      const [result] = await connection.execute<ResultSetHeader>(
+        `UPDATE calorie_adjustments SET ${entries.map(([key]) => `${key} = ?`).join(', ')} WHERE id = ? AND user_id = ?`,
+        [...entries.map(([, value]) => value ?? null), id, userId]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Run a query returning adjustment rows
+   */
+  private async query(query: string, params: any[]): Promise<CalorieAdjustment[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(query, params);
+      return rows.map(row => this.mapRowToAdjustment(row));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to CalorieAdjustment object
+   */
+  private mapRowToAdjustment(row: RowDataPacket): CalorieAdjustment {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      week_start: DateUtils.normalizeDateColumn(row.week_start),
+      method: row.method,
+      tdee: row.tdee,
+      calorie_target: row.calorie_target,
+      previous_target: row.previous_target ?? undefined,
+      average_intake: row.average_intake ?? undefined,
+      logged_days: row.logged_days,
+      weekly_weight_change: row.weekly_weight_change !== null ? Number(row.weekly_weight_change) : undefined,
+      reason: row.reason,
+      created_at: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,247 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { pool } from '../../config/database';
+import {
+  CatalogExercise,
+  CatalogExerciseData,
+  CatalogExerciseFilters,
+  ExerciseCatalogRepository,
+} from '../../types';
+import { AppError } from '../../middleware/errorHandler';
+
+const JSON_COLUMNS = ['secondary_muscles', 'equipment', 'cardio'];
+
+export class MySqlExerciseCatalogRepository implements ExerciseCatalogRepository {
+  /**
+   * Insert a catalog exercise and return its ID
+   */
+  async create(exercise: CatalogExerciseData): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `INSERT INTO exercises
+         (slug, name, primary_muscle, secondary_muscles, equipment, difficulty,
+          default_sets, default_reps, default_duration, cardio, met, instructions, media_url)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          exercise.slug,
+          exercise.name,
+          exercise.primary_muscle,
+          JSON.stringify(exercise.secondary_muscles),
+          JSON.stringify(exercise.equipment),
+          exercise.difficulty,
+          exercise.default_sets,
+          exercise.default_reps,
+          exercise.default_duration ?? null,
+          exercise.cardio ? JSON.stringify(exercise.cardio) : null,
+          exercise.met ?? null,
+          exercise.instructions ?? null,
+          exercise.media_url ?? null,
+        ]
+      );
+
+      return result.insertId;
+    } catch (error) {
+      if ((error as any).code === 'ER_DUP_ENTRY') {
+        throw new AppError('An exercise with this slug already exists', 409, 'EXERCISE_EXISTS');
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find catalog exercise by ID
+   */
+  async findById(id: number): Promise<CatalogExercise | null> {
+    const exercises = await this.query(`SELECT * FROM exercises WHERE id = ?`, [id]);
+    return exercises[0] || null;
+  }
+
+  /**
+   * Find catalog exercises by ID
+   */
+  async findByIds(ids: number[]): Promise<CatalogExercise[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return this.query(
+      `SELECT * FROM exercises WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      ids
+    );
+  }
+
+  /**
+   * Find catalog exercises by slug
+   */
+  async findBySlugs(slugs: string[]): Promise<CatalogExercise[]> {
+    if (slugs.length === 0) {
+      return [];
+    }
+
+    return this.query(
+      `SELECT * FROM exercises WHERE slug IN (${slugs.map(() => '?').join(', ')})`,
+      slugs
+    );
+  }
+
+  /**
+   * Get a page of catalog exercises matching the filters, by name
+   */
+  async findAll(
+    filters: CatalogExerciseFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ exercises: CatalogExercise[]; total: number }> {
+    const connection = await pool.getConnection();
+
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (filters.search) {
+        conditions.push(`(name LIKE ? OR instructions LIKE ?)`);
+        params.push(`%${filters.search}%`, `%${filters.search}%`);
+      }
+
+      if (filters.muscle) {
+        conditions.push(`(primary_muscle = ? OR JSON_CONTAINS(secondary_muscles, JSON_QUOTE(?)))`);
+        params.push(filters.muscle, filters.muscle);
+      }
+
+      if (filters.equipment === 'none') {
+        conditions.push(`JSON_LENGTH(equipment) = 0`);
+      } else if (filters.equipment) {
+        conditions.push(`JSON_CONTAINS(equipment, JSON_QUOTE(?))`);
+        params.push(filters.equipment);
+      }
+
+      if (filters.difficulty) {
+        conditions.push(`difficulty = ?`);
+        params.push(filters.difficulty);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const [countRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) as total FROM exercises ${where}`,
+        params
+      );
+
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT * FROM exercises ${where} ORDER BY name LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+
+      return { exercises: rows.map(row => this.mapRowToExercise(row)), total: countRows[0].total };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find catalog exercises working any of the muscles, as primary or secondary
+   */
+  async findByMuscles(muscles: string[]): Promise<CatalogExercise[]> {
+    if (muscles.length === 0) {
+      return [];
+    }
+
+    const placeholders = muscles.map(() => '?').join(', ');
+    const secondary = muscles.map(() => `JSON_CONTAINS(secondary_muscles, JSON_QUOTE(?))`).join(' OR ');
+
+    return this.query(
+      `SELECT * FROM exercises WHERE primary_muscle IN (${placeholders}) OR ${secondary} ORDER BY id`,
+      [...muscles, ...muscles]
+    );
+  }
+
+  /**
+   * Update the given columns of a catalog exercise
+   */
+  async update(id: number, fields: Partial<CatalogExerciseData>): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+      if (entries.length === 0) {
+        return false;
+      }
+
+      const [result] = await connection.execute<ResultSetHeader>(
+        `UPDATE exercises SET ${entries.map(([key]) => `${key} = ?`).join(', ')} WHERE id = ?`,
+        [...entries.map(([key, value]) => JSON_COLUMNS.includes(key) ? JSON.stringify(value) : value), id]
+      );
+
+      return result.affectedRows > 0;
+    } catch (error) {
+      if ((error as any).code === 'ER_DUP_ENTRY') {
+        throw new AppError('An exercise with this slug already exists', 409, 'EXERCISE_EXISTS');
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Delete catalog exercise (plan exercises keep their copy and lose the link)
+   */
+  async delete(id: number): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM exercises WHERE id = ?`,
+        [id]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Run a query returning catalog exercise rows
+   */
+  private async query(query: string, params: any[]): Promise<CatalogExercise[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(query, params);
+      return rows.map(row => this.mapRowToExercise(row));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to CatalogExercise object
+   */
+  private mapRowToExercise(row: RowDataPacket): CatalogExercise {
+    const parseList = (value: unknown): string[] =>
+      typeof value === 'string' ? JSON.parse(value) : (value as string[]) || [];
+
+    return {
+      id: row.id,
+      slug: row.slug,
+      name: row.name,
+      primary_muscle: row.primary_muscle,
+      secondary_muscles: parseList(row.secondary_muscles),
+      equipment: parseList(row.equipment),
+      difficulty: row.difficulty,
+      default_sets: row.default_sets,
+      default_reps: row.default_reps,
+      default_duration: row.default_duration ?? undefined,
+      cardio: row.cardio ? (typeof row.cardio === 'string' ? JSON.parse(row.cardio) : row.cardio) : undefined,
+      met: row.met !== null ? Number(row.met) : undefined,
+      instructions: row.instructions ?? undefined,
+      media_url: row.media_url ?? undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
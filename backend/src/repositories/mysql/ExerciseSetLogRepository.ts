@@ -0,0 +1,215 @@
+import { RowDataPacket, ResultSetHeader, PoolConnection } from 'mysql2/promise';
+import { pool } from '../../config/database';
+import { ExerciseSetLog, ExerciseSetLogData, ExerciseSetLogRepository, LogExerciseSetRequest } from '../../types';
+import { DateUtils } from '../../utils/date';
+
+const SELECT_SET_LOGS = `
+  SELECT esl.*, wmp.plan_date FROM exercise_set_logs esl
+  JOIN workoutmealplans wmp ON wmp.id = esl.plan_id`;
+
+export class MySqlExerciseSetLogRepository implements ExerciseSetLogRepository {
+  /**
+   * Insert a set log and return it
+   */
+  async create(set: ExerciseSetLogData): Promise<ExerciseSetLog> {
+    const connection = await pool.getConnection();
+
+    try {
+      const id = await this.insert(connection, set);
+      const [logged] = await this.findByIds(connection, [id]);
+      return logged;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Insert several set logs in one transaction and return them in insertion order
+   */
+  async createMany(sets: ExerciseSetLogData[]): Promise<ExerciseSetLog[]> {
+    if (sets.length === 0) {
+      return [];
+    }
+
+    const connection = await pool.getConnection();
+    const ids: number[] = [];
+
+    try {
+      await connection.beginTransaction();
+      try {
+        for (const set of sets) {
+          ids.push(await this.insert(connection, set));
+        }
+        await connection.commit();
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      }
+
+      return this.findByIds(connection, ids);
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find a set log of a user by ID
+   */
+  async findById(id: number, userId: number): Promise<ExerciseSetLog | null> {
+    const sets = await this.query(`${SELECT_SET_LOGS} WHERE esl.id = ? AND esl.user_id = ?`, [id, userId]);
+    return sets[0] || null;
+  }
+
+  /**
+   * Find the sets logged on a plan, grouped by exercise in set order
+   */
+  async findByPlan(planId: number, exerciseId?: string): Promise<ExerciseSetLog[]> {
+    const conditions = ['esl.plan_id = ?'];
+    const params: any[] = [planId];
+
+    if (exerciseId !== undefined) {
+      conditions.push('esl.exercise_key = ?');
+      params.push(exerciseId);
+    }
+
+    return this.query(
+      `${SELECT_SET_LOGS} WHERE ${conditions.join(' AND ')} ORDER BY esl.exercise_key, esl.set_number, esl.id`,
+      params
+    );
+  }
+
+  /**
+   * Find a user's sets of an exercise (matched by name) between two plan dates, oldest first
+   */
+  async findByExerciseName(userId: number, exerciseName: string, fromDate: string, toDate: string): Promise<ExerciseSetLog[]> {
+    return this.query(
+      `${SELECT_SET_LOGS}
+       WHERE esl.user_id = ? AND esl.exercise_name = ? AND wmp.plan_date BETWEEN ? AND ?
+       ORDER BY wmp.plan_date, esl.set_number, esl.id`,
+      [userId, exerciseName, fromDate, toDate]
+    );
+  }
+
+  /**
+   * Update the given fields of a set log (null clears one) and return it
+   */
+  async update(id: number, userId: number, fields: Partial<LogExerciseSetRequest>): Promise<ExerciseSetLog | null> {
+    const connection = await pool.getConnection();
+
+    try {
+      const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+
+      if (entries.length > 0) {
+        const [result] = await connection.execute<ResultSetHeader>(
+          `UPDATE exercise_set_logs SET ${entries.map(([key]) => `${key} = ?`).join(', ')} WHERE id = ? AND user_id = ?`,
+          [...entries.map(([, value]) => value), id, userId]
+        );
+
+        if (result.affectedRows === 0) {
+          return null;
+        }
+      }
+
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `${SELECT_SET_LOGS} WHERE esl.id = ? AND esl.user_id = ?`,
+        [id, userId]
+      );
+      return rows.length > 0 ? this.mapRowToSetLog(rows[0]) : null;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Delete a set log of a user
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM exercise_set_logs WHERE id = ? AND user_id = ?`,
+        [id, userId]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Insert a set log on a connection and return its ID
+   */
+  private async insert(connection: PoolConnection, set: ExerciseSetLogData): Promise<number> {
+    const [result] = await connection.execute<ResultSetHeader>(
+      `INSERT INTO exercise_set_logs (
+         user_id, plan_id, exercise_key, exercise_name, set_number,
+         reps, weight, rpe, rir, rest_seconds, notes
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        set.user_id,
+        set.plan_id,
+        set.exercise_id,
+        set.exercise_name,
+        set.set_number,
+        set.reps,
+        set.weight ?? null,
+        set.rpe ?? null,
+        set.rir ?? null,
+        set.rest_seconds ?? null,
+        set.notes ?? null,
+      ]
+    );
+
+    return result.insertId;
+  }
+
+  /**
+   * Set logs of the given IDs read on a connection, in ID order
+   */
+  private async findByIds(connection: PoolConnection, ids: number[]): Promise<ExerciseSetLog[]> {
+    const [rows] = await connection.execute<RowDataPacket[]>(
+      `${SELECT_SET_LOGS} WHERE esl.id IN (${ids.map(() => '?').join(', ')}) ORDER BY esl.id`,
+      ids
+    );
+
+    return rows.map(row => this.mapRowToSetLog(row));
+  }
+
+  /**
+   * Run a query returning set log rows
+   */
+  private async query(query: string, params: any[]): Promise<ExerciseSetLog[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(query, params);
+      return rows.map(row => this.mapRowToSetLog(row));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to ExerciseSetLog object
+   */
+  private mapRowToSetLog(row: RowDataPacket): ExerciseSetLog {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      plan_id: row.plan_id,
+      plan_date: DateUtils.normalizeDateColumn(row.plan_date),
+      exercise_id: row.exercise_key,
+      exercise_name: row.exercise_name,
+      set_number: row.set_number,
+      reps: row.reps,
+      weight: row.weight !== null ? Number(row.weight) : undefined,
+      rpe: row.rpe !== null ? Number(row.rpe) : undefined,
+      rir: row.rir ?? undefined,
+      rest_seconds: row.rest_seconds ?? undefined,
+      notes: row.notes ?? undefined,
+      logged_at: row.logged_at,
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { pool } from '../../config/database';
+import { FoodLogEntry, FoodLogEntryData, FoodLogRepository } from '../../types';
+import { DateUtils } from '../../utils/date';
+
+export class MySqlFoodLogRepository implements FoodLogRepository {
+  /**
+   * Insert a diary entry and return its ID
+   */
+  async create(entry: FoodLogEntryData): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `INSERT INTO food_log_entries
+         (user_id, logged_on, meal_slot, source, name, fdc_id, plan_meal_id, quantity, unit,
+          calories, protein, carbs, fat, fiber, micronutrients)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.user_id,
+          entry.logged_on,
+          entry.meal_slot,
+          entry.source,
+          entry.name,
+          entry.fdc_id ?? null,
+          entry.plan_meal_id ?? null,
+          entry.quantity,
+          entry.unit,
+          entry.calories,
+          entry.protein,
+          entry.carbs,
+          entry.fat,
+          entry.fiber ?? null,
+          entry.micronutrients ? JSON.stringify(entry.micronutrients) : null,
+        ]
+      );
+
+      return result.insertId;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find a diary entry of a user by ID
+   */
+  async findById(id: number, userId: number): Promise<FoodLogEntry | null> {
+    const entries = await this.query(
+      `SELECT * FROM food_log_entries WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    return entries[0] || null;
+  }
+
+  /**
+   * Find a user's diary entries within the date range (inclusive), in the order they were logged
+   */
+  async findByUser(userId: number, fromDate: string, toDate: string): Promise<FoodLogEntry[]> {
+    return this.query(
+      `SELECT * FROM food_log_entries
+       WHERE user_id = ? AND logged_on >= ? AND logged_on <= ?
+       ORDER BY logged_on, id`,
+      [userId, fromDate, toDate]
+    );
+  }
+
+  /**
+   * Update the given columns of a diary entry (undefined clears optional columns)
+   */
+  async update(id: number, userId: number, fields: Partial<FoodLogEntryData>): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const entries = Object.entries(fields);
+      if (entries.length === 0) {
+        return false;
+      }
+
+      const [result] = await connection.execute<ResultSetHeader>(
+        `UPDATE food_log_entries SET ${entries.map(([key]) => `${key} = ?`).join(', ')} WHERE id = ? AND user_id = ?`,
+        [...entries.map(([key, value]) => (key === 'micronutrients' && value ? JSON.stringify(value) : value ?? null)), id, userId]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Delete a diary entry of a user
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM food_log_entries WHERE id = ? AND user_id = ?`,
+        [id, userId]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Delete the entries a planned meal logged on a date, returning how many were removed
+   */
+  async deleteByPlanMeal(userId: number, loggedOn: string, planMealId: string): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM food_log_entries WHERE user_id = ? AND logged_on = ? AND plan_meal_id = ?`,
+        [userId, loggedOn, planMealId]
+      );
+
+      return result.affectedRows;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Run a query returning diary entry rows
+   */
+  private async query(query: string, params: any[]): Promise<FoodLogEntry[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(query, params);
+      return rows.map(row => this.mapRowToEntry(row));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to FoodLogEntry object
+   */
+  private mapRowToEntry(row: RowDataPacket): FoodLogEntry {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      logged_on: DateUtils.normalizeDateColumn(row.logged_on),
+      meal_slot: row.meal_slot,
+      source: row.source,
+      name: row.name,
+      fdc_id: row.fdc_id ?? undefined,
+      plan_meal_id: row.plan_meal_id ?? undefined,
+      quantity: Number(row.quantity),
+      unit: row.unit,
+      calories: Number(row.calories),
+      protein: Number(row.protein),
+      carbs: Number(row.carbs),
+      fat: Number(row.fat),
+      fiber: row.fiber !== null ? Number(row.fiber) : undefined,
+      micronutrients: this.parseJson(row.micronutrients) ?? undefined,
+      created_at: row.created_at,
+    };
+  }
+
+  /**
+   * Parse a JSON column, which the driver may already have decoded
+   */
+  private parseJson(value: unknown): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+}
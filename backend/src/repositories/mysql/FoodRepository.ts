@@ -0,0 +1,180 @@
+import { RowDataPacket } from 'mysql2';
+import { pool } from '../../config/database';
+import { FoodRepository, LocalFood, LocalFoodData, LocalFoodSearchOptions, LocalFoodSearchResult } from '../../types';
+import { USDA_DATA_TYPE_ORDER } from '../../data/usdaNutrients';
+
+// Shortest word InnoDB indexes for full-text search (innodb_ft_min_token_size)
+const MIN_FULLTEXT_TERM_LENGTH = 3;
+
+const FOOD_COLUMNS = [
+  'fdc_id', 'description', 'data_type', 'brand_owner', 'brand_name', 'ingredients', 'category',
+  'serving_size', 'serving_size_unit', 'household_serving', 'nutrients',
+];
+
+export class MySqlFoodRepository implements FoodRepository {
+  /**
+   * Insert foods or replace the ones already imported, keyed by FDC ID
+   */
+  async upsertMany(foods: LocalFoodData[]): Promise<void> {
+    if (foods.length === 0) {
+      return;
+    }
+
+    const connection = await pool.getConnection();
+
+    try {
+      const placeholders = foods.map(() => `(${FOOD_COLUMNS.map(() => '?').join(', ')})`).join(', ');
+      await connection.execute(
+        `INSERT INTO foods (${FOOD_COLUMNS.join(', ')}) VALUES ${placeholders}
+         ON DUPLICATE KEY UPDATE ${FOOD_COLUMNS.slice(1).map(column => `${column} = VALUES(${column})`).join(', ')}`,
+        foods.flatMap(food => [
+          food.fdc_id,
+          food.description,
+          food.data_type,
+          food.brand_owner ?? null,
+          food.brand_name ?? null,
+          food.ingredients ?? null,
+          food.category ?? null,
+          food.serving_size ?? null,
+          food.serving_size_unit ?? null,
+          food.household_serving ?? null,
+          JSON.stringify(food.nutrients),
+        ])
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find a food by FDC ID
+   */
+  async findById(fdcId: number): Promise<LocalFood | null> {
+    const foods = await this.query(`SELECT * FROM foods WHERE fdc_id = ?`, [fdcId]);
+    return foods[0] || null;
+  }
+
+  /**
+   * Find the foods of the given FDC IDs that were imported
+   */
+  async findByIds(fdcIds: number[]): Promise<LocalFood[]> {
+    if (fdcIds.length === 0) {
+      return [];
+    }
+
+    return this.query(
+      `SELECT * FROM foods WHERE fdc_id IN (${fdcIds.map(() => '?').join(', ')})`,
+      fdcIds
+    );
+  }
+
+  /**
+   * Full-text search (boolean mode) over descriptions and brands, every term required as a word prefix.
+   * Queries of only short words, which the index skips, fall back to matching descriptions.
+   */
+  async search(query: string, options: LocalFoodSearchOptions): Promise<LocalFoodSearchResult> {
+    const terms = query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (terms.length === 0) {
+      return { total: 0, foods: [] };
+    }
+
+    const indexedTerms = terms.filter(term => term.length >= MIN_FULLTEXT_TERM_LENGTH);
+    const match = 'MATCH(description, brand_owner, brand_name) AGAINST (? IN BOOLEAN MODE)';
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (indexedTerms.length > 0) {
+      conditions.push(match);
+      params.push(indexedTerms.map(term => `+${term}*`).join(' '));
+    } else {
+      terms.forEach(term => {
+        conditions.push('description LIKE ?');
+        params.push(`%${term}%`);
+      });
+    }
+
+    if (options.dataTypes && options.dataTypes.length > 0) {
+      conditions.push(`data_type IN (${options.dataTypes.map(() => '?').join(', ')})`);
+      params.push(...options.dataTypes);
+    }
+
+    const where = conditions.join(' AND ');
+    const connection = await pool.getConnection();
+
+    try {
+      const [countRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) AS total FROM foods WHERE ${where}`,
+        params
+      );
+
+      // Listed data types rank by their order, generic foods first; FIELD() is 0 for others
+      const dataTypeOrder = [...USDA_DATA_TYPE_ORDER].reverse().map(() => '?').join(', ');
+      const relevance = indexedTerms.length > 0 ? match : '0';
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT * FROM foods WHERE ${where}
+         ORDER BY ${relevance} DESC, FIELD(data_type, ${dataTypeOrder}) DESC, CHAR_LENGTH(description), fdc_id
+         LIMIT ${Math.max(1, Math.floor(options.limit))} OFFSET ${Math.max(0, Math.floor(options.offset))}`,
+        [
+          ...params,
+          ...(indexedTerms.length > 0 ? [params[0]] : []),
+          ...[...USDA_DATA_TYPE_ORDER].reverse(),
+        ]
+      );
+
+      return {
+        total: Number(countRows[0].total),
+        foods: rows.map(row => this.mapRowToFood(row)),
+      };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Number of imported foods
+   */
+  async count(): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM foods`);
+      return Number(rows[0].total);
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Run a query returning food rows
+   */
+  private async query(query: string, params: any[]): Promise<LocalFood[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(query, params);
+      return rows.map(row => this.mapRowToFood(row));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to LocalFood object
+   */
+  private mapRowToFood(row: RowDataPacket): LocalFood {
+    return {
+      fdc_id: row.fdc_id,
+      description: row.description,
+      data_type: row.data_type,
+      brand_owner: row.brand_owner ?? undefined,
+      brand_name: row.brand_name ?? undefined,
+      ingredients: row.ingredients ?? undefined,
+      category: row.category ?? undefined,
+      serving_size: row.serving_size !== null ? Number(row.serving_size) : undefined,
+      serving_size_unit: row.serving_size_unit ?? undefined,
+      household_serving: row.household_serving ?? undefined,
+      nutrients: typeof row.nutrients === 'string' ? JSON.parse(row.nutrients) : row.nutrients,
+      imported_at: row.imported_at,
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { pool } from '../../config/database';
+import { GoalTarget, GoalTargetData, GoalTargetRepository, GoalTargetStatus } from '../../types';
+import { DateUtils } from '../../utils/date';
+
+export class MySqlGoalTargetRepository implements GoalTargetRepository {
+  /**
+   * Insert a goal and return its ID
+   */
+  async create(goal: GoalTargetData): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `INSERT INTO goal_targets
+         (user_id, metric, exercise_name, start_value, target_value, start_date, target_date, status, achieved_on)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          goal.user_id,
+          goal.metric,
+          goal.exercise_name ?? null,
+          goal.start_value ?? null,
+          goal.target_value,
+          goal.start_date,
+          goal.target_date,
+          goal.status,
+          goal.achieved_on ?? null,
+        ]
+      );
+
+      return result.insertId;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find a goal of a user by ID
+   */
+  async findById(id: number, userId: number): Promise<GoalTarget | null> {
+    const goals = await this.query(`SELECT * FROM goal_targets WHERE id = ? AND user_id = ?`, [id, userId]);
+    return goals[0] || null;
+  }
+
+  /**
+   * Find a user's goals (optionally of one status), by target date
+   */
+  async findByUser(userId: number, status?: GoalTargetStatus): Promise<GoalTarget[]> {
+    if (status) {
+      return this.query(
+        `SELECT * FROM goal_targets WHERE user_id = ? AND status = ? ORDER BY target_date, id`,
+        [userId, status]
+      );
+    }
+
+    return this.query(`SELECT * FROM goal_targets WHERE user_id = ? ORDER BY target_date, id`, [userId]);
+  }
+
+  /**
+   * Update the given columns of a goal
+   */
+  async update(id: number, userId: number, fields: Partial<GoalTargetData>): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+      if (entries.length === 0) {
+        return false;
+      }
+
+      const [result] = await connection.execute<ResultSetHeader>(
+        `UPDATE goal_targets SET ${entries.map(([key]) => `${key} = ?`).join(', ')} WHERE id = ? AND user_id = ?`,
+        [...entries.map(([, value]) => value), id, userId]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Delete a goal of a user
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM goal_targets WHERE id = ? AND user_id = ?`,
+        [id, userId]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Run a query returning goal rows
+   */
+  private async query(query: string, params: any[]): Promise<GoalTarget[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(query, params);
+      return rows.map(row => this.mapRowToGoal(row));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to GoalTarget object
+   */
+  private mapRowToGoal(row: RowDataPacket): GoalTarget {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      metric: row.metric,
+      exercise_name: row.exercise_name ?? undefined,
+      start_value: row.start_value !== null ? Number(row.start_value) : undefined,
+      target_value: Number(row.target_value),
+      start_date: DateUtils.normalizeDateColumn(row.start_date),
+      target_date: DateUtils.normalizeDateColumn(row.target_date),
+      status: row.status,
+      achieved_on: row.achieved_on ? DateUtils.normalizeDateColumn(row.achieved_on) : undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
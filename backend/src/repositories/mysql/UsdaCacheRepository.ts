@@ -0,0 +1,69 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { pool } from '../../config/database';
+import { UsdaCacheEntry, UsdaCacheRepository } from '../../types';
+
+export class MySqlUsdaCacheRepository implements UsdaCacheRepository {
+  /**
+   * Find a cached response by key
+   */
+  async find(cacheKey: string): Promise<UsdaCacheEntry | null> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT cache_key, payload, expires_at FROM usda_cache WHERE cache_key = ?`,
+        [cacheKey]
+      );
+
+      return rows.length > 0 ? this.mapRowToEntry(rows[0]) : null;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Insert a cached response or replace the one with the same key
+   */
+  async save(entry: UsdaCacheEntry): Promise<void> {
+    const connection = await pool.getConnection();
+
+    try {
+      await connection.execute(
+        `INSERT INTO usda_cache (cache_key, payload, expires_at) VALUES (?, ?, ?)
+         ON DUPLICATE KEY UPDATE payload = VALUES(payload), expires_at = VALUES(expires_at)`,
+        [entry.cache_key, JSON.stringify(entry.payload), entry.expires_at]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Delete the responses expired at the given time, returning how many were removed
+   */
+  async deleteExpired(now: Date): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM usda_cache WHERE expires_at <= ?`,
+        [now]
+      );
+
+      return result.affectedRows;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to UsdaCacheEntry object
+   */
+  private mapRowToEntry(row: RowDataPacket): UsdaCacheEntry {
+    return {
+      cache_key: row.cache_key,
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      expires_at: new Date(row.expires_at),
+    };
+  }
+}
@@ -0,0 +1,253 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { pool } from '../../config/database';
+import { User, UserRepository, CreateUserRecord, UserRecordUpdate, UserStatistics } from '../../types';
+import { AppError } from '../../middleware/errorHandler';
+
+export class MySqlUserRepository implements UserRepository {
+  /**
+   * Insert a user and return its ID
+   */
+  async create(userData: CreateUserRecord): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `INSERT INTO users (name, email, password, role) VALUES (?, ?, ?, ?)`,
+        [userData.name, userData.email, userData.password, userData.role]
+      );
+
+      return result.insertId;
+    } catch (error) {
+      if ((error as any).code === 'ER_DUP_ENTRY') {
+        throw new AppError('Email already exists', 409, 'EMAIL_EXISTS');
+      }
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find user by ID
+   */
+  async findById(id: number): Promise<User | null> {
+    return this.findOne(`SELECT * FROM users WHERE id = ?`, [id]);
+  }
+
+  /**
+   * Find user by email
+   */
+  async findByEmail(email: string): Promise<User | null> {
+    return this.findOne(`SELECT * FROM users WHERE email = ?`, [email.toLowerCase()]);
+  }
+
+  /**
+   * Find user by a reset token that has not expired
+   */
+  async findByResetToken(resetToken: string): Promise<User | null> {
+    return this.findOne(
+      `SELECT * FROM users WHERE reset_token = ? AND reset_token_expires > NOW()`,
+      [resetToken]
+    );
+  }
+
+  /**
+   * Update the given columns of a user
+   */
+  async update(id: number, fields: UserRecordUpdate): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+      if (entries.length === 0) {
+        return false;
+      }
+
+      // List and map columns (rest_days, session_budgets) are stored as JSON
+      const [result] = await connection.execute<ResultSetHeader>(
+        `UPDATE users SET ${entries.map(([key]) => `${key} = ?`).join(', ')} WHERE id = ?`,
+        [...entries.map(([, value]) => (this.isJsonValue(value) ? JSON.stringify(value) : value)), id]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Set password reset token by email
+   */
+  async setResetToken(email: string, resetToken: string, expiresAt: Date): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `UPDATE users SET reset_token = ?, reset_token_expires = ? WHERE email = ?`,
+        [resetToken, expiresAt, email.toLowerCase()]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Delete user
+   */
+  async delete(id: number): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM users WHERE id = ?`,
+        [id]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Get a page of users, newest first
+   */
+  async findAll(limit: number, offset: number): Promise<{ users: User[]; total: number }> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [countRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) as total FROM users`
+      );
+
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT * FROM users ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+        [limit, offset]
+      );
+
+      return { users: rows.map(row => this.mapRowToUser(row)), total: countRows[0].total };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Check if email exists
+   */
+  async emailExists(email: string, excludeUserId?: number): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      let query = `SELECT COUNT(*) as count FROM users WHERE email = ?`;
+      const params: any[] = [email.toLowerCase()];
+
+      if (excludeUserId) {
+        query += ` AND id != ?`;
+        params.push(excludeUserId);
+      }
+
+      const [rows] = await connection.execute<RowDataPacket[]>(query, params);
+      return rows[0].count > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Get user statistics
+   */
+  async getStatistics(): Promise<UserStatistics> {
+    const connection = await pool.getConnection();
+
+    try {
+      // Total users
+      const [totalRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) as total FROM users`
+      );
+
+      // Users by role
+      const [roleRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT role, COUNT(*) as count FROM users GROUP BY role`
+      );
+
+      // Users by goal
+      const [goalRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT goal, COUNT(*) as count FROM users WHERE goal IS NOT NULL GROUP BY goal`
+      );
+
+      // Recent users (last 30 days)
+      const [recentRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) as count FROM users WHERE created_at >= DATE_SUB(NOW(), INTERVAL 30 DAY)`
+      );
+
+      return {
+        totalUsers: totalRows[0].total,
+        usersByRole: roleRows.map(row => ({ role: row.role, count: row.count })),
+        usersByGoal: goalRows.map(row => ({ goal: row.goal, count: row.count })),
+        recentUsers: recentRows[0].count,
+      };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Run a query expected to return at most one user
+   */
+  private async findOne(query: string, params: any[]): Promise<User | null> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(query, params);
+
+      if (rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToUser(rows[0]);
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to User object
+   */
+  private mapRowToUser(row: RowDataPacket): User {
+    return {
+      id: row.id,
+      name: row.name,
+      email: row.email,
+      password: row.password,
+      age: row.age,
+      gender: row.gender,
+      height: row.height,
+      weight: row.weight,
+      goal: row.goal,
+      progression_scheme: row.progression_scheme,
+      equipment_profile: row.equipment_profile,
+      training_days_per_week: row.training_days_per_week,
+      training_split: row.training_split,
+      rest_days: this.parseJson(row.rest_days) || [],
+      session_budgets: this.parseJson(row.session_budgets) || {},
+      role: row.role,
+      created_at: row.created_at,
+    };
+  }
+
+  /**
+   * Whether a column value has to be serialized to JSON
+   */
+  private isJsonValue(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && !(value instanceof Date);
+  }
+
+  /**
+   * Parse a JSON column, which the driver may already have decoded
+   */
+  private parseJson(value: unknown): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+}
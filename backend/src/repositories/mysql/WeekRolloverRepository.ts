@@ -0,0 +1,138 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { pool } from '../../config/database';
+import { WeekRollover, WeekRolloverRepository } from '../../types';
+import { DateUtils } from '../../utils/date';
+
+export class MySqlWeekRolloverRepository implements WeekRolloverRepository {
+  /**
+   * Find user weeks before the given week that have plans and are due a rollover, oldest first:
+   * never attempted, or not completed with attempts left and their retry time reached
+   */
+  async findPending(
+    beforeWeekStart: string,
+    maxAttempts: number,
+    now: Date,
+    limit: number
+  ): Promise<{ userId: number; weekStart: string }[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT DISTINCT wmp.user_id, wmp.week_start FROM workoutmealplans wmp
+         LEFT JOIN week_rollovers wr ON wr.user_id = wmp.user_id AND wr.week_start = wmp.week_start
+         WHERE wmp.week_start < ?
+           AND (wr.id IS NULL OR (
+             wr.status <> 'completed' AND wr.attempts < ?
+             AND (wr.next_attempt_at IS NULL OR wr.next_attempt_at <= ?)
+           ))
+         ORDER BY wmp.week_start, wmp.user_id
+         LIMIT ${Math.max(1, Math.floor(limit))}`,
+        [beforeWeekStart, maxAttempts, now]
+      );
+
+      return rows.map(row => ({
+        userId: row.user_id,
+        weekStart: DateUtils.normalizeDateColumn(row.week_start),
+      }));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Get (or create) the idempotency record of a user's week rollover and count the attempt
+   */
+  async claim(userId: number, weekStart: string): Promise<WeekRollover> {
+    const connection = await pool.getConnection();
+
+    try {
+      await connection.execute<ResultSetHeader>(
+        `INSERT INTO week_rollovers (user_id, week_start, status, attempts) VALUES (?, ?, 'pending', 1)
+         ON DUPLICATE KEY UPDATE attempts = attempts + 1`,
+        [userId, weekStart]
+      );
+
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT * FROM week_rollovers WHERE user_id = ? AND week_start = ?`,
+        [userId, weekStart]
+      );
+
+      return this.mapRowToWeekRollover(rows[0]);
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Record that the week was archived
+   */
+  async markArchived(id: number): Promise<void> {
+    await this.update(`UPDATE week_rollovers SET archived_at = CURRENT_TIMESTAMP WHERE id = ?`, [id]);
+  }
+
+  /**
+   * Claim the intensity adjustment of a rollover; false when it was already claimed
+   */
+  async claimAdjustment(id: number): Promise<boolean> {
+    const result = await this.update(
+      `UPDATE week_rollovers SET adjusted_at = CURRENT_TIMESTAMP WHERE id = ? AND adjusted_at IS NULL`,
+      [id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * Mark a rollover as completed
+   */
+  async markCompleted(id: number): Promise<void> {
+    await this.update(
+      `UPDATE week_rollovers
+       SET status = 'completed', last_error = NULL, next_attempt_at = NULL, completed_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [id]
+    );
+  }
+
+  /**
+   * Mark a rollover as failed, to be retried from the given time (never when null)
+   */
+  async markFailed(id: number, errorMessage: string, nextAttemptAt: Date | null): Promise<void> {
+    await this.update(
+      `UPDATE week_rollovers SET status = 'failed', last_error = ?, next_attempt_at = ? WHERE id = ?`,
+      [errorMessage.substring(0, 1000), nextAttemptAt, id]
+    );
+  }
+
+  /**
+   * Run an update statement
+   */
+  private async update(query: string, params: any[]): Promise<ResultSetHeader> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(query, params);
+      return result;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to WeekRollover object
+   */
+  private mapRowToWeekRollover(row: RowDataPacket): WeekRollover {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      week_start: DateUtils.normalizeDateColumn(row.week_start),
+      status: row.status,
+      attempts: row.attempts,
+      next_attempt_at: row.next_attempt_at ?? undefined,
+      archived_at: row.archived_at,
+      adjusted_at: row.adjusted_at,
+      last_error: row.last_error,
+      created_at: row.created_at,
+      completed_at: row.completed_at,
+    };
+  }
+}
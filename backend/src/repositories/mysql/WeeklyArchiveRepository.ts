@@ -0,0 +1,197 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { pool } from '../../config/database';
+import {
+  WeeklyArchive,
+  WeeklyArchiveData,
+  WeeklyArchiveDay,
+  WeeklyArchiveDayTotals,
+  WeeklyArchiveFilters,
+  WeeklyArchiveRepository,
+} from '../../types';
+import { DateUtils } from '../../utils/date';
+
+export class MySqlWeeklyArchiveRepository implements WeeklyArchiveRepository {
+  /**
+   * Insert the archive of a user's week or replace the existing one
+   */
+  async save(userId: number, archive: WeeklyArchiveData): Promise<void> {
+    const connection = await pool.getConnection();
+
+    try {
+      await connection.execute<ResultSetHeader>(
+        `INSERT INTO weekly_archives (
+           user_id, iso_year, week_number, week_start, week_end,
+           total_exercises, completed_exercises, total_meals, completed_meals,
+           completion_percentage, streak_days, achievements, daily_totals, snapshot
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE
+           total_exercises = VALUES(total_exercises),
+           completed_exercises = VALUES(completed_exercises),
+           total_meals = VALUES(total_meals),
+           completed_meals = VALUES(completed_meals),
+           completion_percentage = VALUES(completion_percentage),
+           streak_days = VALUES(streak_days),
+           achievements = VALUES(achievements),
+           daily_totals = VALUES(daily_totals),
+           snapshot = VALUES(snapshot),
+           archived_at = CURRENT_TIMESTAMP`,
+        [
+          userId,
+          archive.isoYear,
+          archive.weekNumber,
+          archive.weekStartDate,
+          archive.weekEndDate,
+          archive.totalExercises,
+          archive.completedExercises,
+          archive.totalMeals,
+          archive.completedMeals,
+          archive.completionPercentage,
+          archive.streakDays,
+          JSON.stringify(archive.achievements),
+          JSON.stringify(archive.dailyTotals),
+          JSON.stringify(archive.days),
+        ]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find the archive of a user's week (Monday date)
+   */
+  async findByUserAndWeek(userId: number, weekStart: string, includeDays: boolean): Promise<WeeklyArchive | null> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT * FROM weekly_archives WHERE user_id = ? AND week_start = ?`,
+        [userId, weekStart]
+      );
+
+      return rows.length > 0 ? this.mapRowToWeeklyArchive(rows[0], includeDays) : null;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find a page of a user's archived weeks matching the filters, most recent first
+   */
+  async findByUser(
+    userId: number,
+    filters: WeeklyArchiveFilters,
+    limit: number,
+    offset: number,
+    includeDays: boolean
+  ): Promise<{ archives: WeeklyArchive[]; total: number }> {
+    const connection = await pool.getConnection();
+
+    try {
+      const conditions: string[] = ['user_id = ?'];
+      const params: any[] = [userId];
+
+      if (filters.fromDate) {
+        conditions.push('week_start >= ?');
+        params.push(filters.fromDate);
+      }
+
+      if (filters.toDate) {
+        conditions.push('week_start <= ?');
+        params.push(filters.toDate);
+      }
+
+      if (filters.minCompletion !== undefined) {
+        conditions.push('completion_percentage >= ?');
+        params.push(filters.minCompletion);
+      }
+
+      if (filters.maxCompletion !== undefined) {
+        conditions.push('completion_percentage <= ?');
+        params.push(filters.maxCompletion);
+      }
+
+      const whereClause = conditions.join(' AND ');
+
+      const [countRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) as total FROM weekly_archives WHERE ${whereClause}`,
+        params
+      );
+
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT * FROM weekly_archives WHERE ${whereClause} ORDER BY week_start DESC LIMIT ${Math.floor(limit)} OFFSET ${Math.floor(offset)}`,
+        params
+      );
+
+      return {
+        archives: rows.map(row => this.mapRowToWeeklyArchive(row, includeDays)),
+        total: countRows[0].total,
+      };
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Delete the archive of a user's week
+   */
+  async delete(userId: number, weekStart: string): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM weekly_archives WHERE user_id = ? AND week_start = ?`,
+        [userId, weekStart]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Map database row to WeeklyArchive object
+   */
+  private mapRowToWeeklyArchive(row: RowDataPacket, includeDays: boolean): WeeklyArchive {
+    const archive: WeeklyArchive = {
+      id: row.id,
+      userId: row.user_id,
+      isoYear: row.iso_year,
+      weekNumber: row.week_number,
+      weekStartDate: DateUtils.normalizeDateColumn(row.week_start),
+      weekEndDate: DateUtils.normalizeDateColumn(row.week_end),
+      totalExercises: row.total_exercises,
+      completedExercises: row.completed_exercises,
+      totalMeals: row.total_meals,
+      completedMeals: row.completed_meals,
+      completionPercentage: row.completion_percentage,
+      streakDays: row.streak_days,
+      achievements: this.safeJsonParse(row.achievements, []),
+      dailyTotals: this.safeJsonParse(row.daily_totals, []) as WeeklyArchiveDayTotals[],
+      archivedAt: row.archived_at,
+    };
+
+    if (includeDays) {
+      archive.days = this.safeJsonParse(row.snapshot, []) as WeeklyArchiveDay[];
+    }
+
+    return archive;
+  }
+
+  /**
+   * Parse a JSON column, falling back to a default for invalid values
+   */
+  private safeJsonParse(value: any, defaultValue: any): any {
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        return defaultValue;
+      }
+    } else if (typeof value === 'object' && value !== null) {
+      return value;
+    }
+    return defaultValue;
+  }
+}
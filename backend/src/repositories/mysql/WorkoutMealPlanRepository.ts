@@ -0,0 +1,843 @@
+import { PoolConnection, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { pool } from '../../config/database';
+import {
+  WorkoutMealPlan,
+  WorkoutMealPlanTemplate,
+  WorkoutMealPlanRepository,
+  CreatePlanRecord,
+  Exercise,
+  Meal,
+  MealConsumption,
+  PlanItemKind,
+  MuscleGroupStats,
+  DailyNutritionStats,
+} from '../../types';
+import { DateUtils } from '../../utils/date';
+
+export class MySqlWorkoutMealPlanRepository implements WorkoutMealPlanRepository {
+  /**
+   * Insert or replace the weekday template of a user
+   */
+  async saveTemplate(userId: number, day: string, exercises: Exercise[], meals: Meal[]): Promise<void> {
+    const connection = await pool.getConnection();
+
+    try {
+      await connection.execute<ResultSetHeader>(
+        `INSERT INTO workoutmealplan_templates (user_id, day, exercises, meals) VALUES (?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE exercises = VALUES(exercises), meals = VALUES(meals), updated_at = CURRENT_TIMESTAMP`,
+        [userId, day, JSON.stringify(exercises), JSON.stringify(meals)]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Delete the weekday template of a user
+   */
+  async deleteTemplate(userId: number, day: string): Promise<void> {
+    const connection = await pool.getConnection();
+
+    try {
+      await connection.execute<ResultSetHeader>(
+        `DELETE FROM workoutmealplan_templates WHERE user_id = ? AND day = ?`,
+        [userId, day]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Get the weekday templates for a user
+   */
+  async findTemplatesByUserId(userId: number): Promise<WorkoutMealPlanTemplate[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT * FROM workoutmealplan_templates WHERE user_id = ?
+         ORDER BY FIELD(day, 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday')`,
+        [userId]
+      );
+
+      return rows.map(row => ({
+        id: row.id,
+        user_id: row.user_id,
+        day: row.day,
+        exercises: this.safeJsonParse(row.exercises, []),
+        meals: this.safeJsonParse(row.meals, []),
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+      }));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Create the missing dated plans of a week from the user's templates
+   */
+  async instantiateWeek(userId: number, weekStart: string): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [templates] = await connection.execute<RowDataPacket[]>(
+        `SELECT t.* FROM workoutmealplan_templates t
+         LEFT JOIN workoutmealplans wmp
+           ON wmp.user_id = t.user_id AND wmp.plan_date = DATE_ADD(?, INTERVAL (FIELD(t.day, 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday') - 1) DAY)
+         WHERE t.user_id = ? AND wmp.id IS NULL`,
+        [weekStart, userId]
+      );
+
+      let created = 0;
+      for (const template of templates) {
+        const planId = await this.insertPlan(connection, {
+          userId,
+          day: template.day,
+          planDate: DateUtils.getDateForDay(weekStart, template.day),
+          weekStart,
+          exercises: this.safeJsonParse(template.exercises, []),
+          meals: this.safeJsonParse(template.meals, []),
+        }, true);
+
+        if (planId) {
+          created++;
+        }
+      }
+
+      return created;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Insert a dated plan with its exercises and meals and return its ID
+   */
+  async create(plan: CreatePlanRecord): Promise<number> {
+    const connection = await pool.getConnection();
+
+    try {
+      return await this.insertPlan(connection, plan, false) as number;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Replace the exercises and meals of a plan.
+   * Items are matched by ID so completion of items that remain is kept.
+   */
+  async updateContent(id: number, exercises: Exercise[], meals: Meal[]): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [plans] = await connection.execute<RowDataPacket[]>(`SELECT id FROM workoutmealplans WHERE id = ?`, [id]);
+      if (plans.length === 0) {
+        return false;
+      }
+
+      await connection.beginTransaction();
+      try {
+        await this.removeMissingItems(connection, id, 'exercises', exercises.map(exercise => exercise.id));
+        await this.removeMissingItems(connection, id, 'meals', meals.map(meal => meal.id));
+
+        for (const [position, exercise] of exercises.entries()) {
+          await this.upsertExercise(connection, id, exercise, position);
+        }
+        for (const [position, meal] of meals.entries()) {
+          await this.upsertMeal(connection, id, meal, position);
+        }
+
+        await connection.execute(`UPDATE workoutmealplans SET updated_at = CURRENT_TIMESTAMP WHERE id = ?`, [id]);
+        await connection.commit();
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      }
+
+      return true;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Mark a single exercise or meal of a plan as done or not done
+   */
+  async setItemCompleted(planId: number, kind: PlanItemKind, itemId: string, completed: boolean): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const table = kind === 'exercises' ? 'plan_exercises' : 'plan_meals';
+      const keyColumn = kind === 'exercises' ? 'exercise_key' : 'meal_key';
+      const completionTable = kind === 'exercises' ? 'plan_exercise_completions' : 'plan_meal_completions';
+      const completionColumn = kind === 'exercises' ? 'plan_exercise_id' : 'plan_meal_id';
+
+      const [items] = await connection.execute<RowDataPacket[]>(
+        `SELECT id FROM ${table} WHERE plan_id = ? AND ${keyColumn} = ?`,
+        [planId, itemId]
+      );
+      if (items.length === 0) {
+        return false;
+      }
+
+      if (completed) {
+        await connection.execute(
+          `INSERT IGNORE INTO ${completionTable} (${completionColumn}) VALUES (?)`,
+          [items[0].id]
+        );
+      } else {
+        await connection.execute(`DELETE FROM ${completionTable} WHERE ${completionColumn} = ?`, [items[0].id]);
+      }
+
+      await connection.execute(`UPDATE workoutmealplans SET updated_at = CURRENT_TIMESTAMP WHERE id = ?`, [planId]);
+      return true;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Mark a meal of a plan as consumed with how much of it was eaten, or as not consumed (null)
+   */
+  async setMealConsumption(planId: number, mealId: string, consumption: MealConsumption | null): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [meals] = await connection.execute<RowDataPacket[]>(
+        `SELECT id FROM plan_meals WHERE plan_id = ? AND meal_key = ?`,
+        [planId, mealId]
+      );
+      if (meals.length === 0) {
+        return false;
+      }
+      const planMealId = meals[0].id;
+
+      await connection.beginTransaction();
+
+      // Per-food quantities go with the completion row they belong to
+      await connection.execute(`DELETE FROM plan_meal_completions WHERE plan_meal_id = ?`, [planMealId]);
+
+      if (consumption) {
+        await connection.execute(
+          `INSERT INTO plan_meal_completions (plan_meal_id, portion) VALUES (?, ?)`,
+          [planMealId, consumption.portion]
+        );
+
+        for (const food of consumption.foods || []) {
+          await connection.execute(
+            `INSERT INTO plan_meal_food_completions (plan_meal_id, food_position, quantity) VALUES (?, ?, ?)`,
+            [planMealId, food.index, food.quantity]
+          );
+        }
+      }
+
+      await connection.execute(`UPDATE workoutmealplans SET updated_at = CURRENT_TIMESTAMP WHERE id = ?`, [planId]);
+      await connection.commit();
+      return true;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Clear the completion of every exercise or meal of a plan
+   */
+  async clearCompleted(planId: number, kind: PlanItemKind): Promise<void> {
+    const connection = await pool.getConnection();
+
+    try {
+      if (kind === 'exercises') {
+        await connection.execute(
+          `DELETE pec FROM plan_exercise_completions pec
+           JOIN plan_exercises pe ON pe.id = pec.plan_exercise_id WHERE pe.plan_id = ?`,
+          [planId]
+        );
+      } else {
+        await connection.execute(
+          `DELETE pmc FROM plan_meal_completions pmc
+           JOIN plan_meals pm ON pm.id = pmc.plan_meal_id WHERE pm.plan_id = ?`,
+          [planId]
+        );
+      }
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Set or clear the date a plan was fully completed
+   */
+  async setDateCompleted(planId: number, dateCompleted: Date | null): Promise<void> {
+    const connection = await pool.getConnection();
+
+    try {
+      await connection.execute(
+        `UPDATE workoutmealplans SET date_completed = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [dateCompleted, planId]
+      );
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Append a meal to a plan
+   */
+  async addMeal(planId: number, meal: Meal): Promise<void> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT COALESCE(MAX(position) + 1, 0) AS next_position FROM plan_meals WHERE plan_id = ?`,
+        [planId]
+      );
+
+      await connection.beginTransaction();
+      try {
+        await this.upsertMeal(connection, planId, meal, rows[0].next_position);
+        await connection.commit();
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      }
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Update a single meal of a plan (and replace its foods)
+   */
+  async updateMeal(planId: number, meal: Meal): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT position FROM plan_meals WHERE plan_id = ? AND meal_key = ?`,
+        [planId, meal.id]
+      );
+      if (rows.length === 0) {
+        return false;
+      }
+
+      await connection.beginTransaction();
+      try {
+        await this.upsertMeal(connection, planId, meal, rows[0].position);
+        await connection.commit();
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      }
+
+      return true;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Remove a single meal from a plan
+   */
+  async deleteMeal(planId: number, mealId: string): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM plan_meals WHERE plan_id = ? AND meal_key = ?`,
+        [planId, mealId]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Find plan by ID
+   */
+  async findById(id: number): Promise<WorkoutMealPlan | null> {
+    const plans = await this.findMany(`SELECT * FROM workoutmealplans WHERE id = ?`, [id]);
+    return plans[0] || null;
+  }
+
+  /**
+   * Find plan by user and calendar date (YYYY-MM-DD)
+   */
+  async findByUserAndDate(userId: number, planDate: string): Promise<WorkoutMealPlan | null> {
+    const plans = await this.findMany(
+      `SELECT * FROM workoutmealplans WHERE user_id = ? AND plan_date = ?`,
+      [userId, planDate]
+    );
+    return plans[0] || null;
+  }
+
+  /**
+   * Get the plans of a week (Monday date) for a user
+   */
+  async findByWeek(userId: number, weekStart: string): Promise<WorkoutMealPlan[]> {
+    return this.findMany(
+      `SELECT * FROM workoutmealplans WHERE user_id = ? AND week_start = ? ORDER BY plan_date`,
+      [userId, weekStart]
+    );
+  }
+
+  /**
+   * Get plans between two dates (inclusive) for a user
+   */
+  async findByDateRange(userId: number, fromDate: string, toDate: string): Promise<WorkoutMealPlan[]> {
+    return this.findMany(
+      `SELECT * FROM workoutmealplans WHERE user_id = ? AND plan_date BETWEEN ? AND ? ORDER BY plan_date`,
+      [userId, fromDate, toDate]
+    );
+  }
+
+  /**
+   * Get the weeks (Monday dates) that have plans for a user, most recent first
+   */
+  async findWeekStarts(userId: number, limit: number): Promise<string[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT DISTINCT week_start FROM workoutmealplans WHERE user_id = ? ORDER BY week_start DESC LIMIT ${Math.max(1, Math.floor(limit))}`,
+        [userId]
+      );
+
+      return rows.map(row => DateUtils.normalizeDateColumn(row.week_start));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Get plans of every user with the given goal
+   */
+  async findByGoal(goal: 'weight_loss' | 'muscle_gain' | 'maintenance'): Promise<WorkoutMealPlan[]> {
+    return this.findMany(
+      `SELECT wmp.* FROM workoutmealplans wmp
+       JOIN users u ON wmp.user_id = u.id
+       WHERE u.goal = ?
+       ORDER BY wmp.created_at DESC`,
+      [goal]
+    );
+  }
+
+  /**
+   * Delete a plan owned by the user (items and completions cascade)
+   */
+  async delete(id: number, userId: number): Promise<boolean> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `DELETE FROM workoutmealplans WHERE id = ? AND user_id = ?`,
+        [id, userId]
+      );
+
+      return result.affectedRows > 0;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Planned and completed exercise counts per muscle group between two dates (working exercises only)
+   */
+  async getMuscleGroupStats(userId: number, fromDate: string, toDate: string): Promise<MuscleGroupStats[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT COALESCE(pe.muscle_group, 'other') AS muscle_group,
+                COUNT(*) AS total,
+                COUNT(pec.plan_exercise_id) AS completed
+         FROM plan_exercises pe
+         JOIN workoutmealplans wmp ON wmp.id = pe.plan_id
+         LEFT JOIN plan_exercise_completions pec ON pec.plan_exercise_id = pe.id
+         WHERE wmp.user_id = ? AND wmp.plan_date BETWEEN ? AND ? AND pe.section = 'main'
+         GROUP BY COALESCE(pe.muscle_group, 'other')`,
+        [userId, fromDate, toDate]
+      );
+
+      return rows.map(row => ({
+        muscleGroup: row.muscle_group,
+        total: Number(row.total),
+        completed: Number(row.completed),
+      }));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Planned and consumed meals, calories and macros per plan day between two dates
+   */
+  async getDailyNutritionStats(userId: number, fromDate: string, toDate: string): Promise<DailyNutritionStats[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(
+        `SELECT wmp.day, wmp.plan_date,
+                COUNT(pm.id) AS total_meals,
+                COUNT(pmc.plan_meal_id) AS consumed_meals,
+                COALESCE(SUM(pm.calories), 0) AS total_calories,
+                COALESCE(SUM(IF(pmc.plan_meal_id IS NULL, 0, pm.calories * pmc.portion)), 0) AS consumed_calories,
+                COALESCE(SUM(pm.protein), 0) AS total_protein,
+                COALESCE(SUM(IF(pmc.plan_meal_id IS NULL, 0, pm.protein * pmc.portion)), 0) AS consumed_protein,
+                COALESCE(SUM(pm.carbs), 0) AS total_carbs,
+                COALESCE(SUM(IF(pmc.plan_meal_id IS NULL, 0, pm.carbs * pmc.portion)), 0) AS consumed_carbs,
+                COALESCE(SUM(pm.fat), 0) AS total_fat,
+                COALESCE(SUM(IF(pmc.plan_meal_id IS NULL, 0, pm.fat * pmc.portion)), 0) AS consumed_fat
+         FROM workoutmealplans wmp
+         LEFT JOIN plan_meals pm ON pm.plan_id = wmp.id
+         LEFT JOIN plan_meal_completions pmc ON pmc.plan_meal_id = pm.id
+         WHERE wmp.user_id = ? AND wmp.plan_date BETWEEN ? AND ?
+         GROUP BY wmp.id, wmp.day, wmp.plan_date
+         ORDER BY wmp.plan_date`,
+        [userId, fromDate, toDate]
+      );
+
+      return rows.map(row => ({
+        day: row.day,
+        planDate: DateUtils.normalizeDateColumn(row.plan_date),
+        totalMeals: Number(row.total_meals),
+        consumedMeals: Number(row.consumed_meals),
+        totalCalories: Number(row.total_calories),
+        consumedCalories: Number(row.consumed_calories),
+        totalProtein: Number(row.total_protein),
+        consumedProtein: Number(row.consumed_protein),
+        totalCarbs: Number(row.total_carbs),
+        consumedCarbs: Number(row.consumed_carbs),
+        totalFat: Number(row.total_fat),
+        consumedFat: Number(row.consumed_fat),
+      }));
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Insert a plan row and its items in one transaction.
+   * With ignoreDuplicate, a plan that already exists for the date is skipped and null returned.
+   */
+  private async insertPlan(connection: PoolConnection, plan: CreatePlanRecord, ignoreDuplicate: boolean): Promise<number | null> {
+    await connection.beginTransaction();
+
+    try {
+      const [result] = await connection.execute<ResultSetHeader>(
+        `INSERT ${ignoreDuplicate ? 'IGNORE ' : ''}INTO workoutmealplans (user_id, day, plan_date, week_start) VALUES (?, ?, ?, ?)`,
+        [plan.userId, plan.day, plan.planDate, plan.weekStart]
+      );
+
+      if (result.affectedRows === 0) {
+        await connection.commit();
+        return null;
+      }
+
+      for (const [position, exercise] of plan.exercises.entries()) {
+        await this.upsertExercise(connection, result.insertId, exercise, position);
+      }
+      for (const [position, meal] of plan.meals.entries()) {
+        await this.upsertMeal(connection, result.insertId, meal, position);
+      }
+
+      await connection.commit();
+      return result.insertId;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Insert or update an exercise of a plan, keyed by its ID
+   */
+  private async upsertExercise(connection: PoolConnection, planId: number, exercise: Exercise, position: number): Promise<void> {
+    await connection.execute(
+      `INSERT INTO plan_exercises (plan_id, exercise_key, position, name, sets, reps, weight, duration, instructions, muscle_group, catalog_id, section,
+         exercise_type, cardio_modality, distance_km, pace_seconds_per_km, heart_rate_zone, interval_rest_seconds, met, unavailable)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE position = VALUES(position), name = VALUES(name), sets = VALUES(sets), reps = VALUES(reps),
+         weight = VALUES(weight), duration = VALUES(duration), instructions = VALUES(instructions), muscle_group = VALUES(muscle_group),
+         catalog_id = VALUES(catalog_id), section = VALUES(section), exercise_type = VALUES(exercise_type),
+         cardio_modality = VALUES(cardio_modality), distance_km = VALUES(distance_km), pace_seconds_per_km = VALUES(pace_seconds_per_km),
+         heart_rate_zone = VALUES(heart_rate_zone), interval_rest_seconds = VALUES(interval_rest_seconds), met = VALUES(met),
+         unavailable = VALUES(unavailable)`,
+      [
+        planId,
+        exercise.id,
+        position,
+        exercise.name,
+        exercise.sets,
+        exercise.reps,
+        exercise.weight ?? null,
+        exercise.duration ?? null,
+        exercise.instructions ?? null,
+        exercise.muscle_group ?? null,
+        exercise.catalog_id ?? null,
+        exercise.section || 'main',
+        // Interval rounds and work time are the exercise's sets and duration
+        exercise.cardio ? 'cardio' : 'strength',
+        exercise.cardio?.modality ?? null,
+        exercise.cardio?.distance_km ?? null,
+        exercise.cardio?.pace_seconds_per_km ?? null,
+        exercise.cardio?.heart_rate_zone ?? null,
+        exercise.cardio?.intervals?.rest_seconds ?? null,
+        exercise.met ?? null,
+        exercise.unavailable === true,
+      ]
+    );
+  }
+
+  /**
+   * Insert or update a meal of a plan, keyed by its ID, and replace its foods
+   */
+  private async upsertMeal(connection: PoolConnection, planId: number, meal: Meal, position: number): Promise<void> {
+    await connection.execute(
+      `INSERT INTO plan_meals (plan_id, meal_key, position, name, type, calories, protein, carbs, fat)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE position = VALUES(position), name = VALUES(name), type = VALUES(type),
+         calories = VALUES(calories), protein = VALUES(protein), carbs = VALUES(carbs), fat = VALUES(fat)`,
+      [planId, meal.id, position, meal.name, meal.type, meal.calories, meal.protein ?? null, meal.carbs ?? null, meal.fat ?? null]
+    );
+
+    const [rows] = await connection.execute<RowDataPacket[]>(
+      `SELECT id FROM plan_meals WHERE plan_id = ? AND meal_key = ?`,
+      [planId, meal.id]
+    );
+    const planMealId = rows[0].id;
+
+    // Per-food check-offs point at food positions, so they no longer apply once the foods change;
+    // the portion eaten of the meal is kept
+    const [currentFoods] = await connection.execute<RowDataPacket[]>(
+      `SELECT name, quantity, unit, calories FROM meal_foods WHERE plan_meal_id = ? ORDER BY position`,
+      [planMealId]
+    );
+    const foods = meal.foods || [];
+    const foodsChanged = currentFoods.length !== foods.length || currentFoods.some((row, foodPosition) =>
+      row.name !== foods[foodPosition].name || row.unit !== foods[foodPosition].unit ||
+      Number(row.quantity) !== foods[foodPosition].quantity || Number(row.calories) !== foods[foodPosition].calories
+    );
+    if (foodsChanged) {
+      await connection.execute(`DELETE FROM plan_meal_food_completions WHERE plan_meal_id = ?`, [planMealId]);
+    }
+
+    await connection.execute(`DELETE FROM meal_foods WHERE plan_meal_id = ?`, [planMealId]);
+    for (const [foodPosition, food] of foods.entries()) {
+      await connection.execute(
+        `INSERT INTO meal_foods (plan_meal_id, position, name, quantity, unit, calories, protein, carbs, fat, fiber, micronutrients)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          planMealId, foodPosition, food.name, food.quantity, food.unit, food.calories,
+          food.protein ?? null, food.carbs ?? null, food.fat ?? null, food.fiber ?? null,
+          food.micronutrients ? JSON.stringify(food.micronutrients) : null,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Delete the exercises or meals of a plan that are not in the given ID list
+   */
+  private async removeMissingItems(connection: PoolConnection, planId: number, kind: PlanItemKind, keepIds: string[]): Promise<void> {
+    const table = kind === 'exercises' ? 'plan_exercises' : 'plan_meals';
+    const keyColumn = kind === 'exercises' ? 'exercise_key' : 'meal_key';
+
+    if (keepIds.length === 0) {
+      await connection.execute(`DELETE FROM ${table} WHERE plan_id = ?`, [planId]);
+      return;
+    }
+
+    await connection.execute(
+      `DELETE FROM ${table} WHERE plan_id = ? AND ${keyColumn} NOT IN (${keepIds.map(() => '?').join(', ')})`,
+      [planId, ...keepIds]
+    );
+  }
+
+  /**
+   * Run a plan query and load the exercises, meals and completion of every plan found
+   */
+  private async findMany(query: string, params: any[]): Promise<WorkoutMealPlan[]> {
+    const connection = await pool.getConnection();
+
+    try {
+      const [rows] = await connection.execute<RowDataPacket[]>(query, params);
+      if (rows.length === 0) {
+        return [];
+      }
+
+      const plans = rows.map(row => this.mapRowToWorkoutMealPlan(row));
+      const plansById = new Map(plans.map(plan => [plan.id, plan]));
+      const placeholders = plans.map(() => '?').join(', ');
+      const planIds = plans.map(plan => plan.id);
+
+      const [exerciseRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT pe.*, pec.plan_exercise_id IS NOT NULL AS completed FROM plan_exercises pe
+         LEFT JOIN plan_exercise_completions pec ON pec.plan_exercise_id = pe.id
+         WHERE pe.plan_id IN (${placeholders}) ORDER BY pe.plan_id, pe.position`,
+        planIds
+      );
+
+      exerciseRows.forEach(row => {
+        const plan = plansById.get(row.plan_id) as WorkoutMealPlan;
+        plan.exercises.push(this.mapRowToExercise(row));
+        if (row.completed) {
+          plan.completed_status.exercises[row.exercise_key] = true;
+        }
+      });
+
+      const [mealRows] = await connection.execute<RowDataPacket[]>(
+        `SELECT pm.*, pmc.plan_meal_id IS NOT NULL AS completed, pmc.portion FROM plan_meals pm
+         LEFT JOIN plan_meal_completions pmc ON pmc.plan_meal_id = pm.id
+         WHERE pm.plan_id IN (${placeholders}) ORDER BY pm.plan_id, pm.position`,
+        planIds
+      );
+
+      const [foodRows] = mealRows.length > 0 ? await connection.execute<RowDataPacket[]>(
+        `SELECT * FROM meal_foods WHERE plan_meal_id IN (${mealRows.map(() => '?').join(', ')}) ORDER BY plan_meal_id, position`,
+        mealRows.map(row => row.id)
+      ) : [[] as RowDataPacket[]];
+
+      const [foodCompletionRows] = mealRows.length > 0 ? await connection.execute<RowDataPacket[]>(
+        `SELECT * FROM plan_meal_food_completions WHERE plan_meal_id IN (${mealRows.map(() => '?').join(', ')})
+         ORDER BY plan_meal_id, food_position`,
+        mealRows.map(row => row.id)
+      ) : [[] as RowDataPacket[]];
+
+      mealRows.forEach(row => {
+        const plan = plansById.get(row.plan_id) as WorkoutMealPlan;
+        const foods = foodRows.filter(food => food.plan_meal_id === row.id);
+        plan.meals.push(this.mapRowToMeal(row, foods));
+        if (!row.completed) {
+          return;
+        }
+
+        plan.completed_status.meals[row.meal_key] = true;
+        const foodCompletions = foodCompletionRows.filter(food => food.plan_meal_id === row.id);
+        if (Number(row.portion) !== 1 || foodCompletions.length > 0) {
+          plan.completed_status.meal_consumption = {
+            ...plan.completed_status.meal_consumption,
+            [row.meal_key]: {
+              portion: Number(row.portion),
+              foods: foodCompletions.length > 0
+                ? foodCompletions.map(food => ({ index: food.food_position, quantity: Number(food.quantity) }))
+                : undefined,
+            },
+          };
+        }
+      });
+
+      return plans;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Safely parse JSON or return the object if already parsed
+   */
+  private safeJsonParse(value: any, defaultValue: any): any {
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        // Silently return default value for invalid JSON
+        return defaultValue;
+      }
+    } else if (typeof value === 'object' && value !== null) {
+      return value;
+    }
+    return defaultValue;
+  }
+
+  /**
+   * Map database row to WorkoutMealPlan object (items are loaded separately)
+   */
+  private mapRowToWorkoutMealPlan(row: RowDataPacket): WorkoutMealPlan {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      day: row.day,
+      exercises: [],
+      meals: [],
+      completed_status: { exercises: {}, meals: {}, date_completed: row.date_completed || undefined },
+      plan_date: DateUtils.normalizeDateColumn(row.plan_date),
+      week_start: DateUtils.normalizeDateColumn(row.week_start),
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  /**
+   * Map plan_exercises row to Exercise object
+   */
+  private mapRowToExercise(row: RowDataPacket): Exercise {
+    const exercise: Exercise = {
+      id: row.exercise_key,
+      name: row.name,
+      sets: row.sets,
+      reps: row.reps,
+      weight: row.weight !== null ? Number(row.weight) : undefined,
+      duration: row.duration ?? undefined,
+      instructions: row.instructions ?? undefined,
+      muscle_group: row.muscle_group ?? undefined,
+      catalog_id: row.catalog_id ?? undefined,
+      section: row.section,
+      met: row.met !== null ? Number(row.met) : undefined,
+      unavailable: row.unavailable ? true : undefined,
+    };
+
+    if (row.exercise_type !== 'cardio') {
+      return exercise;
+    }
+
+    return {
+      ...exercise,
+      type: 'cardio',
+      cardio: {
+        modality: row.cardio_modality,
+        distance_km: row.distance_km !== null ? Number(row.distance_km) : undefined,
+        pace_seconds_per_km: row.pace_seconds_per_km ?? undefined,
+        heart_rate_zone: row.heart_rate_zone ?? undefined,
+        intervals: row.interval_rest_seconds !== null ? {
+          rounds: row.sets,
+          work_seconds: row.duration ?? 0,
+          rest_seconds: row.interval_rest_seconds,
+        } : undefined,
+      },
+    };
+  }
+
+  /**
+   * Map plan_meals row and its meal_foods rows to Meal object
+   */
+  private mapRowToMeal(row: RowDataPacket, foods: RowDataPacket[]): Meal {
+    return {
+      id: row.meal_key,
+      name: row.name,
+      type: row.type,
+      calories: Number(row.calories),
+      protein: row.protein !== null ? Number(row.protein) : undefined,
+      carbs: row.carbs !== null ? Number(row.carbs) : undefined,
+      fat: row.fat !== null ? Number(row.fat) : undefined,
+      foods: foods.map(food => ({
+        name: food.name,
+        quantity: Number(food.quantity),
+        unit: food.unit,
+        calories: Number(food.calories),
+        protein: food.protein !== null ? Number(food.protein) : undefined,
+        carbs: food.carbs !== null ? Number(food.carbs) : undefined,
+        fat: food.fat !== null ? Number(food.fat) : undefined,
+        fiber: food.fiber !== null ? Number(food.fiber) : undefined,
+        micronutrients: this.safeJsonParse(food.micronutrients, undefined),
+      })),
+    };
+  }
+}
@@ -59,7 +59,7 @@ router.put('/profile', authenticate, validate(updateProfileSchema), AuthControll
 
 /**
  * @route   PUT /api/v1/auth/goals
- * @desc    Update user fitness goals
+ * @desc    Update user fitness goals (optionally with a target weight and date)
  * @access  Private
  */
 router.put('/goals', authenticate, validate(updateGoalsSchema), AuthController.updateGoals);
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { ExerciseController } from '../controllers/exerciseController';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validatePagination } from '../middleware/validation';
+import { createExerciseSchema, updateExerciseSchema } from '../validators/exercise';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/exercises
+ * @desc    Search the exercise catalog (search, muscle, equipment, difficulty)
+ * @access  Private (User)
+ */
+router.get('/', validatePagination, ExerciseController.searchExercises);
+
+/**
+ * @route   GET /api/v1/exercises/:id
+ * @desc    Get a catalog exercise
+ * @access  Private (User)
+ */
+router.get('/:id', ExerciseController.getExerciseById);
+
+/**
+ * @route   POST /api/v1/exercises
+ * @desc    Add an exercise to the catalog
+ * @access  Private (Admin)
+ */
+router.post('/', authorize('admin'), validate(createExerciseSchema), ExerciseController.createExercise);
+
+/**
+ * @route   PUT /api/v1/exercises/:id
+ * @desc    Update a catalog exercise
+ * @access  Private (Admin)
+ */
+router.put('/:id', authorize('admin'), validate(updateExerciseSchema), ExerciseController.updateExercise);
+
+/**
+ * @route   DELETE /api/v1/exercises/:id
+ * @desc    Remove an exercise from the catalog
+ * @access  Private (Admin)
+ */
+router.delete('/:id', authorize('admin'), ExerciseController.deleteExercise);
+
+export default router;
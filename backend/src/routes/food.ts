@@ -1,12 +1,12 @@
 import { Router } from 'express';
 import { FoodController } from '../controllers/foodController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
 
 const router = Router();
 
 /**
  * @route   GET /api/v1/foods/search
- * @desc    Search for foods in USDA database
+ * @desc    Search for foods in the local food database (USDA API as fallback)
  * @access  Public (no auth required for food search)
  */
 router.get('/search', FoodController.searchFoods);
@@ -27,14 +27,21 @@ router.get('/popular/indian', FoodController.getPopularIndianFoods);
 
 /**
  * @route   GET /api/v1/foods/validate-api
- * @desc    Validate USDA API key configuration
+ * @desc    Validate USDA API key configuration and report the local food database size
  * @access  Public (for debugging)
  */
 router.get('/validate-api', FoodController.validateApiKey);
 
+/**
+ * @route   GET /api/v1/foods/cache-stats
+ * @desc    Get USDA lookup cache hit and miss counts
+ * @access  Private (Admin)
+ */
+router.get('/cache-stats', authenticate, authorize('admin'), FoodController.getCacheStats);
+
 /**
  * @route   GET /api/v1/foods/:fdcId
- * @desc    Get detailed food information by FDC ID
+ * @desc    Get detailed food information by FDC ID (local food database first)
  * @access  Public
  */
 router.get('/:fdcId', FoodController.getFoodById);
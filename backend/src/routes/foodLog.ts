@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { FoodLogController } from '../controllers/foodLogController';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { logFoodSchema, updateFoodLogSchema } from '../validators/foodLog';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/food-log
+ * @desc    Get a day of the food diary by meal slot, with the day's totals
+ * @access  Private (User)
+ * @query   date (optional, YYYY-MM-DD, today by default)
+ */
+router.get('/', FoodLogController.getDiary);
+
+/**
+ * @route   GET /api/v1/food-log/intake
+ * @desc    Get logged calories and macros of each day with diary entries
+ * @access  Private (User)
+ * @query   from, to (optional, YYYY-MM-DD, the last 7 days by default)
+ */
+router.get('/intake', FoodLogController.getIntake);
+
+/**
+ * @route   GET /api/v1/food-log/micronutrients
+ * @desc    Get a day's fiber and micronutrient intake against the daily targets for the user's age and sex
+ * @access  Private (User)
+ * @query   date (optional, YYYY-MM-DD, today by default)
+ */
+router.get('/micronutrients', FoodLogController.getMicronutrients);
+
+/**
+ * @route   POST /api/v1/food-log
+ * @desc    Log a USDA food, servings of a planned meal, or quick-added calories and macros
+ * @access  Private (User)
+ */
+router.post('/', validate(logFoodSchema), FoodLogController.logFood);
+
+/**
+ * @route   PUT /api/v1/food-log/:id
+ * @desc    Move a diary entry or change its quantity (and a quick add's nutrition)
+ * @access  Private (User)
+ */
+router.put('/:id', validate(updateFoodLogSchema), FoodLogController.updateEntry);
+
+/**
+ * @route   DELETE /api/v1/food-log/:id
+ * @desc    Delete a diary entry
+ * @access  Private (User)
+ */
+router.delete('/:id', FoodLogController.deleteEntry);
+
+export default router;
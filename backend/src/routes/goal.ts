@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { GoalController } from '../controllers/goalController';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { createGoalSchema, updateGoalSchema } from '../validators/goal';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/goals
+ * @desc    Get goals with progress, required weekly rate, projection and on-track status
+ * @access  Private (User)
+ * @query   status (optional: active, achieved, cancelled)
+ */
+router.get('/', GoalController.getGoals);
+
+/**
+ * @route   POST /api/v1/goals
+ * @desc    Set a weight, body fat or strength goal with a target date
+ * @access  Private (User)
+ */
+router.post('/', validate(createGoalSchema), GoalController.createGoal);
+
+/**
+ * @route   PUT /api/v1/goals/:id
+ * @desc    Update a goal's target, date or status
+ * @access  Private (User)
+ */
+router.put('/:id', validate(updateGoalSchema), GoalController.updateGoal);
+
+/**
+ * @route   DELETE /api/v1/goals/:id
+ * @desc    Delete a goal
+ * @access  Private (User)
+ */
+router.delete('/:id', GoalController.deleteGoal);
+
+export default router;
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { MealController } from '../controllers/mealController';
 import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { consumeMealSchema } from '../validators/mealConsumption';
 
 const router = Router();
 
@@ -23,8 +25,9 @@ router.get('/progress', MealController.getMealProgress);
 
 /**
  * @route   GET /api/v1/meals/nutrition-goals
- * @desc    Get nutrition goals for user
+ * @desc    Get nutrition goals for user from the weekly adaptive calorie target, with the adjustment history
  * @access  Private (User)
+ * @query   day (optional, adds part of that day's workout calories)
  */
 router.get('/nutrition-goals', MealController.getNutritionGoals);
 
@@ -58,10 +61,11 @@ router.get('/:day/recommendations', MealController.getMealRecommendations);
 
 /**
  * @route   POST /api/v1/meals/:day/consume
- * @desc    Mark meal as consumed/not consumed
+ * @desc    Mark meal as consumed (all of it, a portion, or per food) or not consumed,
+ *          logging what was eaten to, or removing it from, the food diary
  * @access  Private (User)
  */
-router.post('/:day/consume', MealController.markMealConsumed);
+router.post('/:day/consume', validate(consumeMealSchema), MealController.markMealConsumed);
 
 /**
  * @route   POST /api/v1/meals/:day
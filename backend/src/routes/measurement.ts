@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { MeasurementController } from '../controllers/measurementController';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { recordMeasurementSchema } from '../validators/measurement';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/measurements
+ * @desc    Get body measurements, oldest first
+ * @access  Private (User)
+ * @query   from, to (optional, YYYY-MM-DD)
+ */
+router.get('/', MeasurementController.getMeasurements);
+
+/**
+ * @route   GET /api/v1/measurements/trends
+ * @desc    Get smoothed trends and weekly rate of change of weight, body fat and circumferences
+ * @access  Private (User)
+ * @query   from (optional, YYYY-MM-DD)
+ */
+router.get('/trends', MeasurementController.getTrends);
+
+/**
+ * @route   POST /api/v1/measurements
+ * @desc    Record weight, body fat and/or circumferences
+ * @access  Private (User)
+ */
+router.post('/', validate(recordMeasurementSchema), MeasurementController.recordMeasurement);
+
+/**
+ * @route   DELETE /api/v1/measurements/:id
+ * @desc    Delete a body measurement
+ * @access  Private (User)
+ */
+router.delete('/:id', MeasurementController.deleteMeasurement);
+
+export default router;
@@ -50,6 +50,20 @@ router.get('/streak', ProgressController.getWorkoutStreak);
  */
 router.get('/muscle-groups', ProgressController.getMuscleGroupProgress);
 
+/**
+ * @route   GET /api/v1/progress/cardio
+ * @desc    Get weekly cardio minutes and distance
+ * @access  Private (User)
+ */
+router.get('/cardio', ProgressController.getCardioProgress);
+
+/**
+ * @route   GET /api/v1/progress/calories
+ * @desc    Get estimated calories burned per day and for the week
+ * @access  Private (User)
+ */
+router.get('/calories', ProgressController.getCalorieProgress);
+
 /**
  * @route   GET /api/v1/progress/time-analytics
  * @desc    Get time-based analytics
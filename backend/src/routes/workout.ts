@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { WorkoutController } from '../controllers/workoutController';
 import { authenticate } from '../middleware/auth';
+import { validate, validatePagination } from '../middleware/validation';
+import { logSetSchema, updateSetSchema, progressionSchemeSchema, equipmentProfileSchema, trainingPreferencesSchema, swapExerciseSchema, completeSessionSchema } from '../validators/workout';
 
 const router = Router();
 
@@ -49,6 +51,55 @@ router.get('/statistics', WorkoutController.getWorkoutStatistics);
  */
 router.post('/reset-progress', WorkoutController.resetWorkoutProgress);
 
+/**
+ * @route   GET /api/v1/workouts/progression
+ * @desc    Get next-session load proposals and deload warnings (?day)
+ * @access  Private (User)
+ */
+router.get('/progression', WorkoutController.getProgression);
+
+/**
+ * @route   PUT /api/v1/workouts/progression/scheme
+ * @desc    Select progression scheme (linear, double_progression, percentage)
+ * @access  Private (User)
+ */
+router.put('/progression/scheme', validate(progressionSchemeSchema), WorkoutController.updateProgressionScheme);
+
+/**
+ * @route   PUT /api/v1/workouts/equipment-profile
+ * @desc    Select equipment profile (home, dumbbells, full_gym, travel) and swap infeasible exercises
+ * @access  Private (User)
+ */
+router.put('/equipment-profile', validate(equipmentProfileSchema), WorkoutController.updateEquipmentProfile);
+
+/**
+ * @route   PUT /api/v1/workouts/training-preferences
+ * @desc    Set training days per week, split, rest days and per-day time budgets, and regenerate the routine
+ * @access  Private (User)
+ */
+router.put('/training-preferences', validate(trainingPreferencesSchema), WorkoutController.updateTrainingPreferences);
+
+/**
+ * @route   POST /api/v1/workouts/archive-week
+ * @desc    Archive a week's workout progress (body: weekStart, defaults to current week)
+ * @access  Private (User)
+ */
+router.post('/archive-week', WorkoutController.archiveCurrentWeek);
+
+/**
+ * @route   GET /api/v1/workouts/archived-weeks
+ * @desc    Get archived weeks (?page&limit&from&to&min_completion&max_completion&include_days)
+ * @access  Private (User)
+ */
+router.get('/archived-weeks', validatePagination, WorkoutController.getArchivedWeeks);
+
+/**
+ * @route   GET /api/v1/workouts/archived-weeks/:weekStart
+ * @desc    Get full snapshot of an archived week
+ * @access  Private (User)
+ */
+router.get('/archived-weeks/:weekStart', WorkoutController.getArchivedWeek);
+
 /**
  * @route   GET /api/v1/workouts
  * @desc    Get all workout plans for user
@@ -85,17 +136,59 @@ router.delete('/:day', WorkoutController.deleteWorkoutPlan);
 router.post('/:day/complete-exercise', WorkoutController.markExerciseCompleted);
 
 /**
- * @route   POST /api/v1/workouts/archive-week
- * @desc    Archive current week's workout progress
+ * @route   GET /api/v1/workouts/:day/sets
+ * @desc    Get all sets logged for a day
  * @access  Private (User)
  */
-router.post('/archive-week', WorkoutController.archiveCurrentWeek);
+router.get('/:day/sets', WorkoutController.getSetLogs);
 
 /**
- * @route   GET /api/v1/workouts/archived-weeks
- * @desc    Get archived weeks for progress history
+ * @route   PUT /api/v1/workouts/:day/sets/:setId
+ * @desc    Update a logged set
+ * @access  Private (User)
+ */
+router.put('/:day/sets/:setId', validate(updateSetSchema), WorkoutController.updateExerciseSet);
+
+/**
+ * @route   DELETE /api/v1/workouts/:day/sets/:setId
+ * @desc    Delete a logged set
+ * @access  Private (User)
+ */
+router.delete('/:day/sets/:setId', WorkoutController.deleteExerciseSet);
+
+/**
+ * @route   POST /api/v1/workouts/:day/session
+ * @desc    Record a finished guided session (all performed sets in one call)
+ * @access  Private (User)
+ */
+router.post('/:day/session', validate(completeSessionSchema), WorkoutController.completeSession);
+
+/**
+ * @route   GET /api/v1/workouts/:day/exercises/:exerciseId/sets
+ * @desc    Get the sets logged for an exercise
+ * @access  Private (User)
+ */
+router.get('/:day/exercises/:exerciseId/sets', WorkoutController.getSetLogs);
+
+/**
+ * @route   GET /api/v1/workouts/:day/exercises/:exerciseId/alternatives
+ * @desc    Get substitutes for an exercise ranked by muscle group, equipment and difficulty
+ * @access  Private (User)
+ */
+router.get('/:day/exercises/:exerciseId/alternatives', WorkoutController.getExerciseAlternatives);
+
+/**
+ * @route   POST /api/v1/workouts/:day/exercises/:exerciseId/swap
+ * @desc    Swap an exercise for a catalog exercise (optionally for future weeks too)
+ * @access  Private (User)
+ */
+router.post('/:day/exercises/:exerciseId/swap', validate(swapExerciseSchema), WorkoutController.swapExercise);
+
+/**
+ * @route   POST /api/v1/workouts/:day/exercises/:exerciseId/sets
+ * @desc    Log a performed set (reps, weight, RPE/RIR, rest, notes)
  * @access  Private (User)
  */
-router.get('/archived-weeks', WorkoutController.getArchivedWeeks);
+router.post('/:day/exercises/:exerciseId/sets', validate(logSetSchema), WorkoutController.logExerciseSet);
 
 export default router;
\ No newline at end of file
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { WorkoutMealPlanController } from '../controllers/workoutMealPlanController';
 import { authenticate, authorize } from '../middleware/auth';
 import { validate } from '../middleware/validation';
+import { mealPortion, consumedFoods } from '../validators/mealConsumption';
+import { TRACKED_NUTRIENTS } from '../data/micronutrients';
 import Joi from 'joi';
 
 const router = Router();
@@ -51,6 +53,16 @@ const createWorkoutMealPlanSchema = Joi.object({
               quantity: Joi.number().min(0).required(),
               unit: Joi.string().required(),
               calories: Joi.number().min(0).required(),
+              protein: Joi.number().min(0).optional(),
+              carbs: Joi.number().min(0).optional(),
+              fat: Joi.number().min(0).optional(),
+              fiber: Joi.number().min(0).optional(),
+              micronutrients: Joi.object()
+                .pattern(
+                  Joi.string().valid(...Object.keys(TRACKED_NUTRIENTS).filter(key => key !== 'fiber')),
+                  Joi.number().min(0)
+                )
+                .optional(),
             })
           )
           .required(),
@@ -66,9 +78,17 @@ const updateCompletedStatusSchema = Joi.object({
   exercise_id: Joi.string().optional(),
   meal_id: Joi.string().optional(),
   completed: Joi.boolean().required(),
-}).or('exercise_id', 'meal_id').messages({
-  'object.missing': 'Either exercise_id or meal_id must be provided',
-});
+  portion: mealPortion.optional(),
+  foods: consumedFoods.optional(),
+}).or('exercise_id', 'meal_id')
+  .oxor('portion', 'foods')
+  .with('portion', 'meal_id')
+  .with('foods', 'meal_id')
+  .messages({
+    'object.missing': 'Either exercise_id or meal_id must be provided',
+    'object.oxor': 'Give either the portion eaten or the quantities eaten per food, not both',
+    'object.with': 'Only meals can be partly consumed',
+  });
 
 const generateDefaultPlansSchema = Joi.object({
   goal: Joi.string()
@@ -101,6 +121,34 @@ router.get('/progress', authenticate, WorkoutMealPlanController.getWeeklyProgres
  */
 router.get('/statistics', authenticate, WorkoutMealPlanController.getPlanStatistics);
 
+/**
+ * @route   GET /api/v1/workout-meal-plans/weeks
+ * @desc    Get weeks with plan history for current user
+ * @access  Private
+ */
+router.get('/weeks', authenticate, WorkoutMealPlanController.getPlanWeeks);
+
+/**
+ * @route   GET /api/v1/workout-meal-plans/weeks/:weekStart
+ * @desc    Get plans and progress for a specific week (YYYY-MM-DD)
+ * @access  Private
+ */
+router.get('/weeks/:weekStart', authenticate, WorkoutMealPlanController.getPlansByWeek);
+
+/**
+ * @route   GET /api/v1/workout-meal-plans/history
+ * @desc    Get dated plan history (?from=YYYY-MM-DD&to=YYYY-MM-DD)
+ * @access  Private
+ */
+router.get('/history', authenticate, WorkoutMealPlanController.getPlanHistory);
+
+/**
+ * @route   GET /api/v1/workout-meal-plans/templates
+ * @desc    Get weekday templates new weeks are created from
+ * @access  Private
+ */
+router.get('/templates', authenticate, WorkoutMealPlanController.getTemplates);
+
 /**
  * @route   GET /api/v1/workout-meal-plans/goal/:goal
  * @desc    Get plans by goal (User only)
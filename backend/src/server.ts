@@ -6,9 +6,11 @@ import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 
 import { config, validateConfig } from './config/app';
-import { testConnection, initializeDatabase, closeDatabase } from './config/database';
+import { testConnection, closeDatabase } from './config/database';
+import { Migrator } from './migrations/migrator';
 import { logger } from './utils/logger';
 import { EmailService } from './services/emailService';
+import { WeekRolloverService } from './services/weekRolloverService';
 import { errorHandler, notFoundHandler, handleUncaughtException, handleUnhandledRejection, handleGracefulShutdown } from './middleware/errorHandler';
 import { sanitizeInput } from './middleware/validation';
 
@@ -20,6 +22,10 @@ import workoutRoutes from './routes/workout';
 import progressRoutes from './routes/progress';
 import mealRoutes from './routes/meal';
 import foodRoutes from './routes/food';
+import exerciseRoutes from './routes/exercise';
+import measurementRoutes from './routes/measurement';
+import goalRoutes from './routes/goal';
+import foodLogRoutes from './routes/foodLog';
 
 class Server {
   private app: express.Application;
@@ -100,10 +106,10 @@ class Server {
     // Compression
     this.app.use(compression());
 
-    // Logging
+    // Logging (request logs would drown the output of test runs)
     if (config.nodeEnv === 'development') {
       this.app.use(morgan('dev'));
-    } else {
+    } else if (config.nodeEnv !== 'test') {
       this.app.use(morgan('combined'));
     }
 
@@ -133,7 +139,7 @@ class Server {
       try {
         const { pool } = require('./config/database');
         const connection = await pool.getConnection();
-        const [rows] = await connection.execute('SELECT id, user_id, day, JSON_LENGTH(exercises) as exercise_count, JSON_LENGTH(meals) as meal_count, created_at FROM workoutmealplans LIMIT 10');
+        const [rows] = await connection.execute('SELECT id, user_id, day, plan_date, (SELECT COUNT(*) FROM plan_exercises pe WHERE pe.plan_id = wmp.id) as exercise_count, (SELECT COUNT(*) FROM plan_meals pm WHERE pm.plan_id = wmp.id) as meal_count, created_at FROM workoutmealplans wmp LIMIT 10');
         connection.release();
         
         res.status(200).json({
@@ -224,6 +230,10 @@ class Server {
     apiRouter.use('/progress', progressRoutes);
     apiRouter.use('/meals', mealRoutes);
     apiRouter.use('/foods', foodRoutes);
+    apiRouter.use('/exercises', exerciseRoutes);
+    apiRouter.use('/measurements', measurementRoutes);
+    apiRouter.use('/goals', goalRoutes);
+    apiRouter.use('/food-log', foodLogRoutes);
 
     // Mount API router
     this.app.use(`/api/${config.apiVersion}`, apiRouter);
@@ -258,9 +268,23 @@ class Server {
    * Initialize database connection
    */
   private async initializeDatabase(): Promise<void> {
+    if (config.storageDriver === 'memory') {
+      logger.warn('Using in-memory storage: users and plans are lost on restart');
+      return;
+    }
+
     try {
       await testConnection();
-      await initializeDatabase();
+
+      if (config.dbMigrateOnStartup) {
+        await Migrator.migrate();
+      } else {
+        const pending = await Migrator.pending();
+        if (pending.length > 0) {
+          logger.warn(`${pending.length} pending database migration(s); run "npm run migrate" to apply them`);
+        }
+      }
+
       logger.info('Database initialized successfully');
     } catch (error) {
       logger.error('Database initialization failed:', error);
@@ -293,6 +317,9 @@ class Server {
       // Initialize email service
       await this.initializeEmailService();
 
+      // Start background week rollover
+      WeekRolloverService.start();
+
       // Start server
       this.server = this.app.listen(config.port, () => {
         if (config.nodeEnv === 'development') {
@@ -320,6 +347,8 @@ class Server {
    */
   public async stop(): Promise<void> {
     try {
+      WeekRolloverService.stop();
+
       if (this.server) {
         await new Promise<void>((resolve) => {
           this.server.close(() => {
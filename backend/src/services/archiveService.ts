@@ -0,0 +1,139 @@
+import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
+import { WeeklyArchiveModel } from '../models/WeeklyArchive';
+import { WeeklyArchive, WeeklyArchiveDay, WeeklyArchiveDayTotals, WorkoutMealPlan } from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { DateUtils } from '../utils/date';
+import { WarmupCooldownService } from './warmupCooldownService';
+
+export class ArchiveService {
+  /**
+   * Snapshot a week's plans (exercises, meals, completion) into the archive.
+   * Archiving the same week again refreshes the snapshot.
+   */
+  static async archiveWeek(userId: number, weekStart: string): Promise<WeeklyArchive> {
+    try {
+      const plans = await WorkoutMealPlanModel.findByWeek(userId, weekStart);
+      if (plans.length === 0) {
+        throw new AppError('No plans found for this week', 404, 'PLAN_NOT_FOUND');
+      }
+
+      const dailyTotals = plans.map(plan => this.calculateDayTotals(plan));
+      const days: WeeklyArchiveDay[] = plans.map(plan => ({
+        day: plan.day,
+        planDate: plan.plan_date,
+        exercises: plan.exercises,
+        meals: plan.meals,
+        completedStatus: plan.completed_status,
+      }));
+
+      const totalExercises = dailyTotals.reduce((sum, day) => sum + day.totalExercises, 0);
+      const completedExercises = dailyTotals.reduce((sum, day) => sum + day.completedExercises, 0);
+      const totalMeals = dailyTotals.reduce((sum, day) => sum + day.totalMeals, 0);
+      const completedMeals = dailyTotals.reduce((sum, day) => sum + day.completedMeals, 0);
+      const completionPercentage = totalExercises > 0 ?
+        Math.round((completedExercises / totalExercises) * 100) : 0;
+      const streakDays = this.calculateLongestStreak(dailyTotals);
+
+      const weekStartDate = DateUtils.parseDateString(weekStart) as Date;
+      const { year, week } = DateUtils.getIsoWeek(weekStartDate);
+
+      const archive = await WeeklyArchiveModel.save(userId, {
+        isoYear: year,
+        weekNumber: week,
+        weekStartDate: weekStart,
+        weekEndDate: DateUtils.addDays(weekStart, 6),
+        totalExercises,
+        completedExercises,
+        totalMeals,
+        completedMeals,
+        completionPercentage,
+        streakDays,
+        achievements: this.generateAchievements(completionPercentage, streakDays, totalMeals, completedMeals),
+        dailyTotals,
+        days,
+      });
+
+      logger.info(`Week ${year}-W${week} archived for user ${userId}`);
+      return archive;
+    } catch (error) {
+      logger.error('Error archiving week:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate completion and calorie totals for a single day
+   */
+  private static calculateDayTotals(plan: WorkoutMealPlan): WeeklyArchiveDayTotals {
+    const mainExercises = plan.exercises.filter(ex => WarmupCooldownService.isMainExercise(ex));
+    const completedExercises = mainExercises.filter(ex => plan.completed_status.exercises[ex.id]).length;
+    const consumedMeals = plan.meals.filter(meal => plan.completed_status.meals[meal.id]);
+
+    return {
+      day: plan.day,
+      planDate: plan.plan_date,
+      totalExercises: mainExercises.length,
+      completedExercises,
+      totalMeals: plan.meals.length,
+      completedMeals: consumedMeals.length,
+      plannedCalories: plan.meals.reduce((sum, meal) => sum + meal.calories, 0),
+      consumedCalories: Math.round(consumedMeals.reduce(
+        (sum, meal) => sum + meal.calories * (plan.completed_status.meal_consumption?.[meal.id]?.portion ?? 1), 0
+      )),
+      completionPercentage: mainExercises.length > 0 ?
+        Math.round((completedExercises / mainExercises.length) * 100) : 0,
+    };
+  }
+
+  /**
+   * Longest run of consecutive fully completed workout days (rest days don't break a run)
+   */
+  private static calculateLongestStreak(dailyTotals: WeeklyArchiveDayTotals[]): number {
+    let longestStreak = 0;
+    let tempStreak = 0;
+
+    dailyTotals.forEach(day => {
+      if (day.totalExercises === 0) {
+        return;
+      }
+
+      if (day.completedExercises === day.totalExercises) {
+        tempStreak++;
+        longestStreak = Math.max(longestStreak, tempStreak);
+      } else {
+        tempStreak = 0;
+      }
+    });
+
+    return longestStreak;
+  }
+
+  /**
+   * Generate achievements earned during the week
+   */
+  private static generateAchievements(
+    completionPercentage: number,
+    streakDays: number,
+    totalMeals: number,
+    completedMeals: number
+  ): string[] {
+    const achievements: string[] = [];
+
+    if (completionPercentage >= 100) {
+      achievements.push('Perfect Week! Completed all workouts');
+    } else if (completionPercentage >= 80) {
+      achievements.push('Excellent Progress! Completed most workouts');
+    }
+
+    if (streakDays >= 5) {
+      achievements.push(`Amazing Streak! ${streakDays} days in a row`);
+    }
+
+    if (totalMeals > 0 && completedMeals === totalMeals) {
+      achievements.push('Nutrition Champion! Followed every planned meal');
+    }
+
+    return achievements;
+  }
+}
@@ -0,0 +1,25 @@
+import { BodyTrendService } from './bodyTrendService';
+import { DateUtils } from '../utils/date';
+
+describe('BodyTrendService', () => {
+  it('moves the trend a tenth of the way to each new value, compounding over gaps', () => {
+    const points = BodyTrendService.smooth([
+      { date: '2026-03-01', value: 80 },
+      { date: '2026-03-02', value: 79 },
+      { date: '2026-03-04', value: 79 },
+    ]);
+
+    expect(points.map(point => point.trend)).toEqual([80, 79.9, 79.73]); // 79.9 + 0.19 × (79 − 79.9)
+  });
+
+  it('gives the weekly change once the trend spans a week', () => {
+    const points = Array.from({ length: 15 }, (_, day) => ({
+      date: DateUtils.addDays('2026-03-01', day),
+      value: 80 - day / 10,
+      trend: 80 - day / 10,
+    }));
+
+    expect(BodyTrendService.getWeeklyChange(points.slice(0, 7))).toBeNull();
+    expect(BodyTrendService.getWeeklyChange(points)).toBe(-0.7);
+  });
+});
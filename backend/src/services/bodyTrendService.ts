@@ -0,0 +1,134 @@
+import { BodyMeasurementModel } from '../models/BodyMeasurement';
+import { BodyMeasurement, BodyMetric, BodyMetricTrend, BodyTrends, TrendPoint } from '../types';
+import { DateUtils } from '../utils/date';
+import {
+  CIRCUMFERENCE_SITES,
+  TREND_SMOOTHING_FACTOR,
+  WEEKLY_RATE_WINDOW_DAYS,
+  MIN_WEEKLY_RATE_SPAN_DAYS,
+} from '../data/bodyMeasurements';
+
+export class BodyTrendService {
+  /**
+   * Smoothed trends of every logged metric. The trend is computed over the whole history
+   * so it has settled by fromDate; only the points from fromDate on are returned.
+   */
+  static async getTrends(userId: number, fromDate?: string): Promise<BodyTrends> {
+    const measurements = await BodyMeasurementModel.findByUser(userId);
+    const circumferences: BodyTrends['circumferences'] = {};
+
+    for (const site of CIRCUMFERENCE_SITES) {
+      const trend = this.buildMetricTrend(measurements, site, fromDate);
+      if (trend.points.length > 0) {
+        circumferences[site] = trend;
+      }
+    }
+
+    return {
+      weight: this.buildMetricTrend(measurements, 'weight', fromDate),
+      body_fat_percentage: this.buildMetricTrend(measurements, 'body_fat_percentage', fromDate),
+      circumferences,
+    };
+  }
+
+  /**
+   * Exponentially smoothed trend of daily values (oldest first). Each day without an entry
+   * decays the trend as if it had been measured again, so the factor compounds over gaps.
+   */
+  static smooth(daily: { date: string; value: number }[]): TrendPoint[] {
+    const points: TrendPoint[] = [];
+
+    daily.forEach((entry, index) => {
+      if (index === 0) {
+        points.push({ ...entry, trend: entry.value });
+        return;
+      }
+
+      const previous = points[index - 1];
+      const gapDays = Math.max(DateUtils.daysBetween(previous.date, entry.date), 1);
+      const factor = 1 - Math.pow(1 - TREND_SMOOTHING_FACTOR, gapDays);
+      points.push({ ...entry, trend: this.round(previous.trend + factor * (entry.value - previous.trend)) });
+    });
+
+    return points;
+  }
+
+  /**
+   * Trend change per week: least-squares slope of the trend over the rate window ending at
+   * the latest point; null until the window spans at least a week
+   */
+  static getWeeklyChange(points: TrendPoint[]): number | null {
+    if (points.length < 2) {
+      return null;
+    }
+
+    const lastDate = points[points.length - 1].date;
+    const windowStart = DateUtils.addDays(lastDate, -WEEKLY_RATE_WINDOW_DAYS);
+    const window = points
+      .filter(point => point.date >= windowStart)
+      .map(point => ({ x: DateUtils.daysBetween(windowStart, point.date), y: point.trend }));
+    if (window.length < 2 || window[window.length - 1].x - window[0].x < MIN_WEEKLY_RATE_SPAN_DAYS) {
+      return null;
+    }
+
+    const meanX = window.reduce((sum, point) => sum + point.x, 0) / window.length;
+    const meanY = window.reduce((sum, point) => sum + point.y, 0) / window.length;
+    const covariance = window.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+    const variance = window.reduce((sum, point) => sum + Math.pow(point.x - meanX, 2), 0);
+
+    return this.round((covariance / variance) * 7);
+  }
+
+  /**
+   * Daily values, trend and weekly change of one metric
+   */
+  private static buildMetricTrend(
+    measurements: BodyMeasurement[],
+    metric: BodyMetric,
+    fromDate?: string
+  ): BodyMetricTrend {
+    const points = this.smooth(this.toDailyValues(measurements, metric));
+    const shown = fromDate ? points.filter(point => point.date >= fromDate) : points;
+    const last = points[points.length - 1];
+
+    return {
+      metric,
+      unit: metric === 'weight' ? 'kg' : metric === 'body_fat_percentage' ? '%' : 'cm',
+      points: shown,
+      latest: last?.value,
+      trend: last?.trend,
+      weekly_change: this.getWeeklyChange(points),
+    };
+  }
+
+  /**
+   * One value per measured day (the average of that day's entries), oldest first
+   */
+  private static toDailyValues(measurements: BodyMeasurement[], metric: BodyMetric): { date: string; value: number }[] {
+    const byDate = new Map<string, number[]>();
+
+    for (const measurement of measurements) {
+      const value = metric === 'weight' || metric === 'body_fat_percentage'
+        ? measurement[metric]
+        : measurement.circumferences[metric];
+      if (value === undefined) {
+        continue;
+      }
+      byDate.set(measurement.measured_on, [...(byDate.get(measurement.measured_on) || []), value]);
+    }
+
+    return [...byDate.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, values]) => ({
+        date,
+        value: this.round(values.reduce((sum, value) => sum + value, 0) / values.length),
+      }));
+  }
+
+  /**
+   * Round to two decimals
+   */
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,42 @@
+import { CalorieService } from './calorieService';
+import { SessionDurationService } from './sessionDurationService';
+import { Exercise } from '../types';
+
+const squat: Exercise = { id: 'squat', name: 'Squat', sets: 4, reps: 8, muscle_group: 'legs' };
+const run = (overrides: Partial<Exercise> = {}): Exercise => ({
+  id: 'run', name: 'Run', sets: 1, reps: 1, duration: 1800, type: 'cardio',
+  cardio: { modality: 'run', heart_rate_zone: 3 },
+  ...overrides,
+});
+
+describe('CalorieService', () => {
+  it('burns MET × 3.5 × weight / 200 kcal per minute of the exercise', () => {
+    // 30 minutes of running in zone 3 (9.8 MET) at 80 kg
+    expect(CalorieService.estimateExercise(run(), 80)).toBe(Math.round(9.8 * 3.5 * 80 / 200 * 30));
+
+    // Strength work counts its rest between sets, at the default strength MET
+    const minutes = SessionDurationService.getExerciseSeconds(squat) / 60;
+    expect(CalorieService.estimateExercise(squat, 80)).toBe(Math.round(5 * 3.5 * 80 / 200 * minutes));
+  });
+
+  it('prefers the MET of the exercise and assumes 70 kg without a weight', () => {
+    expect(CalorieService.estimateExercise(run({ met: 7 }))).toBe(Math.round(7 * 3.5 * 70 / 200 * 30));
+  });
+
+  it('counts the recoveries between intervals at an easy pace', () => {
+    const intervals = run({ cardio: { modality: 'run', heart_rate_zone: 5, intervals: { rounds: 4, work_seconds: 60, rest_seconds: 120 } } });
+
+    // 4 minutes at 12.8 MET and 6 minutes of recovery at 6 MET
+    expect(CalorieService.estimateExercise(intervals, 70)).toBe(Math.round(3.5 * 70 / 200 * (12.8 * 4 + 6 * 6)));
+  });
+
+  it('attaches the estimates to a plan and its exercises', () => {
+    const plan = CalorieService.attachEstimates({ exercises: [squat, run()] } as any, 70);
+
+    expect(plan.exercises.map(exercise => exercise.estimated_calories)).toEqual([
+      CalorieService.estimateExercise(squat, 70),
+      CalorieService.estimateExercise(run(), 70),
+    ]);
+    expect(plan.estimated_calories).toBe(CalorieService.estimateSession([squat, run()], 70));
+  });
+});
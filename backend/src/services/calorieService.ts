@@ -0,0 +1,83 @@
+import { Exercise, WorkoutMealPlan } from '../types';
+import { SessionDurationService } from './sessionDurationService';
+import { CardioService } from './cardioService';
+import {
+  DEFAULT_STRENGTH_MET,
+  MUSCLE_GROUP_METS,
+  CARDIO_METS,
+  DEFAULT_CARDIO_ZONE,
+  INTERVAL_RECOVERY_ZONE,
+  DEFAULT_BODY_WEIGHT_KG,
+} from '../data/metValues';
+
+export class CalorieService {
+  /**
+   * MET of an exercise: its own value, or the default for its cardio zone or muscle group
+   */
+  static getMet(exercise: Pick<Exercise, 'met' | 'cardio' | 'muscle_group'>): number {
+    if (exercise.met) {
+      return exercise.met;
+    }
+    if (exercise.cardio) {
+      return this.getCardioMet(exercise.cardio.modality, exercise.cardio.heart_rate_zone || DEFAULT_CARDIO_ZONE);
+    }
+    return MUSCLE_GROUP_METS[exercise.muscle_group || ''] ?? DEFAULT_STRENGTH_MET;
+  }
+
+  /**
+   * kcal burned by an exercise: MET × 3.5 ml O2/kg/min × weight / 200 per minute.
+   * Recoveries between cardio intervals are counted at an easy pace.
+   */
+  static estimateExercise(exercise: Exercise, weightKg?: number): number {
+    const weight = weightKg || DEFAULT_BODY_WEIGHT_KG;
+    const intervals = CardioService.isCardio(exercise) ? exercise.cardio!.intervals : undefined;
+
+    if (intervals) {
+      const recoverySeconds = Math.max(intervals.rounds - 1, 0) * intervals.rest_seconds;
+      const recoveryMet = exercise.met ? exercise.met / 2 : this.getCardioMet(exercise.cardio!.modality, INTERVAL_RECOVERY_ZONE);
+      return Math.round(
+        this.kcal(this.getMet(exercise), weight, CardioService.getWorkSeconds(exercise)) +
+        this.kcal(recoveryMet, weight, recoverySeconds)
+      );
+    }
+
+    const seconds = CardioService.isCardio(exercise) ?
+      CardioService.getTotalSeconds(exercise) :
+      SessionDurationService.getExerciseSeconds(exercise);
+    return Math.round(this.kcal(this.getMet(exercise), weight, seconds));
+  }
+
+  /**
+   * kcal burned by a list of exercises
+   */
+  static estimateSession(exercises: Exercise[], weightKg?: number): number {
+    return exercises.reduce((sum, exercise) => sum + this.estimateExercise(exercise, weightKg), 0);
+  }
+
+  /**
+   * Attach calorie estimates to a plan and each of its exercises
+   */
+  static attachEstimates(plan: WorkoutMealPlan, weightKg?: number): WorkoutMealPlan {
+    plan.exercises = plan.exercises.map(exercise => ({
+      ...exercise,
+      estimated_calories: this.estimateExercise(exercise, weightKg),
+    }));
+    plan.estimated_calories = plan.exercises.reduce((sum, exercise) => sum + exercise.estimated_calories!, 0);
+    return plan;
+  }
+
+  /**
+   * MET of a cardio modality at a heart-rate zone
+   */
+  private static getCardioMet(modality: keyof typeof CARDIO_METS, zone: number): number {
+    const mets = CARDIO_METS[modality] || CARDIO_METS.mixed;
+    return mets[Math.min(Math.max(zone, 1), mets.length) - 1];
+  }
+
+  /**
+   * kcal burned at a MET for a number of seconds
+   */
+  private static kcal(met: number, weightKg: number, seconds: number): number {
+    return (met * 3.5 * weightKg / 200) * (seconds / 60);
+  }
+}
@@ -0,0 +1,233 @@
+import { CalorieAdjustmentModel } from '../models/CalorieAdjustment';
+import { UserModel } from '../models/User';
+import { CalorieAdjustment, CalorieTargetMethod, User } from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { DateUtils } from '../utils/date';
+import { BodyTrendService } from './bodyTrendService';
+import { GoalService } from './goalService';
+import { FoodLogService } from './foodLogService';
+import {
+  ACTIVITY_MULTIPLIERS,
+  DEFAULT_TRAINING_DAYS,
+  KCAL_PER_KG,
+  ADAPTIVE_WINDOW_DAYS,
+  MIN_LOGGED_DAYS,
+  ADAPTATION_RATE,
+  MAX_WEEKLY_TDEE_CHANGE,
+  GOAL_CALORIE_OFFSETS,
+  MAX_DAILY_DEFICIT,
+  MAX_DAILY_SURPLUS,
+  MIN_CALORIE_TARGET,
+} from '../data/energyBalance';
+
+// Maintenance calories of a week and the data they were estimated from
+interface MaintenanceEstimate {
+  method: CalorieTargetMethod;
+  tdee: number;
+  averageIntake?: number;
+  loggedDays: number;
+  weeklyWeightChange?: number;
+  reason: string;
+}
+
+// Calories above (or below) maintenance the user's goal asks for
+interface GoalOffset {
+  calories: number;
+  description: string;
+}
+
+export class CalorieTargetService {
+  /**
+   * Calorie target of the current week; the first request of a week recalibrates it
+   */
+  static async getCurrentAdjustment(userId: number): Promise<CalorieAdjustment> {
+    const adjustment = await CalorieAdjustmentModel.findByWeek(userId, DateUtils.getCurrentWeekStart());
+    return adjustment || this.recalibrate(userId);
+  }
+
+  /**
+   * Past calorie targets with their reasoning, latest week first
+   */
+  static async getHistory(userId: number, limit: number = 12): Promise<CalorieAdjustment[]> {
+    return CalorieAdjustmentModel.findByUser(userId, limit);
+  }
+
+  /**
+   * Set the current week's target: estimate maintenance from the logged intake and weight trend
+   * of the last weeks (or the profile until there is enough of both), then add the goal's offset.
+   * Recalibrating again within the week (after a profile or goal change) starts from the same
+   * previous week, so it never compounds.
+   */
+  static async recalibrate(userId: number): Promise<CalorieAdjustment> {
+    try {
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const weekStart = DateUtils.getCurrentWeekStart();
+      const previous = (await CalorieAdjustmentModel.findByUser(userId, 2))
+        .find(adjustment => adjustment.week_start < weekStart);
+
+      const estimate = await this.estimateMaintenance(user, weekStart, previous);
+      const offset = await this.getGoalOffset(user);
+      const target = Math.max(estimate.tdee + offset.calories, MIN_CALORIE_TARGET);
+
+      let targetReason = offset.calories === 0
+        ? `Target: ${target} kcal ${offset.description}.`
+        : `Target: ${target} kcal (${this.signed(offset.calories)} kcal ${offset.description}).`;
+      if (target > estimate.tdee + offset.calories) {
+        targetReason = `Target: ${target} kcal, the lowest target set (${offset.description}).`;
+      }
+
+      return CalorieAdjustmentModel.save({
+        user_id: userId,
+        week_start: weekStart,
+        method: estimate.method,
+        tdee: estimate.tdee,
+        calorie_target: target,
+        previous_target: previous?.calorie_target,
+        average_intake: estimate.averageIntake,
+        logged_days: estimate.loggedDays,
+        weekly_weight_change: estimate.weeklyWeightChange,
+        reason: `${estimate.reason} ${targetReason}`,
+      });
+    } catch (error) {
+      logger.error('Error recalibrating calorie target:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Harris–Benedict basal metabolic rate (kcal/day), with typical values for missing profile fields
+   */
+  static estimateBmr(user: Pick<User, 'gender' | 'weight' | 'height' | 'age'>): number {
+    return user.gender === 'male'
+      ? 88.362 + (13.397 * (user.weight || 70)) + (4.799 * (user.height || 175)) - (5.677 * (user.age || 25))
+      : 447.593 + (9.247 * (user.weight || 60)) + (3.098 * (user.height || 165)) - (4.330 * (user.age || 25));
+  }
+
+  /**
+   * Maintenance calories from the window before the week: mean logged intake minus the energy
+   * the weight trend gained (or plus what it lost). The estimate moves part of the way towards
+   * that observation each week; without enough data the last estimate or the profile is kept.
+   */
+  private static async estimateMaintenance(
+    user: User,
+    weekStart: string,
+    previous?: CalorieAdjustment
+  ): Promise<MaintenanceEstimate> {
+    const windowStart = DateUtils.addDays(weekStart, -ADAPTIVE_WINDOW_DAYS);
+    const windowEnd = DateUtils.addDays(weekStart, -1);
+
+    const loggedDays = await FoodLogService.getDailyIntake(user.id, windowStart, windowEnd);
+    const averageIntake = loggedDays.length > 0
+      ? Math.round(loggedDays.reduce((sum, day) => sum + day.calories, 0) / loggedDays.length)
+      : undefined;
+
+    const trends = await BodyTrendService.getTrends(user.id, windowStart);
+    const weeklyWeightChange = BodyTrendService.getWeeklyChange(
+      trends.weight.points.filter(point => point.date <= windowEnd)
+    ) ?? undefined;
+
+    const data = { averageIntake, loggedDays: loggedDays.length, weeklyWeightChange };
+
+    if (averageIntake === undefined || loggedDays.length < MIN_LOGGED_DAYS || weeklyWeightChange === undefined) {
+      const missing = [
+        loggedDays.length < MIN_LOGGED_DAYS
+          ? `food logged on ${loggedDays.length} of the last ${ADAPTIVE_WINDOW_DAYS} days (${MIN_LOGGED_DAYS} needed)`
+          : null,
+        weeklyWeightChange === undefined ? 'not enough weigh-ins for a weight trend' : null,
+      ].filter(Boolean).join(' and ');
+
+      if (previous?.method === 'adaptive') {
+        return {
+          ...data,
+          method: 'adaptive',
+          tdee: previous.tdee,
+          reason: `Not enough data to recalibrate (${missing}), so maintenance stays at ${previous.tdee} kcal.`,
+        };
+      }
+
+      const profile = this.estimateFromProfile(user);
+      return {
+        ...data,
+        method: 'formula',
+        tdee: profile.tdee,
+        reason: `Maintenance of ${profile.tdee} kcal estimated from your profile ` +
+          `(BMR ${profile.bmr} kcal × ${profile.multiplier} for ${profile.trainingDays} training days a week). ` +
+          `It adapts to your intake and weight trend once there is enough data: ${missing}.`,
+      };
+    }
+
+    const observed = Math.round(averageIntake - (weeklyWeightChange * KCAL_PER_KG) / 7);
+    const observation = `You ate ${averageIntake} kcal a day over ${loggedDays.length} logged days while your ` +
+      `weight trend changed ${this.signed(weeklyWeightChange)} kg/week, which puts maintenance at about ${observed} kcal.`;
+
+    // The first adaptive week replaces the profile estimate outright
+    if (previous?.method !== 'adaptive') {
+      return {
+        ...data,
+        method: 'adaptive',
+        tdee: observed,
+        reason: `${observation} This replaces the estimate from your profile.`,
+      };
+    }
+
+    const step = Math.round(Math.min(
+      Math.max(ADAPTATION_RATE * (observed - previous.tdee), -MAX_WEEKLY_TDEE_CHANGE),
+      MAX_WEEKLY_TDEE_CHANGE
+    ));
+    const tdee = previous.tdee + step;
+
+    return {
+      ...data,
+      method: 'adaptive',
+      tdee,
+      reason: step === 0
+        ? `${observation} Maintenance stays at ${tdee} kcal.`
+        : `${observation} Maintenance moves from ${previous.tdee} to ${tdee} kcal.`,
+    };
+  }
+
+  /**
+   * Harris–Benedict BMR times the activity multiplier of the user's training days
+   */
+  private static estimateFromProfile(user: User): { tdee: number; bmr: number; multiplier: number; trainingDays: number } {
+    const bmr = this.estimateBmr(user);
+
+    const trainingDays = user.training_days_per_week ?? DEFAULT_TRAINING_DAYS;
+    const { multiplier } = ACTIVITY_MULTIPLIERS.find(level => trainingDays <= level.maxTrainingDays)
+      || ACTIVITY_MULTIPLIERS[ACTIVITY_MULTIPLIERS.length - 1];
+
+    return { tdee: Math.round(bmr * multiplier), bmr: Math.round(bmr), multiplier, trainingDays };
+  }
+
+  /**
+   * Daily offset from maintenance: the rate a dated weight target needs, else the goal's default
+   */
+  private static async getGoalOffset(user: User): Promise<GoalOffset> {
+    const weightGoal = (await GoalService.getGoals(user.id, 'active')).find(projection => projection.goal.metric === 'weight');
+    if (weightGoal && weightGoal.required_weekly_rate !== null) {
+      const calories = Math.round(Math.min(
+        Math.max((weightGoal.required_weekly_rate * KCAL_PER_KG) / 7, -MAX_DAILY_DEFICIT),
+        MAX_DAILY_SURPLUS
+      ));
+      return {
+        calories,
+        description: `to reach ${weightGoal.goal.target_value} kg by ${weightGoal.goal.target_date}`,
+      };
+    }
+
+    const goal = user.goal || 'maintenance';
+    return { calories: GOAL_CALORIE_OFFSETS[goal] ?? 0, description: `for ${goal.replace('_', ' ')}` };
+  }
+
+  /**
+   * Number with an explicit sign, e.g. "+300" or "-0.4"
+   */
+  private static signed(value: number): string {
+    return `${value > 0 ? '+' : ''}${value}`;
+  }
+}
@@ -0,0 +1,93 @@
+import { Exercise } from '../types';
+import {
+  STEADY_STATE_DURATION_STEP,
+  MIN_STEADY_STATE_SECONDS,
+  MAX_STEADY_STATE_SECONDS,
+  MIN_INTERVAL_ROUNDS,
+  MAX_INTERVAL_ROUNDS,
+} from '../data/cardio';
+
+export class CardioService {
+  /**
+   * Check if an exercise is a cardio session rather than sets of a lift
+   */
+  static isCardio(exercise: Exercise): boolean {
+    return exercise.type === 'cardio' && !!exercise.cardio;
+  }
+
+  /**
+   * Seconds of work in a cardio session: every interval round, or the whole steady-state block
+   */
+  static getWorkSeconds(exercise: Exercise): number {
+    const intervals = exercise.cardio?.intervals;
+    if (intervals) {
+      return intervals.rounds * intervals.work_seconds;
+    }
+    return exercise.sets * (exercise.duration || 0);
+  }
+
+  /**
+   * Total length of a cardio session, recoveries between interval rounds included
+   */
+  static getTotalSeconds(exercise: Exercise): number {
+    const intervals = exercise.cardio?.intervals;
+    const recoverySeconds = intervals ? Math.max(intervals.rounds - 1, 0) * intervals.rest_seconds : 0;
+    return this.getWorkSeconds(exercise) + recoverySeconds;
+  }
+
+  /**
+   * Distance covered: the planned distance, or the work time at the planned pace (0 if neither is set)
+   */
+  static getDistanceKm(exercise: Exercise): number {
+    const cardio = exercise.cardio;
+    if (!cardio) {
+      return 0;
+    }
+    if (cardio.distance_km) {
+      return cardio.distance_km;
+    }
+    if (cardio.pace_seconds_per_km) {
+      return Math.round((this.getWorkSeconds(exercise) / cardio.pace_seconds_per_km) * 100) / 100;
+    }
+    return 0;
+  }
+
+  /**
+   * Make a cardio session harder (1) or easier (-1): one interval round more or less,
+   * or a longer or shorter steady-state block. Planned distance follows the duration.
+   */
+  static adjustIntensity(exercise: Exercise, direction: 1 | -1): Exercise {
+    const cardio = exercise.cardio;
+    if (!cardio) {
+      return exercise;
+    }
+
+    if (cardio.intervals) {
+      const rounds = Math.min(
+        Math.max(cardio.intervals.rounds + direction, MIN_INTERVAL_ROUNDS),
+        MAX_INTERVAL_ROUNDS
+      );
+      return {
+        ...exercise,
+        sets: rounds,
+        cardio: { ...cardio, intervals: { ...cardio.intervals, rounds } },
+      };
+    }
+
+    const current = exercise.duration || MIN_STEADY_STATE_SECONDS;
+    // Whole minutes keep the prescription readable
+    const duration = Math.min(
+      Math.max(Math.round((current * (1 + direction * STEADY_STATE_DURATION_STEP)) / 60) * 60, MIN_STEADY_STATE_SECONDS),
+      MAX_STEADY_STATE_SECONDS
+    );
+    const distanceKm = cardio.distance_km
+      ? Math.round((cardio.distance_km * duration / current) * 100) / 100
+      : undefined;
+
+    return {
+      ...exercise,
+      duration,
+      cardio: { ...cardio, distance_km: distanceKm },
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createStorage, setStorage } from '../repositories';
+import { FoodModel } from '../models/Food';
+import * as usdaNutrients from '../data/usdaNutrients';
+import { FoodImportService } from './foodImportService';
+
+let directory: string;
+
+const writeFile = async (name: string, content: string): Promise<string> => {
+  const filePath = path.join(directory, name);
+  await fs.writeFile(filePath, content);
+  return filePath;
+};
+
+const jsonDownload = {
+  FoundationFoods: [
+    {
+      fdcId: 1,
+      dataType: 'Foundation',
+      description: 'Pie, "apple" {homemade} [baked]',
+      foodCategory: { description: 'Baked Products' },
+      foodNutrients: [
+        { nutrient: { id: 1008 }, amount: 237 },
+        { nutrient: { id: 1003 }, amount: 1.94 },
+        { nutrient: { id: 9999 }, amount: 5 },
+      ],
+    },
+    { fdcId: 2, dataType: 'Foundation', description: 'Water', foodNutrients: [] },
+  ],
+};
+
+describe('FoodImportService', () => {
+  beforeEach(async () => {
+    setStorage(createStorage('memory'));
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'food-import-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('fails on a missing source', async () => {
+    await expect(FoodImportService.importFoods(path.join(directory, 'missing.json')))
+      .rejects.toMatchObject({ errorCode: 'IMPORT_SOURCE_NOT_FOUND' });
+  });
+
+  describe('JSON downloads', () => {
+    it('imports the kept nutrients and skips foods without any', async () => {
+      const source = await writeFile('foundation.json', JSON.stringify(jsonDownload, null, 2));
+
+      expect(await FoodImportService.importFoods(source)).toEqual({
+        source,
+        imported: 1,
+        skipped: 1,
+        byDataType: { Foundation: 1 },
+      });
+      expect(await FoodModel.findById(1)).toMatchObject({
+        description: 'Pie, "apple" {homemade} [baked]',
+        data_type: 'Foundation',
+        category: 'Baked Products',
+        nutrients: { 1008: 237, 1003: 1.94 },
+      });
+    });
+
+    it('skips foods of other data types', async () => {
+      const source = await writeFile('foundation.json', JSON.stringify(jsonDownload));
+
+      expect(await FoodImportService.importFoods(source, ['Branded'])).toMatchObject({ imported: 0, skipped: 2 });
+      expect(await FoodModel.count()).toBe(0);
+    });
+  });
+
+  describe('CSV downloads', () => {
+    beforeEach(async () => {
+      await writeFile('food.csv', [
+        '\uFEFF"fdc_id","data_type","description","food_category_id"',
+        '"1","foundation_food","Apples, raw","9"',
+        '"2","branded_food","Granola ""Crunchy""\r\nbar",""',
+        '"3","experimental_food","Test food",""',
+      ].join('\r\n') + '\r\n');
+      await writeFile('food_category.csv', 'id,description\n9,Fruits and Fruit Juices\n');
+      await writeFile('branded_food.csv', [
+        'fdc_id,brand_owner,ingredients,serving_size,serving_size_unit,branded_food_category',
+        '2,Acme,"OATS, HONEY, ALMONDS",40,g,Cereal Bars',
+      ].join('\n'));
+    });
+
+    it('joins the files of a food and falls back to nutrient aliases', async () => {
+      await writeFile('food_nutrient.csv', [
+        'id,fdc_id,nutrient_id,amount',
+        '10,1,1008,52',
+        '11,1,1005,13.8',
+        '12,2,2047,410',
+        '13,2,1003,9',
+        '14,3,1008,100',
+      ].join('\n'));
+
+      expect(await FoodImportService.importFoods(directory)).toMatchObject({
+        imported: 2,
+        skipped: 1,
+        byDataType: { Foundation: 1, Branded: 1 },
+      });
+      expect(await FoodModel.findById(1)).toMatchObject({
+        description: 'Apples, raw',
+        category: 'Fruits and Fruit Juices',
+        nutrients: { 1008: 52, 1005: 13.8 },
+      });
+      expect(await FoodModel.findById(2)).toMatchObject({
+        description: 'Granola "Crunchy"\r\nbar',
+        brand_owner: 'Acme',
+        ingredients: 'OATS, HONEY, ALMONDS',
+        category: 'Cereal Bars',
+        serving_size: 40,
+        serving_size_unit: 'g',
+        nutrients: { 1008: 410, 1003: 9 },
+      });
+    });
+
+    it('sorts files that are not in fdc_id order, keeping the rows of a food in order', async () => {
+      await writeFile('food_nutrient.csv', [
+        'id,fdc_id,nutrient_id,amount',
+        '12,2,1008,410',
+        '10,1,1008,52',
+        '13,2,1003,9',
+        '14,2,1008,400',
+        '11,1,1005,13.8',
+      ].join('\n'));
+      // Sorted and merged in runs of two rows
+      jest.replaceProperty(usdaNutrients, 'FOOD_IMPORT_SORT_RUN_SIZE', 2);
+
+      expect(await FoodImportService.importFoods(directory)).toMatchObject({ imported: 2, skipped: 1 });
+      expect((await FoodModel.findById(1))?.nutrients).toEqual({ 1008: 52, 1005: 13.8 });
+      expect((await FoodModel.findById(2))?.nutrients).toEqual({ 1008: 400, 1003: 9 });
+      expect((await fs.readdir(os.tmpdir())).filter(name => name.startsWith('food-import-sort-'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,497 @@
+import { createReadStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { FoodModel } from '../models/Food';
+import { FoodImportSummary, LocalFoodData } from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import {
+  USDA_NUTRIENTS,
+  USDA_NUTRIENT_ALIASES,
+  USDA_JSON_ROOT_KEYS,
+  USDA_CSV_DATA_TYPES,
+  FOOD_IMPORT_BATCH_SIZE,
+  FOOD_IMPORT_SORT_RUN_SIZE,
+} from '../data/usdaNutrients';
+
+type FoodDetails = Omit<LocalFoodData, 'nutrients'>;
+
+type CsvRow = { [column: string]: string };
+
+type FdcRow = { fdcId: number; row: CsvRow };
+
+// Position in a CSV file of the download read in fdc_id order: the next row not consumed yet
+interface FdcRowCursor {
+  rows: AsyncGenerator<FdcRow>;
+  next: IteratorResult<FdcRow>;
+}
+
+// Nutrient IDs read from the downloads: the kept ones and their aliases
+const IMPORTED_NUTRIENT_IDS = new Set([
+  ...Object.keys(USDA_NUTRIENTS).map(Number),
+  ...Object.values(USDA_NUTRIENT_ALIASES).flat(),
+]);
+
+export class FoodImportService {
+  /**
+   * Import the foods of a USDA FoodData Central bulk download into the local food database:
+   * a JSON download file, or the directory of an extracted CSV download. Foods already
+   * imported are replaced, so a newer release can be imported over an older one.
+   */
+  static async importFoods(source: string, dataTypes?: string[]): Promise<FoodImportSummary> {
+    const stats = await fs.stat(source).catch(() => null);
+    if (!stats) {
+      throw new AppError(`Import source not found: ${source}`, 400, 'IMPORT_SOURCE_NOT_FOUND');
+    }
+
+    const accept = (dataType: string) => !dataTypes || dataTypes.includes(dataType);
+    const foods = stats.isDirectory() ? this.readCsvDownload(source, accept) : this.readJsonDownload(source, accept);
+    const summary: FoodImportSummary = { source, imported: 0, skipped: 0, byDataType: {} };
+    let batch: LocalFoodData[] = [];
+
+    const flush = async () => {
+      await FoodModel.upsertMany(batch);
+      summary.imported += batch.length;
+      batch.forEach(food => {
+        summary.byDataType[food.data_type] = (summary.byDataType[food.data_type] || 0) + 1;
+      });
+      batch = [];
+    };
+
+    for await (const food of foods) {
+      if (!food) {
+        summary.skipped++;
+        continue;
+      }
+
+      batch.push(food);
+      if (batch.length >= FOOD_IMPORT_BATCH_SIZE) {
+        await flush();
+        if (summary.imported % (FOOD_IMPORT_BATCH_SIZE * 20) === 0) {
+          logger.info(`Food import: ${summary.imported} foods imported from ${source}`);
+        }
+      }
+    }
+    await flush();
+
+    if (summary.imported === 0 && summary.skipped === 0) {
+      throw new AppError(`No USDA foods found in ${source}`, 400, 'INVALID_IMPORT_SOURCE');
+    }
+
+    logger.info(`Food import finished: ${summary.imported} foods imported, ${summary.skipped} skipped from ${source}`);
+    return summary;
+  }
+
+  /**
+   * Foods of a bulk JSON download ({"FoundationFoods": [...]}, etc.), streamed one food at a
+   * time since the Branded download is several gigabytes. Yields null for skipped foods.
+   */
+  private static async *readJsonDownload(
+    filePath: string,
+    accept: (dataType: string) => boolean
+  ): AsyncGenerator<LocalFoodData | null> {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let key = '';
+    let rootKey = '';
+    let inFood = false;
+    let parts: string[] = [];
+
+    for await (const chunk of createReadStream(filePath, { encoding: 'utf8' })) {
+      const text = chunk as string;
+      let start = 0;
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === '\\') {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+          } else if (depth === 1) {
+            key += char;
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+          if (depth === 1) {
+            key = '';
+          }
+        } else if (char === '{' || char === '[') {
+          depth++;
+          if (depth === 2) {
+            rootKey = key;
+          } else if (depth === 3 && char === '{' && USDA_JSON_ROOT_KEYS[rootKey]) {
+            inFood = true;
+            start = i;
+          }
+        } else if (char === '}' || char === ']') {
+          depth--;
+          if (depth === 2 && inFood) {
+            parts.push(text.slice(start, i + 1));
+            const food = JSON.parse(parts.join(''));
+            parts = [];
+            inFood = false;
+
+            const dataType = food.dataType || USDA_JSON_ROOT_KEYS[rootKey];
+            yield accept(dataType) ? this.fromJsonFood(food, dataType) : null;
+          }
+        }
+      }
+
+      if (inFood) {
+        parts.push(text.slice(start));
+      }
+    }
+  }
+
+  /**
+   * Foods of an extracted bulk CSV download: food.csv and food_nutrient.csv, with
+   * branded_food.csv and food_category.csv when present. The files are merge-joined in
+   * fdc_id order (the order of the USDA downloads), so only one food is held in memory at a
+   * time whatever the size of the download; a file in another order is sorted on disk first.
+   * Yields null for skipped foods.
+   */
+  private static async *readCsvDownload(
+    directory: string,
+    accept: (dataType: string) => boolean
+  ): AsyncGenerator<LocalFoodData | null> {
+    const file = (name: string) => path.join(directory, name);
+    const exists = (name: string) => fs.access(file(name)).then(() => true, () => false);
+
+    for (const required of ['food.csv', 'food_nutrient.csv']) {
+      if (!(await exists(required))) {
+        throw new AppError(`${required} not found in ${directory}`, 400, 'INVALID_IMPORT_SOURCE');
+      }
+    }
+
+    const categories = new Map<string, string>();
+    if (await exists('food_category.csv')) {
+      for await (const row of this.readCsv(file('food_category.csv'))) {
+        categories.set(row.id, row.description);
+      }
+    }
+
+    const nutrients = await this.openCursor(file('food_nutrient.csv'));
+    const branded = (await exists('branded_food.csv')) ? await this.openCursor(file('branded_food.csv')) : null;
+
+    try {
+      for await (const { fdcId, row } of this.readCsvByFdcId(file('food.csv'))) {
+        // Rows of the other files are consumed even for skipped foods, to keep the files aligned
+        const nutrientRows = await this.takeRows(nutrients, fdcId);
+        const [brandedRow] = branded ? await this.takeRows(branded, fdcId) : [];
+
+        const dataType = USDA_CSV_DATA_TYPES[row.data_type];
+        if (!dataType || !accept(dataType)) {
+          yield null;
+          continue;
+        }
+
+        const amounts = new Map<number, number>();
+        nutrientRows.forEach(nutrientRow => {
+          const nutrientId = parseInt(nutrientRow.nutrient_id);
+          const amount = parseFloat(nutrientRow.amount);
+          if (IMPORTED_NUTRIENT_IDS.has(nutrientId) && !isNaN(amount)) {
+            amounts.set(nutrientId, amount);
+          }
+        });
+
+        yield this.toLocalFood({
+          fdc_id: fdcId,
+          description: row.description,
+          data_type: dataType,
+          brand_owner: brandedRow?.brand_owner,
+          brand_name: brandedRow?.brand_name,
+          ingredients: brandedRow?.ingredients,
+          category: brandedRow?.branded_food_category || categories.get(row.food_category_id),
+          serving_size: brandedRow ? parseFloat(brandedRow.serving_size) || undefined : undefined,
+          serving_size_unit: brandedRow?.serving_size_unit,
+          household_serving: brandedRow?.household_serving_fulltext,
+        }, amounts);
+      }
+    } finally {
+      await nutrients.rows.return(undefined);
+      await branded?.rows.return(undefined);
+    }
+  }
+
+  /**
+   * Start reading a CSV file of the download in fdc_id order
+   */
+  private static async openCursor(filePath: string): Promise<FdcRowCursor> {
+    const rows = this.readCsvByFdcId(filePath);
+    return { rows, next: await rows.next() };
+  }
+
+  /**
+   * Consume the rows of a food from a cursor, skipping those of lower IDs (foods missing from
+   * food.csv). Returns an empty list when the file has no row for the food.
+   */
+  private static async takeRows(cursor: FdcRowCursor, fdcId: number): Promise<CsvRow[]> {
+    const rows: CsvRow[] = [];
+
+    while (!cursor.next.done && cursor.next.value.fdcId <= fdcId) {
+      if (cursor.next.value.fdcId === fdcId) {
+        rows.push(cursor.next.value.row);
+      }
+      cursor.next = await cursor.rows.next();
+    }
+
+    return rows;
+  }
+
+  /**
+   * Rows of a CSV file of the download with their fdc_id, in fdc_id order. The USDA downloads
+   * are in that order, which a first pass over the file checks; otherwise the rows are sorted
+   * on disk. Rows without an ID are skipped.
+   */
+  private static async *readCsvByFdcId(filePath: string): AsyncGenerator<FdcRow> {
+    if (await this.isSortedByFdcId(filePath)) {
+      yield* this.readFdcRows(filePath);
+      return;
+    }
+
+    logger.warn(`${path.basename(filePath)} is not sorted by fdc_id, sorting it before the import`);
+    yield* this.readSortedByFdcId(filePath);
+  }
+
+  /**
+   * Whether the fdc_id of the rows of a CSV file never decreases (stops at the first one that does)
+   */
+  private static async isSortedByFdcId(filePath: string): Promise<boolean> {
+    let previous = 0;
+
+    for await (const { fdcId } of this.readFdcRows(filePath)) {
+      if (fdcId < previous) {
+        return false;
+      }
+      previous = fdcId;
+    }
+
+    return true;
+  }
+
+  /**
+   * Rows of a CSV file sorted by fdc_id through temporary files: runs of rows are sorted in
+   * memory and written out, then merged. Rows of the same food keep their order in the file.
+   */
+  private static async *readSortedByFdcId(filePath: string): AsyncGenerator<FdcRow> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'food-import-sort-'));
+    const runs: readline.Interface[] = [];
+
+    try {
+      const runPaths: string[] = [];
+      let run: FdcRow[] = [];
+
+      const writeRun = async () => {
+        // The sort is stable, so rows of a food stay in file order; one JSON row per line
+        // (line breaks within fields are escaped)
+        run.sort((a, b) => a.fdcId - b.fdcId);
+        const runPath = path.join(directory, `run-${runPaths.length}.jsonl`);
+        await fs.writeFile(runPath, run.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+        runPaths.push(runPath);
+        run = [];
+      };
+
+      for await (const entry of this.readFdcRows(filePath)) {
+        run.push(entry);
+        if (run.length >= FOOD_IMPORT_SORT_RUN_SIZE) {
+          await writeRun();
+        }
+      }
+      if (run.length > 0) {
+        await writeRun();
+      }
+
+      // Head row of each run, null once it is read to the end
+      const heads = await Promise.all(runPaths.map(async runPath => {
+        const lines = readline.createInterface({ input: createReadStream(runPath, { encoding: 'utf8' }), crlfDelay: Infinity });
+        runs.push(lines);
+        const iterator = lines[Symbol.asyncIterator]();
+        const next = async () => {
+          const line = await iterator.next();
+          return line.done ? null : JSON.parse(line.value) as FdcRow;
+        };
+        return { next, row: await next() };
+      }));
+
+      while (true) {
+        // The lowest ID at the head of a run, the earliest run on ties
+        const lowest = heads.reduce<typeof heads[number] | null>(
+          (min, head) => (head.row && (!min || head.row.fdcId < min.row!.fdcId) ? head : min),
+          null
+        );
+        if (!lowest) {
+          return;
+        }
+
+        yield lowest.row!;
+        lowest.row = await lowest.next();
+      }
+    } finally {
+      runs.forEach(lines => lines.close());
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Rows of a CSV file of the download with their fdc_id, in file order. Rows without an ID are skipped.
+   */
+  private static async *readFdcRows(filePath: string): AsyncGenerator<FdcRow> {
+    for await (const row of this.readCsv(filePath)) {
+      const fdcId = parseInt(row.fdc_id);
+      if (!isNaN(fdcId)) {
+        yield { fdcId, row };
+      }
+    }
+  }
+
+  /**
+   * Rows of a CSV file keyed by the header columns; quoted fields may hold commas,
+   * escaped quotes and line breaks (ingredient lists do)
+   */
+  private static async *readCsv(filePath: string): AsyncGenerator<CsvRow> {
+    let header: string[] | null = null;
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let quoteInQuotes = false;
+
+    const endRow = () => {
+      row.push(field);
+      const fields = row;
+      field = '';
+      row = [];
+
+      if (fields.length === 1 && fields[0] === '') {
+        return null;
+      }
+      if (!header) {
+        header = fields.map(column => column.replace(/^\uFEFF/, '').trim());
+        return null;
+      }
+      return Object.fromEntries(header.map((column, index) => [column, fields[index] ?? '']));
+    };
+
+    for await (const chunk of createReadStream(filePath, { encoding: 'utf8' })) {
+      for (const char of chunk as string) {
+        if (inQuotes) {
+          if (quoteInQuotes) {
+            // A doubled quote is a literal one, otherwise the quoted field ended
+            quoteInQuotes = false;
+            if (char === '"') {
+              field += char;
+              continue;
+            }
+            inQuotes = false;
+          } else {
+            if (char === '"') {
+              quoteInQuotes = true;
+            } else {
+              field += char;
+            }
+            continue;
+          }
+        }
+
+        if (char === '"') {
+          inQuotes = true;
+        } else if (char === ',') {
+          row.push(field);
+          field = '';
+        } else if (char === '\n') {
+          const record = endRow();
+          if (record) {
+            yield record;
+          }
+        } else if (char !== '\r') {
+          field += char;
+        }
+      }
+    }
+
+    if (row.length > 0 || field !== '') {
+      const record = endRow();
+      if (record) {
+        yield record;
+      }
+    }
+  }
+
+  /**
+   * Local food of a food in the JSON downloads (full format: foodNutrients with nutrient and amount)
+   */
+  private static fromJsonFood(food: any, dataType: string): LocalFoodData | null {
+    const amounts = new Map<number, number>();
+    (food.foodNutrients || []).forEach((foodNutrient: any) => {
+      const nutrientId = foodNutrient.nutrient?.id ?? foodNutrient.nutrientId;
+      const amount = foodNutrient.amount ?? foodNutrient.value;
+      if (typeof nutrientId === 'number' && typeof amount === 'number') {
+        amounts.set(nutrientId, amount);
+      }
+    });
+
+    return this.toLocalFood({
+      fdc_id: food.fdcId,
+      description: food.description,
+      data_type: dataType,
+      brand_owner: food.brandOwner,
+      brand_name: food.brandName,
+      ingredients: food.ingredients,
+      category: food.foodCategory?.description ?? food.brandedFoodCategory,
+      serving_size: typeof food.servingSize === 'number' ? food.servingSize : undefined,
+      serving_size_unit: food.servingSizeUnit,
+      household_serving: food.householdServingFullText,
+    }, amounts);
+  }
+
+  /**
+   * Local food with the kept nutrients (an alias standing in for a missing one), trimmed to the
+   * column sizes; null for foods without an ID, a description or any kept nutrient
+   */
+  private static toLocalFood(food: FoodDetails, amounts: Map<number, number>): LocalFoodData | null {
+    const nutrients: { [nutrientId: number]: number } = {};
+    Object.keys(USDA_NUTRIENTS).map(Number).forEach(nutrientId => {
+      const amount = [nutrientId, ...(USDA_NUTRIENT_ALIASES[nutrientId] || [])]
+        .map(id => amounts.get(id))
+        .find(value => value !== undefined);
+      if (amount !== undefined) {
+        nutrients[nutrientId] = Math.round(amount * 1000) / 1000;
+      }
+    });
+
+    const description = this.text(food.description, 512);
+    if (!food.fdc_id || !description || Object.keys(nutrients).length === 0) {
+      return null;
+    }
+
+    return {
+      fdc_id: food.fdc_id,
+      description,
+      data_type: food.data_type,
+      brand_owner: this.text(food.brand_owner, 255),
+      brand_name: this.text(food.brand_name, 255),
+      ingredients: this.text(food.ingredients, 65535),
+      category: this.text(food.category, 255),
+      serving_size: food.serving_size,
+      serving_size_unit: this.text(food.serving_size_unit, 20),
+      household_serving: this.text(food.household_serving, 255),
+      nutrients,
+    };
+  }
+
+  /**
+   * Trimmed text cut to a column size, undefined when empty
+   */
+  private static text(value: string | undefined, maxLength: number): string | undefined {
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+    return trimmed ? trimmed.slice(0, maxLength) : undefined;
+  }
+}
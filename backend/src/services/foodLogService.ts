@@ -0,0 +1,307 @@
+import { FoodLogModel } from '../models/FoodLog';
+import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
+import {
+  DailyIntake,
+  FoodDiaryDay,
+  FoodLogEntry,
+  FoodLogEntryData,
+  LogFoodRequest,
+  Food,
+  FoodConsumption,
+  Meal,
+  MealConsumption,
+  UpdateFoodLogRequest,
+} from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { DateUtils } from '../utils/date';
+import { USDAFoodService } from './usdaFoodService';
+import { FoodService } from './foodService';
+import { MicronutrientService } from './micronutrientService';
+
+const MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+// Calories, macros and micronutrients of an entry
+type EntryNutrition = Pick<FoodLogEntry, 'calories' | 'protein' | 'carbs' | 'fat' | 'fiber' | 'micronutrients'>;
+
+export class FoodLogService {
+  /**
+   * Log a food to the diary: a USDA food by grams, servings of a meal planned for that date,
+   * or quick-added calories and macros per serving
+   */
+  static async logFood(userId: number, request: LogFoodRequest): Promise<FoodLogEntry> {
+    try {
+      const loggedOn = request.logged_on || DateUtils.toDateString(new Date());
+      const base = { user_id: userId, logged_on: loggedOn, meal_slot: request.meal_slot, source: request.source };
+
+      let entryData: FoodLogEntryData;
+      switch (request.source) {
+        case 'usda': {
+          if (!request.fdc_id) {
+            throw new AppError('USDA entries need a food ID', 400, 'FDC_ID_REQUIRED');
+          }
+
+          const grams = request.quantity ?? 100;
+          const food = await FoodService.getFoodById(request.fdc_id);
+          const nutrition = USDAFoodService.extractNutritionData(food, grams);
+          entryData = {
+            ...base,
+            name: food.description,
+            fdc_id: request.fdc_id,
+            quantity: grams,
+            unit: 'g',
+            ...this.round({ ...nutrition, micronutrients: MicronutrientService.pick(nutrition) }),
+          };
+          break;
+        }
+
+        case 'recipe': {
+          if (!request.meal_id) {
+            throw new AppError('Recipe entries need a planned meal', 400, 'MEAL_ID_REQUIRED');
+          }
+
+          const plan = await WorkoutMealPlanModel.findByUserAndDate(userId, loggedOn);
+          const meal = plan?.meals.find(planned => planned.id === request.meal_id);
+          if (!meal) {
+            throw new AppError('Meal not found in the plan of that date', 404, 'MEAL_NOT_FOUND');
+          }
+
+          const servings = request.quantity ?? 1;
+          entryData = {
+            ...base,
+            name: meal.name,
+            plan_meal_id: meal.id,
+            quantity: servings,
+            unit: 'serving',
+            ...this.scale(this.getMealNutrition(meal), servings),
+          };
+          break;
+        }
+
+        default: {
+          const servings = request.quantity ?? 1;
+          entryData = {
+            ...base,
+            name: request.name || 'Quick add',
+            quantity: servings,
+            unit: 'serving',
+            ...this.scale({
+              calories: request.calories ?? 0,
+              protein: request.protein ?? 0,
+              carbs: request.carbs ?? 0,
+              fat: request.fat ?? 0,
+              fiber: request.fiber,
+            }, servings),
+          };
+        }
+      }
+
+      return FoodLogModel.create(entryData);
+    } catch (error) {
+      logger.error('Error logging food:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move an entry to another date or slot, or change its quantity (scaling its nutrition).
+   * Only quick adds can have their name and nutrition edited directly.
+   */
+  static async updateEntry(userId: number, id: number, request: UpdateFoodLogRequest): Promise<FoodLogEntry> {
+    const entry = await FoodLogModel.findById(id, userId);
+    if (!entry) {
+      throw new AppError('Diary entry not found', 404, 'FOOD_LOG_ENTRY_NOT_FOUND');
+    }
+
+    const { logged_on, meal_slot, quantity, name, ...nutrition } = request;
+    const edited = name !== undefined || Object.values(nutrition).some(value => value !== undefined);
+    if (edited && entry.source !== 'quick_add') {
+      throw new AppError('Only quick adds can have their name or nutrition edited', 400, 'FOOD_LOG_NOT_EDITABLE');
+    }
+
+    const fields: Partial<FoodLogEntryData> = {};
+    if (logged_on !== undefined) fields.logged_on = logged_on;
+    if (meal_slot !== undefined) fields.meal_slot = meal_slot;
+    if (name !== undefined) fields.name = name;
+
+    if (quantity !== undefined && quantity !== entry.quantity) {
+      fields.quantity = quantity;
+      Object.assign(fields, this.scale(entry, quantity / entry.quantity));
+    }
+
+    Object.entries(nutrition).forEach(([key, value]) => {
+      if (value !== undefined) {
+        (fields as any)[key] = value;
+      }
+    });
+
+    return FoodLogModel.update(id, userId, fields);
+  }
+
+  /**
+   * Remove an entry from the diary
+   */
+  static async deleteEntry(userId: number, id: number): Promise<void> {
+    await FoodLogModel.delete(id, userId);
+  }
+
+  /**
+   * A day of the diary: its entries by meal slot and the day's totals
+   */
+  static async getDay(userId: number, date: string): Promise<FoodDiaryDay> {
+    const entries = await FoodLogModel.findByUser(userId, date, date);
+
+    const slots = Object.fromEntries(
+      MEAL_SLOTS.map(slot => [slot, entries.filter(entry => entry.meal_slot === slot)])
+    ) as FoodDiaryDay['slots'];
+
+    return { date, slots, totals: this.sum(date, entries) };
+  }
+
+  /**
+   * Diary entries between two dates (inclusive)
+   */
+  static async getEntries(userId: number, fromDate: string, toDate: string): Promise<FoodLogEntry[]> {
+    return FoodLogModel.findByUser(userId, fromDate, toDate);
+  }
+
+  /**
+   * Totals of each day with diary entries between two dates (inclusive), oldest first
+   */
+  static async getDailyIntake(userId: number, fromDate: string, toDate: string): Promise<DailyIntake[]> {
+    const entries = await FoodLogModel.findByUser(userId, fromDate, toDate);
+
+    const byDate = new Map<string, FoodLogEntry[]>();
+    entries.forEach(entry => byDate.set(entry.logged_on, [...(byDate.get(entry.logged_on) || []), entry]));
+
+    return [...byDate.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, dayEntries]) => this.sum(date, dayEntries));
+  }
+
+  /**
+   * Log what was eaten of a planned meal on its plan date (consuming it from the plan),
+   * rescaling its entry when the meal was already logged
+   */
+  static async logPlannedMeal(
+    userId: number,
+    planDate: string,
+    meal: Meal,
+    consumption: MealConsumption = { portion: 1 }
+  ): Promise<void> {
+    const logged = (await FoodLogModel.findByUser(userId, planDate, planDate))
+      .find(entry => entry.plan_meal_id === meal.id);
+    const servings = Math.round(consumption.portion * 100) / 100;
+    let nutrition = this.scale(this.getMealNutrition(meal), consumption.portion);
+    if (consumption.foods) {
+      // Fiber and micronutrients of the foods actually eaten rather than the calorie-weighted portion
+      nutrition = this.round({ ...nutrition, ...this.getFoodsNutrition(meal.foods, consumption.foods) });
+    }
+
+    if (logged) {
+      if (logged.quantity !== servings || consumption.foods) {
+        await FoodLogModel.update(logged.id, userId, { quantity: servings, ...nutrition });
+      }
+      return;
+    }
+
+    await FoodLogModel.create({
+      user_id: userId,
+      logged_on: planDate,
+      meal_slot: meal.type,
+      source: 'recipe',
+      name: meal.name,
+      plan_meal_id: meal.id,
+      quantity: servings,
+      unit: 'serving',
+      ...nutrition,
+    });
+  }
+
+  /**
+   * Remove what a planned meal logged on its plan date (un-consuming it from the plan)
+   */
+  static async unlogPlannedMeal(userId: number, planDate: string, mealId: string): Promise<void> {
+    const removed = await FoodLogModel.deleteByPlanMeal(userId, planDate, mealId);
+    if (removed > 0) {
+      logger.info(`Removed ${removed} diary entries of meal ${mealId} for user ${userId} on ${planDate}`);
+    }
+  }
+
+  /**
+   * Nutrition of one serving of a planned meal; fiber and micronutrients come from its foods
+   */
+  private static getMealNutrition(meal: Meal): EntryNutrition {
+    return {
+      calories: meal.calories,
+      protein: meal.protein || 0,
+      carbs: meal.carbs || 0,
+      fat: meal.fat || 0,
+      ...this.getFoodsNutrition(meal.foods),
+    };
+  }
+
+  /**
+   * Fiber and micronutrients of a meal's foods: all of them, or the quantities eaten of those checked off.
+   * Each is undefined when none of the foods has it.
+   */
+  private static getFoodsNutrition(foods: Food[], eaten?: FoodConsumption[]): Pick<EntryNutrition, 'fiber' | 'micronutrients'> {
+    const portions = eaten
+      ? eaten.map(({ index, quantity }) => ({ food: foods[index], factor: quantity / (foods[index].quantity || quantity) }))
+      : foods.map(food => ({ food, factor: 1 }));
+    const withFiber = portions.filter(({ food }) => food.fiber !== undefined);
+
+    return {
+      fiber: withFiber.length > 0 ? withFiber.reduce((sum, { food, factor }) => sum + food.fiber! * factor, 0) : undefined,
+      micronutrients: MicronutrientService.sumFoods(foods, eaten),
+    };
+  }
+
+  /**
+   * Nutrition multiplied by a factor (servings, or the ratio of a new quantity to the old one)
+   */
+  private static scale(nutrition: EntryNutrition, factor: number): EntryNutrition {
+    return this.round({
+      calories: nutrition.calories * factor,
+      protein: nutrition.protein * factor,
+      carbs: nutrition.carbs * factor,
+      fat: nutrition.fat * factor,
+      fiber: nutrition.fiber !== undefined ? nutrition.fiber * factor : undefined,
+      micronutrients: nutrition.micronutrients && MicronutrientService.scale(nutrition.micronutrients, factor),
+    });
+  }
+
+  /**
+   * Whole calories and macros to one decimal (micronutrients are already rounded to two)
+   */
+  private static round(nutrition: EntryNutrition): EntryNutrition {
+    const oneDecimal = (value: number) => Math.round(value * 10) / 10;
+    return {
+      calories: Math.round(nutrition.calories),
+      protein: oneDecimal(nutrition.protein),
+      carbs: oneDecimal(nutrition.carbs),
+      fat: oneDecimal(nutrition.fat),
+      fiber: nutrition.fiber !== undefined ? oneDecimal(nutrition.fiber) : undefined,
+      micronutrients: nutrition.micronutrients,
+    };
+  }
+
+  /**
+   * Totals of a day's entries
+   */
+  private static sum(date: string, entries: FoodLogEntry[]): DailyIntake {
+    const total = (key: Exclude<keyof EntryNutrition, 'micronutrients'>) =>
+      Math.round(entries.reduce((sum, entry) => sum + (entry[key] || 0), 0) * 10) / 10;
+
+    return {
+      date,
+      entries: entries.length,
+      slots: MEAL_SLOTS.filter(slot => entries.some(entry => entry.meal_slot === slot)),
+      calories: Math.round(total('calories')),
+      protein: total('protein'),
+      carbs: total('carbs'),
+      fat: total('fat'),
+      fiber: total('fiber'),
+    };
+  }
+}
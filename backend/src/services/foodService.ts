@@ -0,0 +1,183 @@
+import { FoodModel } from '../models/Food';
+import { LocalFood } from '../types';
+import { config } from '../config/app';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { USDAFoodService, USDAFood, USDASearchResult } from './usdaFoodService';
+import { USDA_NUTRIENTS } from '../data/usdaNutrients';
+
+export class FoodService {
+  /**
+   * Search foods in the local food database; the USDA API is searched instead when nothing
+   * matches locally and the remote fallback is available
+   */
+  static async searchFoods(
+    query: string,
+    pageSize: number = 25,
+    pageNumber: number = 1,
+    dataTypes?: string[]
+  ): Promise<USDASearchResult> {
+    return this.searchLocalFirst(query, pageSize, pageNumber, dataTypes, () =>
+      USDAFoodService.searchFoods(query, pageSize, pageNumber, dataTypes));
+  }
+
+  /**
+   * Search for Indian/South Asian foods; the remote fallback adds Indian food context to the query
+   */
+  static async searchIndianFoods(query: string, pageSize: number = 25): Promise<USDASearchResult> {
+    return this.searchLocalFirst(query, pageSize, 1, undefined, () =>
+      USDAFoodService.searchIndianFoods(query, pageSize));
+  }
+
+  /**
+   * Get a food by FDC ID from the local food database, else from the USDA API
+   */
+  static async getFoodById(fdcId: number, nutrients?: number[]): Promise<USDAFood> {
+    const food = await FoodModel.findById(fdcId);
+    if (food) {
+      return this.toUSDAFood(food, nutrients);
+    }
+
+    if (!this.isRemoteAvailable()) {
+      throw new AppError('Food not found', 404, 'FOOD_NOT_FOUND');
+    }
+    return USDAFoodService.getFoodById(fdcId, nutrients);
+  }
+
+  /**
+   * Get multiple foods by FDC IDs, in the order requested; the ones not imported come from
+   * the USDA API when available and are left out otherwise
+   */
+  static async getFoodsByIds(fdcIds: number[], nutrients?: number[]): Promise<USDAFood[]> {
+    const local = await FoodModel.findByIds(fdcIds);
+    const foods = new Map(local.map(food => [food.fdc_id, this.toUSDAFood(food, nutrients)]));
+
+    const missing = fdcIds.filter(fdcId => !foods.has(fdcId));
+    if (missing.length > 0 && this.isRemoteAvailable()) {
+      const remote = await USDAFoodService.getFoodsByIds(missing, nutrients);
+      remote.forEach(food => foods.set(food.fdcId, food));
+    }
+
+    return fdcIds
+      .filter(fdcId => foods.has(fdcId))
+      .map(fdcId => foods.get(fdcId) as USDAFood);
+  }
+
+  /**
+   * Suggest food alternatives based on nutrition gaps
+   */
+  static async suggestFoodAlternatives(
+    missingNutrients: string[]
+  ): Promise<{ [nutrient: string]: USDAFood[] }> {
+    const nutrientFoodMap: { [key: string]: string[] } = {
+      protein: ['chicken breast', 'salmon', 'eggs', 'greek yogurt', 'lentils', 'paneer'],
+      fiber: ['oats', 'quinoa', 'broccoli', 'apple', 'beans', 'brown rice'],
+      calcium: ['milk', 'cheese', 'yogurt', 'spinach', 'almonds', 'sesame seeds'],
+      iron: ['spinach', 'lentils', 'beef', 'tofu', 'pumpkin seeds', 'chickpeas'],
+      'vitamin C': ['orange', 'bell pepper', 'strawberry', 'kiwi', 'tomato', 'lemon']
+    };
+
+    // Every search runs at once; a failed one only leaves its food out
+    const searchFirst = async (foodQuery: string): Promise<USDAFood | undefined> => {
+      try {
+        const searchResult = await this.searchFoods(foodQuery, 5);
+        return searchResult.foods[0]; // Take the first result
+      } catch (error) {
+        logger.warn(`Failed to search for ${foodQuery}:`, error);
+        return undefined;
+      }
+    };
+
+    const entries = await Promise.all(
+      missingNutrients
+        .filter(nutrient => nutrientFoodMap[nutrient])
+        .map(async (nutrient): Promise<[string, USDAFood[]]> => {
+          const foods = await Promise.all(nutrientFoodMap[nutrient].slice(0, 3).map(searchFirst));
+          return [nutrient, foods.filter((food): food is USDAFood => food !== undefined)];
+        })
+    );
+
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Number of foods in the local food database
+   */
+  static async countLocalFoods(): Promise<number> {
+    return FoodModel.count();
+  }
+
+  /**
+   * Whether lookups may fall back to the USDA API
+   */
+  static isRemoteAvailable(): boolean {
+    return config.usdaRemoteFallback && USDAFoodService.isConfigured();
+  }
+
+  /**
+   * Page of local search results, or the remote search when nothing matches locally.
+   * Fails only when neither an imported food database nor the USDA API is available.
+   */
+  private static async searchLocalFirst(
+    query: string,
+    pageSize: number,
+    pageNumber: number,
+    dataTypes: string[] | undefined,
+    remoteSearch: () => Promise<USDASearchResult>
+  ): Promise<USDASearchResult> {
+    const size = Math.min(Math.max(pageSize, 1), 200);
+    const page = Math.max(pageNumber, 1);
+    const result = await FoodModel.search(query, { dataTypes, limit: size, offset: (page - 1) * size });
+
+    if (result.total === 0 && this.isRemoteAvailable()) {
+      logger.info(`No local foods match "${query}", searching the USDA API`);
+      return remoteSearch();
+    }
+
+    if (result.total === 0 && (await FoodModel.count()) === 0) {
+      throw new AppError(
+        'Food database is empty - import the USDA FoodData Central downloads or configure the USDA API',
+        503,
+        'FOOD_DATABASE_UNAVAILABLE'
+      );
+    }
+
+    logger.info(`Local food search: "${query}" returned ${result.total} results`);
+
+    return {
+      totalHits: result.total,
+      currentPage: page,
+      totalPages: Math.max(Math.ceil(result.total / size), 1),
+      foods: result.foods.map(food => this.toUSDAFood(food)),
+    };
+  }
+
+  /**
+   * A local food in the shape of the USDA API search results (nutrient amounts per 100 g),
+   * optionally limited to the given nutrient IDs
+   */
+  private static toUSDAFood(food: LocalFood, nutrients?: number[]): USDAFood {
+    return {
+      fdcId: food.fdc_id,
+      description: food.description,
+      dataType: food.data_type,
+      brandOwner: food.brand_owner,
+      brandName: food.brand_name,
+      ingredients: food.ingredients,
+      servingSize: food.serving_size,
+      servingSizeUnit: food.serving_size_unit,
+      householdServingFullText: food.household_serving,
+      foodCategory: food.category ? { description: food.category } : undefined,
+      foodNutrients: Object.entries(food.nutrients)
+        .map(([nutrientId, value]) => ({ nutrientId: Number(nutrientId), value }))
+        .filter(({ nutrientId }) => USDA_NUTRIENTS[nutrientId] && (!nutrients || nutrients.includes(nutrientId)))
+        .map(({ nutrientId, value }) => ({
+          nutrientId,
+          nutrientName: USDA_NUTRIENTS[nutrientId].name,
+          nutrientNumber: USDA_NUTRIENTS[nutrientId].number,
+          unitName: USDA_NUTRIENTS[nutrientId].unitName,
+          value,
+        })),
+    };
+  }
+}
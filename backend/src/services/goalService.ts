@@ -0,0 +1,235 @@
+import { GoalTargetModel } from '../models/GoalTarget';
+import { UserModel } from '../models/User';
+import {
+  BodyTrends,
+  CreateGoalTargetRequest,
+  GoalMetric,
+  GoalProjection,
+  GoalTarget,
+  GoalTargetStatus,
+  GoalTrackStatus,
+  UpdateGoalTargetRequest,
+} from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { DateUtils } from '../utils/date';
+import { BodyTrendService } from './bodyTrendService';
+import { ProgressionService } from './progressionService';
+
+const STRENGTH_HISTORY_DAYS = 84; // Logged sessions a strength goal is projected from
+
+// Current value of a goal's metric and how fast it is moving
+interface GoalObservation {
+  current?: number;
+  weeklyRate: number | null;
+}
+
+export class GoalService {
+  /**
+   * Set a goal; it replaces the active goal of the same metric (and exercise).
+   * The current trend value is kept as the start value progress is measured from.
+   */
+  static async setGoal(userId: number, request: CreateGoalTargetRequest): Promise<GoalProjection> {
+    const exerciseName = request.metric === 'strength' ? request.exercise_name : undefined;
+    if (request.metric === 'strength' && !exerciseName) {
+      throw new AppError('Strength goals need an exercise', 400, 'EXERCISE_REQUIRED');
+    }
+
+    await this.cancelActive(userId, request.metric, exerciseName);
+
+    const observation = await this.observe(userId, request.metric, exerciseName);
+    const goal = await GoalTargetModel.create({
+      user_id: userId,
+      metric: request.metric,
+      exercise_name: exerciseName,
+      start_value: observation.current,
+      target_value: request.target_value,
+      start_date: DateUtils.toDateString(new Date()),
+      target_date: request.target_date,
+      status: 'active',
+    });
+
+    return this.project(goal, observation);
+  }
+
+  /**
+   * Change a goal's target or date, cancel it, or reactivate it (replacing the active goal of its metric)
+   */
+  static async updateGoal(userId: number, id: number, request: UpdateGoalTargetRequest): Promise<GoalProjection> {
+    const goal = await GoalTargetModel.findById(id, userId);
+    if (!goal) {
+      throw new AppError('Goal not found', 404, 'GOAL_NOT_FOUND');
+    }
+
+    const targetChanged = request.target_value !== undefined || request.target_date !== undefined;
+    let status: GoalTargetStatus | undefined = request.status;
+    // A moved target reopens an achieved goal so it is checked again
+    if (!status && targetChanged && goal.status === 'achieved') {
+      status = 'active';
+    }
+
+    if (status === 'active' && goal.status !== 'active') {
+      await this.cancelActive(userId, goal.metric, goal.exercise_name);
+    }
+
+    const updated = await GoalTargetModel.update(id, userId, {
+      target_value: request.target_value,
+      target_date: request.target_date,
+      status,
+    });
+
+    return this.project(updated, await this.observe(userId, updated.metric, updated.exercise_name));
+  }
+
+  /**
+   * Delete a goal
+   */
+  static async deleteGoal(userId: number, id: number): Promise<void> {
+    await GoalTargetModel.delete(id, userId);
+  }
+
+  /**
+   * Projections of a user's goals (optionally of one status). Active goals whose target
+   * has been reached are marked achieved.
+   */
+  static async getGoals(userId: number, status?: GoalTargetStatus): Promise<GoalProjection[]> {
+    try {
+      const goals = await GoalTargetModel.findByUser(userId, status);
+      const trends = goals.some(goal => goal.metric !== 'strength')
+        ? await BodyTrendService.getTrends(userId)
+        : undefined;
+
+      const projections: GoalProjection[] = [];
+      for (const goal of goals) {
+        projections.push(await this.project(goal, await this.observe(userId, goal.metric, goal.exercise_name, trends)));
+      }
+      return projections;
+    } catch (error) {
+      logger.error('Error getting goals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unit a goal metric is measured in
+   */
+  static getUnit(metric: GoalMetric): string {
+    return metric === 'body_fat_percentage' ? '%' : 'kg';
+  }
+
+  /**
+   * Compare a goal with the observed trend: progress since the start value, the rate needed
+   * to reach the target on time and when the observed rate gets there
+   */
+  private static async project(goal: GoalTarget, observation: GoalObservation): Promise<GoalProjection> {
+    const today = DateUtils.toDateString(new Date());
+    const { current, weeklyRate } = observation;
+    const weeksRemaining = Math.max(DateUtils.daysBetween(today, goal.target_date), 0) / 7;
+
+    const projection: GoalProjection = {
+      goal,
+      current_value: current,
+      progress_percent: 0,
+      weekly_rate: weeklyRate,
+      required_weekly_rate: null,
+      projected_date: null,
+      weeks_remaining: this.round(weeksRemaining),
+      status: 'insufficient_data',
+    };
+
+    if (current === undefined) {
+      return projection.goal.status === 'achieved' ? { ...projection, status: 'achieved' } : projection;
+    }
+
+    const start = goal.start_value ?? current;
+    const remaining = goal.target_value - current;
+    // Direction the goal moves in: down for fat loss, up for strength
+    const direction = Math.sign(goal.target_value - start) || Math.sign(remaining);
+    const reached = remaining * direction <= 0;
+
+    projection.progress_percent = goal.target_value === start
+      ? (reached ? 100 : 0)
+      : Math.round(Math.min(Math.max(((current - start) / (goal.target_value - start)) * 100, 0), 100));
+    projection.required_weekly_rate = weeksRemaining > 0 && !reached ? this.round(remaining / weeksRemaining) : null;
+
+    if (reached || goal.status === 'achieved') {
+      if (goal.status === 'active') {
+        projection.goal = await GoalTargetModel.update(goal.id, goal.user_id, { status: 'achieved', achieved_on: today });
+        logger.info(`Goal ${goal.id} achieved by user ${goal.user_id}`);
+      }
+      return { ...projection, progress_percent: reached ? 100 : projection.progress_percent, status: 'achieved' };
+    }
+
+    if (weeklyRate !== null && Math.sign(weeklyRate) === direction) {
+      projection.projected_date = DateUtils.addDays(today, Math.ceil((remaining / weeklyRate) * 7));
+    }
+
+    projection.status = this.getTrackStatus(projection, goal.target_date);
+    return projection;
+  }
+
+  /**
+   * On track when the observed rate reaches the target by the target date
+   */
+  private static getTrackStatus(projection: GoalProjection, targetDate: string): GoalTrackStatus {
+    if (projection.weekly_rate === null) {
+      return 'insufficient_data';
+    }
+    return projection.projected_date !== null && projection.projected_date <= targetDate ? 'on_track' : 'off_track';
+  }
+
+  /**
+   * Current value and weekly rate of a metric: the smoothed body trend, or the estimated
+   * one-rep max of the logged sessions of an exercise
+   */
+  private static async observe(
+    userId: number,
+    metric: GoalMetric,
+    exerciseName?: string,
+    trends?: BodyTrends
+  ): Promise<GoalObservation> {
+    if (metric === 'strength') {
+      const today = DateUtils.toDateString(new Date());
+      const sessions = await ProgressionService.getOneRepMaxHistory(
+        userId,
+        exerciseName!,
+        DateUtils.addDays(today, -STRENGTH_HISTORY_DAYS),
+        today
+      );
+      const points = sessions.map(session => ({ ...session, trend: session.value }));
+      return {
+        current: points[points.length - 1]?.value,
+        weeklyRate: BodyTrendService.getWeeklyChange(points),
+      };
+    }
+
+    const trend = (trends || await BodyTrendService.getTrends(userId))[metric];
+    if (trend.trend === undefined && metric === 'weight') {
+      // No weigh-ins yet: the profile weight is the best guess, without a rate
+      const user = await UserModel.findById(userId);
+      return { current: user?.weight ? Number(user.weight) : undefined, weeklyRate: null };
+    }
+
+    return { current: trend.trend, weeklyRate: trend.weekly_change };
+  }
+
+  /**
+   * Cancel the active goals of a metric (and exercise)
+   */
+  private static async cancelActive(userId: number, metric: GoalMetric, exerciseName?: string): Promise<void> {
+    const active = (await GoalTargetModel.findByUser(userId, 'active')).filter(goal =>
+      goal.metric === metric && (metric !== 'strength' || goal.exercise_name === exerciseName)
+    );
+
+    for (const goal of active) {
+      await GoalTargetModel.update(goal.id, userId, { status: 'cancelled' });
+    }
+  }
+
+  /**
+   * Round to two decimals
+   */
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -1,8 +1,13 @@
 import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
 import { UserModel } from '../models/User';
-import { Meal, Food, WorkoutMealPlan, User } from '../types';
+import { Meal, Food, WorkoutMealPlan, User, CalorieAdjustment, UpdateCompletedStatusRequest } from '../types';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
+import { TRAINING_DAY_CALORIE_SHARE } from '../data/metValues';
+import { CalorieTargetService } from './calorieTargetService';
+import { FoodLogService } from './foodLogService';
+import { WorkoutService } from './workoutService';
+import { CalorieService } from './calorieService';
 
 export interface MealProgress {
   totalMeals: number;
@@ -31,6 +36,8 @@ export interface NutritionGoals {
   protein: number;
   carbs: number;
   fat: number;
+  exerciseCalories?: number; // Added for the day's workout, when goals are for a training day
+  adjustment?: CalorieAdjustment; // This week's calorie target and how it was set
 }
 
 export class MealService {
@@ -50,17 +57,18 @@ export class MealService {
       
       if (plans.length === 0) {
         // Create basic workout plans first
-        await WorkoutMealPlanModel.generateDefaultPlan(userId, user.goal || 'maintenance');
+        await WorkoutService.generateDefaultPlan(userId, user.goal || 'maintenance');
         plans = await WorkoutMealPlanModel.findByUserId(userId);
       }
 
       // Generate meals for each day
       const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
       const updatedPlans: WorkoutMealPlan[] = [];
+      const { calorie_target: calorieTarget } = await CalorieTargetService.getCurrentAdjustment(userId);
 
       for (const day of days) {
         const existingPlan = plans.find(p => p.day === day);
-        const meals = this.generateDayMeals(user, day);
+        const meals = this.generateDayMeals(user, day, calorieTarget);
 
         const planData = {
           day: day as any,
@@ -81,81 +89,63 @@ export class MealService {
   }
 
   /**
-   * Get meal progress analytics for a user
+   * Get meal progress analytics for a user: planned meals of the current week against the ones
+   * checked off, and planned calories and macros against what the food diary logged on each plan date
    */
   static async getMealProgress(userId: number): Promise<MealProgress> {
     try {
-      const plans = await WorkoutMealPlanModel.findByUserId(userId);
-      
-      let totalMeals = 0;
-      let consumedMeals = 0;
-      let totalCalories = 0;
-      let consumedCalories = 0;
-      let totalProtein = 0;
-      let consumedProtein = 0;
-      let totalCarbs = 0;
-      let consumedCarbs = 0;
-      let totalFat = 0;
-      let consumedFat = 0;
+      const days = await WorkoutMealPlanModel.getDailyNutritionStats(userId);
+      const dates = days.map(day => day.planDate).sort();
+      const intake = dates.length > 0
+        ? await FoodLogService.getDailyIntake(userId, dates[0], dates[dates.length - 1])
+        : [];
 
       const dailyStats: MealProgress['dailyStats'] = {};
+      const totals = {
+        totalMeals: 0, consumedMeals: 0, totalCalories: 0, consumedCalories: 0,
+        totalProtein: 0, consumedProtein: 0, totalCarbs: 0, consumedCarbs: 0, totalFat: 0, consumedFat: 0,
+      };
 
       // Calculate statistics for each day
-      plans.forEach(plan => {
-        const dayMeals = plan.meals.length;
-        const dayConsumedMeals = plan.meals.filter(meal => 
-          plan.completed_status.meals[meal.id]
-        ).length;
-
-        const dayTotalCalories = plan.meals.reduce((sum, meal) => sum + meal.calories, 0);
-        const dayConsumedCalories = plan.meals
-          .filter(meal => plan.completed_status.meals[meal.id])
-          .reduce((sum, meal) => sum + meal.calories, 0);
-
-        totalMeals += dayMeals;
-        consumedMeals += dayConsumedMeals;
-        totalCalories += dayTotalCalories;
-        consumedCalories += dayConsumedCalories;
-
-        // Calculate nutrition totals
-        plan.meals.forEach(meal => {
-          totalProtein += meal.protein || 0;
-          totalCarbs += meal.carbs || 0;
-          totalFat += meal.fat || 0;
-
-          if (plan.completed_status.meals[meal.id]) {
-            consumedProtein += meal.protein || 0;
-            consumedCarbs += meal.carbs || 0;
-            consumedFat += meal.fat || 0;
-          }
-        });
+      days.forEach(day => {
+        const logged = intake.find(dayIntake => dayIntake.date === day.planDate);
+        const consumedCalories = logged?.calories || 0;
 
-        const dayConsumptionPercentage = dayTotalCalories > 0 ? 
-          Math.round((dayConsumedCalories / dayTotalCalories) * 100) : 0;
-
-        dailyStats[plan.day] = {
-          totalCalories: dayTotalCalories,
-          consumedCalories: dayConsumedCalories,
-          mealsConsumed: dayConsumedMeals,
-          totalMeals: dayMeals,
-          consumptionPercentage: dayConsumptionPercentage,
+        dailyStats[day.day] = {
+          totalCalories: day.totalCalories,
+          consumedCalories,
+          mealsConsumed: day.consumedMeals,
+          totalMeals: day.totalMeals,
+          consumptionPercentage: day.totalCalories > 0 ?
+            Math.round((consumedCalories / day.totalCalories) * 100) : 0,
         };
+
+        totals.totalMeals += day.totalMeals;
+        totals.consumedMeals += day.consumedMeals;
+        totals.totalCalories += day.totalCalories;
+        totals.consumedCalories += consumedCalories;
+        totals.totalProtein += day.totalProtein;
+        totals.consumedProtein += logged?.protein || 0;
+        totals.totalCarbs += day.totalCarbs;
+        totals.consumedCarbs += logged?.carbs || 0;
+        totals.totalFat += day.totalFat;
+        totals.consumedFat += logged?.fat || 0;
       });
 
-      const consumptionPercentage = totalCalories > 0 ? 
-        Math.round((consumedCalories / totalCalories) * 100) : 0;
+      const consumptionPercentage = totals.totalCalories > 0 ? 
+        Math.round((totals.consumedCalories / totals.totalCalories) * 100) : 0;
 
       return {
-        totalMeals,
-        consumedMeals,
-        totalCalories,
-        consumedCalories,
+        totalMeals: totals.totalMeals,
+        consumedMeals: totals.consumedMeals,
+        totalCalories: totals.totalCalories,
+        consumedCalories: totals.consumedCalories,
         consumptionPercentage,
         dailyStats,
         nutritionBreakdown: {
-          protein: { total: totalProtein, consumed: consumedProtein },
-          carbs: { total: totalCarbs, consumed: consumedCarbs },
-          fat: { total: totalFat, consumed: consumedFat },
+          protein: { total: totals.totalProtein, consumed: Math.round(totals.consumedProtein) },
+          carbs: { total: totals.totalCarbs, consumed: Math.round(totals.consumedCarbs) },
+          fat: { total: totals.totalFat, consumed: Math.round(totals.consumedFat) },
         },
       };
     } catch (error) {
@@ -165,20 +155,31 @@ export class MealService {
   }
 
   /**
-   * Mark meal as consumed
+   * Mark meal as consumed (in full, a portion of it, or the quantities eaten per food), logging what
+   * was eaten to the food diary on its plan date (or removing what it logged when un-marked)
    */
   static async markMealConsumed(
     userId: number, 
     day: string, 
     mealId: string, 
-    consumed: boolean
+    consumed: boolean,
+    amount: Pick<UpdateCompletedStatusRequest, 'portion' | 'foods'> = {}
   ): Promise<WorkoutMealPlan> {
     try {
       const updatedPlan = await WorkoutMealPlanModel.updateCompletedStatus(userId, day, {
         meal_id: mealId,
         completed: consumed,
+        ...(consumed ? amount : {}),
       });
 
+      const meal = updatedPlan.meals.find(planned => planned.id === mealId);
+      if (consumed && meal) {
+        const consumption = updatedPlan.completed_status.meal_consumption?.[mealId];
+        await FoodLogService.logPlannedMeal(userId, updatedPlan.plan_date, meal, consumption);
+      } else if (!consumed) {
+        await FoodLogService.unlogPlannedMeal(userId, updatedPlan.plan_date, mealId);
+      }
+
       logger.info(`Meal ${mealId} marked as ${consumed ? 'consumed' : 'not consumed'} for user ${userId} on ${day}`);
       return updatedPlan;
     } catch (error) {
@@ -202,24 +203,16 @@ export class MealService {
         throw new AppError('Meal plan not found for this day', 404, 'PLAN_NOT_FOUND');
       }
 
-      // Find and update the specific meal
-      const mealIndex = plan.meals.findIndex(meal => meal.id === mealId);
-      if (mealIndex === -1) {
+      const existingMeal = plan.meals.find(meal => meal.id === mealId);
+      if (!existingMeal) {
         throw new AppError('Meal not found', 404, 'MEAL_NOT_FOUND');
       }
 
-      // Update meal data
-      plan.meals[mealIndex] = {
-        ...plan.meals[mealIndex],
+      // Only the changed meal is written
+      const updatedPlan = await WorkoutMealPlanModel.updateMeal(userId, day, {
+        ...existingMeal,
         ...mealData,
         id: mealId, // Ensure ID doesn't change
-      };
-
-      // Save updated plan
-      const updatedPlan = await WorkoutMealPlanModel.createOrUpdate(userId, {
-        day: day as any,
-        exercises: plan.exercises,
-        meals: plan.meals,
       });
 
       logger.info(`Meal ${mealId} updated for user ${userId} on ${day}`);
@@ -239,26 +232,13 @@ export class MealService {
     mealData: Omit<Meal, 'id'>
   ): Promise<WorkoutMealPlan> {
     try {
-      const plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
-      if (!plan) {
-        throw new AppError('Meal plan not found for this day', 404, 'PLAN_NOT_FOUND');
-      }
-
       // Create new meal with unique ID
       const newMeal: Meal = {
         ...mealData,
         id: `${day}-${mealData.type}-${Date.now()}`,
       };
 
-      // Add meal to plan
-      plan.meals.push(newMeal);
-
-      // Save updated plan
-      const updatedPlan = await WorkoutMealPlanModel.createOrUpdate(userId, {
-        day: day as any,
-        exercises: plan.exercises,
-        meals: plan.meals,
-      });
+      const updatedPlan = await WorkoutMealPlanModel.addMeal(userId, day, newMeal);
 
       logger.info(`New meal added for user ${userId} on ${day}`);
       return updatedPlan;
@@ -277,20 +257,7 @@ export class MealService {
     mealId: string
   ): Promise<WorkoutMealPlan> {
     try {
-      const plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
-      if (!plan) {
-        throw new AppError('Meal plan not found for this day', 404, 'PLAN_NOT_FOUND');
-      }
-
-      // Remove meal from plan
-      plan.meals = plan.meals.filter(meal => meal.id !== mealId);
-
-      // Save updated plan
-      const updatedPlan = await WorkoutMealPlanModel.createOrUpdate(userId, {
-        day: day as any,
-        exercises: plan.exercises,
-        meals: plan.meals,
-      });
+      const updatedPlan = await WorkoutMealPlanModel.deleteMeal(userId, day, mealId);
 
       logger.info(`Meal ${mealId} deleted for user ${userId} on ${day}`);
       return updatedPlan;
@@ -301,16 +268,31 @@ export class MealService {
   }
 
   /**
-   * Get nutrition goals for user based on their profile
+   * Get nutrition goals for user from this week's calorie target. For a day of the current week,
+   * part of the calories its workout burns is added so training days get a higher target.
    */
-  static async getNutritionGoals(userId: number): Promise<NutritionGoals> {
+  static async getNutritionGoals(userId: number, day?: string): Promise<NutritionGoals> {
     try {
       const user = await UserModel.findById(userId);
       if (!user) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      const baseCalories = this.calculateBaseCalories(user);
+      const adjustment = await CalorieTargetService.getCurrentAdjustment(userId);
+      let baseCalories = adjustment.calorie_target;
+
+      let exerciseCalories: number | undefined;
+      if (day) {
+        const plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
+        exerciseCalories = Math.round(CalorieService.estimateSession(plan?.exercises || [], user.weight) * TRAINING_DAY_CALORIE_SHARE);
+        baseCalories += exerciseCalories;
+
+        // Observed maintenance already covers the week's training, so training days
+        // only move calories from rest days and the weekly average stays on target
+        if (adjustment.method === 'adaptive') {
+          baseCalories -= await this.getAverageTrainingDayCalories(user);
+        }
+      }
       
       // Calculate macronutrient distribution based on goal
       let proteinPercentage = 0.25; // 25% protein
@@ -338,6 +320,8 @@ export class MealService {
         protein: Math.round((baseCalories * proteinPercentage) / 4), // 4 calories per gram
         carbs: Math.round((baseCalories * carbsPercentage) / 4),     // 4 calories per gram
         fat: Math.round((baseCalories * fatPercentage) / 9),         // 9 calories per gram
+        exerciseCalories,
+        adjustment,
       };
     } catch (error) {
       logger.error('Error getting nutrition goals:', error);
@@ -346,10 +330,20 @@ export class MealService {
   }
 
   /**
-   * Generate meals for a specific day based on user profile
+   * Calories added to training days per day of the current week, on average
    */
-  private static generateDayMeals(user: User, day: string): Meal[] {
-    const nutritionGoals = this.calculateNutritionGoals(user);
+  private static async getAverageTrainingDayCalories(user: User): Promise<number> {
+    const plans = await WorkoutMealPlanModel.findByUserId(user.id);
+    const weekCalories = plans.reduce((sum, plan) =>
+      sum + Math.round(CalorieService.estimateSession(plan.exercises, user.weight) * TRAINING_DAY_CALORIE_SHARE), 0);
+    return Math.round(weekCalories / 7);
+  }
+
+  /**
+   * Generate meals for a specific day based on user profile and calorie target
+   */
+  private static generateDayMeals(user: User, day: string, calories: number): Meal[] {
+    const nutritionGoals = this.calculateNutritionGoals(user, calories);
     
     // Distribute calories across meals
     const breakfastCalories = Math.round(nutritionGoals.calories * 0.25);
@@ -1527,11 +1521,9 @@ export class MealService {
   }
 
   /**
-   * Calculate nutrition goals for user
+   * Split a calorie target into macronutrients for the user's goal
    */
-  private static calculateNutritionGoals(user: User): NutritionGoals {
-    const baseCalories = this.calculateBaseCalories(user);
-    
+  private static calculateNutritionGoals(user: User, baseCalories: number): NutritionGoals {
     let proteinPercentage = 0.25;
     let carbsPercentage = 0.45;
     let fatPercentage = 0.30;
@@ -1556,26 +1548,4 @@ export class MealService {
       fat: Math.round((baseCalories * fatPercentage) / 9),
     };
   }
-
-  /**
-   * Calculate base calories for user (same as workout service)
-   */
-  private static calculateBaseCalories(user: User): number {
-    let bmr = 0;
-    
-    if (user.gender === 'male') {
-      bmr = 88.362 + (13.397 * (user.weight || 70)) + (4.799 * (user.height || 175)) - (5.677 * (user.age || 25));
-    } else {
-      bmr = 447.593 + (9.247 * (user.weight || 60)) + (3.098 * (user.height || 165)) - (4.330 * (user.age || 25));
-    }
-
-    switch (user.goal) {
-      case 'weight_loss':
-        return Math.round(bmr * 1.2 - 300);
-      case 'muscle_gain':
-        return Math.round(bmr * 1.5 + 300);
-      default:
-        return Math.round(bmr * 1.3);
-    }
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,153 @@
+import { FoodLogModel } from '../models/FoodLog';
+import { UserModel } from '../models/User';
+import {
+  DailyMicronutrients,
+  Food,
+  FoodConsumption,
+  FoodLogEntry,
+  MicronutrientKey,
+  Micronutrients,
+  NutrientIntake,
+  TrackedNutrient,
+  User,
+} from '../types';
+import { TRACKED_NUTRIENTS, DEFAULT_NUTRIENT_TARGET_AGE } from '../data/micronutrients';
+
+const MICRONUTRIENT_KEYS = (Object.keys(TRACKED_NUTRIENTS) as TrackedNutrient[])
+  .filter((key): key is MicronutrientKey => key !== 'fiber');
+
+export class MicronutrientService {
+  /**
+   * A day's fiber and micronutrient intake from the food diary, against the user's daily targets
+   */
+  static async getDailyReport(userId: number, date: string): Promise<DailyMicronutrients> {
+    const [entries, user] = await Promise.all([
+      FoodLogModel.findByUser(userId, date, date),
+      UserModel.findById(userId),
+    ]);
+
+    const targets = this.getTargets(user);
+    const totals = this.sum(entries.map(entry => entry.micronutrients));
+    const fiber = entries.reduce((sum, entry) => sum + (entry.fiber || 0), 0);
+
+    const nutrients: NutrientIntake[] = (Object.keys(TRACKED_NUTRIENTS) as TrackedNutrient[]).map(key => {
+      const amount = this.roundAmount(key === 'fiber' ? fiber : totals?.[key] || 0);
+      const { label, unit, kind } = TRACKED_NUTRIENTS[key];
+      return {
+        key,
+        label,
+        unit,
+        kind,
+        amount,
+        target: targets[key],
+        percentage: Math.round((amount / targets[key]) * 100),
+      };
+    });
+
+    return {
+      date,
+      entries: entries.length,
+      tracked_entries: entries.filter(entry => this.hasData(entry)).length,
+      nutrients,
+    };
+  }
+
+  /**
+   * Daily target of each nutrient for the user's age and sex; without a sex given, the higher of
+   * the two allowances (limits are the same for both)
+   */
+  static getTargets(user: Pick<User, 'age' | 'gender'> | null): { [key in TrackedNutrient]: number } {
+    const age = user?.age || DEFAULT_NUTRIENT_TARGET_AGE;
+    const byAge = (steps: [number, number][]) =>
+      steps.reduce((target, [fromAge, amount]) => (age >= fromAge ? amount : target), steps[0][1]);
+
+    return Object.fromEntries(
+      (Object.entries(TRACKED_NUTRIENTS) as [TrackedNutrient, typeof TRACKED_NUTRIENTS[TrackedNutrient]][])
+        .map(([key, { targets }]) => {
+          if (user?.gender === 'male' || user?.gender === 'female') {
+            return [key, byAge(targets[user.gender])];
+          }
+          return [key, Math.max(byAge(targets.male), byAge(targets.female))];
+        })
+    ) as { [key in TrackedNutrient]: number };
+  }
+
+  /**
+   * The micronutrients of extracted nutrition data (dropping calories, macros and fiber)
+   */
+  static pick(nutrition: Micronutrients): Micronutrients {
+    return this.round(Object.fromEntries(
+      MICRONUTRIENT_KEYS
+        .filter(key => nutrition[key] !== undefined)
+        .map(key => [key, nutrition[key]])
+    ));
+  }
+
+  /**
+   * Micronutrients of a meal's foods: all of them, or the quantities eaten of those checked off.
+   * Undefined when none of the foods has micronutrient data.
+   */
+  static sumFoods(foods: Food[], eaten?: FoodConsumption[]): Micronutrients | undefined {
+    const portions = eaten
+      ? eaten.map(({ index, quantity }) => ({
+        food: foods[index],
+        factor: foods[index]?.quantity > 0 ? quantity / foods[index].quantity : 1,
+      }))
+      : foods.map(food => ({ food, factor: 1 }));
+
+    return this.sum(portions
+      .filter(({ food }) => food)
+      .map(({ food, factor }) => food.micronutrients && this.scale(food.micronutrients, factor)));
+  }
+
+  /**
+   * Micronutrients multiplied by a factor (servings, or the ratio of a new quantity to the old one)
+   */
+  static scale(micronutrients: Micronutrients, factor: number): Micronutrients {
+    return this.round(Object.fromEntries(
+      Object.entries(micronutrients).map(([key, amount]) => [key, (amount || 0) * factor])
+    ));
+  }
+
+  /**
+   * Sum micronutrients, undefined when none of them has data
+   */
+  private static sum(list: (Micronutrients | undefined)[]): Micronutrients | undefined {
+    const present = list.filter((micronutrients): micronutrients is Micronutrients =>
+      !!micronutrients && Object.keys(micronutrients).length > 0);
+    if (present.length === 0) {
+      return undefined;
+    }
+
+    const totals: Micronutrients = {};
+    present.forEach(micronutrients => {
+      (Object.entries(micronutrients) as [MicronutrientKey, number][]).forEach(([key, amount]) => {
+        totals[key] = (totals[key] || 0) + amount;
+      });
+    });
+    return this.round(totals);
+  }
+
+  /**
+   * Whether a diary entry has micronutrient data
+   */
+  private static hasData(entry: FoodLogEntry): boolean {
+    return !!entry.micronutrients && Object.keys(entry.micronutrients).length > 0;
+  }
+
+  /**
+   * Round every amount to two decimals (µg amounts are small)
+   */
+  private static round(micronutrients: Micronutrients): Micronutrients {
+    return Object.fromEntries(
+      Object.entries(micronutrients).map(([key, amount]) => [key, this.roundAmount(amount || 0)])
+    );
+  }
+
+  /**
+   * Round an amount to two decimals
+   */
+  private static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,34 @@
+import { UserModel } from '../models/User';
+import { WorkoutMealPlan } from '../types';
+import { SessionDurationService } from './sessionDurationService';
+import { CalorieService } from './calorieService';
+
+export class PlanEstimateService {
+  /**
+   * Attach the estimated session duration and calories burned to a plan
+   */
+  static async withEstimate<T extends WorkoutMealPlan | null>(plan: T): Promise<T> {
+    if (plan) {
+      await this.withEstimates([plan]);
+    }
+    return plan;
+  }
+
+  /**
+   * Attach the estimated session duration and calories burned to plans, at their user's weight
+   * (each user is looked up once)
+   */
+  static async withEstimates(plans: WorkoutMealPlan[]): Promise<WorkoutMealPlan[]> {
+    const weights = new Map<number, number | undefined>();
+
+    for (const plan of plans) {
+      if (!weights.has(plan.user_id)) {
+        weights.set(plan.user_id, (await UserModel.findById(plan.user_id))?.weight);
+      }
+      plan.estimated_duration = SessionDurationService.estimate(plan.exercises);
+      CalorieService.attachEstimates(plan, weights.get(plan.user_id));
+    }
+
+    return plans;
+  }
+}
@@ -1,8 +1,15 @@
 import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
 import { UserModel } from '../models/User';
-import { WorkoutMealPlan, User } from '../types';
+import { WorkoutMealPlan, User, MuscleGroupStats, BodyTrends, GoalProjection } from '../types';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
+import { SessionDurationService } from './sessionDurationService';
+import { WarmupCooldownService } from './warmupCooldownService';
+import { CardioService } from './cardioService';
+import { CalorieService } from './calorieService';
+import { BodyTrendService } from './bodyTrendService';
+import { GoalService } from './goalService';
+import { DateUtils } from '../utils/date';
 
 export interface ProgressMetrics {
   workoutProgress: {
@@ -27,9 +34,44 @@ export interface ProgressMetrics {
   goalProgress: {
     goalType: string;
     progressTowardsGoal: number;
-    estimatedTimeToGoal: number;
+    estimatedTimeToGoal: number; // Weeks
     recommendations: string[];
+    targets: GoalProjection[]; // Active goal targets; the weight goal (or the first) drives the numbers above
   };
+  cardioProgress: CardioProgress;
+  calorieProgress: CalorieProgress;
+  bodyProgress: BodyProgress;
+}
+
+// Latest logged values and smoothed trends of the body measurement log
+export interface BodyProgress {
+  lastMeasuredOn?: string;
+  currentWeight?: number;
+  trendWeight?: number;
+  weeklyWeightChange: number | null; // kg per week, from the trend
+  currentBodyFat?: number;
+  trendBodyFat?: number;
+  weeklyBodyFatChange: number | null; // Percentage points per week
+  weeklyWaistChange: number | null; // cm per week
+}
+
+// Estimated calories burned by the week's workouts, from MET values and the user's weight
+export interface CalorieProgress {
+  plannedCalories: number;
+  burnedCalories: number; // Completed exercises only
+  byDay: { [day: string]: { planned: number; burned: number } };
+}
+
+// Minutes and kilometers of the week's cardio sessions (warm-up and cool-down blocks excluded)
+export interface CardioProgress {
+  plannedSessions: number;
+  completedSessions: number;
+  plannedMinutes: number;
+  completedMinutes: number;
+  plannedDistanceKm: number;
+  completedDistanceKm: number;
+  byModality: { [modality: string]: { sessions: number; minutes: number; distanceKm: number } }; // Completed only
+  minutesByZone: { [zone: string]: number }; // Completed only
 }
 
 export interface WeeklyReport {
@@ -40,6 +82,10 @@ export interface WeeklyReport {
   totalExercises: number;
   completedExercises: number;
   totalWorkoutTime: number;
+  cardioMinutes: number;
+  cardioDistanceKm: number;
+  caloriesBurned: number;
+  weeklyWeightChange: number | null;
   achievements: string[];
   improvements: string[];
   nextWeekGoals: string[];
@@ -57,17 +103,25 @@ export class ProgressService {
       }
 
       const plans = await WorkoutMealPlanModel.findByUserId(userId);
+      const muscleGroupStats = await WorkoutMealPlanModel.getMuscleGroupStats(userId);
       
       const workoutProgress = this.calculateWorkoutProgress(plans);
-      const exerciseProgress = this.calculateExerciseProgress(plans);
+      const exerciseProgress = this.calculateExerciseProgress(muscleGroupStats);
       const timeProgress = this.calculateTimeProgress(plans);
-      const goalProgress = this.calculateGoalProgress(user, plans);
+      const targets = await GoalService.getGoals(userId, 'active');
+      const goalProgress = this.calculateGoalProgress(user, workoutProgress, exerciseProgress, targets);
+      const cardioProgress = this.calculateCardioProgress(plans);
+      const calorieProgress = this.calculateCalorieProgress(plans, user);
+      const bodyProgress = this.calculateBodyProgress(await BodyTrendService.getTrends(userId));
 
       return {
         workoutProgress,
         exerciseProgress,
         timeProgress,
         goalProgress,
+        cardioProgress,
+        calorieProgress,
+        bodyProgress,
       };
     } catch (error) {
       logger.error('Error getting progress metrics:', error);
@@ -103,6 +157,10 @@ export class ProgressService {
         totalExercises: metrics.exerciseProgress.totalExercises,
         completedExercises: metrics.exerciseProgress.completedExercises,
         totalWorkoutTime: metrics.timeProgress.totalWorkoutTime,
+        cardioMinutes: metrics.cardioProgress.completedMinutes,
+        cardioDistanceKm: metrics.cardioProgress.completedDistanceKm,
+        caloriesBurned: metrics.calorieProgress.burnedCalories,
+        weeklyWeightChange: metrics.bodyProgress.weeklyWeightChange,
         achievements,
         improvements,
         nextWeekGoals,
@@ -186,12 +244,17 @@ export class ProgressService {
    * Calculate workout progress metrics
    */
   private static calculateWorkoutProgress(plans: WorkoutMealPlan[]): ProgressMetrics['workoutProgress'] {
-    const totalWorkouts = plans.length;
+    let totalWorkouts = 0;
     let completedWorkouts = 0;
     const weeklyCompletion: { [day: string]: boolean } = {};
 
+    // Rest days (no working exercises) are neither workouts nor completed, as in the workout statistics
     plans.forEach(plan => {
-      const isCompleted = plan.exercises.every(ex => plan.completed_status.exercises[ex.id]);
+      const mainExercises = plan.exercises.filter(ex => WarmupCooldownService.isMainExercise(ex));
+      const isCompleted = mainExercises.length > 0 && mainExercises.every(ex => plan.completed_status.exercises[ex.id]);
+      if (mainExercises.length > 0) {
+        totalWorkouts++;
+      }
       if (isCompleted) {
         completedWorkouts++;
       }
@@ -212,28 +275,17 @@ export class ProgressService {
   }
 
   /**
-   * Calculate exercise progress metrics
+   * Calculate exercise progress metrics from per-muscle-group completion counts
    */
-  private static calculateExerciseProgress(plans: WorkoutMealPlan[]): ProgressMetrics['exerciseProgress'] {
+  private static calculateExerciseProgress(muscleGroupStats: MuscleGroupStats[]): ProgressMetrics['exerciseProgress'] {
     let totalExercises = 0;
     let completedExercises = 0;
     const muscleGroupProgress: { [group: string]: { completed: number; total: number } } = {};
 
-    plans.forEach(plan => {
-      plan.exercises.forEach(exercise => {
-        totalExercises++;
-        
-        const group = exercise.muscle_group || 'other';
-        if (!muscleGroupProgress[group]) {
-          muscleGroupProgress[group] = { completed: 0, total: 0 };
-        }
-        muscleGroupProgress[group].total++;
-
-        if (plan.completed_status.exercises[exercise.id]) {
-          completedExercises++;
-          muscleGroupProgress[group].completed++;
-        }
-      });
+    muscleGroupStats.forEach(group => {
+      totalExercises += group.total;
+      completedExercises += group.completed;
+      muscleGroupProgress[group.muscleGroup] = { completed: group.completed, total: group.total };
     });
 
     const completionRate = totalExercises > 0 ? Math.round((completedExercises / totalExercises) * 100) : 0;
@@ -254,16 +306,8 @@ export class ProgressService {
     let workoutCount = 0;
 
     plans.forEach(plan => {
-      let planTime = 0;
-      plan.exercises.forEach(exercise => {
-        if (exercise.duration) {
-          planTime += exercise.duration;
-        } else {
-          // Estimate time based on sets and reps (assuming 2 seconds per rep + 30 seconds rest per set)
-          planTime += (exercise.sets * exercise.reps * 2) + (exercise.sets * 30);
-        }
-      });
-      
+      const planTime = SessionDurationService.estimate(plan.exercises).total_seconds;
+
       if (planTime > 0) {
         totalWorkoutTime += planTime;
         workoutCount++;
@@ -282,16 +326,135 @@ export class ProgressService {
     };
   }
 
+  /**
+   * Calculate weekly cardio minutes and distance, planned and completed
+   */
+  private static calculateCardioProgress(plans: WorkoutMealPlan[]): CardioProgress {
+    const progress: CardioProgress = {
+      plannedSessions: 0,
+      completedSessions: 0,
+      plannedMinutes: 0,
+      completedMinutes: 0,
+      plannedDistanceKm: 0,
+      completedDistanceKm: 0,
+      byModality: {},
+      minutesByZone: {},
+    };
+    let plannedSeconds = 0;
+    let completedSeconds = 0;
+
+    plans.forEach(plan => {
+      plan.exercises
+        .filter(ex => WarmupCooldownService.isMainExercise(ex) && CardioService.isCardio(ex))
+        .forEach(ex => {
+          const seconds = CardioService.getTotalSeconds(ex);
+          const distanceKm = CardioService.getDistanceKm(ex);
+
+          progress.plannedSessions++;
+          plannedSeconds += seconds;
+          progress.plannedDistanceKm += distanceKm;
+
+          if (!plan.completed_status.exercises[ex.id]) {
+            return;
+          }
+
+          progress.completedSessions++;
+          completedSeconds += seconds;
+          progress.completedDistanceKm += distanceKm;
+
+          const modality = progress.byModality[ex.cardio!.modality] || { sessions: 0, minutes: 0, distanceKm: 0 };
+          modality.sessions++;
+          modality.minutes += seconds / 60;
+          modality.distanceKm += distanceKm;
+          progress.byModality[ex.cardio!.modality] = modality;
+
+          if (ex.cardio!.heart_rate_zone) {
+            const zone = String(ex.cardio!.heart_rate_zone);
+            progress.minutesByZone[zone] = (progress.minutesByZone[zone] || 0) + seconds / 60;
+          }
+        });
+    });
+
+    // Round once at the end so per-session rounding does not add up
+    const round = (value: number) => Math.round(value * 100) / 100;
+    Object.values(progress.byModality).forEach(modality => {
+      modality.minutes = Math.round(modality.minutes);
+      modality.distanceKm = round(modality.distanceKm);
+    });
+    Object.keys(progress.minutesByZone).forEach(zone => {
+      progress.minutesByZone[zone] = Math.round(progress.minutesByZone[zone]);
+    });
+
+    return {
+      ...progress,
+      plannedMinutes: Math.round(plannedSeconds / 60),
+      completedMinutes: Math.round(completedSeconds / 60),
+      plannedDistanceKm: round(progress.plannedDistanceKm),
+      completedDistanceKm: round(progress.completedDistanceKm),
+    };
+  }
+
+  /**
+   * Calculate calories burned per day and for the week, planned and completed
+   */
+  private static calculateCalorieProgress(plans: WorkoutMealPlan[], user: User): CalorieProgress {
+    const byDay: CalorieProgress['byDay'] = {};
+    let plannedCalories = 0;
+    let burnedCalories = 0;
+
+    plans.forEach(plan => {
+      let planned = 0;
+      let burned = 0;
+
+      plan.exercises.forEach(ex => {
+        const calories = CalorieService.estimateExercise(ex, user.weight);
+        planned += calories;
+        if (plan.completed_status.exercises[ex.id]) {
+          burned += calories;
+        }
+      });
+
+      byDay[plan.day] = { planned, burned };
+      plannedCalories += planned;
+      burnedCalories += burned;
+    });
+
+    return { plannedCalories, burnedCalories, byDay };
+  }
+
+  /**
+   * Summarize the measurement log: latest values, trends and weekly rates of change
+   */
+  private static calculateBodyProgress(trends: BodyTrends): BodyProgress {
+    const lastDates = [trends.weight, trends.body_fat_percentage, ...Object.values(trends.circumferences)]
+      .map(trend => trend?.points[trend.points.length - 1]?.date)
+      .filter((date): date is string => !!date)
+      .sort();
+
+    return {
+      lastMeasuredOn: lastDates[lastDates.length - 1],
+      currentWeight: trends.weight.latest,
+      trendWeight: trends.weight.trend,
+      weeklyWeightChange: trends.weight.weekly_change,
+      currentBodyFat: trends.body_fat_percentage.latest,
+      trendBodyFat: trends.body_fat_percentage.trend,
+      weeklyBodyFatChange: trends.body_fat_percentage.weekly_change,
+      weeklyWaistChange: trends.circumferences.waist?.weekly_change ?? null,
+    };
+  }
+
   /**
    * Calculate goal-specific progress
    */
-  private static calculateGoalProgress(user: User, plans: WorkoutMealPlan[]): ProgressMetrics['goalProgress'] {
+  private static calculateGoalProgress(
+    user: User,
+    workoutProgress: ProgressMetrics['workoutProgress'],
+    exerciseProgress: ProgressMetrics['exerciseProgress'],
+    targets: GoalProjection[]
+  ): ProgressMetrics['goalProgress'] {
     const goalType = user.goal || 'maintenance';
     
     // Calculate progress based on completion rates and consistency
-    const workoutProgress = this.calculateWorkoutProgress(plans);
-    const exerciseProgress = this.calculateExerciseProgress(plans);
-    
     let progressTowardsGoal = 0;
     let estimatedTimeToGoal = 0;
     const recommendations: string[] = [];
@@ -332,14 +495,51 @@ export class ProgressService {
         break;
     }
 
+    // A goal target replaces the completion-based estimate with the logged trend
+    const primary = targets.find(target => target.goal.metric === 'weight') || targets[0];
+    if (primary) {
+      progressTowardsGoal = primary.progress_percent;
+      estimatedTimeToGoal = primary.projected_date
+        ? Math.max(DateUtils.daysBetween(DateUtils.toDateString(new Date()), primary.projected_date) / 7, 0)
+        : primary.weeks_remaining;
+    }
+    targets.forEach(target => recommendations.push(this.describeGoalTarget(target)));
+
     return {
       goalType,
       progressTowardsGoal: Math.round(progressTowardsGoal),
       estimatedTimeToGoal: Math.round(estimatedTimeToGoal),
       recommendations,
+      targets,
     };
   }
 
+  /**
+   * One line on where a goal target stands and the weekly rate it needs
+   */
+  private static describeGoalTarget(target: GoalProjection): string {
+    const { goal } = target;
+    const unit = GoalService.getUnit(goal.metric);
+    const name = goal.metric === 'strength' ? `${goal.exercise_name} one-rep max` : goal.metric === 'weight' ? 'weight' : 'body fat';
+    const signed = (value: number) => `${value > 0 ? '+' : ''}${value} ${unit}`;
+
+    switch (target.status) {
+      case 'achieved':
+        return `Goal reached: ${name} of ${goal.target_value} ${unit}`;
+      case 'on_track':
+        return `On track: ${name} of ${goal.target_value} ${unit} expected by ${target.projected_date}`;
+      case 'off_track':
+        return target.required_weekly_rate !== null
+          ? `Off track: aim for ${signed(target.required_weekly_rate)} per week to reach ${goal.target_value} ${unit} by ${goal.target_date}` +
+            ` (currently ${signed(target.weekly_rate ?? 0)} per week)`
+          : `Target date passed: ${name} is at ${target.current_value} ${unit}, set a new date for ${goal.target_value} ${unit}`;
+      default:
+        return goal.metric === 'strength'
+          ? `Log sets of ${goal.exercise_name} to project your strength goal`
+          : `Log your ${name} a few times a week to project your goal`;
+    }
+  }
+
   /**
    * Calculate current and longest streaks
    */
@@ -393,6 +593,20 @@ export class ProgressService {
       achievements.push('Exercise Master! Completed almost all exercises');
     }
 
+    const cardio = metrics.cardioProgress;
+    if (cardio.plannedSessions > 0 && cardio.completedSessions === cardio.plannedSessions) {
+      achievements.push(`Cardio Complete! ${cardio.completedMinutes} minutes of cardio this week`);
+    }
+
+    const weeklyWeightChange = metrics.bodyProgress.weeklyWeightChange;
+    if (weeklyWeightChange !== null) {
+      if (metrics.goalProgress.goalType === 'weight_loss' && weeklyWeightChange < 0) {
+        achievements.push(`Trending Down! Losing ${Math.abs(weeklyWeightChange)} kg per week`);
+      } else if (metrics.goalProgress.goalType === 'muscle_gain' && weeklyWeightChange > 0) {
+        achievements.push(`Building Up! Gaining ${weeklyWeightChange} kg per week`);
+      }
+    }
+
     if (achievements.length === 0) {
       achievements.push('Keep going! Every step counts towards your goal');
     }
@@ -418,6 +632,16 @@ export class ProgressService {
       improvements.push('Aim for consecutive workout days to build momentum');
     }
 
+    const cardio = metrics.cardioProgress;
+    if (cardio.plannedMinutes > 0 && cardio.completedMinutes < cardio.plannedMinutes / 2) {
+      improvements.push(`Fit in your cardio: ${cardio.completedMinutes} of ${cardio.plannedMinutes} planned minutes done`);
+    }
+
+    const lastMeasuredOn = metrics.bodyProgress.lastMeasuredOn;
+    if (!lastMeasuredOn || lastMeasuredOn < DateUtils.addDays(DateUtils.toDateString(new Date()), -7)) {
+      improvements.push('Log your weight at least once a week to keep your trend accurate');
+    }
+
     // Check muscle group balance
     const muscleGroups = Object.keys(metrics.exerciseProgress.muscleGroupProgress);
     const imbalancedGroups = muscleGroups.filter(group => {
@@ -0,0 +1,107 @@
+import { createStorage, setStorage } from '../repositories';
+import { UserModel } from '../models/User';
+import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
+import { ExerciseSetLogModel } from '../models/ExerciseSetLog';
+import { ProgressionService } from './progressionService';
+import { DateUtils } from '../utils/date';
+import { Exercise } from '../types';
+
+const bench: Exercise = { id: 'bench', name: 'Bench Press', sets: 3, reps: 8, weight: 100, muscle_group: 'chest' };
+const pushUps: Exercise = { id: 'push-ups', name: 'Push-ups', sets: 2, reps: 10, muscle_group: 'chest' };
+
+let userId: number;
+
+/**
+ * Log one session per week, oldest first, ending last week; each session is [weight, reps] per set
+ */
+const logSessions = async (exercise: Exercise, sessions: [number, number][][]): Promise<void> => {
+  const currentWeekStart = DateUtils.getCurrentWeekStart();
+
+  for (const [index, sets] of sessions.entries()) {
+    const weekStart = DateUtils.addDays(currentWeekStart, -7 * (sessions.length - index));
+    const plan = await WorkoutMealPlanModel.createOrUpdate(userId, { day: 'Monday', exercises: [exercise], meals: [] }, weekStart);
+    await ExerciseSetLogModel.createMany(sets.map(([weight, reps], setIndex) => ({
+      user_id: userId,
+      plan_id: plan.id,
+      exercise_id: exercise.id,
+      exercise_name: exercise.name,
+      set_number: setIndex + 1,
+      reps,
+      weight: weight || undefined,
+    })));
+  }
+
+  await WorkoutMealPlanModel.createOrUpdate(userId, { day: 'Monday', exercises: [exercise], meals: [] });
+};
+
+const recommend = async () => {
+  const { recommendations } = await ProgressionService.getRecommendations(userId, 'Monday');
+  return recommendations[0];
+};
+
+describe('ProgressionService', () => {
+  beforeEach(async () => {
+    setStorage(createStorage('memory'));
+    userId = (await UserModel.create({ name: 'Test', email: 'test@example.com', password: 'secret123' })).id;
+  });
+
+  it('starts from the prescription without history', async () => {
+    await logSessions(bench, []);
+
+    expect(await recommend()).toMatchObject({
+      status: 'no_history',
+      next: { sets: 3, reps: 8, weight: 100 },
+      stalledSessions: 0,
+    });
+  });
+
+  it('adds reps within the double progression range', async () => {
+    await logSessions(bench, [[[100, 8], [100, 8], [100, 9]]]);
+
+    expect(await recommend()).toMatchObject({ status: 'hold', next: { sets: 3, reps: 9, weight: 100 } });
+  });
+
+  it('deloads from the best session after three sessions without a new best', async () => {
+    await logSessions(bench, [
+      [[100, 8], [100, 8], [100, 8]],
+      [[100, 6], [100, 6], [100, 6]],
+      [[100, 5], [100, 5], [100, 5]],
+      [[95, 5], [95, 5], [95, 4]],
+    ]);
+
+    expect(await recommend()).toMatchObject({
+      status: 'deload',
+      stalledSessions: 3,
+      next: { sets: 2, reps: 8, weight: 90 },
+    });
+  });
+
+  it('does not deload again right after a deload session', async () => {
+    await logSessions(bench, [
+      [[100, 8], [100, 8], [100, 8]],
+      [[100, 6], [100, 6], [100, 6]],
+      [[100, 5], [100, 5], [100, 5]],
+      [[95, 5], [95, 5], [95, 4]],
+      [[90, 8], [90, 8]],
+    ]);
+
+    const recommendation = await recommend();
+    expect(recommendation.status).not.toBe('deload');
+    expect(recommendation.stalledSessions).toBe(0);
+  });
+
+  it('scores bodyweight work by reps and keeps at least two sets when deloading', async () => {
+    await logSessions(pushUps, [
+      [[0, 12], [0, 12]],
+      [[0, 10], [0, 10]],
+      [[0, 11], [0, 10]],
+      [[0, 9], [0, 9]],
+    ]);
+
+    expect(await recommend()).toMatchObject({
+      status: 'deload',
+      stalledSessions: 3,
+      next: { sets: 2, reps: 10, weight: undefined },
+    });
+  });
+});
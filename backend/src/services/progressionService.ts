@@ -0,0 +1,346 @@
+import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
+import { ExerciseSetLogModel } from '../models/ExerciseSetLog';
+import { UserModel } from '../models/User';
+import {
+  Exercise,
+  ExerciseSetLog,
+  ExerciseSessionSummary,
+  ProgressionRecommendation,
+  ProgressionScheme,
+  WorkoutMealPlan,
+} from '../types';
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { DateUtils } from '../utils/date';
+import { WarmupCooldownService } from './warmupCooldownService';
+import { CardioService } from './cardioService';
+
+const DEFAULT_SCHEME: ProgressionScheme = 'double_progression';
+const HISTORY_DAYS = 84; // 12 weeks of logged sets
+const STALL_SESSIONS = 3; // Sessions without a new best before a deload is proposed
+const DELOAD_FACTOR = 0.9;
+const MIN_DELOAD_SETS = 2; // Deloads drop a set, but never below this
+const MAX_RPE_FOR_INCREASE = 9;
+const DOUBLE_PROGRESSION_RANGE = 4; // Reps above the prescription before adding load
+const PERCENTAGE_TARGET_RIR = 2;
+const LOAD_ROUNDING = 2.5;
+
+export class ProgressionService {
+  /**
+   * Propose next-session sets, reps and load for the exercises of the current week (or one day)
+   */
+  static async getRecommendations(
+    userId: number,
+    day?: string
+  ): Promise<{ scheme: ProgressionScheme; recommendations: ProgressionRecommendation[] }> {
+    try {
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const scheme = user.progression_scheme || DEFAULT_SCHEME;
+      let plans: WorkoutMealPlan[];
+
+      if (day) {
+        const plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
+        if (!plan) {
+          throw new AppError('No workout plan found for this day', 404, 'PLAN_NOT_FOUND');
+        }
+        plans = [plan];
+      } else {
+        plans = await WorkoutMealPlanModel.findByUserId(userId);
+      }
+
+      const today = DateUtils.toDateString(new Date());
+      const fromDate = DateUtils.addDays(today, -HISTORY_DAYS);
+      const toDate = DateUtils.addDays(today, 7);
+      const history = new Map<string, ExerciseSetLog[]>();
+      const recommendations: ProgressionRecommendation[] = [];
+
+      for (const plan of plans) {
+        // Warm-up and cool-down follow the working sets, they are not progressed themselves;
+        // cardio sessions change with the weekly intensity adjustment instead of per-set logs
+        const lifts = plan.exercises.filter(item =>
+          WarmupCooldownService.isMainExercise(item) && !CardioService.isCardio(item)
+        );
+        for (const exercise of lifts) {
+          if (!history.has(exercise.name)) {
+            history.set(
+              exercise.name,
+              await ExerciseSetLogModel.findByExerciseName(userId, exercise.name, fromDate, toDate)
+            );
+          }
+
+          const sessions = this.summarizeSessions(history.get(exercise.name)!, exercise);
+          recommendations.push({
+            ...this.recommend(exercise, sessions, scheme),
+            day: plan.day,
+          });
+        }
+      }
+
+      return { scheme, recommendations };
+    } catch (error) {
+      logger.error('Error getting progression recommendations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the load progression scheme of a user
+   */
+  static async setScheme(userId: number, scheme: ProgressionScheme): Promise<ProgressionScheme> {
+    const user = await UserModel.updateProgressionScheme(userId, scheme);
+    return user.progression_scheme || scheme;
+  }
+
+  /**
+   * Best estimated one-rep max of each logged session of an exercise, oldest first
+   */
+  static async getOneRepMaxHistory(
+    userId: number,
+    exerciseName: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<{ date: string; value: number }[]> {
+    const sets = await ExerciseSetLogModel.findByExerciseName(userId, exerciseName, fromDate, toDate);
+    const best = new Map<string, number>();
+
+    sets.forEach(set => {
+      const oneRepMax = this.estimateOneRepMax(set);
+      if (oneRepMax !== undefined) {
+        best.set(set.plan_date, Math.max(best.get(set.plan_date) || 0, oneRepMax));
+      }
+    });
+
+    return [...best.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, value]) => ({ date, value: Math.round(value * 10) / 10 }));
+  }
+
+  /**
+   * Group logged sets into one summary per session (plan date), oldest first
+   */
+  private static summarizeSessions(sets: ExerciseSetLog[], exercise: Exercise): ExerciseSessionSummary[] {
+    const sessions = new Map<string, ExerciseSetLog[]>();
+    sets.forEach(set => {
+      sessions.set(set.plan_date, [...(sessions.get(set.plan_date) || []), set]);
+    });
+
+    return [...sessions.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, sessionSets]) => {
+        const topWeight = Math.max(...sessionSets.map(set => set.weight || 0));
+        const topSets = sessionSets.filter(set => (set.weight || 0) === topWeight);
+        const rpes = sessionSets.filter(set => set.rpe !== undefined).map(set => set.rpe!);
+        const oneRepMaxes = sessionSets
+          .map(set => this.estimateOneRepMax(set))
+          .filter((value): value is number => value !== undefined);
+
+        return {
+          date,
+          sets: sessionSets.length,
+          topWeight,
+          topReps: Math.max(...topSets.map(set => set.reps)),
+          minReps: Math.min(...sessionSets.map(set => set.reps)),
+          averageRpe: rpes.length > 0 ?
+            Math.round((rpes.reduce((sum, rpe) => sum + rpe, 0) / rpes.length) * 10) / 10 : undefined,
+          estimatedOneRepMax: oneRepMaxes.length > 0 ? Math.round(Math.max(...oneRepMaxes) * 10) / 10 : undefined,
+          hitTarget: sessionSets.length >= exercise.sets && sessionSets.every(set => set.reps >= exercise.reps),
+        };
+      });
+  }
+
+  /**
+   * Apply the user's scheme to the session history of one exercise
+   */
+  private static recommend(
+    exercise: Exercise,
+    sessions: ExerciseSessionSummary[],
+    scheme: ProgressionScheme
+  ): Omit<ProgressionRecommendation, 'day'> {
+    const current = { sets: exercise.sets, reps: exercise.reps, weight: exercise.weight };
+    const base = { exerciseId: exercise.id, exerciseName: exercise.name, scheme, current };
+
+    if (sessions.length === 0) {
+      return {
+        ...base,
+        status: 'no_history',
+        next: { ...current },
+        reason: 'No sets logged yet, start with the prescribed sets and load',
+        stalledSessions: 0,
+      };
+    }
+
+    const lastSession = sessions[sessions.length - 1];
+    const { stalledSessions, bestSession } = this.findStall(sessions);
+    const weight = lastSession.topWeight || exercise.weight || 0;
+    const result = { ...base, stalledSessions, lastSession };
+
+    if (stalledSessions >= STALL_SESSIONS) {
+      // Back off from the working weight of the best session, not from a failed last one
+      const workingWeight = bestSession?.topWeight || exercise.weight || 0;
+      return {
+        ...result,
+        status: 'deload',
+        next: {
+          sets: Math.min(exercise.sets, Math.max(exercise.sets - 1, MIN_DELOAD_SETS)),
+          reps: exercise.reps,
+          weight: workingWeight > 0 ? this.roundLoad(workingWeight * DELOAD_FACTOR) : undefined,
+        },
+        reason: `No new best in the last ${stalledSessions} sessions, deload to recover before pushing again`,
+      };
+    }
+
+    // Bodyweight work progresses by reps whatever the scheme
+    if (weight === 0) {
+      return lastSession.hitTarget ?
+        {
+          ...result,
+          status: 'increase',
+          next: { sets: exercise.sets, reps: lastSession.minReps + 1 },
+          reason: 'All sets hit the target, add a rep to every set',
+        } :
+        {
+          ...result,
+          status: 'hold',
+          next: { sets: exercise.sets, reps: exercise.reps },
+          reason: 'Repeat the session until every set reaches the target reps',
+        };
+    }
+
+    const increment = this.getLoadIncrement(exercise);
+    const easyEnough = lastSession.averageRpe === undefined || lastSession.averageRpe <= MAX_RPE_FOR_INCREASE;
+
+    switch (scheme) {
+      case 'linear':
+        if (lastSession.hitTarget && easyEnough) {
+          return {
+            ...result,
+            status: 'increase',
+            next: { sets: exercise.sets, reps: exercise.reps, weight: weight + increment },
+            reason: `All sets completed, add ${increment} kg`,
+          };
+        }
+        return {
+          ...result,
+          status: 'hold',
+          next: { sets: exercise.sets, reps: exercise.reps, weight },
+          reason: lastSession.hitTarget ?
+            `Last session was near failure (RPE ${lastSession.averageRpe}), repeat the load` :
+            'Not every set reached the target reps, repeat the load',
+        };
+
+      case 'percentage': {
+        const oneRepMax = Math.max(...sessions.slice(-STALL_SESSIONS).map(session => session.estimatedOneRepMax || 0));
+        if (oneRepMax === 0) {
+          return {
+            ...result,
+            status: 'hold',
+            next: { sets: exercise.sets, reps: exercise.reps, weight },
+            reason: 'Log reps with the load to estimate your 1RM',
+          };
+        }
+
+        const nextWeight = this.roundLoad(oneRepMax / (1 + (exercise.reps + PERCENTAGE_TARGET_RIR) / 30));
+        const percentage = Math.round((nextWeight / oneRepMax) * 100);
+        return {
+          ...result,
+          status: nextWeight > weight ? 'increase' : 'hold',
+          next: { sets: exercise.sets, reps: exercise.reps, weight: nextWeight },
+          reason: `${percentage}% of your estimated 1RM (${oneRepMax} kg), leaving about ${PERCENTAGE_TARGET_RIR} reps in reserve`,
+        };
+      }
+
+      case 'double_progression':
+      default: {
+        const topOfRange = exercise.reps + DOUBLE_PROGRESSION_RANGE;
+        if (lastSession.sets >= exercise.sets && lastSession.minReps >= topOfRange && easyEnough) {
+          return {
+            ...result,
+            status: 'increase',
+            next: { sets: exercise.sets, reps: exercise.reps, weight: weight + increment },
+            reason: `Every set reached ${topOfRange} reps, add ${increment} kg and restart at ${exercise.reps} reps`,
+          };
+        }
+
+        const nextReps = Math.min(Math.max(lastSession.minReps + 1, exercise.reps), topOfRange);
+        return {
+          ...result,
+          status: 'hold',
+          next: { sets: exercise.sets, reps: nextReps, weight },
+          reason: `Keep ${weight} kg and aim for ${nextReps} reps on every set (range ${exercise.reps}-${topOfRange})`,
+        };
+      }
+    }
+  }
+
+  /**
+   * Number of sessions since the best performance and that best session. Counting restarts
+   * after the last session that followed a deload recommendation, so a deload is not proposed
+   * again until the lifter stalls anew.
+   */
+  private static findStall(sessions: ExerciseSessionSummary[]): { stalledSessions: number; bestSession?: ExerciseSessionSummary } {
+    const scores = this.scoreSessions(sessions);
+    let start = 0;
+
+    for (let index = 1; index < sessions.length; index++) {
+      if (this.countSinceBest(scores.slice(start, index)) >= STALL_SESSIONS) {
+        start = index + 1;
+      }
+    }
+
+    const window = scores.slice(start);
+    if (window.length === 0) {
+      return { stalledSessions: 0 };
+    }
+
+    return {
+      stalledSessions: this.countSinceBest(window),
+      bestSession: sessions[start + window.lastIndexOf(Math.max(...window))],
+    };
+  }
+
+  /**
+   * Performance score of each session: estimated 1RM when the exercise is loaded, top reps for
+   * bodyweight work. One kind per exercise, so reps are never compared with kilograms.
+   */
+  private static scoreSessions(sessions: ExerciseSessionSummary[]): number[] {
+    const loaded = sessions.some(session => session.estimatedOneRepMax !== undefined);
+    return sessions.map(session => loaded ? session.estimatedOneRepMax ?? 0 : session.topReps);
+  }
+
+  /**
+   * Number of scores after the last occurrence of the best one
+   */
+  private static countSinceBest(scores: number[]): number {
+    return scores.length === 0 ? 0 : scores.length - 1 - scores.lastIndexOf(Math.max(...scores));
+  }
+
+  /**
+   * Epley estimate of the one-rep max of a set, counting reps left in reserve
+   */
+  private static estimateOneRepMax(set: ExerciseSetLog): number | undefined {
+    if (!set.weight || set.reps <= 0) {
+      return undefined;
+    }
+
+    const repsInReserve = set.rir ?? (set.rpe !== undefined ? Math.max(10 - set.rpe, 0) : 0);
+    return set.weight * (1 + (set.reps + repsInReserve) / 30);
+  }
+
+  /**
+   * Smallest sensible load jump for an exercise
+   */
+  private static getLoadIncrement(exercise: Exercise): number {
+    return ['legs', 'back', 'full_body'].includes(exercise.muscle_group || '') ? 5 : 2.5;
+  }
+
+  /**
+   * Round a load to the nearest plate increment
+   */
+  private static roundLoad(weight: number): number {
+    return Math.round(weight / LOAD_ROUNDING) * LOAD_ROUNDING;
+  }
+}
@@ -0,0 +1,71 @@
+import { SessionDurationService } from './sessionDurationService';
+import { Exercise } from '../types';
+
+const exercise = (id: string, muscle_group: string, overrides: Partial<Exercise> = {}): Exercise => ({
+  id,
+  name: id,
+  sets: 3,
+  reps: 10,
+  muscle_group,
+  ...overrides,
+});
+
+// 5 min default warm-up, then 3 × 10 reps (90 s of work, 120 s of rest) per exercise and 30 s between them
+const session = () => [exercise('press', 'chest'), exercise('squat', 'legs'), exercise('fly', 'chest')];
+
+describe('SessionDurationService', () => {
+  describe('estimate', () => {
+    it('adds a default warm-up, rest between sets and transitions', () => {
+      expect(SessionDurationService.estimate(session())).toEqual({
+        warmup_seconds: 300,
+        work_seconds: 270,
+        rest_seconds: 420,
+        cooldown_seconds: 0,
+        total_seconds: 990,
+        total_minutes: 17,
+      });
+    });
+  });
+
+  describe('fitToBudget', () => {
+    it('leaves sessions without a budget untouched', () => {
+      const exercises = session();
+      expect(SessionDurationService.fitToBudget(exercises)).toBe(exercises);
+    });
+
+    it('drops extra exercises of a muscle group first', () => {
+      const fitted = SessionDurationService.fitToBudget(session(), 13);
+
+      expect(fitted.map(item => item.id)).toEqual(['press', 'squat']);
+      expect(fitted.map(item => item.sets)).toEqual([3, 3]);
+    });
+
+    it('then removes sets from the end of the session', () => {
+      const fitted = SessionDurationService.fitToBudget(session(), 11);
+
+      expect(fitted.map(item => item.id)).toEqual(['press', 'squat']);
+      expect(fitted.map(item => item.sets)).toEqual([3, 2]);
+    });
+
+    it('always keeps the first exercise with at least two sets', () => {
+      const fitted = SessionDurationService.fitToBudget(session(), 1);
+
+      expect(fitted.map(item => item.id)).toEqual(['press']);
+      expect(fitted[0].sets).toBe(2);
+    });
+
+    it('keeps warm-up and cool-down and does not change the given exercises', () => {
+      const exercises = [
+        exercise('jog', 'cardiovascular', { section: 'warmup', sets: 1, reps: 1, duration: 300 }),
+        ...session(),
+        exercise('stretch', 'flexibility', { section: 'cooldown', sets: 1, reps: 1, duration: 120 }),
+      ];
+      const fitted = SessionDurationService.fitToBudget(exercises, 12);
+
+      expect(fitted[0].id).toBe('jog');
+      expect(fitted[fitted.length - 1].id).toBe('stretch');
+      expect(SessionDurationService.estimate(fitted).total_seconds).toBeLessThanOrEqual(12 * 60);
+      expect(exercises.map(item => item.sets)).toEqual([1, 3, 3, 3, 1]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { Exercise, ExerciseSection, SessionDurationEstimate } from '../types';
+import { CardioService } from './cardioService';
+
+const REP_TEMPO_SECONDS = 3; // One rep, both directions
+const REST_BETWEEN_SETS_SECONDS = 60;
+const TRANSITION_SECONDS = 30; // Setting up the next exercise
+const WARM_UP_SECONDS = 300; // Assumed for sessions without a warm-up section
+const MIN_SETS_WHEN_FITTING = 2;
+
+export class SessionDurationService {
+  /**
+   * Estimate how long a session takes: its warm-up section (or a default warm-up), then sets × reps
+   * at a steady tempo (or the timed duration) with rest between sets and a short transition between
+   * exercises, then its cool-down section
+   */
+  static estimate(exercises: Exercise[]): SessionDurationEstimate {
+    const warmUp = this.inSection(exercises, 'warmup');
+    const main = this.inSection(exercises, 'main');
+    const coolDown = this.inSection(exercises, 'cooldown');
+    const { work: workSeconds, rest: restSeconds } = this.getBlockSeconds(main);
+
+    let warmupSeconds = 0;
+    if (warmUp.length > 0) {
+      const block = this.getBlockSeconds(warmUp);
+      warmupSeconds = block.work + block.rest + (main.length > 0 ? TRANSITION_SECONDS : 0);
+    } else if (main.length > 0 && !this.isWarmUpBlock(main[0])) {
+      warmupSeconds = WARM_UP_SECONDS;
+    }
+
+    let cooldownSeconds = 0;
+    if (coolDown.length > 0) {
+      const block = this.getBlockSeconds(coolDown);
+      cooldownSeconds = block.work + block.rest + (main.length > 0 ? TRANSITION_SECONDS : 0);
+    }
+
+    const totalSeconds = warmupSeconds + workSeconds + restSeconds + cooldownSeconds;
+
+    return {
+      warmup_seconds: warmupSeconds,
+      work_seconds: workSeconds,
+      rest_seconds: restSeconds,
+      cooldown_seconds: cooldownSeconds,
+      total_seconds: totalSeconds,
+      total_minutes: Math.ceil(totalSeconds / 60),
+    };
+  }
+
+  /**
+   * Trim a session until its estimate fits the budget: first extra exercises of muscle groups
+   * trained more than once, then sets (down to two, cardio intervals are kept whole), then
+   * exercises from the end. Only main exercises are trimmed, and the first one is always kept.
+   */
+  static fitToBudget(exercises: Exercise[], budgetMinutes?: number): Exercise[] {
+    if (!budgetMinutes) {
+      return exercises;
+    }
+
+    const budgetSeconds = budgetMinutes * 60;
+    const warmUp = this.inSection(exercises, 'warmup');
+    const coolDown = this.inSection(exercises, 'cooldown');
+    const fitted = this.inSection(exercises, 'main').map(exercise => ({ ...exercise }));
+    const fits = () => this.estimate([...warmUp, ...fitted, ...coolDown]).total_seconds <= budgetSeconds;
+
+    // Extra exercises of a group, latest first
+    while (!fits()) {
+      const index = this.findLastIndex(fitted, (exercise, i) =>
+        i > 0 && fitted.some((other, j) => j < i && other.muscle_group === exercise.muscle_group)
+      );
+      if (index === -1) {
+        break;
+      }
+      fitted.splice(index, 1);
+    }
+
+    // One set less at a time, spread from the end of the session
+    while (!fits()) {
+      const index = this.findLastIndex(fitted, exercise =>
+        !CardioService.isCardio(exercise) &&
+        exercise.sets > MIN_SETS_WHEN_FITTING &&
+        exercise.sets === Math.max(...fitted.filter(item => !CardioService.isCardio(item)).map(item => item.sets))
+      );
+      if (index === -1) {
+        break;
+      }
+      fitted[index].sets--;
+    }
+
+    while (!fits() && fitted.length > 1) {
+      fitted.pop();
+    }
+
+    return [...warmUp, ...fitted, ...coolDown];
+  }
+
+  /**
+   * Seconds one exercise takes, rest between its sets included
+   */
+  static getExerciseSeconds(exercise: Exercise): number {
+    return this.getWorkSeconds(exercise) + Math.max(exercise.sets - 1, 0) * this.getRestBetweenSets(exercise);
+  }
+
+  /**
+   * Work and rest time of consecutive exercises, transitions between them counted as rest
+   */
+  private static getBlockSeconds(exercises: Exercise[]): { work: number; rest: number } {
+    let work = 0;
+    let rest = 0;
+
+    exercises.forEach((exercise, index) => {
+      work += this.getWorkSeconds(exercise);
+      rest += Math.max(exercise.sets - 1, 0) * this.getRestBetweenSets(exercise);
+      if (index > 0) {
+        rest += TRANSITION_SECONDS;
+      }
+    });
+
+    return { work, rest };
+  }
+
+  /**
+   * Exercises of one section of a session; exercises without a section are main
+   */
+  private static inSection(exercises: Exercise[], section: ExerciseSection): Exercise[] {
+    return exercises.filter(exercise => (exercise.section || 'main') === section);
+  }
+
+  /**
+   * Rest after each set; cardio intervals prescribe their own recovery
+   */
+  private static getRestBetweenSets(exercise: Exercise): number {
+    return exercise.cardio?.intervals?.rest_seconds ?? REST_BETWEEN_SETS_SECONDS;
+  }
+
+  /**
+   * Seconds spent working in an exercise, cardio, timed or rep-based
+   */
+  private static getWorkSeconds(exercise: Exercise): number {
+    if (CardioService.isCardio(exercise)) {
+      return CardioService.getWorkSeconds(exercise);
+    }
+    if (exercise.duration) {
+      return exercise.sets * exercise.duration;
+    }
+    return exercise.sets * exercise.reps * REP_TEMPO_SECONDS;
+  }
+
+  /**
+   * A session opening with a single timed cardio block already includes its warm-up
+   */
+  private static isWarmUpBlock(exercise: Exercise): boolean {
+    return exercise.sets === 1 && !!exercise.duration && exercise.muscle_group === 'cardiovascular';
+  }
+
+  /**
+   * Index of the last item matching the predicate, -1 if none
+   */
+  private static findLastIndex<T>(items: T[], predicate: (item: T, index: number) => boolean): number {
+    for (let i = items.length - 1; i >= 0; i--) {
+      if (predicate(items[i], i)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
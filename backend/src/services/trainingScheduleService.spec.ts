@@ -0,0 +1,55 @@
+import { TrainingScheduleService } from './trainingScheduleService';
+import { User } from '../types';
+
+const user = (overrides: Partial<User> = {}): User => ({
+  id: 1,
+  name: 'Test',
+  email: 'test@example.com',
+  goal: 'maintenance',
+  ...overrides,
+} as User);
+
+const trainingDays = (overrides: Partial<User>) =>
+  TrainingScheduleService.planWeek(user(overrides))
+    .filter(day => day.session)
+    .map(day => day.day);
+
+describe('TrainingScheduleService', () => {
+  describe('planWeek', () => {
+    it('spaces three sessions a day apart', () => {
+      expect(trainingDays({ training_days_per_week: 3 })).toEqual(['Monday', 'Wednesday', 'Friday']);
+    });
+
+    it('keeps back-to-back days to a minimum when they cannot be avoided', () => {
+      expect(trainingDays({ training_days_per_week: 4 })).toEqual(['Monday', 'Tuesday', 'Thursday', 'Saturday']);
+    });
+
+    it('never trains on rest days', () => {
+      expect(trainingDays({ training_days_per_week: 3, rest_days: ['Monday', 'Wednesday'] }))
+        .toEqual(['Tuesday', 'Thursday', 'Saturday']);
+    });
+
+    it('lays out every day of the week with the time budget of training days', () => {
+      const week = TrainingScheduleService.planWeek(user({
+        training_days_per_week: 3,
+        session_budgets: { Monday: 45 },
+      }));
+
+      expect(week).toHaveLength(7);
+      expect(week[0]).toMatchObject({ day: 'Monday', budget_minutes: 45 });
+      expect(week[0].focus.length).toBeGreaterThan(0);
+      expect(week[1]).toEqual({ day: 'Tuesday', session: null, focus: [] });
+    });
+  });
+
+  describe('validatePreferences', () => {
+    it('rejects rest days that leave too few training days', () => {
+      expect(() => TrainingScheduleService.validatePreferences({
+        training_days_per_week: 5,
+        training_split: 'auto',
+        rest_days: ['Monday', 'Tuesday', 'Wednesday'],
+        session_budgets: {},
+      })).toThrow(expect.objectContaining({ errorCode: 'INVALID_TRAINING_SCHEDULE' }));
+    });
+  });
+});
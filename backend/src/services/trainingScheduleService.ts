@@ -0,0 +1,152 @@
+import { User, TrainingSplit, TrainingPreferences, TrainingDay } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { DAYS_OF_WEEK } from '../utils/date';
+import {
+  TRAINING_SPLITS,
+  TrainingSplitDefinition,
+  WEEKLY_MUSCLE_VOLUME,
+  GOAL_SESSION_FINISHERS,
+  DEFAULT_TRAINING_DAYS_PER_WEEK,
+} from '../data/trainingSplits';
+
+const MAX_EXERCISES_PER_MUSCLE_GROUP = 3;
+
+export class TrainingScheduleService {
+  /**
+   * Get the training preferences of a user, filling in defaults
+   */
+  static getPreferences(user: User): TrainingPreferences {
+    return {
+      training_days_per_week: user.training_days_per_week || DEFAULT_TRAINING_DAYS_PER_WEEK,
+      training_split: user.training_split || 'auto',
+      rest_days: user.rest_days || [],
+      session_budgets: user.session_budgets || {},
+    };
+  }
+
+  /**
+   * Split actually used: 'auto' picks full body up to 3 days, upper/lower for 4 and push/pull/legs above
+   */
+  static resolveSplit(split: TrainingSplit, daysPerWeek: number): Exclude<TrainingSplit, 'auto'> {
+    if (split !== 'auto') {
+      return split;
+    }
+
+    if (daysPerWeek <= 3) {
+      return 'full_body';
+    }
+    return daysPerWeek === 4 ? 'upper_lower' : 'push_pull_legs';
+  }
+
+  /**
+   * Make sure the rest days leave room for the training days and the split fits the frequency
+   */
+  static validatePreferences(preferences: TrainingPreferences): void {
+    const restDays = new Set(preferences.rest_days).size;
+    const availableDays = DAYS_OF_WEEK.length - restDays;
+    if (availableDays < preferences.training_days_per_week) {
+      throw new AppError(
+        `${restDays} rest days leave only ${availableDays} days for ${preferences.training_days_per_week} training days`,
+        400,
+        'INVALID_TRAINING_SCHEDULE'
+      );
+    }
+
+    const split = this.resolveSplit(preferences.training_split, preferences.training_days_per_week);
+    if (preferences.training_days_per_week < TRAINING_SPLITS[split].minDays) {
+      throw new AppError(
+        `The ${split.replace(/_split$/, '').replace(/_/g, ' ')} split needs at least ${TRAINING_SPLITS[split].minDays} training days per week`,
+        400,
+        'INVALID_TRAINING_SCHEDULE'
+      );
+    }
+  }
+
+  /**
+   * Lay out the user's week: which days to train, the session of each, how many exercises
+   * each muscle group gets so its weekly volume is spread over its sessions, and the time budget
+   */
+  static planWeek(user: User): TrainingDay[] {
+    const preferences = this.getPreferences(user);
+    const split = TRAINING_SPLITS[this.resolveSplit(preferences.training_split, preferences.training_days_per_week)];
+    const trainingDays = this.pickTrainingDays(preferences.training_days_per_week, preferences.rest_days);
+    const sessions = trainingDays.map((_, index) => split.sessions[index % split.sessions.length]);
+    const finisher = GOAL_SESSION_FINISHERS[user.goal || 'maintenance'];
+
+    return DAYS_OF_WEEK.map(day => {
+      const index = trainingDays.indexOf(day);
+      if (index === -1) {
+        return { day, session: null, focus: [] };
+      }
+
+      const session = sessions[index];
+      const focus = session.muscles.map(muscle => ({
+        muscle,
+        exercises: this.getSessionVolume(muscle, sessions),
+      }));
+      if (finisher && !session.muscles.includes(finisher)) {
+        focus.push({ muscle: finisher, exercises: 1 });
+      }
+
+      return { day, session: session.name, focus, budget_minutes: preferences.session_budgets[day] };
+    });
+  }
+
+  /**
+   * Exercises for a muscle group in one session, given how many sessions of the week train it
+   */
+  private static getSessionVolume(muscle: string, sessions: TrainingSplitDefinition['sessions']): number {
+    const frequency = sessions.filter(session => session.muscles.includes(muscle)).length;
+    const weeklyVolume = WEEKLY_MUSCLE_VOLUME[muscle] || 1;
+
+    return Math.min(Math.max(Math.ceil(weeklyVolume / frequency), 1), MAX_EXERCISES_PER_MUSCLE_GROUP);
+  }
+
+  /**
+   * Choose the training days among the non-rest days, spacing them as evenly as possible
+   * around the week (largest shortest gap, then fewest back-to-back days, then earliest days)
+   */
+  private static pickTrainingDays(count: number, restDays: string[]): string[] {
+    const candidates = DAYS_OF_WEEK
+      .map((day, index) => ({ day, index }))
+      .filter(({ day }) => !restDays.includes(day));
+
+    let best: { days: string[]; shortestGap: number; backToBack: number } | null = null;
+
+    for (const combination of this.combinations(candidates, Math.min(count, candidates.length))) {
+      const gaps = combination.map((current, i) => {
+        const next = combination[(i + 1) % combination.length];
+        return (next.index - current.index + DAYS_OF_WEEK.length) % DAYS_OF_WEEK.length || DAYS_OF_WEEK.length;
+      });
+      const shortestGap = Math.min(...gaps);
+      const backToBack = gaps.filter(gap => gap === 1).length;
+
+      if (
+        !best ||
+        shortestGap > best.shortestGap ||
+        (shortestGap === best.shortestGap && backToBack < best.backToBack)
+      ) {
+        best = { days: combination.map(({ day }) => day), shortestGap, backToBack };
+      }
+    }
+
+    return best ? best.days : [];
+  }
+
+  /**
+   * All ways of picking `size` items, in lexicographic order
+   */
+  private static combinations<T>(items: T[], size: number): T[][] {
+    if (size === 0) {
+      return [[]];
+    }
+
+    const result: T[][] = [];
+    for (let i = 0; i <= items.length - size; i++) {
+      for (const rest of this.combinations(items.slice(i + 1), size - 1)) {
+        result.push([items[i], ...rest]);
+      }
+    }
+    return result;
+  }
+}
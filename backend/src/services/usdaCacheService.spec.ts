@@ -0,0 +1,61 @@
+import { UsdaCacheService } from './usdaCacheService';
+
+const TTL_MS = 60_000;
+
+// The cache is process-wide, so every test uses keys of its own
+let keyCount = 0;
+const uniqueKey = () => `test:${++keyCount}`;
+
+describe('UsdaCacheService', () => {
+  describe('lookup', () => {
+    it('loads a key once and serves it from memory afterwards', async () => {
+      const key = uniqueKey();
+      const load = jest.fn().mockResolvedValue({ fdcId: 1 });
+
+      expect(await UsdaCacheService.lookup(key, TTL_MS, load)).toEqual({ fdcId: 1 });
+      expect(await UsdaCacheService.lookup(key, TTL_MS, load)).toEqual({ fdcId: 1 });
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('coalesces concurrent lookups of a key into one request', async () => {
+      const key = uniqueKey();
+      const before = UsdaCacheService.getStats();
+      const load = jest.fn(() => new Promise<string>(resolve => setTimeout(() => resolve('value'), 10)));
+
+      const results = await Promise.all([
+        UsdaCacheService.lookup(key, TTL_MS, load),
+        UsdaCacheService.lookup(key, TTL_MS, load),
+      ]);
+
+      expect(results).toEqual(['value', 'value']);
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(UsdaCacheService.getStats().coalesced - before.coalesced).toBe(1);
+    });
+
+    it('does not cache failed requests', async () => {
+      const key = uniqueKey();
+      const load = jest.fn()
+        .mockRejectedValueOnce(new Error('USDA API unavailable'))
+        .mockResolvedValueOnce('value');
+
+      await expect(UsdaCacheService.lookup(key, TTL_MS, load)).rejects.toThrow('USDA API unavailable');
+      expect(await UsdaCacheService.lookup(key, TTL_MS, load)).toBe('value');
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('lookupMany', () => {
+    it('loads only the missing IDs, in one request', async () => {
+      const prefix = uniqueKey();
+      const keyOf = (id: number) => `${prefix}:${id}`;
+      const load = jest.fn(async (ids: number[]) => new Map(ids.map(id => [id, `food ${id}`])));
+
+      await UsdaCacheService.lookupMany([1], keyOf, TTL_MS, load);
+      const values = await UsdaCacheService.lookupMany([1, 2, 3], keyOf, TTL_MS, load);
+
+      expect([...values.entries()]).toEqual([[1, 'food 1'], [2, 'food 2'], [3, 'food 3']]);
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(load).toHaveBeenLastCalledWith([2, 3]);
+    });
+  });
+});
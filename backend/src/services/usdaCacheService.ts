@@ -0,0 +1,168 @@
+import { UsdaCacheModel } from '../models/UsdaCache';
+import { UsdaCacheStats } from '../types';
+import { config } from '../config/app';
+import { logger } from '../utils/logger';
+import { LruCache } from '../utils/lruCache';
+
+// Longest key stored in the database (usda_cache.cache_key); longer ones stay in process only
+const MAX_PERSISTENT_KEY_LENGTH = 512;
+
+// Minimum time between deletions of expired database entries
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class UsdaCacheService {
+  private static memory = new LruCache<any>(config.usdaCacheMaxEntries);
+  private static inFlight = new Map<string, Promise<any>>();
+  private static counters = { hits: 0, persistentHits: 0, coalesced: 0, misses: 0 };
+  private static lastPurge = Date.now();
+
+  /**
+   * Cached value of a key, else the loaded one, cached for ttlMs. Lookups of a key already
+   * being loaded wait for that request instead of sending another.
+   */
+  static async lookup<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+    const cached = this.memory.get(key);
+    if (cached !== undefined) {
+      this.counters.hits++;
+      return cached as T;
+    }
+
+    return this.coalesce(key, async () => {
+      const stored = await this.readPersistent<T>(key);
+      if (stored !== undefined) {
+        return stored;
+      }
+
+      this.counters.misses++;
+      const value = await load();
+      await this.store(key, value, ttlMs);
+      return value;
+    });
+  }
+
+  /**
+   * Cached values of several IDs; the missing ones are loaded with a single request
+   * (coalesced with identical batches in flight) and cached one by one
+   */
+  static async lookupMany<K, T>(
+    ids: K[],
+    keyOf: (id: K) => string,
+    ttlMs: number,
+    load: (missing: K[]) => Promise<Map<K, T>>
+  ): Promise<Map<K, T>> {
+    const values = new Map<K, T>();
+    const missing: K[] = [];
+
+    for (const id of ids) {
+      const cached = this.memory.get(keyOf(id));
+      if (cached !== undefined) {
+        this.counters.hits++;
+        values.set(id, cached);
+        continue;
+      }
+
+      const stored = await this.readPersistent<T>(keyOf(id));
+      if (stored !== undefined) {
+        values.set(id, stored);
+      } else {
+        missing.push(id);
+      }
+    }
+
+    if (missing.length > 0) {
+      const loaded = await this.coalesce(`batch:${missing.map(keyOf).join(',')}`, async () => {
+        this.counters.misses++;
+        const result = await load(missing);
+        for (const [id, value] of result) {
+          await this.store(keyOf(id), value, ttlMs);
+        }
+        return result;
+      });
+      loaded.forEach((value, id) => values.set(id, value));
+    }
+
+    return values;
+  }
+
+  /**
+   * Hit and miss counts of the cache since the server started
+   */
+  static getStats(): UsdaCacheStats {
+    const { hits, persistentHits, coalesced, misses } = this.counters;
+    const lookups = hits + persistentHits + coalesced + misses;
+
+    return {
+      size: this.memory.size,
+      maxEntries: this.memory.maxEntries,
+      persistent: config.usdaCachePersistent,
+      hits,
+      persistentHits,
+      coalesced,
+      misses,
+      evictions: this.memory.evictions,
+      hitRate: lookups > 0 ? Math.round(((lookups - misses) / lookups) * 1000) / 1000 : 0,
+    };
+  }
+
+  /**
+   * Run a load unless an identical one is in flight, in which case wait for its result
+   */
+  private static coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.counters.coalesced++;
+      return pending;
+    }
+
+    const request = load().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Value of a key in the database, kept in process for the rest of its lifetime.
+   * Undefined when missing, expired, or the database cache is off or failing.
+   */
+  private static async readPersistent<T>(key: string): Promise<T | undefined> {
+    if (!config.usdaCachePersistent || key.length > MAX_PERSISTENT_KEY_LENGTH) {
+      return undefined;
+    }
+
+    try {
+      const entry = await UsdaCacheModel.find(key);
+      if (!entry) {
+        return undefined;
+      }
+
+      this.counters.persistentHits++;
+      this.memory.set(key, entry.payload, entry.expires_at.getTime() - Date.now());
+      return entry.payload as T;
+    } catch (error) {
+      logger.warn(`USDA cache read failed for ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Cache a value in process and, when enabled, in the database (failures only logged)
+   */
+  private static async store(key: string, value: any, ttlMs: number): Promise<void> {
+    this.memory.set(key, value, ttlMs);
+
+    if (!config.usdaCachePersistent || key.length > MAX_PERSISTENT_KEY_LENGTH) {
+      return;
+    }
+
+    try {
+      await UsdaCacheModel.save(key, value, new Date(Date.now() + ttlMs));
+
+      if (Date.now() - this.lastPurge >= PURGE_INTERVAL_MS) {
+        this.lastPurge = Date.now();
+        const purged = await UsdaCacheModel.deleteExpired();
+        logger.info(`USDA cache: ${purged} expired responses deleted`);
+      }
+    } catch (error) {
+      logger.warn(`USDA cache write failed for ${key}:`, error);
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
+import { Micronutrients } from '../types';
+import { TRACKED_NUTRIENTS } from '../data/micronutrients';
+import { config } from '../config/app';
+import { UsdaCacheService } from './usdaCacheService';
 
 export interface USDAFood {
   fdcId: number;
@@ -14,8 +18,8 @@ export interface USDAFood {
   householdServingFullText?: string;
   foodNutrients: USDANutrient[];
   foodCategory?: {
-    id: number;
-    code: string;
+    id?: number;
+    code?: string;
     description: string;
   };
 }
@@ -42,7 +46,8 @@ export interface USDASearchResult {
   foods: USDAFood[];
 }
 
-export interface NutritionData {
+// Calories, macros and micronutrients; extracted foods have every tracked micronutrient
+export interface NutritionData extends Micronutrients {
   calories: number;
   protein: number;
   carbs: number;
@@ -61,9 +66,72 @@ export class USDAFoodService {
   private static readonly API_KEY = process.env.USDA_API_KEY;
 
   /**
-   * Search for foods in USDA database
+   * Whether an API key is configured for the USDA API
+   */
+  static isConfigured(): boolean {
+    return !!this.API_KEY;
+  }
+
+  /**
+   * Search for foods in USDA database (cached by normalized query, data types and page)
    */
   static async searchFoods(
+    query: string,
+    pageSize: number = 25,
+    pageNumber: number = 1,
+    dataType?: string[]
+  ): Promise<USDASearchResult> {
+    const normalizedQuery = query.trim().toLowerCase().replace(/\s+/g, ' ');
+    const size = Math.min(pageSize, 200); // USDA max is 200
+    const page = Math.max(pageNumber, 1);
+    const dataTypes = dataType && dataType.length > 0 ? [...dataType].sort() : undefined;
+
+    return UsdaCacheService.lookup(
+      `search:${normalizedQuery}|${(dataTypes || []).join(',')}|${size}|${page}`,
+      config.usdaCacheSearchTtlMs,
+      () => this.requestSearch(normalizedQuery, size, page, dataTypes)
+    );
+  }
+
+  /**
+   * Get detailed food information by FDC ID (cached per food and nutrient filter)
+   */
+  static async getFoodById(fdcId: number, nutrients?: number[]): Promise<USDAFood> {
+    return UsdaCacheService.lookup(
+      this.foodCacheKey(fdcId, nutrients),
+      config.usdaCacheFoodTtlMs,
+      () => this.requestFood(fdcId, nutrients)
+    );
+  }
+
+  /**
+   * Get multiple foods by FDC IDs; only the foods not cached are requested
+   */
+  static async getFoodsByIds(fdcIds: number[], nutrients?: number[]): Promise<USDAFood[]> {
+    const ids = [...new Set(fdcIds)].slice(0, 20); // USDA max is 20 per request
+    const foods = await UsdaCacheService.lookupMany(
+      ids,
+      fdcId => this.foodCacheKey(fdcId, nutrients),
+      config.usdaCacheFoodTtlMs,
+      async missing => new Map((await this.requestFoods(missing, nutrients)).map(food => [food.fdcId, food]))
+    );
+
+    return ids.filter(fdcId => foods.has(fdcId)).map(fdcId => foods.get(fdcId) as USDAFood);
+  }
+
+  /**
+   * Cache key of a food, with the nutrients it was filtered to
+   */
+  private static foodCacheKey(fdcId: number, nutrients?: number[]): string {
+    return nutrients && nutrients.length > 0 ?
+      `food:${fdcId}:${[...nutrients].sort((a, b) => a - b).join(',')}` :
+      `food:${fdcId}`;
+  }
+
+  /**
+   * Search request to the USDA API
+   */
+  private static async requestSearch(
     query: string, 
     pageSize: number = 25, 
     pageNumber: number = 1,
@@ -101,6 +169,10 @@ export class USDAFoodService {
       };
     } catch (error: any) {
       logger.error('USDA food search error:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
       
       if (error.response?.status === 400) {
         throw new AppError('Invalid search parameters', 400, 'INVALID_SEARCH');
@@ -115,9 +187,9 @@ export class USDAFoodService {
   }
 
   /**
-   * Get detailed food information by FDC ID
+   * Food details request to the USDA API
    */
-  static async getFoodById(fdcId: number, nutrients?: number[]): Promise<USDAFood> {
+  private static async requestFood(fdcId: number, nutrients?: number[]): Promise<USDAFood> {
     try {
       if (!this.API_KEY) {
         throw new AppError('USDA API key not configured', 500, 'API_KEY_MISSING');
@@ -140,6 +212,10 @@ export class USDAFoodService {
       return response.data as USDAFood;
     } catch (error: any) {
       logger.error(`USDA food details error for ID ${fdcId}:`, error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
       
       if (error.response?.status === 404) {
         throw new AppError('Food not found', 404, 'FOOD_NOT_FOUND');
@@ -152,9 +228,9 @@ export class USDAFoodService {
   }
 
   /**
-   * Get multiple foods by FDC IDs
+   * Multiple foods request to the USDA API
    */
-  static async getFoodsByIds(fdcIds: number[], nutrients?: number[]): Promise<USDAFood[]> {
+  private static async requestFoods(fdcIds: number[], nutrients?: number[]): Promise<USDAFood[]> {
     try {
       if (!this.API_KEY) {
         throw new AppError('USDA API key not configured', 500, 'API_KEY_MISSING');
@@ -188,6 +264,10 @@ export class USDAFoodService {
       return (response.data as USDAFood[]) || [];
     } catch (error: any) {
       logger.error('USDA multiple foods error:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
       
       if (error.response?.status === 403) {
         throw new AppError('USDA API access denied - check API key', 403, 'API_ACCESS_DENIED');
@@ -203,34 +283,20 @@ export class USDAFoodService {
   static extractNutritionData(usdaFood: USDAFood, servingSize: number = 100): NutritionData {
     const nutrients = usdaFood.foodNutrients || [];
     
-    // USDA Nutrient IDs (standardized)
+    // USDA Nutrient IDs (standardized); fiber and micronutrients come with their targets
     const nutrientMap: { [key: string]: number } = {
       calories: 1008,    // Energy (kcal)
       protein: 1003,     // Protein (g)
       carbs: 1005,       // Carbohydrate, by difference (g)
       fat: 1004,         // Total lipid (fat) (g)
-      fiber: 1079,       // Fiber, total dietary (g)
-      sugar: 2000,       // Sugars, total including NLEA (g)
-      sodium: 1093,      // Sodium, Na (mg)
-      calcium: 1087,     // Calcium, Ca (mg)
-      iron: 1089,        // Iron, Fe (mg)
-      vitaminC: 1162,    // Vitamin C, total ascorbic acid (mg)
-      vitaminD: 1114     // Vitamin D (D2 + D3) (µg)
+      ...Object.fromEntries(
+        Object.entries(TRACKED_NUTRIENTS).map(([key, nutrient]) => [key, nutrient.usdaNutrientId])
+      ),
     };
 
-    const nutritionData: NutritionData = {
-      calories: 0,
-      protein: 0,
-      carbs: 0,
-      fat: 0,
-      fiber: 0,
-      sugar: 0,
-      sodium: 0,
-      calcium: 0,
-      iron: 0,
-      vitaminC: 0,
-      vitaminD: 0
-    };
+    const nutritionData = Object.fromEntries(
+      Object.keys(nutrientMap).map(key => [key, 0])
+    ) as unknown as NutritionData;
 
     // Extract nutrition values
     Object.entries(nutrientMap).forEach(([key, nutrientId]) => {
@@ -359,44 +425,6 @@ export class USDAFoodService {
     };
   }
 
-  /**
-   * Suggest food alternatives based on nutrition gaps
-   */
-  static async suggestFoodAlternatives(
-    missingNutrients: string[]
-  ): Promise<{ [nutrient: string]: USDAFood[] }> {
-    const suggestions: { [nutrient: string]: USDAFood[] } = {};
-
-    const nutrientFoodMap: { [key: string]: string[] } = {
-      protein: ['chicken breast', 'salmon', 'eggs', 'greek yogurt', 'lentils', 'paneer'],
-      fiber: ['oats', 'quinoa', 'broccoli', 'apple', 'beans', 'brown rice'],
-      calcium: ['milk', 'cheese', 'yogurt', 'spinach', 'almonds', 'sesame seeds'],
-      iron: ['spinach', 'lentils', 'beef', 'tofu', 'pumpkin seeds', 'chickpeas'],
-      'vitamin C': ['orange', 'bell pepper', 'strawberry', 'kiwi', 'tomato', 'lemon']
-    };
-
-    for (const nutrient of missingNutrients) {
-      if (nutrientFoodMap[nutrient]) {
-        const foods: USDAFood[] = [];
-        
-        for (const foodQuery of nutrientFoodMap[nutrient].slice(0, 3)) {
-          try {
-            const searchResult = await this.searchFoods(foodQuery, 5);
-            if (searchResult.foods.length > 0) {
-              foods.push(searchResult.foods[0]); // Take the first result
-            }
-          } catch (error) {
-            logger.warn(`Failed to search for ${foodQuery}:`, error);
-          }
-        }
-        
-        suggestions[nutrient] = foods;
-      }
-    }
-
-    return suggestions;
-  }
-
   /**
    * Validate API key
    */
@@ -406,8 +434,8 @@ export class USDAFoodService {
         return false;
       }
 
-      // Test with a simple search
-      await this.searchFoods('apple', 1);
+      // Test with a simple search, bypassing the cache
+      await this.requestSearch('apple', 1);
       return true;
     } catch (error) {
       logger.error('USDA API key validation failed:', error);
@@ -0,0 +1,197 @@
+import { Exercise, CatalogExercise } from '../types';
+import { ExerciseCatalogModel } from '../models/ExerciseCatalog';
+import { SessionDurationService } from './sessionDurationService';
+import {
+  GENERAL_WARM_UP_SLUG,
+  RAMP_UP_LIFTS,
+  RAMP_UP_STEPS,
+  LOADED_EQUIPMENT,
+  NON_LIFT_MUSCLE_GROUPS,
+  COOL_DOWN_TARGETS,
+  MAX_COOL_DOWN_STRETCHES,
+} from '../data/warmUpCoolDown';
+
+const WEIGHT_INCREMENT_KG = 2.5;
+
+export class WarmupCooldownService {
+  /**
+   * Check if an exercise is part of the working sets of a session (not warm-up or cool-down)
+   */
+  static isMainExercise(exercise: Exercise): boolean {
+    return (exercise.section || 'main') === 'main';
+  }
+
+  /**
+   * Wrap a day's working exercises in a warm-up and a cool-down section, fitted into the time budget.
+   * The warm-up is rebuilt after fitting so its ramp-up sets match the lifts that were kept.
+   */
+  static async buildSession(
+    day: string,
+    exercises: Exercise[],
+    equipment: string[],
+    budgetMinutes?: number
+  ): Promise<Exercise[]> {
+    const main = exercises.filter(exercise => this.isMainExercise(exercise));
+    if (main.length === 0) {
+      return [];
+    }
+
+    const session = await this.attachSections(day, main, equipment);
+    if (!budgetMinutes) {
+      return session;
+    }
+
+    const fitted = SessionDurationService.fitToBudget(session, budgetMinutes);
+    return this.attachSections(day, fitted.filter(exercise => this.isMainExercise(exercise)), equipment);
+  }
+
+  /**
+   * Warm-up section, working exercises, cool-down section
+   */
+  private static async attachSections(day: string, main: Exercise[], equipment: string[]): Promise<Exercise[]> {
+    const entries = await ExerciseCatalogModel.findByIds(
+      main.filter(exercise => exercise.catalog_id !== undefined).map(exercise => exercise.catalog_id!)
+    );
+    const usedSlugs = entries.map(entry => entry.slug);
+
+    const warmUp = await this.buildWarmUp(day, main, entries, equipment, usedSlugs);
+    const coolDown = await this.buildCoolDown(day, main, equipment, usedSlugs);
+
+    return [
+      ...warmUp,
+      ...main.map(exercise => ({ ...exercise, section: 'main' as const })),
+      ...coolDown,
+    ];
+  }
+
+  /**
+   * General warm-up (unless the session opens with a cardio block) followed by ramp-up sets of the first lifts
+   */
+  private static async buildWarmUp(
+    day: string,
+    main: Exercise[],
+    entries: CatalogExercise[],
+    equipment: string[],
+    usedSlugs: string[]
+  ): Promise<Exercise[]> {
+    const warmUp: Exercise[] = [];
+
+    const opensWithCardio = main[0].type === 'cardio' ||
+      (main[0].muscle_group === 'cardiovascular' && !!main[0].duration);
+    if (!opensWithCardio && !usedSlugs.includes(GENERAL_WARM_UP_SLUG)) {
+      const [general] = await ExerciseCatalogModel.findBySlugs([GENERAL_WARM_UP_SLUG]);
+      if (general && ExerciseCatalogModel.isAvailable(general, equipment)) {
+        warmUp.push({ ...ExerciseCatalogModel.toExercise(general, day), section: 'warmup' });
+      }
+    }
+
+    const lifts = main
+      .filter(exercise =>
+        !exercise.duration &&
+        exercise.sets > 1 &&
+        !NON_LIFT_MUSCLE_GROUPS.includes(exercise.muscle_group || '')
+      )
+      .slice(0, RAMP_UP_LIFTS);
+
+    for (const lift of lifts) {
+      const entry = entries.find(item => item.id === lift.catalog_id);
+      const loaded = lift.weight !== undefined || !!entry?.equipment.some(tag => LOADED_EQUIPMENT.includes(tag));
+      warmUp.push(this.toRampUp(lift, loaded));
+    }
+
+    return warmUp;
+  }
+
+  /**
+   * Ramp-up sets for a lift: percentages of the working weight for loaded lifts,
+   * one easy set at half the reps for bodyweight lifts
+   */
+  private static toRampUp(lift: Exercise, loaded: boolean): Exercise {
+    const rampUp: Exercise = {
+      id: `${lift.id}-ramp-up`,
+      name: `${lift.name} Ramp-up`,
+      sets: 1,
+      reps: Math.max(Math.ceil(lift.reps / 2), 1),
+      instructions: `One easy set at half the working reps before your ${lift.name} sets`,
+      muscle_group: lift.muscle_group,
+      section: 'warmup',
+    };
+
+    if (!loaded) {
+      return rampUp;
+    }
+
+    const steps = RAMP_UP_STEPS.map(step => {
+      const weight = lift.weight ? this.roundWeight(lift.weight * step.percent / 100) : null;
+      return `${step.reps} reps at ~${step.percent}%${weight !== null ? ` (${weight} kg)` : ''}`;
+    });
+
+    return {
+      ...rampUp,
+      sets: RAMP_UP_STEPS.length,
+      reps: RAMP_UP_STEPS[0].reps,
+      weight: lift.weight ? this.roundWeight(lift.weight * RAMP_UP_STEPS[0].percent / 100) : undefined,
+      instructions: `Build up to your ${lift.name} working weight: ${steps.join(', then ')}`,
+    };
+  }
+
+  /**
+   * One stretch per muscle trained, in the order the muscles were trained
+   */
+  private static async buildCoolDown(
+    day: string,
+    main: Exercise[],
+    equipment: string[],
+    usedSlugs: string[]
+  ): Promise<Exercise[]> {
+    const muscles = [...new Set(main.flatMap(exercise => {
+      const group = exercise.muscle_group || 'full_body';
+      return COOL_DOWN_TARGETS[group] || [group];
+    }))];
+    if (muscles.length === 0) {
+      return [];
+    }
+
+    const stretches = (await ExerciseCatalogModel.findByMuscles(muscles)).filter(entry =>
+      entry.primary_muscle === 'flexibility' &&
+      !!entry.default_duration &&
+      entry.default_sets <= 2 &&
+      ExerciseCatalogModel.isAvailable(entry, equipment)
+    );
+    const picked = new Set(usedSlugs);
+    const coolDown: Exercise[] = [];
+
+    for (const muscle of muscles) {
+      if (coolDown.length >= MAX_COOL_DOWN_STRETCHES) {
+        break;
+      }
+
+      // Stretches aimed at the muscle first
+      const stretch = stretches
+        .filter(entry => !picked.has(entry.slug) && entry.secondary_muscles.includes(muscle))
+        .sort((a, b) => a.secondary_muscles.indexOf(muscle) - b.secondary_muscles.indexOf(muscle))[0];
+      if (!stretch) {
+        continue;
+      }
+
+      picked.add(stretch.slug);
+      const exercise = ExerciseCatalogModel.toExercise(stretch, day, muscle);
+      coolDown.push({
+        ...exercise,
+        // One hold covering both sides
+        sets: 1,
+        duration: stretch.default_duration! * stretch.default_sets,
+        section: 'cooldown',
+      });
+    }
+
+    return coolDown;
+  }
+
+  /**
+   * Round a weight to the nearest plate increment
+   */
+  private static roundWeight(weight: number): number {
+    return Math.round(weight / WEIGHT_INCREMENT_KG) * WEIGHT_INCREMENT_KG;
+  }
+}
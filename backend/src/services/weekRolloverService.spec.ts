@@ -0,0 +1,68 @@
+import { createStorage, setStorage } from '../repositories';
+import { UserModel } from '../models/User';
+import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
+import { WeeklyArchiveModel } from '../models/WeeklyArchive';
+import { WeekRolloverService } from './weekRolloverService';
+import { DateUtils } from '../utils/date';
+
+// Tests run in Los Angeles time (see test/globalSetup.ts), at UTC-8 until 8 March 2026
+const SUNDAY_NIGHT = new Date('2026-03-02T07:30:00Z'); // Sunday 1 March, 23:30 in Los Angeles
+const MONDAY_MORNING = new Date('2026-03-02T08:30:00Z'); // Monday 2 March, 00:30 in Los Angeles
+
+let userId: number;
+
+// Only the clock is faked, so the in-memory storage still resolves its promises
+const setNow = (now: Date) => {
+  jest.useFakeTimers({
+    now,
+    doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval',
+      'clearInterval', 'queueMicrotask', 'hrtime', 'performance'],
+  });
+};
+
+describe('WeekRolloverService', () => {
+  beforeEach(async () => {
+    setStorage(createStorage('memory'));
+
+    setNow(SUNDAY_NIGHT);
+    userId = (await UserModel.create({ name: 'Test', email: 'test@example.com', password: 'secret123' })).id;
+    await UserModel.updateProfile(userId, { weight: 70, height: 175, age: 30, gender: 'female' });
+    await WorkoutMealPlanModel.createOrUpdate(userId, {
+      day: 'Monday',
+      exercises: [{ id: 'squat', name: 'Squat', sets: 3, reps: 10, muscle_group: 'legs' }],
+      meals: [],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts weeks at Monday midnight in the server time zone', () => {
+    setNow(SUNDAY_NIGHT);
+    expect(DateUtils.getCurrentWeekStart()).toBe('2026-02-23');
+
+    setNow(MONDAY_MORNING);
+    expect(DateUtils.getCurrentWeekStart()).toBe('2026-03-02');
+  });
+
+  it('leaves the week alone until it has ended in the server time zone', async () => {
+    setNow(SUNDAY_NIGHT);
+
+    expect(await WeekRolloverService.runOnce()).toBe(0);
+    expect(await WeeklyArchiveModel.findByUserAndWeek(userId, '2026-02-23')).toBeNull();
+  });
+
+  it('archives the ended week and starts the new one from the templates, once', async () => {
+    setNow(MONDAY_MORNING);
+
+    expect(await WeekRolloverService.runOnce()).toBe(1);
+    expect(await WeekRolloverService.runOnce()).toBe(0);
+
+    const archive = await WeeklyArchiveModel.findByUserAndWeek(userId, '2026-02-23');
+    expect(archive).toMatchObject({ weekStartDate: '2026-02-23', totalExercises: 1 });
+
+    const plans = await WorkoutMealPlanModel.findByWeek(userId, '2026-03-02');
+    expect(plans.map(plan => [plan.plan_date, plan.exercises[0].name])).toEqual([['2026-03-02', 'Squat']]);
+  });
+});
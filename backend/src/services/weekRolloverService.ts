@@ -0,0 +1,145 @@
+import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
+import { WeekRolloverModel } from '../models/WeekRollover';
+import { ArchiveService } from './archiveService';
+import { WorkoutService } from './workoutService';
+import { CalorieTargetService } from './calorieTargetService';
+import { config } from '../config/app';
+import { logger } from '../utils/logger';
+import { DateUtils } from '../utils/date';
+
+// Longest wait before retrying a failed rollover
+const MAX_RETRY_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weeks run Monday to Sunday in the server's time zone (set it with TZ): every user's week
+ * rolls over at the same Monday midnight, whatever their own time zone.
+ */
+export class WeekRolloverService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+
+  /**
+   * Start the in-process scheduler that rolls finished weeks over
+   */
+  static start(): void {
+    if (!config.weekRolloverEnabled || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, config.weekRolloverIntervalMs);
+    this.timer.unref(); // Don't keep the process alive just for the scheduler
+
+    // Catch up on weeks that ended while the server was down
+    void this.runOnce();
+
+    logger.info(`Week rollover scheduler started (every ${Math.round(config.weekRolloverIntervalMs / 1000)}s)`);
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Week rollover scheduler stopped');
+    }
+  }
+
+  /**
+   * Roll over every user week that ended and has not been rolled over yet
+   */
+  static async runOnce(): Promise<number> {
+    if (this.isRunning) {
+      return 0;
+    }
+
+    this.isRunning = true;
+    let rolledOver = 0;
+
+    try {
+      const currentWeekStart = DateUtils.getCurrentWeekStart();
+      const pending = await WeekRolloverModel.findPending(currentWeekStart, config.weekRolloverMaxAttempts);
+
+      for (const { userId, weekStart } of pending) {
+        if (await this.rolloverUserWeek(userId, weekStart)) {
+          rolledOver++;
+        }
+      }
+
+      if (rolledOver > 0) {
+        logger.info(`Week rollover completed for ${rolledOver} user week(s)`);
+      }
+    } catch (error) {
+      logger.error('Week rollover run failed:', error);
+    } finally {
+      this.isRunning = false;
+    }
+
+    return rolledOver;
+  }
+
+  /**
+   * Archive a finished week, start the user's current week from the templates,
+   * optionally adjust its intensity and set its calorie target. Each step is recorded
+   * so a restart never repeats it.
+   */
+  static async rolloverUserWeek(userId: number, weekStart: string): Promise<boolean> {
+    const rollover = await WeekRolloverModel.claim(userId, weekStart);
+    if (rollover.status === 'completed') {
+      return false;
+    }
+
+    try {
+      if (!rollover.archived_at) {
+        await ArchiveService.archiveWeek(userId, weekStart);
+        await WeekRolloverModel.markArchived(rollover.id);
+      }
+
+      // New week plans start from the templates with empty completion status
+      const currentWeekStart = DateUtils.getCurrentWeekStart();
+      await WorkoutMealPlanModel.instantiateWeek(userId, currentWeekStart);
+
+      // Only the week that just ended should drive the new week's intensity. The adjustment is
+      // claimed before it runs: repeating it would compound, so a failed one is not retried.
+      const isLastWeek = DateUtils.addDays(weekStart, 7) === currentWeekStart;
+      if (config.weekRolloverAdjustIntensity && isLastWeek && (await WeekRolloverModel.claimAdjustment(rollover.id))) {
+        await WorkoutService.adjustWorkoutIntensity(userId, weekStart);
+      }
+
+      // Recalibrate the calorie target from the weeks that ended (kept if already set this week)
+      if (isLastWeek) {
+        await CalorieTargetService.getCurrentAdjustment(userId);
+      }
+
+      await WeekRolloverModel.markCompleted(rollover.id);
+      logger.info(`Week of ${weekStart} rolled over for user ${userId}`);
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const nextAttemptAt = this.nextAttemptAt(rollover.attempts);
+      await WeekRolloverModel.markFailed(rollover.id, message, nextAttemptAt);
+      logger.error(
+        `Week rollover failed for user ${userId}, week of ${weekStart} (attempt ${rollover.attempts}, ` +
+          `${nextAttemptAt ? `retrying after ${nextAttemptAt.toISOString()}` : 'giving up'}):`,
+        message
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Retry time after a failed attempt: the scheduler interval doubled with each attempt,
+   * capped at a day; null once the maximum number of attempts is reached
+   */
+  private static nextAttemptAt(attempts: number): Date | null {
+    if (attempts >= config.weekRolloverMaxAttempts) {
+      return null;
+    }
+
+    const delay = Math.min(config.weekRolloverIntervalMs * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+    return new Date(Date.now() + delay);
+  }
+}
@@ -1,8 +1,37 @@
 import { WorkoutMealPlanModel } from '../models/WorkoutMealPlan';
 import { UserModel } from '../models/User';
-import { Exercise, WorkoutMealPlan, User } from '../types';
+import { ExerciseSetLogModel } from '../models/ExerciseSetLog';
+import { ExerciseCatalogModel } from '../models/ExerciseCatalog';
+import {
+  Exercise,
+  ExerciseSection,
+  WorkoutMealPlan,
+  Meal,
+  User,
+  ExerciseSetLog,
+  LogExerciseSetRequest,
+  ExerciseSetLogData,
+  CatalogExercise,
+  ExerciseDifficulty,
+  EquipmentProfile,
+  ExerciseSubstitution,
+  TrainingPreferences,
+  TrainingDay,
+  ExerciseAlternative,
+  SubstituteReference,
+  SwapExerciseRequest,
+  CompleteSessionRequest,
+  WorkoutSessionSummary,
+} from '../types';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
+import { DateUtils } from '../utils/date';
+import { EQUIPMENT_PROFILES, DEFAULT_EQUIPMENT_PROFILE } from '../data/equipmentProfiles';
+import { MIN_CONDITIONING_ZONE } from '../data/cardio';
+import { TrainingScheduleService } from './trainingScheduleService';
+import { WarmupCooldownService } from './warmupCooldownService';
+import { CardioService } from './cardioService';
+import { CalorieTargetService } from './calorieTargetService';
 
 export interface WorkoutProgress {
   totalDays: number;
@@ -18,6 +47,8 @@ export interface WorkoutProgress {
       completionPercentage: number;
       exercisesCompleted: number;
       totalExercises: number;
+      warmupCompleted: boolean;
+      cooldownCompleted: boolean;
     };
   };
 }
@@ -31,10 +62,21 @@ export interface ExerciseTemplate {
   duration?: number;
   instructions: string;
   muscle_group: string;
-  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  difficulty: ExerciseDifficulty;
   equipment?: string[];
+  media_url?: string;
 }
 
+const DEFAULT_ALTERNATIVES_LIMIT = 5;
+const DIFFICULTY_LEVELS: ExerciseDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// Muscle groups whose exercises are relevant to each goal
+const GOAL_MUSCLE_GROUPS: { [goal: string]: string[] } = {
+  'weight_loss': ['cardiovascular', 'full_body', 'core'],
+  'muscle_gain': ['chest', 'legs', 'arms', 'back', 'shoulders'],
+  'maintenance': ['full_body', 'core', 'flexibility'],
+};
+
 export class WorkoutService {
   /**
    * Generate personalized workout routine based on user profile and goals
@@ -47,16 +89,20 @@ export class WorkoutService {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      // Generate workout plans for each day of the week
-      const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+      // Only pick exercises the user's equipment allows
+      const equipment = EQUIPMENT_PROFILES[user.equipment_profile || DEFAULT_EQUIPMENT_PROFILE];
+
+      // Lay out training and rest days from the user's frequency, split and rest days
+      const week = TrainingScheduleService.planWeek(user);
       const workoutPlans: WorkoutMealPlan[] = [];
+      const { calorie_target: calorieTarget } = await CalorieTargetService.getCurrentAdjustment(userId);
 
-      for (const day of days) {
-        const exercises = this.generateDayExercises(user, day);
-        const meals = this.generateDayMeals(user, day);
+      for (const trainingDay of week) {
+        const exercises = await this.generateDayExercises(user, trainingDay, equipment);
+        const meals = this.generateDayMeals(trainingDay.day, calorieTarget);
 
         const planData = {
-          day: day as any,
+          day: trainingDay.day as any,
           exercises,
           meals,
         };
@@ -74,23 +120,30 @@ export class WorkoutService {
   }
 
   /**
-   * Get workout progress analytics for a user
+   * Get workout progress analytics for a user (current week unless a week start is given)
    */
-  static async getWorkoutProgress(userId: number): Promise<WorkoutProgress> {
+  static async getWorkoutProgress(userId: number, weekStart?: string): Promise<WorkoutProgress> {
     try {
-      const plans = await WorkoutMealPlanModel.findByUserId(userId);
+      const plans = weekStart ?
+        await WorkoutMealPlanModel.findByWeek(userId, weekStart) :
+        await WorkoutMealPlanModel.findByUserId(userId);
       
       let totalExercises = 0;
       let completedExercises = 0;
       let completedDays = 0;
       const weeklyStats: WorkoutProgress['weeklyStats'] = {};
 
-      // Calculate statistics for each day
+      // Calculate statistics for each day; warm-up and cool-down are tracked apart from the working exercises
       plans.forEach(plan => {
-        const dayExercises = plan.exercises.length;
-        const dayCompletedExercises = plan.exercises.filter(ex => 
+        const mainExercises = plan.exercises.filter(ex => WarmupCooldownService.isMainExercise(ex));
+        const dayExercises = mainExercises.length;
+        const dayCompletedExercises = mainExercises.filter(ex => 
           plan.completed_status.exercises[ex.id]
         ).length;
+        const isSectionCompleted = (section: ExerciseSection) => {
+          const sectionExercises = plan.exercises.filter(ex => ex.section === section);
+          return sectionExercises.length > 0 && sectionExercises.every(ex => plan.completed_status.exercises[ex.id]);
+        };
 
         totalExercises += dayExercises;
         completedExercises += dayCompletedExercises;
@@ -108,6 +161,8 @@ export class WorkoutService {
           completionPercentage: dayCompletionPercentage,
           exercisesCompleted: dayCompletedExercises,
           totalExercises: dayExercises,
+          warmupCompleted: isSectionCompleted('warmup'),
+          cooldownCompleted: isSectionCompleted('cooldown'),
         };
       });
 
@@ -156,6 +211,164 @@ export class WorkoutService {
     }
   }
 
+  /**
+   * Get the sets logged for a day of the current week, optionally for one exercise
+   */
+  static async getSetLogs(userId: number, day: string, exerciseId?: string): Promise<ExerciseSetLog[]> {
+    const plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
+    if (!plan) {
+      throw new AppError('No workout plan found for this day', 404, 'PLAN_NOT_FOUND');
+    }
+
+    if (exerciseId !== undefined) {
+      this.findPlanExercise(plan, exerciseId);
+    }
+
+    return ExerciseSetLogModel.findByPlan(plan.id, exerciseId);
+  }
+
+  /**
+   * Log a performed set against an exercise of the current week.
+   * The exercise is marked completed once every prescribed set has been logged.
+   */
+  static async logExerciseSet(
+    userId: number,
+    day: string,
+    exerciseId: string,
+    setData: LogExerciseSetRequest
+  ): Promise<{ set: ExerciseSetLog; plan: WorkoutMealPlan }> {
+    try {
+      let plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
+      if (!plan) {
+        throw new AppError('No workout plan found for this day', 404, 'PLAN_NOT_FOUND');
+      }
+
+      const exercise = this.findPlanExercise(plan, exerciseId);
+      const loggedSets = await ExerciseSetLogModel.findByPlan(plan.id, exerciseId);
+
+      const set = await ExerciseSetLogModel.create({
+        user_id: userId,
+        plan_id: plan.id,
+        exercise_id: exercise.id,
+        exercise_name: exercise.name,
+        set_number: setData.set_number ?? loggedSets.length + 1,
+        reps: setData.reps,
+        weight: setData.weight ?? undefined,
+        rpe: setData.rpe ?? undefined,
+        rir: setData.rir ?? undefined,
+        rest_seconds: setData.rest_seconds ?? undefined,
+        notes: setData.notes ?? undefined,
+      });
+
+      if (loggedSets.length + 1 >= exercise.sets && !plan.completed_status.exercises[exercise.id]) {
+        plan = await WorkoutMealPlanModel.updateCompletedStatus(userId, day, {
+          exercise_id: exercise.id,
+          completed: true,
+        });
+      }
+
+      return { set, plan };
+    } catch (error) {
+      logger.error('Error logging exercise set:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a finished guided session: every performed set is logged in one go and exercises
+   * are marked completed once all their prescribed sets have been logged
+   */
+  static async completeSession(
+    userId: number,
+    day: string,
+    session: CompleteSessionRequest
+  ): Promise<{ plan: WorkoutMealPlan; sets: ExerciseSetLog[]; summary: WorkoutSessionSummary }> {
+    try {
+      let plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
+      if (!plan) {
+        throw new AppError('No workout plan found for this day', 404, 'PLAN_NOT_FOUND');
+      }
+
+      const loggedSets = await ExerciseSetLogModel.findByPlan(plan.id);
+      const setData: ExerciseSetLogData[] = [];
+      const finished: Exercise[] = [];
+
+      for (const performed of session.exercises) {
+        const exercise = this.findPlanExercise(plan, performed.exercise_id);
+        const previousSets = loggedSets.filter(set => set.exercise_id === exercise.id).length;
+
+        performed.sets.forEach((set, index) => {
+          setData.push({
+            user_id: userId,
+            plan_id: plan!.id,
+            exercise_id: exercise.id,
+            exercise_name: exercise.name,
+            set_number: set.set_number ?? previousSets + index + 1,
+            reps: set.reps,
+            weight: set.weight ?? undefined,
+            rpe: set.rpe ?? undefined,
+            rir: set.rir ?? undefined,
+            rest_seconds: set.rest_seconds ?? undefined,
+            notes: set.notes ?? undefined,
+          });
+        });
+
+        if (previousSets + performed.sets.length >= exercise.sets && !plan.completed_status.exercises[exercise.id]) {
+          finished.push(exercise);
+        }
+      }
+
+      const sets = await ExerciseSetLogModel.createMany(setData);
+
+      for (const exercise of finished) {
+        plan = await WorkoutMealPlanModel.updateCompletedStatus(userId, day, {
+          exercise_id: exercise.id,
+          completed: true,
+        });
+      }
+
+      const summary: WorkoutSessionSummary = {
+        day: plan.day,
+        plan_date: plan.plan_date,
+        duration_seconds: Math.round(
+          (new Date(session.finished_at).getTime() - new Date(session.started_at).getTime()) / 1000
+        ),
+        exercises_performed: session.exercises.length,
+        exercises_completed: finished.length,
+        total_sets: sets.length,
+        total_reps: sets.reduce((sum, set) => sum + set.reps, 0),
+        total_volume: Math.round(sets.reduce((sum, set) => sum + set.reps * (set.weight || 0), 0) * 10) / 10,
+      };
+
+      logger.info(`Session of ${summary.total_sets} sets recorded for user ${userId} on ${day}`);
+      return { plan, sets, summary };
+    } catch (error) {
+      logger.error('Error completing workout session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a set logged on a day of the current week
+   */
+  static async updateExerciseSet(
+    userId: number,
+    day: string,
+    setId: number,
+    setData: Partial<LogExerciseSetRequest>
+  ): Promise<ExerciseSetLog> {
+    await this.findDaySetLog(userId, day, setId);
+    return ExerciseSetLogModel.update(setId, userId, setData);
+  }
+
+  /**
+   * Delete a set logged on a day of the current week
+   */
+  static async deleteExerciseSet(userId: number, day: string, setId: number): Promise<void> {
+    await this.findDaySetLog(userId, day, setId);
+    await ExerciseSetLogModel.delete(setId, userId);
+  }
+
   /**
    * Get exercise recommendations based on user progress
    */
@@ -169,14 +382,18 @@ export class WorkoutService {
       const progress = await this.getWorkoutProgress(userId);
       
       // Determine user's fitness level based on progress
-      let difficulty: 'beginner' | 'intermediate' | 'advanced' = 'beginner';
+      let difficulty: ExerciseDifficulty = 'beginner';
       if (progress.completionPercentage > 70) {
         difficulty = 'advanced';
       } else if (progress.completionPercentage > 40) {
         difficulty = 'intermediate';
       }
 
-      return this.getExerciseTemplatesByGoalAndDifficulty(user.goal || 'maintenance', difficulty);
+      return await this.getExerciseTemplatesByGoalAndDifficulty(
+        user.goal || 'maintenance',
+        difficulty,
+        EQUIPMENT_PROFILES[user.equipment_profile || DEFAULT_EQUIPMENT_PROFILE]
+      );
     } catch (error) {
       logger.error('Error getting exercise recommendations:', error);
       throw error;
@@ -184,16 +401,191 @@ export class WorkoutService {
   }
 
   /**
-   * Update workout intensity based on user progress
+   * Switch the user's equipment profile and swap exercises it rules out, from today to the
+   * end of the week (completed ones are kept). Exercises nothing feasible replaces are kept and
+   * flagged unavailable, unless dropping them is allowed. Weekday templates are updated for future weeks.
+   */
+  static async setEquipmentProfile(
+    userId: number,
+    profile: EquipmentProfile,
+    dropUnavailable: boolean = false
+  ): Promise<{ profile: EquipmentProfile; substitutions: ExerciseSubstitution[]; plans: WorkoutMealPlan[] }> {
+    try {
+      await UserModel.updateEquipmentProfile(userId, profile);
+
+      const equipment = EQUIPMENT_PROFILES[profile];
+      const today = DateUtils.toDateString(new Date());
+      const substitutions: ExerciseSubstitution[] = [];
+
+      for (const plan of await WorkoutMealPlanModel.findByUserId(userId)) {
+        if (plan.plan_date < today) {
+          continue;
+        }
+
+        const { exercises, changes, updated } = await this.substituteUnavailable(
+          plan.exercises,
+          plan.day,
+          equipment,
+          dropUnavailable,
+          plan.completed_status.exercises
+        );
+        if (updated) {
+          await WorkoutMealPlanModel.createOrUpdate(userId, { day: plan.day, exercises, meals: plan.meals });
+          substitutions.push(...changes.map(change => ({ ...change, day: plan.day, planDate: plan.plan_date })));
+        }
+      }
+
+      // Days already behind us this week only change from next week on
+      for (const template of await WorkoutMealPlanModel.findTemplatesByUserId(userId)) {
+        const planDate = DateUtils.getDateForDay(DateUtils.getCurrentWeekStart(), template.day);
+        if (planDate >= today) {
+          continue;
+        }
+
+        const { exercises, updated } = await this.substituteUnavailable(template.exercises, template.day, equipment, dropUnavailable);
+        if (updated) {
+          await WorkoutMealPlanModel.saveTemplate(userId, template.day, exercises, template.meals);
+        }
+      }
+
+      logger.info(`Equipment profile of user ${userId} switched to ${profile} with ${substitutions.length} substitutions`);
+      return { profile, substitutions, plans: await WorkoutMealPlanModel.findByUserId(userId) };
+    } catch (error) {
+      logger.error('Error switching equipment profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the user's training frequency, split, rest days and time budgets and regenerate the routine to match
    */
-  static async adjustWorkoutIntensity(userId: number): Promise<WorkoutMealPlan[]> {
+  static async setTrainingPreferences(
+    userId: number,
+    updates: Partial<TrainingPreferences>
+  ): Promise<{ preferences: TrainingPreferences; week: TrainingDay[]; plans: WorkoutMealPlan[] }> {
     try {
       const user = await UserModel.findById(userId);
       if (!user) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
 
-      const progress = await this.getWorkoutProgress(userId);
+      const preferences = { ...TrainingScheduleService.getPreferences(user), ...updates };
+      TrainingScheduleService.validatePreferences(preferences);
+
+      const updatedUser = await UserModel.updateTrainingPreferences(userId, preferences);
+      const plans = await this.generatePersonalizedWorkout(userId);
+
+      return { preferences, week: TrainingScheduleService.planWeek(updatedUser), plans };
+    } catch (error) {
+      logger.error('Error updating training preferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ranked catalog alternatives for an exercise of a current-week day that the user's equipment
+   * allows, leaving out exercises already in that day
+   */
+  static async getExerciseAlternatives(
+    userId: number,
+    day: string,
+    exerciseId: string,
+    limit: number = DEFAULT_ALTERNATIVES_LIMIT
+  ): Promise<{ exercise: Exercise; alternatives: ExerciseAlternative[] }> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
+    if (!plan) {
+      throw new AppError('No workout plan found for this day', 404, 'PLAN_NOT_FOUND');
+    }
+
+    const exercise = this.findPlanExercise(plan, exerciseId);
+    const entry = exercise.catalog_id !== undefined ? await ExerciseCatalogModel.findById(exercise.catalog_id) : null;
+    const dayEntries = await ExerciseCatalogModel.findByIds(
+      plan.exercises.filter(item => item.catalog_id !== undefined).map(item => item.catalog_id!)
+    );
+
+    const alternatives = await ExerciseCatalogModel.rankSubstitutes(
+      entry || this.toSubstituteReference(exercise),
+      exercise.muscle_group || entry?.primary_muscle || 'full_body',
+      EQUIPMENT_PROFILES[user.equipment_profile || DEFAULT_EQUIPMENT_PROFILE],
+      dayEntries.map(item => item.slug)
+    );
+
+    return { exercise, alternatives: alternatives.slice(0, limit) };
+  }
+
+  /**
+   * Swap an exercise of a current-week day for a catalog exercise, keeping its position and,
+   * when both are rep-based (or both timed), its prescription. Completed exercises are kept
+   * as they are; sets already logged stay recorded against the original exercise and the
+   * replacement completes once its own sets are logged.
+   */
+  static async swapExercise(
+    userId: number,
+    day: string,
+    exerciseId: string,
+    swapData: SwapExerciseRequest
+  ): Promise<{ plan: WorkoutMealPlan; from: Exercise; to: Exercise }> {
+    try {
+      const plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
+      if (!plan) {
+        throw new AppError('No workout plan found for this day', 404, 'PLAN_NOT_FOUND');
+      }
+
+      const exercise = this.findPlanExercise(plan, exerciseId);
+      if (plan.completed_status.exercises[exercise.id]) {
+        throw new AppError('Completed exercises cannot be swapped', 409, 'EXERCISE_COMPLETED');
+      }
+
+      const substitute = await ExerciseCatalogModel.findById(swapData.catalog_id);
+      if (!substitute) {
+        throw new AppError('Exercise not found', 404, 'EXERCISE_NOT_FOUND');
+      }
+
+      if (plan.exercises.some(item => item.catalog_id === substitute.id)) {
+        throw new AppError(`${substitute.name} is already part of this day`, 409, 'EXERCISE_IN_PLAN');
+      }
+
+      const entry = exercise.catalog_id !== undefined ? await ExerciseCatalogModel.findById(exercise.catalog_id) : null;
+      // The replacement takes the place of the exercise within its section
+      const replacement: Exercise = {
+        ...(entry ?
+          this.replaceExercise(exercise, entry, substitute, plan.day) :
+          ExerciseCatalogModel.toExercise(substitute, plan.day, exercise.muscle_group || substitute.primary_muscle)),
+        section: exercise.section,
+      };
+
+      const updatedPlan = await WorkoutMealPlanModel.replaceExercise(
+        userId,
+        day,
+        exercise.id,
+        replacement,
+        swapData.permanent
+      );
+
+      return { plan: updatedPlan, from: exercise, to: replacement };
+    } catch (error) {
+      logger.error('Error swapping exercise:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update workout intensity based on user progress.
+   * Progress is read from the current week, or from basedOnWeekStart (e.g. the week that just ended).
+   */
+  static async adjustWorkoutIntensity(userId: number, basedOnWeekStart?: string): Promise<WorkoutMealPlan[]> {
+    try {
+      const user = await UserModel.findById(userId);
+      if (!user) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+
+      const progress = await this.getWorkoutProgress(userId, basedOnWeekStart);
       const currentPlans = await WorkoutMealPlanModel.findByUserId(userId);
 
       // Adjust intensity based on completion rate
@@ -203,10 +595,11 @@ export class WorkoutService {
         const dayStats = progress.weeklyStats[plan.day];
         let adjustedExercises = [...plan.exercises];
 
-        if (dayStats.completionPercentage > 80) {
+        // Days without recorded progress keep their current intensity
+        if (dayStats && dayStats.completionPercentage > 80) {
           // Increase intensity
           adjustedExercises = this.increaseExerciseIntensity(adjustedExercises);
-        } else if (dayStats.completionPercentage < 40) {
+        } else if (dayStats && dayStats.completionPercentage < 40) {
           // Decrease intensity
           adjustedExercises = this.decreaseExerciseIntensity(adjustedExercises);
         }
@@ -229,30 +622,72 @@ export class WorkoutService {
   }
 
   /**
-   * Generate exercises for a specific day based on user profile
+   * Generate default workout meal plan based on user goal
    */
-  private static generateDayExercises(user: User, day: string): Exercise[] {
-    const dayIndex = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'].indexOf(day);
+  static async generateDefaultPlan(userId: number, goal: 'weight_loss' | 'muscle_gain' | 'maintenance'): Promise<void> {
+    const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+    const user = await UserModel.findById(userId);
+    const equipment = EQUIPMENT_PROFILES[user?.equipment_profile || DEFAULT_EQUIPMENT_PROFILE];
+    const week = user ? TrainingScheduleService.planWeek({ ...user, goal }) : null;
     
-    // Different focus for each day based on goal
-    const focusAreas = this.getDayFocusAreas(user.goal || 'maintenance', dayIndex);
+    for (const day of days) {
+      const trainingDay = week?.find(item => item.day === day);
+
+      // Rest days keep their meals but have no exercises
+      const exercises = !trainingDay || trainingDay.session ?
+        await WarmupCooldownService.buildSession(
+          day,
+          await this.getDefaultExercises(goal, day, equipment),
+          equipment,
+          trainingDay?.budget_minutes
+        ) :
+        [];
+      const meals = this.getDefaultMeals(goal, day);
+      
+      await WorkoutMealPlanModel.createOrUpdate(userId, {
+        day: day as any,
+        exercises,
+        meals,
+      });
+    }
     
-    return focusAreas.flatMap(area => this.getExercisesForMuscleGroup(area, user.goal || 'maintenance'));
+    logger.info(`Default workout meal plan generated for user ${userId} with goal ${goal}`);
   }
 
   /**
-   * Generate meals for a specific day (simplified version)
+   * Generate exercises for a day of the week layout with its warm-up and cool-down,
+   * fitted into its time budget (none on rest days)
    */
-  private static generateDayMeals(user: User, day: string): any[] {
+  private static async generateDayExercises(user: User, trainingDay: TrainingDay, equipment: string[]): Promise<Exercise[]> {
+    const usedSlugs = new Set<string>();
+    const exercises: Exercise[] = [];
+
+    for (const { muscle, exercises: count } of trainingDay.focus) {
+      const areaExercises = await this.getExercisesForMuscleGroup(
+        muscle,
+        user.goal || 'maintenance',
+        trainingDay.day,
+        usedSlugs,
+        equipment,
+        count
+      );
+      exercises.push(...areaExercises);
+    }
+
+    return WarmupCooldownService.buildSession(trainingDay.day, exercises, equipment, trainingDay.budget_minutes);
+  }
+
+  /**
+   * Generate meals for a specific day from the user's daily calorie target (simplified version)
+   */
+  private static generateDayMeals(day: string, calories: number): any[] {
     // This is a simplified version - in a real app, this would be more complex
-    const baseCalories = this.calculateBaseCalories(user);
-    
     return [
       {
         id: `${day}-breakfast`,
         name: 'Healthy Breakfast',
         type: 'breakfast',
-        calories: Math.round(baseCalories * 0.25),
+        calories: Math.round(calories * 0.25),
         protein: 20,
         carbs: 30,
         fat: 10,
@@ -262,7 +697,7 @@ export class WorkoutService {
         id: `${day}-lunch`,
         name: 'Nutritious Lunch',
         type: 'lunch',
-        calories: Math.round(baseCalories * 0.35),
+        calories: Math.round(calories * 0.35),
         protein: 25,
         carbs: 40,
         fat: 15,
@@ -272,7 +707,7 @@ export class WorkoutService {
         id: `${day}-dinner`,
         name: 'Balanced Dinner',
         type: 'dinner',
-        calories: Math.round(baseCalories * 0.3),
+        calories: Math.round(calories * 0.3),
         protein: 30,
         carbs: 25,
         fat: 18,
@@ -282,127 +717,150 @@ export class WorkoutService {
   }
 
   /**
-   * Get focus areas for each day based on goal
+   * Get up to count feasible catalog exercises for specific muscle group, skipping those already used that day.
+   * Exercises targeting the group come first, and among those the ones using available equipment.
    */
-  private static getDayFocusAreas(goal: string, dayIndex: number): string[] {
-    const focusPlans = {
-      'weight_loss': [
-        ['cardiovascular', 'full_body'], // Monday
-        ['core', 'legs'], // Tuesday
-        ['cardiovascular', 'arms'], // Wednesday
-        ['full_body', 'core'], // Thursday
-        ['cardiovascular', 'legs'], // Friday
-        ['flexibility', 'core'], // Saturday
-        ['cardiovascular'], // Sunday
-      ],
-      'muscle_gain': [
-        ['chest', 'arms'], // Monday
-        ['legs', 'core'], // Tuesday
-        ['back', 'shoulders'], // Wednesday
-        ['arms', 'core'], // Thursday
-        ['legs', 'chest'], // Friday
-        ['shoulders', 'back'], // Saturday
-        ['flexibility', 'core'], // Sunday
-      ],
-      'maintenance': [
-        ['full_body'], // Monday
-        ['cardiovascular'], // Tuesday
-        ['core', 'flexibility'], // Wednesday
-        ['full_body'], // Thursday
-        ['cardiovascular'], // Friday
-        ['flexibility'], // Saturday
-        ['core'], // Sunday
-      ],
-    };
+  private static async getExercisesForMuscleGroup(
+    muscleGroup: string,
+    goal: string,
+    day: string,
+    usedSlugs: Set<string>,
+    equipment: string[],
+    count: number
+  ): Promise<Exercise[]> {
+    let candidates = await ExerciseCatalogModel.findForMuscleGroup(muscleGroup);
+    if (candidates.length === 0) {
+      candidates = await ExerciseCatalogModel.findForMuscleGroup('full_body');
+    }
 
-    return focusPlans[goal as keyof typeof focusPlans]?.[dayIndex] || ['full_body'];
+    // Single timed blocks (warm-up, stretching) are not part of a muscle group workout;
+    // conditioning work is a cardio session at zone 2 or above
+    const exercises = candidates
+      .filter(entry =>
+        (entry.cardio ?
+          entry.primary_muscle === muscleGroup &&
+            (entry.cardio.heart_rate_zone || MIN_CONDITIONING_ZONE) >= MIN_CONDITIONING_ZONE :
+          entry.default_sets > 1) &&
+        !usedSlugs.has(entry.slug) &&
+        ExerciseCatalogModel.isAvailable(entry, equipment)
+      )
+      .sort((a, b) =>
+        Number(b.primary_muscle === muscleGroup) - Number(a.primary_muscle === muscleGroup) ||
+        Number(b.equipment.length > 0) - Number(a.equipment.length > 0)
+      )
+      .slice(0, count);
+
+    // Adjust intensity based on goal (cardio keeps its prescribed session)
+    return exercises.map(entry => {
+      usedSlugs.add(entry.slug);
+      const exercise = ExerciseCatalogModel.toExercise(entry, day, muscleGroup);
+      if (CardioService.isCardio(exercise)) {
+        return exercise;
+      }
+      return {
+        ...exercise,
+        sets: goal === 'muscle_gain' ? exercise.sets + 1 : exercise.sets,
+        reps: goal === 'weight_loss' ? exercise.reps + 5 : exercise.reps,
+      };
+    });
   }
 
   /**
-   * Get exercises for specific muscle group
+   * Replace catalog exercises needing unavailable equipment with the closest feasible match.
+   * Without one the exercise is kept and flagged unavailable, or dropped when allowed; the flag
+   * is cleared once the equipment is available again. Exercises without a catalog entry or
+   * already completed are left as they are.
    */
-  private static getExercisesForMuscleGroup(muscleGroup: string, goal: string): Exercise[] {
-    const exerciseDatabase: { [key: string]: Exercise[] } = {
-      'cardiovascular': [
-        { id: `cardio-1`, name: 'Jumping Jacks', sets: 3, reps: 20, instructions: 'Full body cardio exercise', muscle_group: 'cardiovascular' },
-        { id: `cardio-2`, name: 'High Knees', sets: 3, reps: 15, instructions: 'Cardio exercise for legs', muscle_group: 'cardiovascular' },
-        { id: `cardio-3`, name: 'Burpees', sets: 3, reps: 8, instructions: 'High intensity full body exercise', muscle_group: 'cardiovascular' },
-      ],
-      'chest': [
-        { id: `chest-1`, name: 'Push-ups', sets: 3, reps: 12, instructions: 'Standard push-ups for chest', muscle_group: 'chest' },
-        { id: `chest-2`, name: 'Incline Push-ups', sets: 3, reps: 10, instructions: 'Easier variation of push-ups', muscle_group: 'chest' },
-        { id: `chest-3`, name: 'Chest Dips', sets: 3, reps: 8, instructions: 'Advanced chest exercise', muscle_group: 'chest' },
-      ],
-      'legs': [
-        { id: `legs-1`, name: 'Squats', sets: 3, reps: 15, instructions: 'Basic squat exercise', muscle_group: 'legs' },
-        { id: `legs-2`, name: 'Lunges', sets: 3, reps: 12, instructions: 'Alternating leg lunges', muscle_group: 'legs' },
-        { id: `legs-3`, name: 'Calf Raises', sets: 3, reps: 20, instructions: 'Calf strengthening exercise', muscle_group: 'legs' },
-      ],
-      'core': [
-        { id: `core-1`, name: 'Planks', sets: 3, reps: 1, duration: 60, instructions: 'Hold plank position', muscle_group: 'core' },
-        { id: `core-2`, name: 'Crunches', sets: 3, reps: 15, instructions: 'Basic abdominal crunches', muscle_group: 'core' },
-        { id: `core-3`, name: 'Mountain Climbers', sets: 3, reps: 20, instructions: 'Dynamic core exercise', muscle_group: 'core' },
-      ],
-      'arms': [
-        { id: `arms-1`, name: 'Tricep Dips', sets: 3, reps: 10, instructions: 'Tricep strengthening exercise', muscle_group: 'arms' },
-        { id: `arms-2`, name: 'Arm Circles', sets: 3, reps: 15, instructions: 'Shoulder and arm exercise', muscle_group: 'arms' },
-        { id: `arms-3`, name: 'Wall Push-ups', sets: 3, reps: 12, instructions: 'Easier arm exercise', muscle_group: 'arms' },
-      ],
-      'back': [
-        { id: `back-1`, name: 'Superman', sets: 3, reps: 12, instructions: 'Lower back strengthening', muscle_group: 'back' },
-        { id: `back-2`, name: 'Reverse Fly', sets: 3, reps: 10, instructions: 'Upper back exercise', muscle_group: 'back' },
-        { id: `back-3`, name: 'Cat-Cow Stretch', sets: 2, reps: 10, instructions: 'Back mobility exercise', muscle_group: 'back' },
-      ],
-      'shoulders': [
-        { id: `shoulders-1`, name: 'Shoulder Rolls', sets: 3, reps: 15, instructions: 'Shoulder mobility exercise', muscle_group: 'shoulders' },
-        { id: `shoulders-2`, name: 'Pike Push-ups', sets: 3, reps: 8, instructions: 'Shoulder strengthening exercise', muscle_group: 'shoulders' },
-        { id: `shoulders-3`, name: 'Arm Raises', sets: 3, reps: 12, instructions: 'Lateral shoulder exercise', muscle_group: 'shoulders' },
-      ],
-      'full_body': [
-        { id: `fullbody-1`, name: 'Burpees', sets: 3, reps: 8, instructions: 'Full body high intensity exercise', muscle_group: 'full_body' },
-        { id: `fullbody-2`, name: 'Jumping Jacks', sets: 3, reps: 20, instructions: 'Full body cardio exercise', muscle_group: 'full_body' },
-        { id: `fullbody-3`, name: 'Bear Crawl', sets: 3, reps: 10, instructions: 'Full body strength exercise', muscle_group: 'full_body' },
-      ],
-      'flexibility': [
-        { id: `flex-1`, name: 'Forward Fold', sets: 2, reps: 1, duration: 30, instructions: 'Hamstring and back stretch', muscle_group: 'flexibility' },
-        { id: `flex-2`, name: 'Hip Circles', sets: 2, reps: 10, instructions: 'Hip mobility exercise', muscle_group: 'flexibility' },
-        { id: `flex-3`, name: 'Shoulder Stretch', sets: 2, reps: 1, duration: 20, instructions: 'Shoulder flexibility exercise', muscle_group: 'flexibility' },
-      ],
-    };
+  private static async substituteUnavailable(
+    exercises: Exercise[],
+    day: string,
+    equipment: string[],
+    dropUnavailable: boolean,
+    completed: { [exerciseId: string]: boolean } = {}
+  ): Promise<{ exercises: Exercise[]; changes: Omit<ExerciseSubstitution, 'day' | 'planDate'>[]; updated: boolean }> {
+    const entries = await ExerciseCatalogModel.findByIds(
+      exercises.filter(exercise => exercise.catalog_id !== undefined).map(exercise => exercise.catalog_id!)
+    );
+    const usedSlugs = entries.map(entry => entry.slug);
+    const changes: Omit<ExerciseSubstitution, 'day' | 'planDate'>[] = [];
+    const result: Exercise[] = [];
+    let updated = false;
 
-    const exercises = exerciseDatabase[muscleGroup] || exerciseDatabase['full_body'];
-    
-    // Adjust intensity based on goal
-    return exercises.map(exercise => ({
-      ...exercise,
-      id: `${muscleGroup}-${exercise.name.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}`,
-      sets: goal === 'muscle_gain' ? exercise.sets + 1 : exercise.sets,
-      reps: goal === 'weight_loss' ? exercise.reps + 5 : exercise.reps,
-    }));
+    for (const exercise of exercises) {
+      const entry = entries.find(item => item.id === exercise.catalog_id);
+      if (!entry || completed[exercise.id]) {
+        result.push(exercise);
+        continue;
+      }
+
+      if (ExerciseCatalogModel.isAvailable(entry, equipment)) {
+        const { unavailable, ...available } = exercise;
+        result.push(available);
+        updated = updated || unavailable !== undefined;
+        continue;
+      }
+
+      const [substitute] = await ExerciseCatalogModel.findSubstitutes(
+        entry,
+        exercise.muscle_group || entry.primary_muscle,
+        equipment,
+        usedSlugs
+      );
+
+      if (!substitute) {
+        if (!dropUnavailable) {
+          result.push({ ...exercise, unavailable: true });
+        }
+        changes.push({ from: { id: exercise.id, name: exercise.name }, to: null, dropped: dropUnavailable });
+        updated = true;
+        continue;
+      }
+
+      usedSlugs.push(substitute.slug);
+      const replacement = this.replaceExercise(exercise, entry, substitute, day);
+      result.push(replacement);
+      changes.push({
+        from: { id: exercise.id, name: exercise.name },
+        to: { id: replacement.id, name: replacement.name },
+      });
+      updated = true;
+    }
+
+    return { exercises: result, changes, updated };
   }
 
   /**
-   * Calculate base calories for user
+   * Build the plan exercise replacing another one, keeping its prescription when both are
+   * rep-based (or both timed) so intensity adjustments carry over. Cardio takes the substitute's session.
    */
-  private static calculateBaseCalories(user: User): number {
-    // Simplified BMR calculation
-    let bmr = 0;
-    
-    if (user.gender === 'male') {
-      bmr = 88.362 + (13.397 * (user.weight || 70)) + (4.799 * (user.height || 175)) - (5.677 * (user.age || 25));
-    } else {
-      bmr = 447.593 + (9.247 * (user.weight || 60)) + (3.098 * (user.height || 165)) - (4.330 * (user.age || 25));
+  private static replaceExercise(exercise: Exercise, entry: CatalogExercise, substitute: CatalogExercise, day: string): Exercise {
+    const replacement = ExerciseCatalogModel.toExercise(substitute, day, exercise.muscle_group || substitute.primary_muscle);
+    if (
+      entry.cardio || substitute.cardio ||
+      (entry.default_duration === undefined) !== (substitute.default_duration === undefined)
+    ) {
+      return replacement;
     }
 
-    // Adjust based on goal
-    switch (user.goal) {
-      case 'weight_loss':
-        return Math.round(bmr * 1.2 - 300); // Deficit for weight loss
-      case 'muscle_gain':
-        return Math.round(bmr * 1.5 + 300); // Surplus for muscle gain
-      default:
-        return Math.round(bmr * 1.3); // Maintenance
-    }
+    return {
+      ...replacement,
+      sets: exercise.sets,
+      reps: exercise.reps,
+      duration: substitute.default_duration !== undefined ? exercise.duration : undefined,
+    };
+  }
+
+  /**
+   * Match a plan exercise without a catalog entry by its muscle group only
+   */
+  private static toSubstituteReference(exercise: Exercise): SubstituteReference {
+    return {
+      slug: '',
+      primary_muscle: exercise.muscle_group || 'full_body',
+      secondary_muscles: [],
+      equipment: [],
+      difficulty: 'intermediate',
+    };
   }
 
   /**
@@ -439,62 +897,61 @@ export class WorkoutService {
   }
 
   /**
-   * Get exercise templates by goal and difficulty
+   * Get feasible catalog exercises up to a difficulty as templates scaled to that level
    */
-  private static getExerciseTemplatesByGoalAndDifficulty(
+  private static async getExerciseTemplatesByGoalAndDifficulty(
     goal: string, 
-    difficulty: 'beginner' | 'intermediate' | 'advanced'
-  ): ExerciseTemplate[] {
-    // This would typically come from a database
-    const templates: ExerciseTemplate[] = [
-      {
-        id: 'template-1',
-        name: 'Push-ups',
-        sets: difficulty === 'beginner' ? 2 : difficulty === 'intermediate' ? 3 : 4,
-        reps: difficulty === 'beginner' ? 8 : difficulty === 'intermediate' ? 12 : 15,
-        instructions: 'Standard push-up exercise',
-        muscle_group: 'chest',
-        difficulty,
-        equipment: [],
-      },
-      {
-        id: 'template-2',
-        name: 'Squats',
-        sets: difficulty === 'beginner' ? 2 : difficulty === 'intermediate' ? 3 : 4,
-        reps: difficulty === 'beginner' ? 10 : difficulty === 'intermediate' ? 15 : 20,
-        instructions: 'Basic squat exercise',
-        muscle_group: 'legs',
-        difficulty,
-        equipment: [],
-      },
-      // Add more templates as needed
-    ];
+    difficulty: ExerciseDifficulty,
+    equipment: string[]
+  ): Promise<ExerciseTemplate[]> {
+    const level = DIFFICULTY_LEVELS.indexOf(difficulty);
+    const exercises = await ExerciseCatalogModel.findByMuscles(GOAL_MUSCLE_GROUPS[goal] || []);
 
-    return templates.filter(template => 
-      template.difficulty === difficulty &&
-      this.isExerciseRelevantForGoal(template, goal)
-    );
+    return exercises
+      .filter(entry =>
+        DIFFICULTY_LEVELS.indexOf(entry.difficulty) <= level &&
+        ExerciseCatalogModel.isAvailable(entry, equipment)
+      )
+      .map(entry => this.toExerciseTemplate(entry, level))
+      .filter(template => this.isExerciseRelevantForGoal(template, goal));
   }
 
   /**
-   * Check if exercise is relevant for user's goal
+   * Build a template from a catalog entry, one set and a quarter of the reps less (beginner) or more (advanced)
    */
-  private static isExerciseRelevantForGoal(exercise: ExerciseTemplate, goal: string): boolean {
-    const goalRelevance = {
-      'weight_loss': ['cardiovascular', 'full_body', 'core'],
-      'muscle_gain': ['chest', 'legs', 'arms', 'back', 'shoulders'],
-      'maintenance': ['full_body', 'core', 'flexibility'],
+  private static toExerciseTemplate(entry: CatalogExercise, level: number): ExerciseTemplate {
+    const reps = entry.default_reps > 1 ?
+      Math.max(Math.round(entry.default_reps * (1 + (level - 1) * 0.25)), 1) :
+      entry.default_reps;
+
+    return {
+      id: entry.slug,
+      name: entry.name,
+      sets: Math.max(entry.default_sets + level - 1, 1),
+      reps,
+      duration: entry.default_duration,
+      instructions: entry.instructions || '',
+      muscle_group: entry.primary_muscle,
+      difficulty: entry.difficulty,
+      equipment: entry.equipment,
+      media_url: entry.media_url,
     };
+  }
 
-    const relevantGroups = goalRelevance[goal as keyof typeof goalRelevance] || [];
+  /**
+   * Check if exercise is relevant for user's goal
+   */
+  private static isExerciseRelevantForGoal(exercise: ExerciseTemplate, goal: string): boolean {
+    const relevantGroups = GOAL_MUSCLE_GROUPS[goal] || [];
     return relevantGroups.includes(exercise.muscle_group);
   }
 
   /**
-   * Increase exercise intensity
+   * Increase exercise intensity (warm-up and cool-down stay as they are)
    */
   private static increaseExerciseIntensity(exercises: Exercise[]): Exercise[] {
-    return exercises.map(exercise => ({
+    return exercises.map(exercise => !WarmupCooldownService.isMainExercise(exercise) ? exercise :
+      CardioService.isCardio(exercise) ? CardioService.adjustIntensity(exercise, 1) : ({
       ...exercise,
       sets: Math.min(exercise.sets + 1, 5), // Max 5 sets
       reps: exercise.reps ? Math.min(exercise.reps + 2, 25) : exercise.reps, // Max 25 reps
@@ -503,14 +960,236 @@ export class WorkoutService {
   }
 
   /**
-   * Decrease exercise intensity
+   * Decrease exercise intensity (warm-up and cool-down stay as they are)
    */
   private static decreaseExerciseIntensity(exercises: Exercise[]): Exercise[] {
-    return exercises.map(exercise => ({
+    return exercises.map(exercise => !WarmupCooldownService.isMainExercise(exercise) ? exercise :
+      CardioService.isCardio(exercise) ? CardioService.adjustIntensity(exercise, -1) : ({
       ...exercise,
       sets: Math.max(exercise.sets - 1, 1), // Min 1 set
       reps: exercise.reps ? Math.max(exercise.reps - 2, 5) : exercise.reps, // Min 5 reps
       duration: exercise.duration ? Math.max(exercise.duration - 15, 30) : exercise.duration, // Min 30 seconds
     }));
   }
-}
\ No newline at end of file
+
+  /**
+   * Find an exercise of a plan or fail with 404
+   */
+  private static findPlanExercise(plan: WorkoutMealPlan, exerciseId: string): Exercise {
+    const exercise = plan.exercises.find(item => item.id === exerciseId);
+    if (!exercise) {
+      throw new AppError('Exercise not found in this plan', 404, 'EXERCISE_NOT_FOUND');
+    }
+    return exercise;
+  }
+
+  /**
+   * Find a set log of the user that belongs to the given day of the current week
+   */
+  private static async findDaySetLog(userId: number, day: string, setId: number): Promise<ExerciseSetLog> {
+    const plan = await WorkoutMealPlanModel.findByUserAndDay(userId, day);
+    const setLog = await ExerciseSetLogModel.findById(setId, userId);
+
+    if (!plan || !setLog || setLog.plan_id !== plan.id) {
+      throw new AppError('Set log not found', 404, 'SET_NOT_FOUND');
+    }
+    return setLog;
+  }
+
+  /**
+   * Get default exercises from the catalog based on goal and day, swapping those needing unavailable equipment
+   */
+  private static async getDefaultExercises(goal: string, day: string, equipment: string[]): Promise<Exercise[]> {
+    const baseExercises: { [key: string]: { slug: string; sets?: number; reps?: number }[] } = {
+      'weight_loss': [
+        { slug: 'jumping-jacks' },
+        { slug: 'burpees', reps: 10 },
+        { slug: 'mountain-climbers', reps: 15 },
+        { slug: 'brisk-walk' },
+      ],
+      'muscle_gain': [
+        { slug: 'push-ups' },
+        { slug: 'squats' },
+        { slug: 'pull-ups' },
+        { slug: 'planks' },
+      ],
+      'maintenance': [
+        { slug: 'light-cardio' },
+        { slug: 'squats', sets: 2, reps: 12 },
+        { slug: 'incline-push-ups', sets: 2 },
+      ],
+    };
+
+    const selection = baseExercises[goal] || baseExercises['maintenance'];
+    const slugs = selection.map(item => item.slug);
+    const entries = await ExerciseCatalogModel.findBySlugs(slugs);
+    const exercises: Exercise[] = [];
+
+    for (const entry of entries) {
+      const item = selection.find(selected => selected.slug === entry.slug)!;
+      if (ExerciseCatalogModel.isAvailable(entry, equipment)) {
+        exercises.push({
+          ...ExerciseCatalogModel.toExercise(entry, day),
+          sets: item.sets ?? entry.default_sets,
+          reps: item.reps ?? entry.default_reps,
+        });
+        continue;
+      }
+
+      const [substitute] = await ExerciseCatalogModel.findSubstitutes(entry, entry.primary_muscle, equipment, slugs);
+      if (substitute) {
+        slugs.push(substitute.slug);
+        exercises.push(ExerciseCatalogModel.toExercise(substitute, day, entry.primary_muscle));
+      }
+    }
+
+    return exercises;
+  }
+
+  /**
+   * Get default meals based on goal and day
+   */
+  private static getDefaultMeals(goal: string, day: string): Meal[] {
+    const baseMeals: { [key: string]: Meal[] } = {
+      'weight_loss': [
+        {
+          id: '1',
+          name: 'Healthy Breakfast',
+          type: 'breakfast',
+          calories: 300,
+          protein: 20,
+          carbs: 30,
+          fat: 10,
+          foods: [
+            { name: 'Oatmeal', quantity: 50, unit: 'g', calories: 150 },
+            { name: 'Berries', quantity: 100, unit: 'g', calories: 50 },
+            { name: 'Greek Yogurt', quantity: 100, unit: 'g', calories: 100 },
+          ],
+        },
+        {
+          id: '2',
+          name: 'Light Lunch',
+          type: 'lunch',
+          calories: 400,
+          protein: 25,
+          carbs: 35,
+          fat: 15,
+          foods: [
+            { name: 'Grilled Chicken', quantity: 100, unit: 'g', calories: 200 },
+            { name: 'Mixed Salad', quantity: 150, unit: 'g', calories: 50 },
+            { name: 'Quinoa', quantity: 50, unit: 'g', calories: 150 },
+          ],
+        },
+        {
+          id: '3',
+          name: 'Lean Dinner',
+          type: 'dinner',
+          calories: 350,
+          protein: 30,
+          carbs: 25,
+          fat: 12,
+          foods: [
+            { name: 'Grilled Fish', quantity: 120, unit: 'g', calories: 200 },
+            { name: 'Steamed Vegetables', quantity: 200, unit: 'g', calories: 80 },
+            { name: 'Brown Rice', quantity: 40, unit: 'g', calories: 70 },
+          ],
+        },
+      ],
+      'muscle_gain': [
+        {
+          id: '1',
+          name: 'Protein-Rich Breakfast',
+          type: 'breakfast',
+          calories: 500,
+          protein: 35,
+          carbs: 45,
+          fat: 18,
+          foods: [
+            { name: 'Eggs', quantity: 3, unit: 'pieces', calories: 210 },
+            { name: 'Whole Grain Toast', quantity: 2, unit: 'slices', calories: 160 },
+            { name: 'Avocado', quantity: 50, unit: 'g', calories: 80 },
+            { name: 'Protein Shake', quantity: 1, unit: 'scoop', calories: 50 },
+          ],
+        },
+        {
+          id: '2',
+          name: 'Power Lunch',
+          type: 'lunch',
+          calories: 600,
+          protein: 40,
+          carbs: 50,
+          fat: 20,
+          foods: [
+            { name: 'Lean Beef', quantity: 150, unit: 'g', calories: 300 },
+            { name: 'Sweet Potato', quantity: 200, unit: 'g', calories: 180 },
+            { name: 'Green Vegetables', quantity: 150, unit: 'g', calories: 60 },
+            { name: 'Nuts', quantity: 20, unit: 'g', calories: 60 },
+          ],
+        },
+        {
+          id: '3',
+          name: 'Recovery Dinner',
+          type: 'dinner',
+          calories: 550,
+          protein: 35,
+          carbs: 40,
+          fat: 22,
+          foods: [
+            { name: 'Salmon', quantity: 150, unit: 'g', calories: 250 },
+            { name: 'Quinoa', quantity: 80, unit: 'g', calories: 120 },
+            { name: 'Mixed Vegetables', quantity: 200, unit: 'g', calories: 80 },
+            { name: 'Olive Oil', quantity: 10, unit: 'ml', calories: 100 },
+          ],
+        },
+      ],
+      'maintenance': [
+        {
+          id: '1',
+          name: 'Balanced Breakfast',
+          type: 'breakfast',
+          calories: 400,
+          protein: 25,
+          carbs: 40,
+          fat: 15,
+          foods: [
+            { name: 'Whole Grain Cereal', quantity: 60, unit: 'g', calories: 200 },
+            { name: 'Milk', quantity: 200, unit: 'ml', calories: 120 },
+            { name: 'Banana', quantity: 1, unit: 'piece', calories: 80 },
+          ],
+        },
+        {
+          id: '2',
+          name: 'Moderate Lunch',
+          type: 'lunch',
+          calories: 450,
+          protein: 28,
+          carbs: 42,
+          fat: 16,
+          foods: [
+            { name: 'Grilled Chicken', quantity: 100, unit: 'g', calories: 200 },
+            { name: 'Brown Rice', quantity: 60, unit: 'g', calories: 120 },
+            { name: 'Vegetables', quantity: 150, unit: 'g', calories: 60 },
+            { name: 'Olive Oil', quantity: 8, unit: 'ml', calories: 70 },
+          ],
+        },
+        {
+          id: '3',
+          name: 'Balanced Dinner',
+          type: 'dinner',
+          calories: 400,
+          protein: 25,
+          carbs: 35,
+          fat: 18,
+          foods: [
+            { name: 'Fish', quantity: 120, unit: 'g', calories: 180 },
+            { name: 'Pasta', quantity: 60, unit: 'g', calories: 120 },
+            { name: 'Salad', quantity: 100, unit: 'g', calories: 30 },
+            { name: 'Dressing', quantity: 15, unit: 'ml', calories: 70 },
+          ],
+        },
+      ],
+    };
+
+    return baseMeals[goal] || baseMeals['maintenance'];
+  }
+}
@@ -0,0 +1,49 @@
+import request from 'supertest';
+import server from '../server';
+import { config } from '../config/app';
+import { UpdateProfileRequest } from '../types';
+
+const app = server.getApp();
+const apiPrefix = `/api/${config.apiVersion}`;
+
+let userCount = 0;
+
+/**
+ * Requests to the API, authenticated with the given access token
+ */
+export const api = (token?: string) => {
+  const send = (test: request.Test) => (token ? test.set('Authorization', `Bearer ${token}`) : test);
+
+  return {
+    get: (path: string) => send(request(app).get(`${apiPrefix}${path}`)),
+    post: (path: string) => send(request(app).post(`${apiPrefix}${path}`)),
+    put: (path: string) => send(request(app).put(`${apiPrefix}${path}`)),
+    delete: (path: string) => send(request(app).delete(`${apiPrefix}${path}`)),
+  };
+};
+
+/**
+ * Register a user through the API, optionally with a profile and a goal (which generates the
+ * default plans), and return its ID and access token
+ */
+export const signUp = async (
+  profile?: UpdateProfileRequest,
+  goal?: 'weight_loss' | 'muscle_gain' | 'maintenance'
+): Promise<{ userId: number; token: string }> => {
+  const registered = await api().post('/auth/register').send({
+    name: 'Test User',
+    email: `test.user${++userCount}@gmail.com`,
+    password: 'password123',
+  }).expect(201);
+
+  const { user, accessToken: token } = registered.body.data;
+
+  if (profile) {
+    await api(token).put('/auth/profile').send(profile).expect(200);
+  }
+  if (goal) {
+    await api(token).put('/auth/goals').send({ goal }).expect(200);
+  }
+
+  return { userId: user.id, token };
+};
@@ -0,0 +1,5 @@
+// Test runs use a fixed time zone behind UTC, so dates are reproducible and code that mixes
+// UTC and local dates fails. Set here because workers only see the time zone of the main process.
+export default (): void => {
+  process.env.TZ = 'America/Los_Angeles';
+};
@@ -0,0 +1,11 @@
+// Environment of test runs, set before the config is loaded: in-memory storage, the secrets
+// the server requires, cheap password hashing and no rate limit
+process.env.NODE_ENV = 'test';
+process.env.STORAGE_DRIVER = 'memory';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_jwt_secret';
+process.env.JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'test_jwt_refresh_secret';
+process.env.FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:4200';
+process.env.BCRYPT_SALT_ROUNDS = '4';
+process.env.RATE_LIMIT_MAX_REQUESTS = '100000';
+process.env.USDA_REMOTE_FALLBACK = 'false';
+process.env.USDA_CACHE_PERSISTENT = 'false';
@@ -1,4 +1,5 @@
 import { Request } from 'express';
+import { PoolConnection } from 'mysql2/promise';
 
 // User Types (Simplified as per requirements)
 export interface User {
@@ -11,7 +12,13 @@ export interface User {
   height?: number;
   weight?: number;
   goal?: 'weight_loss' | 'muscle_gain' | 'maintenance';
-  role: 'user';
+  progression_scheme?: ProgressionScheme;
+  equipment_profile?: EquipmentProfile;
+  training_days_per_week?: number;
+  training_split?: TrainingSplit;
+  rest_days?: string[]; // Weekdays the user never trains on
+  session_budgets?: SessionBudgets;
+  role: 'user' | 'admin';
   created_at: Date;
 }
 
@@ -37,6 +44,8 @@ export interface UpdateProfileRequest {
 
 export interface UpdateGoalsRequest {
   goal: 'weight_loss' | 'muscle_gain' | 'maintenance';
+  target_weight?: number; // Sets the active weight goal, together with target_date
+  target_date?: string;
 }
 
 // WorkoutMealPlans Types (Combined table as per requirements)
@@ -47,6 +56,21 @@ export interface WorkoutMealPlan {
   exercises: Exercise[];
   meals: Meal[];
   completed_status: CompletedStatus;
+  plan_date: string; // Calendar date (YYYY-MM-DD) this plan instance belongs to
+  week_start: string; // Monday of the plan's week (YYYY-MM-DD)
+  estimated_duration?: SessionDurationEstimate;
+  estimated_calories?: number; // kcal burned by the whole session at the user's weight
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Weekday template that dated plan instances are created from
+export interface WorkoutMealPlanTemplate {
+  id: number;
+  user_id: number;
+  day: 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
+  exercises: Exercise[];
+  meals: Meal[];
   created_at: Date;
   updated_at: Date;
 }
@@ -54,14 +78,46 @@ export interface WorkoutMealPlan {
 export interface Exercise {
   id: string;
   name: string;
-  sets: number;
-  reps: number;
+  sets: number; // Interval rounds for cardio, 1 for steady-state cardio
+  reps: number; // 1 for cardio
   weight?: number;
-  duration?: number;
+  duration?: number; // Seconds: per set for timed work, one work interval or the whole session for cardio
   instructions?: string;
   muscle_group?: string;
+  catalog_id?: number; // Exercise catalog entry the exercise was created from
+  section?: ExerciseSection; // Part of the session, main when not set
+  type?: ExerciseType; // Strength when not set
+  cardio?: CardioDetails; // Cardio exercises only
+  met?: number; // Metabolic equivalent of the work, estimated from the muscle group or cardio zone when not set
+  estimated_calories?: number; // kcal at the user's weight, attached when the plan is sent to the client
+  unavailable?: boolean; // Needs equipment the user's profile lacks and nothing feasible replaces it
 }
 
+// Strength work is counted in sets and reps, cardio in time, distance and intensity
+export type ExerciseType = 'strength' | 'cardio';
+
+export type CardioModality = 'run' | 'walk' | 'cycle' | 'row' | 'swim' | 'elliptical' | 'jump_rope' | 'mixed';
+
+export type HeartRateZone = 1 | 2 | 3 | 4 | 5;
+
+// Work and recovery repeats, e.g. 8 × 30s on / 90s off
+export interface CardioIntervals {
+  rounds: number;
+  work_seconds: number;
+  rest_seconds: number;
+}
+
+export interface CardioDetails {
+  modality: CardioModality;
+  distance_km?: number;
+  pace_seconds_per_km?: number;
+  heart_rate_zone?: HeartRateZone;
+  intervals?: CardioIntervals; // Steady-state when not set
+}
+
+// Warm-up and cool-down blocks are kept apart from the working exercises of a day
+export type ExerciseSection = 'warmup' | 'main' | 'cooldown';
+
 export interface Meal {
   id: string;
   name: string;
@@ -78,14 +134,51 @@ export interface Food {
   quantity: number;
   unit: string;
   calories: number;
+  protein?: number; // g
+  carbs?: number; // g
+  fat?: number; // g
+  fiber?: number; // g
+  micronutrients?: Micronutrients; // For the quantity, when known (e.g. foods added from USDA)
+}
+
+// Micronutrients tracked per food, in the units of data/micronutrients.ts
+export type MicronutrientKey =
+  | 'sugar' | 'sodium' | 'potassium' | 'calcium' | 'iron' | 'magnesium' | 'zinc'
+  | 'vitaminA' | 'vitaminC' | 'vitaminD' | 'vitaminE' | 'vitaminK' | 'vitaminB6' | 'vitaminB12' | 'folate';
+
+export type Micronutrients = { [key in MicronutrientKey]?: number };
+
+// Nutrients with a daily target: fiber (tracked with the macros) and the micronutrients
+export type TrackedNutrient = 'fiber' | MicronutrientKey;
+
+export interface NutrientDefinition {
+  label: string;
+  unit: 'g' | 'mg' | 'µg';
+  usdaNutrientId: number;
+  kind: 'minimum' | 'limit'; // A daily allowance to reach, or an upper limit to stay under
+  // Daily target by sex, as [from age, amount] steps in ascending age
+  targets: { male: [number, number][]; female: [number, number][] };
 }
 
 export interface CompletedStatus {
   exercises: { [exerciseId: string]: boolean };
   meals: { [mealId: string]: boolean };
+  meal_consumption?: { [mealId: string]: MealConsumption }; // Consumed meals not eaten in full; others were
   date_completed?: Date;
 }
 
+// Quantity eaten of the food at a position of a meal
+export interface FoodConsumption {
+  index: number;
+  quantity: number; // In the food's unit
+}
+
+// How much of a consumed meal was eaten
+export interface MealConsumption {
+  portion: number; // Share of the meal's calories and macros eaten
+  foods?: FoodConsumption[]; // Set when the meal was checked off per food
+}
+
 export interface CreateWorkoutMealPlanRequest {
   day: 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
   exercises: Exercise[];
@@ -96,6 +189,510 @@ export interface UpdateCompletedStatusRequest {
   exercise_id?: string;
   meal_id?: string;
   completed: boolean;
+  portion?: number; // Meals: share eaten (0-1], all of it by default
+  foods?: FoodConsumption[]; // Meals: quantities eaten per food, unlisted foods were skipped
+}
+
+// Weekly Archive Types
+export interface WeeklyArchiveDayTotals {
+  day: string;
+  planDate: string;
+  totalExercises: number;
+  completedExercises: number;
+  totalMeals: number;
+  completedMeals: number;
+  plannedCalories: number;
+  consumedCalories: number;
+  completionPercentage: number;
+}
+
+export interface WeeklyArchiveDay {
+  day: string;
+  planDate: string;
+  exercises: Exercise[];
+  meals: Meal[];
+  completedStatus: CompletedStatus;
+}
+
+export interface WeeklyArchive {
+  id: number;
+  userId: number;
+  isoYear: number;
+  weekNumber: number;
+  weekStartDate: string;
+  weekEndDate: string;
+  totalExercises: number;
+  completedExercises: number;
+  totalMeals: number;
+  completedMeals: number;
+  completionPercentage: number;
+  streakDays: number;
+  achievements: string[];
+  dailyTotals: WeeklyArchiveDayTotals[];
+  days?: WeeklyArchiveDay[]; // Full snapshot, only included when requested
+  archivedAt: Date;
+}
+
+export type WeeklyArchiveData = Omit<WeeklyArchive, 'id' | 'userId' | 'archivedAt' | 'days'> & {
+  days: WeeklyArchiveDay[];
+};
+
+export interface WeeklyArchiveFilters {
+  fromDate?: string;
+  toDate?: string;
+  minCompletion?: number;
+  maxCompletion?: number;
+}
+
+// Week rollover idempotency record (one per user per finished week)
+export interface WeekRollover {
+  id: number;
+  user_id: number;
+  week_start: string;
+  status: 'pending' | 'completed' | 'failed';
+  attempts: number;
+  next_attempt_at?: Date;
+  archived_at?: Date;
+  adjusted_at?: Date;
+  last_error?: string;
+  created_at: Date;
+  completed_at?: Date;
+}
+
+// Exercise Set Log Types (one row per performed set)
+export interface ExerciseSetLog {
+  id: number;
+  user_id: number;
+  plan_id: number;
+  plan_date: string;
+  exercise_id: string;
+  exercise_name: string;
+  set_number: number;
+  reps: number;
+  weight?: number;
+  rpe?: number;
+  rir?: number;
+  rest_seconds?: number;
+  notes?: string;
+  logged_at: Date;
+}
+
+export type ExerciseSetLogData = Omit<ExerciseSetLog, 'id' | 'plan_date' | 'logged_at'>;
+
+export interface LogExerciseSetRequest {
+  set_number?: number;
+  reps: number;
+  weight?: number | null;
+  rpe?: number | null;
+  rir?: number | null;
+  rest_seconds?: number | null;
+  notes?: string | null;
+}
+
+// Sets performed during a guided session, posted once the session is finished
+export interface CompleteSessionRequest {
+  started_at: Date;
+  finished_at: Date;
+  exercises: { exercise_id: string; sets: LogExerciseSetRequest[] }[];
+}
+
+export interface WorkoutSessionSummary {
+  day: string;
+  plan_date: string;
+  duration_seconds: number;
+  exercises_performed: number;
+  exercises_completed: number;
+  total_sets: number;
+  total_reps: number;
+  total_volume: number; // Sum of reps × load (kg)
+}
+
+// Body Measurement Types (time series of weight, body fat and circumferences)
+export type CircumferenceSite = 'neck' | 'chest' | 'waist' | 'hips' | 'arm' | 'thigh';
+
+export type Circumferences = { [site in CircumferenceSite]?: number }; // cm
+
+export interface BodyMeasurement {
+  id: number;
+  user_id: number;
+  measured_on: string; // YYYY-MM-DD
+  weight?: number; // kg
+  body_fat_percentage?: number;
+  circumferences: Circumferences;
+  notes?: string;
+  created_at: Date;
+}
+
+export type BodyMeasurementData = Omit<BodyMeasurement, 'id' | 'created_at'>;
+
+export interface RecordBodyMeasurementRequest {
+  measured_on?: string; // Today when not set
+  weight?: number;
+  body_fat_percentage?: number;
+  circumferences?: Circumferences;
+  notes?: string;
+}
+
+export type BodyMetric = 'weight' | 'body_fat_percentage' | CircumferenceSite;
+
+// Daily value of a metric (average of that day's entries) next to its smoothed trend
+export interface TrendPoint {
+  date: string;
+  value: number;
+  trend: number;
+}
+
+export interface BodyMetricTrend {
+  metric: BodyMetric;
+  unit: 'kg' | '%' | 'cm';
+  points: TrendPoint[];
+  latest?: number;
+  trend?: number; // Trend value of the latest point
+  weekly_change: number | null; // Trend change per week, null without enough history
+}
+
+export interface BodyTrends {
+  weight: BodyMetricTrend;
+  body_fat_percentage: BodyMetricTrend;
+  circumferences: { [site in CircumferenceSite]?: BodyMetricTrend }; // Measured sites only
+}
+
+// Goal Target Types (numbers to reach by a date, tracked against the logged trends)
+export type GoalMetric = 'weight' | 'body_fat_percentage' | 'strength';
+
+export type GoalTargetStatus = 'active' | 'achieved' | 'cancelled';
+
+export interface GoalTarget {
+  id: number;
+  user_id: number;
+  metric: GoalMetric;
+  exercise_name?: string; // Strength goals: estimated one-rep max of this exercise
+  start_value?: number; // Value when the goal was set, unknown without logged data
+  target_value: number;
+  start_date: string; // YYYY-MM-DD
+  target_date: string; // YYYY-MM-DD
+  status: GoalTargetStatus;
+  achieved_on?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type GoalTargetData = Omit<GoalTarget, 'id' | 'created_at' | 'updated_at'>;
+
+export interface CreateGoalTargetRequest {
+  metric: GoalMetric;
+  exercise_name?: string;
+  target_value: number;
+  target_date: string;
+}
+
+export interface UpdateGoalTargetRequest {
+  target_value?: number;
+  target_date?: string;
+  status?: 'active' | 'cancelled';
+}
+
+export type GoalTrackStatus = 'achieved' | 'on_track' | 'off_track' | 'insufficient_data';
+
+// Where a goal stands and where the current trend takes it
+export interface GoalProjection {
+  goal: GoalTarget;
+  current_value?: number;
+  progress_percent: number; // From the start value towards the target, 0-100
+  weekly_rate: number | null; // Observed change per week
+  required_weekly_rate: number | null; // Change per week that reaches the target on the target date
+  projected_date: string | null; // When the observed rate reaches the target, null if it never does
+  weeks_remaining: number; // Until the target date
+  status: GoalTrackStatus;
+}
+
+// Adaptive calorie target types
+export type CalorieTargetMethod = 'formula' | 'adaptive';
+
+// Weekly recalibration of a user's calorie target, with the data it was based on
+export interface CalorieAdjustment {
+  id: number;
+  user_id: number;
+  week_start: string; // Monday the target applies from (YYYY-MM-DD)
+  method: CalorieTargetMethod; // Estimated from the profile, or from logged intake and the weight trend
+  tdee: number; // Estimated maintenance calories per day
+  calorie_target: number;
+  previous_target?: number;
+  average_intake?: number; // Mean logged kcal per day over the window
+  logged_days: number; // Days with logged intake in the window
+  weekly_weight_change?: number; // Trend change (kg/week) over the window
+  reason: string;
+  created_at: Date;
+}
+
+export type CalorieAdjustmentData = Omit<CalorieAdjustment, 'id' | 'created_at'>;
+
+// Food diary types (what was actually eaten, on plan or not)
+export type MealSlot = Meal['type'];
+
+export type FoodLogSource = 'usda' | 'recipe' | 'quick_add';
+
+export interface FoodLogEntry {
+  id: number;
+  user_id: number;
+  logged_on: string; // YYYY-MM-DD
+  meal_slot: MealSlot;
+  source: FoodLogSource;
+  name: string;
+  fdc_id?: number; // USDA food the entry was logged from
+  plan_meal_id?: string; // Planned meal (recipe) the entry was logged from
+  quantity: number; // Grams of a USDA food, servings of a recipe or quick add
+  unit: 'g' | 'serving';
+  calories: number; // Totals for the quantity eaten
+  protein: number; // g
+  carbs: number; // g
+  fat: number; // g
+  fiber?: number; // g
+  micronutrients?: Micronutrients; // Totals for the quantity eaten, when the food has them
+  created_at: Date;
+}
+
+export type FoodLogEntryData = Omit<FoodLogEntry, 'id' | 'created_at'>;
+
+export interface LogFoodRequest {
+  logged_on?: string; // Today when not set
+  meal_slot: MealSlot;
+  source: FoodLogSource;
+  fdc_id?: number; // USDA entries
+  meal_id?: string; // Recipe entries: a meal planned for that date
+  quantity?: number; // Grams of a USDA food (100 by default), servings otherwise (1 by default)
+  name?: string; // Quick adds, with the nutrition of one serving
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+}
+
+export interface UpdateFoodLogRequest {
+  logged_on?: string;
+  meal_slot?: MealSlot;
+  quantity?: number; // Calories and macros are scaled with it
+  name?: string; // Name and nutrition of quick adds
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  fiber?: number;
+}
+
+// Totals of a day's diary entries
+export interface DailyIntake {
+  date: string;
+  entries: number;
+  slots: MealSlot[]; // Meal slots with at least one entry
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+export interface FoodDiaryDay {
+  date: string;
+  slots: { [slot in MealSlot]: FoodLogEntry[] };
+  totals: DailyIntake;
+}
+
+// A day's intake of a nutrient against its target
+export interface NutrientIntake {
+  key: TrackedNutrient;
+  label: string;
+  unit: NutrientDefinition['unit'];
+  kind: NutrientDefinition['kind'];
+  amount: number;
+  target: number;
+  percentage: number;
+}
+
+export interface DailyMicronutrients {
+  date: string;
+  entries: number;
+  tracked_entries: number; // Entries with micronutrient data; quick adds and most planned meals have none
+  nutrients: NutrientIntake[];
+}
+
+// Local food database (foods imported from the USDA FoodData Central downloads)
+export interface LocalFood {
+  fdc_id: number;
+  description: string;
+  data_type: string; // USDA data type: Foundation, SR Legacy, Branded...
+  brand_owner?: string;
+  brand_name?: string;
+  ingredients?: string;
+  category?: string;
+  serving_size?: number;
+  serving_size_unit?: string;
+  household_serving?: string;
+  nutrients: { [nutrientId: number]: number }; // Amount per 100 g by USDA nutrient ID
+  imported_at: Date;
+}
+
+export type LocalFoodData = Omit<LocalFood, 'imported_at'>;
+
+export interface LocalFoodSearchOptions {
+  dataTypes?: string[];
+  limit: number;
+  offset: number;
+}
+
+export interface LocalFoodSearchResult {
+  total: number;
+  foods: LocalFood[]; // Most relevant first
+}
+
+export interface FoodImportSummary {
+  source: string;
+  imported: number;
+  skipped: number; // Foods without a description or any kept nutrient, or of another data type
+  byDataType: { [dataType: string]: number };
+}
+
+// USDA API response cache
+export interface UsdaCacheEntry {
+  cache_key: string; // e.g. food:<fdcId> or search:<normalized query>|<data types>|<page size>|<page>
+  payload: any; // USDA API response
+  expires_at: Date;
+}
+
+export interface UsdaCacheStats {
+  size: number; // Entries in the in-process cache
+  maxEntries: number;
+  persistent: boolean; // Whether responses are also kept in the database
+  hits: number; // Lookups served from the in-process cache
+  persistentHits: number; // Lookups served from the database
+  coalesced: number; // Lookups that joined an identical request in flight
+  misses: number; // Requests sent to the USDA API
+  evictions: number;
+  hitRate: number; // Share of lookups served without a USDA API request (0-1)
+}
+
+// Progression Types
+export type ProgressionScheme = 'linear' | 'double_progression' | 'percentage';
+
+export type ProgressionStatus = 'increase' | 'hold' | 'deload' | 'no_history';
+
+// Summary of one logged session of an exercise
+export interface ExerciseSessionSummary {
+  date: string;
+  sets: number;
+  topWeight: number;
+  topReps: number;
+  minReps: number;
+  averageRpe?: number;
+  estimatedOneRepMax?: number;
+  hitTarget: boolean;
+}
+
+export interface ProgressionRecommendation {
+  exerciseId: string;
+  exerciseName: string;
+  day: string;
+  scheme: ProgressionScheme;
+  status: ProgressionStatus;
+  current: { sets: number; reps: number; weight?: number };
+  next: { sets: number; reps: number; weight?: number };
+  reason: string;
+  stalledSessions: number;
+  lastSession?: ExerciseSessionSummary;
+}
+
+// Exercise Catalog Types
+export type ExerciseDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export interface CatalogExercise {
+  id: number;
+  slug: string;
+  name: string;
+  primary_muscle: string;
+  secondary_muscles: string[];
+  equipment: string[]; // Empty for bodyweight exercises
+  difficulty: ExerciseDifficulty;
+  default_sets: number;
+  default_reps: number;
+  default_duration?: number;
+  cardio?: CardioDetails; // Makes the entry a cardio exercise
+  met?: number; // Overrides the MET estimated from the muscle group or cardio zone
+  instructions?: string;
+  media_url?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type CatalogExerciseData = Omit<CatalogExercise, 'id' | 'created_at' | 'updated_at'>;
+
+export interface CreateCatalogExerciseRequest extends Omit<CatalogExerciseData, 'slug'> {
+  slug?: string;
+}
+
+export interface CatalogExerciseFilters {
+  search?: string;
+  muscle?: string;
+  equipment?: string; // 'none' for bodyweight only
+  difficulty?: ExerciseDifficulty;
+}
+
+// What substitutes are matched against; plan exercises without a catalog entry only know their muscle group
+export type SubstituteReference = Pick<
+  CatalogExercise,
+  'slug' | 'primary_muscle' | 'secondary_muscles' | 'equipment' | 'difficulty'
+>;
+
+export interface ExerciseAlternative {
+  exercise: CatalogExercise;
+  score: number;
+  same_muscle_group: boolean;
+  similar_equipment: boolean; // Shares equipment, or both are bodyweight
+  difficulty: 'easier' | 'same' | 'harder';
+}
+
+export interface SwapExerciseRequest {
+  catalog_id: number;
+  permanent?: boolean; // Also swap it in the weekday template for future weeks
+}
+
+export type EquipmentProfile = 'home' | 'dumbbells' | 'full_gym' | 'travel';
+
+export type TrainingSplit = 'auto' | 'full_body' | 'upper_lower' | 'push_pull_legs' | 'bro_split';
+
+// Minutes available for a session, by weekday; days without an entry are unlimited
+export type SessionBudgets = { [day: string]: number };
+
+export interface TrainingPreferences {
+  training_days_per_week: number;
+  training_split: TrainingSplit;
+  rest_days: string[];
+  session_budgets: SessionBudgets;
+}
+
+export interface SessionDurationEstimate {
+  warmup_seconds: number;
+  work_seconds: number;
+  rest_seconds: number;
+  cooldown_seconds: number;
+  total_seconds: number;
+  total_minutes: number; // Rounded up
+}
+
+// Training day of a weekly layout; rest days have no session
+export interface TrainingDay {
+  day: string;
+  session: string | null;
+  focus: { muscle: string; exercises: number }[];
+  budget_minutes?: number;
+}
+
+export interface ExerciseSubstitution {
+  day: string;
+  planDate: string;
+  from: { id: string; name: string };
+  to: { id: string; name: string } | null; // null when nothing feasible was found
+  dropped?: boolean; // Removed from the plan instead of kept and flagged unavailable
 }
 
 // JWT Types
@@ -160,6 +757,222 @@ export interface DatabaseConfig {
   reconnect: boolean;
 }
 
+// Schema Migration Types
+export interface Migration {
+  version: number;
+  name: string;
+  up: (connection: PoolConnection) => Promise<void>;
+  down: (connection: PoolConnection) => Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at?: Date;
+}
+
+// Storage Types
+export type StorageDriver = 'mysql' | 'memory';
+
+export interface CreateUserRecord {
+  name: string;
+  email: string;
+  password: string;
+  role: 'user' | 'admin';
+}
+
+export type UserRecordUpdate = Partial<Omit<User, 'id' | 'created_at'>> & {
+  reset_token?: string | null;
+  reset_token_expires?: Date | null;
+};
+
+export interface UserStatistics {
+  totalUsers: number;
+  usersByRole: { role: string; count: number }[];
+  usersByGoal: { goal: string; count: number }[];
+  recentUsers: number;
+}
+
+export interface UserRepository {
+  create(userData: CreateUserRecord): Promise<number>;
+  findById(id: number): Promise<User | null>;
+  findByEmail(email: string): Promise<User | null>;
+  findByResetToken(resetToken: string): Promise<User | null>;
+  update(id: number, fields: UserRecordUpdate): Promise<boolean>;
+  setResetToken(email: string, resetToken: string, expiresAt: Date): Promise<boolean>;
+  delete(id: number): Promise<boolean>;
+  findAll(limit: number, offset: number): Promise<{ users: User[]; total: number }>;
+  emailExists(email: string, excludeUserId?: number): Promise<boolean>;
+  getStatistics(): Promise<UserStatistics>;
+}
+
+export interface CreatePlanRecord {
+  userId: number;
+  day: string;
+  planDate: string;
+  weekStart: string;
+  exercises: Exercise[];
+  meals: Meal[];
+}
+
+export type PlanItemKind = 'exercises' | 'meals';
+
+export interface MuscleGroupStats {
+  muscleGroup: string;
+  total: number;
+  completed: number;
+}
+
+export interface DailyNutritionStats {
+  day: string;
+  planDate: string;
+  totalMeals: number;
+  consumedMeals: number;
+  totalCalories: number;
+  consumedCalories: number;
+  totalProtein: number;
+  consumedProtein: number;
+  totalCarbs: number;
+  consumedCarbs: number;
+  totalFat: number;
+  consumedFat: number;
+}
+
+export interface WorkoutMealPlanRepository {
+  saveTemplate(userId: number, day: string, exercises: Exercise[], meals: Meal[]): Promise<void>;
+  deleteTemplate(userId: number, day: string): Promise<void>;
+  findTemplatesByUserId(userId: number): Promise<WorkoutMealPlanTemplate[]>;
+  instantiateWeek(userId: number, weekStart: string): Promise<number>;
+  create(plan: CreatePlanRecord): Promise<number>;
+  updateContent(id: number, exercises: Exercise[], meals: Meal[]): Promise<boolean>;
+  setItemCompleted(planId: number, kind: PlanItemKind, itemId: string, completed: boolean): Promise<boolean>;
+  setMealConsumption(planId: number, mealId: string, consumption: MealConsumption | null): Promise<boolean>;
+  clearCompleted(planId: number, kind: PlanItemKind): Promise<void>;
+  setDateCompleted(planId: number, dateCompleted: Date | null): Promise<void>;
+  addMeal(planId: number, meal: Meal): Promise<void>;
+  updateMeal(planId: number, meal: Meal): Promise<boolean>;
+  deleteMeal(planId: number, mealId: string): Promise<boolean>;
+  findById(id: number): Promise<WorkoutMealPlan | null>;
+  findByUserAndDate(userId: number, planDate: string): Promise<WorkoutMealPlan | null>;
+  findByWeek(userId: number, weekStart: string): Promise<WorkoutMealPlan[]>;
+  findByDateRange(userId: number, fromDate: string, toDate: string): Promise<WorkoutMealPlan[]>;
+  findWeekStarts(userId: number, limit: number): Promise<string[]>;
+  findByGoal(goal: 'weight_loss' | 'muscle_gain' | 'maintenance'): Promise<WorkoutMealPlan[]>;
+  delete(id: number, userId: number): Promise<boolean>;
+  getMuscleGroupStats(userId: number, fromDate: string, toDate: string): Promise<MuscleGroupStats[]>;
+  getDailyNutritionStats(userId: number, fromDate: string, toDate: string): Promise<DailyNutritionStats[]>;
+}
+
+export interface WeeklyArchiveRepository {
+  save(userId: number, archive: WeeklyArchiveData): Promise<void>;
+  findByUserAndWeek(userId: number, weekStart: string, includeDays: boolean): Promise<WeeklyArchive | null>;
+  findByUser(
+    userId: number,
+    filters: WeeklyArchiveFilters,
+    limit: number,
+    offset: number,
+    includeDays: boolean
+  ): Promise<{ archives: WeeklyArchive[]; total: number }>;
+  delete(userId: number, weekStart: string): Promise<boolean>;
+}
+
+export interface WeekRolloverRepository {
+  findPending(
+    beforeWeekStart: string,
+    maxAttempts: number,
+    now: Date,
+    limit: number
+  ): Promise<{ userId: number; weekStart: string }[]>;
+  claim(userId: number, weekStart: string): Promise<WeekRollover>;
+  markArchived(id: number): Promise<void>;
+  claimAdjustment(id: number): Promise<boolean>;
+  markCompleted(id: number): Promise<void>;
+  markFailed(id: number, errorMessage: string, nextAttemptAt: Date | null): Promise<void>;
+}
+
+export interface ExerciseSetLogRepository {
+  create(set: ExerciseSetLogData): Promise<ExerciseSetLog>;
+  createMany(sets: ExerciseSetLogData[]): Promise<ExerciseSetLog[]>;
+  findById(id: number, userId: number): Promise<ExerciseSetLog | null>;
+  findByPlan(planId: number, exerciseId?: string): Promise<ExerciseSetLog[]>;
+  findByExerciseName(userId: number, exerciseName: string, fromDate: string, toDate: string): Promise<ExerciseSetLog[]>;
+  update(id: number, userId: number, fields: Partial<LogExerciseSetRequest>): Promise<ExerciseSetLog | null>;
+  delete(id: number, userId: number): Promise<boolean>;
+}
+
+export interface ExerciseCatalogRepository {
+  create(exercise: CatalogExerciseData): Promise<number>;
+  findById(id: number): Promise<CatalogExercise | null>;
+  findByIds(ids: number[]): Promise<CatalogExercise[]>;
+  findBySlugs(slugs: string[]): Promise<CatalogExercise[]>;
+  findAll(filters: CatalogExerciseFilters, limit: number, offset: number): Promise<{ exercises: CatalogExercise[]; total: number }>;
+  findByMuscles(muscles: string[]): Promise<CatalogExercise[]>;
+  update(id: number, fields: Partial<CatalogExerciseData>): Promise<boolean>;
+  delete(id: number): Promise<boolean>;
+}
+
+export interface BodyMeasurementRepository {
+  create(measurement: BodyMeasurementData): Promise<number>;
+  findById(id: number, userId: number): Promise<BodyMeasurement | null>;
+  findByUser(userId: number, fromDate?: string, toDate?: string): Promise<BodyMeasurement[]>;
+  delete(id: number, userId: number): Promise<boolean>;
+}
+
+export interface GoalTargetRepository {
+  create(goal: GoalTargetData): Promise<number>;
+  findById(id: number, userId: number): Promise<GoalTarget | null>;
+  findByUser(userId: number, status?: GoalTargetStatus): Promise<GoalTarget[]>;
+  update(id: number, userId: number, fields: Partial<GoalTargetData>): Promise<boolean>;
+  delete(id: number, userId: number): Promise<boolean>;
+}
+
+export interface CalorieAdjustmentRepository {
+  create(adjustment: CalorieAdjustmentData): Promise<number>;
+  findByWeek(userId: number, weekStart: string): Promise<CalorieAdjustment | null>;
+  findByUser(userId: number, limit?: number): Promise<CalorieAdjustment[]>;
+  update(id: number, userId: number, fields: Partial<CalorieAdjustmentData>): Promise<boolean>;
+}
+
+export interface FoodLogRepository {
+  create(entry: FoodLogEntryData): Promise<number>;
+  findById(id: number, userId: number): Promise<FoodLogEntry | null>;
+  findByUser(userId: number, fromDate: string, toDate: string): Promise<FoodLogEntry[]>;
+  update(id: number, userId: number, fields: Partial<FoodLogEntryData>): Promise<boolean>;
+  delete(id: number, userId: number): Promise<boolean>;
+  deleteByPlanMeal(userId: number, loggedOn: string, planMealId: string): Promise<number>;
+}
+
+export interface FoodRepository {
+  upsertMany(foods: LocalFoodData[]): Promise<void>;
+  findById(fdcId: number): Promise<LocalFood | null>;
+  findByIds(fdcIds: number[]): Promise<LocalFood[]>;
+  search(query: string, options: LocalFoodSearchOptions): Promise<LocalFoodSearchResult>;
+  count(): Promise<number>;
+}
+
+export interface UsdaCacheRepository {
+  find(cacheKey: string): Promise<UsdaCacheEntry | null>;
+  save(entry: UsdaCacheEntry): Promise<void>;
+  deleteExpired(now: Date): Promise<number>;
+}
+
+export interface Storage {
+  driver: StorageDriver;
+  users: UserRepository;
+  plans: WorkoutMealPlanRepository;
+  setLogs: ExerciseSetLogRepository;
+  weeklyArchives: WeeklyArchiveRepository;
+  weekRollovers: WeekRolloverRepository;
+  exercises: ExerciseCatalogRepository;
+  measurements: BodyMeasurementRepository;
+  goals: GoalTargetRepository;
+  calorieAdjustments: CalorieAdjustmentRepository;
+  foodLog: FoodLogRepository;
+  foods: FoodRepository;
+  usdaCache: UsdaCacheRepository;
+}
+
 // Environment Configuration Types
 export interface AppConfig {
   port: number;
@@ -177,6 +990,17 @@ export interface AppConfig {
   maxFileSize: number;
   uploadPath: string;
   frontendUrl: string;
+  storageDriver: StorageDriver;
+  dbMigrateOnStartup: boolean;
+  weekRolloverEnabled: boolean;
+  weekRolloverIntervalMs: number;
+  weekRolloverAdjustIntensity: boolean;
+  weekRolloverMaxAttempts: number;
+  usdaRemoteFallback: boolean;
+  usdaCacheMaxEntries: number;
+  usdaCacheFoodTtlMs: number;
+  usdaCacheSearchTtlMs: number;
+  usdaCachePersistent: boolean;
 }
 
 // Authentication Response Types
@@ -0,0 +1,114 @@
+export const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
+
+export type DayOfWeek = typeof DAYS_OF_WEEK[number];
+
+export class DateUtils {
+  /**
+   * Format a date as YYYY-MM-DD (local time)
+   */
+  static toDateString(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+
+  /**
+   * Parse a YYYY-MM-DD string into a local Date at midnight
+   */
+  static parseDateString(value: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) {
+      return null;
+    }
+
+    const date = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+    return isNaN(date.getTime()) || this.toDateString(date) !== value ? null : date;
+  }
+
+  /**
+   * Normalize a DATE column value (Date object or string) to YYYY-MM-DD
+   */
+  static normalizeDateColumn(value: any): string {
+    if (value instanceof Date) {
+      return this.toDateString(value);
+    }
+    return typeof value === 'string' ? value.substring(0, 10) : '';
+  }
+
+  /**
+   * Get the Monday that starts the week containing the given date, in the server's time zone
+   */
+  static getWeekStart(date: Date = new Date()): Date {
+    const weekStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const day = weekStart.getDay();
+    weekStart.setDate(weekStart.getDate() - (day === 0 ? 6 : day - 1)); // Adjust when day is Sunday
+    return weekStart;
+  }
+
+  /**
+   * Get the Monday of the current week as YYYY-MM-DD
+   */
+  static getCurrentWeekStart(): string {
+    return this.toDateString(this.getWeekStart());
+  }
+
+  /**
+   * Add days to a YYYY-MM-DD date string
+   */
+  static addDays(dateString: string, days: number): string {
+    const date = this.parseDateString(dateString);
+    if (!date) {
+      throw new Error(`Invalid date: ${dateString}`);
+    }
+    date.setDate(date.getDate() + days);
+    return this.toDateString(date);
+  }
+
+  /**
+   * Whole days from one YYYY-MM-DD date to another (negative when to is earlier)
+   */
+  static daysBetween(from: string, to: string): number {
+    const fromDate = this.parseDateString(from);
+    const toDate = this.parseDateString(to);
+    if (!fromDate || !toDate) {
+      throw new Error(`Invalid date range: ${from} to ${to}`);
+    }
+    return Math.round((toDate.getTime() - fromDate.getTime()) / 86400000);
+  }
+
+  /**
+   * Get the calendar date of a weekday within the week starting at weekStart
+   */
+  static getDateForDay(weekStart: string, day: string): string {
+    const offset = DAYS_OF_WEEK.indexOf(day as DayOfWeek);
+    if (offset === -1) {
+      throw new Error(`Invalid day: ${day}`);
+    }
+    return this.addDays(weekStart, offset);
+  }
+
+  /**
+   * Get the weekday name of a YYYY-MM-DD date
+   */
+  static getDayName(dateString: string): DayOfWeek {
+    const date = this.parseDateString(dateString);
+    if (!date) {
+      throw new Error(`Invalid date: ${dateString}`);
+    }
+    const day = date.getDay();
+    return DAYS_OF_WEEK[day === 0 ? 6 : day - 1];
+  }
+
+  /**
+   * Get ISO-8601 year and week number for a date
+   */
+  static getIsoWeek(date: Date): { year: number; week: number } {
+    const target = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    const dayNumber = target.getUTCDay() || 7;
+    target.setUTCDate(target.getUTCDate() + 4 - dayNumber); // Thursday decides the year
+    const yearStart = new Date(Date.UTC(target.getUTCFullYear(), 0, 1));
+    const week = Math.ceil(((target.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+    return { year: target.getUTCFullYear(), week };
+  }
+}
@@ -0,0 +1,38 @@
+import { LruCache } from './lruCache';
+
+describe('LruCache', () => {
+  it('returns stored values until they expire', () => {
+    const cache = new LruCache<string>(10);
+    cache.set('fresh', 'a', 60_000);
+    cache.set('expired', 'b', -1);
+
+    expect(cache.get('fresh')).toBe('a');
+    expect(cache.get('expired')).toBeUndefined();
+    expect(cache.get('missing')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    const cache = new LruCache<number>(2);
+    cache.set('a', 1, 60_000);
+    cache.set('b', 2, 60_000);
+    cache.get('a');
+    cache.set('c', 3, 60_000);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+    expect(cache.size).toBe(2);
+    expect(cache.evictions).toBe(1);
+  });
+
+  it('replaces the value of an existing key without evicting', () => {
+    const cache = new LruCache<number>(2);
+    cache.set('a', 1, 60_000);
+    cache.set('b', 2, 60_000);
+    cache.set('a', 3, 60_000);
+
+    expect(cache.get('a')).toBe(3);
+    expect(cache.get('b')).toBe(2);
+    expect(cache.evictions).toBe(0);
+  });
+});
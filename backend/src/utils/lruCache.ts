@@ -0,0 +1,61 @@
+interface LruEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Size-bounded in-process cache with per-entry expiry, evicting the least recently used entry
+ * (Map keeps insertion order, so reads move an entry to the end)
+ */
+export class LruCache<T> {
+  private entries = new Map<string, LruEntry<T>>();
+  private evicted = 0;
+
+  constructor(readonly maxEntries: number) {}
+
+  /**
+   * Value of a key, undefined when missing or expired
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Store a value for ttlMs milliseconds, evicting the least recently used entries when full
+   */
+  set(key: string, value: T, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evicted++;
+    }
+  }
+
+  /**
+   * Number of entries held (expired ones included until read or evicted)
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Number of entries evicted to make room
+   */
+  get evictions(): number {
+    return this.evicted;
+  }
+}
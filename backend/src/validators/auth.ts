@@ -1,5 +1,6 @@
 import Joi from 'joi';
 import { CreateUserRequest, LoginRequest, UpdateProfileRequest, UpdateGoalsRequest } from '../types';
+import { targetDate, targetWeight } from './goal';
 
 // Custom Gmail validator
 const gmailValidator = (value: string, helpers: any) => {
@@ -134,7 +135,15 @@ export const updateGoalsSchema = Joi.object<UpdateGoalsRequest>({
       'string.empty': 'Fitness goal is required',
       'any.only': 'Goal must be weight_loss, muscle_gain, or maintenance',
     }),
-});
+
+  target_weight: targetWeight.optional(),
+
+  target_date: targetDate.optional(),
+})
+  .and('target_weight', 'target_date')
+  .messages({
+    'object.and': 'Target weight and target date go together',
+  });
 
 // Email validation schema
 export const emailSchema = Joi.object({
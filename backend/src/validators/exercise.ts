@@ -0,0 +1,204 @@
+import Joi from 'joi';
+import { CatalogExerciseData, CreateCatalogExerciseRequest } from '../types';
+import { CARDIO_MODALITIES } from '../data/cardio';
+
+const muscle = Joi.string()
+  .lowercase()
+  .trim()
+  .pattern(/^[a-z_]+$/)
+  .max(50)
+  .messages({
+    'string.pattern.base': 'Muscle groups may only contain letters and underscores (e.g. full_body)',
+    'string.max': 'Muscle groups must be less than 50 characters long',
+  });
+
+const equipmentTag = Joi.string()
+  .lowercase()
+  .trim()
+  .pattern(/^[a-z_]+$/)
+  .max(50)
+  .invalid('none')
+  .messages({
+    'string.pattern.base': 'Equipment tags may only contain letters and underscores (e.g. pull_up_bar)',
+    'string.max': 'Equipment tags must be less than 50 characters long',
+    'any.invalid': 'Leave equipment empty for bodyweight exercises',
+  });
+
+// Fields of a catalog exercise, shared by the create and update schemas
+const exerciseFields = {
+  slug: Joi.string()
+    .lowercase()
+    .trim()
+    .pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/)
+    .max(100)
+    .messages({
+      'string.pattern.base': 'Slug may only contain lowercase letters, numbers and single dashes',
+      'string.max': 'Slug must be less than 100 characters long',
+    }),
+
+  name: Joi.string()
+    .min(2)
+    .max(255)
+    .trim()
+    .messages({
+      'string.empty': 'Exercise name is required',
+      'string.min': 'Exercise name must be at least 2 characters long',
+      'string.max': 'Exercise name must be less than 255 characters long',
+    }),
+
+  primary_muscle: muscle.messages({
+    'string.empty': 'Primary muscle is required',
+  }),
+
+  secondary_muscles: Joi.array()
+    .items(muscle)
+    .unique()
+    .max(10)
+    .messages({
+      'array.unique': 'Secondary muscles must not repeat',
+      'array.max': 'At most 10 secondary muscles are allowed',
+    }),
+
+  equipment: Joi.array()
+    .items(equipmentTag)
+    .unique()
+    .max(10)
+    .messages({
+      'array.unique': 'Equipment tags must not repeat',
+      'array.max': 'At most 10 equipment tags are allowed',
+    }),
+
+  difficulty: Joi.string()
+    .valid('beginner', 'intermediate', 'advanced')
+    .messages({
+      'any.only': 'Difficulty must be beginner, intermediate, or advanced',
+    }),
+
+  default_sets: Joi.number()
+    .integer()
+    .min(1)
+    .max(20)
+    .messages({
+      'number.base': 'Default sets must be a number',
+      'number.min': 'Default sets must be at least 1',
+      'number.max': 'Default sets must be 20 or less',
+    }),
+
+  default_reps: Joi.number()
+    .integer()
+    .min(1)
+    .max(200)
+    .messages({
+      'number.base': 'Default reps must be a number',
+      'number.min': 'Default reps must be at least 1',
+      'number.max': 'Default reps must be 200 or less',
+    }),
+
+  default_duration: Joi.number()
+    .integer()
+    .min(1)
+    .max(7200)
+    .messages({
+      'number.base': 'Default duration must be a number of seconds',
+      'number.min': 'Default duration must be at least 1 second',
+      'number.max': 'Default duration must be two hours or less',
+    }),
+
+  cardio: Joi.object({
+    modality: Joi.string()
+      .valid(...CARDIO_MODALITIES)
+      .required()
+      .messages({
+        'any.only': `Cardio modality must be one of: ${CARDIO_MODALITIES.join(', ')}`,
+        'any.required': 'Cardio modality is required',
+      }),
+
+    distance_km: Joi.number()
+      .positive()
+      .max(500)
+      .precision(2)
+      .messages({
+        'number.base': 'Distance must be a number of kilometers',
+        'number.positive': 'Distance must be positive',
+        'number.max': 'Distance must be 500 km or less',
+      }),
+
+    pace_seconds_per_km: Joi.number()
+      .integer()
+      .min(60)
+      .max(1800)
+      .messages({
+        'number.base': 'Pace must be a number of seconds per kilometer',
+        'number.min': 'Pace must be at least 60 seconds per kilometer',
+        'number.max': 'Pace must be 30 minutes per kilometer or less',
+      }),
+
+    heart_rate_zone: Joi.number()
+      .integer()
+      .min(1)
+      .max(5)
+      .messages({
+        'number.base': 'Heart-rate zone must be a number',
+        'number.min': 'Heart-rate zone must be between 1 and 5',
+        'number.max': 'Heart-rate zone must be between 1 and 5',
+      }),
+
+    intervals: Joi.object({
+      rounds: Joi.number().integer().min(1).max(50).required(),
+      work_seconds: Joi.number().integer().min(5).max(3600).required(),
+      rest_seconds: Joi.number().integer().min(0).max(3600).required(),
+    }).messages({
+      'any.required': 'Intervals need rounds, work_seconds and rest_seconds',
+      'number.base': 'Interval rounds and seconds must be numbers',
+      'number.min': 'Intervals need at least 1 round of at least 5 seconds of work',
+      'number.max': 'Intervals allow at most 50 rounds of at most one hour',
+    }),
+  }).messages({
+    'object.base': 'Cardio details must be an object',
+  }),
+
+  met: Joi.number()
+    .min(1)
+    .max(25)
+    .precision(1)
+    .messages({
+      'number.base': 'MET must be a number',
+      'number.min': 'MET must be at least 1 (resting)',
+      'number.max': 'MET must be 25 or less',
+    }),
+
+  instructions: Joi.string()
+    .max(2000)
+    .trim()
+    .allow('')
+    .messages({
+      'string.max': 'Instructions must be less than 2000 characters long',
+    }),
+
+  media_url: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .max(500)
+    .messages({
+      'string.uri': 'Media URL must be a valid http(s) URL',
+      'string.max': 'Media URL must be less than 500 characters long',
+    }),
+};
+
+// Create catalog exercise validation schema
+export const createExerciseSchema = Joi.object<CreateCatalogExerciseRequest>({
+  ...exerciseFields,
+  name: exerciseFields.name.required(),
+  primary_muscle: exerciseFields.primary_muscle.required(),
+  secondary_muscles: exerciseFields.secondary_muscles.default([]),
+  equipment: exerciseFields.equipment.default([]),
+  difficulty: exerciseFields.difficulty.default('beginner'),
+  default_sets: exerciseFields.default_sets.default(3),
+  default_reps: exerciseFields.default_reps.default(10),
+});
+
+// Update catalog exercise validation schema
+export const updateExerciseSchema = Joi.object<Partial<CatalogExerciseData>>(exerciseFields)
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided',
+  });
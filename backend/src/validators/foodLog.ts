@@ -0,0 +1,136 @@
+import Joi from 'joi';
+import { LogFoodRequest, UpdateFoodLogRequest } from '../types';
+import { DateUtils } from '../utils/date';
+
+/**
+ * Custom validator for diary dates (a real calendar date, not in the future)
+ */
+const loggedOnValidator = (value: string, helpers: Joi.CustomHelpers) => {
+  if (!DateUtils.parseDateString(value)) {
+    return helpers.error('any.invalid');
+  }
+  if (value > DateUtils.toDateString(new Date())) {
+    return helpers.error('date.max');
+  }
+  return value;
+};
+
+const loggedOn = Joi.string()
+  .pattern(/^\d{4}-\d{2}-\d{2}$/)
+  .custom(loggedOnValidator)
+  .messages({
+    'string.pattern.base': 'Date must be in YYYY-MM-DD format',
+    'any.invalid': 'Date is not a valid date',
+    'date.max': 'Food cannot be logged in the future',
+  });
+
+const mealSlot = Joi.string()
+  .valid('breakfast', 'lunch', 'dinner', 'snack')
+  .messages({
+    'any.only': 'Meal slot must be breakfast, lunch, dinner, or snack',
+    'any.required': 'Meal slot is required',
+  });
+
+// Grams of a USDA food, servings of a recipe or quick add
+const quantity = Joi.number()
+  .positive()
+  .max(5000)
+  .precision(2)
+  .messages({
+    'number.base': 'Quantity must be a number',
+    'number.positive': 'Quantity must be positive',
+    'number.max': 'Quantity must be 5000 or less',
+  });
+
+const name = Joi.string()
+  .max(255)
+  .trim()
+  .messages({
+    'string.empty': 'Name cannot be empty',
+    'string.max': 'Name must be less than 255 characters long',
+  });
+
+const calories = Joi.number()
+  .min(0)
+  .max(10000)
+  .messages({
+    'number.base': 'Calories must be a number',
+    'number.min': 'Calories cannot be negative',
+    'number.max': 'Calories must be 10000 or less',
+  });
+
+const grams = Joi.number()
+  .min(0)
+  .max(1000)
+  .precision(1)
+  .messages({
+    'number.base': 'Macros must be numbers (g)',
+    'number.min': 'Macros cannot be negative',
+    'number.max': 'Macros must be 1000 g or less',
+  });
+
+// Log food validation schema
+export const logFoodSchema = Joi.object<LogFoodRequest>({
+  logged_on: loggedOn.optional(),
+
+  meal_slot: mealSlot.required(),
+
+  source: Joi.string()
+    .valid('usda', 'recipe', 'quick_add')
+    .required()
+    .messages({
+      'any.only': 'Source must be usda, recipe, or quick_add',
+      'any.required': 'Source is required',
+    }),
+
+  fdc_id: Joi.number()
+    .integer()
+    .positive()
+    .when('source', { is: 'usda', then: Joi.required(), otherwise: Joi.forbidden() })
+    .messages({
+      'number.base': 'Food ID must be a number',
+      'any.required': 'USDA entries need a food ID',
+      'any.unknown': 'Only USDA entries have a food ID',
+    }),
+
+  meal_id: Joi.string()
+    .max(100)
+    .when('source', { is: 'recipe', then: Joi.required(), otherwise: Joi.forbidden() })
+    .messages({
+      'any.required': 'Recipe entries need a planned meal ID',
+      'any.unknown': 'Only recipe entries have a planned meal',
+    }),
+
+  quantity: quantity.optional(),
+
+  name: name.when('source', { is: 'quick_add', then: Joi.optional(), otherwise: Joi.forbidden() })
+    .messages({ 'any.unknown': 'Only quick adds are named, other entries take the food or meal name' }),
+
+  calories: calories.when('source', { is: 'quick_add', then: Joi.required(), otherwise: Joi.forbidden() })
+    .messages({
+      'any.required': 'Quick adds need calories',
+      'any.unknown': 'Only quick adds take calories, other entries are calculated',
+    }),
+
+  protein: grams.when('source', { is: 'quick_add', then: Joi.optional(), otherwise: Joi.forbidden() }),
+  carbs: grams.when('source', { is: 'quick_add', then: Joi.optional(), otherwise: Joi.forbidden() }),
+  fat: grams.when('source', { is: 'quick_add', then: Joi.optional(), otherwise: Joi.forbidden() }),
+  fiber: grams.when('source', { is: 'quick_add', then: Joi.optional(), otherwise: Joi.forbidden() }),
+});
+
+// Update diary entry validation schema
+export const updateFoodLogSchema = Joi.object<UpdateFoodLogRequest>({
+  logged_on: loggedOn,
+  meal_slot: mealSlot,
+  quantity,
+  name,
+  calories,
+  protein: grams,
+  carbs: grams,
+  fat: grams,
+  fiber: grams,
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided',
+  });
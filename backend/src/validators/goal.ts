@@ -0,0 +1,122 @@
+import Joi from 'joi';
+import { CreateGoalTargetRequest, UpdateGoalTargetRequest } from '../types';
+import { DateUtils } from '../utils/date';
+
+const MAX_GOAL_YEARS = 5;
+
+/**
+ * Custom validator for target dates (a real calendar date after today, within a few years)
+ */
+const targetDateValidator = (value: string, helpers: Joi.CustomHelpers) => {
+  const date = DateUtils.parseDateString(value);
+  if (!date) {
+    return helpers.error('any.invalid');
+  }
+
+  const today = new Date();
+  if (value <= DateUtils.toDateString(today)) {
+    return helpers.error('date.min');
+  }
+
+  today.setFullYear(today.getFullYear() + MAX_GOAL_YEARS);
+  if (value > DateUtils.toDateString(today)) {
+    return helpers.error('date.max');
+  }
+  return value;
+};
+
+// Target date of a goal, shared with the goals update of the profile
+export const targetDate = Joi.string()
+  .pattern(/^\d{4}-\d{2}-\d{2}$/)
+  .custom(targetDateValidator)
+  .messages({
+    'string.pattern.base': 'Target date must be in YYYY-MM-DD format',
+    'any.invalid': 'Target date is not a valid date',
+    'date.min': 'Target date must be in the future',
+    'date.max': `Target date must be within ${MAX_GOAL_YEARS} years`,
+    'any.required': 'Target date is required',
+  });
+
+// Target weight of a goal, shared with the goals update of the profile
+export const targetWeight = Joi.number()
+  .min(30)
+  .max(300)
+  .precision(2)
+  .messages({
+    'number.base': 'Target weight must be a number',
+    'number.min': 'Target weight must be at least 30 kg',
+    'number.max': 'Target weight must be less than 300 kg',
+  });
+
+// Target of each goal metric (kg, %, kg of estimated one-rep max)
+const targetValue = Joi.number()
+  .when('metric', {
+    switch: [
+      { is: 'weight', then: targetWeight },
+      {
+        is: 'body_fat_percentage',
+        then: Joi.number().min(2).max(70).precision(1).messages({
+          'number.min': 'Target body fat must be at least 2%',
+          'number.max': 'Target body fat must be 70% or less',
+        }),
+      },
+    ],
+    otherwise: Joi.number().min(1).max(1000).precision(1).messages({
+      'number.min': 'Target one-rep max must be at least 1 kg',
+      'number.max': 'Target one-rep max must be 1000 kg or less',
+    }),
+  })
+  .messages({
+    'number.base': 'Target value must be a number',
+    'any.required': 'Target value is required',
+  });
+
+// Create goal validation schema
+export const createGoalSchema = Joi.object<CreateGoalTargetRequest>({
+  metric: Joi.string()
+    .valid('weight', 'body_fat_percentage', 'strength')
+    .required()
+    .messages({
+      'any.only': 'Metric must be weight, body_fat_percentage, or strength',
+      'any.required': 'Metric is required',
+    }),
+
+  exercise_name: Joi.string()
+    .max(255)
+    .trim()
+    .when('metric', { is: 'strength', then: Joi.required(), otherwise: Joi.forbidden() })
+    .messages({
+      'string.max': 'Exercise name must be less than 255 characters long',
+      'any.required': 'Strength goals need an exercise name',
+      'any.unknown': 'Only strength goals have an exercise',
+    }),
+
+  target_value: targetValue.required(),
+
+  target_date: targetDate.required(),
+});
+
+// Update goal validation schema
+export const updateGoalSchema = Joi.object<UpdateGoalTargetRequest>({
+  target_value: Joi.number()
+    .min(1)
+    .max(1000)
+    .precision(2)
+    .messages({
+      'number.base': 'Target value must be a number',
+      'number.min': 'Target value must be at least 1',
+      'number.max': 'Target value must be 1000 or less',
+    }),
+
+  target_date: targetDate,
+
+  status: Joi.string()
+    .valid('active', 'cancelled')
+    .messages({
+      'any.only': 'Status must be active or cancelled',
+    }),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided',
+  });
@@ -0,0 +1,52 @@
+import Joi from 'joi';
+
+// Share of a planned meal eaten, shared with the plan completion update
+export const mealPortion = Joi.number()
+  .greater(0)
+  .max(1)
+  .precision(3)
+  .messages({
+    'number.base': 'Portion must be a number',
+    'number.greater': 'Portion must be greater than 0',
+    'number.max': 'Portion must be 1 (the whole meal) or less',
+  });
+
+// Quantities eaten of a planned meal's foods, by position in the meal; skipped foods are left out
+export const consumedFoods = Joi.array()
+  .items(
+    Joi.object({
+      index: Joi.number().integer().min(0).required().messages({
+        'number.base': 'Food index must be a number',
+        'number.min': 'Food index cannot be negative',
+        'any.required': 'Food index is required',
+      }),
+      quantity: Joi.number().positive().max(5000).precision(2).required().messages({
+        'number.base': 'Food quantity must be a number',
+        'number.positive': 'Food quantity must be positive (leave skipped foods out)',
+        'number.max': 'Food quantity must be 5000 or less',
+        'any.required': 'Food quantity is required',
+      }),
+    })
+  )
+  .min(1)
+  .unique('index')
+  .messages({
+    'array.min': 'At least one food must have been eaten',
+    'array.unique': 'Each food can only be listed once',
+  });
+
+// Mark meal as consumed validation schema
+export const consumeMealSchema = Joi.object({
+  meal_id: Joi.string().required().messages({
+    'any.required': 'Meal ID is required',
+  }),
+  consumed: Joi.boolean().required().messages({
+    'any.required': 'Consumed status is required',
+  }),
+  portion: mealPortion.optional(),
+  foods: consumedFoods.optional(),
+})
+  .oxor('portion', 'foods')
+  .messages({
+    'object.oxor': 'Give either the portion eaten or the quantities eaten per food, not both',
+  });
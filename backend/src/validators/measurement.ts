@@ -0,0 +1,85 @@
+import Joi from 'joi';
+import { RecordBodyMeasurementRequest } from '../types';
+import { CIRCUMFERENCE_SITES } from '../data/bodyMeasurements';
+import { DateUtils } from '../utils/date';
+
+/**
+ * Custom validator for measurement dates (a real calendar date, not in the future)
+ */
+const measurementDateValidator = (value: string, helpers: Joi.CustomHelpers) => {
+  if (!DateUtils.parseDateString(value)) {
+    return helpers.error('any.invalid');
+  }
+  if (value > DateUtils.toDateString(new Date())) {
+    return helpers.error('date.max');
+  }
+  return value;
+};
+
+const circumference = Joi.number()
+  .min(10)
+  .max(250)
+  .precision(1)
+  .messages({
+    'number.base': 'Circumferences must be numbers (cm)',
+    'number.min': 'Circumferences must be at least 10 cm',
+    'number.max': 'Circumferences must be 250 cm or less',
+  });
+
+// Record body measurement validation schema
+export const recordMeasurementSchema = Joi.object<RecordBodyMeasurementRequest>({
+  measured_on: Joi.string()
+    .pattern(/^\d{4}-\d{2}-\d{2}$/)
+    .custom(measurementDateValidator)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Measurement date must be in YYYY-MM-DD format',
+      'any.invalid': 'Measurement date is not a valid date',
+      'date.max': 'Measurement date cannot be in the future',
+    }),
+
+  weight: Joi.number()
+    .min(30)
+    .max(300)
+    .precision(2)
+    .optional()
+    .messages({
+      'number.base': 'Weight must be a number',
+      'number.min': 'Weight must be at least 30 kg',
+      'number.max': 'Weight must be less than 300 kg',
+    }),
+
+  body_fat_percentage: Joi.number()
+    .min(2)
+    .max(70)
+    .precision(1)
+    .optional()
+    .messages({
+      'number.base': 'Body fat must be a number',
+      'number.min': 'Body fat must be at least 2%',
+      'number.max': 'Body fat must be 70% or less',
+    }),
+
+  circumferences: Joi.object(
+    Object.fromEntries(CIRCUMFERENCE_SITES.map(site => [site, circumference]))
+  )
+    .min(1)
+    .optional()
+    .messages({
+      'object.min': 'Give at least one circumference or leave them out',
+      'object.unknown': `Circumference sites are ${CIRCUMFERENCE_SITES.join(', ')}`,
+    }),
+
+  notes: Joi.string()
+    .max(500)
+    .trim()
+    .allow('')
+    .optional()
+    .messages({
+      'string.max': 'Notes must be less than 500 characters long',
+    }),
+})
+  .or('weight', 'body_fat_percentage', 'circumferences')
+  .messages({
+    'object.missing': 'Record at least a weight, a body fat percentage or a circumference',
+  });
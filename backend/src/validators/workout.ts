@@ -0,0 +1,255 @@
+import Joi from 'joi';
+import { CompleteSessionRequest, EquipmentProfile, LogExerciseSetRequest, ProgressionScheme, SwapExerciseRequest, TrainingPreferences } from '../types';
+import { DAYS_OF_WEEK } from '../utils/date';
+import {
+  MIN_TRAINING_DAYS_PER_WEEK,
+  MAX_TRAINING_DAYS_PER_WEEK,
+  MIN_SESSION_BUDGET_MINUTES,
+  MAX_SESSION_BUDGET_MINUTES,
+} from '../data/trainingSplits';
+
+// Fields of a performed set, shared by the log and update schemas
+const setFields = {
+  set_number: Joi.number()
+    .integer()
+    .min(1)
+    .max(50)
+    .optional()
+    .messages({
+      'number.base': 'Set number must be a number',
+      'number.integer': 'Set number must be a whole number',
+      'number.min': 'Set number must be at least 1',
+      'number.max': 'Set number must be 50 or less',
+    }),
+
+  reps: Joi.number()
+    .integer()
+    .min(0)
+    .max(200)
+    .messages({
+      'number.base': 'Reps must be a number',
+      'number.integer': 'Reps must be a whole number',
+      'number.min': 'Reps cannot be negative',
+      'number.max': 'Reps must be 200 or less',
+    }),
+
+  weight: Joi.number()
+    .min(0)
+    .max(1000)
+    .precision(2)
+    .allow(null)
+    .optional()
+    .messages({
+      'number.base': 'Weight must be a number',
+      'number.min': 'Weight cannot be negative',
+      'number.max': 'Weight must be 1000 kg or less',
+    }),
+
+  rpe: Joi.number()
+    .min(1)
+    .max(10)
+    .precision(1)
+    .allow(null)
+    .optional()
+    .messages({
+      'number.base': 'RPE must be a number',
+      'number.min': 'RPE must be between 1 and 10',
+      'number.max': 'RPE must be between 1 and 10',
+    }),
+
+  rir: Joi.number()
+    .integer()
+    .min(0)
+    .max(10)
+    .allow(null)
+    .optional()
+    .messages({
+      'number.base': 'RIR must be a number',
+      'number.integer': 'RIR must be a whole number',
+      'number.min': 'RIR must be between 0 and 10',
+      'number.max': 'RIR must be between 0 and 10',
+    }),
+
+  rest_seconds: Joi.number()
+    .integer()
+    .min(0)
+    .max(3600)
+    .allow(null)
+    .optional()
+    .messages({
+      'number.base': 'Rest must be a number of seconds',
+      'number.integer': 'Rest must be a whole number of seconds',
+      'number.min': 'Rest cannot be negative',
+      'number.max': 'Rest must be one hour or less',
+    }),
+
+  notes: Joi.string()
+    .max(500)
+    .trim()
+    .allow('', null)
+    .optional()
+    .messages({
+      'string.max': 'Notes must be less than 500 characters long',
+    }),
+};
+
+// Log a performed set validation schema
+export const logSetSchema = Joi.object<LogExerciseSetRequest>({
+  ...setFields,
+  reps: setFields.reps.required().messages({
+    'any.required': 'Reps are required',
+  }),
+});
+
+// Completed session validation schema
+export const completeSessionSchema = Joi.object<CompleteSessionRequest>({
+  started_at: Joi.date()
+    .iso()
+    .required()
+    .messages({
+      'date.base': 'Session start must be a date',
+      'date.format': 'Session start must be an ISO date',
+      'any.required': 'Session start is required',
+    }),
+
+  finished_at: Joi.date()
+    .iso()
+    .min(Joi.ref('started_at'))
+    .required()
+    .messages({
+      'date.base': 'Session end must be a date',
+      'date.format': 'Session end must be an ISO date',
+      'date.min': 'Session end must be after its start',
+      'any.required': 'Session end is required',
+    }),
+
+  exercises: Joi.array()
+    .items(Joi.object({
+      exercise_id: Joi.string()
+        .max(100)
+        .required()
+        .messages({
+          'string.empty': 'Exercise ID is required',
+        }),
+      sets: Joi.array()
+        .items(Joi.object({ ...setFields, reps: setFields.reps.required() }))
+        .min(1)
+        .max(50)
+        .required()
+        .messages({
+          'array.min': 'Each exercise needs at least one set',
+        }),
+    }))
+    .min(1)
+    .unique('exercise_id')
+    .required()
+    .messages({
+      'array.min': 'A session needs at least one exercise',
+      'array.unique': 'Each exercise can only appear once in a session',
+    }),
+});
+
+// Update a logged set validation schema
+export const updateSetSchema = Joi.object<Partial<LogExerciseSetRequest>>(setFields)
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided',
+  });
+
+// Progression scheme validation schema
+export const progressionSchemeSchema = Joi.object<{ scheme: ProgressionScheme }>({
+  scheme: Joi.string()
+    .valid('linear', 'double_progression', 'percentage')
+    .required()
+    .messages({
+      'string.empty': 'Progression scheme is required',
+      'any.only': 'Scheme must be linear, double_progression, or percentage',
+    }),
+});
+
+// Equipment profile validation schema
+export const equipmentProfileSchema = Joi.object<{ profile: EquipmentProfile; dropUnavailable: boolean }>({
+  profile: Joi.string()
+    .valid('home', 'dumbbells', 'full_gym', 'travel')
+    .required()
+    .messages({
+      'string.empty': 'Equipment profile is required',
+      'any.only': 'Profile must be home, dumbbells, full_gym, or travel',
+    }),
+  dropUnavailable: Joi.boolean()
+    .default(false)
+    .messages({
+      'boolean.base': 'dropUnavailable must be true or false',
+    }),
+});
+
+// Training preferences validation schema
+export const trainingPreferencesSchema = Joi.object<Partial<TrainingPreferences>>({
+  training_days_per_week: Joi.number()
+    .integer()
+    .min(MIN_TRAINING_DAYS_PER_WEEK)
+    .max(MAX_TRAINING_DAYS_PER_WEEK)
+    .optional()
+    .messages({
+      'number.base': 'Training days per week must be a number',
+      'number.integer': 'Training days per week must be a whole number',
+      'number.min': `Training days per week must be at least ${MIN_TRAINING_DAYS_PER_WEEK}`,
+      'number.max': `Training days per week must be at most ${MAX_TRAINING_DAYS_PER_WEEK}`,
+    }),
+
+  training_split: Joi.string()
+    .valid('auto', 'full_body', 'upper_lower', 'push_pull_legs', 'bro_split')
+    .optional()
+    .messages({
+      'any.only': 'Split must be auto, full_body, upper_lower, push_pull_legs, or bro_split',
+    }),
+
+  rest_days: Joi.array()
+    .items(Joi.string().valid(...DAYS_OF_WEEK))
+    .unique()
+    .max(DAYS_OF_WEEK.length - MIN_TRAINING_DAYS_PER_WEEK)
+    .optional()
+    .messages({
+      'any.only': 'Rest days must be days of the week',
+      'array.unique': 'Rest days must not repeat',
+      'array.max': `At least ${MIN_TRAINING_DAYS_PER_WEEK} days must remain for training`,
+    }),
+
+  session_budgets: Joi.object()
+    .pattern(
+      Joi.string().valid(...DAYS_OF_WEEK),
+      Joi.number().integer().min(MIN_SESSION_BUDGET_MINUTES).max(MAX_SESSION_BUDGET_MINUTES)
+    )
+    .optional()
+    .messages({
+      'object.unknown': 'Session budgets must be keyed by day of the week',
+      'number.base': 'Session budget must be a number of minutes',
+      'number.integer': 'Session budget must be a whole number of minutes',
+      'number.min': `Session budget must be at least ${MIN_SESSION_BUDGET_MINUTES} minutes`,
+      'number.max': `Session budget must be at most ${MAX_SESSION_BUDGET_MINUTES} minutes`,
+    }),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one training preference is required',
+  });
+
+// Exercise swap validation schema
+export const swapExerciseSchema = Joi.object<SwapExerciseRequest>({
+  catalog_id: Joi.number()
+    .integer()
+    .min(1)
+    .required()
+    .messages({
+      'number.base': 'Catalog exercise ID must be a number',
+      'number.integer': 'Catalog exercise ID must be a whole number',
+      'number.min': 'Catalog exercise ID must be positive',
+      'any.required': 'Catalog exercise ID is required',
+    }),
+
+  permanent: Joi.boolean()
+    .default(false)
+    .messages({
+      'boolean.base': 'Permanent must be true or false',
+    }),
+});
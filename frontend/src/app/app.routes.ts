@@ -6,6 +6,7 @@ import { ForgotPasswordComponent } from './components/auth/forgot-password/forgo
 import { ResetPasswordComponent } from './components/auth/reset-password/reset-password.component';
 import { ProfileComponent } from './components/profile/profile.component';
 import { WorkoutRoutineComponent } from './components/workout-routine/workout-routine.component';
+import { WorkoutSessionComponent } from './components/workout-session/workout-session.component';
 import { ProgressTrackerComponent } from './components/progress-tracker/progress-tracker.component';
 import { MealPlannerComponent } from './components/meal-planner/meal-planner.component';
 import { NutritionTrackerComponent } from './components/nutrition-tracker/nutrition-tracker.component';
@@ -33,6 +34,11 @@ export const routes: Routes = [
     component: WorkoutRoutineComponent, 
     canActivate: [AuthGuard] 
   },
+  { 
+    path: 'workouts/session/:day', 
+    component: WorkoutSessionComponent, 
+    canActivate: [AuthGuard] 
+  },
   { 
     path: 'progress', 
     component: ProgressTrackerComponent, 
@@ -548,6 +548,11 @@ export class EditMealDialogComponent implements OnInit {
       food.protein = Math.round((food.protein || 0) * multiplier);
       food.carbs = Math.round((food.carbs || 0) * multiplier);
       food.fat = Math.round((food.fat || 0) * multiplier);
+      if (food.micronutrients) {
+        food.micronutrients = Object.fromEntries(
+          Object.entries(food.micronutrients).map(([key, amount]) => [key, Math.round((amount || 0) * multiplier * 100) / 100])
+        );
+      }
       
       this.updateMealNutrition();
       
@@ -16,7 +16,7 @@ import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 import { MatNativeDateModule } from '@angular/material/core';
 import { MatSelectModule } from '@angular/material/select';
-import { MealService, DailyMealPlan, Meal, NutritionProgress } from '../../services/meal.service';
+import { MealService, DailyMealPlan, Meal, NutritionProgress, ConsumedFood } from '../../services/meal.service';
 import { AuthService } from '../../services/auth.service';
 import { Router } from '@angular/router';
 import { EditMealDialogComponent } from '../edit-meal-dialog/edit-meal-dialog.component';
@@ -53,6 +53,12 @@ export class MealPlannerComponent implements OnInit {
   loading = false;
   weekDates: Date[] = [];
   mealTypes = ['breakfast', 'lunch', 'dinner', 'snack'];
+  portionOptions = [
+    { value: 1, label: 'All' },
+    { value: 0.75, label: '¾' },
+    { value: 0.5, label: '½' },
+    { value: 0.25, label: '¼' }
+  ];
 
   // Add property to store weekly meal plans
   weeklyMealPlans: { [key: string]: any } = {};
@@ -141,12 +147,69 @@ export class MealPlannerComponent implements OnInit {
   }
 
   toggleMealConsumption(meal: Meal): void {
+    const message = !meal.consumed ? 'Meal marked as consumed!' : 'Meal marked as not consumed';
+    this.updateMealConsumption(meal, !meal.consumed, message);
+  }
+
+  // Record that only part of a meal was eaten
+  setMealPortion(meal: Meal, portion: number): void {
+    if (meal.consumed && !meal.consumed_foods && this.getMealPortion(meal) === portion) return;
+
+    const label = this.portionOptions.find(option => option.value === portion)?.label || `${portion}`;
+    this.updateMealConsumption(meal, true, `Ate ${label === 'All' ? 'all' : label} of the meal`, portion);
+  }
+
+  // Check a food of a meal off as eaten (in its planned quantity), or un-check it
+  toggleFoodConsumption(meal: Meal, index: number): void {
+    const eaten = this.getEatenFoods(meal).filter(food => food.index !== index);
+    if (!this.isFoodEaten(meal, index)) {
+      eaten.push({ index, quantity: meal.foods[index].quantity });
+    }
+
+    if (eaten.length === 0) {
+      this.updateMealConsumption(meal, false, 'Meal marked as not consumed');
+    } else if (eaten.length === meal.foods.length) {
+      this.updateMealConsumption(meal, true, 'Meal marked as consumed!');
+    } else {
+      this.updateMealConsumption(meal, true, `${eaten.length} of ${meal.foods.length} foods eaten`, undefined, eaten);
+    }
+  }
+
+  getMealPortion(meal: Meal): number {
+    return meal.consumed ? meal.portion ?? 1 : 0;
+  }
+
+  isFoodEaten(meal: Meal, index: number): boolean {
+    return this.getEatenFoods(meal).some(food => food.index === index);
+  }
+
+  // Calories eaten of a partly consumed meal
+  getEatenCalories(meal: Meal): number {
+    return Math.round(meal.calories * this.getMealPortion(meal));
+  }
+
+  // Foods eaten of a meal: those checked off, or all of them when it was consumed as a whole
+  private getEatenFoods(meal: Meal): ConsumedFood[] {
+    if (!meal.consumed) return [];
+    if (meal.consumed_foods) return [...meal.consumed_foods];
+    return meal.portion === undefined
+      ? meal.foods.map((food, index) => ({ index, quantity: food.quantity }))
+      : [];
+  }
+
+  // Save whether (and how much of) a meal was eaten, then refresh the plan and progress
+  private updateMealConsumption(
+    meal: Meal,
+    consumed: boolean,
+    message: string,
+    portion?: number,
+    foods?: ConsumedFood[]
+  ): void {
     if (!this.currentMealPlan) return;
 
     const dayName = this.getDayName(this.selectedDate);
-    const wasConsumed = meal.consumed;
     
-    this.mealService.markMealAsConsumed(dayName, meal.id, !wasConsumed).subscribe({
+    this.mealService.markMealAsConsumed(dayName, meal.id, consumed, portion, foods).subscribe({
       next: (response) => {
         if (response.success && response.data) {
           // Update local meal plan with backend response
@@ -156,7 +219,6 @@ export class MealPlannerComponent implements OnInit {
           // Update the meal service cache to notify other components
           this.mealService.updateMealPlanCache(this.currentMealPlan);
           
-          const message = !wasConsumed ? 'Meal marked as consumed!' : 'Meal marked as not consumed';
           this.snackBar.open(message, 'Close', { duration: 2000 });
         }
       },
@@ -279,6 +341,8 @@ export class MealPlannerComponent implements OnInit {
       fiber: 5, // Default fiber value
       consumed: backendPlan.completed_status?.meals?.[meal.id] || false,
       consumed_at: backendPlan.completed_status?.meals?.[meal.id] ? new Date() : undefined,
+      portion: backendPlan.completed_status?.meal_consumption?.[meal.id]?.portion,
+      consumed_foods: backendPlan.completed_status?.meal_consumption?.[meal.id]?.foods,
       foods: meal.foods || []
     }));
 
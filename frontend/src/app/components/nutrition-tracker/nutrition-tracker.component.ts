@@ -12,11 +12,26 @@ import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 import { MatNativeDateModule } from '@angular/material/core';
 import { MatSelectModule } from '@angular/material/select';
-import { MealService, DailyMealPlan, NutritionProgress, WeeklyNutritionSummary } from '../../services/meal.service';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import {
+  MealService,
+  DailyMealPlan,
+  Meal,
+  NutritionProgress,
+  WeeklyNutritionSummary,
+  DailyIntake,
+  DailyMicronutrients,
+  FoodDiaryDay,
+  FoodLogEntry,
+  LogFoodRequest,
+  MealSlot,
+  NutrientIntake,
+  USDAFood
+} from '../../services/meal.service';
 import { AuthService } from '../../services/auth.service';
 import { Router } from '@angular/router';
 import { Chart, ChartConfiguration, ChartType, registerables } from 'chart.js';
-import { Subscription } from 'rxjs';
+import { Subscription, forkJoin } from 'rxjs';
 
 Chart.register(...registerables);
 
@@ -49,7 +64,8 @@ interface NutritionStats {
     MatFormFieldModule,
     MatInputModule,
     MatNativeDateModule,
-    MatSelectModule
+    MatSelectModule,
+    ReactiveFormsModule
   ],
   templateUrl: './nutrition-tracker.component.html',
   styleUrls: ['./nutrition-tracker.component.scss']
@@ -77,6 +93,18 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
   loading = false;
   selectedPeriod = 'week';
 
+  // Food diary: today's entries and the logged totals per date (null while showing demo data)
+  todayDiary: FoodDiaryDay | null = null;
+  todayMicronutrients: DailyMicronutrients | null = null;
+  dailyIntake: { [date: string]: DailyIntake } | null = null;
+  todayPlannedMeals: Meal[] = [];
+  mealSlots: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+  diaryForm: FormGroup;
+  foodResults: USDAFood[] = [];
+  selectedFood: USDAFood | null = null;
+  searchingFoods = false;
+  loggingFood = false;
+
   private calorieChart: Chart | null = null;
   private macroChart: Chart | null = null;
   private weeklyChart: Chart | null = null;
@@ -86,8 +114,27 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
     private mealService: MealService,
     private authService: AuthService,
     private snackBar: MatSnackBar,
-    private router: Router
-  ) {}
+    private router: Router,
+    private fb: FormBuilder
+  ) {
+    this.diaryForm = this.fb.group({
+      mealSlot: ['breakfast', Validators.required],
+      source: ['quick_add', Validators.required],
+      query: [''],
+      quantity: [1, [Validators.required, Validators.min(0.1), Validators.max(5000)]],
+      mealId: [''],
+      name: [''],
+      calories: [null, [Validators.min(0), Validators.max(10000)]],
+      protein: [null, Validators.min(0)],
+      carbs: [null, Validators.min(0)],
+      fat: [null, Validators.min(0)]
+    });
+
+    // USDA foods are logged in grams, planned meals and quick adds in servings
+    this.diaryForm.get('source')?.valueChanges.subscribe(source => {
+      this.diaryForm.patchValue({ quantity: source === 'usda' ? 100 : 1 });
+    });
+  }
 
   ngOnInit(): void {
     if (!this.authService.isAuthenticated()) {
@@ -128,23 +175,12 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
     this.mealService.getMealPlansForWeek().subscribe({
       next: (response) => {
         if (response.success && response.data && response.data.plans) {
-          this.processRealMealData(response.data.plans);
-          
-          // Also get meal progress from backend for more accurate data
-          this.mealService.getMealProgress().subscribe({
-            next: (progressResponse) => {
-              if (progressResponse.success && progressResponse.data) {
-                this.updateWithBackendProgress(progressResponse.data.progress);
-              }
-              this.calculateNutritionStats();
-              this.loading = false;
-              setTimeout(() => this.createCharts(), 100);
-            },
-            error: (error) => {
-              this.calculateNutritionStats();
-              this.loading = false;
-              setTimeout(() => this.createCharts(), 100);
-            }
+          const plans = response.data.plans;
+
+          // Actuals come from the food diary, so load it before building the week
+          this.loadFoodDiary(() => {
+            this.processRealMealData(plans);
+            this.loadMealProgress();
           });
         } else {
           // No meal plans found, generate mock data for demo
@@ -176,6 +212,53 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
     });
   }
 
+  // Load today's diary and micronutrients and the logged totals of the last 7 days, then continue
+  loadFoodDiary(done: () => void): void {
+    const today = new Date();
+    const from = new Date(today);
+    from.setDate(today.getDate() - 6);
+
+    forkJoin({
+      intake: this.mealService.getDailyIntake(this.mealService.formatDate(from), this.mealService.formatDate(today)),
+      diary: this.mealService.getFoodDiary(this.mealService.formatDate(today)),
+      micronutrients: this.mealService.getMicronutrients(this.mealService.formatDate(today))
+    }).subscribe({
+      next: ({ intake, diary, micronutrients }) => {
+        this.dailyIntake = {};
+        (intake.data?.intake || []).forEach(day => this.dailyIntake![day.date] = day);
+        this.todayDiary = diary.data?.diary || null;
+        this.todayMicronutrients = micronutrients.data?.micronutrients || null;
+        done();
+      },
+      error: () => {
+        this.snackBar.open('Could not load your food diary', 'Close', { duration: 3000 });
+        this.dailyIntake = {};
+        this.todayDiary = null;
+        this.todayMicronutrients = null;
+        done();
+      }
+    });
+  }
+
+  // Meal counts of the week from the backend, then the stats and charts
+  loadMealProgress(): void {
+    this.mealService.getMealProgress().subscribe({
+      next: (progressResponse) => {
+        if (progressResponse.success && progressResponse.data) {
+          this.updateWithBackendProgress(progressResponse.data.progress);
+        }
+        this.calculateNutritionStats();
+        this.loading = false;
+        setTimeout(() => this.createCharts(), 100);
+      },
+      error: (error) => {
+        this.calculateNutritionStats();
+        this.loading = false;
+        setTimeout(() => this.createCharts(), 100);
+      }
+    });
+  }
+
   processRealMealData(plans: any[]): void {
     // Convert backend meal plans to frontend format
     this.weeklyPlans = [];
@@ -209,39 +292,11 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
       this.weeklyPlans.push(dailyPlan);
     }
 
-    // Get today's progress
-    const todayPlan = this.weeklyPlans[this.weeklyPlans.length - 1];
-    this.todayProgress = this.mealService.calculateDayProgress(todayPlan);
+    // Planned meals of today can be logged to the diary as recipes
+    const todayName = this.getDayName(today);
+    this.todayPlannedMeals = plansByDay[todayName] ? this.weeklyPlans[this.weeklyPlans.length - 1].meals : [];
 
-    // Generate weekly summary
-    this.weeklyNutritionSummary = {
-      totalDays: 7,
-      averageCalories: this.weeklyPlans.reduce((sum, plan) => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.calories, 0);
-        return sum + consumed;
-      }, 0) / 7,
-      averageProtein: this.weeklyPlans.reduce((sum, plan) => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.protein, 0);
-        return sum + consumed;
-      }, 0) / 7,
-      averageCarbs: this.weeklyPlans.reduce((sum, plan) => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.carbs, 0);
-        return sum + consumed;
-      }, 0) / 7,
-      averageFat: this.weeklyPlans.reduce((sum, plan) => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.fat, 0);
-        return sum + consumed;
-      }, 0) / 7,
-      calorieGoalDays: this.weeklyPlans.filter(plan => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.calories, 0);
-        return consumed >= plan.target_calories * 0.8 && consumed <= plan.target_calories * 1.2;
-      }).length,
-      proteinGoalDays: this.weeklyPlans.filter(plan => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.protein, 0);
-        return consumed >= plan.target_protein * 0.8;
-      }).length,
-      streak: this.calculateCurrentStreak()
-    };
+    this.buildWeeklySummary();
   }
 
   // Helper method to get day name from date
@@ -264,6 +319,8 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
       fiber: 5, // Default fiber value
       consumed: backendPlan.completed_status?.meals?.[meal.id] || false,
       consumed_at: backendPlan.completed_status?.meals?.[meal.id] ? new Date() : undefined,
+      portion: backendPlan.completed_status?.meal_consumption?.[meal.id]?.portion,
+      consumed_foods: backendPlan.completed_status?.meal_consumption?.[meal.id]?.foods,
       foods: meal.foods || []
     }));
 
@@ -299,13 +356,6 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
     if (backendProgress) {
       this.nutritionStats.totalMealsConsumed = backendProgress.consumedMeals || this.nutritionStats.totalMealsConsumed;
       this.nutritionStats.totalMealsPlanned = backendProgress.totalMeals || this.nutritionStats.totalMealsPlanned;
-      
-      // Update weekly summary with backend data if available
-      if (this.weeklyNutritionSummary && backendProgress.nutritionBreakdown) {
-        this.weeklyNutritionSummary.averageProtein = backendProgress.nutritionBreakdown.protein?.consumed || this.weeklyNutritionSummary.averageProtein;
-        this.weeklyNutritionSummary.averageCarbs = backendProgress.nutritionBreakdown.carbs?.consumed || this.weeklyNutritionSummary.averageCarbs;
-        this.weeklyNutritionSummary.averageFat = backendProgress.nutritionBreakdown.fat?.consumed || this.weeklyNutritionSummary.averageFat;
-      }
     }
   }
 
@@ -335,41 +385,65 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
       this.weeklyPlans.push(plan);
     }
 
-    // Get today's progress
+    this.dailyIntake = null;
+    this.todayDiary = null;
+    this.todayPlannedMeals = [];
+    this.buildWeeklySummary();
+  }
+
+  // Today's progress and the weekly summary from the consumed values of each day
+  buildWeeklySummary(): void {
     const todayPlan = this.weeklyPlans[this.weeklyPlans.length - 1];
-    this.todayProgress = this.mealService.calculateDayProgress(todayPlan);
+    this.todayProgress = this.mealService.calculateDayProgress(todayPlan, this.getIntake(todayPlan));
+
+    const consumed = this.weeklyPlans.map(plan => ({ plan, ...this.getConsumed(plan) }));
 
-    // Generate weekly summary
     this.weeklyNutritionSummary = {
       totalDays: 7,
-      averageCalories: this.weeklyPlans.reduce((sum, plan) => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.calories, 0);
-        return sum + consumed;
-      }, 0) / 7,
-      averageProtein: this.weeklyPlans.reduce((sum, plan) => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.protein, 0);
-        return sum + consumed;
-      }, 0) / 7,
-      averageCarbs: this.weeklyPlans.reduce((sum, plan) => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.carbs, 0);
-        return sum + consumed;
-      }, 0) / 7,
-      averageFat: this.weeklyPlans.reduce((sum, plan) => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.fat, 0);
-        return sum + consumed;
-      }, 0) / 7,
-      calorieGoalDays: this.weeklyPlans.filter(plan => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.calories, 0);
-        return consumed >= plan.target_calories * 0.8 && consumed <= plan.target_calories * 1.2;
-      }).length,
-      proteinGoalDays: this.weeklyPlans.filter(plan => {
-        const consumed = plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.protein, 0);
-        return consumed >= plan.target_protein * 0.8;
-      }).length,
+      averageCalories: consumed.reduce((sum, day) => sum + day.calories, 0) / 7,
+      averageProtein: consumed.reduce((sum, day) => sum + day.protein, 0) / 7,
+      averageCarbs: consumed.reduce((sum, day) => sum + day.carbs, 0) / 7,
+      averageFat: consumed.reduce((sum, day) => sum + day.fat, 0) / 7,
+      calorieGoalDays: consumed.filter(day =>
+        day.calories >= day.plan.target_calories * 0.8 && day.calories <= day.plan.target_calories * 1.2
+      ).length,
+      proteinGoalDays: consumed.filter(day => day.protein >= day.plan.target_protein * 0.8).length,
       streak: this.calculateCurrentStreak()
     };
   }
 
+  // Diary totals of a plan's date; undefined for demo data, whose actuals are the consumed meals
+  getIntake(plan: DailyMealPlan): DailyIntake | undefined {
+    if (!this.dailyIntake) {
+      return undefined;
+    }
+    return this.dailyIntake[plan.date] || {
+      date: plan.date, entries: 0, slots: [], calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0
+    };
+  }
+
+  // Calories and macros eaten on a plan's date
+  getConsumed(plan: DailyMealPlan): { calories: number; protein: number; carbs: number; fat: number } {
+    const intake = this.getIntake(plan);
+    if (intake) {
+      return { calories: intake.calories, protein: intake.protein, carbs: intake.carbs, fat: intake.fat };
+    }
+
+    const consumedMeals = plan.meals.filter(m => m.consumed);
+    return {
+      calories: consumedMeals.reduce((total, meal) => total + meal.calories, 0),
+      protein: consumedMeals.reduce((total, meal) => total + meal.protein, 0),
+      carbs: consumedMeals.reduce((total, meal) => total + meal.carbs, 0),
+      fat: consumedMeals.reduce((total, meal) => total + meal.fat, 0)
+    };
+  }
+
+  // Meals tracked on a plan's date: meal slots with diary entries, or the consumed meals of demo data
+  getMealsTracked(plan: DailyMealPlan): number {
+    const intake = this.getIntake(plan);
+    return intake ? intake.slots.length : plan.meals.filter(m => m.consumed).length;
+  }
+
   calculateNutritionStats(): void {
     if (!this.weeklyNutritionSummary) return;
 
@@ -383,7 +457,7 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
       currentStreak: this.weeklyNutritionSummary.streak,
       longestStreak: Math.max(this.weeklyNutritionSummary.streak, 5), // Mock longest streak
       totalMealsConsumed: this.weeklyPlans.reduce((total, plan) => 
-        total + plan.meals.filter(m => m.consumed).length, 0),
+        total + this.getMealsTracked(plan), 0),
       totalMealsPlanned: this.weeklyPlans.reduce((total, plan) => 
         total + plan.meals.length, 0)
     };
@@ -393,7 +467,7 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
     let streak = 0;
     for (let i = this.weeklyPlans.length - 1; i >= 0; i--) {
       const plan = this.weeklyPlans[i];
-      const consumedMeals = plan.meals.filter(m => m.consumed).length;
+      const consumedMeals = this.getMealsTracked(plan);
       const totalMeals = plan.meals.length;
       
       if (consumedMeals >= totalMeals * 0.75) { // 75% of meals consumed
@@ -511,9 +585,7 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
       return date.toLocaleDateString('en-US', { weekday: 'short' });
     });
 
-    const calorieData = this.weeklyPlans.map(plan => {
-      return plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.calories, 0);
-    });
+    const calorieData = this.weeklyPlans.map(plan => this.getConsumed(plan).calories);
 
     const targetData = this.weeklyPlans.map(plan => plan.target_calories);
 
@@ -559,6 +631,126 @@ export class NutritionTrackerComponent implements OnInit, OnDestroy {
     this.weeklyChart = new Chart(ctx, config);
   }
 
+  // Search USDA foods to log to the diary
+  searchFoods(): void {
+    const query = (this.diaryForm.value.query || '').trim();
+    if (query.length < 2) {
+      return;
+    }
+
+    this.searchingFoods = true;
+    this.selectedFood = null;
+    this.mealService.searchFoods(query, 8).subscribe({
+      next: (response) => {
+        this.foodResults = response.data?.searchResult.foods || [];
+        this.searchingFoods = false;
+      },
+      error: (error) => {
+        this.foodResults = [];
+        this.searchingFoods = false;
+        this.snackBar.open(error.error?.message || 'Error searching foods', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  selectFood(food: USDAFood): void {
+    this.selectedFood = food;
+  }
+
+  // Calories of the selected USDA food for the grams entered
+  getSelectedFoodCalories(): number {
+    if (!this.selectedFood) {
+      return 0;
+    }
+    return Math.round(this.mealService.extractNutritionFromUSDAFood(this.selectedFood, this.diaryForm.value.quantity || 0).calories);
+  }
+
+  canLogFood(): boolean {
+    if (this.diaryForm.invalid || this.loggingFood) {
+      return false;
+    }
+
+    const { source, mealId, calories } = this.diaryForm.value;
+    switch (source) {
+      case 'usda':
+        return !!this.selectedFood;
+      case 'recipe':
+        return !!mealId;
+      default:
+        return calories !== null && calories !== '';
+    }
+  }
+
+  // Add the food, planned meal or quick add of the form to today's diary
+  logFood(): void {
+    if (!this.canLogFood()) {
+      return;
+    }
+
+    const form = this.diaryForm.value;
+    const request: LogFoodRequest = {
+      meal_slot: form.mealSlot,
+      source: form.source,
+      quantity: form.quantity
+    };
+
+    if (form.source === 'usda') {
+      request.fdc_id = this.selectedFood!.fdcId;
+    } else if (form.source === 'recipe') {
+      request.meal_id = form.mealId;
+    } else {
+      request.name = form.name?.trim() || undefined;
+      request.calories = form.calories;
+      request.protein = form.protein ?? undefined;
+      request.carbs = form.carbs ?? undefined;
+      request.fat = form.fat ?? undefined;
+    }
+
+    this.loggingFood = true;
+    this.mealService.logFood(request).subscribe({
+      next: (response) => {
+        this.loggingFood = false;
+        this.snackBar.open(`${response.data?.entry.name || 'Food'} logged`, 'Close', { duration: 2000 });
+        this.diaryForm.patchValue({ query: '', mealId: '', name: '', calories: null, protein: null, carbs: null, fat: null });
+        this.foodResults = [];
+        this.selectedFood = null;
+        this.loadNutritionData();
+      },
+      error: (error) => {
+        this.loggingFood = false;
+        this.snackBar.open(error.error?.message || 'Error logging food', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  deleteDiaryEntry(entry: FoodLogEntry): void {
+    this.mealService.deleteFoodLogEntry(entry.id).subscribe({
+      next: () => {
+        this.snackBar.open('Diary entry removed', 'Close', { duration: 2000 });
+        this.loadNutritionData();
+      },
+      error: (error) => {
+        this.snackBar.open(error.error?.message || 'Error removing diary entry', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  getSlotCalories(slot: MealSlot): number {
+    return Math.round((this.todayDiary?.slots[slot] || []).reduce((total, entry) => total + entry.calories, 0));
+  }
+
+  getSlotIcon(slot: MealSlot): string {
+    return this.mealService.getMealTypeIcon(slot);
+  }
+
+  // Limits turn red once exceeded; allowances are green once reached
+  getNutrientColor(nutrient: NutrientIntake): 'primary' | 'accent' | 'warn' {
+    if (nutrient.kind === 'limit') {
+      return nutrient.percentage > 100 ? 'warn' : 'primary';
+    }
+    return nutrient.percentage >= 100 ? 'primary' : 'accent';
+  }
+
   navigateToMealPlanner(): void {
     this.router.navigate(['/meals']);
   }
@@ -1,5 +1,5 @@
 import { Component, OnInit } from '@angular/core';
-import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
+import { AbstractControl, FormBuilder, FormGroup, Validators, ReactiveFormsModule, ValidationErrors } from '@angular/forms';
 import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
 import { MatFormFieldModule } from '@angular/material/form-field';
@@ -11,6 +11,7 @@ import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatTabsModule } from '@angular/material/tabs';
 import { MatChipsModule } from '@angular/material/chips';
 import { AuthService, User } from '../../services/auth.service';
+import { WorkoutService } from '../../services/workout.service';
 
 export interface UserProfile {
   name: string;
@@ -48,6 +49,7 @@ export class ProfileComponent implements OnInit {
   goalsForm!: FormGroup;
   isLoading = false;
   currentUser: User | null = null;
+  minTargetDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
   genderOptions = [
     { value: 'male', label: 'Male' },
@@ -82,6 +84,7 @@ export class ProfileComponent implements OnInit {
   constructor(
     private fb: FormBuilder,
     private authService: AuthService,
+    private workoutService: WorkoutService,
     private snackBar: MatSnackBar
   ) {}
 
@@ -89,6 +92,7 @@ export class ProfileComponent implements OnInit {
     this.currentUser = this.authService.getCurrentUser();
     this.initializeForms();
     this.loadUserProfile();
+    this.loadWeightGoal();
   }
 
   private initializeForms(): void {
@@ -101,7 +105,33 @@ export class ProfileComponent implements OnInit {
     });
 
     this.goalsForm = this.fb.group({
-      goal: ['', Validators.required]
+      goal: ['', Validators.required],
+      targetWeight: ['', [Validators.min(30), Validators.max(300)]],
+      targetDate: ['']
+    }, { validators: this.targetPairValidator });
+  }
+
+  // A target weight needs a date to reach it by, and the other way round
+  private targetPairValidator(group: AbstractControl): ValidationErrors | null {
+    const hasWeight = !!group.get('targetWeight')?.value;
+    const hasDate = !!group.get('targetDate')?.value;
+    return hasWeight !== hasDate ? { targetIncomplete: true } : null;
+  }
+
+  private loadWeightGoal(): void {
+    this.workoutService.getGoals('active').subscribe({
+      next: (response) => {
+        const weightGoal = response.data?.goals.find(projection => projection.goal.metric === 'weight');
+        if (weightGoal) {
+          this.goalsForm.patchValue({
+            targetWeight: weightGoal.goal.target_value,
+            targetDate: weightGoal.goal.target_date
+          });
+        }
+      },
+      error: () => {
+        // The target fields stay empty
+      }
     });
   }
 
@@ -189,10 +219,13 @@ export class ProfileComponent implements OnInit {
     if (this.goalsForm.valid) {
       this.isLoading = true;
       
+      const targetWeight = this.goalsForm.get('targetWeight')?.value;
       const goalsData = {
         goal: this.goalsForm.get('goal')?.value,
-        // Note: targetWeight and timeframe are not in the backend model
-        // The backend expects just the goal field
+        ...(targetWeight ? {
+          target_weight: parseFloat(targetWeight),
+          target_date: this.goalsForm.get('targetDate')?.value
+        } : {})
       };
 
       this.authService.updateGoals(goalsData).subscribe({
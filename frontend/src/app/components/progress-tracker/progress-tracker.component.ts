@@ -1,5 +1,6 @@
 import { Component, OnInit, ViewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -10,7 +11,15 @@ import { MatDatepickerModule } from '@angular/material/datepicker';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
 import { MatNativeDateModule } from '@angular/material/core';
-import { WorkoutService, WorkoutMealPlan, WeeklyProgress } from '../../services/workout.service';
+import {
+  WorkoutService,
+  WorkoutMealPlan,
+  WeeklyProgress,
+  BodyMeasurement,
+  BodyTrends,
+  RecordMeasurementRequest,
+  GoalProjection
+} from '../../services/workout.service';
 import { AuthService } from '../../services/auth.service';
 import { Router } from '@angular/router';
 import { Chart, ChartConfiguration, ChartType, registerables } from 'chart.js';
@@ -28,11 +37,15 @@ interface ProgressStats {
   longestStreak: number;
 }
 
+// Days of measurement history shown in the weight chart and entry list
+const MEASUREMENT_HISTORY_DAYS = 90;
+
 @Component({
   selector: 'app-progress-tracker',
   standalone: true,
   imports: [
     CommonModule,
+    ReactiveFormsModule,
     MatCardModule,
     MatButtonModule,
     MatIconModule,
@@ -51,6 +64,7 @@ export class ProgressTrackerComponent implements OnInit {
   @ViewChild('weeklyChart', { static: false }) weeklyChartRef!: ElementRef<HTMLCanvasElement>;
   @ViewChild('completionChart', { static: false }) completionChartRef!: ElementRef<HTMLCanvasElement>;
   @ViewChild('muscleGroupChart', { static: false }) muscleGroupChartRef!: ElementRef<HTMLCanvasElement>;
+  @ViewChild('weightChart', { static: false }) weightChartRef!: ElementRef<HTMLCanvasElement>;
 
   workoutPlans: WorkoutMealPlan[] = [];
   weeklyProgress: WeeklyProgress | null = null;
@@ -66,19 +80,36 @@ export class ProgressTrackerComponent implements OnInit {
   };
   loading = false;
 
+  // Body measurement log
+  bodyTrends: BodyTrends | null = null;
+  measurements: BodyMeasurement[] = [];
+  measurementForm: FormGroup;
+  savingMeasurement = false;
+  goals: GoalProjection[] = [];
+
   private weeklyChart: Chart | null = null;
   private completionChart: Chart | null = null;
   private muscleGroupChart: Chart | null = null;
+  private weightChart: Chart | null = null;
 
   constructor(
     private workoutService: WorkoutService,
     private authService: AuthService,
     private snackBar: MatSnackBar,
-    private router: Router
-  ) {}
+    private router: Router,
+    private fb: FormBuilder
+  ) {
+    this.measurementForm = this.fb.group({
+      weight: [null, [Validators.min(30), Validators.max(300)]],
+      body_fat_percentage: [null, [Validators.min(2), Validators.max(70)]],
+      waist: [null, [Validators.min(10), Validators.max(250)]]
+    });
+  }
 
   ngOnInit(): void {
     this.loadProgressData();
+    this.loadBodyMeasurements();
+    this.loadGoals();
   }
 
   ngAfterViewInit(): void {
@@ -269,6 +300,7 @@ export class ProgressTrackerComponent implements OnInit {
     this.createWeeklyChart();
     this.createCompletionChart();
     this.createMuscleGroupChart();
+    this.createWeightChart();
   }
 
   createWeeklyChart(): void {
@@ -429,6 +461,8 @@ export class ProgressTrackerComponent implements OnInit {
 
   refreshData(): void {
     this.loadProgressData();
+    this.loadBodyMeasurements();
+    this.loadGoals();
   }
 
   ngOnDestroy(): void {
@@ -441,6 +475,9 @@ export class ProgressTrackerComponent implements OnInit {
     if (this.muscleGroupChart) {
       this.muscleGroupChart.destroy();
     }
+    if (this.weightChart) {
+      this.weightChart.destroy();
+    }
   }
 
   getStreakArray(streak: number): number[] {
@@ -604,4 +641,211 @@ export class ProgressTrackerComponent implements OnInit {
   showStreakDetails(): void {
     this.loadWorkoutStreak();
   }
-}
\ No newline at end of file
+
+  // Body measurement log: trends for the chart and summary, recent entries for the list
+  loadBodyMeasurements(): void {
+    const from = new Date();
+    from.setDate(from.getDate() - MEASUREMENT_HISTORY_DAYS);
+    const fromDate = this.toDateString(from);
+
+    this.workoutService.getMeasurementTrends(fromDate).subscribe({
+      next: (response) => {
+        if (response.success && response.data) {
+          this.bodyTrends = response.data.trends;
+          setTimeout(() => this.createWeightChart(), 100);
+        }
+      },
+      error: (error) => {
+        // Silent error handling
+      }
+    });
+
+    this.workoutService.getMeasurements(fromDate).subscribe({
+      next: (response) => {
+        if (response.success && response.data) {
+          this.measurements = [...response.data.measurements].reverse();
+        }
+      },
+      error: (error) => {
+        // Silent error handling
+      }
+    });
+  }
+
+  recordMeasurement(): void {
+    if (this.measurementForm.invalid) {
+      return;
+    }
+
+    const { weight, body_fat_percentage, waist } = this.measurementForm.value;
+    const measurement: RecordMeasurementRequest = {};
+    if (weight !== null && weight !== '') {
+      measurement.weight = Number(weight);
+    }
+    if (body_fat_percentage !== null && body_fat_percentage !== '') {
+      measurement.body_fat_percentage = Number(body_fat_percentage);
+    }
+    if (waist !== null && waist !== '') {
+      measurement.circumferences = { waist: Number(waist) };
+    }
+
+    if (Object.keys(measurement).length === 0) {
+      this.snackBar.open('Enter a weight, body fat or waist measurement', 'Close', { duration: 3000 });
+      return;
+    }
+
+    this.savingMeasurement = true;
+    this.workoutService.recordMeasurement(measurement).subscribe({
+      next: () => {
+        this.savingMeasurement = false;
+        this.measurementForm.reset();
+        this.snackBar.open('Measurement logged', 'Close', { duration: 2000 });
+        this.loadBodyMeasurements();
+        this.loadGoals();
+      },
+      error: (error) => {
+        this.savingMeasurement = false;
+        this.snackBar.open(error.error?.message || 'Error logging measurement', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  deleteMeasurement(measurement: BodyMeasurement): void {
+    this.workoutService.deleteMeasurement(measurement.id).subscribe({
+      next: () => {
+        this.snackBar.open('Measurement deleted', 'Close', { duration: 2000 });
+        this.loadBodyMeasurements();
+        this.loadGoals();
+      },
+      error: (error) => {
+        this.snackBar.open('Error deleting measurement', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  // Active goal targets with their projections
+  loadGoals(): void {
+    this.workoutService.getGoals('active').subscribe({
+      next: (response) => {
+        if (response.success && response.data) {
+          this.goals = response.data.goals;
+        }
+      },
+      error: (error) => {
+        // Silent error handling
+      }
+    });
+  }
+
+  cancelGoal(projection: GoalProjection): void {
+    this.workoutService.updateGoal(projection.goal.id, { status: 'cancelled' }).subscribe({
+      next: () => {
+        this.goals = this.goals.filter(goal => goal.goal.id !== projection.goal.id);
+        this.snackBar.open('Goal cancelled', 'Close', { duration: 2000 });
+      },
+      error: (error) => {
+        this.snackBar.open('Error cancelling goal', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  getGoalLabel(projection: GoalProjection): string {
+    switch (projection.goal.metric) {
+      case 'weight': return 'Weight';
+      case 'body_fat_percentage': return 'Body fat';
+      default: return `${projection.goal.exercise_name} (est. 1RM)`;
+    }
+  }
+
+  getGoalUnit(projection: GoalProjection): string {
+    return projection.goal.metric === 'body_fat_percentage' ? '%' : 'kg';
+  }
+
+  getGoalStatusLabel(projection: GoalProjection): string {
+    switch (projection.status) {
+      case 'achieved': return 'Achieved';
+      case 'on_track': return 'On track';
+      case 'off_track': return 'Off track';
+      default: return 'Not enough data';
+    }
+  }
+
+  // Signed rate of change, e.g. "-0.4 kg/week"
+  formatWeeklyChange(change: number | null | undefined, unit: string): string {
+    if (change === null || change === undefined) {
+      return 'Not enough data';
+    }
+    return `${change > 0 ? '+' : ''}${change.toFixed(2)} ${unit}/week`;
+  }
+
+  getTrendIcon(change: number | null | undefined): string {
+    if (!change) {
+      return 'trending_flat';
+    }
+    return change < 0 ? 'trending_down' : 'trending_up';
+  }
+
+  // Daily weights as points, the smoothed trend as a line
+  createWeightChart(): void {
+    if (!this.weightChartRef || !this.bodyTrends) return;
+
+    const ctx = this.weightChartRef.nativeElement.getContext('2d');
+    if (!ctx) return;
+
+    const points = this.bodyTrends.weight.points;
+
+    const config: ChartConfiguration = {
+      type: 'line' as ChartType,
+      data: {
+        labels: points.map(point => point.date.substring(5)),
+        datasets: [
+          {
+            label: 'Weight',
+            data: points.map(point => point.value),
+            showLine: false,
+            pointRadius: 3,
+            backgroundColor: 'rgba(102, 126, 234, 0.5)',
+            borderColor: 'rgba(102, 126, 234, 0.5)',
+          },
+          {
+            label: 'Trend',
+            data: points.map(point => point.trend),
+            pointRadius: 0,
+            borderWidth: 3,
+            borderColor: '#4CAF50',
+            tension: 0.3,
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            position: 'bottom'
+          }
+        },
+        scales: {
+          y: {
+            ticks: {
+              callback: function(value) {
+                return value + ' kg';
+              }
+            }
+          }
+        }
+      }
+    };
+
+    if (this.weightChart) {
+      this.weightChart.destroy();
+    }
+    this.weightChart = new Chart(ctx, config);
+  }
+
+  private toDateString(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
@@ -1,5 +1,6 @@
 import { Component, OnInit, Inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
@@ -11,7 +12,25 @@ import { MatDialogModule, MatDialog, MatDialogRef, MAT_DIALOG_DATA } from '@angu
 import { MatCheckboxModule } from '@angular/material/checkbox';
 import { MatBadgeModule } from '@angular/material/badge';
 import { MatTooltipModule } from '@angular/material/tooltip';
-import { WorkoutService, WorkoutMealPlan, Exercise } from '../../services/workout.service';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import {
+  WorkoutService,
+  WorkoutMealPlan,
+  Exercise,
+  ExerciseSetLog,
+  LogSetRequest,
+  ProgressionScheme,
+  ProgressionRecommendation,
+  EquipmentProfile,
+  TrainingPreferences,
+  TrainingSplit,
+  ExerciseAlternative,
+  ExerciseSection,
+  CardioModality,
+  CardioProgress
+} from '../../services/workout.service';
 import { AuthService } from '../../services/auth.service';
 import { Router } from '@angular/router';
 
@@ -162,6 +181,114 @@ export class ProgressInfoDialogComponent {
   }
 }
 
+// Exercise Swap Dialog Component
+@Component({
+  selector: 'app-exercise-swap-dialog',
+  standalone: true,
+  imports: [CommonModule, MatButtonModule, MatIconModule, MatDialogModule, MatCheckboxModule, MatProgressBarModule, MatChipsModule],
+  template: `
+    <h2 mat-dialog-title class="swap-title">
+      <mat-icon>swap_horiz</mat-icon>
+      Swap {{ data.exercise.name }}
+    </h2>
+
+    <mat-dialog-content>
+      <mat-progress-bar *ngIf="loading" mode="indeterminate"></mat-progress-bar>
+
+      <p *ngIf="!loading && alternatives.length === 0" class="no-alternatives">
+        No alternatives fit your equipment for this exercise.
+      </p>
+
+      <div *ngFor="let alternative of alternatives" class="alternative">
+        <div class="alternative-info">
+          <div class="alternative-name">{{ alternative.exercise.name }}</div>
+          <div class="alternative-details">
+            {{ alternative.exercise.primary_muscle | titlecase }} ·
+            {{ alternative.exercise.equipment.length ? alternative.exercise.equipment.join(', ') : 'bodyweight' }}
+          </div>
+          <mat-chip-set>
+            <mat-chip *ngIf="alternative.same_muscle_group">Same muscle group</mat-chip>
+            <mat-chip *ngIf="alternative.similar_equipment">Similar equipment</mat-chip>
+            <mat-chip>{{ difficultyLabels[alternative.difficulty] }}</mat-chip>
+          </mat-chip-set>
+        </div>
+        <button mat-stroked-button color="primary" (click)="choose(alternative)">Swap</button>
+      </div>
+
+      <mat-checkbox [checked]="permanent" (change)="permanent = $event.checked" class="permanent-option">
+        Keep for future weeks
+      </mat-checkbox>
+    </mat-dialog-content>
+
+    <mat-dialog-actions align="end">
+      <button mat-button mat-dialog-close>Cancel</button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    .swap-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .no-alternatives {
+      color: #666;
+      text-align: center;
+    }
+
+    .alternative {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 16px;
+      padding: 12px 0;
+      border-bottom: 1px solid #eee;
+    }
+
+    .alternative-name {
+      font-weight: 600;
+    }
+
+    .alternative-details {
+      font-size: 0.85rem;
+      color: #666;
+      margin-bottom: 4px;
+    }
+
+    .permanent-option {
+      margin-top: 12px;
+    }
+  `]
+})
+export class ExerciseSwapDialogComponent implements OnInit {
+  alternatives: ExerciseAlternative[] = [];
+  loading = true;
+  permanent = false;
+  difficultyLabels = { easier: 'Easier', same: 'Same difficulty', harder: 'Harder' };
+
+  constructor(
+    @Inject(MAT_DIALOG_DATA) public data: { day: string; exercise: Exercise },
+    private dialogRef: MatDialogRef<ExerciseSwapDialogComponent>,
+    private workoutService: WorkoutService
+  ) {}
+
+  ngOnInit(): void {
+    this.workoutService.getExerciseAlternatives(this.data.day, this.data.exercise.id).subscribe({
+      next: (response) => {
+        this.alternatives = response.data?.alternatives || [];
+        this.loading = false;
+      },
+      error: () => {
+        this.loading = false;
+      }
+    });
+  }
+
+  choose(alternative: ExerciseAlternative): void {
+    this.dialogRef.close({ catalogId: alternative.exercise.id, permanent: this.permanent });
+  }
+}
+
 @Component({
   selector: 'app-workout-routine',
   standalone: true,
@@ -177,7 +304,11 @@ export class ProgressInfoDialogComponent {
     MatDialogModule,
     MatCheckboxModule,
     MatBadgeModule,
-    MatTooltipModule
+    MatTooltipModule,
+    ReactiveFormsModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule
   ],
   templateUrl: './workout-routine.component.html',
   styleUrls: ['./workout-routine.component.scss']
@@ -190,12 +321,74 @@ export class WorkoutRoutineComponent implements OnInit {
   todayDay: string = '';
   weekDays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
 
+  // Per-set logging for the selected day
+  setLogs: { [exerciseId: string]: ExerciseSetLog[] } = {};
+  setForms: { [exerciseId: string]: FormGroup } = {};
+  openSetFormId: string | null = null;
+  savingSet = false;
+
+  // Next-session proposals for the selected day
+  progressionScheme: ProgressionScheme = 'double_progression';
+  progression: { [exerciseId: string]: ProgressionRecommendation } = {};
+  progressionSchemes: { value: ProgressionScheme; label: string }[] = [
+    { value: 'double_progression', label: 'Double progression' },
+    { value: 'linear', label: 'Linear' },
+    { value: 'percentage', label: 'Percentage of 1RM' }
+  ];
+
+  // Equipment available to the user, exercises are picked and swapped to fit it
+  equipmentProfile: EquipmentProfile = 'home';
+  equipmentProfiles: { value: EquipmentProfile; label: string }[] = [
+    { value: 'home', label: 'Home (no equipment)' },
+    { value: 'dumbbells', label: 'Dumbbells only' },
+    { value: 'full_gym', label: 'Full gym' },
+    { value: 'travel', label: 'Travel (bands)' }
+  ];
+
+  // Training frequency, split and rest days the week is laid out from
+  trainingPreferences: TrainingPreferences = {
+    training_days_per_week: 3,
+    training_split: 'auto',
+    rest_days: [],
+    session_budgets: {}
+  };
+  trainingDayOptions = [2, 3, 4, 5, 6];
+  sessionBudgetOptions = [20, 30, 45, 60, 75, 90, 120];
+  trainingSplits: { value: TrainingSplit; label: string }[] = [
+    { value: 'auto', label: 'Automatic' },
+    { value: 'full_body', label: 'Full body' },
+    { value: 'upper_lower', label: 'Upper / lower' },
+    { value: 'push_pull_legs', label: 'Push / pull / legs' },
+    { value: 'bro_split', label: 'Bro split' }
+  ];
+
+  // Sections of a day's exercise list, in session order
+  exerciseSections: { key: ExerciseSection; label: string; icon: string }[] = [
+    { key: 'warmup', label: 'Warm-up', icon: 'whatshot' },
+    { key: 'main', label: 'Workout', icon: 'fitness_center' },
+    { key: 'cooldown', label: 'Cool-down', icon: 'self_improvement' }
+  ];
+
+  // Weekly cardio minutes and distance
+  cardioProgress: CardioProgress | null = null;
+  cardioModalities: { [modality in CardioModality]: { label: string; icon: string } } = {
+    run: { label: 'Run', icon: 'directions_run' },
+    walk: { label: 'Walk', icon: 'directions_walk' },
+    cycle: { label: 'Cycle', icon: 'directions_bike' },
+    row: { label: 'Row', icon: 'rowing' },
+    swim: { label: 'Swim', icon: 'pool' },
+    elliptical: { label: 'Elliptical', icon: 'sync' },
+    jump_rope: { label: 'Jump rope', icon: 'sports_gymnastics' },
+    mixed: { label: 'Cardio', icon: 'favorite' }
+  };
+
   constructor(
     private workoutService: WorkoutService,
     private authService: AuthService,
     private snackBar: MatSnackBar,
     private dialog: MatDialog,
-    private router: Router
+    private router: Router,
+    private fb: FormBuilder
   ) {}
 
   ngOnInit(): void {
@@ -204,6 +397,14 @@ export class WorkoutRoutineComponent implements OnInit {
     
     this.todayDay = this.workoutService.getTodayDayName();
     this.selectedDay = this.todayDay;
+    const user = this.authService.getCurrentUser();
+    this.equipmentProfile = user?.equipment_profile || 'home';
+    this.trainingPreferences = {
+      training_days_per_week: user?.training_days_per_week || 3,
+      training_split: user?.training_split || 'auto',
+      rest_days: user?.rest_days || [],
+      session_budgets: user?.session_budgets || {}
+    };
     
     // Check for weekly reset and show notification if needed
     this.checkWeeklyReset();
@@ -288,6 +489,7 @@ export class WorkoutRoutineComponent implements OnInit {
           this.workoutPlans = Array.isArray(response.data.plans) ? response.data.plans : [];
           this.workoutService.updatePlansCache(this.workoutPlans);
           this.selectDay(this.selectedDay);
+          this.loadCardioProgress();
         } else {
           // Ensure workoutPlans is always an array
           this.workoutPlans = [];
@@ -371,6 +573,286 @@ export class WorkoutRoutineComponent implements OnInit {
     } else {
       this.currentPlan = null;
     }
+
+    this.openSetFormId = null;
+    this.setForms = {};
+    this.loadSetLogs();
+    this.loadProgression();
+  }
+
+  // Load next-session proposals for the selected day
+  loadProgression(): void {
+    this.progression = {};
+    if (!this.currentPlan || this.currentPlan.exercises.length === 0) return;
+
+    const day = this.selectedDay;
+    this.workoutService.getProgression(day).subscribe({
+      next: (response) => {
+        if (response.success && response.data && day === this.selectedDay) {
+          this.progressionScheme = response.data.scheme;
+          this.progression = response.data.recommendations.reduce((byExercise, recommendation) => {
+            byExercise[recommendation.exerciseId] = recommendation;
+            return byExercise;
+          }, {} as { [exerciseId: string]: ProgressionRecommendation });
+        }
+      },
+      error: (error) => {
+        // Silent error handling, proposals are optional
+      }
+    });
+  }
+
+  changeProgressionScheme(scheme: ProgressionScheme): void {
+    this.workoutService.updateProgressionScheme(scheme).subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.snackBar.open('Progression scheme updated', 'Close', { duration: 2000 });
+          this.loadProgression();
+        }
+      },
+      error: (error) => {
+        this.snackBar.open('Error updating progression scheme', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  changeEquipmentProfile(profile: EquipmentProfile): void {
+    this.workoutService.updateEquipmentProfile(profile).subscribe({
+      next: (response) => {
+        if (response.success && response.data) {
+          this.equipmentProfile = response.data.profile;
+          this.workoutPlans = response.data.plans;
+          this.workoutService.updatePlansCache(this.workoutPlans);
+          this.selectDay(this.selectedDay);
+          this.snackBar.open(response.message, 'Close', { duration: 3000 });
+
+          // Refresh the cached profile so the choice survives a reload
+          this.authService.getProfile().subscribe({ error: () => {} });
+        }
+      },
+      error: (error) => {
+        this.snackBar.open('Error updating equipment profile', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  changeTrainingPreferences(changes: Partial<TrainingPreferences>): void {
+    this.workoutService.updateTrainingPreferences(changes).subscribe({
+      next: (response) => {
+        if (response.success && response.data) {
+          this.trainingPreferences = response.data.preferences;
+          this.workoutPlans = response.data.plans;
+          this.workoutService.updatePlansCache(this.workoutPlans);
+          this.selectDay(this.selectedDay);
+          this.snackBar.open(response.message, 'Close', { duration: 3000 });
+
+          // Refresh the cached profile so the choice survives a reload
+          this.authService.getProfile().subscribe({ error: () => {} });
+        }
+      },
+      error: (error) => {
+        // Rebind the rest days so the multi-select drops the rejected choice
+        this.trainingPreferences = { ...this.trainingPreferences, rest_days: [...this.trainingPreferences.rest_days] };
+        this.snackBar.open(error.error?.message || 'Error updating training preferences', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  // Rest days are saved once the multi-select closes, and only if they changed
+  changeRestDays(restDays: string[]): void {
+    const current = this.trainingPreferences.rest_days;
+    if (restDays.length === current.length && restDays.every(day => current.includes(day))) {
+      return;
+    }
+    this.changeTrainingPreferences({ rest_days: restDays });
+  }
+
+  // Set or clear (null) the time budget of the selected day
+  changeSessionBudget(minutes: number | null): void {
+    const budgets = { ...this.trainingPreferences.session_budgets };
+    if (minutes) {
+      budgets[this.selectedDay] = minutes;
+    } else {
+      delete budgets[this.selectedDay];
+    }
+    this.changeTrainingPreferences({ session_budgets: budgets });
+  }
+
+  getSessionBudget(): number | null {
+    return this.trainingPreferences.session_budgets[this.selectedDay] || null;
+  }
+
+  isOverBudget(plan: WorkoutMealPlan): boolean {
+    const budget = this.trainingPreferences.session_budgets[plan.day];
+    return !!budget && !!plan.estimated_duration && plan.estimated_duration.total_minutes > budget;
+  }
+
+  getProgression(exercise: Exercise): ProgressionRecommendation | null {
+    return this.progression[exercise.id] || null;
+  }
+
+  formatProgressionTarget(recommendation: ProgressionRecommendation): string {
+    const { sets, reps, weight } = recommendation.next;
+    return weight ? `${sets} × ${reps} @ ${weight} kg` : `${sets} × ${reps} reps`;
+  }
+
+  getProgressionIcon(recommendation: ProgressionRecommendation): string {
+    const icons = { increase: 'trending_up', hold: 'trending_flat', deload: 'trending_down', no_history: 'flag' };
+    return icons[recommendation.status];
+  }
+
+  // Load the sets logged for the selected day, grouped by exercise
+  loadSetLogs(): void {
+    this.setLogs = {};
+    if (!this.currentPlan || this.currentPlan.exercises.length === 0) return;
+
+    const day = this.selectedDay;
+    this.workoutService.getDaySets(day).subscribe({
+      next: (response) => {
+        if (response.success && response.data && day === this.selectedDay) {
+          this.setLogs = response.data.sets.reduce((groups, set) => {
+            (groups[set.exercise_id] = groups[set.exercise_id] || []).push(set);
+            return groups;
+          }, {} as { [exerciseId: string]: ExerciseSetLog[] });
+        }
+      },
+      error: (error) => {
+        // Silent error handling, the plan is still usable without set history
+      }
+    });
+  }
+
+  getLoggedSets(exercise: Exercise): ExerciseSetLog[] {
+    return this.setLogs[exercise.id] || [];
+  }
+
+  // Set-entry form of an exercise, prefilled with the prescribed reps and load
+  getSetForm(exercise: Exercise): FormGroup {
+    if (!this.setForms[exercise.id]) {
+      this.setForms[exercise.id] = this.fb.group({
+        reps: [exercise.reps, [Validators.required, Validators.min(0), Validators.max(200)]],
+        weight: [exercise.weight ?? null, [Validators.min(0), Validators.max(1000)]],
+        rpe: [null, [Validators.min(1), Validators.max(10)]],
+        rir: [null, [Validators.min(0), Validators.max(10)]],
+        rest_seconds: [null, [Validators.min(0), Validators.max(3600)]],
+        notes: ['', [Validators.maxLength(500)]]
+      });
+    }
+    return this.setForms[exercise.id];
+  }
+
+  toggleSetForm(exercise: Exercise): void {
+    this.openSetFormId = this.openSetFormId === exercise.id ? null : exercise.id;
+  }
+
+  logSet(exercise: Exercise): void {
+    const form = this.getSetForm(exercise);
+    if (form.invalid || this.savingSet) {
+      form.markAllAsTouched();
+      return;
+    }
+
+    const value = form.value;
+    const set: LogSetRequest = {
+      reps: value.reps,
+      weight: value.weight,
+      rpe: value.rpe,
+      rir: value.rir,
+      rest_seconds: value.rest_seconds,
+      notes: value.notes || null
+    };
+
+    const day = this.selectedDay;
+    const wasCompleted = this.isExerciseCompleted(exercise);
+    this.savingSet = true;
+
+    this.workoutService.logSet(day, exercise.id, set).subscribe({
+      next: (response) => {
+        this.savingSet = false;
+        if (response.success && response.data) {
+          this.setLogs[exercise.id] = [...this.getLoggedSets(exercise), response.data.set];
+          this.replacePlan(response.data.plan);
+          this.loadProgression();
+          // Keep reps and load for the next set, clear the per-set fields
+          form.patchValue({ rpe: null, rir: null, rest_seconds: null, notes: '' });
+
+          if (!wasCompleted && this.isExerciseCompleted(exercise)) {
+            this.snackBar.open('🎉 All sets logged, exercise completed!', 'Close', { duration: 2000 });
+            this.checkDayCompletion();
+          } else {
+            this.snackBar.open(`Set ${response.data.set.set_number} logged`, 'Close', { duration: 2000 });
+          }
+        }
+      },
+      error: (error) => {
+        this.savingSet = false;
+        this.snackBar.open(error.error?.message || 'Error logging set', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  deleteSet(set: ExerciseSetLog): void {
+    this.workoutService.deleteSet(this.selectedDay, set.id).subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.setLogs[set.exercise_id] = (this.setLogs[set.exercise_id] || []).filter(s => s.id !== set.id);
+          this.loadProgression();
+          this.snackBar.open('Set removed', 'Close', { duration: 2000 });
+        }
+      },
+      error: (error) => {
+        this.snackBar.open('Error removing set', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  formatSet(set: ExerciseSetLog): string {
+    let text = set.weight ? `${set.reps} × ${set.weight} kg` : `${set.reps} reps`;
+    if (set.rpe) text += ` @ RPE ${set.rpe}`;
+    if (set.rir !== undefined && set.rir !== null) text += ` (${set.rir} RIR)`;
+    if (set.rest_seconds) text += ` · ${this.formatDuration(set.rest_seconds)} rest`;
+    return text;
+  }
+
+  // Replace a plan of the loaded week with a fresh copy from the server
+  private replacePlan(plan: WorkoutMealPlan): void {
+    if (!this.workoutPlans || !Array.isArray(this.workoutPlans)) return;
+
+    const planIndex = this.workoutPlans.findIndex(p => p.day === plan.day);
+    if (planIndex !== -1) {
+      this.workoutPlans[planIndex] = plan;
+      if (this.currentPlan?.day === plan.day) {
+        this.currentPlan = plan;
+      }
+      this.workoutService.updatePlansCache(this.workoutPlans);
+    }
+  }
+
+  // Pick a substitute for an exercise that can't be done today
+  openSwapDialog(exercise: Exercise): void {
+    const dialogRef = this.dialog.open(ExerciseSwapDialogComponent, {
+      width: '520px',
+      data: { day: this.selectedDay, exercise }
+    });
+
+    dialogRef.afterClosed().subscribe((choice?: { catalogId: number; permanent: boolean }) => {
+      if (!choice) return;
+
+      this.workoutService.swapExercise(this.selectedDay, exercise.id, choice.catalogId, choice.permanent).subscribe({
+        next: (response) => {
+          if (response.success && response.data) {
+            const updatedPlan = response.data.plan;
+            this.workoutPlans = this.workoutPlans.map(plan => plan.day === updatedPlan.day ? updatedPlan : plan);
+            this.workoutService.updatePlansCache(this.workoutPlans);
+            this.selectDay(this.selectedDay);
+            this.snackBar.open(response.message, 'Close', { duration: 3000 });
+          }
+        },
+        error: (error) => {
+          this.snackBar.open(error.error?.message || 'Error swapping exercise', 'Close', { duration: 3000 });
+        }
+      });
+    });
   }
 
   toggleExerciseCompletion(exercise: Exercise): void {
@@ -410,6 +892,10 @@ export class WorkoutRoutineComponent implements OnInit {
             }
           }
           
+          if (this.isCardio(exercise)) {
+            this.loadCardioProgress();
+          }
+
           const message = !isCompleted ? 
             '🎉 Exercise completed! Great job!' : 
             'Exercise marked as incomplete';
@@ -485,13 +971,15 @@ export class WorkoutRoutineComponent implements OnInit {
       return { completed: 0, total: 0 };
     }
 
-    const completedExercises = plan.exercises.filter(ex => 
+    // Only the working exercises count, warm-up and cool-down are optional
+    const mainExercises = plan.exercises.filter(ex => this.workoutService.isMainExercise(ex));
+    const completedExercises = mainExercises.filter(ex => 
       plan.completed_status.exercises && plan.completed_status.exercises[ex.id]
     ).length;
     
     return {
       completed: completedExercises,
-      total: plan.exercises.length
+      total: mainExercises.length
     };
   }
 
@@ -517,6 +1005,52 @@ export class WorkoutRoutineComponent implements OnInit {
     return remainingSeconds > 0 ? `${minutes}m ${remainingSeconds}s` : `${minutes}m`;
   }
 
+  // Load this week's cardio totals
+  loadCardioProgress(): void {
+    this.workoutService.getCardioProgress().subscribe({
+      next: (response) => {
+        if (response.success && response.data) {
+          this.cardioProgress = response.data.cardio;
+        }
+      },
+      error: () => {
+        this.cardioProgress = null;
+      }
+    });
+  }
+
+  isCardio(exercise: Exercise): boolean {
+    return this.workoutService.isCardio(exercise);
+  }
+
+  getCardioModality(exercise: Exercise): { label: string; icon: string } {
+    return this.cardioModalities[exercise.cardio?.modality || 'mixed'] || this.cardioModalities.mixed;
+  }
+
+  getCardioTotalSeconds(exercise: Exercise): number {
+    return this.workoutService.getCardioTotalSeconds(exercise);
+  }
+
+  // e.g. "8 × 30s on / 1m 30s off"
+  formatIntervals(exercise: Exercise): string {
+    const intervals = exercise.cardio?.intervals;
+    if (!intervals) return '';
+    return `${intervals.rounds} × ${this.formatShortDuration(intervals.work_seconds)} on / ` +
+      `${this.formatShortDuration(intervals.rest_seconds)} off`;
+  }
+
+  // Pace as m:ss per kilometer
+  formatPace(secondsPerKm: number): string {
+    const minutes = Math.floor(secondsPerKm / 60);
+    const seconds = secondsPerKm % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')} /km`;
+  }
+
+  // Seconds under a minute stay in seconds ("30s"), longer spans use formatDuration
+  private formatShortDuration(seconds: number): string {
+    return seconds < 60 ? `${seconds}s` : this.formatDuration(seconds);
+  }
+
   isToday(day: string): boolean {
     return day === this.todayDay;
   }
@@ -525,10 +1059,29 @@ export class WorkoutRoutineComponent implements OnInit {
     this.router.navigate(['/progress']);
   }
 
+  // Open the guided session mode for the selected day
+  startSession(): void {
+    this.router.navigate(['/workouts/session', this.selectedDay]);
+  }
+
   trackByExerciseId(index: number, exercise: Exercise): string {
     return exercise.id;
   }
 
+  // Exercises of a plan grouped by section, empty sections left out
+  getExerciseSections(plan: WorkoutMealPlan): { key: ExerciseSection; label: string; icon: string; exercises: Exercise[] }[] {
+    return this.exerciseSections
+      .map(section => ({
+        ...section,
+        exercises: plan.exercises.filter(exercise => (exercise.section || 'main') === section.key)
+      }))
+      .filter(section => section.exercises.length > 0);
+  }
+
+  trackBySection(index: number, section: { key: ExerciseSection }): string {
+    return section.key;
+  }
+
   // Enhanced methods for better progress tracking
   adjustWorkoutIntensity(): void {
     this.loading = true;
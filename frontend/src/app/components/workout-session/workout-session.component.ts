@@ -0,0 +1,402 @@
+import { Component, OnInit, OnDestroy, Inject, PLATFORM_ID } from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSnackBarModule, MatSnackBar } from '@angular/material/snack-bar';
+import {
+  WorkoutService,
+  WorkoutMealPlan,
+  Exercise,
+  LogSetRequest,
+  WorkoutSessionSummary
+} from '../../services/workout.service';
+
+// Session progress kept in localStorage so a reload resumes where the user left off
+interface StoredSession {
+  day: string;
+  planDate?: string;
+  startedAt: string;
+  exerciseIndex: number;
+  restSeconds: number;
+  restEndsAt: number | null;
+  lastSetAt: number | null;
+  performed: { [exerciseId: string]: LogSetRequest[] };
+}
+
+const STORAGE_PREFIX = 'workoutSession:';
+const REST_PREFERENCE_KEY = 'sessionRestSeconds';
+const DEFAULT_REST_SECONDS = 90;
+
+@Component({
+  selector: 'app-workout-session',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressBarModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatSnackBarModule
+  ],
+  templateUrl: './workout-session.component.html',
+  styleUrls: ['./workout-session.component.scss']
+})
+export class WorkoutSessionComponent implements OnInit, OnDestroy {
+  day = '';
+  plan: WorkoutMealPlan | null = null;
+  exercises: Exercise[] = [];
+  session: StoredSession | null = null;
+  setForm: FormGroup;
+  loading = true;
+  submitting = false;
+  summary: WorkoutSessionSummary | null = null;
+
+  restOptions = [30, 45, 60, 90, 120, 180];
+  restRemaining = 0;
+  elapsedSeconds = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private workoutService: WorkoutService,
+    private snackBar: MatSnackBar,
+    private fb: FormBuilder,
+    @Inject(PLATFORM_ID) private platformId: Object
+  ) {
+    this.setForm = this.fb.group({
+      reps: [null, [Validators.required, Validators.min(0), Validators.max(1000)]],
+      weight: [null, [Validators.min(0), Validators.max(1000)]],
+      rpe: [null, [Validators.min(1), Validators.max(10)]],
+      rir: [null, [Validators.min(0), Validators.max(10)]],
+      notes: ['', Validators.maxLength(500)]
+    });
+  }
+
+  ngOnInit(): void {
+    this.day = this.route.snapshot.paramMap.get('day') || this.workoutService.getTodayDayName();
+
+    this.workoutService.getPlanByDay(this.day).subscribe({
+      next: (response) => {
+        this.plan = response.data?.plan || null;
+        this.loading = false;
+        if (!this.plan) return;
+
+        // Exercises already completed are not part of the session
+        this.exercises = this.plan.exercises.filter(exercise => !this.plan!.completed_status.exercises[exercise.id]);
+        this.session = this.restoreSession(this.plan) || this.startSession(this.plan);
+        this.prefillSetForm();
+        this.startTimer();
+      },
+      error: () => {
+        this.loading = false;
+        this.snackBar.open('Error loading workout', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  get currentExercise(): Exercise | null {
+    return this.session ? this.exercises[this.session.exerciseIndex] || null : null;
+  }
+
+  get currentSets(): LogSetRequest[] {
+    const exercise = this.currentExercise;
+    return exercise && this.session ? this.session.performed[exercise.id] || [] : [];
+  }
+
+  get completedSetCount(): number {
+    if (!this.session) return 0;
+    return this.exercises.reduce(
+      (sum, exercise) => sum + Math.min(this.session!.performed[exercise.id]?.length || 0, exercise.sets),
+      0
+    );
+  }
+
+  get totalSetCount(): number {
+    return this.exercises.reduce((sum, exercise) => sum + exercise.sets, 0);
+  }
+
+  get allSetsDone(): boolean {
+    return this.totalSetCount > 0 && this.completedSetCount >= this.totalSetCount;
+  }
+
+  get hasPerformedSets(): boolean {
+    return !!this.session && Object.values(this.session.performed).some(sets => sets.length > 0);
+  }
+
+  // Record the set from the form, then start resting (or move on once the exercise is done)
+  completeSet(): void {
+    const exercise = this.currentExercise;
+    if (!exercise || !this.session || this.setForm.invalid) return;
+
+    const value = this.setForm.value;
+    const now = Date.now();
+    const sets = this.session.performed[exercise.id] || [];
+
+    sets.push({
+      reps: value.reps,
+      weight: value.weight ?? null,
+      rpe: value.rpe ?? null,
+      rir: value.rir ?? null,
+      rest_seconds: sets.length > 0 && this.session.lastSetAt ? Math.round((now - this.session.lastSetAt) / 1000) : null,
+      notes: value.notes || null
+    });
+    this.session.performed[exercise.id] = sets;
+    this.session.lastSetAt = now;
+
+    if (sets.length >= exercise.sets) {
+      this.moveToNextUnfinished();
+    }
+
+    if (!this.allSetsDone) {
+      // Cardio intervals prescribe their own recovery between rounds
+      const intervals = exercise.cardio?.intervals;
+      const restSeconds = intervals && sets.length < exercise.sets ? intervals.rest_seconds : this.session.restSeconds;
+      this.session.restEndsAt = now + restSeconds * 1000;
+      this.tick();
+    }
+
+    this.saveSession();
+    this.prefillSetForm();
+  }
+
+  // Undo the last recorded set of the current exercise
+  removeLastSet(): void {
+    const exercise = this.currentExercise;
+    if (!exercise || !this.session || this.currentSets.length === 0) return;
+
+    this.session.performed[exercise.id].pop();
+    this.saveSession();
+    this.prefillSetForm();
+  }
+
+  goToExercise(index: number): void {
+    if (!this.session || index < 0 || index >= this.exercises.length) return;
+
+    this.session.exerciseIndex = index;
+    this.session.restEndsAt = null;
+    this.restRemaining = 0;
+    this.saveSession();
+    this.prefillSetForm();
+  }
+
+  addRest(seconds: number): void {
+    if (!this.session?.restEndsAt) return;
+
+    this.session.restEndsAt += seconds * 1000;
+    this.saveSession();
+    this.tick();
+  }
+
+  skipRest(): void {
+    if (!this.session) return;
+
+    this.session.restEndsAt = null;
+    this.restRemaining = 0;
+    this.saveSession();
+  }
+
+  changeRestSeconds(seconds: number): void {
+    if (!this.session) return;
+
+    this.session.restSeconds = seconds;
+    this.saveSession();
+    if (isPlatformBrowser(this.platformId)) {
+      localStorage.setItem(REST_PREFERENCE_KEY, String(seconds));
+    }
+  }
+
+  // Post every performed set in one call and clear the stored session
+  finishSession(): void {
+    if (!this.session || !this.hasPerformedSets || this.submitting) return;
+
+    this.submitting = true;
+    const exercises = Object.entries(this.session.performed)
+      .filter(([, sets]) => sets.length > 0)
+      .map(([exercise_id, sets]) => ({ exercise_id, sets }));
+
+    this.workoutService.completeSession(this.day, {
+      started_at: this.session.startedAt,
+      finished_at: new Date().toISOString(),
+      exercises
+    }).subscribe({
+      next: (response) => {
+        this.submitting = false;
+        if (response.success && response.data) {
+          this.summary = response.data.summary;
+          this.clearSession();
+          this.snackBar.open(response.message, 'Close', { duration: 3000 });
+        }
+      },
+      error: (error) => {
+        // The session stays stored so it can be posted again
+        this.submitting = false;
+        this.snackBar.open(error.error?.message || 'Error saving session', 'Close', { duration: 3000 });
+      }
+    });
+  }
+
+  // Throw the session away without saving anything
+  discardSession(): void {
+    this.clearSession();
+    this.router.navigate(['/workouts']);
+  }
+
+  // Leave session mode; progress is kept for later
+  exit(): void {
+    this.router.navigate(['/workouts']);
+  }
+
+  formatTime(totalSeconds: number): string {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${mmss}` : mmss;
+  }
+
+  formatSet(set: LogSetRequest): string {
+    let summary = `${set.reps} reps`;
+    if (set.weight) summary += ` @ ${set.weight} kg`;
+    if (set.rpe) summary += ` · RPE ${set.rpe}`;
+    return summary;
+  }
+
+  formatTarget(exercise: Exercise): string {
+    if (this.workoutService.isCardio(exercise)) {
+      const cardio = exercise.cardio!;
+      if (cardio.intervals) {
+        return `${cardio.intervals.rounds} × ${cardio.intervals.work_seconds}s on / ${cardio.intervals.rest_seconds}s off`;
+      }
+      const minutes = Math.round(this.workoutService.getCardioTotalSeconds(exercise) / 60);
+      return cardio.distance_km ? `${minutes} min · ${cardio.distance_km} km` : `${minutes} min`;
+    }
+    return exercise.duration ? `${exercise.sets} × ${exercise.duration}s` : `${exercise.sets} × ${exercise.reps} reps`;
+  }
+
+  getPerformedCount(exercise: Exercise): number {
+    return this.session?.performed[exercise.id]?.length || 0;
+  }
+
+  isExerciseDone(exercise: Exercise): boolean {
+    return this.getPerformedCount(exercise) >= exercise.sets;
+  }
+
+  private startSession(plan: WorkoutMealPlan): StoredSession {
+    const storedRest = isPlatformBrowser(this.platformId) ? Number(localStorage.getItem(REST_PREFERENCE_KEY)) : 0;
+    const session: StoredSession = {
+      day: plan.day,
+      planDate: plan.plan_date,
+      startedAt: new Date().toISOString(),
+      exerciseIndex: 0,
+      restSeconds: storedRest || DEFAULT_REST_SECONDS,
+      restEndsAt: null,
+      lastSetAt: null,
+      performed: {}
+    };
+    this.saveSession(session);
+    return session;
+  }
+
+  // Resume a stored session of the same plan; sessions of another week are dropped
+  private restoreSession(plan: WorkoutMealPlan): StoredSession | null {
+    if (!isPlatformBrowser(this.platformId)) return null;
+
+    const stored = localStorage.getItem(STORAGE_PREFIX + this.day);
+    if (!stored) return null;
+
+    try {
+      const session: StoredSession = JSON.parse(stored);
+      if (session.planDate !== plan.plan_date) {
+        localStorage.removeItem(STORAGE_PREFIX + this.day);
+        return null;
+      }
+      session.exerciseIndex = Math.min(session.exerciseIndex, Math.max(this.exercises.length - 1, 0));
+      return session;
+    } catch {
+      localStorage.removeItem(STORAGE_PREFIX + this.day);
+      return null;
+    }
+  }
+
+  private saveSession(session: StoredSession | null = this.session): void {
+    if (session && isPlatformBrowser(this.platformId)) {
+      localStorage.setItem(STORAGE_PREFIX + this.day, JSON.stringify(session));
+    }
+  }
+
+  private clearSession(): void {
+    if (isPlatformBrowser(this.platformId)) {
+      localStorage.removeItem(STORAGE_PREFIX + this.day);
+    }
+    this.session = null;
+    this.restRemaining = 0;
+  }
+
+  // Next exercise with sets left, wrapping around to ones skipped earlier
+  private moveToNextUnfinished(): void {
+    if (!this.session) return;
+
+    for (let offset = 1; offset <= this.exercises.length; offset++) {
+      const index = (this.session.exerciseIndex + offset) % this.exercises.length;
+      if (!this.isExerciseDone(this.exercises[index])) {
+        this.session.exerciseIndex = index;
+        return;
+      }
+    }
+  }
+
+  // Reps default to the prescription, load to the previous set of the exercise
+  private prefillSetForm(): void {
+    const exercise = this.currentExercise;
+    const previous = this.currentSets[this.currentSets.length - 1];
+
+    this.setForm.reset({
+      reps: previous?.reps ?? exercise?.reps ?? null,
+      weight: previous?.weight ?? exercise?.weight ?? null,
+      rpe: null,
+      rir: null,
+      notes: ''
+    });
+  }
+
+  private startTimer(): void {
+    if (!isPlatformBrowser(this.platformId)) return;
+
+    this.tick();
+    this.timer = setInterval(() => this.tick(), 1000);
+  }
+
+  private tick(): void {
+    if (!this.session) return;
+
+    const now = Date.now();
+    this.elapsedSeconds = Math.floor((now - new Date(this.session.startedAt).getTime()) / 1000);
+
+    if (this.session.restEndsAt) {
+      this.restRemaining = Math.max(Math.ceil((this.session.restEndsAt - now) / 1000), 0);
+      if (this.restRemaining === 0) {
+        this.session.restEndsAt = null;
+        this.saveSession();
+        navigator.vibrate?.(300);
+      }
+    }
+  }
+}
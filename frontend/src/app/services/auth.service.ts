@@ -14,7 +14,13 @@ export interface User {
   height?: number;
   weight?: number;
   goal?: 'weight_loss' | 'muscle_gain' | 'maintenance';
-  role: 'user';
+  progression_scheme?: 'linear' | 'double_progression' | 'percentage';
+  equipment_profile?: 'home' | 'dumbbells' | 'full_gym' | 'travel';
+  training_days_per_week?: number;
+  training_split?: 'auto' | 'full_body' | 'upper_lower' | 'push_pull_legs' | 'bro_split';
+  rest_days?: string[];
+  session_budgets?: { [day: string]: number };
+  role: 'user' | 'admin';
   created_at?: Date;
 }
 
@@ -284,7 +290,7 @@ export class AuthService {
   }
 
   // Update user fitness goals
-  updateGoals(goalsData: { goal: string; targetWeight?: number; timeframe?: string }): Observable<{ success: boolean; user?: User; message?: string }> {
+  updateGoals(goalsData: { goal: string; target_weight?: number; target_date?: string }): Observable<{ success: boolean; user?: User; message?: string }> {
     const token = this.getToken();
     if (!token) {
       return throwError(() => new Error('No authentication token'));
@@ -14,8 +14,19 @@ export interface Food {
   carbs?: number;
   fat?: number;
   fiber?: number;
+  micronutrients?: Micronutrients; // For the quantity, when known (e.g. foods added from USDA)
 }
 
+// Micronutrients tracked per food; fiber is tracked with the macros
+export const MICRONUTRIENT_KEYS = [
+  'sugar', 'sodium', 'potassium', 'calcium', 'iron', 'magnesium', 'zinc',
+  'vitaminA', 'vitaminC', 'vitaminD', 'vitaminE', 'vitaminK', 'vitaminB6', 'vitaminB12', 'folate'
+] as const;
+
+export type MicronutrientKey = typeof MICRONUTRIENT_KEYS[number];
+
+export type Micronutrients = { [key in MicronutrientKey]?: number };
+
 export interface Meal {
   id: string;
   name: string;
@@ -28,9 +39,17 @@ export interface Meal {
   foods: Food[];
   consumed: boolean;
   consumed_at?: Date;
+  portion?: number; // Share eaten of a consumed meal, all of it when unset
+  consumed_foods?: ConsumedFood[]; // Set when the meal was checked off per food
   image?: string;
 }
 
+// Quantity eaten of the food at a position of a meal
+export interface ConsumedFood {
+  index: number;
+  quantity: number;
+}
+
 export interface DailyMealPlan {
   id: number;
   user_id: number;
@@ -57,6 +76,100 @@ export interface NutritionTargets {
   fiber: number;
 }
 
+// Weekly recalibration of the calorie target and the reasoning behind it
+export interface CalorieAdjustment {
+  id: number;
+  week_start: string;
+  method: 'formula' | 'adaptive'; // From the profile, or from logged intake and the weight trend
+  tdee: number; // Estimated maintenance calories
+  calorie_target: number;
+  previous_target?: number;
+  average_intake?: number;
+  logged_days: number;
+  weekly_weight_change?: number;
+  reason: string;
+}
+
+export interface NutritionGoals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  exerciseCalories?: number;
+  adjustment?: CalorieAdjustment;
+}
+
+// Food diary: what was actually eaten, on plan or not
+export type MealSlot = Meal['type'];
+
+export interface FoodLogEntry {
+  id: number;
+  logged_on: string;
+  meal_slot: MealSlot;
+  source: 'usda' | 'recipe' | 'quick_add';
+  name: string;
+  fdc_id?: number;
+  plan_meal_id?: string; // Planned meal the entry was logged from
+  quantity: number;
+  unit: 'g' | 'serving';
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  micronutrients?: Micronutrients;
+}
+
+export interface LogFoodRequest {
+  logged_on?: string;
+  meal_slot: MealSlot;
+  source: FoodLogEntry['source'];
+  fdc_id?: number;
+  meal_id?: string;
+  quantity?: number; // Grams of a USDA food, servings otherwise
+  name?: string; // Quick adds, with the nutrition of one serving
+  calories?: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+}
+
+// Totals of a day's diary entries
+export interface DailyIntake {
+  date: string;
+  entries: number;
+  slots: MealSlot[];
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+export interface FoodDiaryDay {
+  date: string;
+  slots: { [slot in MealSlot]: FoodLogEntry[] };
+  totals: DailyIntake;
+}
+
+// A day's intake of fiber or a micronutrient against its target for the user's age and sex
+export interface NutrientIntake {
+  key: 'fiber' | MicronutrientKey;
+  label: string;
+  unit: 'g' | 'mg' | 'µg';
+  kind: 'minimum' | 'limit'; // A daily allowance to reach, or an upper limit to stay under
+  amount: number;
+  target: number;
+  percentage: number;
+}
+
+export interface DailyMicronutrients {
+  date: string;
+  entries: number;
+  tracked_entries: number; // Entries with micronutrient data
+  nutrients: NutrientIntake[];
+}
+
 export interface NutritionProgress {
   consumed: NutritionTargets;
   targets: NutritionTargets;
@@ -115,19 +228,13 @@ export interface USDASearchResult {
   foods: USDAFood[];
 }
 
-export interface NutritionData {
+export type NutritionData = {
   calories: number;
   protein: number;
   carbs: number;
   fat: number;
   fiber: number;
-  sugar: number;
-  sodium: number;
-  calcium: number;
-  iron: number;
-  vitaminC: number;
-  vitaminD: number;
-}
+} & { [key in MicronutrientKey]: number };
 
 export interface NutritionRecommendations {
   recommendations: string[];
@@ -196,11 +303,17 @@ export class MealService {
     );
   }
 
-  // Mark meal as consumed (using new backend API)
-  markMealAsConsumed(day: string, mealId: string, consumed: boolean): Observable<ApiResponse<{ plan: any }>> {
+  // Mark meal as consumed, in full or partly (a portion, or the quantities eaten per food)
+  markMealAsConsumed(
+    day: string,
+    mealId: string,
+    consumed: boolean,
+    portion?: number,
+    foods?: ConsumedFood[]
+  ): Observable<ApiResponse<{ plan: any }>> {
     return this.http.post<ApiResponse<{ plan: any }>>(
       `${this.apiUrl}/meals/${day}/consume`,
-      { meal_id: mealId, consumed },
+      { meal_id: mealId, consumed, portion, foods },
       { headers: this.getHeaders() }
     );
   }
@@ -213,10 +326,11 @@ export class MealService {
     );
   }
 
-  // Get nutrition goals (using new backend API)
-  getNutritionGoals(): Observable<ApiResponse<{ nutritionGoals: any }>> {
-    return this.http.get<ApiResponse<{ nutritionGoals: any }>>(
-      `${this.apiUrl}/meals/nutrition-goals`,
+  // Get nutrition goals (using new backend API); for a day, raised by part of its workout calories.
+  // Also returns the history of weekly calorie target adjustments, latest first.
+  getNutritionGoals(day?: string): Observable<ApiResponse<{ nutritionGoals: NutritionGoals; adjustments: CalorieAdjustment[] }>> {
+    return this.http.get<ApiResponse<{ nutritionGoals: NutritionGoals; adjustments: CalorieAdjustment[] }>>(
+      `${this.apiUrl}/meals/nutrition-goals${day ? `?day=${day}` : ''}`,
       { headers: this.getHeaders() }
     );
   }
@@ -247,6 +361,56 @@ export class MealService {
     );
   }
 
+  // Get a day of the food diary (today by default)
+  getFoodDiary(date?: string): Observable<ApiResponse<{ diary: FoodDiaryDay }>> {
+    return this.http.get<ApiResponse<{ diary: FoodDiaryDay }>>(
+      `${this.apiUrl}/food-log${date ? `?date=${date}` : ''}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Get logged totals of each day with diary entries in a date range
+  getDailyIntake(from: string, to: string): Observable<ApiResponse<{ from: string; to: string; intake: DailyIntake[] }>> {
+    return this.http.get<ApiResponse<{ from: string; to: string; intake: DailyIntake[] }>>(
+      `${this.apiUrl}/food-log/intake?from=${from}&to=${to}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Get a day's fiber and micronutrient intake (today by default) against the daily targets
+  getMicronutrients(date?: string): Observable<ApiResponse<{ micronutrients: DailyMicronutrients }>> {
+    return this.http.get<ApiResponse<{ micronutrients: DailyMicronutrients }>>(
+      `${this.apiUrl}/food-log/micronutrients${date ? `?date=${date}` : ''}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Log a USDA food, servings of a planned meal, or quick-added calories and macros
+  logFood(request: LogFoodRequest): Observable<ApiResponse<{ entry: FoodLogEntry }>> {
+    return this.http.post<ApiResponse<{ entry: FoodLogEntry }>>(
+      `${this.apiUrl}/food-log`,
+      request,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Move a diary entry or change its quantity
+  updateFoodLogEntry(id: number, changes: Partial<Omit<LogFoodRequest, 'source' | 'fdc_id' | 'meal_id'>>): Observable<ApiResponse<{ entry: FoodLogEntry }>> {
+    return this.http.put<ApiResponse<{ entry: FoodLogEntry }>>(
+      `${this.apiUrl}/food-log/${id}`,
+      changes,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Delete a diary entry
+  deleteFoodLogEntry(id: number): Observable<ApiResponse> {
+    return this.http.delete<ApiResponse>(
+      `${this.apiUrl}/food-log/${id}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
   // USDA Food API Integration Methods
 
   // Search for foods using USDA database
@@ -336,25 +500,24 @@ export class MealService {
       fiber: 1079,       // Fiber, total dietary (g)
       sugar: 2000,       // Sugars, total including NLEA (g)
       sodium: 1093,      // Sodium, Na (mg)
+      potassium: 1092,   // Potassium, K (mg)
       calcium: 1087,     // Calcium, Ca (mg)
       iron: 1089,        // Iron, Fe (mg)
+      magnesium: 1090,   // Magnesium, Mg (mg)
+      zinc: 1095,        // Zinc, Zn (mg)
+      vitaminA: 1106,    // Vitamin A, RAE (µg)
       vitaminC: 1162,    // Vitamin C, total ascorbic acid (mg)
-      vitaminD: 1114     // Vitamin D (D2 + D3) (µg)
+      vitaminD: 1114,    // Vitamin D (D2 + D3) (µg)
+      vitaminE: 1109,    // Vitamin E, alpha-tocopherol (mg)
+      vitaminK: 1185,    // Vitamin K, phylloquinone (µg)
+      vitaminB6: 1175,   // Vitamin B-6 (mg)
+      vitaminB12: 1178,  // Vitamin B-12 (µg)
+      folate: 1190       // Folate, DFE (µg)
     };
 
-    const nutritionData: NutritionData = {
-      calories: 0,
-      protein: 0,
-      carbs: 0,
-      fat: 0,
-      fiber: 0,
-      sugar: 0,
-      sodium: 0,
-      calcium: 0,
-      iron: 0,
-      vitaminC: 0,
-      vitaminD: 0
-    };
+    const nutritionData = Object.fromEntries(
+      Object.keys(nutrientMap).map(key => [key, 0])
+    ) as NutritionData;
 
     // Extract nutrition values
     Object.entries(nutrientMap).forEach(([key, nutrientId]) => {
@@ -382,7 +545,8 @@ export class MealService {
       protein: nutrition.protein,
       carbs: nutrition.carbs,
       fat: nutrition.fat,
-      fiber: nutrition.fiber
+      fiber: nutrition.fiber,
+      micronutrients: Object.fromEntries(MICRONUTRIENT_KEYS.map(key => [key, nutrition[key]]))
     };
   }
 
@@ -409,13 +573,21 @@ export class MealService {
     return meal.foods.reduce((total, food) => total + food.calories, 0);
   }
 
-  calculateDayProgress(plan: DailyMealPlan): NutritionProgress {
-    const consumed = {
-      calories: Math.round(plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.calories, 0)),
-      protein: Math.round(plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.protein, 0)),
-      carbs: Math.round(plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.carbs, 0)),
-      fat: Math.round(plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.fat, 0) * 10) / 10, // Round to 1 decimal
-      fiber: Math.round(plan.meals.filter(m => m.consumed).reduce((total, meal) => total + meal.fiber, 0))
+  // Progress of a day against its plan's targets; consumed values come from the food
+  // diary when its totals are given, else from the meals marked as consumed
+  calculateDayProgress(plan: DailyMealPlan, intake?: DailyIntake): NutritionProgress {
+    const consumed = intake ? {
+      calories: Math.round(intake.calories),
+      protein: Math.round(intake.protein),
+      carbs: Math.round(intake.carbs),
+      fat: Math.round(intake.fat * 10) / 10,
+      fiber: Math.round(intake.fiber)
+    } : {
+      calories: Math.round(this.sumConsumed(plan, meal => meal.calories)),
+      protein: Math.round(this.sumConsumed(plan, meal => meal.protein)),
+      carbs: Math.round(this.sumConsumed(plan, meal => meal.carbs)),
+      fat: Math.round(this.sumConsumed(plan, meal => meal.fat) * 10) / 10, // Round to 1 decimal
+      fiber: Math.round(this.sumConsumed(plan, meal => meal.fiber))
     };
 
     const targets = {
@@ -445,6 +617,13 @@ export class MealService {
     return { consumed, targets, percentages, remaining };
   }
 
+  // Sum a nutrient over the consumed meals of a plan, by the share of each meal eaten
+  private sumConsumed(plan: DailyMealPlan, nutrient: (meal: Meal) => number): number {
+    return plan.meals
+      .filter(meal => meal.consumed)
+      .reduce((total, meal) => total + nutrient(meal) * (meal.portion ?? 1), 0);
+  }
+
   getMealTypeIcon(type: string): string {
     const icons: { [key: string]: string } = {
       'breakfast': 'wb_sunny',
@@ -7,16 +7,55 @@ import { environment } from '../../environments/environment';
 export interface Exercise {
   id: string;
   name: string;
-  sets: number;
+  sets: number; // Interval rounds for cardio, 1 for steady-state cardio
   reps: number;
   weight?: number;
-  duration?: number;
+  duration?: number; // Seconds: per set, or one work interval / the whole session for cardio
   instructions?: string;
   muscle_group?: string;
+  catalog_id?: number;
+  section?: ExerciseSection; // Main when not set
+  type?: ExerciseType; // Strength when not set
+  cardio?: CardioDetails;
+  met?: number;
+  estimated_calories?: number; // kcal at the user's weight
+  unavailable?: boolean; // Needs equipment the profile lacks and nothing feasible replaces it
   completed_at?: Date;
   locked?: boolean; // Prevent reverting completed exercises
 }
 
+export type ExerciseSection = 'warmup' | 'main' | 'cooldown';
+
+export type ExerciseType = 'strength' | 'cardio';
+
+export type CardioModality = 'run' | 'walk' | 'cycle' | 'row' | 'swim' | 'elliptical' | 'jump_rope' | 'mixed';
+
+export interface CardioIntervals {
+  rounds: number;
+  work_seconds: number;
+  rest_seconds: number;
+}
+
+export interface CardioDetails {
+  modality: CardioModality;
+  distance_km?: number;
+  pace_seconds_per_km?: number;
+  heart_rate_zone?: number; // 1-5
+  intervals?: CardioIntervals;
+}
+
+// Weekly cardio totals; the breakdowns count completed sessions only
+export interface CardioProgress {
+  plannedSessions: number;
+  completedSessions: number;
+  plannedMinutes: number;
+  completedMinutes: number;
+  plannedDistanceKm: number;
+  completedDistanceKm: number;
+  byModality: { [modality: string]: { sessions: number; minutes: number; distanceKm: number } };
+  minutesByZone: { [zone: string]: number };
+}
+
 export interface Meal {
   id: string;
   name: string;
@@ -39,6 +78,7 @@ export interface Food {
 export interface CompletedStatus {
   exercises: { [exerciseId: string]: boolean };
   meals: { [mealId: string]: boolean };
+  meal_consumption?: { [mealId: string]: { portion: number; foods?: { index: number; quantity: number }[] } }; // Meals not eaten in full
   date_completed?: Date;
   completion_locked?: { [exerciseId: string]: Date }; // Lock completed exercises
 }
@@ -52,10 +92,216 @@ export interface WorkoutMealPlan {
   completed_status: CompletedStatus;
   created_at: Date;
   updated_at: Date;
+  plan_date?: string; // Calendar date of this plan (YYYY-MM-DD)
+  week_start?: string; // Monday of the plan's week (YYYY-MM-DD)
+  estimated_duration?: SessionDurationEstimate;
+  estimated_calories?: number; // kcal burned by the whole session
   week_number?: number; // Track which week this plan belongs to
   archived?: boolean; // Mark old weeks as archived
 }
 
+export interface ExerciseSetLog {
+  id: number;
+  plan_id: number;
+  plan_date: string;
+  exercise_id: string;
+  exercise_name: string;
+  set_number: number;
+  reps: number;
+  weight?: number;
+  rpe?: number; // Rate of perceived exertion (1-10)
+  rir?: number; // Reps in reserve
+  rest_seconds?: number;
+  notes?: string;
+  logged_at: Date;
+}
+
+export interface LogSetRequest {
+  set_number?: number;
+  reps: number;
+  weight?: number | null;
+  rpe?: number | null;
+  rir?: number | null;
+  rest_seconds?: number | null;
+  notes?: string | null;
+}
+
+export interface CompleteSessionRequest {
+  started_at: string;
+  finished_at: string;
+  exercises: { exercise_id: string; sets: LogSetRequest[] }[];
+}
+
+export interface WorkoutSessionSummary {
+  day: string;
+  plan_date: string;
+  duration_seconds: number;
+  exercises_performed: number;
+  exercises_completed: number;
+  total_sets: number;
+  total_reps: number;
+  total_volume: number;
+}
+
+export type ProgressionScheme = 'linear' | 'double_progression' | 'percentage';
+
+export interface ProgressionRecommendation {
+  exerciseId: string;
+  exerciseName: string;
+  day: string;
+  scheme: ProgressionScheme;
+  status: 'increase' | 'hold' | 'deload' | 'no_history';
+  current: { sets: number; reps: number; weight?: number };
+  next: { sets: number; reps: number; weight?: number };
+  reason: string;
+  stalledSessions: number;
+  lastSession?: {
+    date: string;
+    sets: number;
+    topWeight: number;
+    topReps: number;
+    minReps: number;
+    averageRpe?: number;
+    estimatedOneRepMax?: number;
+    hitTarget: boolean;
+  };
+}
+
+export type EquipmentProfile = 'home' | 'dumbbells' | 'full_gym' | 'travel';
+
+export interface ExerciseSubstitution {
+  day: string;
+  planDate: string;
+  from: { id: string; name: string };
+  to: { id: string; name: string } | null; // null when nothing feasible was found
+  dropped?: boolean; // Removed instead of kept and flagged unavailable
+}
+
+export interface CatalogExercise {
+  id: number;
+  slug: string;
+  name: string;
+  primary_muscle: string;
+  secondary_muscles: string[];
+  equipment: string[];
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  default_sets: number;
+  default_reps: number;
+  default_duration?: number;
+  instructions?: string;
+  media_url?: string;
+}
+
+export interface ExerciseAlternative {
+  exercise: CatalogExercise;
+  score: number;
+  same_muscle_group: boolean;
+  similar_equipment: boolean;
+  difficulty: 'easier' | 'same' | 'harder';
+}
+
+export type TrainingSplit = 'auto' | 'full_body' | 'upper_lower' | 'push_pull_legs' | 'bro_split';
+
+export interface TrainingPreferences {
+  training_days_per_week: number;
+  training_split: TrainingSplit;
+  rest_days: string[];
+  session_budgets: { [day: string]: number }; // Minutes available, by weekday
+}
+
+export interface SessionDurationEstimate {
+  warmup_seconds: number;
+  work_seconds: number;
+  rest_seconds: number;
+  cooldown_seconds: number;
+  total_seconds: number;
+  total_minutes: number;
+}
+
+export interface TrainingDay {
+  day: string;
+  session: string | null;
+  focus: { muscle: string; exercises: number }[];
+  budget_minutes?: number;
+}
+
+// Body measurement log (weight in kg, circumferences in cm)
+export type CircumferenceSite = 'neck' | 'chest' | 'waist' | 'hips' | 'arm' | 'thigh';
+
+export interface BodyMeasurement {
+  id: number;
+  measured_on: string; // YYYY-MM-DD
+  weight?: number;
+  body_fat_percentage?: number;
+  circumferences: { [site in CircumferenceSite]?: number };
+  notes?: string;
+  created_at: string;
+}
+
+export interface RecordMeasurementRequest {
+  measured_on?: string;
+  weight?: number;
+  body_fat_percentage?: number;
+  circumferences?: { [site in CircumferenceSite]?: number };
+  notes?: string;
+}
+
+// Daily value next to its smoothed trend
+export interface TrendPoint {
+  date: string;
+  value: number;
+  trend: number;
+}
+
+export interface BodyMetricTrend {
+  metric: string;
+  unit: 'kg' | '%' | 'cm';
+  points: TrendPoint[];
+  latest?: number;
+  trend?: number;
+  weekly_change: number | null; // Per week; null without enough history
+}
+
+export interface BodyTrends {
+  weight: BodyMetricTrend;
+  body_fat_percentage: BodyMetricTrend;
+  circumferences: { [site in CircumferenceSite]?: BodyMetricTrend };
+}
+
+export type GoalMetric = 'weight' | 'body_fat_percentage' | 'strength';
+
+export type GoalTrackStatus = 'achieved' | 'on_track' | 'off_track' | 'insufficient_data';
+
+export interface GoalTarget {
+  id: number;
+  metric: GoalMetric;
+  exercise_name?: string; // Strength goals: the lift whose estimated 1RM is tracked
+  start_value?: number;
+  target_value: number;
+  start_date: string;
+  target_date: string;
+  status: 'active' | 'achieved' | 'cancelled';
+  achieved_on?: string;
+}
+
+export interface GoalProjection {
+  goal: GoalTarget;
+  current_value?: number;
+  progress_percent: number;
+  weekly_rate: number | null; // Observed change per week
+  required_weekly_rate: number | null; // Change per week needed to reach the target on time
+  projected_date: string | null; // When the observed rate reaches the target
+  weeks_remaining: number;
+  status: GoalTrackStatus;
+}
+
+export interface CreateGoalRequest {
+  metric: GoalMetric;
+  exercise_name?: string;
+  target_value: number;
+  target_date: string;
+}
+
 export interface WeeklyProgress {
   totalDays: number;
   completedDays: number;
@@ -76,15 +322,49 @@ export interface StreakInfo {
   streakStartDate?: Date;
 }
 
+export interface WeeklyArchiveDayTotals {
+  day: string;
+  planDate: string;
+  totalExercises: number;
+  completedExercises: number;
+  totalMeals: number;
+  completedMeals: number;
+  plannedCalories: number;
+  consumedCalories: number;
+  completionPercentage: number;
+}
+
 export interface WeeklyArchive {
+  id: number;
+  isoYear: number;
   weekNumber: number;
-  weekStartDate: Date;
-  weekEndDate: Date;
+  weekStartDate: string;
+  weekEndDate: string;
   totalExercises: number;
   completedExercises: number;
+  totalMeals: number;
+  completedMeals: number;
   completionPercentage: number;
   streakDays: number;
   achievements: string[];
+  dailyTotals: WeeklyArchiveDayTotals[];
+  days?: {
+    day: string;
+    planDate: string;
+    exercises: Exercise[];
+    meals: Meal[];
+    completedStatus: CompletedStatus;
+  }[];
+  archivedAt: Date;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
 }
 
 export interface ApiResponse<T = any> {
@@ -111,7 +391,7 @@ export class WorkoutService {
   ) {
     this.currentWeekNumber = this.getCurrentWeekNumber();
     this.weekStartDate = this.getWeekStartDate();
-    this.checkWeeklyReset();
+    // Week rollover (archiving and starting the new week) is handled by the backend scheduler
   }
 
   private getHeaders(): HttpHeaders {
@@ -151,53 +431,11 @@ export class WorkoutService {
     return new Date(now.setDate(diff));
   }
 
-  // Check if we need to reset for new week
-  private checkWeeklyReset(): void {
-    if (!isPlatformBrowser(this.platformId)) return;
-
-    const lastWeekNumber = localStorage.getItem('lastWeekNumber');
-    const currentWeek = this.getCurrentWeekNumber();
-
-    if (lastWeekNumber && parseInt(lastWeekNumber) !== currentWeek) {
-      this.performWeeklyReset();
-    }
-
-    localStorage.setItem('lastWeekNumber', currentWeek.toString());
-  }
-
-  // Perform weekly reset - archive current progress and create new plans
-  private performWeeklyReset(): void {
-    this.archiveCurrentWeek().subscribe({
-      next: () => {
-        this.generateNewWeekPlans().subscribe({
-          next: () => {
-            // Weekly reset completed successfully
-          },
-          error: (error) => {
-            // Silent error handling for weekly reset
-          }
-        });
-      },
-      error: (error) => {
-        // Silent error handling for archive operation
-      }
-    });
-  }
-
-  // Archive current week's progress
-  archiveCurrentWeek(): Observable<ApiResponse<{ archive: WeeklyArchive }>> {
+  // Archive a week's progress (current week when no week start is given)
+  archiveCurrentWeek(weekStart?: string): Observable<ApiResponse<{ archive: WeeklyArchive }>> {
     return this.http.post<ApiResponse<{ archive: WeeklyArchive }>>(
       `${this.apiUrl}/workouts/archive-week`,
-      { weekNumber: this.currentWeekNumber - 1 },
-      { headers: this.getHeaders() }
-    );
-  }
-
-  // Generate new week plans
-  generateNewWeekPlans(): Observable<ApiResponse<{ plans: WorkoutMealPlan[] }>> {
-    return this.http.post<ApiResponse<{ plans: WorkoutMealPlan[] }>>(
-      `${this.apiUrl}/workouts/generate-week`,
-      { weekNumber: this.currentWeekNumber },
+      weekStart ? { weekStart } : {},
       { headers: this.getHeaders() }
     );
   }
@@ -235,6 +473,128 @@ export class WorkoutService {
     );
   }
 
+  // Get the sets logged for a day of the current week
+  getDaySets(day: string): Observable<ApiResponse<{ sets: ExerciseSetLog[] }>> {
+    return this.http.get<ApiResponse<{ sets: ExerciseSetLog[] }>>(
+      `${this.apiUrl}/workouts/${day}/sets`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Log a performed set (the exercise is completed once all prescribed sets are logged)
+  logSet(day: string, exerciseId: string, set: LogSetRequest): Observable<ApiResponse<{ set: ExerciseSetLog; plan: WorkoutMealPlan }>> {
+    return this.http.post<ApiResponse<{ set: ExerciseSetLog; plan: WorkoutMealPlan }>>(
+      `${this.apiUrl}/workouts/${day}/exercises/${encodeURIComponent(exerciseId)}/sets`,
+      set,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Record a finished guided session, all performed sets at once
+  completeSession(day: string, session: CompleteSessionRequest): Observable<ApiResponse<{
+    plan: WorkoutMealPlan;
+    sets: ExerciseSetLog[];
+    summary: WorkoutSessionSummary;
+  }>> {
+    return this.http.post<ApiResponse<{ plan: WorkoutMealPlan; sets: ExerciseSetLog[]; summary: WorkoutSessionSummary }>>(
+      `${this.apiUrl}/workouts/${day}/session`,
+      session,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Update a logged set
+  updateSet(day: string, setId: number, set: Partial<LogSetRequest>): Observable<ApiResponse<{ set: ExerciseSetLog }>> {
+    return this.http.put<ApiResponse<{ set: ExerciseSetLog }>>(
+      `${this.apiUrl}/workouts/${day}/sets/${setId}`,
+      set,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Delete a logged set
+  deleteSet(day: string, setId: number): Observable<ApiResponse> {
+    return this.http.delete<ApiResponse>(
+      `${this.apiUrl}/workouts/${day}/sets/${setId}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Get next-session load proposals from logged sets (one day or the whole week)
+  getProgression(day?: string): Observable<ApiResponse<{ scheme: ProgressionScheme; recommendations: ProgressionRecommendation[] }>> {
+    return this.http.get<ApiResponse<{ scheme: ProgressionScheme; recommendations: ProgressionRecommendation[] }>>(
+      `${this.apiUrl}/workouts/progression${day ? `?day=${day}` : ''}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Select the load progression scheme
+  updateProgressionScheme(scheme: ProgressionScheme): Observable<ApiResponse<{ scheme: ProgressionScheme }>> {
+    return this.http.put<ApiResponse<{ scheme: ProgressionScheme }>>(
+      `${this.apiUrl}/workouts/progression/scheme`,
+      { scheme },
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Select the equipment profile; exercises it rules out are swapped for the rest of the week
+  updateEquipmentProfile(profile: EquipmentProfile): Observable<ApiResponse<{
+    profile: EquipmentProfile;
+    substitutions: ExerciseSubstitution[];
+    plans: WorkoutMealPlan[];
+  }>> {
+    return this.http.put<ApiResponse<{
+      profile: EquipmentProfile;
+      substitutions: ExerciseSubstitution[];
+      plans: WorkoutMealPlan[];
+    }>>(
+      `${this.apiUrl}/workouts/equipment-profile`,
+      { profile },
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Get substitutes for an exercise, best match first
+  getExerciseAlternatives(day: string, exerciseId: string, limit: number = 5): Observable<ApiResponse<{
+    exercise: Exercise;
+    alternatives: ExerciseAlternative[];
+  }>> {
+    return this.http.get<ApiResponse<{ exercise: Exercise; alternatives: ExerciseAlternative[] }>>(
+      `${this.apiUrl}/workouts/${day}/exercises/${encodeURIComponent(exerciseId)}/alternatives?limit=${limit}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Swap an exercise for a catalog exercise, for this week only unless permanent
+  swapExercise(day: string, exerciseId: string, catalogId: number, permanent: boolean = false): Observable<ApiResponse<{
+    plan: WorkoutMealPlan;
+    from: Exercise;
+    to: Exercise;
+  }>> {
+    return this.http.post<ApiResponse<{ plan: WorkoutMealPlan; from: Exercise; to: Exercise }>>(
+      `${this.apiUrl}/workouts/${day}/exercises/${encodeURIComponent(exerciseId)}/swap`,
+      { catalog_id: catalogId, permanent },
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Set training days per week, split, rest days and time budgets; the routine is regenerated to match
+  updateTrainingPreferences(preferences: Partial<TrainingPreferences>): Observable<ApiResponse<{
+    preferences: TrainingPreferences;
+    week: TrainingDay[];
+    plans: WorkoutMealPlan[];
+  }>> {
+    return this.http.put<ApiResponse<{
+      preferences: TrainingPreferences;
+      week: TrainingDay[];
+      plans: WorkoutMealPlan[];
+    }>>(
+      `${this.apiUrl}/workouts/training-preferences`,
+      preferences,
+      { headers: this.getHeaders() }
+    );
+  }
+
   // Get weekly progress with enhanced tracking
   getWeeklyProgress(): Observable<ApiResponse<{ progress: WeeklyProgress }>> {
     return this.http.get<ApiResponse<{ progress: WeeklyProgress }>>(
@@ -252,9 +612,17 @@ export class WorkoutService {
   }
 
   // Get archived weeks for progress history
-  getArchivedWeeks(limit: number = 10): Observable<ApiResponse<{ archives: WeeklyArchive[] }>> {
-    return this.http.get<ApiResponse<{ archives: WeeklyArchive[] }>>(
-      `${this.apiUrl}/workouts/archived-weeks?limit=${limit}`,
+  getArchivedWeeks(limit: number = 10, page: number = 1): Observable<ApiResponse<{ archives: WeeklyArchive[]; pagination: Pagination }>> {
+    return this.http.get<ApiResponse<{ archives: WeeklyArchive[]; pagination: Pagination }>>(
+      `${this.apiUrl}/workouts/archived-weeks?limit=${limit}&page=${page}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  // Get full snapshot of one archived week
+  getArchivedWeek(weekStart: string): Observable<ApiResponse<{ archive: WeeklyArchive }>> {
+    return this.http.get<ApiResponse<{ archive: WeeklyArchive }>>(
+      `${this.apiUrl}/workouts/archived-weeks/${weekStart}`,
       { headers: this.getHeaders() }
     );
   }
@@ -299,7 +667,8 @@ export class WorkoutService {
       return 0;
     }
 
-    const exercises = Array.isArray(plan.exercises) ? plan.exercises : [];
+    // Warm-up and cool-down don't count towards completion
+    const exercises = Array.isArray(plan.exercises) ? plan.exercises.filter(ex => this.isMainExercise(ex)) : [];
     const meals = Array.isArray(plan.meals) ? plan.meals : [];
     const totalItems = exercises.length + meals.length;
     
@@ -316,6 +685,25 @@ export class WorkoutService {
     return Math.round(((completedExercises + completedMeals) / totalItems) * 100);
   }
 
+  // Working exercise of a day, as opposed to its warm-up and cool-down
+  isMainExercise(exercise: Exercise): boolean {
+    return (exercise.section || 'main') === 'main';
+  }
+
+  // Cardio session, measured in time and distance rather than sets and reps
+  isCardio(exercise: Exercise): boolean {
+    return exercise.type === 'cardio' && !!exercise.cardio;
+  }
+
+  // Length of a cardio session, recoveries between intervals included
+  getCardioTotalSeconds(exercise: Exercise): number {
+    const intervals = exercise.cardio?.intervals;
+    if (intervals) {
+      return intervals.rounds * intervals.work_seconds + Math.max(intervals.rounds - 1, 0) * intervals.rest_seconds;
+    }
+    return exercise.sets * (exercise.duration || 0);
+  }
+
   // Check if exercise completion is locked (cannot be reverted)
   isExerciseCompletionLocked(plan: WorkoutMealPlan, exerciseId: string): boolean {
     if (!plan.completed_status.completion_locked) return false;
@@ -466,6 +854,76 @@ export class WorkoutService {
     return this.getStreakInfo();
   }
 
+  getCardioProgress(): Observable<ApiResponse<{ cardio: CardioProgress }>> {
+    return this.http.get<ApiResponse<{ cardio: CardioProgress }>>(
+      `${this.apiUrl}/progress/cardio`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  getMeasurements(from?: string, to?: string): Observable<ApiResponse<{ measurements: BodyMeasurement[] }>> {
+    const query = [from ? `from=${from}` : '', to ? `to=${to}` : ''].filter(Boolean).join('&');
+    return this.http.get<ApiResponse<{ measurements: BodyMeasurement[] }>>(
+      `${this.apiUrl}/measurements${query ? `?${query}` : ''}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  getMeasurementTrends(from?: string): Observable<ApiResponse<{ trends: BodyTrends }>> {
+    return this.http.get<ApiResponse<{ trends: BodyTrends }>>(
+      `${this.apiUrl}/measurements/trends${from ? `?from=${from}` : ''}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  recordMeasurement(measurement: RecordMeasurementRequest): Observable<ApiResponse<{ measurement: BodyMeasurement }>> {
+    return this.http.post<ApiResponse<{ measurement: BodyMeasurement }>>(
+      `${this.apiUrl}/measurements`,
+      measurement,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  deleteMeasurement(id: number): Observable<ApiResponse> {
+    return this.http.delete<ApiResponse>(
+      `${this.apiUrl}/measurements/${id}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  getGoals(status?: GoalTarget['status']): Observable<ApiResponse<{ goals: GoalProjection[] }>> {
+    return this.http.get<ApiResponse<{ goals: GoalProjection[] }>>(
+      `${this.apiUrl}/goals${status ? `?status=${status}` : ''}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  createGoal(goal: CreateGoalRequest): Observable<ApiResponse<{ goal: GoalProjection }>> {
+    return this.http.post<ApiResponse<{ goal: GoalProjection }>>(
+      `${this.apiUrl}/goals`,
+      goal,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  updateGoal(
+    id: number,
+    changes: { target_value?: number; target_date?: string; status?: 'active' | 'cancelled' }
+  ): Observable<ApiResponse<{ goal: GoalProjection }>> {
+    return this.http.put<ApiResponse<{ goal: GoalProjection }>>(
+      `${this.apiUrl}/goals/${id}`,
+      changes,
+      { headers: this.getHeaders() }
+    );
+  }
+
+  deleteGoal(id: number): Observable<ApiResponse> {
+    return this.http.delete<ApiResponse>(
+      `${this.apiUrl}/goals/${id}`,
+      { headers: this.getHeaders() }
+    );
+  }
+
   getMuscleGroupProgress(): Observable<ApiResponse<{ muscleGroups: any[] }>> {
     return this.http.get<ApiResponse<{ muscleGroups: any[] }>>(
       `${this.apiUrl}/progress/muscle-groups?week=${this.currentWeekNumber}`,